@@ -123,6 +123,8 @@ export interface LineItem {
   product_name?: string | null;
   /** Quantity (can be 0 or positive) */
   quantity: number;
+  /** Unit of measure the quantity is stated in (piece, dozen, pack, box, carton) */
+  unit?: string | null;
   /** Unit price from source spreadsheet */
   unit_price_source?: number | null;
   /** Unit price from Zoho (takes precedence) */
@@ -3,7 +3,18 @@
  */
 
 /**
- * Evidence cell reference pointing to a specific cell in a spreadsheet
+ * Rectangle on a PDF page in points (1/72 inch), origin at the top-left
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Evidence cell reference pointing to a specific cell in a spreadsheet,
+ * or to a page region for PDF orders
  */
 export interface EvidenceCell {
   /** Sheet name */
@@ -16,6 +27,10 @@ export interface EvidenceCell {
   display_value?: string | null;
   /** Excel number format string */
   number_format?: string | null;
+  /** PDF only: 1-based page number (sheet is "Page N", cell is "x,y,width,height") */
+  page?: number;
+  /** PDF only: location of the value on the page */
+  bbox?: BoundingBox;
   /** Allow additional properties */
   [key: string]: unknown;
 }
@@ -28,6 +43,7 @@ export interface LineItemEvidence {
   gtin?: EvidenceCell;
   product_name?: EvidenceCell;
   quantity?: EvidenceCell;
+  unit?: EvidenceCell;
   unit_price_source?: EvidenceCell;
   line_total_source?: EvidenceCell;
   /** Allow additional evidence fields */
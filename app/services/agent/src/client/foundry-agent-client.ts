@@ -51,7 +51,8 @@ Communication style:
 - Be concise and professional
 - Focus on actionable questions
 - Group related issues together
-- Provide context from the original spreadsheet cells`;
+- Provide context from the original spreadsheet cells
+- Reply in the language the user writes in (English or Farsi)`;
 
 /**
  * Azure AI Foundry Agent Client
@@ -282,7 +283,17 @@ export class FoundryAgentClient {
           });
           // Return current messages with tool call info
           const messages = await this.getMessages(threadId);
-          return messages;
+          return [
+            ...messages,
+            {
+              id: `${runId}_tool_calls`,
+              role: 'assistant',
+              content: '',
+              toolCalls,
+              runId,
+              timestamp: new Date().toISOString(),
+            },
+          ];
 
         case 'failed':
         case 'cancelled':
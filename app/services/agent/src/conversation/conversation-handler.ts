@@ -59,6 +59,16 @@ export interface ConversationResult {
   patchesApplied: number;
 }
 
+/**
+ * Correction the agent proposes for a free-text instruction
+ */
+export interface CorrectionProposal {
+  /** Patch of the agent's revalidate_case call, empty if it made none */
+  patch: JsonPatchOperation[];
+  /** The agent's reply, e.g. a clarifying question when there is no patch */
+  reply: string;
+}
+
 /**
  * Conversation Handler class
  */
@@ -294,6 +304,124 @@ export class ConversationHandler {
     }
   }
 
+  /**
+   * Propose a correction for a free-text instruction without applying it
+   * The agent expresses the instruction as a revalidate_case call. The call
+   * is answered as awaiting confirmation and its patch returned, so the user
+   * can confirm it with confirmCorrection.
+   */
+  async proposeCorrection(
+    threadId: string,
+    instruction: string,
+    order: CanonicalSalesOrder,
+    tenantId: string
+  ): Promise<CorrectionProposal> {
+    const span = this.tracer.startSpan('conversation.proposeCorrection', {
+      threadId,
+    });
+
+    try {
+      const threadState = await this.stateManager.getThreadState(threadId, tenantId);
+      if (!threadState) {
+        throw new Error('Thread not found');
+      }
+
+      let messages = await this.client.sendMessage(
+        threadId,
+        this.formatInstructionAsMessage(instruction, threadState.caseId, order),
+        threadState.caseId
+      );
+
+      let patch: JsonPatchOperation[] = [];
+      const lastMessage = messages[messages.length - 1];
+
+      if (lastMessage?.runId && lastMessage.toolCalls) {
+        const revalidateCall = lastMessage.toolCalls.find((c) => c.name === 'revalidate_case');
+        if (revalidateCall && Array.isArray(revalidateCall.arguments.patch)) {
+          patch = revalidateCall.arguments.patch as JsonPatchOperation[];
+        }
+
+        // The run waits for tool outputs; nothing is applied until the user confirms
+        const results: ToolResult[] = lastMessage.toolCalls.map((call) => ({
+          toolCallId: call.id,
+          content: JSON.stringify({ status: 'awaiting_user_confirmation' }),
+          success: true,
+        }));
+        messages = await this.client.submitToolResults(
+          threadId,
+          lastMessage.runId,
+          results,
+          threadState.caseId
+        );
+      }
+
+      const reply = messages
+        .filter((m) => m.role === 'assistant' && m.content)
+        .map((m) => m.content)
+        .pop() || '';
+
+      await this.stateManager.updateThreadState(threadId, tenantId, {
+        lastActivityAt: new Date().toISOString(),
+        messageCount: threadState.messageCount + 2,
+        status: 'awaiting_user',
+      });
+
+      span.addEvent('correction_proposed', { patchCount: patch.length });
+
+      return { patch, reply };
+    } catch (error) {
+      span.setError(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Apply a correction the user confirmed
+   * Executes revalidate_case with exactly the confirmed patch.
+   */
+  async confirmCorrection(
+    threadId: string,
+    patch: JsonPatchOperation[],
+    tenantId: string
+  ): Promise<ToolResult> {
+    const span = this.tracer.startSpan('conversation.confirmCorrection', {
+      threadId,
+      patchCount: patch.length,
+    });
+
+    try {
+      const threadState = await this.stateManager.getThreadState(threadId, tenantId);
+      if (!threadState) {
+        throw new Error('Thread not found');
+      }
+
+      const result = await this.toolExecutor.execute(
+        {
+          id: `confirmed_${Date.now()}`,
+          name: 'revalidate_case',
+          arguments: { caseId: threadState.caseId, patch },
+        },
+        tenantId,
+        threadState.correlationId
+      );
+
+      await this.stateManager.updateThreadState(threadId, tenantId, {
+        lastActivityAt: new Date().toISOString(),
+      });
+
+      span.addEvent('correction_confirmed', { success: result.success });
+
+      return result;
+    } catch (error) {
+      span.setError(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Request draft creation
    */
@@ -538,6 +666,37 @@ export class ConversationHandler {
     return parts.join('\n');
   }
 
+  /**
+   * Format a free-text instruction as a message for the agent
+   * The current customer and lines are included so that line numbers and
+   * phrases like "the last two lines" can be resolved to patch paths.
+   */
+  private formatInstructionAsMessage(
+    instruction: string,
+    caseId: string,
+    order: CanonicalSalesOrder
+  ): string {
+    const lines = (order.line_items || []).map((item, index) => ({
+      path: `/line_items/${index}`,
+      line: item.row + 1,
+      sku: item.sku,
+      product_name: item.product_name,
+      quantity: item.quantity,
+    }));
+
+    return [
+      `The user asks to change order ${caseId}, in English or Farsi:`,
+      instruction,
+      '',
+      `Current customer: ${JSON.stringify(order.customer?.input_name ?? null)}`,
+      `Current lines: ${JSON.stringify(lines)}`,
+      '',
+      'Express the change as a single revalidate_case call. Line numbers given by the user are the "line" values above.',
+      'Remove lines from the highest path first. Set a new customer name on /customer/input_name.',
+      'If the instruction is unclear, ask a short question in the language of the user instead.',
+    ].join('\n');
+  }
+
   /**
    * Get current issues for a case
    */
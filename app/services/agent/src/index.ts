@@ -44,6 +44,7 @@ export {
   ConversationHandler,
   type ConversationHandlerConfig,
   type ConversationResult,
+  type CorrectionProposal,
 } from './conversation/conversation-handler.js';
 
 // Tracing
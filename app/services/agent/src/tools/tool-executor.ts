@@ -28,18 +28,20 @@ import { Logger } from '@order-processing/shared';
 
 /**
  * External service dependencies for tool execution
+ * Only the case service is required; calls to tools whose service is not
+ * provided fail with a tool error the agent can report.
  */
 export interface ToolDependencies {
   /** Case service for case operations */
   caseService: CaseServiceInterface;
   /** Zoho service for draft creation */
-  zohoService: ZohoServiceInterface;
+  zohoService?: ZohoServiceInterface;
   /** Customer matcher for lookups */
-  customerMatcher: CustomerMatcherInterface;
+  customerMatcher?: CustomerMatcherInterface;
   /** Item matcher for lookups */
-  itemMatcher: ItemMatcherInterface;
+  itemMatcher?: ItemMatcherInterface;
   /** Committee engine for field mapping */
-  committeeEngine: CommitteeEngineInterface;
+  committeeEngine?: CommitteeEngineInterface;
 }
 
 /**
@@ -302,7 +304,7 @@ export class ToolExecutor {
       caseId: args.caseId,
     });
 
-    const result = await this.deps.zohoService.createDraftSalesOrder(
+    const result = await this.requireDependency('zohoService').createDraftSalesOrder(
       args.caseId,
       tenantId
     );
@@ -328,7 +330,7 @@ export class ToolExecutor {
     });
 
     if (args.kind === 'customer') {
-      const candidates = await this.deps.customerMatcher.searchCustomers(
+      const candidates = await this.requireDependency('customerMatcher').searchCustomers(
         args.query,
         10
       );
@@ -344,7 +346,7 @@ export class ToolExecutor {
         totalFound: candidates.length,
       };
     } else {
-      const candidates = await this.deps.itemMatcher.searchItems(
+      const candidates = await this.requireDependency('itemMatcher').searchItems(
         args.query,
         10
       );
@@ -374,7 +376,7 @@ export class ToolExecutor {
       caseId: args.caseId,
     });
 
-    const result = await this.deps.committeeEngine.runFieldMapping(args.caseId);
+    const result = await this.requireDependency('committeeEngine').runFieldMapping(args.caseId);
 
     return {
       success: true,
@@ -387,4 +389,17 @@ export class ToolExecutor {
       })),
     };
   }
+
+  /**
+   * Get an optional dependency, failing the tool call when it is not provided
+   */
+  private requireDependency<K extends keyof ToolDependencies>(
+    name: K
+  ): NonNullable<ToolDependencies[K]> {
+    const dependency = this.deps[name];
+    if (!dependency) {
+      throw new Error(`Tool dependency not available: ${name}`);
+    }
+    return dependency as NonNullable<ToolDependencies[K]>;
+  }
 }
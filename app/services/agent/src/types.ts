@@ -267,6 +267,8 @@ export interface AgentMessage {
   toolCalls?: ToolCall[];
   /** Tool call ID if tool result message */
   toolCallId?: string;
+  /** Run awaiting the results of the tool calls */
+  runId?: string;
   /** Timestamp */
   timestamp: string;
 }
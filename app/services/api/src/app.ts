@@ -8,6 +8,11 @@ import { casesRouter } from './routes/cases.js';
 import { healthRouter } from './routes/health.js';
 import { toolsRouter } from './routes/tools.js';
 import { botEventsRouter } from './routes/bot-events.js';
+import { templatesRouter } from './routes/templates.js';
+import { itemAliasesRouter } from './routes/item-aliases.js';
+import { usageRouter } from './routes/usage.js';
+import { auditRouter } from './routes/audit.js';
+import { dataSubjectRequestsRouter } from './routes/data-subject-requests.js';
 
 /**
  * Create and configure Express application
@@ -41,6 +46,11 @@ export function createApp(): Application {
   // API routes (auth required)
   app.use('/api/cases', casesRouter);
   app.use('/api/bot', botEventsRouter);
+  app.use('/api/templates', templatesRouter);
+  app.use('/api/item-aliases', itemAliasesRouter);
+  app.use('/api/usage', usageRouter);
+  app.use('/api/audit', auditRouter);
+  app.use('/api/data-subject-requests', dataSubjectRequestsRouter);
 
   // Tool routes (internal auth via APIM or Managed Identity)
   app.use('/tools', toolsRouter);
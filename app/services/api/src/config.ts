@@ -16,6 +16,9 @@ export interface AppConfig {
       cases: string;
       auditEvents: string;
       fingerprints: string;
+      templates: string;
+      itemAliases: string;
+      conversations: string;
     };
   };
   storage: {
@@ -25,6 +28,9 @@ export interface AppConfig {
       auditBundles: string;
     };
   };
+  workflow: {
+    endpoint: string;
+  };
   apim: {
     subscriptionKey?: string;
   };
@@ -55,6 +61,9 @@ export function loadConfig(): AppConfig {
         cases: process.env.COSMOS_CONTAINER_CASES || 'cases',
         auditEvents: process.env.COSMOS_CONTAINER_AUDIT || 'audit-events',
         fingerprints: process.env.COSMOS_CONTAINER_FINGERPRINTS || 'fingerprints',
+        templates: process.env.COSMOS_CONTAINER_TEMPLATES || 'templates',
+        itemAliases: process.env.COSMOS_CONTAINER_ITEM_ALIASES || 'item-aliases',
+        conversations: process.env.COSMOS_CONTAINER_CONVERSATIONS || 'conversations',
       },
     },
     storage: {
@@ -66,6 +75,9 @@ export function loadConfig(): AppConfig {
         auditBundles: process.env.STORAGE_CONTAINER_AUDIT || 'audit-bundles',
       },
     },
+    workflow: {
+      endpoint: process.env.WORKFLOW_ENDPOINT || 'http://localhost:3002',
+    },
     apim: {
       subscriptionKey: process.env.APIM_SUBSCRIPTION_KEY,
     },
@@ -94,11 +94,12 @@ export function errorHandler(
 
 /**
  * Async handler wrapper to catch promise rejections
+ * TReq lets handlers behind authMiddleware take an AuthenticatedRequest.
  */
-export function asyncHandler(
-  fn: (req: Request, res: Response, next: NextFunction) => Promise<any>
+export function asyncHandler<TReq extends Request = Request>(
+  fn: (req: TReq, res: Response, next: NextFunction) => Promise<any>
 ) {
   return (req: Request, res: Response, next: NextFunction) => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    Promise.resolve(fn(req as TReq, res, next)).catch(next);
   };
 }
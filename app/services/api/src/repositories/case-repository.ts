@@ -1,7 +1,13 @@
 import { CosmosClient, Container } from '@azure/cosmos';
 import { DefaultAzureCredential } from '@azure/identity';
+import { findSubjectMatches, type DataSubject } from '@order-processing/storage';
 import { Case, CaseFilters, CaseStatus } from '../types.js';
 
+/**
+ * Case fields needed for usage reporting
+ */
+export type CaseUsageRecord = Pick<Case, 'caseId' | 'customerName' | 'createdAt' | 'committeeUsage'>;
+
 /**
  * Repository for Case records in Cosmos DB
  */
@@ -99,6 +105,88 @@ export class CaseRepository {
     return resources[0]?.count || 0;
   }
 
+  /**
+   * List committee usage of the tenant's cases created in a date range
+   */
+  async listCommitteeUsage(
+    tenantId: string,
+    dateFrom: string,
+    dateTo: string
+  ): Promise<CaseUsageRecord[]> {
+    const { resources } = await this.container.items
+      .query({
+        query:
+          // Workflow-created cases only carry the case ID in id
+          'SELECT c.id AS caseId, c.customerName, c.createdAt, c.committeeUsage FROM c ' +
+          'WHERE c.tenantId = @tenantId AND IS_DEFINED(c.committeeUsage) ' +
+          'AND c.createdAt >= @dateFrom AND c.createdAt <= @dateTo',
+        parameters: [
+          { name: '@tenantId', value: tenantId },
+          { name: '@dateFrom', value: dateFrom },
+          { name: '@dateTo', value: dateTo },
+        ],
+      })
+      .fetchAll();
+
+    return resources as CaseUsageRecord[];
+  }
+
+  /**
+   * Find the tenant's cases naming a person or customer
+   * (customer or user display name, case-insensitive, or the user ID), or
+   * whose parsed order contains any of the subject's identifiers
+   */
+  async findBySubject(subject: DataSubject, tenantId: string): Promise<Case[]> {
+    const conditions: string[] = [];
+    const parameters: Array<{ name: string; value: string }> = [
+      { name: '@tenantId', value: tenantId },
+    ];
+
+    if (subject.name) {
+      conditions.push('LOWER(c.customerName) = LOWER(@name)', 'LOWER(c.userDisplayName) = LOWER(@name)');
+      parameters.push({ name: '@name', value: subject.name.trim() });
+    }
+
+    if (subject.userId) {
+      conditions.push('c.userId = @userId');
+      parameters.push({ name: '@userId', value: subject.userId });
+    }
+
+    const cases = new Map<string, Case>();
+
+    if (conditions.length > 0) {
+      const { resources } = await this.container.items
+        .query({
+          query: `SELECT * FROM c WHERE c.tenantId = @tenantId AND (${conditions.join(' OR ')})`,
+          parameters,
+        })
+        .fetchAll();
+
+      for (const caseRecord of resources as Case[]) {
+        cases.set(caseRecord.caseId, caseRecord);
+      }
+    }
+
+    // Names, emails and phones in the parsed order (contacts, notes) can be
+    // written in any case or format, so orders are matched here, not in the query
+    if (subject.name || subject.email || subject.phone) {
+      const { resources } = await this.container.items
+        .query({
+          query: 'SELECT * FROM c WHERE c.tenantId = @tenantId AND IS_DEFINED(c.canonicalData)',
+          parameters: [{ name: '@tenantId', value: tenantId }],
+        })
+        .fetchAll();
+
+      for (const caseRecord of resources as Case[]) {
+        if (findSubjectMatches(JSON.stringify(caseRecord.canonicalData), subject).length > 0) {
+          cases.set(caseRecord.caseId, caseRecord);
+        }
+      }
+    }
+
+    return [...cases.values()];
+  }
+
   /**
    * Build Cosmos DB query from filters
    */
@@ -117,7 +205,7 @@ export class CaseRepository {
 
     // Status filter
     if (filters.status && filters.status.length > 0) {
-      conditions.push('c.status IN (@status)');
+      conditions.push('ARRAY_CONTAINS(@status, c.status)');
       parameters.push({ name: '@status', value: filters.status });
     }
 
@@ -0,0 +1,67 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { DefaultAzureCredential } from '@azure/identity';
+import { ConversationReferenceRecord } from '../types.js';
+
+/**
+ * Repository for Teams bot conversation references in Cosmos DB
+ * References are written by the bot; the API only finds and deletes them
+ * for data subject requests
+ */
+export class ConversationRepository {
+  private container: Container;
+
+  constructor(endpoint: string, databaseId: string, containerId: string) {
+    const credential = new DefaultAzureCredential();
+    const client = new CosmosClient({ endpoint, aadCredentials: credential });
+    this.container = client.database(databaseId).container(containerId);
+  }
+
+  /**
+   * Find a tenant's conversation references of a user (by ID or display name)
+   */
+  async findByUser(
+    user: { userId?: string; userName?: string },
+    tenantId: string
+  ): Promise<ConversationReferenceRecord[]> {
+    const conditions: string[] = [];
+    const parameters: Array<{ name: string; value: string }> = [
+      { name: '@tenantId', value: tenantId },
+    ];
+
+    if (user.userId) {
+      conditions.push('c.userId = @userId');
+      parameters.push({ name: '@userId', value: user.userId });
+    }
+
+    if (user.userName) {
+      conditions.push('LOWER(c.userName) = LOWER(@userName)');
+      parameters.push({ name: '@userName', value: user.userName.trim() });
+    }
+
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    const { resources } = await this.container.items
+      .query<ConversationReferenceRecord>({
+        query: `SELECT c.id, c.partitionKey, c.tenantId, c.userId, c.userName, c.caseId, c.createdAt FROM c WHERE c.tenantId = @tenantId AND (${conditions.join(' OR ')})`,
+        parameters,
+      })
+      .fetchAll();
+
+    return resources;
+  }
+
+  /**
+   * Delete a conversation reference (no-op when it doesn't exist)
+   */
+  async delete(conversationId: string, partitionKey: string): Promise<void> {
+    try {
+      await this.container.item(conversationId, partitionKey).delete();
+    } catch (error: any) {
+      if (error.code !== 404) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { DefaultAzureCredential } from '@azure/identity';
+import { ItemAlias } from '../types.js';
+
+/**
+ * Repository for learned item aliases in Cosmos DB
+ * Aliases are created by the workflow; admins review and revoke them
+ */
+export class ItemAliasRepository {
+  private container: Container;
+
+  constructor(endpoint: string, databaseId: string, containerId: string) {
+    const credential = new DefaultAzureCredential();
+    const client = new CosmosClient({ endpoint, aadCredentials: credential });
+    this.container = client.database(databaseId).container(containerId);
+  }
+
+  /**
+   * List aliases for a tenant, optionally for one customer
+   */
+  async list(
+    tenantId: string,
+    filters: { zohoCustomerId?: string; includeRevoked?: boolean } = {}
+  ): Promise<ItemAlias[]> {
+    let query = 'SELECT * FROM c WHERE c.tenantId = @tenantId';
+    const parameters: Array<{ name: string; value: string }> = [
+      { name: '@tenantId', value: tenantId },
+    ];
+
+    if (filters.zohoCustomerId) {
+      query += ' AND c.zohoCustomerId = @zohoCustomerId';
+      parameters.push({ name: '@zohoCustomerId', value: filters.zohoCustomerId });
+    }
+
+    if (!filters.includeRevoked) {
+      query += ' AND c.revoked = false';
+    }
+
+    query += ' ORDER BY c.updatedAt DESC';
+
+    const { resources } = await this.container.items
+      .query<ItemAlias>({ query, parameters })
+      .fetchAll();
+
+    return resources;
+  }
+
+  /**
+   * Get an alias by ID
+   */
+  async get(aliasId: string, tenantId: string): Promise<ItemAlias | null> {
+    try {
+      const { resource } = await this.container
+        .item(aliasId, tenantId)
+        .read<ItemAlias>();
+      return resource || null;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an alias so it is no longer used for matching
+   */
+  async revoke(
+    aliasId: string,
+    tenantId: string,
+    revokedBy: string,
+    reason?: string
+  ): Promise<ItemAlias | null> {
+    const existing = await this.get(aliasId, tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const updated: ItemAlias = {
+      ...existing,
+      revoked: true,
+      revokedAt: now,
+      revokedBy,
+      revokeReason: reason,
+      updatedAt: now,
+    };
+
+    const { resource } = await this.container
+      .item(aliasId, tenantId)
+      .replace<ItemAlias>(updated);
+
+    return resource as ItemAlias;
+  }
+}
@@ -0,0 +1,102 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { DefaultAzureCredential } from '@azure/identity';
+import { ColumnTemplate, TemplateColumnMapping } from '../types.js';
+
+/**
+ * Repository for per-customer column templates in Cosmos DB
+ * Templates are created by the workflow; admins list, edit and delete them
+ */
+export class TemplateRepository {
+  private container: Container;
+
+  constructor(endpoint: string, databaseId: string, containerId: string) {
+    const credential = new DefaultAzureCredential();
+    const client = new CosmosClient({ endpoint, aadCredentials: credential });
+    this.container = client.database(databaseId).container(containerId);
+  }
+
+  /**
+   * List templates for a tenant, optionally filtered by customer name
+   */
+  async list(tenantId: string, customer?: string): Promise<ColumnTemplate[]> {
+    let query = 'SELECT * FROM c WHERE c.tenantId = @tenantId';
+    const parameters: Array<{ name: string; value: string }> = [
+      { name: '@tenantId', value: tenantId },
+    ];
+
+    if (customer) {
+      query += ' AND CONTAINS(LOWER(c.customerName), LOWER(@customer))';
+      parameters.push({ name: '@customer', value: customer });
+    }
+
+    query += ' ORDER BY c.updatedAt DESC';
+
+    const { resources } = await this.container.items
+      .query<ColumnTemplate>({ query, parameters })
+      .fetchAll();
+
+    return resources;
+  }
+
+  /**
+   * Get a template by ID
+   */
+  async get(templateId: string, tenantId: string): Promise<ColumnTemplate | null> {
+    try {
+      const { resource } = await this.container
+        .item(templateId, tenantId)
+        .read<ColumnTemplate>();
+      return resource || null;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the column mappings of a template
+   */
+  async updateMappings(
+    templateId: string,
+    tenantId: string,
+    columnMappings: TemplateColumnMapping[],
+    updatedBy: string
+  ): Promise<ColumnTemplate | null> {
+    const existing = await this.get(templateId, tenantId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: ColumnTemplate = {
+      ...existing,
+      columnMappings,
+      source: 'admin',
+      updatedBy,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const { resource } = await this.container
+      .item(templateId, tenantId)
+      .replace<ColumnTemplate>(updated);
+
+    return resource as ColumnTemplate;
+  }
+
+  /**
+   * Delete a template
+   * @returns false if the template did not exist
+   */
+  async delete(templateId: string, tenantId: string): Promise<boolean> {
+    try {
+      await this.container.item(templateId, tenantId).delete();
+      return true;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
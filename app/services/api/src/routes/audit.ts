@@ -0,0 +1,168 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, Case, UserRole } from '../types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { publicApiLimiter } from '../middleware/rate-limit.js';
+import { asyncHandler, ValidationError } from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
+import {
+  MAX_EXPORT_CASES,
+  type AuditExportCase,
+  type AuditExportScope,
+} from '@order-processing/storage';
+
+const router = Router();
+
+// Get services from factory
+const caseService = serviceFactory.caseService;
+const caseRepository = serviceFactory.caseRepository;
+const auditService = serviceFactory.auditService;
+const blobService = serviceFactory.blobService;
+const eventLogger = serviceFactory.eventLogger;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Chain verification is for auditors and admins
+router.use(publicApiLimiter);
+router.use(authMiddleware([UserRole.OpsAuditor, UserRole.Admin]));
+
+/**
+ * GET /api/audit/cases/:caseId/verify - Verify the hash chain of a case's audit events
+ * Reports every gap, reorder or modification, and mismatches with signed anchors
+ */
+router.get(
+  '/cases/:caseId/verify',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId } = req.params;
+
+    // Verify access to case first
+    await caseService.getCase(caseId, req.auth);
+
+    const result = await eventLogger.verifyCaseChain(caseId);
+
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/audit/logs/:date/verify - Verify the hash chain of a day's event log
+ * The report only carries positions and event types, never event content
+ */
+router.get(
+  '/logs/:date/verify',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { date } = req.params;
+
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new ValidationError('date must be a date (YYYY-MM-DD)');
+    }
+
+    const result = await eventLogger.verifyLogChain(new Date(date));
+
+    res.json(result);
+  })
+);
+
+/**
+ * POST /api/audit/exports - Export a case, or a customer's cases in a date range,
+ * as a signed eDiscovery ZIP (OpsAuditor only)
+ *
+ * Body: { caseId } or { customer?, dateFrom, dateTo }
+ * Returns a download SAS for the package, which is kept in orders-audit
+ */
+router.post(
+  '/exports',
+  authMiddleware([UserRole.OpsAuditor]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId, customer, dateFrom, dateTo } = req.body ?? {};
+
+    let scope: AuditExportScope;
+    let cases: Case[];
+
+    if (caseId) {
+      if (typeof caseId !== 'string') {
+        throw new ValidationError('caseId must be a string');
+      }
+
+      scope = { type: 'case', caseId };
+      cases = [await caseService.getCase(caseId, req.auth)];
+    } else {
+      for (const [name, value] of [['dateFrom', dateFrom], ['dateTo', dateTo]]) {
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          throw new ValidationError(`${name} must be a date (YYYY-MM-DD)`);
+        }
+      }
+      if (dateFrom > dateTo) {
+        throw new ValidationError('dateFrom must not be after dateTo');
+      }
+      if (customer !== undefined && typeof customer !== 'string') {
+        throw new ValidationError('customer must be a string');
+      }
+
+      scope = { type: 'range', customer, dateFrom, dateTo };
+      cases = await caseRepository.list(
+        {
+          customer,
+          dateFrom,
+          dateTo: `${dateTo}T23:59:59.999Z`,
+          limit: MAX_EXPORT_CASES + 1,
+        },
+        req.auth.tenantId
+      );
+
+      if (cases.length === 0) {
+        throw new ValidationError('No cases match the export range');
+      }
+      if (cases.length > MAX_EXPORT_CASES) {
+        throw new ValidationError(
+          `More than ${MAX_EXPORT_CASES} cases match the export range; narrow the range`
+        );
+      }
+    }
+
+    const exportCases: AuditExportCase[] = [];
+    for (const caseRecord of cases) {
+      const events = await auditService.getEvents(caseRecord.caseId);
+
+      exportCases.push({
+        caseId: caseRecord.caseId,
+        tenantId: caseRecord.tenantId,
+        createdAt: caseRecord.createdAt,
+        updatedAt: caseRecord.updatedAt,
+        customerName: caseRecord.customerName,
+        status: caseRecord.status,
+        fileName: caseRecord.fileName,
+        timeline: events.map((event) => ({
+          timestamp: event.timestamp,
+          eventType: event.eventType,
+          sequence: event.sequence,
+          userId: event.userId,
+          data: event.data,
+        })),
+      });
+    }
+
+    const result = await serviceFactory.auditExportService.exportCases({
+      cases: exportCases,
+      requestedBy: { userId: req.auth.userId, role: UserRole.OpsAuditor },
+      scope,
+    });
+
+    const sasResponse = await blobService.generateDownloadSasUrl(
+      result.blobPath.container,
+      result.blobPath.path,
+      60 // 1 hour expiry
+    );
+
+    res.status(201).json({
+      exportId: result.exportId,
+      ...sasResponse,
+      sha256: result.sha256,
+      sizeBytes: result.sizeBytes,
+      caseCount: result.manifest.caseIds.length,
+      fileCount: result.manifest.files.length,
+      omitted: result.manifest.omitted,
+    });
+  })
+);
+
+export { router as auditRouter };
@@ -6,8 +6,15 @@ import {
 } from '../types.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { publicApiLimiter } from '../middleware/rate-limit.js';
-import { asyncHandler, ValidationError } from '../middleware/error-handler.js';
+import {
+  asyncHandler,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler.js';
 import { serviceFactory } from '../services/service-factory.js';
+import { MAX_BULK_APPROVAL_CASES } from '../services/approval-service.js';
+import { DECRYPTION_ROLES } from '@order-processing/storage';
 
 const router = Router();
 
@@ -15,6 +22,8 @@ const router = Router();
 const caseService = serviceFactory.caseService;
 const auditService = serviceFactory.auditService;
 const blobService = serviceFactory.blobService;
+const auditBundleService = serviceFactory.auditBundleService;
+const approvalService = serviceFactory.approvalService;
 
 // Apply rate limiting and auth to all routes
 router.use(publicApiLimiter);
@@ -60,6 +69,50 @@ router.get(
   })
 );
 
+/**
+ * POST /api/cases/bulk-approval - Approve or reject several cases
+ * Body: { caseIds, approved, comments? }
+ * Sends ApprovalReceived to the workflow of each case and reports the outcome
+ * per case; one case failing does not stop the others.
+ */
+router.post(
+  '/bulk-approval',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.auth.roles.includes(UserRole.SalesManager)) {
+      throw new ForbiddenError('Only sales managers may approve cases in bulk');
+    }
+
+    const { caseIds, approved, comments } = req.body ?? {};
+
+    if (
+      !Array.isArray(caseIds) ||
+      caseIds.length === 0 ||
+      !caseIds.every((caseId) => typeof caseId === 'string' && caseId.length > 0)
+    ) {
+      throw new ValidationError('caseIds must be a non-empty array of case IDs');
+    }
+    if (caseIds.length > MAX_BULK_APPROVAL_CASES) {
+      throw new ValidationError(
+        `At most ${MAX_BULK_APPROVAL_CASES} cases can be approved at once`
+      );
+    }
+    if (typeof approved !== 'boolean') {
+      throw new ValidationError('approved must be a boolean');
+    }
+    if (comments !== undefined && typeof comments !== 'string') {
+      throw new ValidationError('comments must be a string');
+    }
+
+    const result = await approvalService.decideBulk(
+      { caseIds, approved, comments },
+      req.auth,
+      req.correlationId
+    );
+
+    res.json(result);
+  })
+);
+
 /**
  * GET /api/cases/:caseId - Get case details
  */
@@ -120,4 +173,55 @@ router.get(
   })
 );
 
+/**
+ * Check that the caller may read decrypted order artifacts
+ */
+function requireDecryptionRole(req: AuthenticatedRequest): void {
+  if (!req.auth.roles.some((role) => DECRYPTION_ROLES.includes(role))) {
+    throw new ForbiddenError('Your role may not read decrypted order data');
+  }
+}
+
+/**
+ * GET /api/cases/:caseId/original - Download the stored original file
+ * Decrypted on the server; not available as a SAS URL since it may be encrypted
+ */
+router.get(
+  '/:caseId/original',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId } = req.params;
+
+    requireDecryptionRole(req);
+    await caseService.getCase(caseId, req.auth);
+
+    const original = await auditBundleService.getOriginalFile(caseId);
+    if (!original) {
+      throw new NotFoundError('Original file');
+    }
+
+    res.attachment(original.filename);
+    res.send(original.content);
+  })
+);
+
+/**
+ * GET /api/cases/:caseId/canonical - Get the stored canonical order, decrypted
+ */
+router.get(
+  '/:caseId/canonical',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { caseId } = req.params;
+
+    requireDecryptionRole(req);
+    await caseService.getCase(caseId, req.auth);
+
+    const order = await auditBundleService.getCanonicalOrder(caseId);
+    if (!order) {
+      throw new NotFoundError('Canonical order');
+    }
+
+    res.json(order);
+  })
+);
+
 export { router as casesRouter };
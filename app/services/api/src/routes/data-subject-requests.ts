@@ -0,0 +1,181 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, Case, UserRole } from '../types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { publicApiLimiter } from '../middleware/rate-limit.js';
+import {
+  asyncHandler,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
+import {
+  MAX_SUBJECT_CASES,
+  getSubjectFingerprint,
+  validateSubject,
+  type DataSubject,
+} from '@order-processing/storage';
+
+const router = Router();
+
+// Get services from factory
+const caseRepository = serviceFactory.caseRepository;
+const auditService = serviceFactory.auditService;
+const dataSubjectService = serviceFactory.dataSubjectService;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Erasure requests are handled by admins only
+router.use(publicApiLimiter);
+router.use(authMiddleware([UserRole.Admin]));
+
+/**
+ * Read and validate the data subject from a request body
+ */
+function parseSubject(body: { subject?: Record<string, unknown> } | undefined): DataSubject {
+  const subject = body?.subject;
+  if (!subject || typeof subject !== 'object') {
+    throw new ValidationError('subject is required');
+  }
+
+  for (const field of ['name', 'email', 'phone', 'userId']) {
+    if (subject[field] !== undefined && typeof subject[field] !== 'string') {
+      throw new ValidationError(`subject.${field} must be a string`);
+    }
+  }
+
+  const parsed = {
+    type: subject.type,
+    name: subject.name,
+    email: subject.email,
+    phone: subject.phone,
+    userId: subject.userId,
+  } as DataSubject;
+
+  try {
+    validateSubject(parsed);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid subject');
+  }
+
+  return parsed;
+}
+
+/**
+ * POST /api/data-subject-requests - Inventory everything referencing a person or customer
+ * Body: { subject: { type, name?, email?, phone?, userId? }, dateFrom?, dateTo? }
+ *
+ * Searches the cases whose record names the subject, plus every case created
+ * in dateFrom..dateTo when given (to find subjects only named in case content,
+ * e.g. by email). Returns the inventory with the planned action per artifact.
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const subject = parseSubject(req.body);
+    const { dateFrom, dateTo } = req.body;
+
+    const cases = new Map<string, Case>();
+    for (const caseRecord of await caseRepository.findBySubject(subject, req.auth.tenantId)) {
+      cases.set(caseRecord.caseId, caseRecord);
+    }
+
+    if (dateFrom !== undefined || dateTo !== undefined) {
+      for (const [name, value] of [['dateFrom', dateFrom], ['dateTo', dateTo]]) {
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          throw new ValidationError(`${name} must be a date (YYYY-MM-DD)`);
+        }
+      }
+
+      const inRange = await caseRepository.list(
+        { dateFrom, dateTo: `${dateTo}T23:59:59.999Z`, limit: MAX_SUBJECT_CASES + 1 },
+        req.auth.tenantId
+      );
+      for (const caseRecord of inRange) {
+        cases.set(caseRecord.caseId, caseRecord);
+      }
+    }
+
+    if (cases.size > MAX_SUBJECT_CASES) {
+      throw new ValidationError(
+        `More than ${MAX_SUBJECT_CASES} cases to search; narrow the date range`
+      );
+    }
+
+    const inventory = await dataSubjectService.buildInventory({
+      tenantId: req.auth.tenantId,
+      subject,
+      cases: [...cases.values()].map((caseRecord) => ({
+        caseId: caseRecord.caseId,
+        createdAt: caseRecord.createdAt,
+        updatedAt: caseRecord.updatedAt,
+      })),
+      requestedBy: req.auth.userId,
+    });
+
+    res.status(201).json(inventory);
+  })
+);
+
+/**
+ * GET /api/data-subject-requests/:requestId - Get a request's inventory
+ */
+router.get(
+  '/:requestId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const inventory = await dataSubjectService.getInventory(req.auth.tenantId, req.params.requestId);
+    if (!inventory) {
+      throw new NotFoundError('Data subject request');
+    }
+
+    res.json(inventory);
+  })
+);
+
+/**
+ * POST /api/data-subject-requests/:requestId/erase - Erase the inventoried artifacts
+ * Body: { subject } - the same subject as the inventory (it only keeps a fingerprint)
+ *
+ * Artifacts under WORM retention or legal hold are kept and reported.
+ */
+router.post(
+  '/:requestId/erase',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const subject = parseSubject(req.body);
+
+    const inventory = await dataSubjectService.getInventory(req.auth.tenantId, req.params.requestId);
+    if (!inventory) {
+      throw new NotFoundError('Data subject request');
+    }
+
+    if (getSubjectFingerprint(subject) !== inventory.subjectFingerprint) {
+      throw new ValidationError('subject does not match the request');
+    }
+
+    const report = await dataSubjectService.executeErasure(inventory, subject, req.auth.userId);
+
+    // Recorded on each affected case, without the subject's identifiers
+    for (const caseId of inventory.caseIds) {
+      const outcomes = report.outcomes.filter((o) => o.caseId === caseId);
+
+      await auditService.logEvent({
+        caseId,
+        tenantId: req.auth.tenantId,
+        timestamp: report.executedAt,
+        eventType: 'data_subject_erased',
+        userId: req.auth.userId,
+        data: {
+          requestId: inventory.requestId,
+          subjectType: inventory.subjectType,
+          erased: outcomes.filter((o) => o.status === 'erased').length,
+          retained: outcomes.filter((o) => o.status === 'retained').length,
+          failed: outcomes.filter((o) => o.status === 'failed').length,
+        },
+        correlationId: req.correlationId,
+      });
+    }
+
+    res.json(report);
+  })
+);
+
+export { router as dataSubjectRequestsRouter };
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { HealthResponse } from '../types.js';
 import { asyncHandler } from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
 
 const router = Router();
 
@@ -49,11 +50,18 @@ router.get(
       status = 'degraded';
     }
 
+    // Report Zoho cache staleness (informational - caches also sync on use)
+    const caches = getCacheStaleness();
+    if (caches) {
+      dependencies.zohoCache = caches.some((cache) => cache.stale) ? 'stale' : 'fresh';
+    }
+
     const response: HealthResponse = {
       status,
       timestamp: new Date().toISOString(),
       version: VERSION,
       dependencies,
+      caches,
     };
 
     const statusCode = status === 'healthy' ? 200 : 503;
@@ -61,6 +69,27 @@ router.get(
   })
 );
 
+/**
+ * GET /health/cache - Zoho customer/item cache staleness
+ * Returns 503 when a cache has not synced within its staleness window
+ */
+router.get(
+  '/cache',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const caches = getCacheStaleness() || [];
+    const stale = caches.length === 0 || caches.some((cache) => cache.stale);
+
+    const response: HealthResponse = {
+      status: stale ? 'degraded' : 'healthy',
+      timestamp: new Date().toISOString(),
+      version: VERSION,
+      caches,
+    };
+
+    res.status(stale ? 503 : 200).json(response);
+  })
+);
+
 /**
  * GET /health/live - Liveness probe
  */
@@ -76,4 +105,15 @@ router.get(
   })
 );
 
+/**
+ * Get Zoho cache staleness, or undefined if the Zoho client is unavailable
+ */
+function getCacheStaleness(): HealthResponse['caches'] {
+  try {
+    return serviceFactory.zohoClient.getCacheStaleness();
+  } catch {
+    return undefined;
+  }
+}
+
 export { router as healthRouter };
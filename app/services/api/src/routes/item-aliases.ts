@@ -0,0 +1,103 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, UserRole } from '../types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { publicApiLimiter } from '../middleware/rate-limit.js';
+import {
+  asyncHandler,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
+
+const router = Router();
+
+// Get services from factory
+const itemAliasRepository = serviceFactory.itemAliasRepository;
+const auditService = serviceFactory.auditService;
+
+// Learned aliases are reviewed by admins only
+router.use(publicApiLimiter);
+router.use(authMiddleware([UserRole.Admin]));
+
+/**
+ * GET /api/item-aliases - List learned item aliases for the caller's tenant
+ * Query params: customerId (Zoho customer ID), includeRevoked
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { customerId, includeRevoked } = req.query;
+
+    const aliases = await itemAliasRepository.list(req.auth.tenantId, {
+      zohoCustomerId: customerId as string | undefined,
+      includeRevoked: includeRevoked === 'true',
+    });
+
+    res.json({ aliases });
+  })
+);
+
+/**
+ * GET /api/item-aliases/:aliasId - Get a learned item alias
+ */
+router.get(
+  '/:aliasId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { aliasId } = req.params;
+
+    const alias = await itemAliasRepository.get(aliasId, req.auth.tenantId);
+    if (!alias) {
+      throw new NotFoundError('Item alias');
+    }
+
+    res.json(alias);
+  })
+);
+
+/**
+ * POST /api/item-aliases/:aliasId/revoke - Stop using an alias for matching
+ * Body: { reason?: string }
+ */
+router.post(
+  '/:aliasId/revoke',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { aliasId } = req.params;
+    const { reason } = req.body ?? {};
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new ValidationError('reason must be a string');
+    }
+
+    const alias = await itemAliasRepository.revoke(
+      aliasId,
+      req.auth.tenantId,
+      req.auth.userId,
+      reason
+    );
+    if (!alias) {
+      throw new NotFoundError('Item alias');
+    }
+
+    // Recorded on the case the alias was learned from
+    await auditService.logEvent({
+      caseId: alias.sourceCaseId,
+      tenantId: alias.tenantId,
+      timestamp: alias.revokedAt!,
+      eventType: 'item_alias_revoked',
+      userId: req.auth.userId,
+      data: {
+        aliasId: alias.id,
+        zohoCustomerId: alias.zohoCustomerId,
+        sourceKind: alias.sourceKind,
+        sourceText: alias.sourceText,
+        zohoItemId: alias.zohoItemId,
+        reason,
+      },
+      correlationId: req.correlationId,
+    });
+
+    res.json(alias);
+  })
+);
+
+export { router as itemAliasesRouter };
@@ -0,0 +1,141 @@
+import { Router, Response } from 'express';
+import {
+  AuthenticatedRequest,
+  TemplateColumnMapping,
+  UserRole,
+} from '../types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { publicApiLimiter } from '../middleware/rate-limit.js';
+import {
+  asyncHandler,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
+
+const router = Router();
+
+// Get repository from factory
+const templateRepository = serviceFactory.templateRepository;
+
+// Column templates are managed by admins only
+router.use(publicApiLimiter);
+router.use(authMiddleware([UserRole.Admin]));
+
+/**
+ * GET /api/templates - List column templates for the caller's tenant
+ * Query params: customer (substring match on customer name)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { customer } = req.query;
+
+    const templates = await templateRepository.list(
+      req.auth.tenantId,
+      customer as string | undefined
+    );
+
+    res.json({ templates });
+  })
+);
+
+/**
+ * GET /api/templates/:templateId - Get a column template
+ */
+router.get(
+  '/:templateId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { templateId } = req.params;
+
+    const template = await templateRepository.get(templateId, req.auth.tenantId);
+    if (!template) {
+      throw new NotFoundError('Template');
+    }
+
+    res.json(template);
+  })
+);
+
+/**
+ * PUT /api/templates/:templateId - Replace a template's column mappings
+ * Body: { columnMappings: [{ canonicalField, sourceColumn, sourceHeader }] }
+ */
+router.put(
+  '/:templateId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { templateId } = req.params;
+    const columnMappings = validateColumnMappings(req.body?.columnMappings);
+
+    const template = await templateRepository.updateMappings(
+      templateId,
+      req.auth.tenantId,
+      columnMappings,
+      req.auth.userId
+    );
+    if (!template) {
+      throw new NotFoundError('Template');
+    }
+
+    res.json(template);
+  })
+);
+
+/**
+ * DELETE /api/templates/:templateId - Delete a column template
+ * The customer's next upload goes through schema inference and the committee again
+ */
+router.delete(
+  '/:templateId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { templateId } = req.params;
+
+    const deleted = await templateRepository.delete(templateId, req.auth.tenantId);
+    if (!deleted) {
+      throw new NotFoundError('Template');
+    }
+
+    res.status(204).send();
+  })
+);
+
+/**
+ * Validate edited column mappings. Admin edits are stored as manual mappings.
+ */
+function validateColumnMappings(value: unknown): TemplateColumnMapping[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ValidationError('columnMappings must be a non-empty array');
+  }
+
+  const seenFields = new Set<string>();
+
+  return value.map((mapping, index) => {
+    const { canonicalField, sourceColumn, sourceHeader } = mapping ?? {};
+
+    if (typeof canonicalField !== 'string' || canonicalField.trim() === '') {
+      throw new ValidationError(`columnMappings[${index}].canonicalField is required`);
+    }
+    if (typeof sourceColumn !== 'string' || !/^[A-Z]{1,3}$/.test(sourceColumn)) {
+      throw new ValidationError(
+        `columnMappings[${index}].sourceColumn must be a column letter (e.g. "B")`
+      );
+    }
+    // Templates only apply while the header still reads the same
+    if (typeof sourceHeader !== 'string' || sourceHeader.trim() === '') {
+      throw new ValidationError(`columnMappings[${index}].sourceHeader is required`);
+    }
+    if (seenFields.has(canonicalField)) {
+      throw new ValidationError(`Field '${canonicalField}' is mapped more than once`);
+    }
+    seenFields.add(canonicalField);
+
+    return {
+      canonicalField,
+      sourceColumn,
+      sourceHeader,
+      method: 'manual' as const,
+    };
+  });
+}
+
+export { router as templatesRouter };
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { internalAuthMiddleware } from '../middleware/auth.js';
-import { asyncHandler, ValidationError } from '../middleware/error-handler.js';
+import { diffSalesOrderLines, ZohoAmendmentError } from '@order-processing/zoho';
+import { asyncHandler, AppError, ValidationError } from '../middleware/error-handler.js';
 import { serviceFactory } from '../services/service-factory.js';
 
 const router = Router();
@@ -217,4 +218,88 @@ router.post(
   })
 );
 
+/**
+ * POST /tools/zoho/update-draft-salesorder - Amend an existing draft sales order
+ *
+ * previous_order is the canonical order the draft was created from (or last
+ * amended to), canonical_order the amended version. With dry_run only the line
+ * diff is returned for the approval card.
+ */
+router.post(
+  '/zoho/update-draft-salesorder',
+  asyncHandler(async (req: Request, res: Response) => {
+    const correlationId = (req as any).correlationId;
+    const { case_id, zoho_salesorder_id, previous_order, canonical_order, dry_run = false } = req.body;
+
+    // Validate required fields
+    if (!case_id || !zoho_salesorder_id || !previous_order || !canonical_order) {
+      throw new ValidationError(
+        'Missing case_id, zoho_salesorder_id, previous_order or canonical_order'
+      );
+    }
+
+    // Log tool call
+    console.log(
+      JSON.stringify({
+        level: 'info',
+        message: 'Tool call: zoho-update-draft-salesorder',
+        correlationId,
+        case_id,
+        zoho_salesorder_id,
+        dry_run,
+      })
+    );
+
+    const tenantId = canonical_order.meta?.tenant_id || 'unknown';
+
+    if (dry_run) {
+      res.json({
+        case_id,
+        ok: true,
+        zoho_salesorder_id,
+        diff: diffSalesOrderLines(previous_order, canonical_order),
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await serviceFactory.zohoClient.amendDraftSalesOrder(
+        zoho_salesorder_id,
+        previous_order,
+        canonical_order,
+        { correlationId }
+      );
+    } catch (error) {
+      if (error instanceof ZohoAmendmentError) {
+        throw new AppError('AMENDMENT_NOT_ALLOWED', error.message, 409, { reason: error.reason });
+      }
+      throw error;
+    }
+
+    // Log audit event
+    await auditService.logEvent({
+      caseId: case_id,
+      tenantId,
+      timestamp: new Date().toISOString(),
+      eventType: 'zoho_draft_amended',
+      data: {
+        zoho_salesorder_id,
+        updated: result.updated,
+        diff: result.diff,
+      },
+      correlationId,
+    });
+
+    res.json({
+      case_id,
+      ok: true,
+      zoho_salesorder_id: result.salesorder.salesorder_id,
+      zoho_salesorder_number: result.salesorder.salesorder_number,
+      updated: result.updated,
+      diff: result.diff,
+    });
+  })
+);
+
 export { router as toolsRouter };
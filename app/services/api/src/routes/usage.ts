@@ -0,0 +1,57 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, UserRole } from '../types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { publicApiLimiter } from '../middleware/rate-limit.js';
+import { asyncHandler, ValidationError } from '../middleware/error-handler.js';
+import { serviceFactory } from '../services/service-factory.js';
+
+const router = Router();
+
+// Get services from factory
+const usageService = serviceFactory.usageService;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+
+// Spend reports are for admins and managers
+router.use(publicApiLimiter);
+router.use(authMiddleware([UserRole.Admin, UserRole.SalesManager]));
+
+/**
+ * GET /api/usage/committee - AI committee token usage and cost of the caller's tenant
+ * Query params: from, to (YYYY-MM-DD, inclusive; default: last 30 days)
+ */
+router.get(
+  '/committee',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const dateTo = (req.query.to as string | undefined) ?? today;
+    const dateFrom =
+      (req.query.from as string | undefined) ??
+      new Date(Date.parse(dateTo) - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    validateDateRange(dateFrom, dateTo);
+
+    const report = await usageService.getCommitteeUsageReport(req.auth.tenantId, dateFrom, dateTo);
+
+    res.json(report);
+  })
+);
+
+function validateDateRange(dateFrom: string, dateTo: string): void {
+  for (const [name, value] of [['from', dateFrom], ['to', dateTo]]) {
+    if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new ValidationError(`${name} must be a date (YYYY-MM-DD)`);
+    }
+  }
+
+  const rangeDays = (Date.parse(dateTo) - Date.parse(dateFrom)) / (24 * 60 * 60 * 1000);
+  if (rangeDays < 0) {
+    throw new ValidationError('from must not be after to');
+  }
+  if (rangeDays >= MAX_RANGE_DAYS) {
+    throw new ValidationError(`Date range must not exceed ${MAX_RANGE_DAYS} days`);
+  }
+}
+
+export { router as usageRouter };
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApprovalService } from './approval-service.js';
+import { CaseService } from './case-service.js';
+import { AuditService } from './audit-service.js';
+import { WorkflowClient, WorkflowSignalError } from './workflow-client.js';
+import { NotFoundError } from '../middleware/error-handler.js';
+import { AuthContext, CaseStatus, UserRole } from '../types.js';
+
+const auth: AuthContext = {
+  userId: 'manager-1',
+  tenantId: 'tenant-1',
+  roles: [UserRole.SalesManager],
+};
+
+describe('ApprovalService', () => {
+  let statuses: Record<string, CaseStatus>;
+  let approverGroups: Record<string, string>;
+  let blockers: Record<string, string[]>;
+  let caseService: { getCase: ReturnType<typeof vi.fn> };
+  let auditService: { logEvent: ReturnType<typeof vi.fn> };
+  let workflowClient: { signal: ReturnType<typeof vi.fn> };
+  let service: ApprovalService;
+
+  beforeEach(() => {
+    statuses = {
+      'case-1': CaseStatus.AwaitingApproval,
+      'case-2': CaseStatus.AwaitingApproval,
+      'case-3': CaseStatus.Processing,
+    };
+    approverGroups = {};
+    blockers = {};
+    caseService = {
+      getCase: vi.fn(async (caseId: string) => {
+        if (!statuses[caseId]) {
+          throw new NotFoundError('Case');
+        }
+        return {
+          id: caseId,
+          status: statuses[caseId],
+          approverGroupId: approverGroups[caseId],
+          blockingIssueCodes: blockers[caseId],
+        };
+      }),
+    };
+    auditService = { logEvent: vi.fn(async () => undefined) };
+    workflowClient = { signal: vi.fn(async () => undefined) };
+    service = new ApprovalService(
+      caseService as unknown as CaseService,
+      auditService as unknown as AuditService,
+      workflowClient as unknown as WorkflowClient
+    );
+  });
+
+  it('should signal ApprovalReceived to the workflow of each case', async () => {
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-2'], approved: true, comments: 'Looks good' },
+      auth,
+      'corr-1'
+    );
+
+    expect(result.approved).toBe(true);
+    expect(result.results).toEqual([
+      { caseId: 'case-1', outcome: 'signalled' },
+      { caseId: 'case-2', outcome: 'signalled' },
+    ]);
+    expect(result.summary).toEqual({ signalled: 2, skipped: 0, failed: 0 });
+    expect(workflowClient.signal).toHaveBeenCalledWith(
+      'order-case-1',
+      'ApprovalReceived',
+      expect.objectContaining({
+        caseId: 'case-1',
+        approved: true,
+        approvedBy: 'manager-1',
+        comments: 'Looks good',
+      }),
+      'corr-1'
+    );
+  });
+
+  it('should report each case on its own', async () => {
+    workflowClient.signal.mockImplementation(async (workflowId: string) => {
+      if (workflowId === 'order-case-2') {
+        throw new WorkflowSignalError('Workflow not running', 409);
+      }
+    });
+
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-2', 'case-3', 'missing'], approved: false },
+      auth,
+      'corr-1'
+    );
+
+    expect(result.results).toEqual([
+      { caseId: 'case-1', outcome: 'signalled' },
+      { caseId: 'case-2', outcome: 'failed', error: 'Workflow not running' },
+      { caseId: 'case-3', outcome: 'skipped', error: 'Case is processing, not awaiting approval' },
+      { caseId: 'missing', outcome: 'failed', error: 'Case not found' },
+    ]);
+    expect(result.summary).toEqual({ signalled: 1, skipped: 1, failed: 2 });
+    expect(workflowClient.signal).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip cases of channels with an approver group', async () => {
+    approverGroups['case-2'] = 'group-1';
+
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-2'], approved: true },
+      auth,
+      'corr-1'
+    );
+
+    expect(result.results).toEqual([
+      { caseId: 'case-1', outcome: 'signalled' },
+      {
+        caseId: 'case-2',
+        outcome: 'skipped',
+        error: "Case must be approved in Teams by its channel's approver group",
+      },
+    ]);
+    expect(workflowClient.signal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not approve cases with blocking issues', async () => {
+    blockers['case-2'] = ['UOM_FRACTIONAL_QUANTITY'];
+
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-2'], approved: true },
+      auth,
+      'corr-1'
+    );
+
+    expect(result.results).toEqual([
+      { caseId: 'case-1', outcome: 'signalled' },
+      {
+        caseId: 'case-2',
+        outcome: 'skipped',
+        error: 'Case has blocking issues (UOM_FRACTIONAL_QUANTITY) to fix before approval',
+      },
+    ]);
+    expect(workflowClient.signal).toHaveBeenCalledTimes(1);
+    expect(auditService.logEvent).not.toHaveBeenCalledWith(expect.objectContaining({ caseId: 'case-2' }));
+
+    // A rejection is still sent
+    const rejection = await service.decideBulk(
+      { caseIds: ['case-2'], approved: false, comments: 'Wrong units' },
+      auth,
+      'corr-2'
+    );
+    expect(rejection.results).toEqual([{ caseId: 'case-2', outcome: 'signalled' }]);
+  });
+
+  it('should decide a case listed twice once', async () => {
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-1'], approved: true },
+      auth,
+      'corr-1'
+    );
+
+    expect(result.results).toHaveLength(1);
+    expect(workflowClient.signal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should audit each decision on its case', async () => {
+    workflowClient.signal.mockImplementation(async (workflowId: string) => {
+      if (workflowId === 'order-case-2') {
+        throw new WorkflowSignalError('Workflow not found', 404);
+      }
+    });
+
+    const result = await service.decideBulk(
+      { caseIds: ['case-1', 'case-2', 'case-3'], approved: false, comments: 'Wrong prices' },
+      auth,
+      'corr-1'
+    );
+
+    expect(auditService.logEvent).toHaveBeenCalledTimes(2);
+    expect(auditService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        caseId: 'case-1',
+        tenantId: 'tenant-1',
+        eventType: 'rejected',
+        userId: 'manager-1',
+        correlationId: 'corr-1',
+        data: expect.objectContaining({
+          approved: false,
+          comments: 'Wrong prices',
+          bulk: true,
+          batchId: result.batchId,
+        }),
+      })
+    );
+    expect(auditService.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        caseId: 'case-2',
+        eventType: 'approval_failed',
+        data: expect.objectContaining({ error: 'Workflow not found' }),
+      })
+    );
+  });
+
+  it('should report a decision whose audit event could not be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    auditService.logEvent.mockRejectedValue(new Error('Cosmos unavailable'));
+
+    const result = await service.decideBulk({ caseIds: ['case-1'], approved: true }, auth, 'corr-1');
+
+    expect(result.results).toEqual([
+      {
+        caseId: 'case-1',
+        outcome: 'signalled',
+        error: 'Decision sent, but its audit event could not be written',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuthContext,
+  BulkApprovalCaseResult,
+  BulkApprovalOutcome,
+  BulkApprovalResult,
+  CaseStatus,
+} from '../types.js';
+import { CaseService } from './case-service.js';
+import { AuditService } from './audit-service.js';
+import { WorkflowClient } from './workflow-client.js';
+
+/**
+ * Maximum number of cases in one bulk approval
+ */
+export const MAX_BULK_APPROVAL_CASES = 50;
+
+export interface BulkApprovalInput {
+  caseIds: string[];
+  approved: boolean;
+  comments?: string;
+}
+
+/**
+ * Service for approval decisions made in the tab
+ */
+export class ApprovalService {
+  constructor(
+    private caseService: CaseService,
+    private auditService: AuditService,
+    private workflowClient: WorkflowClient
+  ) {}
+
+  /**
+   * Approve or reject several cases
+   *
+   * Each case is handled on its own: a case that is missing, no longer
+   * awaiting approval or whose workflow rejects the signal does not stop the
+   * others. Every decision sent, or attempted, is audited on its case.
+   *
+   * Cases of channels with an approver group are skipped: the API cannot
+   * check group membership, so they are approved in Teams, where the bot does.
+   * Approvals of cases with blocking issues are skipped too: the workflow
+   * would refuse them, and the audit trail would record an approval that never happened.
+   */
+  async decideBulk(
+    input: BulkApprovalInput,
+    auth: AuthContext,
+    correlationId: string
+  ): Promise<BulkApprovalResult> {
+    const batchId = uuidv4();
+    const caseIds = [...new Set(input.caseIds)];
+    const results: BulkApprovalCaseResult[] = [];
+
+    for (const caseId of caseIds) {
+      results.push(await this.decide(caseId, input, auth, batchId, correlationId));
+    }
+
+    const summary: Record<BulkApprovalOutcome, number> = { signalled: 0, skipped: 0, failed: 0 };
+    for (const result of results) {
+      summary[result.outcome]++;
+    }
+
+    return { batchId, approved: input.approved, results, summary };
+  }
+
+  /**
+   * Send the decision of one case to its workflow
+   */
+  private async decide(
+    caseId: string,
+    input: BulkApprovalInput,
+    auth: AuthContext,
+    batchId: string,
+    correlationId: string
+  ): Promise<BulkApprovalCaseResult> {
+    try {
+      const caseRecord = await this.caseService.getCase(caseId, auth);
+      if (caseRecord.status !== CaseStatus.AwaitingApproval) {
+        return {
+          caseId,
+          outcome: 'skipped',
+          error: `Case is ${caseRecord.status}, not awaiting approval`,
+        };
+      }
+      if (caseRecord.approverGroupId) {
+        return {
+          caseId,
+          outcome: 'skipped',
+          error: "Case must be approved in Teams by its channel's approver group",
+        };
+      }
+      if (input.approved && caseRecord.blockingIssueCodes?.length) {
+        return {
+          caseId,
+          outcome: 'skipped',
+          error: `Case has blocking issues (${caseRecord.blockingIssueCodes.join(', ')}) to fix before approval`,
+        };
+      }
+    } catch (error) {
+      return { caseId, outcome: 'failed', error: getErrorMessage(error) };
+    }
+
+    const decidedAt = new Date().toISOString();
+    let result: BulkApprovalCaseResult;
+
+    try {
+      await this.workflowClient.signal(
+        WorkflowClient.getOrderWorkflowId(caseId),
+        'ApprovalReceived',
+        {
+          caseId,
+          approved: input.approved,
+          approvedBy: auth.userId,
+          approvedAt: decidedAt,
+          comments: input.comments,
+        },
+        correlationId
+      );
+      result = { caseId, outcome: 'signalled' };
+    } catch (error) {
+      result = { caseId, outcome: 'failed', error: getErrorMessage(error) };
+    }
+
+    try {
+      await this.auditService.logEvent({
+        caseId,
+        tenantId: auth.tenantId,
+        timestamp: decidedAt,
+        eventType: result.outcome === 'signalled'
+          ? (input.approved ? 'approved' : 'rejected')
+          : 'approval_failed',
+        userId: auth.userId,
+        data: {
+          approved: input.approved,
+          comments: input.comments,
+          bulk: true,
+          batchId,
+          error: result.error,
+        },
+        correlationId,
+      });
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          level: 'error',
+          message: 'Failed to audit approval decision',
+          caseId,
+          batchId,
+          correlationId,
+          error: getErrorMessage(error),
+        })
+      );
+      // The workflow already has the decision; report the missing audit record
+      if (result.outcome === 'signalled') {
+        result = { ...result, error: 'Decision sent, but its audit event could not be written' };
+      }
+    }
+
+    return result;
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,112 @@
+import {
+  ERASED_PLACEHOLDER,
+  findSubjectMatches,
+  redactSubjectValue,
+  type DataSubject,
+  type DataSubjectArtifact,
+  type DataSubjectMatch,
+  type DataSubjectSource,
+} from '@order-processing/storage';
+import { CaseRepository } from '../repositories/case-repository.js';
+import { ConversationRepository } from '../repositories/conversation-repository.js';
+
+/**
+ * Case records naming the subject (customer name, user display name, user ID,
+ * or any identifier in the parsed order)
+ *
+ * Records are redacted, not deleted: the case ID, status and user ID stay for
+ * access control and the audit trail.
+ */
+export class CaseRecordSubjectSource implements DataSubjectSource {
+  readonly name = 'case_record';
+
+  constructor(private caseRepository: CaseRepository) {}
+
+  async findArtifacts(subject: DataSubject, tenantId: string): Promise<DataSubjectArtifact[]> {
+    const cases = await this.caseRepository.findBySubject(subject, tenantId);
+    const name = subject.name?.trim().toLowerCase();
+
+    return cases.map((caseRecord) => {
+      const matches: DataSubjectMatch[] = [];
+      if (name && (caseRecord.customerName?.toLowerCase() === name || caseRecord.userDisplayName?.toLowerCase() === name)) {
+        matches.push('name');
+      }
+      if (subject.userId && caseRecord.userId === subject.userId) {
+        matches.push('userId');
+      }
+      if (caseRecord.canonicalData !== undefined) {
+        for (const match of findSubjectMatches(JSON.stringify(caseRecord.canonicalData), subject)) {
+          if (!matches.includes(match)) {
+            matches.push(match);
+          }
+        }
+      }
+
+      return {
+        source: this.name,
+        location: caseRecord.caseId,
+        caseId: caseRecord.caseId,
+        matches,
+        action: 'redact',
+        reason: 'Names in the case record and identifiers in its parsed order are replaced',
+      };
+    });
+  }
+
+  async erase(artifact: DataSubjectArtifact, subject: DataSubject, tenantId: string): Promise<void> {
+    const caseRecord = await this.caseRepository.findById(artifact.location, tenantId);
+    if (!caseRecord) {
+      return;
+    }
+
+    const name = subject.name?.trim().toLowerCase();
+    const isUser = (subject.userId && caseRecord.userId === subject.userId)
+      || (name && caseRecord.userDisplayName?.toLowerCase() === name);
+
+    await this.caseRepository.update(caseRecord.caseId, tenantId, {
+      customerName: name && caseRecord.customerName?.toLowerCase() === name
+        ? ERASED_PLACEHOLDER
+        : caseRecord.customerName,
+      userDisplayName: isUser ? ERASED_PLACEHOLDER : caseRecord.userDisplayName,
+      ...(caseRecord.canonicalData !== undefined && {
+        canonicalData: redactSubjectValue(caseRecord.canonicalData, subject),
+      }),
+    });
+  }
+}
+
+/**
+ * Teams bot conversation references of a person
+ *
+ * References only serve proactive messages, so they are deleted.
+ */
+export class ConversationReferenceSubjectSource implements DataSubjectSource {
+  readonly name = 'conversation_reference';
+
+  constructor(private conversationRepository: ConversationRepository) {}
+
+  async findArtifacts(subject: DataSubject, tenantId: string): Promise<DataSubjectArtifact[]> {
+    if (subject.type !== 'person') {
+      return [];
+    }
+
+    const references = await this.conversationRepository.findByUser(
+      { userId: subject.userId, userName: subject.name },
+      tenantId
+    );
+
+    return references.map((reference) => ({
+      source: this.name,
+      location: reference.id,
+      caseId: reference.caseId,
+      matches: subject.userId && reference.userId === subject.userId ? ['userId'] : ['name'],
+      action: 'delete',
+      reason: 'Conversation references are only kept for proactive messages',
+    }));
+  }
+
+  async erase(artifact: DataSubjectArtifact, _subject: DataSubject, tenantId: string): Promise<void> {
+    // The bot partitions references by tenant
+    await this.conversationRepository.delete(artifact.location, tenantId);
+  }
+}
@@ -1,14 +1,36 @@
 import { config } from '../config.js';
 import { CaseRepository } from '../repositories/case-repository.js';
 import { FingerprintRepository } from '../repositories/fingerprint-repository.js';
+import { TemplateRepository } from '../repositories/template-repository.js';
+import { ItemAliasRepository } from '../repositories/item-alias-repository.js';
+import { ConversationRepository } from '../repositories/conversation-repository.js';
 import { CaseService } from './case-service.js';
 import { AuditService } from './audit-service.js';
 import { BlobService } from './blob-service.js';
+import { UsageService } from './usage-service.js';
+import { WorkflowClient } from './workflow-client.js';
+import { ApprovalService } from './approval-service.js';
+import {
+  CaseRecordSubjectSource,
+  ConversationReferenceSubjectSource,
+} from './data-subject-sources.js';
 import {
   ZohoClient,
+  FileCacheSnapshotStore,
+  BlobAuditStore,
   tryInitializeZohoPersistence,
   type ZohoPersistenceStores,
 } from '@order-processing/zoho';
+import {
+  AuditBundleService,
+  AuditExportService,
+  DataSubjectRequestService,
+  EnvelopeEncryption,
+  EventLoggerService,
+  getAnchorSigningKeyFromEnv,
+  getAnchorVerificationKeysFromEnv,
+  getTenantKeyStoreFromEnv,
+} from '@order-processing/storage';
 
 /**
  * Service factory for dependency injection
@@ -19,9 +41,20 @@ class ServiceFactory {
 
   private _caseRepository?: CaseRepository;
   private _fingerprintRepository?: FingerprintRepository;
+  private _templateRepository?: TemplateRepository;
+  private _itemAliasRepository?: ItemAliasRepository;
+  private _conversationRepository?: ConversationRepository;
   private _caseService?: CaseService;
   private _auditService?: AuditService;
   private _blobService?: BlobService;
+  private _usageService?: UsageService;
+  private _workflowClient?: WorkflowClient;
+  private _approvalService?: ApprovalService;
+  private _eventLogger?: EventLoggerService;
+  private _envelopeEncryption?: EnvelopeEncryption | null;
+  private _auditBundleService?: AuditBundleService;
+  private _auditExportService?: AuditExportService;
+  private _dataSubjectService?: DataSubjectRequestService;
   private _zohoClient?: ZohoClient;
   private _zohoPersistence?: ZohoPersistenceStores | null;
   private _zohoInitPromise?: Promise<void>;
@@ -57,6 +90,39 @@ class ServiceFactory {
     return this._fingerprintRepository;
   }
 
+  get templateRepository(): TemplateRepository {
+    if (!this._templateRepository) {
+      this._templateRepository = new TemplateRepository(
+        config.cosmos.endpoint,
+        config.cosmos.databaseId,
+        config.cosmos.containers.templates
+      );
+    }
+    return this._templateRepository;
+  }
+
+  get itemAliasRepository(): ItemAliasRepository {
+    if (!this._itemAliasRepository) {
+      this._itemAliasRepository = new ItemAliasRepository(
+        config.cosmos.endpoint,
+        config.cosmos.databaseId,
+        config.cosmos.containers.itemAliases
+      );
+    }
+    return this._itemAliasRepository;
+  }
+
+  get conversationRepository(): ConversationRepository {
+    if (!this._conversationRepository) {
+      this._conversationRepository = new ConversationRepository(
+        config.cosmos.endpoint,
+        config.cosmos.databaseId,
+        config.cosmos.containers.conversations
+      );
+    }
+    return this._conversationRepository;
+  }
+
   get caseService(): CaseService {
     if (!this._caseService) {
       this._caseService = new CaseService(this.caseRepository);
@@ -77,6 +143,31 @@ class ServiceFactory {
     return this._auditService;
   }
 
+  get usageService(): UsageService {
+    if (!this._usageService) {
+      this._usageService = new UsageService(this.caseRepository);
+    }
+    return this._usageService;
+  }
+
+  get workflowClient(): WorkflowClient {
+    if (!this._workflowClient) {
+      this._workflowClient = new WorkflowClient(config.workflow.endpoint);
+    }
+    return this._workflowClient;
+  }
+
+  get approvalService(): ApprovalService {
+    if (!this._approvalService) {
+      this._approvalService = new ApprovalService(
+        this.caseService,
+        this.auditService,
+        this.workflowClient
+      );
+    }
+    return this._approvalService;
+  }
+
   get blobService(): BlobService {
     if (!this._blobService) {
       this._blobService = new BlobService(config.storage.accountUrl);
@@ -84,6 +175,84 @@ class ServiceFactory {
     return this._blobService;
   }
 
+  /**
+   * Event log reader for audit chain verification
+   * (read-only here: bufferSize 1 and no signing key start no timers)
+   */
+  get eventLogger(): EventLoggerService {
+    if (!this._eventLogger) {
+      this._eventLogger = new EventLoggerService(config.storage.accountUrl, {
+        bufferSize: 1,
+        verificationKeys: getAnchorVerificationKeysFromEnv(),
+      });
+    }
+    return this._eventLogger;
+  }
+
+  /**
+   * Envelope encryption with the tenant data keys in DATA_KEY_VAULT_URL
+   * (undefined when not configured: encrypted artifacts can't be read)
+   */
+  get envelopeEncryption(): EnvelopeEncryption | undefined {
+    if (this._envelopeEncryption === undefined) {
+      const keyStore = getTenantKeyStoreFromEnv();
+      this._envelopeEncryption = keyStore ? new EnvelopeEncryption(keyStore) : null;
+    }
+    return this._envelopeEncryption ?? undefined;
+  }
+
+  /**
+   * Audit bundles, decrypting stored originals and canonical orders
+   * (only serve decrypted content to DECRYPTION_ROLES)
+   */
+  get auditBundleService(): AuditBundleService {
+    if (!this._auditBundleService) {
+      this._auditBundleService = new AuditBundleService(config.storage.accountUrl, {
+        encryption: this.envelopeEncryption,
+      });
+    }
+    return this._auditBundleService;
+  }
+
+  /**
+   * eDiscovery export packages, signed with the audit chain signing key
+   */
+  get auditExportService(): AuditExportService {
+    if (!this._auditExportService) {
+      const signingKey = getAnchorSigningKeyFromEnv();
+      if (!signingKey) {
+        throw new Error('AUDIT_CHAIN_SIGNING_KEY is required for audit exports');
+      }
+
+      this._auditExportService = new AuditExportService(config.storage.accountUrl, {
+        signingKey,
+        zohoLogSource: new BlobAuditStore({ storageAccountUrl: config.storage.accountUrl }),
+        eventLogger: this.eventLogger,
+        encryption: this.envelopeEncryption,
+      });
+    }
+    return this._auditExportService;
+  }
+
+  /**
+   * Data subject (right-to-erasure) requests over blobs, case records
+   * and bot conversation references
+   */
+  get dataSubjectService(): DataSubjectRequestService {
+    if (!this._dataSubjectService) {
+      this._dataSubjectService = new DataSubjectRequestService(config.storage.accountUrl, {
+        sources: [
+          new CaseRecordSubjectSource(this.caseRepository),
+          new ConversationReferenceSubjectSource(this.conversationRepository),
+        ],
+        zohoLogSource: new BlobAuditStore({ storageAccountUrl: config.storage.accountUrl }),
+        eventLogger: this.eventLogger,
+        encryption: this.envelopeEncryption,
+      });
+    }
+    return this._dataSubjectService;
+  }
+
   /**
    * Get the ZohoClient with Cosmos persistence (if available)
    * Must call initializeZohoClient() first to enable Cosmos persistence
@@ -93,23 +262,48 @@ class ServiceFactory {
       // Create with persistence stores if available, otherwise in-memory
       const keyVaultUrl = process.env.KEY_VAULT_URL || '';
       const gtinCustomFieldId = process.env.ZOHO_GTIN_CUSTOM_FIELD_ID;
+      const packSizeCustomFieldId = process.env.ZOHO_PACK_SIZE_CUSTOM_FIELD_ID;
       const externalOrderKeyFieldId = process.env.ZOHO_EXTERNAL_ORDER_KEY_FIELD_ID;
+      const priceVarianceThresholdPercent = process.env.PRICE_VARIANCE_THRESHOLD_PERCENT
+        ? Number(process.env.PRICE_VARIANCE_THRESHOLD_PERCENT)
+        : undefined;
+      const rateLimitPerMinute = process.env.ZOHO_RATE_LIMIT_PER_MINUTE
+        ? Number(process.env.ZOHO_RATE_LIMIT_PER_MINUTE)
+        : undefined;
+      const rateLimitPerDay = process.env.ZOHO_RATE_LIMIT_PER_DAY
+        ? Number(process.env.ZOHO_RATE_LIMIT_PER_DAY)
+        : undefined;
 
       if (this._zohoPersistence) {
         this._zohoClient = new ZohoClient({
           keyVaultUrl,
           gtinCustomFieldId,
+          packSizeCustomFieldId,
           externalOrderKeyFieldId,
+          priceVarianceThresholdPercent,
+          rateLimitPerMinute,
+          rateLimitPerDay,
+          // Shares the Zoho API budget with workflow workers
+          rateLimitStore: this._zohoPersistence.rateLimitStore,
+          cacheSnapshotStore: this._zohoPersistence.cacheSnapshotStore,
           fingerprintStore: this._zohoPersistence.fingerprintStore,
           retryQueue: this._zohoPersistence.retryQueue,
           outbox: this._zohoPersistence.outbox,
         });
       } else {
-        // Fallback to in-memory storage
+        // Fallback to in-memory storage (cache snapshots on local disk if configured)
+        const snapshotDir = process.env.ZOHO_CACHE_SNAPSHOT_DIR;
         this._zohoClient = new ZohoClient({
           keyVaultUrl,
           gtinCustomFieldId,
+          packSizeCustomFieldId,
           externalOrderKeyFieldId,
+          priceVarianceThresholdPercent,
+          rateLimitPerMinute,
+          rateLimitPerDay,
+          cacheSnapshotStore: snapshotDir
+            ? new FileCacheSnapshotStore({ directory: snapshotDir })
+            : undefined,
         });
       }
     }
@@ -154,9 +348,19 @@ class ServiceFactory {
   reset(): void {
     this._caseRepository = undefined;
     this._fingerprintRepository = undefined;
+    this._templateRepository = undefined;
+    this._itemAliasRepository = undefined;
+    this._conversationRepository = undefined;
     this._caseService = undefined;
     this._auditService = undefined;
     this._blobService = undefined;
+    this._workflowClient = undefined;
+    this._approvalService = undefined;
+    this._eventLogger = undefined;
+    this._envelopeEncryption = undefined;
+    this._auditBundleService = undefined;
+    this._auditExportService = undefined;
+    this._dataSubjectService = undefined;
     this._zohoClient = undefined;
     this._zohoPersistence = undefined;
     this._zohoInitPromise = undefined;
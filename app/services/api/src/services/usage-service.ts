@@ -0,0 +1,102 @@
+import {
+  CommitteeUsageReport,
+  CommitteeUsageTotals,
+} from '../types.js';
+import { CaseRepository, CaseUsageRecord } from '../repositories/case-repository.js';
+
+const TOP_CASES = 20;
+
+/**
+ * Service for AI committee usage reporting
+ */
+export class UsageService {
+  constructor(private caseRepo: CaseRepository) {}
+
+  /**
+   * Committee usage of a tenant, for cases created between dateFrom and dateTo
+   * (YYYY-MM-DD, both inclusive)
+   */
+  async getCommitteeUsageReport(
+    tenantId: string,
+    dateFrom: string,
+    dateTo: string
+  ): Promise<CommitteeUsageReport> {
+    const records = await this.caseRepo.listCommitteeUsage(
+      tenantId,
+      `${dateFrom}T00:00:00.000Z`,
+      `${dateTo}T23:59:59.999Z`
+    );
+
+    return buildCommitteeUsageReport(tenantId, dateFrom, dateTo, records);
+  }
+}
+
+/**
+ * Aggregate per-case committee usage into totals, per provider and per day
+ */
+export function buildCommitteeUsageReport(
+  tenantId: string,
+  dateFrom: string,
+  dateTo: string,
+  records: CaseUsageRecord[]
+): CommitteeUsageReport {
+  const report: CommitteeUsageReport = {
+    tenantId,
+    dateFrom,
+    dateTo,
+    totals: { ...emptyTotals(), cases: 0, committeeRuns: 0 },
+    byProvider: {},
+    byDay: [],
+    topCases: [],
+  };
+  const byDay = new Map<string, CommitteeUsageTotals & { day: string; cases: number }>();
+
+  for (const record of records) {
+    const usage = record.committeeUsage;
+    if (!usage) {
+      continue;
+    }
+
+    addTotals(report.totals, usage);
+    report.totals.cases++;
+    report.totals.committeeRuns += usage.committeeRuns;
+
+    for (const [providerId, providerUsage] of Object.entries(usage.byProvider)) {
+      addTotals((report.byProvider[providerId] ??= emptyTotals()), providerUsage);
+    }
+
+    const day = record.createdAt.slice(0, 10);
+    let dayTotals = byDay.get(day);
+    if (!dayTotals) {
+      dayTotals = { day, ...emptyTotals(), cases: 0 };
+      byDay.set(day, dayTotals);
+    }
+    addTotals(dayTotals, usage);
+    dayTotals.cases++;
+
+    report.topCases.push({
+      caseId: record.caseId,
+      customerName: record.customerName,
+      createdAt: record.createdAt,
+      costUsd: usage.costUsd,
+      committeeRuns: usage.committeeRuns,
+    });
+  }
+
+  report.byDay = [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+  report.topCases = report.topCases.sort((a, b) => b.costUsd - a.costUsd).slice(0, TOP_CASES);
+
+  return report;
+}
+
+function emptyTotals(): CommitteeUsageTotals {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, providerCalls: 0 };
+}
+
+function addTotals(target: CommitteeUsageTotals, usage: CommitteeUsageTotals): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  // Micro-dollar rounding keeps sums of many small calls readable
+  target.costUsd = Math.round((target.costUsd + usage.costUsd) * 1_000_000) / 1_000_000;
+  target.providerCalls += usage.providerCalls;
+}
@@ -0,0 +1,56 @@
+import { AppError } from '../middleware/error-handler.js';
+
+/**
+ * Error returned by the workflow service for a signal
+ * statusCode is the workflow service's: 404 when the workflow does not
+ * exist, 409 when it is no longer running.
+ */
+export class WorkflowSignalError extends AppError {
+  constructor(message: string, statusCode: number) {
+    super('WORKFLOW_SIGNAL_FAILED', message, statusCode);
+  }
+}
+
+/**
+ * Client of the workflow service's HTTP API
+ */
+export class WorkflowClient {
+  constructor(private endpoint: string) {}
+
+  /**
+   * Workflow ID of a case's order processing workflow (amendments reuse it)
+   */
+  static getOrderWorkflowId(caseId: string): string {
+    return `order-${caseId}`;
+  }
+
+  /**
+   * Send a signal to a running workflow
+   */
+  async signal(
+    workflowId: string,
+    signalName: string,
+    payload: unknown,
+    correlationId: string
+  ): Promise<void> {
+    const response = await fetch(
+      `${this.endpoint}/api/workflow/${encodeURIComponent(workflowId)}/signal/${encodeURIComponent(signalName)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-correlation-id': correlationId,
+        },
+        body: JSON.stringify(payload),
+      }
+    );
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new WorkflowSignalError(
+        body.error || `Workflow service returned ${response.status}`,
+        response.status
+      );
+    }
+  }
+}
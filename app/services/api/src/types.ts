@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import type { CacheStalenessMetrics } from '@order-processing/zoho';
 
 /**
  * Authentication context extracted from JWT
@@ -25,6 +26,7 @@ export enum UserRole {
   SalesUser = 'SalesUser',
   SalesManager = 'SalesManager',
   OpsAuditor = 'OpsAuditor',
+  Admin = 'Admin',
 }
 
 /**
@@ -34,6 +36,8 @@ export enum CaseStatus {
   Processing = 'processing',
   NeedsInput = 'needs_input',
   Ready = 'ready',
+  /** Written by the workflow while the approval card is out */
+  AwaitingApproval = 'awaiting_approval',
   Approved = 'approved',
   DraftCreated = 'draft_created',
   Failed = 'failed',
@@ -60,9 +64,50 @@ export interface Case {
   updatedAt: string;
   lastActivityAt: string;
   correlationId: string;
+  /** AI committee spend, summed over all committee runs of the case */
+  committeeUsage?: CaseCommitteeUsage;
+  /** Parsed order (written by the workflow) */
+  canonicalData?: unknown;
+  /** AAD group whose members approve the case (channel uploads, set by the bot) */
+  approverGroupId?: string;
+  /** Codes of the pricing issues blocking approval (e.g. UOM_FRACTIONAL_QUANTITY), set by the workflow */
+  blockingIssueCodes?: string[];
   _partitionKey?: string;
 }
 
+/**
+ * Token usage and cost of committee provider calls
+ */
+export interface CommitteeUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  providerCalls: number;
+}
+
+/**
+ * AI committee usage of a case (written by the workflow)
+ */
+export interface CaseCommitteeUsage extends CommitteeUsageTotals {
+  committeeRuns: number;
+  byProvider: Record<string, CommitteeUsageTotals>;
+  updatedAt: string;
+}
+
+/**
+ * AI committee usage of a tenant over a date range
+ */
+export interface CommitteeUsageReport {
+  tenantId: string;
+  dateFrom: string;
+  dateTo: string;
+  totals: CommitteeUsageTotals & { cases: number; committeeRuns: number };
+  byProvider: Record<string, CommitteeUsageTotals>;
+  byDay: Array<CommitteeUsageTotals & { day: string; cases: number }>;
+  /** Most expensive cases first */
+  topCases: Array<{ caseId: string; customerName?: string; createdAt: string; costUsd: number; committeeRuns: number }>;
+}
+
 /**
  * Case filters for listing
  */
@@ -138,6 +183,79 @@ export interface Fingerprint {
   _partitionKey?: string;
 }
 
+/**
+ * Remembered column mapping of a customer template
+ */
+export interface TemplateColumnMapping {
+  canonicalField: string;
+  sourceColumn: string;
+  sourceHeader: string;
+  method: 'manual' | 'template';
+}
+
+/**
+ * Per-customer column template stored in Cosmos DB
+ * (written by the workflow when corrections are applied)
+ */
+export interface ColumnTemplate {
+  id: string;
+  tenantId: string;
+  customerKey: string;
+  customerName: string;
+  headerFingerprint: string;
+  columnMappings: TemplateColumnMapping[];
+  source: 'corrections' | 'admin';
+  sourceCaseId?: string;
+  useCount: number;
+  lastUsedAt?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+/**
+ * Learned item alias stored in Cosmos DB
+ * (written by the workflow when users pick items)
+ */
+export interface ItemAlias {
+  id: string;
+  tenantId: string;
+  zohoCustomerId: string;
+  sourceKind: 'sku' | 'gtin' | 'description';
+  sourceValue: string;
+  sourceText: string;
+  zohoItemId: string;
+  zohoItemName?: string;
+  confirmations: number;
+  confidence: number;
+  lastConfirmedAt: string;
+  useCount: number;
+  lastUsedAt?: string;
+  revoked: boolean;
+  revokedAt?: string;
+  revokedBy?: string;
+  revokeReason?: string;
+  sourceCaseId: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Bot conversation reference stored in Cosmos DB
+ * (written by the Teams bot for proactive messages; fields the API reads)
+ */
+export interface ConversationReferenceRecord {
+  id: string;
+  partitionKey: string;
+  tenantId: string;
+  userId: string;
+  userName?: string;
+  caseId?: string;
+  createdAt: string;
+}
+
 /**
  * Bot webhook event types
  */
@@ -165,6 +283,30 @@ export interface ApprovalEvent {
   tenantId: string;
 }
 
+/**
+ * Outcome of one case of a bulk approval
+ * - signalled: the decision was sent to the case's workflow
+ * - skipped: the case is not awaiting approval
+ * - failed: the case was not found, not accessible, or the signal failed
+ */
+export type BulkApprovalOutcome = 'signalled' | 'skipped' | 'failed';
+
+export interface BulkApprovalCaseResult {
+  caseId: string;
+  outcome: BulkApprovalOutcome;
+  error?: string;
+}
+
+/**
+ * Response of a bulk approve or reject
+ */
+export interface BulkApprovalResult {
+  batchId: string;
+  approved: boolean;
+  results: BulkApprovalCaseResult[];
+  summary: Record<BulkApprovalOutcome, number>;
+}
+
 /**
  * SAS URL response
  */
@@ -195,5 +337,7 @@ export interface HealthResponse {
   dependencies?: {
     cosmos?: 'up' | 'down';
     blob?: 'up' | 'down';
+    zohoCache?: 'fresh' | 'stale';
   };
+  caches?: CacheStalenessMetrics[];
 }
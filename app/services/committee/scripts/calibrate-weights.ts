@@ -12,7 +12,7 @@ import * as path from 'path';
 import { CommitteeEngine, createDefaultConfig } from '../src/engine';
 import { ProviderFactory } from '../src/providers/provider-factory';
 import { getDefaultProviderConfigs } from '../src/config/provider-config';
-import { saveWeights, normalizeWeights } from '../src/config/weights';
+import { saveWeights, normalizeWeights, weightFromAccuracy } from '../src/config/weights';
 import { saveCalibrationResults, formatWeightSummary } from '../src/config/weights-file';
 import {
   GoldenTestCase,
@@ -102,10 +102,7 @@ function calculateAccuracy(
   const overallAccuracy = totalMappings > 0 ? correctMappings / totalMappings : 0;
 
   // Calculate recommended weight based on accuracy
-  // Using logit function: weight = 1 / (1 + e^(-k * (accuracy - 0.5)))
-  // Where k controls steepness, higher k = more sensitive to accuracy differences
-  const k = 10;
-  const recommendedWeight = 1 / (1 + Math.exp(-k * (overallAccuracy - 0.5)));
+  const recommendedWeight = weightFromAccuracy(overallAccuracy);
 
   return {
     providerId,
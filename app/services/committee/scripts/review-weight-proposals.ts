@@ -0,0 +1,107 @@
+/**
+ * Weight proposal review script
+ *
+ * Approval gate for weights proposed from production corrections. Approving
+ * writes the proposed weights to the weights file, which replaces
+ * DEFAULT_WEIGHTS on the next engine start.
+ *
+ * Usage:
+ *   npm run review-weights -- --list
+ *   npm run review-weights -- --propose
+ *   npm run review-weights -- --show <proposalId>
+ *   npm run review-weights -- --approve <proposalId> --by <reviewer> [--weights-file <path>]
+ *   npm run review-weights -- --reject <proposalId> --by <reviewer> [--reason <text>]
+ */
+
+import { BlobServiceClient } from '@azure/storage-blob';
+import { BlobCalibrationStore } from '../src/calibration/calibration-store';
+import { ProviderFeedbackTracker } from '../src/calibration/feedback-tracker';
+import {
+  approveWeightProposal,
+  formatWeightProposalDiff,
+  getAccuracy,
+  rejectWeightProposal,
+} from '../src/calibration/weight-proposal';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function review(args: string[]): Promise<void> {
+  const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+  if (!connectionString) {
+    throw new Error('AZURE_STORAGE_CONNECTION_STRING is required');
+  }
+
+  const store = new BlobCalibrationStore(BlobServiceClient.fromConnectionString(connectionString));
+
+  if (args.includes('--list')) {
+    const stats = await store.getStats();
+    if (stats) {
+      console.log(`Feedback from ${stats.casesRecorded} cases (last update ${stats.updatedAt})\n`);
+      for (const [providerId, accuracy] of Object.entries(stats.providers)) {
+        const languages = Object.entries(accuracy.languages)
+          .map(([language, counter]) => `${language} ${(getAccuracy(counter) * 100).toFixed(1)}%`)
+          .join(', ');
+        console.log(
+          `  ${providerId}: ${(getAccuracy(accuracy.overall) * 100).toFixed(1)}% over ${accuracy.casesRecorded} cases (${languages})`
+        );
+      }
+      console.log('');
+    }
+
+    const proposals = await store.listProposals();
+    if (proposals.length === 0) {
+      console.log('No weight proposals.');
+    }
+    for (const proposal of proposals) {
+      console.log(`${proposal.id}  ${proposal.status.padEnd(8)}  ${proposal.createdAt}  (${proposal.casesRecorded} cases)`);
+    }
+    return;
+  }
+
+  if (args.includes('--propose')) {
+    const proposal = await new ProviderFeedbackTracker({ store }).proposeWeights();
+    console.log(proposal ? formatWeightProposalDiff(proposal) : 'No feedback recorded yet.');
+    return;
+  }
+
+  const showId = getArg(args, '--show');
+  if (showId) {
+    const proposal = await store.getProposal(showId);
+    console.log(proposal ? formatWeightProposalDiff(proposal) : `Weight proposal ${showId} not found`);
+    return;
+  }
+
+  const approveId = getArg(args, '--approve');
+  const rejectId = getArg(args, '--reject');
+  const reviewer = getArg(args, '--by');
+
+  if ((approveId || rejectId) && !reviewer) {
+    throw new Error('--by <reviewer> is required to approve or reject a proposal');
+  }
+
+  if (approveId) {
+    const proposal = await approveWeightProposal(store, approveId, reviewer!, getArg(args, '--weights-file'));
+    console.log(formatWeightProposalDiff(proposal));
+    console.log('\n[OK] Weights saved. Restart committee workers to load them.');
+    return;
+  }
+
+  if (rejectId) {
+    const proposal = await rejectWeightProposal(store, rejectId, reviewer!, getArg(args, '--reason'));
+    console.log(formatWeightProposalDiff(proposal));
+    return;
+  }
+
+  console.error('Usage: npm run review-weights -- --list | --propose | --show <id> | --approve <id> --by <name> | --reject <id> --by <name>');
+  process.exit(1);
+}
+
+review(process.argv.slice(2))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('\nWeight review failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,110 @@
+/**
+ * Committee cost model
+ *
+ * Prices provider calls from token counts. Providers report the tokens they
+ * billed; when they don't (or before a call, for budget-aware selection) the
+ * counts are estimated from the prompt size.
+ */
+
+import {
+  CommitteeUsage,
+  ProviderOutput,
+  ProviderPricing,
+  ProviderUsage,
+  TokenCounts,
+} from '../types';
+
+/** Conservative: Persian and Arabic headers tokenize denser than English */
+const CHARS_PER_TOKEN = 3;
+
+/** Mapping plus reasoning per field, and the issues/envelope of the JSON */
+const OUTPUT_TOKENS_PER_FIELD = 80;
+const OUTPUT_TOKENS_BASE = 150;
+
+/**
+ * Estimate the token count of a prompt
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the output tokens of a mapping response
+ */
+export function estimateOutputTokens(fieldCount: number): number {
+  return OUTPUT_TOKENS_BASE + fieldCount * OUTPUT_TOKENS_PER_FIELD;
+}
+
+/**
+ * Cost of a call in USD (0 for unpriced providers)
+ */
+export function calculateCostUsd(tokens: TokenCounts, pricing?: ProviderPricing): number {
+  if (!pricing) {
+    return 0;
+  }
+
+  return roundUsd(
+    (tokens.inputTokens * pricing.inputPer1MTokensUsd + tokens.outputTokens * pricing.outputPer1MTokensUsd) /
+      1_000_000
+  );
+}
+
+/**
+ * Usage record of one provider call
+ */
+export function buildProviderUsage(
+  tokens: TokenCounts,
+  pricing: ProviderPricing | undefined,
+  latencyMs: number,
+  estimated: boolean
+): ProviderUsage {
+  return {
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    costUsd: calculateCostUsd(tokens, pricing),
+    latencyMs,
+    estimated,
+  };
+}
+
+/**
+ * Aggregate the usage of all provider calls of a committee run
+ */
+export function summarizeUsage(outputs: ProviderOutput[]): CommitteeUsage {
+  const usage: CommitteeUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    providerCalls: 0,
+    byProvider: {},
+  };
+
+  for (const output of outputs) {
+    if (!output.usage) {
+      continue;
+    }
+
+    usage.inputTokens += output.usage.inputTokens;
+    usage.outputTokens += output.usage.outputTokens;
+    usage.costUsd += output.usage.costUsd;
+    usage.providerCalls++;
+    usage.byProvider[output.providerId] = output.usage;
+  }
+
+  usage.costUsd = roundUsd(usage.costUsd);
+  return usage;
+}
+
+/**
+ * Usage of a run that made no provider calls (cache hits)
+ */
+export function emptyUsage(): CommitteeUsage {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, providerCalls: 0, byProvider: {} };
+}
+
+/**
+ * Round to micro-dollars so sums of many small calls stay readable
+ */
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,48 @@
+/**
+ * Provider latency tracker
+ *
+ * Keeps an exponentially weighted moving average of the measured latency of
+ * each provider so budget-aware selection can skip providers that are
+ * currently too slow. Latencies are measured per worker process.
+ */
+
+export interface ProviderLatencyTrackerOptions {
+  alpha?: number; // Default: 0.2 - weight of the newest measurement
+  defaultLatencyMs?: number; // Default: 10000 - assumed for providers not measured yet
+}
+
+export class ProviderLatencyTracker {
+  private readonly alpha: number;
+  private readonly defaultLatencyMs: number;
+  private readonly averages = new Map<string, number>();
+
+  constructor(options: ProviderLatencyTrackerOptions = {}) {
+    this.alpha = options.alpha ?? 0.2;
+    this.defaultLatencyMs = options.defaultLatencyMs ?? 10000;
+  }
+
+  /**
+   * Record a measured call latency
+   */
+  record(providerId: string, latencyMs: number): void {
+    const current = this.averages.get(providerId);
+    this.averages.set(
+      providerId,
+      current === undefined ? latencyMs : this.alpha * latencyMs + (1 - this.alpha) * current
+    );
+  }
+
+  /**
+   * Expected latency of the next call
+   */
+  estimate(providerId: string): number {
+    return Math.round(this.averages.get(providerId) ?? this.defaultLatencyMs);
+  }
+
+  /**
+   * Current averages of all measured providers
+   */
+  snapshot(): Record<string, number> {
+    return Object.fromEntries([...this.averages].map(([id, ms]) => [id, Math.round(ms)]));
+  }
+}
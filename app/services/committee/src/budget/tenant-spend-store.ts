@@ -0,0 +1,142 @@
+/**
+ * Tenant spend storage
+ *
+ * Daily committee spend per tenant, checked against the tenant's daily
+ * budget before providers are selected. The blob store shares it across
+ * workflow workers through the committee-outputs container:
+ *
+ * committee-outputs/usage/{tenantId}/{YYYY-MM-DD}.json
+ */
+
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { CommitteeUsage } from '../types';
+import { roundUsd } from './cost-model';
+
+/**
+ * Committee spend of a tenant on one UTC day
+ */
+export interface TenantDailyUsage {
+  tenantId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  providerCalls: number;
+  committeeRuns: number;
+  updatedAt: string;
+}
+
+export interface ITenantSpendStore {
+  get(tenantId: string, day: string): Promise<TenantDailyUsage | null>;
+  /** Atomically add the usage of a committee run */
+  add(tenantId: string, day: string, usage: CommitteeUsage): Promise<TenantDailyUsage>;
+}
+
+/**
+ * UTC day key of a timestamp
+ */
+export function usageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addUsage(
+  current: TenantDailyUsage | null,
+  tenantId: string,
+  day: string,
+  usage: CommitteeUsage
+): TenantDailyUsage {
+  return {
+    tenantId,
+    day,
+    costUsd: roundUsd((current?.costUsd ?? 0) + usage.costUsd),
+    inputTokens: (current?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (current?.outputTokens ?? 0) + usage.outputTokens,
+    providerCalls: (current?.providerCalls ?? 0) + usage.providerCalls,
+    committeeRuns: (current?.committeeRuns ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * In-memory store (this process only)
+ */
+export class InMemoryTenantSpendStore implements ITenantSpendStore {
+  private readonly entries = new Map<string, TenantDailyUsage>();
+
+  async get(tenantId: string, day: string): Promise<TenantDailyUsage | null> {
+    return this.entries.get(`${tenantId}/${day}`) ?? null;
+  }
+
+  async add(tenantId: string, day: string, usage: CommitteeUsage): Promise<TenantDailyUsage> {
+    const key = `${tenantId}/${day}`;
+    const next = addUsage(this.entries.get(key) ?? null, tenantId, day, usage);
+    this.entries.set(key, next);
+    return next;
+  }
+}
+
+const CONTAINER_NAME = 'committee-outputs';
+
+/**
+ * Blob storage store; updates use ETag concurrency and are retried on conflict
+ */
+export class BlobTenantSpendStore implements ITenantSpendStore {
+  private readonly container: ContainerClient;
+  private readonly maxConflictRetries: number;
+  private containerReady?: Promise<unknown>;
+
+  constructor(blobClient: BlobServiceClient, maxConflictRetries = 10) {
+    this.container = blobClient.getContainerClient(CONTAINER_NAME);
+    this.maxConflictRetries = maxConflictRetries;
+  }
+
+  async get(tenantId: string, day: string): Promise<TenantDailyUsage | null> {
+    return (await this.read(tenantId, day))?.value ?? null;
+  }
+
+  async add(tenantId: string, day: string, usage: CommitteeUsage): Promise<TenantDailyUsage> {
+    this.containerReady ??= this.container.createIfNotExists();
+    await this.containerReady;
+
+    for (let attempt = 0; attempt <= this.maxConflictRetries; attempt++) {
+      const existing = await this.read(tenantId, day);
+      const next = addUsage(existing?.value ?? null, tenantId, day, usage);
+      const content = JSON.stringify(next, null, 2);
+
+      try {
+        await this.container.getBlockBlobClient(getBlobName(tenantId, day)).upload(content, Buffer.byteLength(content), {
+          blobHTTPHeaders: { blobContentType: 'application/json' },
+          conditions: existing ? { ifMatch: existing.etag } : { ifNoneMatch: '*' },
+        });
+        return next;
+      } catch (error) {
+        // 412: changed since read, 409: created concurrently - read again
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode !== 412 && statusCode !== 409) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Committee spend of tenant ${tenantId} is too contended to update`);
+  }
+
+  private async read(tenantId: string, day: string): Promise<{ value: TenantDailyUsage; etag?: string } | null> {
+    try {
+      const blobClient = this.container.getBlobClient(getBlobName(tenantId, day));
+      const { etag } = await blobClient.getProperties();
+      // Pin the download to the ETag so content and ETag belong together
+      const buffer = await blobClient.downloadToBuffer(0, undefined, { conditions: { ifMatch: etag } });
+      return { value: JSON.parse(buffer.toString('utf-8')) as TenantDailyUsage, etag };
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+function getBlobName(tenantId: string, day: string): string {
+  return `usage/${encodeURIComponent(tenantId)}/${day}.json`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Blob storage cache store
+ *
+ * Keeps cache entries in the committee-outputs container next to the raw
+ * provider outputs, one blob per fingerprint under cache/.
+ */
+
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { CommitteeCacheEntry, ICommitteeCacheStore } from './committee-cache';
+
+const CONTAINER_NAME = 'committee-outputs';
+
+export class BlobCommitteeCacheStore implements ICommitteeCacheStore {
+  private readonly container: ContainerClient;
+  private containerReady?: Promise<unknown>;
+
+  constructor(blobClient: BlobServiceClient) {
+    this.container = blobClient.getContainerClient(CONTAINER_NAME);
+  }
+
+  async get(fingerprint: string): Promise<CommitteeCacheEntry | null> {
+    try {
+      const buffer = await this.container.getBlobClient(this.getBlobName(fingerprint)).downloadToBuffer();
+      return JSON.parse(buffer.toString('utf-8')) as CommitteeCacheEntry;
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(entry: CommitteeCacheEntry): Promise<void> {
+    this.containerReady ??= this.container.createIfNotExists();
+    await this.containerReady;
+
+    const content = JSON.stringify(entry, null, 2);
+    await this.container.getBlockBlobClient(this.getBlobName(entry.fingerprint)).upload(content, Buffer.byteLength(content), {
+      blobHTTPHeaders: { blobContentType: 'application/json' },
+      metadata: { expiresAt: entry.expiresAt, sourceTaskId: entry.sourceTaskId },
+    });
+  }
+
+  async delete(fingerprint: string): Promise<void> {
+    await this.container.getBlobClient(this.getBlobName(fingerprint)).deleteIfExists();
+  }
+
+  private getBlobName(fingerprint: string): string {
+    return `cache/${fingerprint}.json`;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Committee decision cache
+ *
+ * The same customer tends to send the same sheet layout again and again.
+ * Decisions are cached under a fingerprint of the evidence pack so repeat
+ * uploads skip the paid provider calls.
+ *
+ * - The fingerprint covers what the providers decide on: normalized headers,
+ *   column stats, language, expected fields and candidate columns. Case IDs,
+ *   timestamps and sample values are left out, and column stats are reduced
+ *   to rounded shares of their non-empty cells, so a new file with the same
+ *   layout but a different number of rows hits the cache.
+ * - The fingerprint includes the tenant: a decision is only reused for the
+ *   tenant whose file it was taken on.
+ * - Each entry records the configuration it was decided with; a change of
+ *   weights, provider pool or thresholds invalidates it.
+ * - Entries expire after ttlMs.
+ */
+
+import { createHash } from 'crypto';
+import {
+  CommitteeConfig,
+  CommitteeResult,
+  CommitteeTask,
+  SchemaMappingTask,
+} from '../types';
+
+/**
+ * Cached committee decision
+ */
+export interface CommitteeCacheEntry {
+  fingerprint: string;
+  configFingerprint: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Committee run the decision was taken in */
+  sourceTaskId: string;
+  sourceCaseId: string;
+  result: Pick<
+    CommitteeResult,
+    | 'taskType'
+    | 'selectedProviders'
+    | 'providerOutputs'
+    | 'aggregatedResult'
+    | 'finalMappings'
+    | 'requiresHumanReview'
+    | 'executionTimeMs'
+    | 'usage'
+  >;
+  rawOutputsBlobUri?: string;
+}
+
+/**
+ * Storage for cache entries
+ */
+export interface ICommitteeCacheStore {
+  get(fingerprint: string): Promise<CommitteeCacheEntry | null>;
+  set(entry: CommitteeCacheEntry): Promise<void>;
+  delete(fingerprint: string): Promise<void>;
+}
+
+/**
+ * In-memory store (this process only)
+ */
+export class InMemoryCommitteeCacheStore implements ICommitteeCacheStore {
+  private readonly entries = new Map<string, CommitteeCacheEntry>();
+
+  async get(fingerprint: string): Promise<CommitteeCacheEntry | null> {
+    return this.entries.get(fingerprint) ?? null;
+  }
+
+  async set(entry: CommitteeCacheEntry): Promise<void> {
+    this.entries.set(entry.fingerprint, entry);
+  }
+
+  async delete(fingerprint: string): Promise<void> {
+    this.entries.delete(fingerprint);
+  }
+}
+
+export interface CommitteeCacheOptions {
+  store?: ICommitteeCacheStore; // Default: in-memory
+  ttlMs: number;
+}
+
+export class CommitteeCache {
+  private readonly store: ICommitteeCacheStore;
+  private readonly ttlMs: number;
+
+  constructor(options: CommitteeCacheOptions) {
+    this.store = options.store ?? new InMemoryCommitteeCacheStore();
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Find a valid decision for the task under the given configuration
+   */
+  async lookup(fingerprint: string, config: CommitteeConfig): Promise<CommitteeCacheEntry | null> {
+    const entry = await this.store.get(fingerprint);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.parse(entry.expiresAt) <= Date.now() || entry.configFingerprint !== fingerprintConfig(config)) {
+      await this.store.delete(fingerprint);
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Cache the decision of a completed committee run
+   */
+  async save(fingerprint: string, config: CommitteeConfig, result: CommitteeResult): Promise<CommitteeCacheEntry> {
+    const now = Date.now();
+    const entry: CommitteeCacheEntry = {
+      fingerprint,
+      configFingerprint: fingerprintConfig(config),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      sourceTaskId: result.taskId,
+      sourceCaseId: result.caseId,
+      result: {
+        taskType: result.taskType,
+        selectedProviders: result.selectedProviders,
+        providerOutputs: result.providerOutputs,
+        aggregatedResult: result.aggregatedResult,
+        finalMappings: result.finalMappings,
+        requiresHumanReview: result.requiresHumanReview,
+        executionTimeMs: result.executionTimeMs,
+        usage: result.usage,
+      },
+      rawOutputsBlobUri: result.auditTrail.rawOutputsBlobUri,
+    };
+
+    await this.store.set(entry);
+    return entry;
+  }
+}
+
+/**
+ * Fingerprint of the evidence a committee decision depends on, per tenant
+ */
+export function fingerprintTask(task: CommitteeTask): string {
+  const { evidencePack } = task;
+
+  return sha256({
+    tenantId: task.tenantId ?? null,
+    type: task.type,
+    expectedFields: [...task.expectedFields].sort(),
+    candidateColumns:
+      task.type === 'schema-mapping' ? sortKeys((task as SchemaMappingTask).candidateColumns ?? {}) : undefined,
+    headers: evidencePack.candidateHeaders.map(normalizeText),
+    columnStats: evidencePack.columnStats.map((stat) => ({
+      columnId: stat.columnId,
+      headerText: normalizeText(stat.headerText),
+      empty: stat.nonEmptyCount === 0,
+      uniqueShare: share(stat.uniqueCount, stat.nonEmptyCount),
+      dataTypes: sortKeys(stat.dataTypes).map(([type, count]) => [type, share(count, stat.nonEmptyCount)]),
+      patterns: [...stat.patterns].sort(),
+    })),
+    language: evidencePack.detectedLanguage,
+  });
+}
+
+/**
+ * Fingerprint of the settings that change committee decisions
+ */
+export function fingerprintConfig(config: CommitteeConfig): string {
+  return sha256({
+    providerCount: config.providerCount,
+    providerPool: [...config.providerPool].sort(),
+    weights: sortKeys(config.weights),
+    consensusThreshold: config.consensusThreshold,
+    confidenceThreshold: config.confidenceThreshold,
+    minSuccessfulProviders: config.minSuccessfulProviders,
+  });
+}
+
+function normalizeText(value: string): string {
+  return value.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Share of a column's non-empty cells, rounded to tenths
+ */
+function share(count: number, nonEmptyCount: number): number {
+  return nonEmptyCount > 0 ? Math.round((count / nonEmptyCount) * 10) / 10 : 0;
+}
+
+function sortKeys<T>(record: Record<string, T>): Array<[string, T]> {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+}
+
+function sha256(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
@@ -0,0 +1,156 @@
+/**
+ * Calibration storage
+ *
+ * Holds the rolling feedback statistics and the weight proposals. The blob
+ * store shares them across workflow workers through the committee-outputs
+ * container:
+ *
+ * committee-outputs/calibration/
+ *   feedback-stats.json
+ *   proposals/{proposalId}.json
+ */
+
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import type { FeedbackStats } from './feedback-tracker';
+import type { WeightProposal, WeightProposalStatus } from './weight-proposal';
+
+export interface ICalibrationStore {
+  getStats(): Promise<FeedbackStats | null>;
+  /** Atomically replace the statistics with mutate(current) */
+  updateStats(mutate: (current: FeedbackStats | null) => FeedbackStats): Promise<FeedbackStats>;
+  saveProposal(proposal: WeightProposal): Promise<void>;
+  getProposal(proposalId: string): Promise<WeightProposal | null>;
+  listProposals(status?: WeightProposalStatus): Promise<WeightProposal[]>;
+}
+
+/**
+ * In-memory store (this process only)
+ */
+export class InMemoryCalibrationStore implements ICalibrationStore {
+  private stats: FeedbackStats | null = null;
+  private readonly proposals = new Map<string, WeightProposal>();
+
+  async getStats(): Promise<FeedbackStats | null> {
+    return this.stats;
+  }
+
+  async updateStats(mutate: (current: FeedbackStats | null) => FeedbackStats): Promise<FeedbackStats> {
+    this.stats = mutate(this.stats);
+    return this.stats;
+  }
+
+  async saveProposal(proposal: WeightProposal): Promise<void> {
+    this.proposals.set(proposal.id, proposal);
+  }
+
+  async getProposal(proposalId: string): Promise<WeightProposal | null> {
+    return this.proposals.get(proposalId) ?? null;
+  }
+
+  async listProposals(status?: WeightProposalStatus): Promise<WeightProposal[]> {
+    return sortProposals([...this.proposals.values()].filter((p) => !status || p.status === status));
+  }
+}
+
+const CONTAINER_NAME = 'committee-outputs';
+const STATS_BLOB = 'calibration/feedback-stats.json';
+const PROPOSALS_PREFIX = 'calibration/proposals/';
+
+/**
+ * Blob storage store; statistics are updated with ETag concurrency and
+ * retried on conflict
+ */
+export class BlobCalibrationStore implements ICalibrationStore {
+  private readonly container: ContainerClient;
+  private readonly maxConflictRetries: number;
+  private containerReady?: Promise<unknown>;
+
+  constructor(blobClient: BlobServiceClient, maxConflictRetries = 10) {
+    this.container = blobClient.getContainerClient(CONTAINER_NAME);
+    this.maxConflictRetries = maxConflictRetries;
+  }
+
+  async getStats(): Promise<FeedbackStats | null> {
+    return (await this.readJson<FeedbackStats>(STATS_BLOB))?.value ?? null;
+  }
+
+  async updateStats(mutate: (current: FeedbackStats | null) => FeedbackStats): Promise<FeedbackStats> {
+    await this.ensureContainer();
+
+    for (let attempt = 0; attempt <= this.maxConflictRetries; attempt++) {
+      const existing = await this.readJson<FeedbackStats>(STATS_BLOB);
+      const next = mutate(existing?.value ?? null);
+
+      try {
+        await this.writeJson(STATS_BLOB, next, existing ? { ifMatch: existing.etag } : { ifNoneMatch: '*' });
+        return next;
+      } catch (error) {
+        // 412: changed since read, 409: created concurrently - read again
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode !== 412 && statusCode !== 409) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error('Committee feedback statistics are too contended to update');
+  }
+
+  async saveProposal(proposal: WeightProposal): Promise<void> {
+    await this.ensureContainer();
+    await this.writeJson(`${PROPOSALS_PREFIX}${proposal.id}.json`, proposal);
+  }
+
+  async getProposal(proposalId: string): Promise<WeightProposal | null> {
+    return (await this.readJson<WeightProposal>(`${PROPOSALS_PREFIX}${proposalId}.json`))?.value ?? null;
+  }
+
+  async listProposals(status?: WeightProposalStatus): Promise<WeightProposal[]> {
+    const proposals: WeightProposal[] = [];
+
+    for await (const blob of this.container.listBlobsFlat({ prefix: PROPOSALS_PREFIX })) {
+      const proposal = (await this.readJson<WeightProposal>(blob.name))?.value;
+      if (proposal && (!status || proposal.status === status)) {
+        proposals.push(proposal);
+      }
+    }
+
+    return sortProposals(proposals);
+  }
+
+  private ensureContainer(): Promise<unknown> {
+    this.containerReady ??= this.container.createIfNotExists();
+    return this.containerReady;
+  }
+
+  private async readJson<T>(blobName: string): Promise<{ value: T; etag?: string } | null> {
+    try {
+      const blobClient = this.container.getBlobClient(blobName);
+      const { etag } = await blobClient.getProperties();
+      // Pin the download to the ETag so content and ETag belong together
+      const buffer = await blobClient.downloadToBuffer(0, undefined, { conditions: { ifMatch: etag } });
+      return { value: JSON.parse(buffer.toString('utf-8')) as T, etag };
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeJson(
+    blobName: string,
+    value: unknown,
+    conditions?: { ifMatch?: string; ifNoneMatch?: string }
+  ): Promise<void> {
+    const content = JSON.stringify(value, null, 2);
+    await this.container.getBlockBlobClient(blobName).upload(content, Buffer.byteLength(content), {
+      blobHTTPHeaders: { blobContentType: 'application/json' },
+      conditions,
+    });
+  }
+}
+
+function sortProposals(proposals: WeightProposal[]): WeightProposal[] {
+  return proposals.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
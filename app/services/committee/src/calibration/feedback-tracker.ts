@@ -0,0 +1,225 @@
+/**
+ * Production feedback tracker
+ *
+ * Every set of user corrections confirms the real column mapping of a sheet,
+ * which tells us which committee providers voted correctly. The tracker scores
+ * each provider's votes against the confirmed mapping and keeps rolling
+ * accuracy per provider, per field and per language.
+ *
+ * - Rolling: existing counts of a provider decay by `decay` for every case it
+ *   takes part in, so recent behaviour outweighs old behaviour
+ * - Every `proposalInterval` recorded cases a weight proposal is created; it
+ *   stays pending until approved (see weight-proposal.ts)
+ */
+
+import { ProviderOutput, SupportedLanguage } from '../types';
+import { loadWeights } from '../config/weights';
+import { ICalibrationStore, InMemoryCalibrationStore } from './calibration-store';
+import { WeightProposal, buildWeightProposal } from './weight-proposal';
+
+/**
+ * Decayed count of correct votes
+ */
+export interface AccuracyCounter {
+  correct: number;
+  total: number;
+}
+
+/**
+ * Rolling accuracy of one provider
+ */
+export interface ProviderAccuracy {
+  overall: AccuracyCounter;
+  fields: Record<string, AccuracyCounter>;
+  languages: Record<string, AccuracyCounter>;
+  /** Cases scored (not decayed) */
+  casesRecorded: number;
+  lastRecordedAt: string;
+}
+
+/**
+ * Accuracy of all providers from production feedback
+ */
+export interface FeedbackStats {
+  updatedAt: string;
+  casesRecorded: number;
+  casesSinceProposal: number;
+  providers: Record<string, ProviderAccuracy>;
+}
+
+/**
+ * Provider votes of one committee run and the mapping the user confirmed
+ */
+export interface MappingFeedback {
+  caseId: string;
+  language: SupportedLanguage;
+  providerOutputs: ProviderOutput[];
+  /** field -> confirmed column ID (null = field not in the sheet) */
+  confirmedMappings: Record<string, string | null>;
+}
+
+export interface ProviderFeedbackTrackerOptions {
+  store?: ICalibrationStore; // Default: in-memory
+  decay?: number; // Default: 0.98 - weight kept by older votes per new case
+  proposalInterval?: number; // Default: 50 cases between weight proposals
+  minObservations?: number; // Default: 20 - votes before a provider's weight is re-estimated
+  currentWeights?: () => Record<string, number>; // Default: loadWeights
+}
+
+export interface RecordFeedbackResult {
+  /** Providers whose votes were scored */
+  scoredProviders: string[];
+  /** Proposal created because the interval was reached */
+  proposal?: WeightProposal;
+}
+
+export class ProviderFeedbackTracker {
+  private readonly store: ICalibrationStore;
+  private readonly decay: number;
+  private readonly proposalInterval: number;
+  private readonly minObservations: number;
+  private readonly currentWeights: () => Record<string, number>;
+
+  constructor(options: ProviderFeedbackTrackerOptions = {}) {
+    this.store = options.store ?? new InMemoryCalibrationStore();
+    this.decay = options.decay ?? 0.98;
+    this.proposalInterval = options.proposalInterval ?? 50;
+    this.minObservations = options.minObservations ?? 20;
+    this.currentWeights = options.currentWeights ?? loadWeights;
+  }
+
+  /**
+   * Score provider votes against the confirmed mapping
+   */
+  async recordFeedback(feedback: MappingFeedback): Promise<RecordFeedbackResult> {
+    const outcomes = scoreProviderVotes(feedback);
+    const now = new Date().toISOString();
+
+    if (outcomes.size === 0) {
+      return { scoredProviders: [] };
+    }
+
+    const stats = await this.store.updateStats((current) => {
+      const next: FeedbackStats = current
+        ? { ...current, providers: { ...current.providers } }
+        : { updatedAt: now, casesRecorded: 0, casesSinceProposal: 0, providers: {} };
+
+      for (const [providerId, votes] of outcomes) {
+        next.providers[providerId] = this.applyVotes(next.providers[providerId], votes, feedback.language, now);
+      }
+
+      next.updatedAt = now;
+      next.casesRecorded++;
+      next.casesSinceProposal++;
+      return next;
+    });
+
+    const result: RecordFeedbackResult = { scoredProviders: [...outcomes.keys()] };
+
+    if (stats.casesSinceProposal >= this.proposalInterval) {
+      result.proposal = await this.proposeWeights(stats);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create a pending weight proposal from the current statistics
+   */
+  async proposeWeights(stats?: FeedbackStats): Promise<WeightProposal | undefined> {
+    const current = stats ?? (await this.store.getStats());
+    if (!current) {
+      return undefined;
+    }
+
+    const proposal = buildWeightProposal(current, this.currentWeights(), {
+      minObservations: this.minObservations,
+    });
+
+    await this.store.saveProposal(proposal);
+    await this.store.updateStats((latest) => ({
+      ...(latest ?? current),
+      casesSinceProposal: 0,
+    }));
+
+    return proposal;
+  }
+
+  getStats(): Promise<FeedbackStats | null> {
+    return this.store.getStats();
+  }
+
+  private applyVotes(
+    current: ProviderAccuracy | undefined,
+    votes: Array<{ field: string; correct: boolean }>,
+    language: SupportedLanguage,
+    now: string
+  ): ProviderAccuracy {
+    const decayed: ProviderAccuracy = current
+      ? {
+          overall: decayCounter(current.overall, this.decay),
+          fields: mapCounters(current.fields, (c) => decayCounter(c, this.decay)),
+          languages: mapCounters(current.languages, (c) => decayCounter(c, this.decay)),
+          casesRecorded: current.casesRecorded,
+          lastRecordedAt: current.lastRecordedAt,
+        }
+      : { overall: { correct: 0, total: 0 }, fields: {}, languages: {}, casesRecorded: 0, lastRecordedAt: now };
+
+    for (const vote of votes) {
+      addVote(decayed.overall, vote.correct);
+      addVote((decayed.fields[vote.field] ??= { correct: 0, total: 0 }), vote.correct);
+      addVote((decayed.languages[language] ??= { correct: 0, total: 0 }), vote.correct);
+    }
+
+    decayed.casesRecorded++;
+    decayed.lastRecordedAt = now;
+    return decayed;
+  }
+}
+
+/**
+ * Compare each successful provider's votes with the confirmed mapping.
+ * Only fields the user confirmed are scored.
+ */
+export function scoreProviderVotes(
+  feedback: MappingFeedback
+): Map<string, Array<{ field: string; correct: boolean }>> {
+  const outcomes = new Map<string, Array<{ field: string; correct: boolean }>>();
+
+  for (const output of feedback.providerOutputs) {
+    if (output.error || !output.output?.mappings) {
+      continue;
+    }
+
+    const votes = output.output.mappings
+      .filter((mapping) => mapping.field in feedback.confirmedMappings)
+      .map((mapping) => ({
+        field: mapping.field,
+        correct: mapping.selectedColumnId === feedback.confirmedMappings[mapping.field],
+      }));
+
+    if (votes.length > 0) {
+      outcomes.set(output.providerId, votes);
+    }
+  }
+
+  return outcomes;
+}
+
+function addVote(counter: AccuracyCounter, correct: boolean): void {
+  counter.total++;
+  if (correct) {
+    counter.correct++;
+  }
+}
+
+function decayCounter(counter: AccuracyCounter, decay: number): AccuracyCounter {
+  return { correct: counter.correct * decay, total: counter.total * decay };
+}
+
+function mapCounters(
+  counters: Record<string, AccuracyCounter>,
+  fn: (counter: AccuracyCounter) => AccuracyCounter
+): Record<string, AccuracyCounter> {
+  return Object.fromEntries(Object.entries(counters).map(([key, counter]) => [key, fn(counter)]));
+}
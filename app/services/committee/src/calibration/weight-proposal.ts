@@ -0,0 +1,224 @@
+/**
+ * Weight proposals from production feedback
+ *
+ * Proposals never change the weights by themselves. A proposal is created
+ * pending, reviewed through its diff report and only written to the weights
+ * file (which takes precedence over DEFAULT_WEIGHTS) once approved.
+ */
+
+import { randomUUID } from 'crypto';
+import { CalibrationResult } from '../types';
+import { normalizeWeights, weightFromAccuracy } from '../config/weights';
+import { saveCalibrationResults } from '../config/weights-file';
+import type { AccuracyCounter, FeedbackStats } from './feedback-tracker';
+import type { ICalibrationStore } from './calibration-store';
+
+export type WeightProposalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Weight change of one provider
+ */
+export interface WeightDiffEntry {
+  providerId: string;
+  currentWeight: number;
+  proposedWeight: number;
+  change: number;
+  /** Rolling accuracy, null when there were too few votes to re-estimate */
+  accuracy: number | null;
+  observations: number;
+}
+
+/**
+ * Proposed provider weights awaiting review
+ */
+export interface WeightProposal {
+  id: string;
+  status: WeightProposalStatus;
+  createdAt: string;
+  casesRecorded: number;
+  currentWeights: Record<string, number>;
+  proposedWeights: Record<string, number>;
+  diff: WeightDiffEntry[];
+  calibrationResults: CalibrationResult[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+}
+
+export interface BuildWeightProposalOptions {
+  minObservations: number;
+}
+
+/**
+ * Propose weights from rolling accuracy
+ *
+ * Providers with fewer than minObservations votes keep their current weight.
+ * The result is normalized like the golden-file calibration.
+ */
+export function buildWeightProposal(
+  stats: FeedbackStats,
+  currentWeights: Record<string, number>,
+  options: BuildWeightProposalOptions
+): WeightProposal {
+  const rawWeights: Record<string, number> = { ...currentWeights };
+  const calibrationResults: CalibrationResult[] = [];
+
+  for (const [providerId, accuracy] of Object.entries(stats.providers)) {
+    if (accuracy.overall.total < options.minObservations) {
+      continue;
+    }
+
+    const overall = getAccuracy(accuracy.overall);
+    rawWeights[providerId] = weightFromAccuracy(overall);
+    calibrationResults.push({
+      providerId,
+      accuracy: overall,
+      fieldAccuracies: Object.fromEntries(
+        Object.entries(accuracy.fields).map(([field, counter]) => [field, getAccuracy(counter)])
+      ),
+      recommendedWeight: 0, // Set to the normalized weight below
+      testCasesProcessed: accuracy.casesRecorded,
+    });
+  }
+
+  const proposedWeights = calibrationResults.length > 0 ? normalizeWeights(rawWeights) : { ...currentWeights };
+  for (const result of calibrationResults) {
+    result.recommendedWeight = proposedWeights[result.providerId];
+  }
+
+  const diff = Object.keys(proposedWeights)
+    .sort()
+    .map((providerId): WeightDiffEntry => {
+      const calibrated = calibrationResults.find((r) => r.providerId === providerId);
+      const currentWeight = currentWeights[providerId] ?? 1.0;
+      return {
+        providerId,
+        currentWeight,
+        proposedWeight: proposedWeights[providerId],
+        change: proposedWeights[providerId] - currentWeight,
+        accuracy: calibrated?.accuracy ?? null,
+        observations: Math.round(stats.providers[providerId]?.overall.total ?? 0),
+      };
+    });
+
+  return {
+    id: randomUUID(),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    casesRecorded: stats.casesRecorded,
+    currentWeights: { ...currentWeights },
+    proposedWeights,
+    diff,
+    calibrationResults,
+  };
+}
+
+/**
+ * Human-readable diff report for reviewing a proposal
+ */
+export function formatWeightProposalDiff(proposal: WeightProposal): string {
+  const lines = [
+    `Weight Proposal ${proposal.id}`,
+    `============================`,
+    `Status: ${proposal.status}`,
+    `Created: ${proposal.createdAt}`,
+    `Cases recorded: ${proposal.casesRecorded}`,
+    ``,
+    `Provider weights (current -> proposed):`,
+  ];
+
+  for (const entry of [...proposal.diff].sort((a, b) => Math.abs(b.change) - Math.abs(a.change))) {
+    const sign = entry.change > 0 ? '+' : '';
+    const accuracy =
+      entry.accuracy === null
+        ? ` (unchanged, ${entry.observations} votes)`
+        : ` (accuracy: ${(entry.accuracy * 100).toFixed(1)}%, ${entry.observations} votes)`;
+    lines.push(
+      `  ${entry.providerId}: ${entry.currentWeight.toFixed(3)} -> ${entry.proposedWeight.toFixed(3)} ` +
+        `(${sign}${entry.change.toFixed(3)})${accuracy}`
+    );
+  }
+
+  if (proposal.reviewedBy) {
+    lines.push('', `Reviewed by ${proposal.reviewedBy} at ${proposal.reviewedAt}`);
+  }
+  if (proposal.rejectionReason) {
+    lines.push(`Rejection reason: ${proposal.rejectionReason}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Approve a pending proposal and write its weights to the weights file
+ *
+ * @param weightsFilePath - Defaults to the file loadWeights reads
+ */
+export async function approveWeightProposal(
+  store: ICalibrationStore,
+  proposalId: string,
+  approvedBy: string,
+  weightsFilePath?: string
+): Promise<WeightProposal> {
+  const proposal = await getPendingProposal(store, proposalId);
+
+  saveCalibrationResults(
+    proposal.calibrationResults,
+    'production-feedback',
+    weightsFilePath ?? process.env.COMMITTEE_WEIGHTS_FILE,
+    {
+      // Providers without enough feedback keep their (normalized) weight
+      baseWeights: proposal.proposedWeights,
+      metadata: { calibrationScript: 'calibration/feedback-tracker', proposalId, approvedBy },
+    }
+  );
+
+  const approved: WeightProposal = {
+    ...proposal,
+    status: 'approved',
+    reviewedBy: approvedBy,
+    reviewedAt: new Date().toISOString(),
+  };
+  await store.saveProposal(approved);
+  return approved;
+}
+
+/**
+ * Reject a pending proposal; the weights stay as they are
+ */
+export async function rejectWeightProposal(
+  store: ICalibrationStore,
+  proposalId: string,
+  rejectedBy: string,
+  reason?: string
+): Promise<WeightProposal> {
+  const proposal = await getPendingProposal(store, proposalId);
+
+  const rejected: WeightProposal = {
+    ...proposal,
+    status: 'rejected',
+    reviewedBy: rejectedBy,
+    reviewedAt: new Date().toISOString(),
+    rejectionReason: reason,
+  };
+  await store.saveProposal(rejected);
+  return rejected;
+}
+
+/**
+ * Accuracy of a counter (0 when nothing was recorded)
+ */
+export function getAccuracy(counter: AccuracyCounter): number {
+  return counter.total > 0 ? counter.correct / counter.total : 0;
+}
+
+async function getPendingProposal(store: ICalibrationStore, proposalId: string): Promise<WeightProposal> {
+  const proposal = await store.getProposal(proposalId);
+  if (!proposal) {
+    throw new Error(`Weight proposal ${proposalId} not found`);
+  }
+  if (proposal.status !== 'pending') {
+    throw new Error(`Weight proposal ${proposalId} is already ${proposal.status}`);
+  }
+  return proposal;
+}
@@ -2,6 +2,9 @@
  * Default provider configurations
  *
  * These configurations are used as defaults and can be overridden via environment variables
+ *
+ * Pricing is list price in USD per 1M tokens; adjust it for negotiated rates
+ * since budget-aware provider selection relies on it.
  */
 
 import { ProviderConfig } from '../types';
@@ -23,6 +26,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'gpt-5.1',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 1.25, outputPer1MTokensUsd: 10 },
       enabled: !!process.env.AZURE_OPENAI_ENDPOINT,
     },
 
@@ -36,6 +40,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'gpt-5.2',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 1.75, outputPer1MTokensUsd: 14 },
       enabled: !!process.env.AZURE_OPENAI_ENDPOINT,
     },
 
@@ -49,6 +54,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'gpt-4.1',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 2, outputPer1MTokensUsd: 8 },
       enabled: !!process.env.AZURE_OPENAI_ENDPOINT,
     },
 
@@ -62,6 +68,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'claude-opus-4-5',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 5, outputPer1MTokensUsd: 25 },
       enabled: !!process.env.AZURE_ANTHROPIC_ENDPOINT,
     },
 
@@ -75,6 +82,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'claude-sonnet-4-5',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 3, outputPer1MTokensUsd: 15 },
       enabled: !!process.env.AZURE_ANTHROPIC_ENDPOINT,
     },
 
@@ -88,6 +96,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'DeepSeek-V3.2',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 0.58, outputPer1MTokensUsd: 1.68 },
       enabled: !!process.env.AZURE_DEEPSEEK_ENDPOINT,
     },
 
@@ -100,6 +109,7 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'gemini-2.5-pro',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 1.25, outputPer1MTokensUsd: 10 },
       enabled: !!process.env.GOOGLE_API_KEY,
     },
 
@@ -112,8 +122,35 @@ export function getDefaultProviderConfigs(): ProviderConfig[] {
       model: 'grok-4-fast-reasoning',
       temperature: 0.1,
       maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 0.2, outputPer1MTokensUsd: 0.5 },
       enabled: !!process.env.XAI_API_KEY,
     },
+
+    // Local open-weights model (OpenAI-compatible server, e.g. vLLM or Ollama)
+    {
+      id: 'local-llm',
+      name: 'Local LLM',
+      type: 'local-openai',
+      endpoint: process.env.LOCAL_LLM_ENDPOINT || '',
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      model: process.env.LOCAL_LLM_MODEL || 'qwen2.5-14b-instruct',
+      temperature: 0.1,
+      maxTokens: 4000,
+      pricing: { inputPer1MTokensUsd: 0, outputPer1MTokensUsd: 0 },
+      enabled: !!process.env.LOCAL_LLM_ENDPOINT,
+    },
+
+    // Rules-based header matcher (no model, no network)
+    {
+      id: 'heuristic-header-matcher',
+      name: 'Heuristic Header Matcher',
+      type: 'heuristic',
+      model: 'header-matcher',
+      temperature: 0,
+      maxTokens: 1,
+      pricing: { inputPer1MTokensUsd: 0, outputPer1MTokensUsd: 0 },
+      enabled: process.env.COMMITTEE_HEURISTIC_PROVIDER_ENABLED === 'true',
+    },
   ];
 }
 
@@ -160,6 +197,11 @@ export function validateProviderConfig(config: ProviderConfig): string[] {
     }
   }
 
+  // Local providers need the server's base URL
+  if (config.type === 'local-openai' && !config.endpoint) {
+    errors.push(`Local provider ${config.id} requires endpoint`);
+  }
+
   // External providers need API key
   if (config.type === 'gemini' || config.type === 'xai') {
     if (!config.apiKey) {
@@ -175,5 +217,9 @@ export function validateProviderConfig(config: ProviderConfig): string[] {
     errors.push('maxTokens must be positive');
   }
 
+  if (config.pricing && (config.pricing.inputPer1MTokensUsd < 0 || config.pricing.outputPer1MTokensUsd < 0)) {
+    errors.push('Pricing must not be negative');
+  }
+
   return errors;
 }
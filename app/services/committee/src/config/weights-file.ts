@@ -26,6 +26,9 @@ export interface WeightConfigFile {
     calibrationScript: string;
     goldenFilesPath: string;
     environment?: string;
+    /** Set when the weights come from an approved production feedback proposal */
+    proposalId?: string;
+    approvedBy?: string;
   };
 }
 
@@ -67,15 +70,21 @@ export function loadWeightsFromFile(filePath?: string): Record<string, number> |
  * @param results - Calibration results from all providers
  * @param goldenFilesPath - Path to golden files used
  * @param filePath - Path to save config file
+ * @param options - Weights of providers without results and metadata overrides
+ *                  (used for approved feedback proposals)
  */
 export function saveCalibrationResults(
   results: CalibrationResult[],
   goldenFilesPath: string,
-  filePath?: string
+  filePath?: string,
+  options: {
+    baseWeights?: Record<string, number>;
+    metadata?: Partial<WeightConfigFile['metadata']>;
+  } = {}
 ): void {
   const targetPath = filePath || getDefaultWeightFilePath();
 
-  const weights: Record<string, number> = {};
+  const weights: Record<string, number> = { ...options.baseWeights };
   const providerStats: WeightConfigFile['providerStats'] = {};
 
   for (const result of results) {
@@ -97,6 +106,7 @@ export function saveCalibrationResults(
       calibrationScript: 'scripts/calibrate-weights.ts',
       goldenFilesPath,
       environment: process.env.NODE_ENV,
+      ...options.metadata,
     },
   };
 
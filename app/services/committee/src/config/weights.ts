@@ -27,6 +27,10 @@ export const DEFAULT_WEIGHTS: Record<string, number> = {
 
   // xAI Grok (good at reasoning tasks)
   'xai-grok-4-reasoning': 1.0,
+
+  // Offline providers (a smaller model and synonym rules; weighted below cloud models)
+  'local-llm': 0.9,
+  'heuristic-header-matcher': 0.8,
 };
 
 /**
@@ -106,6 +110,16 @@ export function normalizeWeights(weights: Record<string, number>): Record<string
   return normalized;
 }
 
+/**
+ * Recommended weight for a measured mapping accuracy
+ *
+ * Logistic curve: weight = 1 / (1 + e^(-k * (accuracy - 0.5)))
+ * where k controls steepness (higher k = more sensitive to accuracy differences)
+ */
+export function weightFromAccuracy(accuracy: number, k = 10): number {
+  return 1 / (1 + Math.exp(-k * (accuracy - 0.5)));
+}
+
 /**
  * Get weight for a specific provider
  */
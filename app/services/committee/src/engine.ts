@@ -8,18 +8,48 @@ import {
   CommitteeConfig,
   CommitteeTask,
   CommitteeResult,
+  CommitteeUsage,
   SchemaMappingTask,
+  ExtractionReviewTask,
   ProviderOutput,
+  SequentialCommitteeAudit,
 } from './types';
 import { ProviderFactory } from './providers/provider-factory';
+import { BaseProvider } from './providers/base-provider';
+import { ProviderEstimate } from './providers/selection';
 import { executeSchemaMappingReview, validateProviderOutputs } from './tasks/schema-mapping-review';
+import { executeSequentialSchemaMappingReview } from './tasks/sequential-schema-mapping-review';
 import { executeExtractionReview } from './tasks/extraction-review';
 import { aggregateVotes } from './aggregation/weighted-voting';
 import { isSufficientConsensus } from './aggregation/consensus-detector';
 import { loadWeights } from './config/weights';
+import { CommitteeCache, fingerprintTask } from './cache/committee-cache';
+import { BlobCommitteeCacheStore } from './cache/blob-cache-store';
+import { calculateCostUsd, emptyUsage, summarizeUsage } from './budget/cost-model';
+import { ProviderLatencyTracker } from './budget/latency-tracker';
+import {
+  BlobTenantSpendStore,
+  ITenantSpendStore,
+  InMemoryTenantSpendStore,
+  usageDay,
+} from './budget/tenant-spend-store';
+import { getMappingReviewSystemPrompt } from './prompts/mapping-review-prompt';
+import { getExtractionReviewSystemPrompt } from './prompts/extraction-review-prompt';
 import { BlobServiceClient } from '@azure/storage-blob';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Provider calls of a run and the estimates the providers were selected on
+ */
+interface CommitteeExecution {
+  selectedProviderIds: string[];
+  providerOutputs: ProviderOutput[];
+  estimatedCostUsd?: number;
+  estimatedLatencyMs?: number;
+  tenantSpendTodayUsd?: number;
+  sequential?: SequentialCommitteeAudit;
+}
+
 /**
  * Committee Engine
  *
@@ -29,6 +59,9 @@ export class CommitteeEngine {
   private factory: ProviderFactory;
   private blobClient?: BlobServiceClient;
   private config: CommitteeConfig;
+  private cache?: CommitteeCache;
+  private latencyTracker = new ProviderLatencyTracker();
+  private spendStore?: ITenantSpendStore;
 
   constructor(factory: ProviderFactory, config: CommitteeConfig, blobConnectionString?: string) {
     this.factory = factory;
@@ -37,6 +70,19 @@ export class CommitteeEngine {
     if (blobConnectionString) {
       this.blobClient = BlobServiceClient.fromConnectionString(blobConnectionString);
     }
+
+    if (config.cache?.enabled) {
+      this.cache = new CommitteeCache({
+        ttlMs: config.cache.ttlMs,
+        store: this.blobClient ? new BlobCommitteeCacheStore(this.blobClient) : undefined,
+      });
+    }
+
+    if (config.budget?.dailyTenantBudgetUsd !== undefined) {
+      this.spendStore = this.blobClient
+        ? new BlobTenantSpendStore(this.blobClient)
+        : new InMemoryTenantSpendStore();
+    }
   }
 
   /**
@@ -49,35 +95,46 @@ export class CommitteeEngine {
     const startTime = Date.now();
     const taskId = uuidv4();
 
-    // 1. Select N providers randomly from pool
-    const selectedProviders = this.factory.selectRandomProviders(
-      this.config.providerCount,
-      this.config.providerPool
-    );
-
-    const selectedProviderIds = selectedProviders.map((p) => p.getId());
-
-    console.log(`Committee ${taskId}: Selected providers:`, selectedProviderIds);
-
-    // 2. Prepare evidence pack (already done by caller, just validate)
-    this.validateEvidencePack(task.evidencePack);
+    this.validateEvidencePack(task);
 
-    // 3. Call each provider in parallel
-    let providerOutputs: ProviderOutput[];
-
-    try {
-      providerOutputs = await this.executeTask(task, selectedProviders);
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Committee execution failed: ${errorMsg}`);
+    // Repeat layouts are answered from the cache without calling providers.
+    // Extraction reviews are about the values of one order, so never repeat.
+    const fingerprint = this.cache && task.type === 'schema-mapping' ? fingerprintTask(task) : undefined;
+    if (fingerprint) {
+      const cached = await this.lookupCache(taskId, task, fingerprint, startTime);
+      if (cached) {
+        return cached;
+      }
     }
 
+    // 1-3. Select providers and call them (all at once, or cheapest first with early stopping)
+    const execution =
+      this.config.mode === 'sequential' && task.type === 'schema-mapping'
+        ? await this.executeSequential(taskId, task as SchemaMappingTask)
+        : await this.executeParallel(taskId, task);
+    const { selectedProviderIds, providerOutputs } = execution;
+
     // 4. Validate each response
     const validationErrors = this.validateOutputs(task, providerOutputs);
     if (validationErrors.length > 0) {
       console.warn(`Committee ${taskId}: Validation warnings:`, validationErrors);
     }
 
+    // Measured latencies feed the next budget-aware selections
+    for (const output of providerOutputs) {
+      if (output.usage) {
+        this.latencyTracker.record(output.providerId, output.usage.latencyMs);
+      }
+    }
+
+    const usage: CommitteeUsage = {
+      ...summarizeUsage(providerOutputs),
+      estimatedCostUsd: execution.estimatedCostUsd,
+      estimatedLatencyMs: execution.estimatedLatencyMs,
+      tenantSpendTodayUsd: execution.tenantSpendTodayUsd,
+    };
+    await this.recordTenantSpend(taskId, task, usage);
+
     // 5. Aggregate votes
     const aggregatedResult = aggregateVotes(
       providerOutputs.filter((o) => !o.error),
@@ -105,21 +162,255 @@ export class CommitteeEngine {
       finalMappings,
       requiresHumanReview,
       executionTimeMs,
+      usage,
       auditTrail: {
         timestamp: new Date().toISOString(),
         config: this.config,
         evidencePackBlobUri,
         rawOutputsBlobUri,
+        ...(fingerprint && { cache: { hit: false, fingerprint } }),
+        ...(execution.sequential && { sequential: execution.sequential }),
       },
     };
 
     console.log(
-      `Committee ${taskId}: Completed in ${executionTimeMs}ms. Consensus: ${aggregatedResult.consensus}, Human review: ${requiresHumanReview}`
+      `Committee ${taskId}: Completed in ${executionTimeMs}ms for $${usage.costUsd.toFixed(4)}. ` +
+        `Consensus: ${aggregatedResult.consensus}, Human review: ${requiresHumanReview}`
     );
 
+    // Only decisions with enough successful providers are worth repeating
+    const successfulCount = providerOutputs.filter((o) => !o.error).length;
+    if (fingerprint && successfulCount >= this.config.minSuccessfulProviders) {
+      await this.cache!.save(fingerprint, this.config, result).catch((error) =>
+        console.warn(`Committee ${taskId}: Failed to cache decision:`, error)
+      );
+    }
+
     return result;
   }
 
+  /**
+   * Build the result for a task from a cached decision
+   *
+   * @returns The result, or undefined on a miss (cache errors count as misses)
+   */
+  private async lookupCache(
+    taskId: string,
+    task: CommitteeTask,
+    fingerprint: string,
+    startTime: number
+  ): Promise<CommitteeResult | undefined> {
+    let entry;
+    try {
+      entry = await this.cache!.lookup(fingerprint, this.config);
+    } catch (error) {
+      console.warn(`Committee ${taskId}: Cache lookup failed:`, error);
+      return undefined;
+    }
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const evidencePackBlobUri = await this.storeEvidencePack(taskId, task.evidencePack);
+    const executionTimeMs = Date.now() - startTime;
+
+    console.log(
+      `Committee ${taskId}: Cache hit (decided in ${entry.sourceTaskId}), ` +
+        `saved ${entry.result.selectedProviders.length} provider calls`
+    );
+
+    return {
+      ...entry.result,
+      taskId,
+      caseId: task.evidencePack.caseId,
+      executionTimeMs,
+      usage: emptyUsage(),
+      auditTrail: {
+        timestamp: new Date().toISOString(),
+        config: this.config,
+        evidencePackBlobUri,
+        rawOutputsBlobUri: entry.rawOutputsBlobUri,
+        cache: {
+          hit: true,
+          fingerprint,
+          sourceTaskId: entry.sourceTaskId,
+          cachedAt: entry.createdAt,
+          expiresAt: entry.expiresAt,
+          providerCallsSaved: entry.result.selectedProviders.length,
+          executionTimeMsSaved: Math.max(0, entry.result.executionTimeMs - executionTimeMs),
+          costUsdSaved: entry.result.usage?.costUsd,
+        },
+      },
+    };
+  }
+
+  /**
+   * Select providerCount providers and call them in parallel
+   *
+   * Without a budget, providers are picked randomly with diversity. With one,
+   * only selections within the per-task limit and the tenant's remaining
+   * daily budget are considered (see selectProvidersWithinBudget).
+   */
+  private async executeParallel(taskId: string, task: CommitteeTask): Promise<CommitteeExecution> {
+    const budget = this.config.budget;
+    const execution: Omit<CommitteeExecution, 'selectedProviderIds' | 'providerOutputs'> = {};
+    let selectedProviders: BaseProvider[];
+
+    if (!budget) {
+      selectedProviders = this.factory.selectRandomProviders(this.config.providerCount, this.config.providerPool);
+    } else {
+      const { maxCostUsd, tenantSpendTodayUsd } = await this.getCostLimit(task);
+      const { providers, selectionResult } = this.factory.selectProvidersWithinBudget(
+        this.config.providerCount,
+        this.config.providerPool,
+        { estimates: this.estimateProviders(task), maxCostUsd, maxLatencyMs: budget.maxLatencyMs }
+      );
+
+      console.log(
+        `Committee ${taskId}: Estimated $${selectionResult.estimatedCostUsd.toFixed(4)}, ` +
+          `${selectionResult.estimatedLatencyMs}ms within budget`
+      );
+
+      selectedProviders = providers;
+      execution.estimatedCostUsd = selectionResult.estimatedCostUsd;
+      execution.estimatedLatencyMs = selectionResult.estimatedLatencyMs;
+      execution.tenantSpendTodayUsd = tenantSpendTodayUsd;
+    }
+
+    const selectedProviderIds = selectedProviders.map((p) => p.getId());
+
+    console.log(`Committee ${taskId}: Selected providers:`, selectedProviderIds);
+
+    // Evidence pack was prepared by the caller and validated in runCommittee
+
+    // Call each provider in parallel
+    try {
+      const providerOutputs = await this.executeTask(task, selectedProviders);
+      return { ...execution, selectedProviderIds, providerOutputs };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Committee execution failed: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Call providers cheapest first and stop once the fields are settled
+   *
+   * Further diverse providers are only asked about fields whose votes split.
+   * Budget limits apply to the estimated cost of every provider called.
+   */
+  private async executeSequential(taskId: string, task: SchemaMappingTask): Promise<CommitteeExecution> {
+    const { maxCostUsd, tenantSpendTodayUsd } = await this.getCostLimit(task);
+    const estimates = this.estimateProviders(task);
+    const candidates = this.factory.orderProvidersForEscalation(
+      this.config.providerPool,
+      estimates,
+      this.config.budget?.maxLatencyMs
+    );
+
+    const sumCost = (providerIds: string[]) =>
+      providerIds.reduce((sum, id) => sum + estimates[id].costUsd, 0);
+
+    let result;
+    try {
+      result = await executeSequentialSchemaMappingReview(task, candidates, this.config, {
+        canAfford: maxCostUsd === undefined ? undefined : (providerIds) => sumCost(providerIds) <= maxCostUsd,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Committee execution failed: ${errorMsg}`);
+    }
+
+    const selectedProviderIds = result.outputs.map((o) => o.providerId);
+
+    console.log(
+      `Committee ${taskId}: Sequential run called ${selectedProviderIds.join(', ')} in ` +
+        `${result.audit.stages.length} stage(s)${result.audit.stoppedEarly ? ', stopped early' : ''}`
+    );
+
+    return {
+      selectedProviderIds,
+      providerOutputs: result.outputs,
+      estimatedCostUsd: sumCost(selectedProviderIds),
+      // Stages run one after another; providers within a stage in parallel
+      estimatedLatencyMs: result.audit.stages.reduce(
+        (sum, stage) => sum + Math.max(...stage.providers.map((id) => estimates[id].latencyMs)),
+        0
+      ),
+      tenantSpendTodayUsd,
+      sequential: result.audit,
+    };
+  }
+
+  /**
+   * Spend limit of a run: the per-task limit capped by the tenant's remaining
+   * daily budget
+   *
+   * @throws Error if the tenant has used its daily budget
+   */
+  private async getCostLimit(
+    task: CommitteeTask
+  ): Promise<{ maxCostUsd?: number; tenantSpendTodayUsd?: number }> {
+    const budget = this.config.budget;
+    let maxCostUsd = budget?.maxCostPerTaskUsd;
+
+    if (!this.spendStore || !task.tenantId || budget?.dailyTenantBudgetUsd === undefined) {
+      return { maxCostUsd };
+    }
+
+    const tenantSpendTodayUsd = (await this.spendStore.get(task.tenantId, usageDay()))?.costUsd ?? 0;
+    const remainingUsd = budget.dailyTenantBudgetUsd - tenantSpendTodayUsd;
+
+    if (remainingUsd <= 0) {
+      throw new Error(
+        `Tenant ${task.tenantId} has used its daily committee budget ` +
+          `($${tenantSpendTodayUsd.toFixed(2)} of $${budget.dailyTenantBudgetUsd.toFixed(2)})`
+      );
+    }
+
+    maxCostUsd = Math.min(maxCostUsd ?? Infinity, remainingUsd);
+    return { maxCostUsd, tenantSpendTodayUsd };
+  }
+
+  /**
+   * Estimate each pool provider's cost from the prompt it would be sent, and
+   * its latency from recent calls
+   */
+  private estimateProviders(task: CommitteeTask): Record<string, ProviderEstimate> {
+    const systemPrompt =
+      task.type === 'extraction-review' ? getExtractionReviewSystemPrompt() : getMappingReviewSystemPrompt();
+
+    const estimates: Record<string, ProviderEstimate> = {};
+    for (const providerId of this.config.providerPool) {
+      const provider = this.factory.getProvider(providerId);
+      if (provider) {
+        const tokens = provider.estimateTokenCounts(task.evidencePack, task.expectedFields, systemPrompt);
+        estimates[providerId] = {
+          costUsd: calculateCostUsd(tokens, provider.getPricing()),
+          latencyMs: this.latencyTracker.estimate(providerId),
+        };
+      }
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Charge a run to the tenant's daily spend (runs without a tenant are not charged)
+   */
+  private async recordTenantSpend(taskId: string, task: CommitteeTask, usage: CommitteeUsage): Promise<void> {
+    if (!this.spendStore || !task.tenantId) {
+      return;
+    }
+
+    try {
+      await this.spendStore.add(task.tenantId, usageDay(), usage);
+    } catch (error) {
+      console.warn(`Committee ${taskId}: Failed to record tenant spend:`, error);
+    }
+  }
+
   /**
    * Execute task based on type
    */
@@ -131,7 +422,7 @@ export class CommitteeEngine {
       case 'schema-mapping':
         return executeSchemaMappingReview(task as SchemaMappingTask, providers, this.config);
       case 'extraction-review':
-        return executeExtractionReview(task, providers, this.config);
+        return executeExtractionReview(task as ExtractionReviewTask, providers, this.config);
       default:
         throw new Error(`Unknown task type: ${task.type}`);
     }
@@ -140,12 +431,18 @@ export class CommitteeEngine {
   /**
    * Validate evidence pack
    */
-  private validateEvidencePack(evidencePack: any): void {
+  private validateEvidencePack(task: CommitteeTask): void {
+    const evidencePack: any = task.evidencePack;
+
     if (!evidencePack.caseId) {
       throw new Error('Evidence pack missing caseId');
     }
 
-    if (!evidencePack.candidateHeaders || evidencePack.candidateHeaders.length === 0) {
+    if (task.type === 'extraction-review') {
+      if (!evidencePack.extractedValues || evidencePack.extractedValues.length === 0) {
+        throw new Error('Evidence pack missing extractedValues');
+      }
+    } else if (!evidencePack.candidateHeaders || evidencePack.candidateHeaders.length === 0) {
       throw new Error('Evidence pack missing candidateHeaders');
     }
 
@@ -273,18 +570,50 @@ export class CommitteeEngine {
  */
 export function createDefaultConfig(): CommitteeConfig {
   return {
-    providerCount: 3,
-    providerPool: [
-      'azure-gpt-5.1',
-      'azure-claude-opus-4.5',
-      'azure-deepseek-v3.2',
-      'gemini-2.5-pro',
-      'xai-grok-4-reasoning',
-    ],
+    providerCount: Number(process.env.COMMITTEE_PROVIDER_COUNT || 3),
+    // Comma-separated IDs, e.g. 'local-llm,heuristic-header-matcher' for offline runs
+    providerPool: process.env.COMMITTEE_PROVIDER_POOL
+      ? process.env.COMMITTEE_PROVIDER_POOL.split(',').map((id) => id.trim()).filter(Boolean)
+      : [
+          'azure-gpt-5.1',
+          'azure-claude-opus-4.5',
+          'azure-deepseek-v3.2',
+          'gemini-2.5-pro',
+          'xai-grok-4-reasoning',
+        ],
     weights: loadWeights(),
     consensusThreshold: 0.66, // 2/3 majority
     confidenceThreshold: 0.75,
     timeoutMs: 30000, // 30 seconds per provider
     minSuccessfulProviders: 2, // At least 2 out of 3 must succeed
+    cache: {
+      enabled: process.env.COMMITTEE_CACHE_ENABLED !== 'false',
+      ttlMs: Number(process.env.COMMITTEE_CACHE_TTL_HOURS || 168) * 60 * 60 * 1000, // 7 days
+    },
+    budget: createBudgetConfigFromEnv(),
+    mode: process.env.COMMITTEE_MODE === 'sequential' ? 'sequential' : 'parallel',
+    sequential: {
+      minProviders: 2,
+      earlyStopConfidence: Number(process.env.COMMITTEE_EARLY_STOP_CONFIDENCE || 0.85),
+    },
   };
 }
+
+/**
+ * Budget limits from environment variables (no budget if none is set)
+ */
+function createBudgetConfigFromEnv(): CommitteeConfig['budget'] {
+  const maxCostPerTaskUsd = optionalNumber(process.env.COMMITTEE_MAX_COST_PER_TASK_USD);
+  const maxLatencyMs = optionalNumber(process.env.COMMITTEE_MAX_LATENCY_MS);
+  const dailyTenantBudgetUsd = optionalNumber(process.env.COMMITTEE_DAILY_TENANT_BUDGET_USD);
+
+  if (maxCostPerTaskUsd === undefined && maxLatencyMs === undefined && dailyTenantBudgetUsd === undefined) {
+    return undefined;
+  }
+
+  return { maxCostPerTaskUsd, maxLatencyMs, dailyTenantBudgetUsd };
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
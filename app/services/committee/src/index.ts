@@ -13,12 +13,21 @@ export { ProviderFactory } from './providers/provider-factory';
 // Provider selection utilities
 export {
   selectProviders,
+  selectProvidersWithinBudget,
+  orderProvidersForEscalation,
   getProviderFamily,
   getDiverseProviderPool,
   isSelectionDiverse,
   registerProviderFamily,
 } from './providers/selection';
-export type { ProviderFamily, SelectionOptions, SelectionResult } from './providers/selection';
+export type {
+  ProviderFamily,
+  SelectionOptions,
+  SelectionResult,
+  ProviderEstimate,
+  BudgetSelectionOptions,
+  BudgetSelectionResult,
+} from './providers/selection';
 
 // Provider implementations (for direct use if needed)
 export { BaseProvider } from './providers/base-provider';
@@ -27,6 +36,8 @@ export { AzureAnthropicProvider } from './providers/azure-anthropic-provider';
 export { AzureDeepSeekProvider } from './providers/azure-deepseek-provider';
 export { GeminiProvider } from './providers/gemini-provider';
 export { XAIProvider } from './providers/xai-provider';
+export { LocalOpenAIProvider } from './providers/local-openai-provider';
+export { HeuristicProvider } from './providers/heuristic-provider';
 
 // Configuration
 export {
@@ -40,6 +51,7 @@ export {
   saveWeights,
   normalizeWeights,
   getProviderWeight,
+  weightFromAccuracy,
 } from './config/weights';
 export {
   loadWeightsFromFile,
@@ -50,6 +62,59 @@ export {
 } from './config/weights-file';
 export type { WeightConfigFile } from './config/weights-file';
 
+// Decision cache
+export {
+  CommitteeCache,
+  InMemoryCommitteeCacheStore,
+  fingerprintTask,
+  fingerprintConfig,
+} from './cache/committee-cache';
+export type {
+  CommitteeCacheEntry,
+  CommitteeCacheOptions,
+  ICommitteeCacheStore,
+} from './cache/committee-cache';
+export { BlobCommitteeCacheStore } from './cache/blob-cache-store';
+
+// Cost and latency budgets
+export {
+  estimateTokens,
+  estimateOutputTokens,
+  calculateCostUsd,
+  buildProviderUsage,
+  summarizeUsage,
+} from './budget/cost-model';
+export { ProviderLatencyTracker } from './budget/latency-tracker';
+export type { ProviderLatencyTrackerOptions } from './budget/latency-tracker';
+export { InMemoryTenantSpendStore, BlobTenantSpendStore, usageDay } from './budget/tenant-spend-store';
+export type { ITenantSpendStore, TenantDailyUsage } from './budget/tenant-spend-store';
+
+// Weight recalibration from production feedback
+export { ProviderFeedbackTracker, scoreProviderVotes } from './calibration/feedback-tracker';
+export type {
+  AccuracyCounter,
+  ProviderAccuracy,
+  FeedbackStats,
+  MappingFeedback,
+  ProviderFeedbackTrackerOptions,
+  RecordFeedbackResult,
+} from './calibration/feedback-tracker';
+export {
+  buildWeightProposal,
+  formatWeightProposalDiff,
+  approveWeightProposal,
+  rejectWeightProposal,
+  getAccuracy,
+} from './calibration/weight-proposal';
+export type {
+  WeightProposal,
+  WeightProposalStatus,
+  WeightDiffEntry,
+  BuildWeightProposalOptions,
+} from './calibration/weight-proposal';
+export { InMemoryCalibrationStore, BlobCalibrationStore } from './calibration/calibration-store';
+export type { ICalibrationStore } from './calibration/calibration-store';
+
 // Validation
 export {
   PROVIDER_OUTPUT_SCHEMA,
@@ -83,8 +148,25 @@ export {
 } from './aggregation/consensus-detector';
 
 // Tasks
-export { executeSchemaMappingReview, validateProviderOutputs } from './tasks/schema-mapping-review';
-export { executeExtractionReview } from './tasks/extraction-review';
+export {
+  executeSchemaMappingReview,
+  runProviderMapping,
+  validateProviderOutputs,
+} from './tasks/schema-mapping-review';
+export {
+  executeSequentialSchemaMappingReview,
+  findUnsettledFields,
+  DEFAULT_SEQUENTIAL_CONFIG,
+} from './tasks/sequential-schema-mapping-review';
+export type {
+  SequentialReviewOptions,
+  SequentialReviewResult,
+} from './tasks/sequential-schema-mapping-review';
+export {
+  executeExtractionReview,
+  findExtractionDisagreements,
+  normalizeReviewedValue,
+} from './tasks/extraction-review';
 
 // Types
 export type {
@@ -98,12 +180,24 @@ export type {
   ConsensusType,
   AggregatedResult,
   CommitteeConfig,
+  CommitteeCacheConfig,
+  CommitteeCacheAudit,
+  CommitteeBudgetConfig,
+  CommitteeUsage,
+  CommitteeMode,
+  SequentialCommitteeConfig,
+  SequentialCommitteeAudit,
   CommitteeTaskType,
   CommitteeTask,
   SchemaMappingTask,
   ExtractionReviewTask,
+  ExtractedValueEvidence,
+  ExtractionDisagreement,
   CommitteeResult,
   ProviderConfig,
+  ProviderPricing,
+  ProviderUsage,
+  TokenCounts,
   ProviderFactoryOptions,
   CalibrationResult,
   GoldenTestCase,
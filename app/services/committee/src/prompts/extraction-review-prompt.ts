@@ -1,5 +1,5 @@
 /**
- * System prompts for extraction review tasks (future use)
+ * System prompts for extraction review tasks
  */
 
 /**
@@ -53,5 +53,31 @@ Flag issues when:
 - Value falls outside expected range
 - Arithmetic doesn't balance within tolerance
 
+REQUIRED OUTPUT SCHEMA:
+
+Answer every key with one mapping. "field" is the key and "selectedColumnId"
+is the value the cell evidence supports, as a string (null if the evidence
+shows no value).
+
+{
+  "mappings": [
+    {
+      "field": "/line_items/0/quantity",
+      "selectedColumnId": "12",
+      "confidence": 0.95,
+      "reasoning": "Cell Sheet1!D5 raw value 12 matches the extracted quantity"
+    }
+  ],
+  "issues": [
+    {
+      "code": "EXTRACTION_MISMATCH",
+      "severity": "warning",
+      "evidence": "Cell Sheet1!D6 raw value 1200 but extracted quantity is 12"
+    }
+  ],
+  "overallConfidence": 0.9,
+  "processingTimeMs": 0
+}
+
 Remember: This is a review task, not an extraction task. You are validating existing work, not doing the extraction yourself.`;
 }
@@ -106,6 +106,7 @@ export class AzureAnthropicProvider extends BaseProvider {
       const output = this.validateOutput(parsed);
 
       output.processingTimeMs = Date.now() - startTime;
+      output.tokenUsage = this.getChatCompletionUsage(response);
 
       return output;
     } catch (error) {
@@ -103,6 +103,7 @@ export class AzureDeepSeekProvider extends BaseProvider {
       const output = this.validateOutput(parsed);
 
       output.processingTimeMs = Date.now() - startTime;
+      output.tokenUsage = this.getChatCompletionUsage(response);
 
       return output;
     } catch (error) {
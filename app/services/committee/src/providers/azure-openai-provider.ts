@@ -105,6 +105,7 @@ export class AzureOpenAIProvider extends BaseProvider {
 
       // Override processing time with actual
       output.processingTimeMs = Date.now() - startTime;
+      output.tokenUsage = this.getChatCompletionUsage(response);
 
       return output;
     } catch (error) {
@@ -4,7 +4,8 @@
  * All AI providers must implement this interface to participate in the committee.
  */
 
-import { EvidencePack, ProviderMappingOutput, ProviderConfig } from '../types';
+import { EvidencePack, ProviderMappingOutput, ProviderConfig, ProviderPricing, TokenCounts } from '../types';
+import { estimateOutputTokens, estimateTokens } from '../budget/cost-model';
 
 /**
  * Abstract base class for all AI providers
@@ -37,6 +38,42 @@ export abstract class BaseProvider {
     return this.config.enabled;
   }
 
+  /**
+   * Get token pricing (undefined if the provider is not priced)
+   */
+  getPricing(): ProviderPricing | undefined {
+    return this.config.pricing;
+  }
+
+  /**
+   * Token counts reported in a chat completions response (OpenAI-compatible APIs)
+   */
+  protected getChatCompletionUsage(response: unknown): TokenCounts | undefined {
+    const usage = (response as { usage?: { prompt_tokens?: number; completion_tokens?: number } } | null)?.usage;
+    if (typeof usage?.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+      return undefined;
+    }
+
+    return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+  }
+
+  /**
+   * Estimate the tokens a mapping call would use, from the prompt it would send
+   *
+   * Used for budget-aware selection and for providers that don't report usage.
+   */
+  estimateTokenCounts(
+    evidencePack: EvidencePack,
+    expectedFields: string[],
+    systemPrompt: string
+  ): TokenCounts {
+    return {
+      inputTokens:
+        estimateTokens(systemPrompt) + estimateTokens(this.buildUserPrompt(evidencePack, expectedFields)),
+      outputTokens: Math.min(this.config.maxTokens, estimateOutputTokens(expectedFields.length)),
+    };
+  }
+
   /**
    * Execute schema mapping review
    *
@@ -44,7 +81,8 @@ export abstract class BaseProvider {
    * @param expectedFields - Canonical field names to map
    * @param systemPrompt - System prompt for the provider
    * @param timeoutMs - Timeout in milliseconds
-   * @returns Provider output with mappings and issues
+   * @returns Provider output with mappings and issues, and the billed
+   *   tokens when the API reports them
    */
   abstract executeMapping(
     evidencePack: EvidencePack,
@@ -69,6 +107,10 @@ export abstract class BaseProvider {
    * @returns Formatted user prompt
    */
   protected buildUserPrompt(evidencePack: EvidencePack, expectedFields: string[]): string {
+    if (evidencePack.extractedValues) {
+      return this.buildExtractionReviewPrompt(evidencePack, expectedFields);
+    }
+
     const prompt = `
 # Schema Mapping Task
 
@@ -111,6 +153,54 @@ You MUST:
 4. Provide reasoning with specific evidence references for every decision
 5. Flag issues with appropriate severity levels
 
+Return your response as valid JSON only.
+`;
+
+    return prompt.trim();
+  }
+
+  /**
+   * Build the user prompt for an extraction review
+   *
+   * @param evidencePack - Evidence pack with extracted values
+   * @param keys - Keys of the extracted values to verify
+   * @returns Formatted user prompt
+   */
+  protected buildExtractionReviewPrompt(evidencePack: EvidencePack, keys: string[]): string {
+    const values = (evidencePack.extractedValues ?? []).filter((v) => keys.includes(v.key));
+
+    const prompt = `
+# Extraction Review Task
+
+**Case ID**: ${evidencePack.caseId}
+**Detected Language**: ${evidencePack.detectedLanguage}
+**Timestamp**: ${evidencePack.timestamp}
+
+## Constraints
+${evidencePack.constraints.map((c) => `- ${c}`).join('\n')}
+
+## Extracted Values to Verify
+
+${values.map((v) => `
+### ${v.key}
+**Field**: ${v.field}
+**Extracted Value**: ${JSON.stringify(v.extractedValue)}
+**Cell**: ${v.cell ?? 'Unknown'}
+**Raw Value**: ${v.rawValue === undefined ? 'Not available' : JSON.stringify(v.rawValue)}
+**Display Value**: ${v.displayValue ?? 'Not available'}
+**Number Format**: ${v.numberFormat ?? 'General'}
+`).join('\n')}
+
+## Your Task
+
+For each key above, return one mapping whose "field" is the key and whose "selectedColumnId" is the value the cell evidence supports, as a string, or null if the evidence does not show a value.
+You MUST:
+1. Read the value from the raw and display values only
+2. Write numbers without thousands separators, using "." as the decimal separator
+3. Return strict JSON matching the required schema
+4. Explain in the reasoning where the extracted value differs from the evidence
+5. Flag issues with appropriate severity levels
+
 Return your response as valid JSON only.
 `;
 
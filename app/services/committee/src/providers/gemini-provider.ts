@@ -100,6 +100,12 @@ export class GeminiProvider extends BaseProvider {
       const output = this.validateOutput(parsed);
 
       output.processingTimeMs = Date.now() - startTime;
+      if (response.usageMetadata) {
+        output.tokenUsage = {
+          inputTokens: response.usageMetadata.promptTokenCount,
+          outputTokens: response.usageMetadata.candidatesTokenCount,
+        };
+      }
 
       return output;
     } catch (error) {
@@ -0,0 +1,250 @@
+/**
+ * Heuristic provider implementation
+ *
+ * Deterministic, rules-based committee member built on the parser's
+ * header-matcher scoring (synonym dictionaries and fuzzy matching) plus type
+ * compatibility from the evidence pack's column statistics. Extraction
+ * reviews are answered with the raw cell values. Makes no network calls, so
+ * committees can run in CI and on air-gapped hosts.
+ */
+
+import { scoreHeader, isTypeCompatible } from '@order-processing/parser';
+import { BaseProvider } from './base-provider';
+import {
+  ColumnStats,
+  EvidencePack,
+  ExtractedValueEvidence,
+  ProviderIssue,
+  ProviderMapping,
+  ProviderMappingOutput,
+  TokenCounts,
+} from '../types';
+
+/**
+ * Committee field names that the parser's synonym dictionaries know under
+ * another name
+ */
+const PARSER_FIELD_NAMES: Record<string, string> = {
+  customer_name: 'customer',
+};
+
+/**
+ * Share of a column's values that must have one data type for the column to
+ * count as that type rather than mixed
+ */
+const DOMINANT_TYPE_SHARE = 0.8;
+
+/**
+ * Evidence pack data types (see EvidencePackBuilder) to parser column types
+ */
+const PARSER_COLUMN_TYPES: Record<string, string> = {
+  string: 'text',
+  number: 'number',
+  date: 'date',
+  boolean: 'text',
+};
+
+/**
+ * Rules-based provider; the same evidence pack always gets the same answer
+ */
+export class HeuristicProvider extends BaseProvider {
+  async executeMapping(
+    evidencePack: EvidencePack,
+    expectedFields: string[],
+    _systemPrompt: string,
+    _timeoutMs: number
+  ): Promise<ProviderMappingOutput> {
+    const startTime = Date.now();
+
+    if (evidencePack.extractedValues) {
+      return this.reviewExtractedValues(evidencePack.extractedValues, expectedFields, startTime);
+    }
+
+    const columns = getColumns(evidencePack);
+
+    const mappings: ProviderMapping[] = [];
+    const issues: ProviderIssue[] = [];
+
+    for (const field of expectedFields) {
+      const best = findBestColumn(field, columns);
+
+      if (best) {
+        mappings.push({
+          field,
+          selectedColumnId: best.columnId,
+          confidence: roundScore(best.score),
+          reasoning: `Header "${best.headerText}" is a ${best.method} match for ${field} ` +
+            `(header score ${roundScore(best.headerScore)}, type ${best.columnType})`,
+        });
+      } else {
+        mappings.push({
+          field,
+          selectedColumnId: null,
+          confidence: 0,
+          reasoning: `No header matches the synonyms of ${field}`,
+        });
+        issues.push({
+          code: 'NO_HEADER_MATCH',
+          severity: 'warning',
+          evidence: `No candidate header matches ${field}`,
+        });
+      }
+    }
+
+    const matched = mappings.filter((m) => m.selectedColumnId !== null);
+
+    return this.validateOutput({
+      mappings,
+      issues,
+      overallConfidence:
+        matched.length > 0
+          ? roundScore(matched.reduce((sum, m) => sum + m.confidence, 0) / matched.length)
+          : 0,
+      processingTimeMs: Date.now() - startTime,
+      tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    });
+  }
+
+  /**
+   * Answer each extracted value with the raw value of its cell
+   */
+  private reviewExtractedValues(
+    values: ExtractedValueEvidence[],
+    keys: string[],
+    startTime: number
+  ): ProviderMappingOutput {
+    const mappings: ProviderMapping[] = [];
+    const issues: ProviderIssue[] = [];
+
+    for (const value of values.filter((v) => keys.includes(v.key))) {
+      const raw = value.rawValue ?? value.displayValue;
+
+      if (raw === undefined || raw === null || raw === '') {
+        mappings.push({
+          field: value.key,
+          selectedColumnId: null,
+          confidence: 0,
+          reasoning: `No cell value for ${value.key}`,
+        });
+        issues.push({
+          code: 'NO_CELL_VALUE',
+          severity: 'warning',
+          evidence: `No raw value for ${value.key}${value.cell ? ` in ${value.cell}` : ''}`,
+        });
+      } else {
+        mappings.push({
+          field: value.key,
+          selectedColumnId: String(raw),
+          confidence: 0.9,
+          reasoning: `Raw value of ${value.cell ?? 'the cell'}`,
+        });
+      }
+    }
+
+    const matched = mappings.filter((m) => m.selectedColumnId !== null);
+
+    return this.validateOutput({
+      mappings,
+      issues,
+      overallConfidence: matched.length > 0 ? 0.9 : 0,
+      processingTimeMs: Date.now() - startTime,
+      tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    });
+  }
+
+  /**
+   * No model is called, so no tokens are used
+   */
+  estimateTokenCounts(): TokenCounts {
+    return { inputTokens: 0, outputTokens: 0 };
+  }
+
+  protected validateOutput(output: unknown): ProviderMappingOutput {
+    // Built in-process from candidate columns only, so no schema validation needed
+    return output as ProviderMappingOutput;
+  }
+}
+
+interface CandidateColumn {
+  columnId: string;
+  headerText: string;
+  stats?: ColumnStats;
+}
+
+interface ColumnMatch {
+  columnId: string;
+  headerText: string;
+  method: string;
+  headerScore: number;
+  columnType: string;
+  score: number;
+}
+
+function getColumns(evidencePack: EvidencePack): CandidateColumn[] {
+  if (evidencePack.columnStats.length > 0) {
+    return evidencePack.columnStats.map((stats) => ({
+      columnId: stats.columnId,
+      headerText: stats.headerText,
+      stats,
+    }));
+  }
+
+  return evidencePack.candidateHeaders.map((headerText, index) => ({
+    columnId: index.toString(),
+    headerText,
+  }));
+}
+
+/**
+ * Best column for a field, weighting header score and type compatibility
+ * 70/30 as the parser's header matcher does
+ */
+function findBestColumn(field: string, columns: CandidateColumn[]): ColumnMatch | null {
+  const parserField = PARSER_FIELD_NAMES[field] ?? field;
+  let best: ColumnMatch | null = null;
+
+  for (const column of columns) {
+    const headerMatch = scoreHeader(column.headerText, parserField);
+    if (!headerMatch) {
+      continue;
+    }
+
+    const columnType = getColumnType(column.stats);
+    // Without values there is nothing to check the type against
+    const score =
+      columnType === 'unknown'
+        ? headerMatch.score
+        : headerMatch.score * 0.7 + isTypeCompatible(columnType, parserField).confidence * 0.3;
+
+    if (!best || score > best.score) {
+      best = {
+        columnId: column.columnId,
+        headerText: column.headerText,
+        method: headerMatch.method,
+        headerScore: headerMatch.score,
+        columnType,
+        score,
+      };
+    }
+  }
+
+  return best;
+}
+
+function getColumnType(stats?: ColumnStats): string {
+  if (!stats || stats.nonEmptyCount === 0) {
+    return 'unknown';
+  }
+
+  for (const [type, count] of Object.entries(stats.dataTypes)) {
+    if (count / stats.nonEmptyCount >= DOMINANT_TYPE_SHARE) {
+      return PARSER_COLUMN_TYPES[type] ?? 'mixed';
+    }
+  }
+
+  return 'mixed';
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
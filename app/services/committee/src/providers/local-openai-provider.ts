@@ -0,0 +1,156 @@
+/**
+ * Local open-weights provider implementation
+ *
+ * Uses a local OpenAI-compatible inference server (vLLM, Ollama, llama.cpp,
+ * LM Studio) so the committee can run without cloud endpoints
+ */
+
+import { BaseProvider } from './base-provider';
+import { EvidencePack, ProviderConfig, ProviderMappingOutput } from '../types';
+import Ajv from 'ajv';
+
+const ajv = new Ajv();
+
+const OUTPUT_SCHEMA = {
+  type: 'object',
+  required: ['mappings', 'issues', 'overallConfidence', 'processingTimeMs'],
+  properties: {
+    mappings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['field', 'selectedColumnId', 'confidence', 'reasoning'],
+        properties: {
+          field: { type: 'string' },
+          selectedColumnId: { type: ['string', 'null'] },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          reasoning: { type: 'string' },
+        },
+      },
+    },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['code', 'severity', 'evidence'],
+        properties: {
+          code: { type: 'string' },
+          severity: { type: 'string', enum: ['info', 'warning', 'error'] },
+          evidence: { type: 'string' },
+        },
+      },
+    },
+    overallConfidence: { type: 'number', minimum: 0, maximum: 1 },
+    processingTimeMs: { type: 'number', minimum: 0 },
+  },
+};
+
+const validateOutput = ajv.compile(OUTPUT_SCHEMA);
+
+/**
+ * Subset of the chat completions response used here
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * Local OpenAI-compatible provider (chat completions API)
+ */
+export class LocalOpenAIProvider extends BaseProvider {
+  private apiKey?: string;
+  private endpoint: string;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+
+    if (!config.endpoint) {
+      throw new Error('Local provider requires endpoint');
+    }
+
+    // Most local servers ignore the key; some (e.g. vLLM --api-key) require one
+    this.apiKey = config.apiKey;
+    this.endpoint = config.endpoint.replace(/\/+$/, '');
+  }
+
+  async executeMapping(
+    evidencePack: EvidencePack,
+    expectedFields: string[],
+    systemPrompt: string,
+    timeoutMs: number
+  ): Promise<ProviderMappingOutput> {
+    const startTime = Date.now();
+
+    try {
+      const userPrompt = this.buildUserPrompt(evidencePack, expectedFields);
+
+      const response = await this.withTimeout(
+        fetch(`${this.endpoint}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+          },
+          body: JSON.stringify({
+            model: this.config.model,
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt },
+            ],
+            temperature: this.config.temperature,
+            max_tokens: this.config.maxTokens,
+            response_format: { type: 'json_object' },
+          }),
+        }),
+        timeoutMs
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Local API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('No content in response');
+      }
+
+      // Smaller models may wrap the JSON in a code fence despite response_format
+      const parsed = JSON.parse(this.extractJson(content));
+      const output = this.validateOutput(parsed);
+
+      output.processingTimeMs = Date.now() - startTime;
+      if (data.usage) {
+        output.tokenUsage = {
+          inputTokens: data.usage.prompt_tokens,
+          outputTokens: data.usage.completion_tokens,
+        };
+      }
+
+      return output;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Local provider failed: ${errorMsg}`);
+    }
+  }
+
+  private extractJson(content: string): string {
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+      return jsonMatch[1];
+    }
+    return content.trim();
+  }
+
+  protected validateOutput(output: unknown): ProviderMappingOutput {
+    if (!validateOutput(output)) {
+      const errors = validateOutput.errors?.map((e) => `${e.instancePath}: ${e.message}`).join(', ');
+      throw new Error(`Invalid provider output: ${errors}`);
+    }
+
+    return output as unknown as ProviderMappingOutput;
+  }
+}
@@ -10,8 +10,31 @@ import { AzureAnthropicProvider } from './azure-anthropic-provider';
 import { AzureDeepSeekProvider } from './azure-deepseek-provider';
 import { GeminiProvider } from './gemini-provider';
 import { XAIProvider } from './xai-provider';
+import { LocalOpenAIProvider } from './local-openai-provider';
+import { HeuristicProvider } from './heuristic-provider';
 import { ProviderConfig, ProviderFactoryOptions } from '../types';
-import { selectProviders, SelectionResult, isSelectionDiverse } from './selection';
+import {
+  selectProviders,
+  getProviderFamily,
+  registerProviderFamily,
+  ProviderFamily,
+  selectProvidersWithinBudget,
+  orderProvidersForEscalation,
+  ProviderEstimate,
+  SelectionResult,
+  BudgetSelectionOptions,
+  BudgetSelectionResult,
+  isSelectionDiverse,
+} from './selection';
+
+/**
+ * Families of provider types that can run under any ID, so several local
+ * models can be configured side by side
+ */
+const TYPE_FAMILIES: Partial<Record<ProviderConfig['type'], ProviderFamily>> = {
+  'local-openai': 'local',
+  heuristic: 'heuristic',
+};
 
 /**
  * Factory for creating provider instances
@@ -38,6 +61,11 @@ export class ProviderFactory {
       try {
         const provider = this.createProvider(config);
         this.providers.set(config.id, provider);
+
+        const family = TYPE_FAMILIES[config.type];
+        if (family && !getProviderFamily(config.id)) {
+          registerProviderFamily(config.id, family);
+        }
       } catch (error) {
         console.error(`Failed to initialize provider ${config.id}:`, error);
       }
@@ -59,6 +87,10 @@ export class ProviderFactory {
         return new GeminiProvider(config);
       case 'xai':
         return new XAIProvider(config);
+      case 'local-openai':
+        return new LocalOpenAIProvider(config);
+      case 'heuristic':
+        return new HeuristicProvider(config);
       default:
         throw new Error(`Unknown provider type: ${config.type}`);
     }
@@ -134,6 +166,52 @@ export class ProviderFactory {
     return { providers, selectionResult };
   }
 
+  /**
+   * Select providers within a cost and latency budget
+   *
+   * Diversity is kept whenever a diverse selection fits the budget.
+   */
+  selectProvidersWithinBudget(
+    count: number,
+    pool: string[] | undefined,
+    budget: Pick<BudgetSelectionOptions, 'estimates' | 'maxCostUsd' | 'maxLatencyMs'>
+  ): { providers: BaseProvider[]; selectionResult: BudgetSelectionResult } {
+    const availableIds = pool || this.getEnabledProviderIds();
+
+    const selectionResult = selectProvidersWithinBudget(this.providers, {
+      count,
+      pool: availableIds,
+      enforceDiversity: true,
+      ...budget,
+    });
+
+    if (!selectionResult.diversityMet) {
+      console.warn(
+        `Provider selection diversity not met within budget. Selected: ${selectionResult.selectedIds.join(', ')}`
+      );
+    }
+
+    const providers = selectionResult.selectedIds.map((id) => this.providers.get(id)!);
+
+    return { providers, selectionResult };
+  }
+
+  /**
+   * Providers in sequential committee calling order (cheapest first, one per
+   * family before any family repeats)
+   */
+  orderProvidersForEscalation(
+    pool: string[] | undefined,
+    estimates: Record<string, ProviderEstimate>,
+    maxLatencyMs?: number
+  ): BaseProvider[] {
+    const availableIds = pool || this.getEnabledProviderIds();
+
+    return orderProvidersForEscalation(this.providers, availableIds, estimates, maxLatencyMs).map(
+      (id) => this.providers.get(id)!
+    );
+  }
+
   /**
    * Check if current selection would be diverse
    */
@@ -1,7 +1,8 @@
 /**
  * Provider selection utilities
  *
- * Handles random selection of providers from the pool with diversity constraints.
+ * Handles random selection of providers from the pool with diversity constraints,
+ * optionally within a cost and latency budget.
  */
 
 import { BaseProvider } from './base-provider';
@@ -10,7 +11,14 @@ import { BaseProvider } from './base-provider';
  * Provider family classification
  * Used to ensure diversity in provider selection
  */
-export type ProviderFamily = 'openai' | 'anthropic' | 'deepseek' | 'google' | 'xai';
+export type ProviderFamily =
+  | 'openai'
+  | 'anthropic'
+  | 'deepseek'
+  | 'google'
+  | 'xai'
+  | 'local' // Open-weights models on a local inference server
+  | 'heuristic'; // Rules-based, no model
 
 /**
  * Map provider IDs to their families
@@ -33,6 +41,10 @@ const PROVIDER_FAMILIES: Record<string, ProviderFamily> = {
 
   // xAI family
   'xai-grok-4-reasoning': 'xai',
+
+  // Offline providers
+  'local-llm': 'local',
+  'heuristic-header-matcher': 'heuristic',
 };
 
 /**
@@ -148,6 +160,167 @@ export function selectProviders(
   };
 }
 
+/**
+ * Expected cost and latency of calling a provider for the task at hand
+ */
+export interface ProviderEstimate {
+  costUsd: number;
+  latencyMs: number;
+}
+
+/**
+ * Selection options with a budget
+ */
+export interface BudgetSelectionOptions extends SelectionOptions {
+  /**
+   * Estimate per provider ID; providers without one are not selected
+   */
+  estimates: Record<string, ProviderEstimate>;
+
+  /**
+   * Maximum summed estimated cost of the selected providers
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Maximum estimated latency of any selected provider (calls run in parallel)
+   */
+  maxLatencyMs?: number;
+}
+
+/**
+ * Budget selection result
+ */
+export interface BudgetSelectionResult extends SelectionResult {
+  estimatedCostUsd: number;
+  estimatedLatencyMs: number;
+  /** Providers too slow for maxLatencyMs */
+  skippedDueToLatency: string[];
+}
+
+/**
+ * Select providers within a cost and latency budget
+ *
+ * Every combination of `count` providers that fits the budget is considered
+ * (pools are small, so this stays cheap). Diverse combinations are preferred;
+ * among the preferred ones the choice is random so cheap sheets still see
+ * varied committees. Diversity is only relaxed when no diverse combination
+ * fits the budget.
+ *
+ * @throws Error if no combination fits the budget
+ */
+export function selectProvidersWithinBudget(
+  providers: Map<string, BaseProvider>,
+  options: BudgetSelectionOptions
+): BudgetSelectionResult {
+  const { count, pool, estimates, maxCostUsd, maxLatencyMs, enforceDiversity = true } = options;
+
+  const availableIds = pool.filter((id) => providers.has(id) && estimates[id]);
+  const skippedDueToLatency = availableIds.filter(
+    (id) => maxLatencyMs !== undefined && estimates[id].latencyMs > maxLatencyMs
+  );
+  const candidates = shuffleArray(
+    availableIds.filter((id) => !skippedDueToLatency.includes(id)),
+    options.seed
+  );
+
+  if (candidates.length < count) {
+    throw new Error(
+      `Not enough providers within the latency budget. Requested: ${count}, Available: ${candidates.length}` +
+        (skippedDueToLatency.length > 0 ? ` (too slow: ${skippedDueToLatency.join(', ')})` : '')
+    );
+  }
+
+  const affordable = combinations(candidates, count).filter(
+    (ids) => maxCostUsd === undefined || sumCost(ids, estimates) <= maxCostUsd
+  );
+  const diverse = affordable.filter(isSelectionDiverse);
+  const selectedIds = (enforceDiversity && diverse.length > 0 ? diverse : affordable)[0];
+
+  if (!selectedIds) {
+    const cheapest = [...candidates]
+      .sort((a, b) => estimates[a].costUsd - estimates[b].costUsd)
+      .slice(0, count);
+    throw new Error(
+      `No ${count} providers fit the cost budget of $${maxCostUsd}. ` +
+        `Cheapest selection (${cheapest.join(', ')}) is estimated at $${sumCost(cheapest, estimates).toFixed(4)}`
+    );
+  }
+
+  const families = selectedIds
+    .map((id) => getProviderFamily(id))
+    .filter((family): family is ProviderFamily => family !== undefined);
+
+  return {
+    selectedIds,
+    families,
+    diversityMet: isSelectionDiverse(selectedIds),
+    skippedDueToFamily: [],
+    estimatedCostUsd: sumCost(selectedIds, estimates),
+    estimatedLatencyMs: Math.max(...selectedIds.map((id) => estimates[id].latencyMs)),
+    skippedDueToLatency,
+  };
+}
+
+/**
+ * Order providers for a sequential committee
+ *
+ * Cheapest first, with one provider per family before any family repeats, so
+ * escalations bring in a different family whenever one is left. Providers
+ * without an estimate or slower than maxLatencyMs are left out.
+ */
+export function orderProvidersForEscalation(
+  providers: Map<string, BaseProvider>,
+  pool: string[],
+  estimates: Record<string, ProviderEstimate>,
+  maxLatencyMs?: number
+): string[] {
+  const candidates = pool
+    .filter((id) => providers.has(id) && estimates[id])
+    .filter((id) => maxLatencyMs === undefined || estimates[id].latencyMs <= maxLatencyMs)
+    .sort((a, b) => estimates[a].costUsd - estimates[b].costUsd);
+
+  const firstOfFamily: string[] = [];
+  const repeats: string[] = [];
+  const usedFamilies = new Set<ProviderFamily>();
+
+  for (const providerId of candidates) {
+    const family = getProviderFamily(providerId);
+    if (family && usedFamilies.has(family)) {
+      repeats.push(providerId);
+      continue;
+    }
+
+    firstOfFamily.push(providerId);
+    if (family) {
+      usedFamilies.add(family);
+    }
+  }
+
+  return [...firstOfFamily, ...repeats];
+}
+
+function sumCost(ids: string[], estimates: Record<string, ProviderEstimate>): number {
+  return ids.reduce((sum, id) => sum + estimates[id].costUsd, 0);
+}
+
+/**
+ * All combinations of k items, in input order
+ */
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) {
+    return [[]];
+  }
+
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - k; i++) {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
 /**
  * Fisher-Yates shuffle with optional seed
  */
@@ -112,6 +112,7 @@ export class XAIProvider extends BaseProvider {
       const output = this.validateOutput(parsed);
 
       output.processingTimeMs = Date.now() - startTime;
+      output.tokenUsage = this.getChatCompletionUsage(data);
 
       return output;
     } catch (error) {
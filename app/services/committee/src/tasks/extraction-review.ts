@@ -1,18 +1,29 @@
 /**
- * Extraction review task (future use)
+ * Extraction review task
  *
- * Coordinates the committee review of data extractions
+ * Coordinates the committee review of extracted values. Each provider reads
+ * the values back from their evidence cells; the answers are voted on like
+ * column mappings, with the value in place of the column ID.
  */
 
-import { CommitteeConfig, ExtractionReviewTask, ProviderOutput } from '../types';
+import {
+  AggregatedResult,
+  CommitteeConfig,
+  ExtractedValueEvidence,
+  ExtractionDisagreement,
+  ExtractionReviewTask,
+  ProviderOutput,
+} from '../types';
 import { BaseProvider } from '../providers/base-provider';
 import { getExtractionReviewSystemPrompt } from '../prompts/extraction-review-prompt';
+import { runProviderMapping } from './schema-mapping-review';
+import pLimit from 'p-limit';
 
 /**
  * Execute extraction review with multiple providers
  *
- * This is a placeholder for future implementation.
- * V1 focuses on schema mapping only.
+ * Provider answers are normalized (see normalizeReviewedValue) so that "12"
+ * and "12.0" count as the same vote.
  *
  * @param task - Extraction review task
  * @param providers - Selected providers for the committee
@@ -24,9 +35,120 @@ export async function executeExtractionReview(
   providers: BaseProvider[],
   config: CommitteeConfig
 ): Promise<ProviderOutput[]> {
-  // TODO: Implement extraction review
-  // This would follow a similar pattern to schema mapping review
-  // but would validate extracted values instead of column mappings
+  const systemPrompt = getExtractionReviewSystemPrompt();
+  const values = new Map((task.evidencePack.extractedValues ?? []).map((v) => [v.key, v]));
 
-  throw new Error('Extraction review not yet implemented');
+  // Limit concurrent provider calls to avoid overwhelming the system
+  const limit = pLimit(3);
+
+  const results = await Promise.all(
+    providers.map((provider) =>
+      limit(() => runProviderMapping(provider, task, systemPrompt, config.timeoutMs))
+    )
+  );
+
+  for (const result of results) {
+    for (const mapping of result.output.mappings) {
+      const value = values.get(mapping.field);
+      if (value) {
+        mapping.selectedColumnId = normalizeReviewedValue(value, mapping.selectedColumnId);
+      }
+    }
+  }
+
+  const successful = results.filter((r) => !r.error);
+
+  if (successful.length < config.minSuccessfulProviders) {
+    throw new Error(
+      `Insufficient successful provider responses. Required: ${config.minSuccessfulProviders}, Got: ${successful.length}`
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Normalize a value for comparison
+ *
+ * Numeric fields (whose extracted value is a number) compare as numbers;
+ * everything else compares as text with whitespace collapsed.
+ *
+ * @param value - The extracted value the answer is about
+ * @param answer - Provider answer or extracted value, as text
+ * @returns Normalized value, or null for an empty answer
+ */
+export function normalizeReviewedValue(
+  value: ExtractedValueEvidence,
+  answer: string | number | null | undefined
+): string | null {
+  if (answer === null || answer === undefined) {
+    return null;
+  }
+
+  const text = String(answer).replace(/\s+/g, ' ').trim();
+  if (text === '') {
+    return null;
+  }
+
+  if (typeof value.extractedValue === 'number') {
+    const parsed = Number(text);
+    if (Number.isFinite(parsed)) {
+      return String(parsed);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Extracted values the committee did not confirm
+ *
+ * A value is reported when the providers split on it, or when they agree on
+ * a value that differs from the extracted one.
+ *
+ * @param values - Extracted values that were reviewed
+ * @param aggregatedResult - Aggregated committee votes
+ * @returns One disagreement per unconfirmed value
+ */
+export function findExtractionDisagreements(
+  values: ExtractedValueEvidence[],
+  aggregatedResult: AggregatedResult
+): ExtractionDisagreement[] {
+  const disagreements: ExtractionDisagreement[] = [];
+
+  for (const value of values) {
+    const fieldVote = aggregatedResult.fieldVotes.find((fv) => fv.field === value.key);
+    if (!fieldVote) {
+      continue;
+    }
+
+    const extracted = normalizeReviewedValue(value, value.extractedValue);
+    const votes: Record<string, string | null> = {};
+    for (const vote of fieldVote.votes) {
+      for (const providerId of vote.providers) {
+        votes[providerId] = vote.columnId;
+      }
+    }
+
+    let reason: string | undefined;
+    if (fieldVote.requiresHuman && fieldVote.votes.length > 1) {
+      reason = `Providers disagree on the value (margin: ${fieldVote.winnerMargin.toFixed(2)})`;
+    } else if (fieldVote.winner !== extracted) {
+      reason = `Committee read ${JSON.stringify(fieldVote.winner)} from ${value.cell ?? 'the evidence'}, ` +
+        `but ${JSON.stringify(extracted)} was extracted`;
+    }
+
+    if (reason) {
+      disagreements.push({
+        key: value.key,
+        field: value.field,
+        extractedValue: value.extractedValue,
+        reviewedValue: fieldVote.winner,
+        votes,
+        reason,
+      });
+    }
+  }
+
+  return disagreements;
 }
@@ -4,9 +4,10 @@
  * Coordinates the committee review of schema mappings
  */
 
-import { CommitteeConfig, SchemaMappingTask, ProviderOutput } from '../types';
+import { CommitteeConfig, CommitteeTask, SchemaMappingTask, ProviderOutput } from '../types';
 import { BaseProvider } from '../providers/base-provider';
 import { getMappingReviewSystemPrompt } from '../prompts/mapping-review-prompt';
+import { buildProviderUsage } from '../budget/cost-model';
 import pLimit from 'p-limit';
 
 /**
@@ -28,45 +29,7 @@ export async function executeSchemaMappingReview(
   const limit = pLimit(3);
 
   const providerPromises = providers.map((provider) =>
-    limit(async (): Promise<ProviderOutput> => {
-      const startTime = Date.now();
-
-      try {
-        const output = await provider.executeMapping(
-          task.evidencePack,
-          task.expectedFields,
-          systemPrompt,
-          config.timeoutMs
-        );
-
-        return {
-          providerId: provider.getId(),
-          providerName: provider.getName(),
-          output,
-        };
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-
-        // Return a failed output
-        return {
-          providerId: provider.getId(),
-          providerName: provider.getName(),
-          error: errorMsg,
-          output: {
-            mappings: [],
-            issues: [
-              {
-                code: 'PROVIDER_FAILED',
-                severity: 'error',
-                evidence: `Provider execution failed: ${errorMsg}`,
-              },
-            ],
-            overallConfidence: 0,
-            processingTimeMs: Date.now() - startTime,
-          },
-        };
-      }
-    })
+    limit(() => runProviderMapping(provider, task, systemPrompt, config.timeoutMs))
   );
 
   const results = await Promise.all(providerPromises);
@@ -83,6 +46,66 @@ export async function executeSchemaMappingReview(
   return results;
 }
 
+/**
+ * Call one provider for a mapping (or extraction review) task
+ *
+ * Provider failures are returned as a failed output (with `error` set) rather
+ * than thrown, so one provider can't fail the committee.
+ */
+export async function runProviderMapping(
+  provider: BaseProvider,
+  task: CommitteeTask,
+  systemPrompt: string,
+  timeoutMs: number
+): Promise<ProviderOutput> {
+  const startTime = Date.now();
+
+  try {
+    const { tokenUsage, ...output } = await provider.executeMapping(
+      task.evidencePack,
+      task.expectedFields,
+      systemPrompt,
+      timeoutMs
+    );
+
+    // Estimate tokens when the provider API does not report them
+    const tokens =
+      tokenUsage ?? provider.estimateTokenCounts(task.evidencePack, task.expectedFields, systemPrompt);
+
+    return {
+      providerId: provider.getId(),
+      providerName: provider.getName(),
+      output,
+      usage: buildProviderUsage(tokens, provider.getPricing(), Date.now() - startTime, !tokenUsage),
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+    // Failed calls (timeouts in particular) may still be billed for the prompt
+    const { inputTokens } = provider.estimateTokenCounts(task.evidencePack, task.expectedFields, systemPrompt);
+
+    // Return a failed output
+    return {
+      providerId: provider.getId(),
+      providerName: provider.getName(),
+      error: errorMsg,
+      output: {
+        mappings: [],
+        issues: [
+          {
+            code: 'PROVIDER_FAILED',
+            severity: 'error',
+            evidence: `Provider execution failed: ${errorMsg}`,
+          },
+        ],
+        overallConfidence: 0,
+        processingTimeMs: Date.now() - startTime,
+      },
+      usage: buildProviderUsage({ inputTokens, outputTokens: 0 }, provider.getPricing(), Date.now() - startTime, true),
+    };
+  }
+}
+
 /**
  * Validate that provider outputs are complete for the task
  */
@@ -99,7 +122,8 @@ export function validateProviderOutputs(
 
     const mappedFields = new Set(output.output.mappings.map((m) => m.field));
 
-    for (const field of expectedFields) {
+    // Escalation calls of a sequential committee only cover some fields
+    for (const field of output.requestedFields ?? expectedFields) {
       if (!mappedFields.has(field)) {
         errors.push(
           `Provider ${output.providerId} did not provide mapping for required field: ${field}`
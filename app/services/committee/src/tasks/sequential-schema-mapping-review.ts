@@ -0,0 +1,186 @@
+/**
+ * Sequential schema mapping review
+ *
+ * Early-stopping alternative to executeSchemaMappingReview. The cheapest
+ * `minProviders` providers map all fields first; when they agree with high
+ * confidence the committee stops there. Otherwise further providers are
+ * called one at a time and only asked about the fields that are still split,
+ * until every field is settled or providerCount providers have succeeded.
+ */
+
+import {
+  CommitteeConfig,
+  FieldVote,
+  ProviderOutput,
+  SchemaMappingTask,
+  SequentialCommitteeAudit,
+  SequentialCommitteeConfig,
+} from '../types';
+import { BaseProvider } from '../providers/base-provider';
+import { getMappingReviewSystemPrompt } from '../prompts/mapping-review-prompt';
+import { aggregateVotes } from '../aggregation/weighted-voting';
+import { detectFieldConsensus } from '../aggregation/consensus-detector';
+import { runProviderMapping } from './schema-mapping-review';
+
+export const DEFAULT_SEQUENTIAL_CONFIG: SequentialCommitteeConfig = {
+  minProviders: 2,
+  earlyStopConfidence: 0.85,
+};
+
+export interface SequentialReviewOptions {
+  /**
+   * Whether the budget allows a run calling these providers (default: always).
+   * Checked before each provider is added.
+   */
+  canAfford?: (providerIds: string[]) => boolean;
+}
+
+export interface SequentialReviewResult {
+  outputs: ProviderOutput[];
+  audit: SequentialCommitteeAudit;
+}
+
+/**
+ * Execute schema mapping review, stopping as soon as the fields are settled
+ *
+ * @param task - Schema mapping task
+ * @param candidates - Providers in calling order (see orderProvidersForEscalation)
+ * @param config - Committee configuration
+ * @param options - Budget check
+ * @returns Provider outputs and the calls made
+ */
+export async function executeSequentialSchemaMappingReview(
+  task: SchemaMappingTask,
+  candidates: BaseProvider[],
+  config: CommitteeConfig,
+  options: SequentialReviewOptions = {}
+): Promise<SequentialReviewResult> {
+  const sequential = config.sequential ?? DEFAULT_SEQUENTIAL_CONFIG;
+  const minProviders = Math.min(sequential.minProviders, config.providerCount);
+  const systemPrompt = getMappingReviewSystemPrompt();
+
+  const queue = [...candidates];
+  const outputs: ProviderOutput[] = [];
+  const stages: SequentialCommitteeAudit['stages'] = [];
+  let unsettledFields = [...task.expectedFields];
+
+  while (queue.length > 0) {
+    const successfulCount = outputs.filter((o) => !o.error).length;
+    if (successfulCount >= config.providerCount) {
+      break;
+    }
+    if (successfulCount >= minProviders && unsettledFields.length === 0) {
+      break;
+    }
+
+    // Until minProviders succeeded, calls map every field; escalations only the split ones
+    const escalating = successfulCount >= minProviders;
+    const fields = escalating ? unsettledFields : task.expectedFields;
+    const batch = takeAffordable(
+      queue,
+      escalating ? 1 : minProviders - successfulCount,
+      outputs.map((o) => o.providerId),
+      options
+    );
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    const results = await Promise.all(
+      batch.map((provider) =>
+        runProviderMapping(provider, { ...task, expectedFields: fields }, systemPrompt, config.timeoutMs)
+      )
+    );
+
+    for (const result of results) {
+      if (escalating) {
+        result.requestedFields = fields;
+      }
+      outputs.push(result);
+    }
+
+    stages.push({ providers: batch.map((p) => p.getId()), fields });
+
+    unsettledFields = findUnsettledFields(
+      outputs.filter((o) => !o.error),
+      task.expectedFields,
+      config,
+      sequential.earlyStopConfidence
+    );
+  }
+
+  const successfulCount = outputs.filter((o) => !o.error).length;
+
+  if (successfulCount < config.minSuccessfulProviders) {
+    throw new Error(
+      `Insufficient successful provider responses. Required: ${config.minSuccessfulProviders}, Got: ${successfulCount}`
+    );
+  }
+
+  return {
+    outputs,
+    audit: {
+      stages,
+      unsettledFields,
+      stoppedEarly: successfulCount < config.providerCount,
+    },
+  };
+}
+
+/**
+ * Fields whose votes are not settled yet
+ *
+ * A field is settled when its votes reach unanimous or majority consensus
+ * (detectFieldConsensus) without needing a human, and the winning column has
+ * at least two confident votes. A single vote never settles a field.
+ */
+export function findUnsettledFields(
+  outputs: ProviderOutput[],
+  expectedFields: string[],
+  config: CommitteeConfig,
+  earlyStopConfidence: number
+): string[] {
+  const { fieldVotes } = aggregateVotes(outputs, config.weights, config.consensusThreshold);
+
+  return expectedFields.filter((field) => {
+    const fieldVote = fieldVotes.find((fv) => fv.field === field);
+    return !fieldVote || !isFieldSettled(fieldVote, earlyStopConfidence);
+  });
+}
+
+function isFieldSettled(fieldVote: FieldVote, earlyStopConfidence: number): boolean {
+  const consensus = detectFieldConsensus(fieldVote);
+  const winner = fieldVote.votes[0];
+
+  return (
+    (consensus === 'unanimous' || consensus === 'majority') &&
+    !fieldVote.requiresHuman &&
+    winner.providers.length >= 2 &&
+    winner.confidence >= earlyStopConfidence
+  );
+}
+
+/**
+ * Take up to `count` providers from the queue that fit the budget; providers
+ * that don't fit are dropped
+ */
+function takeAffordable(
+  queue: BaseProvider[],
+  count: number,
+  calledIds: string[],
+  options: SequentialReviewOptions
+): BaseProvider[] {
+  const batch: BaseProvider[] = [];
+
+  while (batch.length < count && queue.length > 0) {
+    const provider = queue.shift()!;
+    const providerIds = [...calledIds, ...batch.map((p) => p.getId()), provider.getId()];
+
+    if (!options.canAfford || options.canAfford(providerIds)) {
+      batch.push(provider);
+    }
+  }
+
+  return batch;
+}
@@ -21,6 +21,19 @@ export interface ColumnStats {
  */
 export type SupportedLanguage = 'en' | 'fa' | 'ar' | 'mixed' | 'unknown';
 
+/**
+ * An extracted value with the cell it was read from, for extraction review
+ */
+export interface ExtractedValueEvidence {
+  key: string; // JSON path into the canonical order, e.g. "/line_items/3/quantity"
+  field: string; // canonical field name (e.g., "quantity", "sku", "customer_name")
+  extractedValue: string | number | null;
+  cell?: string; // "Sheet1!C12"
+  rawValue?: string | number | boolean | null;
+  displayValue?: string;
+  numberFormat?: string;
+}
+
 /**
  * Evidence pack sent to providers
  * Bounded - does not include full workbook
@@ -40,6 +53,8 @@ export interface EvidencePack {
     totalColumns?: number;
     hasFormulas?: boolean;
   };
+  /** Values to verify against their cells (extraction review only) */
+  extractedValues?: ExtractedValueEvidence[];
 }
 
 /**
@@ -69,6 +84,26 @@ export interface ProviderMappingOutput {
   issues: ProviderIssue[];
   overallConfidence: number; // 0.0 to 1.0
   processingTimeMs: number;
+  /** Tokens billed for the call, as reported by the provider API (not part of the model's JSON) */
+  tokenUsage?: TokenCounts;
+}
+
+/**
+ * Token counts of a provider call
+ */
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Token usage, cost and latency of one provider call
+ */
+export interface ProviderUsage extends TokenCounts {
+  costUsd: number;
+  latencyMs: number;
+  /** Token counts were estimated from prompt size (provider did not report them) */
+  estimated: boolean;
 }
 
 /**
@@ -80,6 +115,8 @@ export interface ProviderOutput {
   output: ProviderMappingOutput;
   error?: string;
   rawOutputBlobUri?: string; // Pointer to full output in blob storage
+  usage?: ProviderUsage;
+  requestedFields?: string[]; // Fields the provider was asked for, if not all expected fields
 }
 
 /**
@@ -128,6 +165,91 @@ export interface CommitteeConfig {
   confidenceThreshold: number; // Minimum confidence to auto-accept
   timeoutMs: number; // Timeout for each provider call
   minSuccessfulProviders: number; // Minimum providers that must succeed (default: 2)
+  cache?: CommitteeCacheConfig; // Decision cache (disabled if omitted)
+  budget?: CommitteeBudgetConfig; // Spend and latency limits (unlimited if omitted)
+  mode?: CommitteeMode; // Default: 'parallel'
+  sequential?: SequentialCommitteeConfig; // Early-stopping settings for 'sequential' mode
+}
+
+/**
+ * How providers are called
+ *
+ * - parallel: all providerCount providers are called at once
+ * - sequential: the cheapest providers are called first; further diverse
+ *   providers are only asked about fields whose votes split
+ */
+export type CommitteeMode = 'parallel' | 'sequential';
+
+/**
+ * Sequential (early-stopping) committee configuration
+ */
+export interface SequentialCommitteeConfig {
+  minProviders: number; // Providers called before stopping early (default: 2)
+  earlyStopConfidence: number; // Winning vote confidence for a field to count as settled
+}
+
+/**
+ * Provider calls of a sequential committee run, recorded in the audit trail
+ */
+export interface SequentialCommitteeAudit {
+  stages: {
+    providers: string[];
+    fields: string[]; // Fields the providers were asked for
+  }[];
+  /** Fields still split when the run ended */
+  unsettledFields: string[];
+  /** Stopped with fewer than providerCount successful providers */
+  stoppedEarly: boolean;
+}
+
+/**
+ * Committee budget configuration
+ *
+ * Provider selection keeps the estimated cost and latency of a run within
+ * these limits.
+ */
+export interface CommitteeBudgetConfig {
+  maxCostPerTaskUsd?: number;
+  maxLatencyMs?: number; // Slowest selected provider (calls run in parallel)
+  dailyTenantBudgetUsd?: number; // Per tenant per UTC day
+}
+
+/**
+ * Aggregated usage of a committee run
+ */
+export interface CommitteeUsage extends TokenCounts {
+  costUsd: number;
+  providerCalls: number;
+  byProvider: Record<string, ProviderUsage>;
+  /** Estimates the providers were selected on */
+  estimatedCostUsd?: number;
+  estimatedLatencyMs?: number;
+  /** Tenant spend for the day before this run */
+  tenantSpendTodayUsd?: number;
+}
+
+/**
+ * Committee decision cache configuration
+ */
+export interface CommitteeCacheConfig {
+  enabled: boolean;
+  ttlMs: number; // How long a cached decision stays valid
+}
+
+/**
+ * Cache outcome recorded in the audit trail
+ */
+export interface CommitteeCacheAudit {
+  hit: boolean;
+  fingerprint: string;
+  /** Committee run the cached decision was taken in (hits only) */
+  sourceTaskId?: string;
+  cachedAt?: string;
+  expiresAt?: string;
+  /** Provider calls and time the hit saved (hits only) */
+  providerCallsSaved?: number;
+  executionTimeMsSaved?: number;
+  costUsdSaved?: number;
 }
 
 /**
@@ -142,6 +264,7 @@ export interface CommitteeTask {
   type: CommitteeTaskType;
   evidencePack: EvidencePack;
   expectedFields: string[]; // Canonical field names to map
+  tenantId?: string; // Charged against the tenant's daily budget; scopes cached decisions
 }
 
 /**
@@ -153,11 +276,27 @@ export interface SchemaMappingTask extends CommitteeTask {
 }
 
 /**
- * Extraction review task (for future use)
+ * Extraction review task
+ *
+ * The evidence pack carries the values to verify (extractedValues) and
+ * expectedFields lists their keys. Providers answer each key with the value
+ * the evidence supports, in the selectedColumnId slot of a mapping.
  */
 export interface ExtractionReviewTask extends CommitteeTask {
   type: 'extraction-review';
-  extractedValues: Record<string, unknown>;
+}
+
+/**
+ * An extracted value the committee did not confirm
+ */
+export interface ExtractionDisagreement {
+  key: string;
+  field: string;
+  extractedValue: string | number | null;
+  /** Value most of the committee read from the evidence (null if none) */
+  reviewedValue: string | null;
+  votes: Record<string, string | null>; // providerId -> value
+  reason: string;
 }
 
 /**
@@ -173,11 +312,14 @@ export interface CommitteeResult {
   finalMappings: Record<string, string | null>; // field -> columnId
   requiresHumanReview: boolean;
   executionTimeMs: number;
+  usage?: CommitteeUsage;
   auditTrail: {
     timestamp: string;
     config: CommitteeConfig;
     evidencePackBlobUri?: string;
     rawOutputsBlobUri?: string;
+    cache?: CommitteeCacheAudit;
+    sequential?: SequentialCommitteeAudit;
   };
 }
 
@@ -187,14 +329,23 @@ export interface CommitteeResult {
 export interface ProviderConfig {
   id: string;
   name: string;
-  type: 'azure-openai' | 'azure-anthropic' | 'azure-deepseek' | 'gemini' | 'xai';
-  endpoint?: string; // For Azure providers
-  apiKey?: string; // For external providers
+  type: 'azure-openai' | 'azure-anthropic' | 'azure-deepseek' | 'gemini' | 'xai' | 'local-openai' | 'heuristic';
+  endpoint?: string; // For Azure and local providers
+  apiKey?: string; // For external providers (optional for local ones)
   deploymentName?: string; // For Azure deployments
   model: string;
   temperature: number;
   maxTokens: number;
   enabled: boolean;
+  pricing?: ProviderPricing; // Provider is treated as free if omitted
+}
+
+/**
+ * Token pricing of a provider (USD)
+ */
+export interface ProviderPricing {
+  inputPer1MTokensUsd: number;
+  outputPer1MTokensUsd: number;
 }
 
 /**
@@ -0,0 +1,77 @@
+/**
+ * Teams notification of sales reps
+ *
+ * Posts a card to the rep's personal chat with the bot through the bot
+ * service's /api/notify endpoint. The bot can only reach reps who have
+ * talked to it before; it answers 404 for everyone else.
+ */
+
+import { ExternalServiceError } from '@order-processing/shared';
+import { EmailOrderNotice, IRepNotifier } from '../types.js';
+
+export class TeamsRepNotifier implements IRepNotifier {
+  private readonly botServiceUrl: string;
+
+  constructor(botServiceUrl = process.env.TEAMS_BOT_SERVICE_URL || 'http://localhost:3978') {
+    this.botServiceUrl = botServiceUrl;
+  }
+
+  async notifyNewOrder(rep: { tenantId: string; userId: string }, order: EmailOrderNotice): Promise<void> {
+    const response = await fetch(`${this.botServiceUrl}/api/notify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tenantId: rep.tenantId,
+        userId: rep.userId,
+        card: createEmailOrderCard(order),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new ExternalServiceError('teams-bot', `Failed to notify sales rep: ${response.status}`, {
+        caseId: order.caseId,
+        userId: rep.userId,
+        status: response.status,
+      });
+    }
+  }
+}
+
+/**
+ * Create the card announcing an emailed order
+ */
+export function createEmailOrderCard(order: EmailOrderNotice): any {
+  const sender = order.sender.name
+    ? `${order.sender.name} <${order.sender.address}>`
+    : order.sender.address;
+
+  return {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body: [
+      {
+        type: 'TextBlock',
+        text: 'New Order by Email',
+        weight: 'Bolder',
+        size: 'Medium',
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'From', value: sender },
+          { title: 'Subject', value: order.subject || '-' },
+          { title: 'File', value: order.fileName },
+          { title: 'Customer', value: order.customerName || 'Unknown sender domain' },
+          { title: 'Case', value: order.caseId },
+        ],
+      },
+      {
+        type: 'TextBlock',
+        text: 'The order is being processed. The customer has been sent an acknowledgement.',
+        isSubtle: true,
+        wrap: true,
+      },
+    ],
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Workflow service client
+ *
+ * Starts orderProcessingWorkflow through the workflow service's HTTP API,
+ * the same entry point as orders uploaded in Teams.
+ */
+
+import { ExternalServiceError } from '@order-processing/shared';
+import { IWorkflowStarter, StartWorkflowInput } from '../types.js';
+
+export class HttpWorkflowStarter implements IWorkflowStarter {
+  private readonly endpoint: string;
+
+  constructor(endpoint = process.env.WORKFLOW_ENDPOINT || 'http://localhost:3002') {
+    this.endpoint = endpoint;
+  }
+
+  /**
+   * Start the workflow of a case and return its instance ID
+   * Emailed orders have no Teams conversation, so the teams context is empty.
+   * The workflow service answers 409 when the case's workflow already exists
+   * (started by an earlier attempt of the message).
+   */
+  async start(input: StartWorkflowInput): Promise<string> {
+    const response = await fetch(`${this.endpoint}/api/workflow/start`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...input,
+        teams: { chatId: '', messageId: '', activityId: '' },
+      }),
+    });
+
+    if (response.status === 409) {
+      const { instanceId } = await response.json() as { instanceId?: string };
+      return instanceId || `order-${input.caseId}`;
+    }
+
+    if (!response.ok) {
+      throw new ExternalServiceError('workflow', `Failed to start workflow: ${response.status}`, {
+        caseId: input.caseId,
+        status: response.status,
+      }, {
+        isTransient: response.status >= 500,
+      });
+    }
+
+    const { instanceId } = await response.json() as { instanceId: string };
+    return instanceId;
+  }
+}
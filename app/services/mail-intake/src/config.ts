@@ -0,0 +1,28 @@
+/**
+ * Mail intake configuration
+ */
+
+import { getOptionalEnv, getRequiredEnv } from '@order-processing/shared';
+
+export interface MailIntakeConfig {
+  /** Shared mailbox address, used by the Graph source and as the reply sender */
+  mailbox: string;
+  tenantId: string;
+  defaultRepUserId: string;
+  /** Maildir root; when set, it replaces the Graph mailbox */
+  maildir?: string;
+  pollIntervalMs: number;
+}
+
+/**
+ * Load the configuration from the environment
+ */
+export function loadConfig(): MailIntakeConfig {
+  return {
+    mailbox: getRequiredEnv('MAIL_INTAKE_MAILBOX', 'string'),
+    tenantId: getRequiredEnv('MAIL_INTAKE_TENANT_ID', 'string'),
+    defaultRepUserId: getRequiredEnv('MAIL_INTAKE_DEFAULT_REP', 'string'),
+    maildir: getOptionalEnv('MAIL_INTAKE_MAILDIR', 'string'),
+    pollIntervalMs: getOptionalEnv('MAIL_INTAKE_POLL_INTERVAL_MS', 'number', 60_000) ?? 60_000,
+  };
+}
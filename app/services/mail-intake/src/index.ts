@@ -0,0 +1,33 @@
+/**
+ * Mail Intake Service
+ *
+ * Entry point for the shared mailbox intake of emailed orders.
+ * Exports all public APIs and types.
+ */
+
+// Service
+export {
+  MailIntakeService,
+  getEmailCaseId,
+  type MailIntakeServiceConfig,
+  type MailIntakeDependencies,
+} from './intake-service.js';
+export { loadConfig, type MailIntakeConfig } from './config.js';
+
+// Routing
+export { SenderDomainMap, getSenderDomain } from './sender-domains.js';
+export { SPREADSHEET_EXTENSIONS, getExtension, getSpreadsheetAttachments } from './spreadsheets.js';
+
+// Mail sources
+export { GraphMailSource, type GraphMailSourceConfig } from './sources/graph-mail-source.js';
+export { MaildirMailSource, type MaildirSourceConfig } from './sources/maildir-source.js';
+export { parseMail, formatMail, type ParsedMail, type OutgoingMail } from './sources/mime.js';
+
+// Stores and clients
+export { BlobOriginalStore } from './stores/blob-original-store.js';
+export { CosmosCaseStore } from './stores/cosmos-case-store.js';
+export { HttpWorkflowStarter } from './clients/workflow-starter.js';
+export { TeamsRepNotifier, createEmailOrderCard } from './clients/teams-notifier.js';
+
+// Types
+export * from './types.js';
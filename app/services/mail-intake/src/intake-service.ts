@@ -0,0 +1,339 @@
+/**
+ * Mail intake service
+ *
+ * Polls the shared order mailbox and turns each spreadsheet attachment into
+ * a case, the same way a file uploaded to the Teams bot is:
+ *
+ *   1. Store the file at orders-incoming/{caseId}/original.{ext}
+ *   2. Create the case, with the sender domain's customer as default customer
+ *   3. Start orderProcessingWorkflow
+ *
+ * Then the customer gets an acknowledgement reply and the sales rep of the
+ * sender domain a Teams notification. A message whose files all failed is
+ * left unread and retried on the next poll. Case IDs are derived from the
+ * message and the attachment's position in it, and case creation and workflow
+ * start accept an existing case or workflow, so a retry continues the case of
+ * the earlier attempt instead of creating a duplicate.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Logger, logger as rootLogger } from '@order-processing/shared';
+import {
+  EmailCaseResult,
+  ICaseStore,
+  IMailSource,
+  IOriginalStore,
+  IRepNotifier,
+  IWorkflowStarter,
+  MailAttachment,
+  MailMessage,
+  MessageIntakeResult,
+  SenderDomainRule,
+} from './types.js';
+import { SenderDomainMap } from './sender-domains.js';
+import { getSpreadsheetAttachments } from './spreadsheets.js';
+
+export interface MailIntakeServiceConfig {
+  /** Tenant the cases are created in */
+  tenantId: string;
+  /** Sales rep of senders without a rule, or whose rule names no rep */
+  defaultRepUserId: string;
+  /** Poll interval for start() */
+  pollIntervalMs?: number;
+}
+
+export interface MailIntakeDependencies {
+  source: IMailSource;
+  originals: IOriginalStore;
+  cases: ICaseStore;
+  workflows: IWorkflowStarter;
+  notifier: IRepNotifier;
+  senderDomains?: SenderDomainMap;
+  logger?: Logger;
+}
+
+interface FailedAttachment {
+  fileName: string;
+  error: string;
+}
+
+export class MailIntakeService {
+  private readonly config: MailIntakeServiceConfig;
+  private readonly deps: MailIntakeDependencies;
+  private readonly senderDomains: SenderDomainMap;
+  private readonly logger: Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<MessageIntakeResult[]> | null = null;
+
+  constructor(config: MailIntakeServiceConfig, deps: MailIntakeDependencies) {
+    this.config = config;
+    this.deps = deps;
+    this.senderDomains = deps.senderDomains ?? new SenderDomainMap();
+    this.logger = (deps.logger ?? rootLogger).child({ service: 'mail-intake' });
+  }
+
+  /**
+   * Poll the mailbox every pollIntervalMs until stop() is called
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = () => {
+      this.pollOnce().catch(error => {
+        this.logger.error('Mailbox poll failed', error instanceof Error ? error : undefined);
+      });
+    };
+
+    poll();
+    this.timer = setInterval(poll, this.config.pollIntervalMs ?? 60_000);
+  }
+
+  /**
+   * Stop polling, waiting for a poll in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.polling?.catch(() => undefined);
+  }
+
+  /**
+   * Process the new messages of the mailbox once
+   * Overlapping calls share the poll in progress.
+   */
+  pollOnce(): Promise<MessageIntakeResult[]> {
+    if (!this.polling) {
+      this.polling = this.processNewMessages().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  private async processNewMessages(): Promise<MessageIntakeResult[]> {
+    const messages = await this.deps.source.listNewMessages();
+    const results: MessageIntakeResult[] = [];
+
+    for (const message of messages) {
+      results.push(await this.processMessage(message));
+    }
+
+    return results;
+  }
+
+  /**
+   * Process one message
+   */
+  async processMessage(message: MailMessage): Promise<MessageIntakeResult> {
+    const log = this.logger.child({ messageId: message.id, sender: message.from.address });
+    const result: MessageIntakeResult = {
+      messageId: message.id,
+      sender: message.from.address,
+      status: 'processed',
+      cases: [],
+    };
+
+    const spreadsheets = getSpreadsheetAttachments(message.attachments);
+    if (spreadsheets.length === 0) {
+      // Not an order; leave it for a human, but do not look at it again
+      log.info('Message has no spreadsheet attachment, skipping', {
+        attachmentCount: message.attachments.length,
+      });
+      await this.deps.source.markProcessed(message);
+      return { ...result, status: 'ignored' };
+    }
+
+    const rule = this.senderDomains.match(message.from.address);
+    const repUserId = rule?.salesRepUserId || this.config.defaultRepUserId;
+    if (!rule) {
+      log.warn('No sender domain rule, routing to the default sales rep');
+    }
+
+    const failed: FailedAttachment[] = [];
+    for (const [index, attachment] of spreadsheets.entries()) {
+      try {
+        result.cases.push(await this.createCase(message, attachment, index, rule, repUserId, log));
+      } catch (error) {
+        log.error('Failed to create case from attachment', error instanceof Error ? error : undefined, {
+          fileName: attachment.name,
+        });
+        failed.push({
+          fileName: attachment.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (result.cases.length === 0) {
+      // Nothing was created: leave the message unread for the next poll
+      return {
+        ...result,
+        status: 'failed',
+        error: failed.map(f => `${f.fileName}: ${f.error}`).join('; '),
+      };
+    }
+
+    await this.acknowledge(message, result.cases, failed, log);
+    await this.notifyRep(message, result.cases, rule, repUserId, log);
+    await this.deps.source.markProcessed(message);
+
+    if (failed.length > 0) {
+      result.error = failed.map(f => `${f.fileName}: ${f.error}`).join('; ');
+    }
+
+    log.info('Email order received', {
+      caseIds: result.cases.map(c => c.caseId),
+      failedCount: failed.length,
+      customerName: rule?.customerName,
+    });
+
+    return result;
+  }
+
+  /**
+   * Store an attachment, create its case and start its workflow
+   * Each step may already have been done by an earlier attempt of the message.
+   */
+  private async createCase(
+    message: MailMessage,
+    attachment: MailAttachment,
+    attachmentIndex: number,
+    rule: SenderDomainRule | null,
+    repUserId: string,
+    log: Logger
+  ): Promise<EmailCaseResult> {
+    const { tenantId } = this.config;
+    const caseId = getEmailCaseId(tenantId, message, attachmentIndex);
+    const correlationId = randomUUID();
+
+    const stored = await this.deps.originals.store(caseId, attachment);
+
+    const now = new Date().toISOString();
+    await this.deps.cases.createCase({
+      id: caseId,
+      tenantId,
+      userId: repUserId,
+      conversationId: '',
+      activityId: message.id,
+      fileName: attachment.name,
+      correlationId,
+      status: 'storing_file',
+      blobUri: stored.blobUri,
+      fileSha256: stored.sha256,
+      defaultCustomer: rule?.customerName,
+      emailIntake: {
+        sender: message.from.address,
+        subject: message.subject,
+        internetMessageId: message.internetMessageId,
+        receivedAt: message.receivedAt,
+      },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const workflowId = await this.deps.workflows.start({
+      caseId,
+      blobUrl: stored.blobUri,
+      tenantId,
+      userId: repUserId,
+      correlationId,
+    });
+
+    log.info('Case created from email attachment', {
+      caseId,
+      workflowId,
+      fileName: attachment.name,
+      size: stored.size,
+    });
+
+    return { caseId, fileName: attachment.name, workflowId };
+  }
+
+  /**
+   * Reply to the customer with the references of their orders
+   * Failures are logged only: the cases exist, so the message must not be retried.
+   */
+  private async acknowledge(
+    message: MailMessage,
+    cases: EmailCaseResult[],
+    failed: FailedAttachment[],
+    log: Logger
+  ): Promise<void> {
+    const lines = [
+      'Thank you for your order. We have received the following files:',
+      '',
+      ...cases.map(c => `  ${c.fileName} (reference ${c.caseId})`),
+    ];
+    if (failed.length > 0) {
+      lines.push(
+        '',
+        'The following files could not be processed. Our sales team will contact you about them:',
+        '',
+        ...failed.map(f => `  ${f.fileName}`)
+      );
+    }
+    lines.push('', 'Please quote the reference when contacting us about this order.');
+
+    try {
+      await this.deps.source.reply(message, { text: lines.join('\n') });
+    } catch (error) {
+      log.error('Failed to send acknowledgement', error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Tell the sales rep about each new case
+   */
+  private async notifyRep(
+    message: MailMessage,
+    cases: EmailCaseResult[],
+    rule: SenderDomainRule | null,
+    repUserId: string,
+    log: Logger
+  ): Promise<void> {
+    for (const created of cases) {
+      try {
+        await this.deps.notifier.notifyNewOrder(
+          { tenantId: this.config.tenantId, userId: repUserId },
+          {
+            caseId: created.caseId,
+            fileName: created.fileName,
+            sender: message.from,
+            subject: message.subject,
+            customerName: rule?.customerName,
+          }
+        );
+      } catch (error) {
+        log.warn('Failed to notify sales rep', {
+          caseId: created.caseId,
+          repUserId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Case ID of the nth spreadsheet of a message, the same on every attempt
+ * Keyed by the Message-ID header (the mailbox's own ID for messages without
+ * one) and formatted as a UUID like the case IDs of Teams uploads.
+ */
+export function getEmailCaseId(tenantId: string, message: MailMessage, attachmentIndex: number): string {
+  const hash = createHash('sha256')
+    .update(`${tenantId}\n${message.internetMessageId || message.id}\n${attachmentIndex}`)
+    .digest('hex');
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    `8${hash.slice(13, 16)}`,
+    `${variant}${hash.slice(17, 20)}`,
+    hash.slice(20, 32),
+  ].join('-');
+}
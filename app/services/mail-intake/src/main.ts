@@ -0,0 +1,53 @@
+/**
+ * Mail intake process
+ *
+ * Polls the shared mailbox until stopped. Set MAIL_INTAKE_MAILDIR to read a
+ * local maildir instead of the Graph mailbox.
+ */
+
+import { logger } from '@order-processing/shared';
+import { loadConfig } from './config.js';
+import { MailIntakeService } from './intake-service.js';
+import { GraphMailSource } from './sources/graph-mail-source.js';
+import { MaildirMailSource } from './sources/maildir-source.js';
+import { BlobOriginalStore } from './stores/blob-original-store.js';
+import { CosmosCaseStore } from './stores/cosmos-case-store.js';
+import { HttpWorkflowStarter } from './clients/workflow-starter.js';
+import { TeamsRepNotifier } from './clients/teams-notifier.js';
+
+const config = loadConfig();
+
+const source = config.maildir
+  ? new MaildirMailSource({ root: config.maildir, mailboxAddress: config.mailbox })
+  : new GraphMailSource({ mailbox: config.mailbox });
+
+const service = new MailIntakeService(
+  {
+    tenantId: config.tenantId,
+    defaultRepUserId: config.defaultRepUserId,
+    pollIntervalMs: config.pollIntervalMs,
+  },
+  {
+    source,
+    originals: new BlobOriginalStore(),
+    cases: new CosmosCaseStore(),
+    workflows: new HttpWorkflowStarter(),
+    notifier: new TeamsRepNotifier(),
+  }
+);
+
+logger.info('Mail intake started', {
+  mailbox: config.mailbox,
+  source: config.maildir ? 'maildir' : 'graph',
+  pollIntervalMs: config.pollIntervalMs,
+});
+service.start();
+
+const shutdown = async () => {
+  await service.stop();
+  logger.info('Mail intake stopped');
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,81 @@
+/**
+ * Sender domain routing
+ *
+ * Maps the domain of an email sender to the Zoho customer the order is
+ * most likely for, and to the sales rep handling that customer. Rules are
+ * loaded from the MAIL_SENDER_DOMAINS environment variable, a JSON array
+ * such as:
+ *
+ *   [{ "domain": "acme.example", "customerName": "ACME Trading",
+ *      "salesRepUserId": "5b0c..." }]
+ *
+ * A rule also matches subdomains, so "acme.example" covers
+ * "eu.acme.example". The most specific rule wins.
+ */
+
+import { ConfigurationError } from '@order-processing/shared';
+import { SenderDomainRule } from './types.js';
+
+/**
+ * Get the lower-cased domain of an email address
+ */
+export function getSenderDomain(address: string): string | null {
+  const at = address.lastIndexOf('@');
+  if (at < 0 || at === address.length - 1) {
+    return null;
+  }
+  return address.slice(at + 1).trim().toLowerCase();
+}
+
+export class SenderDomainMap {
+  private rules: Map<string, SenderDomainRule>;
+
+  constructor(rules: SenderDomainRule[] = SenderDomainMap.loadFromEnv()) {
+    this.rules = new Map(rules.map(rule => [rule.domain.toLowerCase(), rule]));
+  }
+
+  /**
+   * Get the rule of a sender address, trying its domain then each parent domain
+   * Returns null for unknown senders.
+   */
+  match(address: string): SenderDomainRule | null {
+    const domain = getSenderDomain(address);
+    if (!domain) {
+      return null;
+    }
+
+    const labels = domain.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const rule = this.rules.get(labels.slice(i).join('.'));
+      if (rule) {
+        return rule;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse MAIL_SENDER_DOMAINS
+   */
+  static loadFromEnv(raw = process.env.MAIL_SENDER_DOMAINS): SenderDomainRule[] {
+    if (!raw) {
+      return [];
+    }
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new ConfigurationError('MAIL_SENDER_DOMAINS must be a JSON array');
+    }
+
+    return parsed.map((entry: SenderDomainRule, index: number) => {
+      if (!entry?.domain || entry.domain.includes('@')) {
+        throw new ConfigurationError(`MAIL_SENDER_DOMAINS entry ${index} has no valid domain`, { entry });
+      }
+      if (!entry.customerName) {
+        throw new ConfigurationError(`MAIL_SENDER_DOMAINS entry ${index} has no customerName`, { entry });
+      }
+      return entry;
+    });
+  }
+}
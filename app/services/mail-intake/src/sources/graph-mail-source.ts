@@ -0,0 +1,136 @@
+/**
+ * Microsoft Graph mail source
+ *
+ * Reads unread messages of the shared order mailbox's inbox. A message is
+ * marked read once processed, so a failed message is retried on the next
+ * poll. Requires the Mail.ReadWrite and Mail.Send application permissions,
+ * ideally scoped to the mailbox with an application access policy.
+ */
+
+import { DefaultAzureCredential, TokenCredential } from '@azure/identity';
+import { ExternalServiceError } from '@order-processing/shared';
+import { IMailSource, MailAttachment, MailMessage, MailReply } from '../types.js';
+
+const GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+const GRAPH_SCOPE = 'https://graph.microsoft.com/.default';
+
+export interface GraphMailSourceConfig {
+  /** Address or ID of the shared mailbox */
+  mailbox: string;
+  /** Messages fetched per poll */
+  batchSize?: number;
+  credential?: TokenCredential;
+}
+
+interface GraphMessage {
+  id: string;
+  internetMessageId?: string;
+  subject?: string;
+  receivedDateTime: string;
+  hasAttachments: boolean;
+  from?: { emailAddress: { name?: string; address: string } };
+}
+
+interface GraphAttachment {
+  '@odata.type': string;
+  name: string;
+  contentType?: string;
+  contentBytes?: string;
+}
+
+export class GraphMailSource implements IMailSource {
+  private readonly mailboxPath: string;
+  private readonly batchSize: number;
+  private readonly credential: TokenCredential;
+
+  constructor(config: GraphMailSourceConfig) {
+    this.mailboxPath = `${GRAPH_BASE_URL}/users/${encodeURIComponent(config.mailbox)}`;
+    this.batchSize = config.batchSize ?? 25;
+    this.credential = config.credential ?? new DefaultAzureCredential();
+  }
+
+  async listNewMessages(): Promise<MailMessage[]> {
+    const query = new URLSearchParams({
+      $filter: 'isRead eq false',
+      $orderby: 'receivedDateTime asc',
+      $top: String(this.batchSize),
+      $select: 'id,internetMessageId,subject,receivedDateTime,hasAttachments,from',
+    });
+    const { value } = await this.request<{ value: GraphMessage[] }>(
+      'GET',
+      `/mailFolders/inbox/messages?${query}`
+    );
+
+    const messages: MailMessage[] = [];
+    for (const message of value) {
+      messages.push({
+        id: message.id,
+        internetMessageId: message.internetMessageId,
+        subject: message.subject ?? '',
+        from: message.from?.emailAddress ?? { address: '' },
+        receivedAt: message.receivedDateTime,
+        attachments: message.hasAttachments ? await this.getAttachments(message.id) : [],
+      });
+    }
+
+    return messages;
+  }
+
+  async markProcessed(message: MailMessage): Promise<void> {
+    await this.request('PATCH', `/messages/${encodeURIComponent(message.id)}`, { isRead: true });
+  }
+
+  async reply(message: MailMessage, reply: MailReply): Promise<void> {
+    await this.request('POST', `/messages/${encodeURIComponent(message.id)}/reply`, { comment: reply.text });
+  }
+
+  /**
+   * Get the file attachments of a message
+   * Item attachments (forwarded messages) and reference attachments (links to
+   * OneDrive) carry no content and are skipped.
+   */
+  private async getAttachments(messageId: string): Promise<MailAttachment[]> {
+    const { value } = await this.request<{ value: GraphAttachment[] }>(
+      'GET',
+      `/messages/${encodeURIComponent(messageId)}/attachments`
+    );
+
+    return value.flatMap(attachment =>
+      attachment['@odata.type'] === '#microsoft.graph.fileAttachment' && attachment.contentBytes
+        ? [{
+          name: attachment.name,
+          contentType: attachment.contentType ?? 'application/octet-stream',
+          content: Buffer.from(attachment.contentBytes, 'base64'),
+        }]
+        : []
+    );
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const token = await this.credential.getToken(GRAPH_SCOPE);
+    if (!token) {
+      throw new ExternalServiceError('graph', 'Failed to acquire Graph token');
+    }
+
+    const response = await fetch(`${this.mailboxPath}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token.token}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new ExternalServiceError('graph', `Graph ${method} ${path.split('?')[0]} failed: ${response.status}`, {
+        status: response.status,
+      }, {
+        isTransient: response.status === 429 || response.status >= 500,
+      });
+    }
+
+    // PATCH returns the message, reply returns 202 with no body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
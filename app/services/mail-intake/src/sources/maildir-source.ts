@@ -0,0 +1,82 @@
+/**
+ * Maildir mail source
+ *
+ * Local stand-in for the shared mailbox, for development and tests. New
+ * messages are read from {root}/new, processed messages are moved to
+ * {root}/cur with the Seen flag, and replies are written to
+ * {root}/.Sent/new so they can be inspected.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { IMailSource, MailMessage, MailReply } from '../types.js';
+import { parseMail, formatMail } from './mime.js';
+
+export interface MaildirSourceConfig {
+  /** Maildir root, holding new/, cur/ and tmp/ */
+  root: string;
+  /** Address replies are sent from */
+  mailboxAddress: string;
+}
+
+export class MaildirMailSource implements IMailSource {
+  private readonly root: string;
+  private readonly mailboxAddress: string;
+
+  constructor(config: MaildirSourceConfig) {
+    this.root = config.root;
+    this.mailboxAddress = config.mailboxAddress;
+  }
+
+  async listNewMessages(): Promise<MailMessage[]> {
+    const newDir = path.join(this.root, 'new');
+    await fs.mkdir(newDir, { recursive: true });
+
+    const names = (await fs.readdir(newDir)).filter(name => !name.startsWith('.')).sort();
+    const messages: MailMessage[] = [];
+
+    for (const name of names) {
+      const filePath = path.join(newDir, name);
+      const [raw, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+      const mail = parseMail(raw);
+
+      messages.push({
+        id: name,
+        internetMessageId: mail.messageId,
+        subject: mail.subject,
+        from: mail.from,
+        receivedAt: mail.date ?? stats.mtime.toISOString(),
+        attachments: mail.attachments,
+      });
+    }
+
+    return messages;
+  }
+
+  async markProcessed(message: MailMessage): Promise<void> {
+    const curDir = path.join(this.root, 'cur');
+    await fs.mkdir(curDir, { recursive: true });
+    await fs.rename(path.join(this.root, 'new', message.id), path.join(curDir, `${message.id}:2,S`));
+  }
+
+  async reply(message: MailMessage, reply: MailReply): Promise<void> {
+    const sentDir = path.join(this.root, '.Sent');
+    await Promise.all(['tmp', 'new'].map(dir => fs.mkdir(path.join(sentDir, dir), { recursive: true })));
+
+    const id = randomUUID();
+    const content = formatMail({
+      from: this.mailboxAddress,
+      to: message.from,
+      subject: /^re:/i.test(message.subject) ? message.subject : `Re: ${message.subject}`,
+      text: reply.text,
+      messageId: `<${id}@${this.mailboxAddress.split('@').pop()}>`,
+      inReplyTo: message.internetMessageId,
+    });
+
+    // Write to tmp/ then move, so readers never see a partial message
+    const fileName = `${Date.now()}.${id}`;
+    await fs.writeFile(path.join(sentDir, 'tmp', fileName), content);
+    await fs.rename(path.join(sentDir, 'tmp', fileName), path.join(sentDir, 'new', fileName));
+  }
+}
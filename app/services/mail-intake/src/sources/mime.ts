@@ -0,0 +1,251 @@
+/**
+ * Minimal RFC 5322 / MIME reader and writer
+ *
+ * Enough of MIME to read the messages a mail client drops in a maildir:
+ * folded headers, nested multipart bodies, base64 and quoted-printable
+ * transfer encodings, RFC 2047 encoded words and RFC 2231 file names.
+ * Used by the maildir stand-in only; the Graph source gets parsed messages.
+ */
+
+import { MailAddress, MailAttachment } from '../types.js';
+
+export interface MimePart {
+  headers: Map<string, string>;
+  body: Buffer;
+}
+
+export interface ParsedMail {
+  headers: Map<string, string>;
+  subject: string;
+  from: MailAddress;
+  messageId?: string;
+  date?: string;
+  attachments: MailAttachment[];
+}
+
+/**
+ * Parse a raw message into its headers and attachments
+ */
+export function parseMail(raw: Buffer): ParsedMail {
+  const root = parsePart(raw);
+  const attachments: MailAttachment[] = [];
+  collectAttachments(root, attachments);
+
+  const date = root.headers.get('date');
+  const parsedDate = date ? new Date(date) : undefined;
+
+  return {
+    headers: root.headers,
+    subject: decodeWords(root.headers.get('subject') ?? ''),
+    from: parseAddress(decodeWords(root.headers.get('from') ?? '')),
+    messageId: root.headers.get('message-id'),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : undefined,
+    attachments,
+  };
+}
+
+/**
+ * Split a part into headers and raw body
+ */
+function parsePart(raw: Buffer): MimePart {
+  const text = raw.toString('latin1');
+  const match = /\r?\n\r?\n/.exec(text);
+  const headerText = match ? text.slice(0, match.index) : text;
+  const bodyStart = match ? match.index + match[0].length : text.length;
+
+  const headers = new Map<string, string>();
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim());
+      }
+    }
+  }
+
+  return { headers, body: raw.subarray(bodyStart) };
+}
+
+/**
+ * Walk a part tree and collect parts with a file name
+ */
+function collectAttachments(part: MimePart, attachments: MailAttachment[]): void {
+  const contentType = part.headers.get('content-type') ?? 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = getParameter(contentType, 'boundary');
+    if (!boundary) {
+      return;
+    }
+    for (const child of splitMultipart(part.body, boundary)) {
+      collectAttachments(parsePart(child), attachments);
+    }
+    return;
+  }
+
+  const name = getParameter(part.headers.get('content-disposition') ?? '', 'filename')
+    ?? getParameter(contentType, 'name');
+  if (!name) {
+    return;
+  }
+
+  attachments.push({
+    name: decodeWords(name),
+    contentType: mediaType,
+    content: decodeBody(part.body, part.headers.get('content-transfer-encoding')),
+  });
+}
+
+/**
+ * Split a multipart body on its boundary, dropping preamble and epilogue
+ */
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+
+  let start = text.indexOf(delimiter);
+  while (start >= 0) {
+    const contentStart = text.indexOf('\n', start);
+    if (contentStart < 0 || text.startsWith(`${delimiter}--`, start)) {
+      break;
+    }
+
+    const next = text.indexOf(`\n${delimiter}`, contentStart);
+    const contentEnd = next < 0 ? text.length : next;
+    const content = text.slice(contentStart + 1, contentEnd).replace(/\r$/, '');
+    parts.push(Buffer.from(content, 'latin1'));
+
+    start = next < 0 ? -1 : next + 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Decode a body by its Content-Transfer-Encoding
+ */
+function decodeBody(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const unwrapped = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Get a parameter of a structured header, such as the boundary of a
+ * Content-Type or the filename of a Content-Disposition
+ * Supports RFC 2231 extended values (filename*=utf-8''...).
+ */
+export function getParameter(header: string, name: string): string | undefined {
+  const pattern = new RegExp(`;\\s*${name}(\\*)?\\s*=\\s*("([^"]*)"|[^;\\s]+)`, 'i');
+  const match = pattern.exec(header);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = match[3] ?? match[2];
+  if (!match[1]) {
+    return value;
+  }
+
+  const [charset, , encoded] = value.split("'");
+  if (encoded === undefined) {
+    return value;
+  }
+  const bytes = encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString(toBufferEncoding(charset));
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?utf-8?B?...?=)
+ */
+export function decodeWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return bytes.toString(toBufferEncoding(charset));
+    });
+}
+
+function toBufferEncoding(charset: string): BufferEncoding {
+  return /^utf-?8$/i.test(charset) ? 'utf8' : 'latin1';
+}
+
+/**
+ * Parse a From header ("Name <address>" or a bare address)
+ */
+export function parseAddress(value: string): MailAddress {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>/.exec(value);
+  if (match) {
+    return { name: match[1] || undefined, address: match[2].trim() };
+  }
+  return { address: value.trim() };
+}
+
+/**
+ * Encode a header value, using an encoded word when it is not ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?utf-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export interface OutgoingMail {
+  from: string;
+  to: MailAddress;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  date?: Date;
+}
+
+/**
+ * Write a plain text message
+ */
+export function formatMail(mail: OutgoingMail): string {
+  const to = mail.to.name ? `${encodeHeader(mail.to.name)} <${mail.to.address}>` : mail.to.address;
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${(mail.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${mail.messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${mail.inReplyTo}`, `References: ${mail.inReplyTo}`] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+
+  const body = Buffer.from(mail.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
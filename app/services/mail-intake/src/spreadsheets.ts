@@ -0,0 +1,30 @@
+/**
+ * Spreadsheet attachment filter
+ */
+
+import { MailAttachment } from './types.js';
+
+/**
+ * File extensions taken from emails (.xls is let through so the parser can
+ * return a clear "save as .xlsx" error)
+ */
+export const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'ods', 'csv', 'tsv'];
+
+/**
+ * Get the lower-cased extension of a file name
+ */
+export function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot < 0 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Get the attachments of a message that are order spreadsheets
+ * Empty files are skipped: some clients attach a zero-byte placeholder when
+ * a cloud attachment could not be downloaded.
+ */
+export function getSpreadsheetAttachments(attachments: MailAttachment[]): MailAttachment[] {
+  return attachments.filter(attachment =>
+    SPREADSHEET_EXTENSIONS.includes(getExtension(attachment.name)) && attachment.content.length > 0
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Blob storage of emailed order files
+ *
+ * Stores attachments exactly where the Teams bot stores uploaded files
+ * (orders-incoming/{caseId}/original.{ext}, with the same content types and
+ * metadata), so the workflow's store-file step finds them the same way.
+ */
+
+import { BlobServiceClient } from '@azure/storage-blob';
+import { DefaultAzureCredential } from '@azure/identity';
+import { createHash } from 'crypto';
+import { ConfigurationError } from '@order-processing/shared';
+import { IOriginalStore, MailAttachment, StoredOriginal } from '../types.js';
+import { getExtension } from '../spreadsheets.js';
+
+const BLOB_CONTENT_TYPES: Record<string, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+};
+
+export class BlobOriginalStore implements IOriginalStore {
+  private blobServiceClient: BlobServiceClient;
+  private containerName: string;
+
+  constructor() {
+    const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
+    if (!accountName) {
+      throw new ConfigurationError('AZURE_STORAGE_ACCOUNT_NAME environment variable is required');
+    }
+
+    this.containerName = process.env.AZURE_STORAGE_CONTAINER_INCOMING || 'orders-incoming';
+    this.blobServiceClient = new BlobServiceClient(
+      `https://${accountName}.blob.core.windows.net`,
+      new DefaultAzureCredential()
+    );
+  }
+
+  async store(caseId: string, attachment: MailAttachment): Promise<StoredOriginal> {
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    await containerClient.createIfNotExists();
+
+    const extension = getExtension(attachment.name) || 'xlsx';
+    const blockBlobClient = containerClient.getBlockBlobClient(`${caseId}/original.${extension}`);
+
+    await blockBlobClient.upload(attachment.content, attachment.content.length, {
+      blobHTTPHeaders: {
+        blobContentType: BLOB_CONTENT_TYPES[extension] ?? 'application/octet-stream',
+      },
+      metadata: {
+        originalFileName: attachment.name,
+        caseId,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    return {
+      blobUri: blockBlobClient.url,
+      sha256: createHash('sha256').update(attachment.content).digest('hex'),
+      size: attachment.content.length,
+    };
+  }
+}
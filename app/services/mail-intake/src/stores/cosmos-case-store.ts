@@ -0,0 +1,46 @@
+/**
+ * Cosmos DB case store
+ *
+ * Writes emailed order cases to the same 'cases' container as the Teams bot.
+ */
+
+import { CosmosClient, Container } from '@azure/cosmos';
+import { DefaultAzureCredential } from '@azure/identity';
+import { ConfigurationError } from '@order-processing/shared';
+import { EmailCaseDocument, ICaseStore } from '../types.js';
+
+export class CosmosCaseStore implements ICaseStore {
+  private container: Container;
+
+  constructor() {
+    const endpoint = process.env.COSMOS_ENDPOINT;
+    const key = process.env.COSMOS_KEY;
+    const databaseId = process.env.COSMOS_DATABASE || 'order-processing';
+
+    if (!endpoint) {
+      throw new ConfigurationError('COSMOS_ENDPOINT environment variable is required');
+    }
+
+    // Use managed identity if no key provided, otherwise use key-based auth
+    const client = new CosmosClient(
+      key ? { endpoint, key } : { endpoint, aadCredentials: new DefaultAzureCredential() }
+    );
+    this.container = client.database(databaseId).container('cases');
+  }
+
+  async createCase(caseDoc: EmailCaseDocument): Promise<void> {
+    try {
+      const { resource } = await this.container.items.create(caseDoc);
+
+      if (!resource) {
+        throw new Error('Failed to create case document - no resource returned');
+      }
+    } catch (error) {
+      // Conflict - created by an earlier attempt of the same message
+      if ((error as { code?: number }).code === 409) {
+        return;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Mail Intake - Type Definitions
+ *
+ * Messages of the shared order mailbox, the sources that read them and the
+ * services an emailed order is handed to.
+ */
+
+// ==================== Mail ====================
+
+export interface MailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface MailAttachment {
+  name: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  /** ID within the source (Graph message ID, or maildir file name) */
+  id: string;
+  /** RFC 5322 Message-ID header */
+  internetMessageId?: string;
+  subject: string;
+  from: MailAddress;
+  receivedAt: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailReply {
+  text: string;
+}
+
+/**
+ * A mailbox to take orders from
+ */
+export interface IMailSource {
+  /** Messages not yet processed, with their attachments */
+  listNewMessages(): Promise<MailMessage[]>;
+  /** Mark a message as processed so it is not taken again */
+  markProcessed(message: MailMessage): Promise<void>;
+  /** Reply to the sender of a message */
+  reply(message: MailMessage, reply: MailReply): Promise<void>;
+}
+
+// ==================== Routing ====================
+
+/**
+ * Customer and sales rep of a sender domain
+ */
+export interface SenderDomainRule {
+  /** Domain of the sender's address; subdomains match too */
+  domain: string;
+  /** Zoho customer name, used when the file names no customer */
+  customerName: string;
+  /** AAD object ID of the sales rep handling the customer */
+  salesRepUserId?: string;
+}
+
+// ==================== Cases ====================
+
+/**
+ * Case document written for an emailed order
+ * Same shape as the cases the Teams bot creates, plus the email it came from
+ */
+export interface EmailCaseDocument {
+  id: string;
+  tenantId: string;
+  /** The assigned sales rep */
+  userId: string;
+  conversationId: string;
+  activityId: string;
+  fileName: string;
+  correlationId: string;
+  status: 'storing_file';
+  blobUri: string;
+  fileSha256: string;
+  defaultCustomer?: string;
+  emailIntake: {
+    sender: string;
+    subject: string;
+    internetMessageId?: string;
+    receivedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredOriginal {
+  blobUri: string;
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Blob storage of original files
+ */
+export interface IOriginalStore {
+  store(caseId: string, attachment: MailAttachment): Promise<StoredOriginal>;
+}
+
+/**
+ * Case persistence
+ */
+export interface ICaseStore {
+  /** Create a case; a case that already exists (a retried message) is left as it is */
+  createCase(caseDoc: EmailCaseDocument): Promise<void>;
+}
+
+export interface StartWorkflowInput {
+  caseId: string;
+  blobUrl: string;
+  tenantId: string;
+  userId: string;
+  correlationId: string;
+}
+
+/**
+ * Starts orderProcessingWorkflow for a case
+ */
+export interface IWorkflowStarter {
+  /** Start the case's workflow and return its ID, also when it was already started */
+  start(input: StartWorkflowInput): Promise<string>;
+}
+
+/**
+ * Notification of a sales rep in Teams
+ */
+export interface IRepNotifier {
+  notifyNewOrder(rep: { tenantId: string; userId: string }, order: EmailOrderNotice): Promise<void>;
+}
+
+export interface EmailOrderNotice {
+  caseId: string;
+  fileName: string;
+  sender: MailAddress;
+  subject: string;
+  customerName?: string;
+}
+
+// ==================== Results ====================
+
+export interface EmailCaseResult {
+  caseId: string;
+  fileName: string;
+  workflowId: string;
+}
+
+export interface MessageIntakeResult {
+  messageId: string;
+  sender: string;
+  /** 'ignored' when the message has no spreadsheet attachment */
+  status: 'processed' | 'ignored' | 'failed';
+  cases: EmailCaseResult[];
+  error?: string;
+}
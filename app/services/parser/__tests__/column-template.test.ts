@@ -0,0 +1,87 @@
+/**
+ * Tests for remembered per-customer column mappings
+ */
+
+import { Workbook } from 'exceljs';
+import { parseExcel } from '../src/parser';
+import { computeHeaderFingerprint } from '../src/schema-inference';
+import { ColumnTemplate } from '../src/types';
+
+const baseOptions = {
+  caseId: 'case-123',
+  filename: 'order.xlsx',
+  fileSha256: 'abc123'
+};
+
+/**
+ * A layout the dictionary maps wrongly: "Code" is the customer's SKU and
+ * "Ref" is an internal reference
+ */
+function buildWorkbook(): Workbook {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet('Order');
+  worksheet.addRow(['Customer', 'Ref', 'Code', 'Product Name', 'Quantity']);
+  worksheet.addRow(['Acme Corp', 'R-1', 'SKU-001', 'Widget', 4]);
+  worksheet.addRow(['Acme Corp', 'R-2', 'SKU-002', 'Bolt', 6]);
+  worksheet.addRow(['Acme Corp', 'R-3', 'SKU-003', 'Nut', 8]);
+  return workbook;
+}
+
+function buildTemplate(fingerprint: string): ColumnTemplate {
+  return {
+    template_id: 'tpl-1',
+    header_fingerprint: fingerprint,
+    column_mappings: [
+      { canonical_field: 'customer', source_column: 'A', source_header: 'Customer' },
+      { canonical_field: 'sku', source_column: 'C', source_header: 'Code', method: 'manual' },
+      { canonical_field: 'product_name', source_column: 'D', source_header: 'Product Name' },
+      { canonical_field: 'quantity', source_column: 'E', source_header: 'Quantity' }
+    ]
+  };
+}
+
+describe('column templates', () => {
+  it('should record the header fingerprint on every parse', async () => {
+    const workbook = buildWorkbook();
+
+    const result = await parseExcel(workbook, baseOptions);
+
+    expect(result.schema_inference?.header_fingerprint).toBe(
+      computeHeaderFingerprint(workbook.getWorksheet('Order')!, 1)
+    );
+    expect(result.schema_inference?.template_id).toBeUndefined();
+  });
+
+  it('should change the fingerprint when the layout changes', () => {
+    const workbook = buildWorkbook();
+    const other = new Workbook();
+    other.addWorksheet('Order').addRow(['Customer', 'Code', 'Ref', 'Product Name', 'Quantity']);
+
+    expect(computeHeaderFingerprint(other.getWorksheet('Order')!, 1)).not.toBe(
+      computeHeaderFingerprint(workbook.getWorksheet('Order')!, 1)
+    );
+  });
+
+  it('should use template mappings when the fingerprint matches', async () => {
+    const workbook = buildWorkbook();
+    const fingerprint = computeHeaderFingerprint(workbook.getWorksheet('Order')!, 1);
+
+    const result = await parseExcel(workbook, { ...baseOptions, columnTemplate: buildTemplate(fingerprint) });
+
+    const skuMapping = result.schema_inference?.column_mappings.find(m => m.canonical_field === 'sku');
+    expect(result.schema_inference?.template_id).toBe('tpl-1');
+    expect(skuMapping).toMatchObject({ source_column: 'C', method: 'manual', confidence: 1 });
+    expect(result.schema_inference?.column_mappings.find(m => m.canonical_field === 'quantity')?.method).toBe('template');
+    expect(result.line_items.map(item => item.sku)).toEqual(['SKU-001', 'SKU-002', 'SKU-003']);
+  });
+
+  it('should ignore a template for a different layout', async () => {
+    const result = await parseExcel(buildWorkbook(), {
+      ...baseOptions,
+      columnTemplate: buildTemplate('0000000000000000')
+    });
+
+    expect(result.schema_inference?.template_id).toBeUndefined();
+    expect(result.schema_inference?.column_mappings.every(m => m.method !== 'template')).toBe(true);
+  });
+});
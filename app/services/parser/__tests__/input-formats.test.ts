@@ -0,0 +1,188 @@
+/**
+ * Tests for CSV/TSV/ODS input support
+ */
+
+import JSZip from 'jszip';
+import { Workbook } from 'exceljs';
+import { decodeText } from '../src/formats/encoding';
+import { sniffDelimiter, parseDelimited } from '../src/formats/delimited';
+import { detectInputFormat, loadWorkbook } from '../src/formats';
+import { parseSpreadsheetBuffer } from '../src';
+
+const baseOptions = {
+  caseId: 'case-123',
+  fileSha256: 'abc123'
+};
+
+const CSV_ORDER = [
+  'Customer,SKU,Product Name,Quantity,Unit Price',
+  'Acme Corp,SKU-001,"Widget, large",10,25.5',
+  'Acme Corp,SKU-002,"Bolt ""M8""",5,1.2',
+  'Acme Corp,SKU-003,Nut,100,0.1'
+].join('\r\n');
+
+async function buildOds(rowsXml: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet');
+  zip.file(
+    'content.xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+      'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" ' +
+      'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0">' +
+      '<office:body><office:spreadsheet><table:table table:name="Orders">' +
+      rowsXml +
+      '</table:table></office:spreadsheet></office:body></office:document-content>'
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function odsCell(value: string | number, formula?: string): string {
+  const formulaAttr = formula ? ` table:formula="${formula}"` : '';
+  if (typeof value === 'number') {
+    return `<table:table-cell office:value-type="float" office:value="${value}"${formulaAttr}><text:p>${value}</text:p></table:table-cell>`;
+  }
+  return `<table:table-cell office:value-type="string"><text:p>${value}</text:p></table:table-cell>`;
+}
+
+describe('decodeText', () => {
+  it('should decode UTF-16 LE with BOM', () => {
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('SKU\tQty\n', 'utf16le')]);
+
+    const result = decodeText(buffer);
+
+    expect(result.encoding).toBe('utf-16le');
+    expect(result.hadBom).toBe(true);
+    expect(result.text).toBe('SKU\tQty\n');
+  });
+
+  it('should detect UTF-16 LE without BOM', () => {
+    const result = decodeText(Buffer.from('Customer,SKU,Quantity\nAcme,A-1,5\n', 'utf16le'));
+
+    expect(result.encoding).toBe('utf-16le');
+    expect(result.text.startsWith('Customer,SKU')).toBe(true);
+  });
+
+  it('should detect Windows-1256 Farsi text', () => {
+    // "کالا,تعداد" (item, quantity) in Windows-1256
+    const buffer = Buffer.from([0x98, 0xc7, 0xe1, 0xc7, 0x2c, 0xca, 0xda, 0xcf, 0xc7, 0xcf, 0x0a]);
+
+    const result = decodeText(buffer);
+
+    expect(result.encoding).toBe('windows-1256');
+    expect(result.text).toBe('کالا,تعداد\n');
+  });
+
+  it('should keep valid UTF-8 as UTF-8', () => {
+    const result = decodeText(Buffer.from('کالا,تعداد\n', 'utf8'));
+
+    expect(result.encoding).toBe('utf-8');
+    expect(result.text).toBe('کالا,تعداد\n');
+  });
+});
+
+describe('delimited text', () => {
+  it('should sniff semicolon and tab delimiters', () => {
+    expect(sniffDelimiter('SKU;Qty;Price\nA;1;2,5\nB;2;3,5')).toBe(';');
+    expect(sniffDelimiter('SKU\tQty\nA\t1\nB\t2')).toBe('\t');
+    expect(sniffDelimiter(CSV_ORDER)).toBe(',');
+  });
+
+  it('should handle quoted fields with delimiters, quotes and newlines', () => {
+    const rows = parseDelimited('a,"b, c","d ""e""","multi\nline"\n', ',');
+
+    expect(rows).toEqual([['a', 'b, c', 'd "e"', 'multi\nline']]);
+  });
+});
+
+describe('detectInputFormat', () => {
+  it('should distinguish ods, xlsx, xls and text', async () => {
+    const ods = await buildOds(`<table:table-row>${odsCell('SKU')}</table:table-row>`);
+    const workbook = new Workbook();
+    workbook.addWorksheet('Sheet1').addRow(['SKU']);
+    const xlsx = Buffer.from(await workbook.xlsx.writeBuffer());
+    const xls = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00]);
+
+    expect(await detectInputFormat(ods)).toBe('ods');
+    expect(await detectInputFormat(xlsx)).toBe('xlsx');
+    expect(await detectInputFormat(xls)).toBe('xls');
+    expect(await detectInputFormat(Buffer.from('a\tb'), 'order.tsv')).toBe('tsv');
+    expect(await detectInputFormat(Buffer.from('a,b'), 'order.csv')).toBe('csv');
+  });
+
+  it('should reject legacy .xls with a clear error', async () => {
+    const xls = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00]);
+
+    await expect(loadWorkbook(xls, { filename: 'order.xls' })).rejects.toThrow(/not supported/);
+  });
+});
+
+describe('parseSpreadsheetBuffer', () => {
+  it('should parse a CSV order with synthetic A1 evidence', async () => {
+    const result = await parseSpreadsheetBuffer(Buffer.from(CSV_ORDER, 'utf8'), {
+      ...baseOptions,
+      filename: 'order.csv'
+    });
+
+    expect(result.meta.parsing?.input_format).toBe('csv');
+    expect(result.meta.parsing?.source_encoding).toBe('utf-8');
+    expect(result.customer.input_name).toBe('Acme Corp');
+    expect(result.line_items).toHaveLength(3);
+    expect(result.line_items[0].product_name).toBe('Widget, large');
+    expect(result.line_items[0].quantity).toBe(10);
+    expect(result.line_items[0].evidence.quantity?.sheet).toBe('order');
+    expect(result.line_items[0].evidence.quantity?.cell).toBe('D2');
+  });
+
+  it('should parse a UTF-16 tab-separated order', async () => {
+    const tsv = CSV_ORDER.replace(/"Widget, large"/, 'Widget large').replace(/"Bolt ""M8"""/, 'Bolt').replace(/,/g, '\t');
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(tsv, 'utf16le')]);
+
+    const result = await parseSpreadsheetBuffer(buffer, { ...baseOptions, filename: 'order.tsv' });
+
+    expect(result.meta.parsing?.input_format).toBe('tsv');
+    expect(result.meta.parsing?.source_encoding).toBe('utf-16le');
+    expect(result.line_items).toHaveLength(3);
+    expect(result.line_items[2].sku).toBe('SKU-003');
+  });
+
+  it('should parse an ODS order and keep repeated cells in position', async () => {
+    const header = ['Customer', 'SKU', 'Product Name', 'Quantity', 'Unit Price'].map(v => odsCell(v)).join('');
+    const line = (sku: string, qty: number) =>
+      `<table:table-row>${odsCell('Acme Corp')}${odsCell(sku)}${odsCell('Widget')}${odsCell(qty)}${odsCell(2.5)}` +
+      '<table:table-cell table:number-columns-repeated="16379"/></table:table-row>';
+    const ods = await buildOds(
+      `<table:table-row>${header}</table:table-row>` +
+        line('SKU-001', 4) +
+        line('SKU-002', 6) +
+        line('SKU-003', 8) +
+        '<table:table-row table:number-rows-repeated="1048570"><table:table-cell table:number-columns-repeated="16384"/></table:table-row>'
+    );
+
+    const result = await parseSpreadsheetBuffer(ods, { ...baseOptions, filename: 'order.ods' });
+
+    expect(result.meta.parsing?.input_format).toBe('ods');
+    expect(result.line_items).toHaveLength(3);
+    expect(result.line_items[1].quantity).toBe(6);
+    expect(result.line_items[1].evidence.quantity?.cell).toBe('D3');
+  });
+
+  it('should block ODS formulas under the strict policy', async () => {
+    const header = ['SKU', 'Quantity', 'Unit Price', 'Total'].map(v => odsCell(v)).join('');
+    const ods = await buildOds(
+      `<table:table-row>${header}</table:table-row>` +
+        `<table:table-row>${odsCell('SKU-001')}${odsCell(2)}${odsCell(5)}${odsCell(10, 'of:=[.B2]*[.C2]')}</table:table-row>`
+    );
+
+    const loaded = await loadWorkbook(ods, { filename: 'order.ods' });
+    const cell = loaded.workbook.getWorksheet('Orders')!.getCell('D2');
+    expect(cell.formula).toBe('B2*C2');
+
+    const result = await parseSpreadsheetBuffer(ods, {
+      ...baseOptions,
+      filename: 'order.ods',
+      config: { formulaPolicy: 'strict' }
+    });
+    expect(result.issues.some(issue => issue.code === 'FORMULAS_BLOCKED')).toBe(true);
+  });
+});
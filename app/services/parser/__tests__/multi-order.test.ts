@@ -0,0 +1,95 @@
+/**
+ * Tests for multi-order workbook splitting
+ */
+
+import { Workbook, Worksheet } from 'exceljs';
+import { parseExcelMultiOrder, splitOrderCaseId } from '../src/multi-order';
+
+const baseOptions = {
+  caseId: 'case-123',
+  filename: 'branches.xlsx',
+  fileSha256: 'abc123'
+};
+
+function addOrderSheet(
+  workbook: Workbook,
+  name: string,
+  rows: Array<[string, string, string, number, number]>
+): Worksheet {
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.addRow(['Customer', 'SKU', 'Product Name', 'Quantity', 'Unit Price']);
+  rows.forEach(row => worksheet.addRow(row));
+  return worksheet;
+}
+
+function branchRows(customer: string, count: number): Array<[string, string, string, number, number]> {
+  return Array.from({ length: count }, (_, i) => [customer, `SKU-${i + 1}`, `Product ${i + 1}`, i + 1, 10 + i]);
+}
+
+describe('parseExcelMultiOrder', () => {
+  it('should return a single unsplit order when mode is off', async () => {
+    const workbook = new Workbook();
+    addOrderSheet(workbook, 'Tehran', branchRows('Acme Tehran', 6));
+    addOrderSheet(workbook, 'Dubai', branchRows('Acme Dubai', 6));
+
+    const result = await parseExcelMultiOrder(workbook, baseOptions);
+
+    expect(result.orders).toHaveLength(1);
+    expect(result.orders[0].meta.case_id).toBe('case-123');
+    expect(result.orders[0].meta.split).toBeUndefined();
+  });
+
+  it('should split every qualifying sheet into its own order', async () => {
+    const workbook = new Workbook();
+    addOrderSheet(workbook, 'Tehran', branchRows('Acme Tehran', 6));
+    addOrderSheet(workbook, 'Dubai', branchRows('Acme Dubai', 5));
+
+    const result = await parseExcelMultiOrder(workbook, {
+      ...baseOptions,
+      config: { multiOrderMode: 'per_sheet' }
+    });
+
+    expect(result.parent_case_id).toBe('case-123');
+    expect(result.orders).toHaveLength(2);
+    expect(result.orders.map(o => o.meta.case_id)).toEqual(['case-123-1', 'case-123-2']);
+    expect(result.orders.map(o => o.meta.split?.sheet)).toEqual(['Tehran', 'Dubai']);
+    expect(result.orders[1].line_items).toHaveLength(5);
+    expect(result.orders[1].customer.input_name).toBe('Acme Dubai');
+    expect(result.orders[0].meta.split?.order_count).toBe(2);
+  });
+
+  it('should split customer blocks within a sheet', async () => {
+    const workbook = new Workbook();
+    addOrderSheet(workbook, 'Orders', [...branchRows('Acme Tehran', 4), ...branchRows('Acme Dubai', 3)]);
+
+    const result = await parseExcelMultiOrder(workbook, {
+      ...baseOptions,
+      config: { multiOrderMode: 'per_customer_block' }
+    });
+
+    expect(result.orders).toHaveLength(2);
+    expect(result.orders[0].customer.input_name).toBe('Acme Tehran');
+    expect(result.orders[0].line_items).toHaveLength(4);
+    expect(result.orders[1].customer.input_name).toBe('Acme Dubai');
+    expect(result.orders[1].meta.split?.source_rows).toEqual({ first: 6, last: 8 });
+  });
+
+  it('should keep the parent case ID when only one order is found', async () => {
+    const workbook = new Workbook();
+    addOrderSheet(workbook, 'Orders', branchRows('Acme Tehran', 6));
+
+    const result = await parseExcelMultiOrder(workbook, {
+      ...baseOptions,
+      config: { multiOrderMode: 'per_customer_block' }
+    });
+
+    expect(result.orders).toHaveLength(1);
+    expect(result.orders[0].meta.case_id).toBe('case-123');
+    expect(result.orders[0].meta.split).toBeUndefined();
+  });
+
+  it('should derive child case IDs from the order index', () => {
+    expect(splitOrderCaseId('case-123', 0)).toBe('case-123-1');
+    expect(splitOrderCaseId('case-123', 4)).toBe('case-123-5');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for PDF purchase-order intake
+ */
+
+import { parsePdf, isPdfBuffer, LocalOcrEngine } from '../src/pdf';
+
+const baseOptions = {
+  caseId: 'case-123',
+  filename: 'po.pdf',
+  fileSha256: 'abc123'
+};
+
+type TextRun = [x: number, y: number, text: string];
+
+/**
+ * Build a minimal uncompressed PDF with Helvetica text runs
+ * (coordinates in PDF points, origin bottom-left). An empty page has no
+ * text layer, like a scan.
+ */
+function buildPdf(pages: TextRun[][]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add('');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  const kids: number[] = [];
+  for (const runs of pages) {
+    const content = runs.map(([x, y, text]) => `BT /F1 10 Tf ${x} ${y} Td (${text}) Tj ET`).join('\n');
+    const contentId = add(`<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`);
+    kids.push(
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ` +
+          `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    );
+  }
+  objects[1] = `<< /Type /Pages /Kids [${kids.map(k => `${k} 0 R`).join(' ')}] /Count ${kids.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function tableRuns(top: number, rows: string[][]): TextRun[] {
+  const columns = [50, 160, 260, 400, 480];
+  return rows.flatMap((cells, rowIndex) =>
+    cells.map((text, colIndex) => [columns[colIndex], top - rowIndex * 18, text] as TextRun)
+  );
+}
+
+const HEADER = ['Customer', 'SKU', 'Description', 'Quantity', 'Unit Price'];
+
+describe('parsePdf', () => {
+  it('should extract line items from a text-based PDF with page evidence', async () => {
+    const pdf = buildPdf([
+      [
+        [50, 800, 'PURCHASE ORDER PO-7781'],
+        ...tableRuns(760, [
+          HEADER,
+          ['Acme Corp', 'SKU-001', 'Widget large', '10', '25.50'],
+          ['Acme Corp', 'SKU-002', 'Bolt M8', '5', '1.20'],
+          ['Acme Corp', 'SKU-003', 'Nut', '100', '0.10']
+        ])
+      ]
+    ]);
+
+    expect(isPdfBuffer(pdf)).toBe(true);
+
+    const result = await parsePdf(pdf, baseOptions);
+
+    expect(result.meta.parsing?.input_format).toBe('pdf');
+    expect(result.meta.parsing?.sheets_processed).toEqual(['Page 1']);
+    expect(result.customer.input_name).toBe('Acme Corp');
+    expect(result.line_items).toHaveLength(3);
+    expect(result.line_items[1].sku).toBe('SKU-002');
+    expect(result.line_items[1].quantity).toBe(5);
+
+    const evidence = result.line_items[1].evidence.quantity!;
+    expect(evidence.page).toBe(1);
+    expect(evidence.sheet).toBe('Page 1');
+    expect(evidence.bbox?.x).toBe(400);
+    // Top-left origin: baseline 724pt from the bottom, 10pt text
+    expect(evidence.bbox?.y).toBe(842 - 724 - 10);
+    expect(evidence.cell).toBe(`${evidence.bbox!.x},${evidence.bbox!.y},${evidence.bbox!.width},${evidence.bbox!.height}`);
+  });
+
+  it('should join tables across pages and drop repeated headers', async () => {
+    const pdf = buildPdf([
+      tableRuns(760, [HEADER, ['Acme Corp', 'SKU-001', 'Widget', '4', '2.50'], ['Acme Corp', 'SKU-002', 'Bolt', '6', '1.00']]),
+      tableRuns(760, [HEADER, ['Acme Corp', 'SKU-003', 'Nut', '8', '0.50']])
+    ]);
+
+    const result = await parsePdf(pdf, baseOptions);
+
+    expect(result.meta.parsing?.sheets_processed).toEqual(['Page 1', 'Page 2']);
+    expect(result.line_items.map(item => item.sku)).toEqual(['SKU-001', 'SKU-002', 'SKU-003']);
+    expect(result.line_items[2].evidence.sku?.page).toBe(2);
+  });
+
+  it('should OCR pages without a text layer', async () => {
+    const pdf = buildPdf([[]]);
+    const ocrEngine = new LocalOcrEngine({
+      1: [
+        'Customer     SKU       Description    Quantity   Unit Price',
+        'Acme Corp    SKU-001   Widget         12         3.00',
+        'Acme Corp    SKU-002   Bolt           7          1.50'
+      ]
+    });
+
+    const result = await parsePdf(pdf, { ...baseOptions, ocrEngine });
+
+    expect(result.meta.parsing?.ocr_engine).toBe('local');
+    expect(result.meta.parsing?.ocr_pages).toEqual([1]);
+    expect(result.line_items).toHaveLength(2);
+    expect(result.line_items[0].quantity).toBe(12);
+    expect(result.line_items[1].evidence.sku?.page).toBe(1);
+    expect(result.confidence.by_stage?.ocr).toBeCloseTo(0.95);
+    expect(result.issues.some(issue => issue.code === 'OCR_LOW_CONFIDENCE')).toBe(false);
+  });
+
+  it('should warn when OCR confidence is low', async () => {
+    const ocrEngine = new LocalOcrEngine(
+      {
+        1: ['SKU       Quantity', 'SKU-001   3', 'SKU-002   4']
+      },
+      { confidence: 0.6 }
+    );
+
+    const result = await parsePdf(buildPdf([[]]), { ...baseOptions, ocrEngine });
+
+    expect(result.issues.some(issue => issue.code === 'OCR_LOW_CONFIDENCE')).toBe(true);
+  });
+
+  it('should block scanned PDFs when no OCR engine is configured', async () => {
+    const result = await parsePdf(buildPdf([[]]), baseOptions);
+
+    expect(result.line_items).toHaveLength(0);
+    expect(result.issues[0].code).toBe('PDF_OCR_UNAVAILABLE');
+    expect(result.issues[0].severity).toBe('blocker');
+  });
+
+  it('should block unreadable PDFs', async () => {
+    const result = await parsePdf(Buffer.from('%PDF-1.4\nnot really a pdf'), baseOptions);
+
+    expect(result.issues[0].code).toBe('PDF_UNREADABLE');
+  });
+});
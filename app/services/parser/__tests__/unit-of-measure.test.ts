@@ -0,0 +1,115 @@
+/**
+ * Tests for unit of measure detection
+ */
+
+import { Workbook } from 'exceljs';
+import { parseExcel } from '../src/parser';
+import { normalizeUnit, splitQuantityUnit } from '../src/normalizer';
+
+const baseOptions = {
+  caseId: 'case-123',
+  filename: 'order.xlsx',
+  fileSha256: 'abc123'
+};
+
+function buildWorkbook(rows: any[][]): Workbook {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet('Order');
+  for (const row of rows) {
+    worksheet.addRow(row);
+  }
+  return workbook;
+}
+
+describe('unit of measure', () => {
+  describe('normalizeUnit', () => {
+    it('should map English abbreviations', () => {
+      expect(normalizeUnit('CTN')).toBe('carton');
+      expect(normalizeUnit('Dz.')).toBe('dozen');
+      expect(normalizeUnit('pcs')).toBe('piece');
+      expect(normalizeUnit('Box')).toBe('box');
+    });
+
+    it('should map Farsi units including Arabic keyboard spellings', () => {
+      expect(normalizeUnit('کارتن')).toBe('carton');
+      expect(normalizeUnit('كارتن')).toBe('carton');
+      expect(normalizeUnit('دوجین')).toBe('dozen');
+      expect(normalizeUnit('عدد')).toBe('piece');
+    });
+
+    it('should return null for unknown or empty units', () => {
+      expect(normalizeUnit('kg')).toBeNull();
+      expect(normalizeUnit('')).toBeNull();
+      expect(normalizeUnit(12)).toBeNull();
+    });
+  });
+
+  describe('splitQuantityUnit', () => {
+    it('should split a unit written in the quantity cell', () => {
+      expect(splitQuantityUnit('5 ctn')).toEqual({ quantity: 5, unit: 'carton' });
+      expect(splitQuantityUnit('۱۰ کارتن')).toEqual({ quantity: 10, unit: 'carton' });
+    });
+
+    it('should leave plain numbers without a unit', () => {
+      expect(splitQuantityUnit(7)).toEqual({ quantity: 7, unit: null });
+      expect(splitQuantityUnit('12')).toEqual({ quantity: 12, unit: null });
+    });
+  });
+
+  it('should map a unit column and keep its evidence', async () => {
+    const workbook = buildWorkbook([
+      ['Customer', 'SKU', 'Description', 'Quantity', 'UOM'],
+      ['Acme Corp', 'SKU-001', 'Widget', 2, 'CTN'],
+      ['Acme Corp', 'SKU-002', 'Bolt', 3, 'Dozen']
+    ]);
+
+    const result = await parseExcel(workbook, baseOptions);
+
+    const unitMapping = result.schema_inference?.column_mappings.find(
+      m => m.canonical_field === 'unit'
+    );
+    expect(unitMapping?.source_column).toBe('E');
+    expect(result.line_items.map(item => item.unit)).toEqual(['carton', 'dozen']);
+    expect(result.line_items[0].evidence.unit?.cell).toBe('E2');
+  });
+
+  it('should map a Farsi unit column', async () => {
+    const workbook = buildWorkbook([
+      ['مشتری', 'کد کالا', 'تعداد', 'واحد', 'قیمت واحد'],
+      ['شرکت نمونه', 'SKU-001', 4, 'کارتن', 100]
+    ]);
+
+    const result = await parseExcel(workbook, baseOptions);
+
+    const fields = result.schema_inference?.column_mappings.map(m => m.canonical_field);
+    expect(fields).toEqual(expect.arrayContaining(['quantity', 'unit', 'unit_price']));
+    expect(result.line_items[0].quantity).toBe(4);
+    expect(result.line_items[0].unit).toBe('carton');
+  });
+
+  it('should detect a unit written in the quantity cell', async () => {
+    const workbook = buildWorkbook([
+      ['Customer', 'SKU', 'Qty'],
+      ['Acme Corp', 'SKU-001', '5 ctn'],
+      ['Acme Corp', 'SKU-002', '8']
+    ]);
+
+    const result = await parseExcel(workbook, baseOptions);
+
+    expect(result.line_items[0]).toMatchObject({ quantity: 5, unit: 'carton' });
+    expect(result.line_items[1]).toMatchObject({ quantity: 8, unit: null });
+  });
+
+  it('should flag units it does not recognize', async () => {
+    const workbook = buildWorkbook([
+      ['Customer', 'SKU', 'Quantity', 'Unit'],
+      ['Acme Corp', 'SKU-001', 2, 'pallet']
+    ]);
+
+    const result = await parseExcel(workbook, baseOptions);
+
+    expect(result.line_items[0].unit).toBeNull();
+    expect(result.line_items[0].flags).toContain('UNRECOGNIZED_UNIT');
+    expect(result.issues.map(issue => issue.code)).toContain('UNRECOGNIZED_UNIT');
+  });
+});
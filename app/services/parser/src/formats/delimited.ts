@@ -0,0 +1,167 @@
+/**
+ * Delimited text (CSV/TSV) reader
+ *
+ * Converts a delimited text file into an ExcelJS worksheet so the normal
+ * pipeline (sheet selection, header detection, row extraction) runs
+ * unchanged. Cells are placed at the position they occupy in the file, so
+ * evidence cells get synthetic A1 references (row 3, field 2 -> "B3").
+ *
+ * Quoting follows RFC 4180: fields may be wrapped in double quotes, embedded
+ * quotes are doubled, and quoted fields may contain delimiters and newlines.
+ */
+
+import { Workbook } from 'exceljs';
+
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [',', ';', '\t', '|'];
+
+/**
+ * Number of leading lines inspected when sniffing the delimiter
+ */
+const DELIMITER_SNIFF_LINES = 20;
+
+/**
+ * Plain decimal numbers are stored as numbers so sheet scoring and type
+ * detection see numeric columns. Values with leading zeros (SKUs, GTINs),
+ * thousands separators or currency symbols stay text for the normalizer.
+ */
+const PLAIN_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+/**
+ * Longest numeric string converted to a number; longer digit runs are
+ * identifiers (e.g. GTIN-14) that must not lose precision
+ */
+const MAX_NUMERIC_LENGTH = 12;
+
+/**
+ * Pick the delimiter that splits the leading lines into the most
+ * consistent, non-trivial number of fields.
+ */
+export function sniffDelimiter(text: string, preferred?: Delimiter): Delimiter {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim().length > 0)
+    .slice(0, DELIMITER_SNIFF_LINES);
+
+  let best: { delimiter: Delimiter; score: number } | null = null;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const withDelimiter = counts.filter(c => c > 0);
+    if (withDelimiter.length === 0) continue;
+
+    // Most common field count among lines, and how many lines share it
+    const frequency = new Map<number, number>();
+    withDelimiter.forEach(c => frequency.set(c, (frequency.get(c) ?? 0) + 1));
+    const [modeCount, modeLines] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+
+    const consistency = modeLines / lines.length;
+    let score = consistency * Math.min(modeCount, 10);
+    if (delimiter === preferred) score *= 1.5;
+
+    if (!best || score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best?.delimiter ?? preferred ?? ',';
+}
+
+/**
+ * Split delimited text into rows of raw field strings
+ */
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  // Last line without a trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Build a single-sheet workbook from parsed delimited rows
+ */
+export function buildWorkbookFromRows(rows: string[][], sheetName: string): Workbook {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+
+  rows.forEach((fields, rowIndex) => {
+    fields.forEach((raw, colIndex) => {
+      const value = raw.trim();
+      if (value === '') return;
+
+      worksheet.getRow(rowIndex + 1).getCell(colIndex + 1).value = toTypedCellValue(value);
+    });
+  });
+
+  return workbook;
+}
+
+/**
+ * Convert a text field to a cell value, keeping identifiers as text
+ */
+export function toTypedCellValue(value: string): string | number {
+  if (value.length <= MAX_NUMERIC_LENGTH && PLAIN_NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+function countOutsideQuotes(line: string, delimiter: Delimiter): number {
+  let count = 0;
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+
+  return count;
+}
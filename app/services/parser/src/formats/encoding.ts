@@ -0,0 +1,148 @@
+/**
+ * Text encoding sniffing for delimited files (CSV/TSV)
+ *
+ * ERP exports arrive in whatever encoding the exporting machine used:
+ * - UTF-8 (with or without BOM)
+ * - UTF-16 LE/BE (Excel "Unicode Text" export, usually with BOM)
+ * - Windows-1256 (legacy Farsi/Arabic Windows exports)
+ * - Windows-1252 (legacy Western European exports)
+ *
+ * Detection order: BOM, UTF-16 zero-byte pattern, strict UTF-8, then a
+ * single-byte code page chosen by how many bytes decode to Arabic script.
+ */
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1256' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+  hadBom: boolean;
+}
+
+/**
+ * Number of leading bytes inspected when sniffing UTF-16 without a BOM
+ */
+const UTF16_SNIFF_BYTES = 512;
+
+/**
+ * Share of zero bytes in one byte position that indicates UTF-16
+ */
+const UTF16_ZERO_RATIO = 0.3;
+
+/**
+ * Share of high bytes decoding to Arabic script that selects Windows-1256
+ */
+const ARABIC_SCRIPT_RATIO = 0.5;
+
+const ARABIC_SCRIPT_PATTERN = /[\u0600-\u06FF\u200C\u200D]/;
+
+// Which Windows-1256 high bytes (0x80-0xFF) decode to Arabic script
+let arabicHighByteTable: boolean[] | null = null;
+
+/**
+ * Decode a text file buffer, detecting its encoding unless one is forced
+ */
+export function decodeText(buffer: Buffer, forced?: TextEncodingName): DecodedText {
+  if (forced) {
+    const bomLength = bomLengthFor(buffer, forced);
+    return {
+      text: decodeWith(buffer.subarray(bomLength), forced),
+      encoding: forced,
+      hadBom: bomLength > 0
+    };
+  }
+
+  const bomEncoding = detectBom(buffer);
+  if (bomEncoding) {
+    const bomLength = bomLengthFor(buffer, bomEncoding);
+    return {
+      text: decodeWith(buffer.subarray(bomLength), bomEncoding),
+      encoding: bomEncoding,
+      hadBom: true
+    };
+  }
+
+  const encoding = sniffEncoding(buffer);
+  return {
+    text: decodeWith(buffer, encoding),
+    encoding,
+    hadBom: false
+  };
+}
+
+function detectBom(buffer: Buffer): TextEncodingName | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+function bomLengthFor(buffer: Buffer, encoding: TextEncodingName): number {
+  if (detectBom(buffer) !== encoding) return 0;
+  return encoding === 'utf-8' ? 3 : 2;
+}
+
+function sniffEncoding(buffer: Buffer): TextEncodingName {
+  // UTF-16 without BOM: ASCII characters (digits, delimiters, Latin
+  // headers) leave a zero byte in every other position
+  const sample = buffer.subarray(0, Math.min(buffer.length, UTF16_SNIFF_BYTES));
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    if (oddZeros / pairs >= UTF16_ZERO_RATIO && evenZeros < oddZeros / 4) return 'utf-16le';
+    if (evenZeros / pairs >= UTF16_ZERO_RATIO && oddZeros < evenZeros / 4) return 'utf-16be';
+  }
+
+  if (isValidUtf8(buffer)) {
+    return 'utf-8';
+  }
+
+  return looksLikeArabicCodePage(buffer) ? 'windows-1256' : 'windows-1252';
+}
+
+function isValidUtf8(buffer: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function looksLikeArabicCodePage(buffer: Buffer): boolean {
+  const table = getArabicHighByteTable();
+  let highBytes = 0;
+  let arabic = 0;
+
+  for (const byte of buffer) {
+    if (byte < 0x80) continue;
+    highBytes++;
+    if (table[byte - 0x80]) arabic++;
+  }
+
+  return highBytes > 0 && arabic / highBytes >= ARABIC_SCRIPT_RATIO;
+}
+
+function getArabicHighByteTable(): boolean[] {
+  if (!arabicHighByteTable) {
+    const highBytes = Uint8Array.from({ length: 0x80 }, (_, i) => i + 0x80);
+    const decoded = Array.from(new TextDecoder('windows-1256').decode(highBytes));
+    arabicHighByteTable = decoded.map(char => ARABIC_SCRIPT_PATTERN.test(char));
+  }
+  return arabicHighByteTable;
+}
+
+function decodeWith(buffer: Buffer, encoding: TextEncodingName): string {
+  return new TextDecoder(encoding).decode(buffer);
+}
@@ -0,0 +1,114 @@
+/**
+ * Input format detection
+ *
+ * Turns any supported upload (.xlsx, .ods, .csv, .tsv) into an ExcelJS
+ * workbook so the rest of the parser works on a single abstraction.
+ * Detection is by content first (zip/OLE signatures), then by filename.
+ */
+
+import { Workbook } from 'exceljs';
+import JSZip from 'jszip';
+import { decodeText, TextEncodingName } from './encoding';
+import { Delimiter, sniffDelimiter, parseDelimited, buildWorkbookFromRows } from './delimited';
+import { loadOdsWorkbook, ODS_MIMETYPE } from './ods';
+
+export { decodeText, TextEncodingName, DecodedText } from './encoding';
+export { Delimiter, sniffDelimiter, parseDelimited, buildWorkbookFromRows } from './delimited';
+export { loadOdsWorkbook } from './ods';
+
+export type InputFormat = 'xlsx' | 'ods' | 'csv' | 'tsv' | 'xls';
+
+export interface LoadWorkbookOptions {
+  filename?: string;
+  /**
+   * Force a text encoding for CSV/TSV instead of sniffing
+   */
+  encoding?: TextEncodingName;
+  /**
+   * Force a delimiter for CSV/TSV instead of sniffing
+   */
+  delimiter?: Delimiter;
+}
+
+export interface LoadedWorkbook {
+  workbook: Workbook;
+  format: InputFormat;
+  /**
+   * Detected (or forced) encoding, for delimited text only
+   */
+  encoding?: TextEncodingName;
+  delimiter?: Delimiter;
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/**
+ * Detect the input format of a file buffer
+ */
+export async function detectInputFormat(buffer: Buffer, filename?: string): Promise<InputFormat> {
+  if (startsWith(buffer, ZIP_SIGNATURE)) {
+    const zip = await JSZip.loadAsync(buffer);
+    const mimetype = await zip.file('mimetype')?.async('string');
+    return mimetype?.trim() === ODS_MIMETYPE ? 'ods' : 'xlsx';
+  }
+
+  if (startsWith(buffer, OLE_SIGNATURE)) {
+    return 'xls';
+  }
+
+  return getExtension(filename) === 'tsv' ? 'tsv' : 'csv';
+}
+
+/**
+ * Load a file buffer of any supported format into an ExcelJS workbook
+ */
+export async function loadWorkbook(
+  buffer: Buffer | ArrayBuffer,
+  options: LoadWorkbookOptions = {}
+): Promise<LoadedWorkbook> {
+  const data = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer);
+  const format = await detectInputFormat(data, options.filename);
+
+  switch (format) {
+    case 'xlsx': {
+      const workbook = new Workbook();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await workbook.xlsx.load(data as any);
+      return { workbook, format };
+    }
+
+    case 'ods':
+      return { workbook: await loadOdsWorkbook(data), format };
+
+    case 'xls':
+      throw new Error('Legacy .xls (BIFF) files are not supported; please save the file as .xlsx, .ods or .csv');
+
+    case 'csv':
+    case 'tsv': {
+      const decoded = decodeText(data, options.encoding);
+      const delimiter = options.delimiter ?? sniffDelimiter(decoded.text, format === 'tsv' ? '\t' : undefined);
+      const rows = parseDelimited(decoded.text, delimiter);
+      const workbook = buildWorkbookFromRows(rows, sheetNameFor(options.filename));
+      return { workbook, format, encoding: decoded.encoding, delimiter };
+    }
+  }
+}
+
+function startsWith(buffer: Buffer, signature: number[]): boolean {
+  return buffer.length >= signature.length && signature.every((byte, i) => buffer[i] === byte);
+}
+
+function getExtension(filename: string | undefined): string | undefined {
+  const match = filename?.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match?.[1];
+}
+
+/**
+ * Delimited files have no sheet name; use the file's base name
+ */
+function sheetNameFor(filename: string | undefined): string {
+  const base = filename?.split(/[\\/]/).pop()?.replace(/\.[^.]+$/, '') ?? '';
+  const cleaned = base.replace(/[*?:\\/[\]]/g, '_').slice(0, 31).trim();
+  return cleaned || 'Sheet1';
+}
@@ -0,0 +1,226 @@
+/**
+ * OpenDocument spreadsheet (.ods) reader
+ *
+ * Reads content.xml from the ODS zip and rebuilds each table as an ExcelJS
+ * worksheet, keeping cell positions so evidence references stay valid.
+ * - Typed values (float, currency, percentage, date, boolean) keep their type
+ * - table:formula is preserved as an ExcelJS formula cell so the formula
+ *   policy applies exactly as for .xlsx
+ * - Spanned cells become merged ranges for the row extractor
+ * - Repeated rows/columns are expanded, except for trailing empty filler
+ */
+
+import JSZip from 'jszip';
+import { SaxesParser, SaxesTagPlain } from 'saxes';
+import { Workbook, Worksheet, CellValue } from 'exceljs';
+
+/**
+ * Cap on how many times a non-empty repeated cell or row is expanded
+ */
+const MAX_REPEAT = 1000;
+
+interface CellState {
+  attributes: Record<string, string>;
+  paragraphs: string[];
+  text: string;
+}
+
+export const ODS_MIMETYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+/**
+ * Load an ODS file into an ExcelJS workbook
+ */
+export async function loadOdsWorkbook(buffer: Buffer): Promise<Workbook> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const mimetype = await zip.file('mimetype')?.async('string');
+  if (mimetype && mimetype.trim() !== ODS_MIMETYPE) {
+    throw new Error(`Unsupported OpenDocument type: ${mimetype.trim()}`);
+  }
+
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('Invalid ODS file: content.xml not found');
+  }
+
+  return buildWorkbookFromContentXml(await contentFile.async('string'));
+}
+
+function buildWorkbookFromContentXml(xml: string): Workbook {
+  const workbook = new Workbook();
+  const parser = new SaxesParser();
+
+  let worksheet: Worksheet | null = null;
+  let rowNumber = 0;
+  let colNumber = 0;
+  let rowRepeat = 1;
+  let rowCells: Array<{ col: number; value: CellValue; colSpan: number; rowSpan: number }> = [];
+  let cell: CellState | null = null;
+
+  parser.on('opentag', (node: SaxesTagPlain) => {
+    const attributes = node.attributes as Record<string, string>;
+
+    switch (node.name) {
+      case 'table:table':
+        worksheet = workbook.addWorksheet(uniqueSheetName(workbook, attributes['table:name']));
+        rowNumber = 0;
+        break;
+
+      case 'table:table-row':
+        rowNumber++;
+        colNumber = 0;
+        rowRepeat = parseRepeat(attributes['table:number-rows-repeated']);
+        rowCells = [];
+        break;
+
+      case 'table:table-cell':
+      case 'table:covered-table-cell':
+        cell = { attributes, paragraphs: [], text: '' };
+        break;
+
+      case 'text:s':
+        if (cell) cell.text += ' '.repeat(parseRepeat(attributes['text:c']));
+        break;
+
+      case 'text:tab':
+        if (cell) cell.text += '\t';
+        break;
+
+      case 'text:line-break':
+        if (cell) cell.text += '\n';
+        break;
+    }
+  });
+
+  parser.on('text', (text: string) => {
+    if (cell) cell.text += text;
+  });
+
+  parser.on('closetag', (node: SaxesTagPlain) => {
+    switch (node.name) {
+      case 'text:p':
+        if (cell) {
+          cell.paragraphs.push(cell.text);
+          cell.text = '';
+        }
+        break;
+
+      case 'table:table-cell':
+      case 'table:covered-table-cell': {
+        if (!cell) break;
+        const repeat = parseRepeat(cell.attributes['table:number-columns-repeated']);
+        const value = node.name === 'table:table-cell' ? toCellValue(cell) : null;
+
+        if (value === null) {
+          // Empty (or covered) cells only advance the column
+          colNumber += repeat;
+        } else {
+          for (let i = 0; i < Math.min(repeat, MAX_REPEAT); i++) {
+            colNumber++;
+            rowCells.push({
+              col: colNumber,
+              value,
+              colSpan: parseRepeat(cell.attributes['table:number-columns-spanned']),
+              rowSpan: parseRepeat(cell.attributes['table:number-rows-spanned'])
+            });
+          }
+        }
+        cell = null;
+        break;
+      }
+
+      case 'table:table-row': {
+        if (!worksheet) break;
+        if (rowCells.length === 0) {
+          // Empty filler rows (often repeated ~1M times) only advance the row
+          rowNumber += rowRepeat - 1;
+          break;
+        }
+        const repeat = Math.min(rowRepeat, MAX_REPEAT);
+        for (let r = 0; r < repeat; r++) {
+          writeRow(worksheet, rowNumber + r, rowCells);
+        }
+        rowNumber += repeat - 1;
+        break;
+      }
+
+      case 'table:table':
+        worksheet = null;
+        break;
+    }
+  });
+
+  parser.write(xml).close();
+
+  return workbook;
+}
+
+function writeRow(
+  worksheet: Worksheet,
+  rowNumber: number,
+  cells: Array<{ col: number; value: CellValue; colSpan: number; rowSpan: number }>
+): void {
+  const row = worksheet.getRow(rowNumber);
+
+  for (const { col, value, colSpan, rowSpan } of cells) {
+    row.getCell(col).value = value;
+
+    if (colSpan > 1 || rowSpan > 1) {
+      worksheet.mergeCells(rowNumber, col, rowNumber + rowSpan - 1, col + colSpan - 1);
+    }
+  }
+}
+
+function toCellValue(cell: CellState): CellValue {
+  const attrs = cell.attributes;
+  const text = [...cell.paragraphs, cell.text].filter(p => p.length > 0).join('\n');
+  const valueType = attrs['office:value-type'];
+
+  let value: CellValue;
+  switch (valueType) {
+    case 'float':
+    case 'currency':
+    case 'percentage':
+      value = attrs['office:value'] !== undefined ? Number(attrs['office:value']) : text;
+      break;
+    case 'date':
+      value = attrs['office:date-value'] ? new Date(attrs['office:date-value']) : text;
+      break;
+    case 'boolean':
+      value = attrs['office:boolean-value'] === 'true';
+      break;
+    default:
+      value = text.length > 0 ? text : null;
+  }
+
+  const formula = attrs['table:formula'];
+  if (formula) {
+    // "of:=SUM([.A1:.A3])" -> "SUM(A1:A3)"
+    const expression = formula
+      .replace(/^[a-z]+:=/i, '')
+      .replace(/\[\.([A-Z]+\d+)(?::\.([A-Z]+\d+))?\]/g, (_, from: string, to?: string) => (to ? `${from}:${to}` : from));
+    return { formula: expression, result: value ?? undefined } as CellValue;
+  }
+
+  return value;
+}
+
+function parseRepeat(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : 1;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+/**
+ * ExcelJS rejects duplicate and over-long sheet names
+ */
+function uniqueSheetName(workbook: Workbook, name: string | undefined): string {
+  const base = (name || `Sheet${workbook.worksheets.length + 1}`).replace(/[*?:\\/[\]]/g, '_').slice(0, 31);
+  let candidate = base;
+  let suffix = 2;
+
+  while (workbook.getWorksheet(candidate)) {
+    candidate = `${base.slice(0, 28)}_${suffix++}`;
+  }
+
+  return candidate;
+}
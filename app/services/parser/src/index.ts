@@ -8,9 +8,19 @@
 
 import { Workbook } from 'exceljs';
 import { parseExcel } from './parser';
-import { ParserOptions, ParserConfig, DEFAULT_PARSER_CONFIG, CanonicalSalesOrder } from './types';
+import { parseExcelMultiOrder } from './multi-order';
+import { loadWorkbook, LoadedWorkbook, LoadWorkbookOptions } from './formats';
+import { parsePdf } from './pdf';
+import {
+  ParserOptions,
+  ParserConfig,
+  DEFAULT_PARSER_CONFIG,
+  CanonicalSalesOrder,
+  MultiOrderParseResult
+} from './types';
 
 export { parseExcel } from './parser';
+export { parseExcelMultiOrder, splitOrderCaseId } from './multi-order';
 export * from './types';
 export * from './formula-detector';
 export * from './sheet-selector';
@@ -19,6 +29,8 @@ export * from './schema-inference';
 export * from './row-extractor';
 export * from './normalizer';
 export * from './validator';
+export * from './formats';
+export * from './pdf';
 
 /**
  * Parse an Excel file from a file path
@@ -47,6 +59,37 @@ export async function parseExcelBuffer(
   return parseExcel(workbook, options);
 }
 
+/**
+ * Parse a spreadsheet of any supported format (.xlsx, .ods, .csv, .tsv)
+ * from a buffer. The format is detected from the content and filename.
+ */
+export async function parseSpreadsheetBuffer(
+  buffer: Buffer | ArrayBuffer,
+  options: ParserOptions,
+  formatOptions: Omit<LoadWorkbookOptions, 'filename'> = {}
+): Promise<CanonicalSalesOrder> {
+  const loaded = await loadWorkbook(buffer, { ...formatOptions, filename: options.filename });
+
+  return annotateInputFormat(await parseExcel(loaded.workbook, options), loaded);
+}
+
+/**
+ * Parse a spreadsheet that may contain several orders from a buffer
+ * (see ParserConfig.multiOrderMode). Accepts every format supported by
+ * parseSpreadsheetBuffer.
+ */
+export async function parseExcelMultiOrderBuffer(
+  buffer: Buffer | ArrayBuffer,
+  options: ParserOptions,
+  formatOptions: Omit<LoadWorkbookOptions, 'filename'> = {}
+): Promise<MultiOrderParseResult> {
+  const loaded = await loadWorkbook(buffer, { ...formatOptions, filename: options.filename });
+  const result = await parseExcelMultiOrder(loaded.workbook, options);
+
+  result.orders.forEach(order => annotateInputFormat(order, loaded));
+  return result;
+}
+
 /**
  * Parse an Excel file from a stream
  */
@@ -62,9 +105,23 @@ export async function parseExcelStream(
   return parseExcel(workbook, options);
 }
 
+function annotateInputFormat(order: CanonicalSalesOrder, loaded: LoadedWorkbook): CanonicalSalesOrder {
+  if (loaded.format !== 'xlsx' && order.meta.parsing) {
+    order.meta.parsing.input_format = loaded.format;
+    if (loaded.encoding) {
+      order.meta.parsing.source_encoding = loaded.encoding;
+    }
+  }
+  return order;
+}
+
 export default {
   parseExcel,
+  parseExcelMultiOrder,
   parseExcelFile,
   parseExcelBuffer,
-  parseExcelStream
+  parseSpreadsheetBuffer,
+  parseExcelMultiOrderBuffer,
+  parseExcelStream,
+  parsePdf
 };
@@ -0,0 +1,233 @@
+/**
+ * Multi-order workbook splitting
+ *
+ * Some customers send one workbook with a sheet per ship-to branch, or a
+ * single sheet with consecutive blocks for different customers. Depending on
+ * config.multiOrderMode, every qualifying sheet (and optionally every
+ * customer block within a sheet) becomes its own CanonicalSalesOrder with a
+ * derived case ID, so downstream stages can process them independently.
+ *
+ * Sheets are emitted in workbook order so order indexes are stable across
+ * re-parses of the same file.
+ */
+
+import { Workbook, Worksheet } from 'exceljs';
+import {
+  CanonicalSalesOrder,
+  Customer,
+  DEFAULT_PARSER_CONFIG,
+  EvidenceCell,
+  Issue,
+  MultiOrderParseResult,
+  ParserConfig,
+  ParserOptions
+} from './types';
+import {
+  parseExcel,
+  checkFormulas,
+  createEmptyOrder,
+  readWorksheetTable,
+  buildOrderFromRows,
+  WorksheetParseContext,
+  WorksheetTable
+} from './parser';
+import { selectBestSheet } from './sheet-selector';
+import { extractCustomer, ExtractedRowWithFlags } from './row-extractor';
+
+interface OrderSlice {
+  worksheet: Worksheet;
+  table: WorksheetTable;
+  rows: ExtractedRowWithFlags[];
+  customer: Customer;
+  context: WorksheetParseContext;
+}
+
+interface CustomerBlock {
+  name: string | null;
+  evidence?: EvidenceCell;
+  rows: ExtractedRowWithFlags[];
+}
+
+/**
+ * Case ID for the order at orderIndex (0-based) within a split workbook
+ */
+export function splitOrderCaseId(parentCaseId: string, orderIndex: number): string {
+  return `${parentCaseId}-${orderIndex + 1}`;
+}
+
+/**
+ * Parse a workbook that may contain several orders.
+ *
+ * With multiOrderMode 'off', or when only one order is found, this returns a
+ * single order identical to parseExcel() and keeps the parent case ID.
+ */
+export async function parseExcelMultiOrder(
+  workbook: Workbook,
+  options: ParserOptions
+): Promise<MultiOrderParseResult> {
+  const config: ParserConfig = {
+    ...DEFAULT_PARSER_CONFIG,
+    ...options.config
+  };
+
+  if (config.multiOrderMode === 'off') {
+    return single(options, await parseExcel(workbook, options));
+  }
+
+  const issues: Issue[] = [];
+
+  // Formula policy applies to the whole workbook, not per order
+  const formulaReport = checkFormulas(workbook, config, issues);
+  if (formulaReport.hasFormulas && formulaReport.severity === 'blocker') {
+    return single(options, createEmptyOrder(options, issues, formulaReport.hasFormulas, config));
+  }
+
+  const sheetSelection = selectBestSheet(workbook, {
+    threshold: config.sheetSelectionThreshold,
+    minGap: config.sheetSelectionMinGap
+  });
+
+  const qualifying = new Map(
+    sheetSelection.candidates
+      .filter(c => c.score >= config.sheetSelectionThreshold)
+      .map(c => [c.name, c.score])
+  );
+
+  const slices: OrderSlice[] = [];
+
+  for (const worksheet of workbook.worksheets) {
+    const sheetScore = qualifying.get(worksheet.name);
+    if (sheetScore === undefined) continue;
+
+    const context: WorksheetParseContext = {
+      options,
+      config,
+      issues: [...issues],
+      containsFormulas: formulaReport.hasFormulas,
+      sheetConfidence: sheetScore
+    };
+
+    // A qualifying sheet without a header row cannot be an order on its own
+    const table = readWorksheetTable(worksheet, context);
+    if (!table) continue;
+
+    const blocks = config.multiOrderMode === 'per_customer_block'
+      ? splitCustomerBlocks(table.rows)
+      : [];
+
+    if (blocks.length > 1) {
+      for (const block of blocks) {
+        slices.push({
+          worksheet,
+          table,
+          rows: block.rows,
+          customer: {
+            input_name: block.name,
+            resolution_status: block.name ? 'unresolved' : 'not_found',
+            evidence: block.evidence ? [block.evidence] : []
+          },
+          context
+        });
+      }
+      continue;
+    }
+
+    const customerData = extractCustomer(worksheet, table.headerRow, table.schema.column_mappings);
+    slices.push({
+      worksheet,
+      table,
+      rows: table.rows,
+      customer: {
+        input_name: customerData.value,
+        resolution_status: customerData.value ? 'unresolved' : 'not_found',
+        evidence: customerData.evidence
+      },
+      context
+    });
+  }
+
+  // Nothing (or only one order) to split - fall back to the single-order path
+  if (slices.length === 0) {
+    return single(options, await parseExcel(workbook, options));
+  }
+
+  if (slices.length === 1) {
+    const only = slices[0];
+    return single(
+      options,
+      buildOrderFromRows(only.worksheet, only.table, only.rows, only.customer, only.context)
+    );
+  }
+
+  const orders = slices.map((slice, orderIndex) =>
+    buildOrderFromRows(slice.worksheet, slice.table, slice.rows, slice.customer, slice.context, {
+      case_id: splitOrderCaseId(options.caseId, orderIndex),
+      parent_case_id: options.caseId,
+      order_index: orderIndex,
+      order_count: slices.length,
+      source_rows: sourceRowRange(slice.rows)
+    })
+  );
+
+  return {
+    parent_case_id: options.caseId,
+    orders
+  };
+}
+
+function single(options: ParserOptions, order: CanonicalSalesOrder): MultiOrderParseResult {
+  return {
+    parent_case_id: options.caseId,
+    orders: [order]
+  };
+}
+
+/**
+ * Group consecutive rows by the value in the customer column.
+ * Blank customer cells continue the current block (merged or omitted
+ * repeats), and rows before the first customer value join the first block.
+ */
+function splitCustomerBlocks(rows: ExtractedRowWithFlags[]): CustomerBlock[] {
+  const blocks: CustomerBlock[] = [];
+  let current: CustomerBlock | null = null;
+
+  for (const row of rows) {
+    const customerCell = row.cells['customer'];
+    const name = customerCell?.value !== null && customerCell?.value !== undefined
+      ? String(customerCell.value).trim()
+      : '';
+
+    if (name) {
+      if (current && current.name === null) {
+        // Leading rows without a customer adopt the first name seen
+        current.name = name;
+        current.evidence = customerCell.evidence;
+      } else if (!current || normalizeCustomerKey(current.name) !== normalizeCustomerKey(name)) {
+        current = { name, evidence: customerCell.evidence, rows: [] };
+        blocks.push(current);
+      }
+    }
+
+    if (!current) {
+      current = { name: null, rows: [] };
+      blocks.push(current);
+    }
+
+    current.rows.push(row);
+  }
+
+  return blocks;
+}
+
+function normalizeCustomerKey(name: string | null): string {
+  return (name ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function sourceRowRange(rows: ExtractedRowWithFlags[]): { first: number; last: number } | undefined {
+  if (rows.length === 0) return undefined;
+
+  return {
+    first: Math.min(...rows.map(r => r.rowNumber)),
+    last: Math.max(...rows.map(r => r.rowNumber))
+  };
+}
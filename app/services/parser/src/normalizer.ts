@@ -5,8 +5,26 @@
  * - Normalize SKU (uppercase, trim)
  * - Validate GTIN (check digit)
  * - Handle Persian/Arabic digits (۱۲۳ → 123)
+ * - Detect units of measure (ctn, dozen, کارتن → carton, dozen)
  */
 
+import { UnitOfMeasure } from './types';
+
+// Unit of measure spellings (English and Farsi)
+const UNIT_SYNONYMS: Record<UnitOfMeasure, string[]> = {
+  piece: [
+    'piece', 'pieces', 'pc', 'pcs', 'ea', 'each', 'unit', 'units', 'nos', 'item', 'items',
+    'عدد', 'دانه', 'واحد'
+  ],
+  dozen: ['dozen', 'dozens', 'doz', 'dz', 'دوجین', 'دو جین', 'دوجن'],
+  pack: ['pack', 'packs', 'pk', 'pkt', 'packet', 'packets', 'بسته', 'پاکت'],
+  box: ['box', 'boxes', 'bx', 'جعبه', 'قوطی'],
+  carton: [
+    'carton', 'cartons', 'ctn', 'ctns', 'case', 'cases', 'cs',
+    'کارتن', 'کارتون'
+  ]
+};
+
 export function normalizeNumber(value: any): number | null {
   if (value === null || value === undefined || value === '') {
     return null;
@@ -109,6 +127,55 @@ export function normalizeString(value: any): string | null {
   return str || null;
 }
 
+/**
+ * Map a unit of measure as written in the order to its canonical code.
+ * Returns null for empty or unrecognized units.
+ */
+export function normalizeUnit(value: any): UnitOfMeasure | null {
+  if (value === null || value === undefined || typeof value === 'number') {
+    return null;
+  }
+
+  const unit = String(value)
+    .trim()
+    .toLowerCase()
+    // Arabic keyboard variants of Farsi letters
+    .replace(/ك/g, 'ک')
+    .replace(/ي/g, 'ی')
+    .replace(/\.$/, '')
+    .replace(/\s+/g, ' ');
+
+  if (!unit) {
+    return null;
+  }
+
+  for (const [code, synonyms] of Object.entries(UNIT_SYNONYMS)) {
+    if (synonyms.includes(unit)) {
+      return code as UnitOfMeasure;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split a quantity cell that carries its unit ("5 ctn", "۱۰ کارتن").
+ * Unit is null when the cell holds a plain number or an unrecognized unit.
+ */
+export function splitQuantityUnit(value: any): { quantity: number | null; unit: UnitOfMeasure | null } {
+  if (typeof value === 'string') {
+    const match = convertPersianDigits(value.trim()).match(/^([\d.,'\s]*\d)\s*([^\d\s.,][^\d]*)$/u);
+    if (match) {
+      const unit = normalizeUnit(match[2]);
+      if (unit) {
+        return { quantity: normalizeNumber(match[1]), unit };
+      }
+    }
+  }
+
+  return { quantity: normalizeNumber(value), unit: null };
+}
+
 export function normalizeCurrency(value: any): { amount: number | null; currency: string | null } {
   if (value === null || value === undefined || value === '') {
     return { amount: null, currency: null };
@@ -5,7 +5,7 @@
  * 1. Formula detection (strict by default)
  * 2. Sheet selection (with user choice for ambiguous cases)
  * 3. Header detection
- * 4. Schema inference with synonym dictionaries
+ * 4. Schema inference with synonym dictionaries (or a stored customer template)
  * 5. Row extraction with merged cell handling
  * 6. Normalization (numbers, currencies, SKUs, GTINs)
  * 7. Validation with arithmetic checks
@@ -13,7 +13,7 @@
  * Outputs canonical JSON per SOLUTION_DESIGN.md section 4.8
  */
 
-import { Workbook } from 'exceljs';
+import { Workbook, Worksheet } from 'exceljs';
 import {
   CanonicalSalesOrder,
   ParserOptions,
@@ -23,12 +23,15 @@ import {
   Issue,
   Customer,
   Totals,
-  EvidenceCell
+  EvidenceCell,
+  SchemaInference,
+  FormulaReport,
+  SplitOrderMeta
 } from './types';
 import { detectFormulas } from './formula-detector';
 import { selectBestSheet } from './sheet-selector';
 import { detectHeaderRow } from './header-detector';
-import { inferSchema } from './schema-inference';
+import { inferSchema, inferSchemaFromTemplate, computeHeaderFingerprint } from './schema-inference';
 import { extractRows, extractCustomer, ExtractedRowWithFlags } from './row-extractor';
 import {
   normalizeNumber,
@@ -36,6 +39,8 @@ import {
   normalizeGTIN,
   normalizeString,
   normalizeCurrency,
+  normalizeUnit,
+  splitQuantityUnit,
   detectLanguage
 } from './normalizer';
 import { validate } from './validator';
@@ -55,36 +60,11 @@ export async function parseExcel(
   const issues: Issue[] = [];
 
   // Step 1: Formula detection (strict by default per config)
-  const formulaReport = detectFormulas(workbook, { policy: config.formulaPolicy });
+  const formulaReport = checkFormulas(workbook, config, issues);
 
   if (formulaReport.hasFormulas && formulaReport.severity === 'blocker') {
-    issues.push({
-      code: 'FORMULAS_BLOCKED',
-      severity: 'blocker',
-      message: `Found ${formulaReport.formulaCells.length} formula(s) in spreadsheet. Please export as values only.`,
-      evidence: formulaReport.formulaCells.slice(0, 10).map(fc => ({
-        sheet: fc.sheet,
-        cell: fc.cell,
-        raw_value: fc.formula
-      })),
-      suggested_user_action: 'Export the spreadsheet with values only (no formulas) and upload again'
-    });
-
     // Return early with blocker
     return createEmptyOrder(options, issues, formulaReport.hasFormulas, config);
-  } else if (formulaReport.hasFormulas && formulaReport.severity === 'warning') {
-    // Policy is 'warn' - add warning but continue processing
-    issues.push({
-      code: 'FORMULAS_WARNING',
-      severity: 'warning',
-      message: `Found ${formulaReport.formulaCells.length} formula(s) in spreadsheet. Values will be used but consider exporting without formulas.`,
-      evidence: formulaReport.formulaCells.slice(0, 10).map(fc => ({
-        sheet: fc.sheet,
-        cell: fc.cell,
-        raw_value: fc.formula
-      })),
-      suggested_user_action: 'For best results, export the spreadsheet with values only'
-    });
   }
 
   // Step 2: Sheet selection with ambiguity detection
@@ -131,26 +111,98 @@ export async function parseExcel(
     return createEmptyOrder(options, issues, formulaReport.hasFormulas, config);
   }
 
+  const context: WorksheetParseContext = {
+    options,
+    config,
+    issues,
+    containsFormulas: formulaReport.hasFormulas,
+    sheetConfidence: sheetSelection.confidence
+  };
+
+  // Steps 3-4: Header detection and schema inference
+  const table = readWorksheetTable(worksheet, context);
+  if (!table) {
+    return createEmptyOrder(options, issues, formulaReport.hasFormulas, config);
+  }
+
+  // Step 5: Extract customer
+  const customerData = extractCustomer(worksheet, table.headerRow, table.schema.column_mappings);
+
+  const customer: Customer = {
+    input_name: customerData.value,
+    resolution_status: customerData.value ? 'unresolved' : 'not_found',
+    evidence: customerData.evidence
+  };
+
+  // Steps 6-10: Rows, line items, totals, language and validation
+  return buildOrderFromRows(worksheet, table, table.rows, customer, context);
+}
+
+/**
+ * Shared state for parsing one worksheet into one or more orders
+ */
+export interface WorksheetParseContext {
+  options: ParserOptions;
+  config: ParserConfig;
+  /** Workbook-level issues (formulas, sheet selection) carried into every order */
+  issues: Issue[];
+  containsFormulas: boolean;
+  sheetConfidence: number;
+}
+
+/**
+ * Header, schema and raw rows of a worksheet's order table
+ */
+export interface WorksheetTable {
+  headerRow: number;
+  headerConfidence: number;
+  schema: SchemaInference;
+  rows: ExtractedRowWithFlags[];
+  /** Issues specific to this table (e.g. missing quantity column) */
+  issues: Issue[];
+}
+
+/**
+ * Detect the header row, infer the schema and extract raw rows.
+ * Returns null (and records NO_HEADER_ROW in context.issues) if no header is found.
+ */
+export function readWorksheetTable(
+  worksheet: Worksheet,
+  context: WorksheetParseContext
+): WorksheetTable | null {
   // Step 3: Header detection
   const headerDetection = detectHeaderRow(worksheet);
   if (!headerDetection.headerRow) {
-    issues.push({
+    context.issues.push({
       code: 'NO_HEADER_ROW',
       severity: 'error',
       message: 'Could not detect header row in selected sheet',
       suggested_user_action: 'Please ensure the sheet has a header row with column names'
     });
 
-    return createEmptyOrder(options, issues, formulaReport.hasFormulas, config);
+    return null;
   }
 
-  // Step 4: Schema inference
-  const schema = inferSchema(
-    worksheet,
-    headerDetection.headerRow,
-    sheetSelection.confidence,
-    headerDetection.confidence
-  );
+  // Step 4: Schema inference (or the customer's remembered template)
+  const fingerprint = computeHeaderFingerprint(worksheet, headerDetection.headerRow);
+  const template = context.options.columnTemplate;
+  const schema = template && template.header_fingerprint === fingerprint
+    ? inferSchemaFromTemplate(
+      worksheet,
+      headerDetection.headerRow,
+      template,
+      context.sheetConfidence,
+      headerDetection.confidence
+    )
+    : inferSchema(
+      worksheet,
+      headerDetection.headerRow,
+      context.sheetConfidence,
+      headerDetection.confidence
+    );
+  schema.header_fingerprint = fingerprint;
+
+  const issues: Issue[] = [];
 
   // Check if we have required mappings
   const hasQuantity = schema.column_mappings.some(m => m.canonical_field === 'quantity');
@@ -163,17 +215,28 @@ export async function parseExcel(
     });
   }
 
-  // Step 5: Extract customer
-  const customerData = extractCustomer(worksheet, headerDetection.headerRow, schema.column_mappings);
-
-  const customer: Customer = {
-    input_name: customerData.value,
-    resolution_status: customerData.value ? 'unresolved' : 'not_found',
-    evidence: customerData.evidence
+  return {
+    headerRow: headerDetection.headerRow,
+    headerConfidence: headerDetection.confidence,
+    schema,
+    rows: extractRows(worksheet, headerDetection.headerRow, schema.column_mappings),
+    issues
   };
+}
 
-  // Step 6: Extract rows
-  const extractedRows = extractRows(worksheet, headerDetection.headerRow, schema.column_mappings);
+/**
+ * Build a canonical order from a subset of a worksheet table's rows
+ */
+export function buildOrderFromRows(
+  worksheet: Worksheet,
+  table: WorksheetTable,
+  extractedRows: ExtractedRowWithFlags[],
+  customer: Customer,
+  context: WorksheetParseContext,
+  split?: SplitOrderInfo
+): CanonicalSalesOrder {
+  const { options } = context;
+  const { schema } = table;
 
   // Filter out total rows
   const dataRows = extractedRows.filter(row => !row.isTotal);
@@ -206,10 +269,12 @@ export async function parseExcel(
   schema.column_mappings.forEach(m => headerTexts.push(m.source_header));
   const languageHint = detectLanguage(headerTexts);
 
+  const caseId = split ? split.case_id : options.caseId;
+
   // Step 10: Validate
   const order: CanonicalSalesOrder = {
     meta: {
-      case_id: options.caseId,
+      case_id: caseId,
       tenant_id: options.tenantId,
       received_at: new Date().toISOString(),
       source_filename: options.filename,
@@ -217,9 +282,18 @@ export async function parseExcel(
       language_hint: languageHint,
       parsing: {
         parser_version: options.parserVersion || PARSER_VERSION,
-        contains_formulas: formulaReport.hasFormulas,
-        sheets_processed: [sheetSelection.selectedSheet]
-      }
+        contains_formulas: context.containsFormulas,
+        sheets_processed: [worksheet.name]
+      },
+      ...(split && {
+        split: {
+          parent_case_id: split.parent_case_id,
+          order_index: split.order_index,
+          order_count: split.order_count,
+          sheet: worksheet.name,
+          source_rows: split.source_rows
+        }
+      })
     },
     customer,
     line_items: lineItems,
@@ -228,14 +302,14 @@ export async function parseExcel(
     confidence: {
       overall: schema.confidence,
       by_stage: {
-        sheet_selection: sheetSelection.confidence,
-        header_detection: headerDetection.confidence,
+        sheet_selection: context.sheetConfidence,
+        header_detection: table.headerConfidence,
         column_mapping: schema.confidence
       }
     },
-    issues: [...issues, ...validate({
+    issues: [...context.issues, ...table.issues, ...validate({
       meta: {
-        case_id: options.caseId,
+        case_id: caseId,
         received_at: new Date().toISOString(),
         source_filename: options.filename,
         file_sha256: options.fileSha256
@@ -250,6 +324,53 @@ export async function parseExcel(
   return order;
 }
 
+/**
+ * Identity of one order split out of a multi-order workbook
+ */
+export interface SplitOrderInfo extends Omit<SplitOrderMeta, 'sheet'> {
+  case_id: string;
+}
+
+/**
+ * Run formula detection and record FORMULAS_BLOCKED / FORMULAS_WARNING issues
+ */
+export function checkFormulas(
+  workbook: Workbook,
+  config: ParserConfig,
+  issues: Issue[]
+): FormulaReport {
+  const formulaReport = detectFormulas(workbook, { policy: config.formulaPolicy });
+
+  if (formulaReport.hasFormulas && formulaReport.severity === 'blocker') {
+    issues.push({
+      code: 'FORMULAS_BLOCKED',
+      severity: 'blocker',
+      message: `Found ${formulaReport.formulaCells.length} formula(s) in spreadsheet. Please export as values only.`,
+      evidence: formulaReport.formulaCells.slice(0, 10).map(fc => ({
+        sheet: fc.sheet,
+        cell: fc.cell,
+        raw_value: fc.formula
+      })),
+      suggested_user_action: 'Export the spreadsheet with values only (no formulas) and upload again'
+    });
+  } else if (formulaReport.hasFormulas && formulaReport.severity === 'warning') {
+    // Policy is 'warn' - add warning but continue processing
+    issues.push({
+      code: 'FORMULAS_WARNING',
+      severity: 'warning',
+      message: `Found ${formulaReport.formulaCells.length} formula(s) in spreadsheet. Values will be used but consider exporting without formulas.`,
+      evidence: formulaReport.formulaCells.slice(0, 10).map(fc => ({
+        sheet: fc.sheet,
+        cell: fc.cell,
+        raw_value: fc.formula
+      })),
+      suggested_user_action: 'For best results, export the spreadsheet with values only'
+    });
+  }
+
+  return formulaReport;
+}
+
 function buildLineItem(
   row: ExtractedRowWithFlags,
   index: number,
@@ -270,10 +391,26 @@ function buildLineItem(
   const productName = productNameCell ? normalizeString(productNameCell.value) : null;
   if (productNameCell) evidence.product_name = productNameCell.evidence;
 
+  const flags = [...(row.flags || [])];
+
+  // Quantity cells may carry their unit ("5 ctn")
   const quantityCell = row.cells['quantity'];
-  const quantity = quantityCell ? normalizeNumber(quantityCell.value) : null;
+  const splitQuantity = quantityCell ? splitQuantityUnit(quantityCell.value) : null;
+  const quantity = splitQuantity ? splitQuantity.quantity : null;
   if (quantityCell) evidence.quantity = quantityCell.evidence;
 
+  const unitCell = row.cells['unit'];
+  let unit = unitCell ? normalizeUnit(unitCell.value) : null;
+  if (unit) {
+    evidence.unit = unitCell.evidence;
+  } else if (splitQuantity?.unit) {
+    unit = splitQuantity.unit;
+    evidence.unit = quantityCell.evidence;
+  } else if (unitCell && typeof unitCell.value === 'string' && /\p{L}/u.test(unitCell.value)) {
+    evidence.unit = unitCell.evidence;
+    flags.push('UNRECOGNIZED_UNIT');
+  }
+
   const unitPriceCell = row.cells['unit_price'];
   const unitPrice = unitPriceCell ? normalizeNumber(unitPriceCell.value) : null;
   if (unitPriceCell) evidence.unit_price_source = unitPriceCell.evidence;
@@ -296,11 +433,12 @@ function buildLineItem(
     gtin,
     product_name: productName,
     quantity: quantity ?? 0,
+    unit,
     unit_price_source: unitPrice,
     line_total_source: lineTotal,
     currency,
     evidence,
-    flags: row.flags || []
+    flags
   };
 }
 
@@ -358,7 +496,7 @@ function extractTotals(
   };
 }
 
-function createEmptyOrder(
+export function createEmptyOrder(
   options: ParserOptions,
   issues: Issue[],
   hasFormulas: boolean,
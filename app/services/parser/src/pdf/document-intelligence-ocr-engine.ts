@@ -0,0 +1,109 @@
+/**
+ * Azure AI Document Intelligence OCR engine
+ *
+ * Sends scanned pages to the prebuilt-read model over REST and converts the
+ * returned word polygons (inches, top-left origin) to PDF points.
+ */
+
+import { OcrEngine, OcrRequest, PdfPageText, PdfWord } from './types';
+
+const API_VERSION = '2024-11-30';
+const POINTS_PER_INCH = 72;
+
+export interface DocumentIntelligenceOcrEngineConfig {
+  endpoint: string;
+  apiKey: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+interface AnalyzeOperation {
+  status: 'notStarted' | 'running' | 'succeeded' | 'failed' | 'canceled';
+  error?: { message?: string };
+  analyzeResult?: {
+    pages: Array<{
+      pageNumber: number;
+      width: number;
+      height: number;
+      unit: 'inch' | 'pixel';
+      words?: Array<{ content: string; polygon?: number[]; confidence: number }>;
+    }>;
+  };
+}
+
+export class DocumentIntelligenceOcrEngine implements OcrEngine {
+  readonly name = 'azure-document-intelligence';
+
+  constructor(private readonly config: DocumentIntelligenceOcrEngineConfig) {}
+
+  async recognize(request: OcrRequest): Promise<PdfPageText[]> {
+    const url =
+      `${this.config.endpoint.replace(/\/$/, '')}/documentintelligence/documentModels/prebuilt-read:analyze` +
+      `?api-version=${API_VERSION}&pages=${request.pageNumbers.join(',')}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Ocp-Apim-Subscription-Key': this.config.apiKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ base64Source: request.document.toString('base64') })
+    });
+
+    const operationUrl = response.headers.get('operation-location');
+    if (response.status !== 202 || !operationUrl) {
+      throw new Error(`Document Intelligence analyze failed: ${response.status} ${await response.text()}`);
+    }
+
+    const operation = await this.waitForResult(operationUrl);
+
+    return (operation.analyzeResult?.pages ?? []).map(page => {
+      const scale = page.unit === 'inch' ? POINTS_PER_INCH : 1;
+      return {
+        pageNumber: page.pageNumber,
+        width: page.width * scale,
+        height: page.height * scale,
+        words: (page.words ?? []).flatMap(word => toWord(word, scale)),
+        source: 'ocr' as const
+      };
+    });
+  }
+
+  private async waitForResult(operationUrl: string): Promise<AnalyzeOperation> {
+    const deadline = Date.now() + (this.config.timeoutMs ?? 60000);
+
+    while (Date.now() < deadline) {
+      const response = await fetch(operationUrl, {
+        headers: { 'Ocp-Apim-Subscription-Key': this.config.apiKey }
+      });
+      if (!response.ok) {
+        throw new Error(`Document Intelligence poll failed: ${response.status}`);
+      }
+
+      const operation = (await response.json()) as AnalyzeOperation;
+      if (operation.status === 'succeeded') return operation;
+      if (operation.status === 'failed' || operation.status === 'canceled') {
+        throw new Error(`Document Intelligence analyze ${operation.status}: ${operation.error?.message ?? 'unknown error'}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.pollIntervalMs ?? 1000));
+    }
+
+    throw new Error('Document Intelligence analyze timed out');
+  }
+}
+
+function toWord(word: { content: string; polygon?: number[]; confidence: number }, scale: number): PdfWord[] {
+  if (!word.polygon || word.polygon.length < 8) return [];
+
+  const xs = word.polygon.filter((_, i) => i % 2 === 0).map(v => v * scale);
+  const ys = word.polygon.filter((_, i) => i % 2 === 1).map(v => v * scale);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return [{
+    text: word.content,
+    bbox: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y },
+    confidence: word.confidence
+  }];
+}
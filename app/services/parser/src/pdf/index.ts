@@ -0,0 +1,174 @@
+/**
+ * PDF purchase-order intake
+ *
+ * Alternative entry point to parseExcel for PDF orders:
+ * 1. Text-layer extraction (pdf.js)
+ * 2. OCR for pages without a text layer (pluggable OcrEngine)
+ * 3. Table reconstruction into a worksheet
+ * 4. The standard spreadsheet pipeline (parseExcel)
+ * 5. Evidence remapped from worksheet cells to page + bounding box
+ */
+
+import { parseExcel, createEmptyOrder } from '../parser';
+import { BoundingBox, CanonicalSalesOrder, DEFAULT_PARSER_CONFIG, EvidenceCell, Issue } from '../types';
+import { extractTextLayer } from './text-layer';
+import { buildTableFromPages, PdfCellLocation, PDF_SHEET_NAME } from './table-builder';
+import { PdfPageText, PdfParserOptions } from './types';
+
+export * from './types';
+export { LocalOcrEngine, LocalOcrEngineOptions } from './local-ocr-engine';
+export { DocumentIntelligenceOcrEngine, DocumentIntelligenceOcrEngineConfig } from './document-intelligence-ocr-engine';
+export { extractTextLayer } from './text-layer';
+export { buildTableFromPages, PdfCellLocation, PdfTable } from './table-builder';
+
+/**
+ * Pages with fewer text-layer words than this are treated as scanned
+ */
+const MIN_TEXT_LAYER_WORDS = 3;
+
+/**
+ * Mean OCR word confidence below which a warning is raised
+ */
+const OCR_LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+const PDF_SIGNATURE = '%PDF-';
+
+export function isPdfBuffer(buffer: Buffer): boolean {
+  // The header may be preceded by junk bytes; readers accept it within 1 KB
+  return buffer.subarray(0, 1024).toString('latin1').includes(PDF_SIGNATURE);
+}
+
+/**
+ * Parse a PDF purchase order into a canonical sales order
+ */
+export async function parsePdf(buffer: Buffer, options: PdfParserOptions): Promise<CanonicalSalesOrder> {
+  const config = { ...DEFAULT_PARSER_CONFIG, ...options.config };
+  const issues: Issue[] = [];
+
+  let pages: PdfPageText[];
+  try {
+    pages = await extractTextLayer(buffer);
+  } catch (error) {
+    issues.push({
+      code: 'PDF_UNREADABLE',
+      severity: 'blocker',
+      message: `PDF could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      suggested_user_action: 'Please upload an unencrypted PDF or export the order as a spreadsheet'
+    });
+    return asPdfOrder(createEmptyOrder(options, issues, false, config));
+  }
+
+  const scannedPages = pages.filter(page => page.words.length < MIN_TEXT_LAYER_WORDS).map(page => page.pageNumber);
+  let ocrPages: PdfPageText[] = [];
+
+  if (scannedPages.length > 0) {
+    if (!options.ocrEngine) {
+      issues.push({
+        code: 'PDF_OCR_UNAVAILABLE',
+        severity: 'blocker',
+        message: `Page(s) ${scannedPages.join(', ')} have no text layer and OCR is not configured`,
+        suggested_user_action: 'Please upload a text-based PDF or the original spreadsheet'
+      });
+      return asPdfOrder(createEmptyOrder(options, issues, false, config));
+    }
+
+    ocrPages = await options.ocrEngine.recognize({
+      document: buffer,
+      pageNumbers: scannedPages,
+      languageHints: options.languageHints
+    });
+    pages = pages.map(page => ocrPages.find(ocr => ocr.pageNumber === page.pageNumber) ?? page);
+  }
+
+  if (pages.every(page => page.words.length === 0)) {
+    issues.push({
+      code: 'PDF_NO_TEXT',
+      severity: 'blocker',
+      message: 'No text could be read from the PDF',
+      suggested_user_action: 'Please upload the original spreadsheet'
+    });
+    return asPdfOrder(createEmptyOrder(options, issues, false, config));
+  }
+
+  const table = buildTableFromPages(pages);
+  const order = await parseExcel(table.workbook, options);
+
+  remapEvidence(order, table.locations);
+
+  const pagesUsed = [...new Set([...table.locations.values()].map(location => location.page))].sort((a, b) => a - b);
+  asPdfOrder(order, pagesUsed);
+
+  if (ocrPages.length > 0 && order.meta.parsing) {
+    order.meta.parsing.ocr_engine = options.ocrEngine?.name;
+    order.meta.parsing.ocr_pages = ocrPages.map(page => page.pageNumber);
+    applyOcrConfidence(order, ocrPages);
+  }
+
+  order.issues.unshift(...issues);
+  return order;
+}
+
+function asPdfOrder(order: CanonicalSalesOrder, pages: number[] = []): CanonicalSalesOrder {
+  if (order.meta.parsing) {
+    order.meta.parsing.input_format = 'pdf';
+    order.meta.parsing.sheets_processed = pages.map(pageLabel);
+  }
+  return order;
+}
+
+/**
+ * Point every evidence cell read from the reconstructed worksheet at its
+ * page and bounding box instead
+ */
+function remapEvidence(value: unknown, locations: Map<string, PdfCellLocation>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => remapEvidence(item, locations));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const candidate = value as Partial<EvidenceCell>;
+  if (candidate.sheet === PDF_SHEET_NAME && typeof candidate.cell === 'string') {
+    const location = locations.get(candidate.cell);
+    if (location) {
+      candidate.page = location.page;
+      candidate.bbox = roundBox(location.bbox);
+      candidate.sheet = pageLabel(location.page);
+      candidate.cell = formatBox(candidate.bbox);
+    }
+    return;
+  }
+
+  Object.values(value).forEach(child => remapEvidence(child, locations));
+}
+
+function applyOcrConfidence(order: CanonicalSalesOrder, ocrPages: PdfPageText[]): void {
+  const confidences = ocrPages.flatMap(page => page.words.map(word => word.confidence ?? 1));
+  if (confidences.length === 0) return;
+
+  const mean = confidences.reduce((sum, c) => sum + c, 0) / confidences.length;
+  order.confidence.by_stage = { ...order.confidence.by_stage, ocr: mean };
+  order.confidence.overall *= mean;
+
+  if (mean < OCR_LOW_CONFIDENCE_THRESHOLD) {
+    order.issues.push({
+      code: 'OCR_LOW_CONFIDENCE',
+      severity: 'warning',
+      message: `OCR confidence is low (${Math.round(mean * 100)}%); check quantities and SKUs against the scan`,
+      suggested_user_action: 'Review the extracted lines carefully or upload a clearer scan'
+    });
+  }
+}
+
+function pageLabel(page: number): string {
+  return `Page ${page}`;
+}
+
+function roundBox(bbox: BoundingBox): BoundingBox {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return { x: round(bbox.x), y: round(bbox.y), width: round(bbox.width), height: round(bbox.height) };
+}
+
+function formatBox(bbox: BoundingBox): string {
+  return `${bbox.x},${bbox.y},${bbox.width},${bbox.height}`;
+}
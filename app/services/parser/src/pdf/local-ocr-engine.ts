@@ -0,0 +1,63 @@
+/**
+ * Local stand-in OCR engine
+ *
+ * Returns pre-supplied page text laid out on a fixed-width grid, so scanned
+ * PDF handling can be tested without a cloud OCR service. Each page is given
+ * as text lines; runs of two or more spaces separate table cells.
+ */
+
+import { OcrEngine, OcrRequest, PdfPageText, PdfWord } from './types';
+
+const CHAR_WIDTH = 6;
+const LINE_HEIGHT = 14;
+const FONT_HEIGHT = 10;
+const MARGIN = 36;
+
+export interface LocalOcrEngineOptions {
+  /**
+   * Confidence reported for every word (default 0.95)
+   */
+  confidence?: number;
+  pageWidth?: number;
+  pageHeight?: number;
+}
+
+export class LocalOcrEngine implements OcrEngine {
+  readonly name = 'local';
+
+  constructor(
+    private readonly pages: Record<number, string[]>,
+    private readonly options: LocalOcrEngineOptions = {}
+  ) {}
+
+  async recognize(request: OcrRequest): Promise<PdfPageText[]> {
+    return request.pageNumbers.map(pageNumber => ({
+      pageNumber,
+      width: this.options.pageWidth ?? 595,
+      height: this.options.pageHeight ?? 842,
+      words: this.layoutWords(this.pages[pageNumber] ?? []),
+      source: 'ocr'
+    }));
+  }
+
+  private layoutWords(lines: string[]): PdfWord[] {
+    const words: PdfWord[] = [];
+
+    lines.forEach((line, lineIndex) => {
+      for (const match of line.matchAll(/\S+/g)) {
+        words.push({
+          text: match[0],
+          bbox: {
+            x: MARGIN + (match.index ?? 0) * CHAR_WIDTH,
+            y: MARGIN + lineIndex * LINE_HEIGHT,
+            width: match[0].length * CHAR_WIDTH,
+            height: FONT_HEIGHT
+          },
+          confidence: this.options.confidence ?? 0.95
+        });
+      }
+    });
+
+    return words;
+  }
+}
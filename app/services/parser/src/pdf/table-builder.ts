@@ -0,0 +1,207 @@
+/**
+ * PDF table reconstruction
+ *
+ * Rebuilds a grid from positioned words so the spreadsheet pipeline (header
+ * detection, schema inference, row extraction) can run on PDF orders:
+ * 1. Words are grouped into lines by vertical overlap
+ * 2. Words within a line are merged into cell segments by horizontal gap
+ * 3. Column bands are derived from segments of multi-cell lines
+ * 4. Every segment is placed in a worksheet cell; its page and bounding box
+ *    are kept so evidence can point back at the page
+ */
+
+import { Workbook, Worksheet } from 'exceljs';
+import { BoundingBox } from '../types';
+import { toTypedCellValue } from '../formats/delimited';
+import { PdfPageText, PdfWord } from './types';
+
+/**
+ * Words closer than this many line heights belong to the same cell
+ */
+const CELL_GAP_RATIO = 0.9;
+
+/**
+ * Vertical center distance (in line heights) within which words share a line
+ */
+const LINE_TOLERANCE_RATIO = 0.5;
+
+export const PDF_SHEET_NAME = 'PDF';
+
+export interface PdfCellLocation {
+  page: number;
+  bbox: BoundingBox;
+  /**
+   * Mean OCR confidence of the words in the cell (OCR pages only)
+   */
+  confidence?: number;
+}
+
+export interface PdfTable {
+  workbook: Workbook;
+  worksheet: Worksheet;
+  /**
+   * Worksheet address ("B4") to page location
+   */
+  locations: Map<string, PdfCellLocation>;
+}
+
+interface Segment {
+  words: PdfWord[];
+  bbox: BoundingBox;
+}
+
+interface Line {
+  page: number;
+  segments: Segment[];
+}
+
+export function buildTableFromPages(pages: PdfPageText[]): PdfTable {
+  const lines = removeRepeatedHeaders(pages.flatMap(page => groupLines(page)));
+  const columns = deriveColumns(lines);
+
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(PDF_SHEET_NAME);
+  const locations = new Map<string, PdfCellLocation>();
+
+  lines.forEach((line, lineIndex) => {
+    const row = worksheet.getRow(lineIndex + 1);
+    const cells = new Map<number, Segment[]>();
+
+    for (const segment of line.segments) {
+      const column = findColumn(columns, segment.bbox);
+      cells.set(column, [...(cells.get(column) ?? []), segment]);
+    }
+
+    for (const [column, segments] of cells) {
+      const cell = row.getCell(column + 1);
+      const words = segments.flatMap(s => s.words);
+      cell.value = toTypedCellValue(segments.map(segmentText).join(' '));
+
+      const confidences = words.map(w => w.confidence).filter((c): c is number => c !== undefined);
+      locations.set(cell.address, {
+        page: line.page,
+        bbox: unionBox(segments.map(s => s.bbox)),
+        ...(confidences.length > 0 && {
+          confidence: confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+        })
+      });
+    }
+  });
+
+  return { workbook, worksheet, locations };
+}
+
+function groupLines(page: PdfPageText): Line[] {
+  const words = [...page.words].sort((a, b) => centerY(a.bbox) - centerY(b.bbox) || a.bbox.x - b.bbox.x);
+  const groups: PdfWord[][] = [];
+
+  for (const word of words) {
+    const current = groups[groups.length - 1];
+    if (current) {
+      const anchor = current[0].bbox;
+      const tolerance = Math.max(anchor.height, word.bbox.height) * LINE_TOLERANCE_RATIO;
+      if (Math.abs(centerY(word.bbox) - centerY(anchor)) <= tolerance) {
+        current.push(word);
+        continue;
+      }
+    }
+    groups.push([word]);
+  }
+
+  return groups.map(group => ({ page: page.pageNumber, segments: segmentLine(group) }));
+}
+
+function segmentLine(words: PdfWord[]): Segment[] {
+  const segments: Segment[] = [];
+
+  for (const word of [...words].sort((a, b) => a.bbox.x - b.bbox.x)) {
+    const current = segments[segments.length - 1];
+    if (current) {
+      const gap = word.bbox.x - (current.bbox.x + current.bbox.width);
+      if (gap <= Math.max(current.bbox.height, word.bbox.height) * CELL_GAP_RATIO) {
+        current.words.push(word);
+        current.bbox = unionBox([current.bbox, word.bbox]);
+        continue;
+      }
+    }
+    segments.push({ words: [word], bbox: { ...word.bbox } });
+  }
+
+  return segments;
+}
+
+/**
+ * Column bands are the union of overlapping segment extents across lines
+ * with two or more cells. Single-cell lines (titles, addresses) would
+ * otherwise merge every column into one.
+ */
+function deriveColumns(lines: Line[]): Array<[number, number]> {
+  const extents = lines
+    .filter(line => line.segments.length > 1)
+    .flatMap(line => line.segments.map(s => [s.bbox.x, s.bbox.x + s.bbox.width] as [number, number]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns: Array<[number, number]> = [];
+  for (const [start, end] of extents) {
+    const current = columns[columns.length - 1];
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      columns.push([start, end]);
+    }
+  }
+
+  return columns;
+}
+
+function findColumn(columns: Array<[number, number]>, bbox: BoundingBox): number {
+  if (columns.length === 0) return 0;
+
+  const center = bbox.x + bbox.width / 2;
+  let best = 0;
+  let bestDistance = Infinity;
+
+  columns.forEach(([start, end], index) => {
+    const distance = center < start ? start - center : center > end ? center - end : 0;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Multi-page orders usually repeat the table header (and letterhead) on
+ * every page. Lines on later pages that match a digit-free line on the
+ * first page are dropped so they are not read as line items.
+ */
+function removeRepeatedHeaders(lines: Line[]): Line[] {
+  const firstPage = lines[0]?.page;
+  const firstPageKeys = new Set(
+    lines.filter(line => line.page === firstPage).map(lineKey).filter(key => !/\d/.test(key))
+  );
+
+  return lines.filter(line => line.page === firstPage || !firstPageKeys.has(lineKey(line)));
+}
+
+function lineKey(line: Line): string {
+  return line.segments.map(segmentText).join('|').toLowerCase();
+}
+
+function segmentText(segment: Segment): string {
+  return segment.words.map(w => w.text).join(' ');
+}
+
+function centerY(bbox: BoundingBox): number {
+  return bbox.y + bbox.height / 2;
+}
+
+function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
@@ -0,0 +1,52 @@
+/**
+ * PDF text-layer extraction
+ *
+ * Reads positioned text runs from each page with pdf.js. Coordinates are
+ * converted to points with a top-left origin so text-layer and OCR words
+ * share one coordinate system.
+ */
+
+import { PdfPageText, PdfWord } from './types';
+
+export async function extractTextLayer(buffer: Buffer): Promise<PdfPageText[]> {
+  // Loaded lazily so spreadsheet-only consumers never load pdf.js
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0
+  }).promise;
+
+  try {
+    const pages: PdfPageText[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const words: PdfWord[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || item.str.trim() === '') continue;
+
+        const [, , c, d, e, f] = item.transform as number[];
+        const height = item.height || Math.hypot(c, d);
+        const [x, baseline] = viewport.convertToViewportPoint(e, f);
+
+        words.push({
+          text: item.str.trim(),
+          bbox: { x, y: baseline - height, width: item.width, height }
+        });
+      }
+
+      pages.push({ pageNumber, width: viewport.width, height: viewport.height, words, source: 'text' });
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
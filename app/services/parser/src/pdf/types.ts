@@ -0,0 +1,55 @@
+/**
+ * Type definitions for PDF purchase-order intake
+ */
+
+import { BoundingBox, ParserOptions } from '../types';
+
+/**
+ * A run of text on a page (a text-layer item or an OCR word)
+ */
+export interface PdfWord {
+  text: string;
+  bbox: BoundingBox;
+  /**
+   * OCR confidence 0-1; undefined for text-layer words
+   */
+  confidence?: number;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  words: PdfWord[];
+  source: 'text' | 'ocr';
+}
+
+export interface OcrRequest {
+  /**
+   * The original PDF file
+   */
+  document: Buffer;
+  /**
+   * 1-based pages without a usable text layer
+   */
+  pageNumbers: number[];
+  languageHints?: string[];
+}
+
+/**
+ * Pluggable OCR step for scanned pages. Engines return word boxes in PDF
+ * points with a top-left origin, matching the text layer.
+ */
+export interface OcrEngine {
+  readonly name: string;
+  recognize(request: OcrRequest): Promise<PdfPageText[]>;
+}
+
+export interface PdfParserOptions extends ParserOptions {
+  /**
+   * Engine for pages without a text layer. Without one, scanned PDFs are
+   * blocked with PDF_OCR_UNAVAILABLE.
+   */
+  ocrEngine?: OcrEngine;
+  languageHints?: string[];
+}
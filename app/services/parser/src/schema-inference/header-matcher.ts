@@ -8,6 +8,7 @@
  * 4. Type compatibility scoring
  */
 
+import { createHash } from 'crypto';
 import { distance as levenshteinDistance } from 'fastest-levenshtein';
 import { normalizeHeader, matchesSynonym, getSynonyms } from './synonyms';
 import { detectColumnType, isTypeCompatible } from './type-detector';
@@ -52,7 +53,19 @@ export function matchHeaders(
   return mappings;
 }
 
-function extractHeaders(worksheet: Worksheet, headerRow: number): Array<{
+/**
+ * Fingerprint a header row: column letters plus normalized header text.
+ * Identical layouts from the same customer produce the same fingerprint.
+ */
+export function computeHeaderFingerprint(worksheet: Worksheet, headerRow: number): string {
+  const signature = extractHeaders(worksheet, headerRow)
+    .map(h => `${h.column}:${normalizeHeader(h.header)}`)
+    .join('|');
+
+  return createHash('sha256').update(signature).digest('hex').substring(0, 16);
+}
+
+export function extractHeaders(worksheet: Worksheet, headerRow: number): Array<{
   header: string;
   column: string;
   columnIndex: number;
@@ -80,67 +93,17 @@ function findBestMatch(
   worksheet: Worksheet,
   headerRow: number
 ): (MatchCandidate & { candidates?: MatchCandidate[] }) | null {
-  const candidates: MatchCandidate[] = [];
-  const synonyms = getSynonyms(canonicalField);
+  const finalCandidates: MatchCandidate[] = [];
 
-  // Check each header
+  // Check each header (one candidate per column, scored by its best method)
   for (const { header, column, columnIndex } of headers) {
-    const normalized = normalizeHeader(header);
-
-    // 1. Exact synonym match
-    for (const syn of synonyms) {
-      const normalizedSyn = normalizeHeader(syn);
-
-      if (normalized === normalizedSyn) {
-        candidates.push({
-          header,
-          column,
-          columnIndex,
-          score: 1.0,
-          method: 'exact'
-        });
-        break;
-      }
-    }
+    const match = scoreHeader(header, canonicalField);
 
-    // 2. Synonym substring match
-    if (matchesSynonym(header, canonicalField)) {
-      const synScore = calculateSynonymScore(normalized, synonyms);
-      if (synScore > 0.6) {
-        candidates.push({
-          header,
-          column,
-          columnIndex,
-          score: synScore,
-          method: 'synonym'
-        });
-      }
-    }
-
-    // 3. Fuzzy match
-    const fuzzyScore = calculateFuzzyScore(normalized, synonyms);
-    if (fuzzyScore > 0.6) {
-      candidates.push({
-        header,
-        column,
-        columnIndex,
-        score: fuzzyScore,
-        method: 'fuzzy'
-      });
-    }
-  }
-
-  // Remove duplicates (keep highest score)
-  const uniqueCandidates = new Map<number, MatchCandidate>();
-  for (const candidate of candidates) {
-    const existing = uniqueCandidates.get(candidate.columnIndex);
-    if (!existing || candidate.score > existing.score) {
-      uniqueCandidates.set(candidate.columnIndex, candidate);
+    if (match) {
+      finalCandidates.push({ header, column, columnIndex, ...match });
     }
   }
 
-  const finalCandidates = Array.from(uniqueCandidates.values());
-
   // Apply type compatibility scoring
   for (const candidate of finalCandidates) {
     const typeResult = detectColumnType(worksheet, candidate.columnIndex, headerRow + 1, Math.min(worksheet.rowCount, headerRow + 50));
@@ -165,6 +128,45 @@ function findBestMatch(
   };
 }
 
+/**
+ * Score how well a header names a canonical field, without looking at the
+ * column's values (exact synonym, synonym substring, then fuzzy match).
+ * Returns the best-scoring method, or null if no method scores above 0.6.
+ */
+export function scoreHeader(
+  header: string,
+  canonicalField: string
+): { score: number; method: MatchCandidate['method'] } | null {
+  const normalized = normalizeHeader(header);
+  const synonyms = getSynonyms(canonicalField);
+  const matches: Array<{ score: number; method: MatchCandidate['method'] }> = [];
+
+  // 1. Exact synonym match
+  if (synonyms.some(syn => normalizeHeader(syn) === normalized)) {
+    matches.push({ score: 1.0, method: 'exact' });
+  }
+
+  // 2. Synonym substring match
+  if (matchesSynonym(header, canonicalField)) {
+    const synScore = calculateSynonymScore(normalized, synonyms);
+    if (synScore > 0.6) {
+      matches.push({ score: synScore, method: 'synonym' });
+    }
+  }
+
+  // 3. Fuzzy match
+  const fuzzyScore = calculateFuzzyScore(normalized, synonyms);
+  if (fuzzyScore > 0.6) {
+    matches.push({ score: fuzzyScore, method: 'fuzzy' });
+  }
+
+  // Keep the highest score (the earlier method on ties)
+  return matches.reduce<(typeof matches)[number] | null>(
+    (best, match) => (!best || match.score > best.score ? match : best),
+    null
+  );
+}
+
 function calculateSynonymScore(normalized: string, synonyms: string[]): number {
   let bestScore = 0;
 
@@ -217,6 +219,7 @@ export function getCanonicalFields(): string[] {
     'gtin',
     'product_name',
     'quantity',
+    'unit',
     'unit_price',
     'line_total',
     'subtotal',
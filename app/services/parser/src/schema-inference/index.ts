@@ -3,8 +3,9 @@
  */
 
 import { Worksheet } from 'exceljs';
-import { SchemaInference } from '../types';
-import { matchHeaders, getCanonicalFields } from './header-matcher';
+import { SchemaInference, ColumnMapping, ColumnTemplate } from '../types';
+import { matchHeaders, getCanonicalFields, extractHeaders } from './header-matcher';
+import { normalizeHeader } from './synonyms';
 import { calculateOverallConfidence, calculateStageConfidences } from './scoring';
 
 export function inferSchema(
@@ -47,6 +48,42 @@ export function inferSchema(
   };
 }
 
+/**
+ * Build the schema from a stored customer template instead of inferring it.
+ * Mappings whose column no longer holds the remembered header are dropped.
+ */
+export function inferSchemaFromTemplate(
+  worksheet: Worksheet,
+  headerRow: number,
+  template: ColumnTemplate,
+  sheetConfidence: number,
+  headerConfidence: number
+): SchemaInference {
+  const headers = new Map(extractHeaders(worksheet, headerRow).map(h => [h.column, h.header]));
+
+  const columnMappings: ColumnMapping[] = template.column_mappings
+    .filter(m => {
+      const header = headers.get(m.source_column);
+      return header !== undefined && normalizeHeader(header) === normalizeHeader(m.source_header);
+    })
+    .map(m => ({
+      canonical_field: m.canonical_field,
+      source_header: headers.get(m.source_column) as string,
+      source_column: m.source_column,
+      confidence: 1.0,
+      method: m.method === 'manual' ? 'manual' : 'template'
+    }));
+
+  return {
+    selected_sheet: worksheet.name,
+    table_region: determineTableRegion(worksheet, headerRow, columnMappings),
+    header_row: headerRow,
+    column_mappings: columnMappings,
+    confidence: sheetConfidence * 0.2 + headerConfidence * 0.3 + 0.5,
+    template_id: template.template_id
+  };
+}
+
 function determineTableRegion(
   worksheet: Worksheet,
   headerRow: number,
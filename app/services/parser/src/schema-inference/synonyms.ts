@@ -6,6 +6,7 @@
  * - SKU: Stock Keeping Unit / Item Code
  * - GTIN: Global Trade Item Number (EAN/UPC/barcode)
  * - Quantity: Order quantity
+ * - Unit: Unit of measure the quantity is stated in (carton, dozen, piece)
  * - UnitPrice: Price per unit (from spreadsheet, audit only)
  * - LineTotal: Line total amount (from spreadsheet, audit only)
  * - Description: Product name/description
@@ -53,16 +54,27 @@ export const FIELD_SYNONYMS: Record<string, string[]> = {
   // Quantity
   quantity: [
     // English terms
-    'qty', 'quantity', 'quan', 'qnty', 'q', 'units', 'unit', 'count', 'amount',
+    'qty', 'quantity', 'quan', 'qnty', 'q', 'units', 'count', 'amount',
     'number', 'num', 'no of units', 'number of units', 'pcs', 'pieces', 'pc',
     'order qty', 'order quantity', 'ordered', 'order_qty', 'requested',
     'requested qty', 'requested quantity', 'required', 'required qty',
     'volume', 'ea', 'each', 'nos',
     // Farsi terms
-    'تعداد', 'مقدار', 'واحد', 'عدد', 'کمیت', 'تیراژ', 'تعداد سفارش',
+    'تعداد', 'مقدار', 'عدد', 'کمیت', 'تیراژ', 'تعداد سفارش',
     'میزان', 'مقدار سفارش'
   ],
 
+  // Unit of measure (pack size is converted to Zoho's stocking unit later)
+  unit: [
+    // English terms
+    'unit', 'uom', 'u/m', 'u.o.m', 'unit of measure', 'unit of measurement',
+    'measure', 'measurement unit', 'order unit', 'sales unit', 'selling unit',
+    'packing', 'packaging', 'pack type', 'package', 'unit type',
+    // Farsi terms
+    'واحد', 'واحد کالا', 'واحد اندازه گیری', 'واحد شمارش', 'واحد سفارش',
+    'نوع بسته بندی', 'بسته بندی'
+  ],
+
   // Unit Price (spreadsheet value - audit only per SOLUTION_DESIGN)
   unit_price: [
     // English terms
@@ -150,6 +162,7 @@ export const CANONICAL_FIELD_DISPLAY_NAMES: Record<string, string> = {
   gtin: 'GTIN',
   product_name: 'Description',
   quantity: 'Quantity',
+  unit: 'Unit',
   unit_price: 'UnitPrice',
   line_total: 'LineTotal',
   subtotal: 'Subtotal',
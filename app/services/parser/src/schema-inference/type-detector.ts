@@ -158,6 +158,7 @@ export function isTypeCompatible(
     gtin: ['text', 'integer', 'number', 'mixed'],
     product_name: ['text', 'mixed'],
     quantity: ['integer', 'number', 'decimal'],
+    unit: ['text', 'mixed'],
     unit_price: ['number', 'decimal', 'currency'],
     line_total: ['number', 'decimal', 'currency'],
     customer: ['text', 'mixed'],
@@ -8,6 +8,22 @@ export interface EvidenceCell {
   raw_value: any;
   display_value?: string | null;
   number_format?: string | null;
+  /**
+   * PDF evidence only: 1-based page number. For PDFs, sheet is "Page N" and
+   * cell is the bounding box as "x,y,width,height".
+   */
+  page?: number;
+  bbox?: BoundingBox;
+}
+
+/**
+ * Rectangle on a PDF page in points (1/72 inch), origin at the top-left
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface FormulaReport {
@@ -67,7 +83,7 @@ export interface ColumnMapping {
   source_header: string;
   source_column: string; // e.g., "A", "B", "C"
   confidence: number;
-  method: 'dictionary' | 'fuzzy' | 'embedding' | 'llm_tiebreak' | 'manual';
+  method: 'dictionary' | 'fuzzy' | 'embedding' | 'llm_tiebreak' | 'manual' | 'template';
   candidates?: Array<{
     header: string;
     column: string;
@@ -81,6 +97,27 @@ export interface SchemaInference {
   header_row: number | null;
   column_mappings: ColumnMapping[];
   confidence: number;
+  /**
+   * Hash of the header row (column letters + normalized headers), used to
+   * recognize a customer's recurring layout
+   */
+  header_fingerprint?: string;
+  /**
+   * Set when the mappings came from a stored customer template
+   */
+  template_id?: string;
+}
+
+/**
+ * Column mappings remembered for a customer's layout (see
+ * ParserOptions.columnTemplate)
+ */
+export interface ColumnTemplate {
+  template_id: string;
+  header_fingerprint: string;
+  column_mappings: Array<Pick<ColumnMapping, 'canonical_field' | 'source_column' | 'source_header'> & {
+    method?: ColumnMapping['method'];
+  }>;
 }
 
 export interface ExtractedRow {
@@ -109,6 +146,12 @@ export interface Issue {
   suggested_user_action?: string | null;
 }
 
+/**
+ * Units of measure recognized on order lines. Zoho converts them to each
+ * item's stocking unit when the sales order is built.
+ */
+export type UnitOfMeasure = 'piece' | 'dozen' | 'pack' | 'box' | 'carton';
+
 export interface LineItem {
   row: number;
   source_row_number: number | null;
@@ -116,6 +159,10 @@ export interface LineItem {
   gtin: string | null;
   product_name: string | null;
   quantity: number;
+  /**
+   * Unit of measure the quantity is stated in (null = the item's stocking unit)
+   */
+  unit?: UnitOfMeasure | null;
   unit_price_source: number | null;
   line_total_source: number | null;
   currency: string | null;
@@ -124,6 +171,7 @@ export interface LineItem {
     gtin?: EvidenceCell;
     product_name?: EvidenceCell;
     quantity?: EvidenceCell;
+    unit?: EvidenceCell;
     unit_price_source?: EvidenceCell;
     line_total_source?: EvidenceCell;
   };
@@ -156,7 +204,24 @@ export interface CanonicalSalesOrder {
       parser_version: string;
       contains_formulas: boolean;
       sheets_processed: string[];
+      /**
+       * Source file format when not .xlsx (csv, tsv, ods, pdf)
+       */
+      input_format?: string;
+      /**
+       * Detected text encoding for delimited files
+       */
+      source_encoding?: string;
+      /**
+       * PDF only: OCR engine used and the pages it recognized
+       */
+      ocr_engine?: string;
+      ocr_pages?: number[];
     };
+    /**
+     * Present when this order was split out of a multi-order workbook
+     */
+    split?: SplitOrderMeta;
   };
   customer: Customer;
   line_items: LineItem[];
@@ -169,6 +234,38 @@ export interface CanonicalSalesOrder {
   issues: Issue[];
 }
 
+export interface SplitOrderMeta {
+  parent_case_id: string;
+  order_index: number; // 0-based position within the workbook
+  order_count: number;
+  sheet: string;
+  source_rows?: {
+    first: number;
+    last: number;
+  };
+}
+
+/**
+ * Result of parsing a workbook that may contain several orders
+ */
+export interface MultiOrderParseResult {
+  parent_case_id: string;
+  /**
+   * One order per qualifying sheet or customer block. A single entry
+   * (keeping the parent case_id) means the workbook was not split.
+   */
+  orders: CanonicalSalesOrder[];
+}
+
+/**
+ * How a workbook with several orders is handled:
+ * - 'off': pick one sheet (MULTIPLE_SHEET_CANDIDATES warning if ambiguous)
+ * - 'per_sheet': every qualifying sheet becomes its own order
+ * - 'per_customer_block': as per_sheet, and a sheet is further split
+ *   wherever the customer column changes value
+ */
+export type MultiOrderMode = 'off' | 'per_sheet' | 'per_customer_block';
+
 export interface ParserConfig {
   /**
    * Formula handling policy - strict blocks formulas by default
@@ -202,6 +299,11 @@ export interface ParserConfig {
    */
   arithmeticAbsoluteTolerance: number;
   arithmeticRelativeTolerance: number;
+
+  /**
+   * Multi-order workbook handling (used by parseExcelMultiOrder)
+   */
+  multiOrderMode: MultiOrderMode;
 }
 
 export const DEFAULT_PARSER_CONFIG: ParserConfig = {
@@ -211,7 +313,8 @@ export const DEFAULT_PARSER_CONFIG: ParserConfig = {
   maxHeaderSearchRows: 10,
   mappingConfidenceThreshold: 0.80,
   arithmeticAbsoluteTolerance: 0.02,
-  arithmeticRelativeTolerance: 0.01
+  arithmeticRelativeTolerance: 0.01,
+  multiOrderMode: 'off'
 };
 
 export interface ParserOptions {
@@ -222,6 +325,11 @@ export interface ParserOptions {
   userId?: string;
   parserVersion?: string;
   config?: Partial<ParserConfig>;
+  /**
+   * Stored mappings to use instead of schema inference when the header
+   * fingerprint of the selected sheet matches
+   */
+  columnTemplate?: ColumnTemplate;
 }
 
 export interface TypeDetectionResult {
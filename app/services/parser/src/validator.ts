@@ -5,6 +5,7 @@
  * - Qty=0 is OK (no warning)
  * - Missing customer → issue
  * - Unresolved items → issue
+ * - Unrecognized unit of measure → issue
  */
 
 import { CanonicalSalesOrder, Issue, LineItem } from './types';
@@ -102,6 +103,18 @@ function validateLineItems(lineItems: LineItem[]): Issue[] {
         suggested_user_action: 'Please verify the quantity is correct'
       });
     }
+
+    // Unknown units cannot be converted to the Zoho item's stocking unit
+    if (item.flags?.includes('UNRECOGNIZED_UNIT')) {
+      issues.push({
+        code: 'UNRECOGNIZED_UNIT',
+        severity: 'warning',
+        message: `Line ${item.row + 1}: Unit of measure "${item.evidence.unit?.display_value ?? ''}" is not recognized`,
+        fields: ['unit'],
+        evidence: item.evidence.unit ? [item.evidence.unit] : [],
+        suggested_user_action: 'Please confirm the quantity is in the item\'s stocking unit'
+      });
+    }
   }
 
   return issues;
@@ -0,0 +1,89 @@
+/**
+ * Audit chain verification script
+ *
+ * Walks a case's or a day's event log and reports every break in the hash
+ * chain (gap, reorder, modification) and every mismatch with a signed anchor.
+ * Exits non-zero when the chain does not verify.
+ *
+ * Usage:
+ *   npm run verify-audit-chain -- --case <caseId> [--json]
+ *   npm run verify-audit-chain -- --date <YYYY-MM-DD> [--hourly] [--json]
+ *
+ * Environment:
+ *   STORAGE_ACCOUNT_URL - Storage account holding the logs
+ *   AUDIT_CHAIN_SIGNING_KEY, AUDIT_CHAIN_SIGNING_KEY_ID, AUDIT_CHAIN_SIGNING_ALGORITHM,
+ *   AUDIT_CHAIN_VERIFY_KEYS - Anchor verification keys (see audit-chain.ts)
+ */
+
+import { EventLoggerService } from '../src/event-logger.js';
+import { getAnchorVerificationKeysFromEnv } from '../src/audit-chain.js';
+import type { ChainVerificationResult } from '../src/types.js';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printResult(result: ChainVerificationResult): void {
+  console.log(`${result.scope === 'case' ? 'Case' : 'Log'} ${result.id}`);
+  console.log(`  Events:  ${result.eventCount}`);
+  console.log(`  Head:    ${result.headHash ?? '-'}`);
+  console.log(`  Anchors: ${result.anchorsChecked}`);
+
+  if (result.valid) {
+    console.log('\n[OK] Chain verified');
+    return;
+  }
+
+  console.log(`\n[FAIL] ${result.problems.length} problem(s):`);
+  for (const problem of result.problems) {
+    const sequence = problem.sequence !== undefined ? ` seq ${problem.sequence}` : '';
+    console.log(`  - ${problem.type.padEnd(15)} #${problem.index}${sequence}: ${problem.detail}`);
+  }
+}
+
+async function verify(args: string[]): Promise<boolean> {
+  const storageAccountUrl = process.env.STORAGE_ACCOUNT_URL;
+  if (!storageAccountUrl) {
+    throw new Error('STORAGE_ACCOUNT_URL is required');
+  }
+
+  const caseId = getArg(args, '--case');
+  const date = getArg(args, '--date');
+
+  if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date)))) {
+    throw new Error('--date must be a date (YYYY-MM-DD)');
+  }
+
+  // bufferSize 1 and no signing key: no flush or anchor timers
+  const eventLogger = new EventLoggerService(storageAccountUrl, {
+    bufferSize: 1,
+    useHourlyLogs: args.includes('--hourly'),
+    verificationKeys: getAnchorVerificationKeysFromEnv(),
+  });
+
+  let result: ChainVerificationResult;
+  if (caseId && !date) {
+    result = await eventLogger.verifyCaseChain(caseId);
+  } else if (date && !caseId) {
+    result = await eventLogger.verifyLogChain(new Date(date));
+  } else {
+    console.error('Usage: npm run verify-audit-chain -- --case <caseId> | --date <YYYY-MM-DD> [--hourly] [--json]');
+    process.exit(1);
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printResult(result);
+  }
+
+  return result.valid;
+}
+
+verify(process.argv.slice(2))
+  .then((valid) => process.exit(valid ? 0 : 2))
+  .catch((error) => {
+    console.error('\nAudit chain verification failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -8,10 +8,13 @@
  * - User correction patches
  * - Zoho request/response payloads
  * - Timestamps and correlation IDs
+ *
+ * With envelope encryption configured, the original is stored encrypted and
+ * the canonical JSON's sensitive fields are encrypted under the tenant's key.
  */
 
 import { createHash } from 'crypto';
-import { BlobLayoutManager } from './blob-layout.js';
+import { BlobLayoutManager, BlobLayoutOptions } from './blob-layout.js';
 import {
   AuditBundle,
   BlobContainer,
@@ -85,8 +88,11 @@ export interface ZohoInteractionInfo {
 export class AuditBundleService {
   private layoutManager: BlobLayoutManager;
 
-  constructor(storageAccountUrl: string) {
-    this.layoutManager = new BlobLayoutManager(storageAccountUrl);
+  constructor(
+    storageAccountUrl: string,
+    private options: BlobLayoutOptions = {}
+  ) {
+    this.layoutManager = new BlobLayoutManager(storageAccountUrl, options);
   }
 
   /**
@@ -191,8 +197,12 @@ export class AuditBundleService {
     canonical: CanonicalOrderInfo
   ): Promise<AuditBundle> {
     const blobPath = this.layoutManager.getCanonicalJsonPath(input.caseId);
+    const { encryption } = this.options;
+    const stored = encryption
+      ? await encryption.encryptFields(input.tenantId, canonical.order)
+      : canonical.order;
 
-    await this.layoutManager.storeAuditArtifact(blobPath, canonical.order, {
+    await this.layoutManager.storeAuditArtifact(blobPath, stored, {
       tenantId: input.tenantId,
       traceId: input.correlation.traceId,
     });
@@ -413,6 +423,36 @@ export class AuditBundleService {
     return null;
   }
 
+  /**
+   * Get the stored canonical order (encrypted fields are decrypted when
+   * encryption is configured)
+   */
+  async getCanonicalOrder<T = unknown>(caseId: string): Promise<T | null> {
+    const blobPath = this.layoutManager.getCanonicalJsonPath(caseId);
+
+    if (!(await this.layoutManager.blobExists(blobPath))) {
+      return null;
+    }
+
+    return this.layoutManager.readAuditArtifact<T>(blobPath);
+  }
+
+  /**
+   * Get the stored original file (decrypted if stored encrypted)
+   */
+  async getOriginalFile(caseId: string): Promise<{ filename: string; content: Buffer } | null> {
+    const bundle = await this.getBundle(caseId);
+    if (!bundle?.original.filename) {
+      return null;
+    }
+
+    const { filename } = bundle.original;
+    return {
+      filename,
+      content: await this.layoutManager.downloadOriginalFile(caseId, filename),
+    };
+  }
+
   /**
    * Finalize the bundle (seal for audit)
    */
@@ -0,0 +1,357 @@
+/**
+ * Audit Event Hash Chain
+ *
+ * Tamper evidence for the JSONL event log. Every event carries the hash of
+ * the event before it in two chains:
+ * - the log chain (all events in one day's log, in append order)
+ * - the case chain (all events of one case, across days)
+ *
+ * Chain heads are periodically anchored by signing them with a configured key,
+ * so truncating a log (which no link can reveal) is caught against the last
+ * anchor, and rewriting a whole chain requires the signing key.
+ */
+
+import {
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+import {
+  AuditEvent,
+  ChainAnchor,
+  ChainAnchorAlgorithm,
+  ChainProblem,
+  ChainScope,
+  ChainVerificationResult,
+} from './types.js';
+
+/**
+ * Key used to sign chain anchors (and audit exports)
+ */
+export interface AnchorSigningKey {
+  /** Key identifier, stored with each anchor */
+  keyId: string;
+  algorithm: ChainAnchorAlgorithm;
+  /** HMAC secret, or PEM private key for ed25519 */
+  key: string;
+}
+
+/**
+ * Keys accepted when verifying anchor signatures, by key ID
+ * (HMAC secret, or PEM public or private key for ed25519)
+ */
+export type AnchorVerificationKeys = Record<
+  string,
+  { algorithm: ChainAnchorAlgorithm; key: string }
+>;
+
+/**
+ * JSON with object keys sorted, so the same event always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? 'null' : canonicalJson(v))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * SHA-256 of an event, covering everything but its own hash
+ */
+export function computeEventHash(event: AuditEvent): string {
+  const { chain, ...rest } = event;
+  const hashed = chain
+    ? { ...rest, chain: { prevHash: chain.prevHash, prevCaseHash: chain.prevCaseHash } }
+    : rest;
+
+  return createHash('sha256').update(canonicalJson(hashed), 'utf-8').digest('hex');
+}
+
+/**
+ * Verify a chain of events in stored order
+ *
+ * Each problem is reported against the event where the chain breaks:
+ * - modified: the event's content no longer matches its hash
+ * - gap: the event links to a hash that isn't in the log (events removed)
+ * - reorder: the event links to an event stored elsewhere in the log
+ * - unchained: the event has no chain (written before chaining, or stripped)
+ * - anchor_mismatch / bad_signature: the log disagrees with a signed anchor
+ *
+ * @param events - Events as stored (log order; a case's events in log order across days)
+ * @param scope - Which link to follow: the log chain or the case chain
+ * @param id - Log date (YYYY-MM-DD) or case ID, for the report
+ * @param anchors - Signed heads to check the events against
+ * @param keys - Keys for the anchors' signatures
+ */
+export function verifyEventChain(
+  events: AuditEvent[],
+  scope: ChainScope,
+  id: string,
+  anchors: ChainAnchor[] = [],
+  keys: AnchorVerificationKeys = {}
+): ChainVerificationResult {
+  const problems: ChainProblem[] = [];
+  const hashIndex = new Map<string, number>();
+
+  events.forEach((event, index) => {
+    if (event.chain) {
+      hashIndex.set(event.chain.hash, index);
+    }
+  });
+
+  let previous: AuditEvent | undefined;
+
+  events.forEach((event, index) => {
+    const at = { index, sequence: event.sequence, eventType: event.eventType };
+
+    if (!event.chain) {
+      problems.push({ type: 'unchained', ...at, detail: 'Event has no chain hash' });
+      previous = event;
+      return;
+    }
+
+    if (computeEventHash(event) !== event.chain.hash) {
+      problems.push({ type: 'modified', ...at, detail: 'Event content does not match its hash' });
+    }
+
+    const link = scope === 'log' ? event.chain.prevHash : event.chain.prevCaseHash;
+    const expected = previous?.chain?.hash ?? null;
+
+    if (previous && !previous.chain) {
+      // Nothing to link to - already reported as unchained
+    } else if (link !== expected) {
+      const linkedIndex = link === null ? undefined : hashIndex.get(link);
+
+      if (linkedIndex !== undefined) {
+        problems.push({
+          type: 'reorder',
+          ...at,
+          detail: `Event follows the event stored at index ${linkedIndex}, not index ${index - 1}`,
+        });
+      } else if (link === null) {
+        problems.push({ type: 'reorder', ...at, detail: 'Event starts a new chain mid-log' });
+      } else {
+        problems.push({
+          type: 'gap',
+          ...at,
+          detail: index === 0
+            ? 'Events before the first stored event are missing'
+            : `Events between index ${index - 1} and ${index} are missing`,
+        });
+      }
+    } else if (scope === 'case' && previous && event.sequence !== previous.sequence + 1) {
+      problems.push({
+        type: event.sequence > previous.sequence ? 'gap' : 'reorder',
+        ...at,
+        detail: `Sequence ${event.sequence} follows sequence ${previous.sequence}`,
+      });
+    }
+
+    previous = event;
+  });
+
+  for (const anchor of anchors) {
+    problems.push(...checkAnchor(events, anchor, keys));
+  }
+
+  const head = events[events.length - 1];
+
+  return {
+    scope,
+    id,
+    valid: problems.length === 0,
+    eventCount: events.length,
+    headHash: head?.chain?.hash ?? null,
+    anchorsChecked: anchors.length,
+    problems,
+  };
+}
+
+/**
+ * Check events against one signed anchor
+ */
+function checkAnchor(
+  events: AuditEvent[],
+  anchor: ChainAnchor,
+  keys: AnchorVerificationKeys
+): ChainProblem[] {
+  const problems: ChainProblem[] = [];
+  const index = anchor.eventCount - 1;
+  const at = { index, anchoredAt: anchor.anchoredAt };
+
+  if (!verifyAnchorSignature(anchor, keys)) {
+    problems.push({
+      type: 'bad_signature',
+      ...at,
+      detail: keys[anchor.keyId]
+        ? `Anchor signature does not verify with key ${anchor.keyId}`
+        : `No verification key for anchor key ${anchor.keyId}`,
+    });
+  }
+
+  if (events.length < anchor.eventCount) {
+    problems.push({
+      type: 'gap',
+      ...at,
+      detail: `Anchor covers ${anchor.eventCount} events, but only ${events.length} are stored`,
+    });
+  } else if (events[index]?.chain?.hash !== anchor.headHash) {
+    problems.push({
+      type: 'anchor_mismatch',
+      ...at,
+      sequence: events[index]?.sequence,
+      detail: `Event ${index} does not match the head anchored at ${anchor.anchoredAt}`,
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Bytes covered by an anchor's signature
+ */
+function anchorPayload(anchor: Omit<ChainAnchor, 'signature'>): Buffer {
+  const { scope, id, headHash, eventCount, anchoredAt, keyId, algorithm } = anchor;
+  return Buffer.from(
+    canonicalJson({ scope, id, headHash, eventCount, anchoredAt, keyId, algorithm }),
+    'utf-8'
+  );
+}
+
+/**
+ * Sign a chain head
+ */
+export function signChainHead(
+  head: Pick<ChainAnchor, 'scope' | 'id' | 'headHash' | 'eventCount'>,
+  signingKey: AnchorSigningKey,
+  anchoredAt: Date = new Date()
+): ChainAnchor {
+  const unsigned = {
+    ...head,
+    anchoredAt: anchoredAt.toISOString(),
+    keyId: signingKey.keyId,
+    algorithm: signingKey.algorithm,
+  };
+
+  return { ...unsigned, signature: signPayload(anchorPayload(unsigned), signingKey) };
+}
+
+/**
+ * Verify an anchor's signature (false for an unknown key)
+ */
+export function verifyAnchorSignature(
+  anchor: ChainAnchor,
+  keys: AnchorVerificationKeys
+): boolean {
+  return verifyPayloadSignature(
+    anchorPayload(anchor),
+    anchor.signature,
+    anchor.keyId,
+    anchor.algorithm,
+    keys
+  );
+}
+
+/**
+ * Sign bytes with a signing key
+ *
+ * @returns Base64 signature
+ */
+export function signPayload(payload: Buffer, signingKey: AnchorSigningKey): string {
+  return signingKey.algorithm === 'ed25519'
+    ? sign(null, payload, createPrivateKey(signingKey.key)).toString('base64')
+    : createHmac('sha256', signingKey.key).update(payload).digest('base64');
+}
+
+/**
+ * Verify a base64 signature over bytes (false for an unknown key)
+ */
+export function verifyPayloadSignature(
+  payload: Buffer,
+  signature: string,
+  keyId: string,
+  algorithm: ChainAnchorAlgorithm,
+  keys: AnchorVerificationKeys
+): boolean {
+  const key = keys[keyId];
+  if (!key || key.algorithm !== algorithm) {
+    return false;
+  }
+
+  const signatureBytes = Buffer.from(signature, 'base64');
+
+  try {
+    if (key.algorithm === 'ed25519') {
+      return verify(null, payload, createPublicKey(key.key), signatureBytes);
+    }
+
+    const expected = createHmac('sha256', key.key).update(payload).digest();
+    return expected.length === signatureBytes.length && timingSafeEqual(expected, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Anchor signing key from the environment
+ *
+ * AUDIT_CHAIN_SIGNING_KEY: HMAC secret or ed25519 PEM private key
+ * AUDIT_CHAIN_SIGNING_KEY_ID: key ID stored with anchors (default: "default")
+ * AUDIT_CHAIN_SIGNING_ALGORITHM: hmac-sha256 (default) or ed25519
+ *
+ * @returns The key, or undefined when anchoring is not configured
+ */
+export function getAnchorSigningKeyFromEnv(): AnchorSigningKey | undefined {
+  const key = process.env.AUDIT_CHAIN_SIGNING_KEY;
+  if (!key) {
+    return undefined;
+  }
+
+  const algorithm = process.env.AUDIT_CHAIN_SIGNING_ALGORITHM || 'hmac-sha256';
+  if (algorithm !== 'hmac-sha256' && algorithm !== 'ed25519') {
+    throw new Error(`Unsupported AUDIT_CHAIN_SIGNING_ALGORITHM: ${algorithm}`);
+  }
+
+  return {
+    keyId: process.env.AUDIT_CHAIN_SIGNING_KEY_ID || 'default',
+    algorithm,
+    key,
+  };
+}
+
+/**
+ * Anchor verification keys from the environment
+ *
+ * The current signing key, plus retired keys from AUDIT_CHAIN_VERIFY_KEYS
+ * (JSON: {"<keyId>": {"algorithm": "...", "key": "..."}}) so anchors signed
+ * before a key rotation still verify.
+ */
+export function getAnchorVerificationKeysFromEnv(): AnchorVerificationKeys {
+  const keys: AnchorVerificationKeys = {};
+
+  const retired = process.env.AUDIT_CHAIN_VERIFY_KEYS;
+  if (retired) {
+    Object.assign(keys, JSON.parse(retired) as AnchorVerificationKeys);
+  }
+
+  const signingKey = getAnchorSigningKeyFromEnv();
+  if (signingKey) {
+    keys[signingKey.keyId] = { algorithm: signingKey.algorithm, key: signingKey.key };
+  }
+
+  return keys;
+}
@@ -0,0 +1,546 @@
+/**
+ * Audit Export Service
+ *
+ * Assembles one case, or all cases of a customer/date range, into a single
+ * signed ZIP for eDiscovery and audit requests:
+ * - cases/{caseId}/incoming/...           original upload
+ * - cases/{caseId}/audit/...              canonical JSON, committee outputs, corrections, Zoho payloads
+ * - cases/{caseId}/zoho-logs/...          Zoho API request/response logs
+ * - cases/{caseId}/events.jsonl           hash-chained event log (+ chain-verification.json)
+ * - cases/{caseId}/timeline.json          case timeline supplied by the caller
+ * - summary.html                          human-readable summary
+ * - manifest.json, manifest.sig.json      file hashes, and the signature over them
+ *
+ * Content is redacted for the requesting role (ROLE_EXPORT_CONFIG): JSON is
+ * run through the role's redaction policy, and files that can't be redacted
+ * (original spreadsheets) are left out for roles that may not see them.
+ * Envelope-encrypted artifacts are decrypted for DECRYPTION_ROLES only; other
+ * roles get encrypted fields as stored.
+ */
+
+import JSZip from 'jszip';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { BlobLayoutManager } from './blob-layout.js';
+import { EnvelopeEncryption } from './envelope-encryption.js';
+import { EventLoggerService } from './event-logger.js';
+import { RedactionService } from './redaction.js';
+import {
+  AnchorSigningKey,
+  AnchorVerificationKeys,
+  signPayload,
+  verifyPayloadSignature,
+} from './audit-chain.js';
+import {
+  AuditExportFileEntry,
+  AuditExportManifest,
+  AuditExportScope,
+  AuditExportSignature,
+  BlobContainer,
+  BlobPath,
+  ChainVerificationResult,
+  DECRYPTION_ROLES,
+  ExportRoleConfig,
+  ROLE_EXPORT_CONFIG,
+} from './types.js';
+
+/**
+ * Most cases in one export; larger ranges must be split
+ */
+export const MAX_EXPORT_CASES = 200;
+
+/**
+ * Source of Zoho API logs for a case (implemented by the Zoho BlobAuditStore)
+ */
+export interface ZohoAuditLogSource {
+  listAuditLogsForCase(caseId: string, startDate: Date, endDate: Date): Promise<string[]>;
+  getAuditLog(blobPath: string): Promise<unknown>;
+}
+
+/**
+ * Timeline entry of a case (e.g. from the case event store)
+ */
+export interface AuditExportTimelineEntry {
+  timestamp: string;
+  eventType: string;
+  sequence?: number;
+  userId?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Case to export
+ */
+export interface AuditExportCase {
+  caseId: string;
+  tenantId: string;
+  createdAt: string;
+  updatedAt?: string;
+  customerName?: string;
+  status?: string;
+  fileName?: string;
+  timeline?: AuditExportTimelineEntry[];
+}
+
+/**
+ * Audit export request
+ */
+export interface AuditExportRequest {
+  cases: AuditExportCase[];
+  requestedBy: { userId: string; role: string };
+  scope: AuditExportScope;
+}
+
+/**
+ * Stored audit export
+ */
+export interface AuditExportResult {
+  exportId: string;
+  blobPath: BlobPath;
+  /** SHA-256 of the ZIP */
+  sha256: string;
+  sizeBytes: number;
+  manifest: AuditExportManifest;
+}
+
+/**
+ * Audit export service options
+ */
+export interface AuditExportOptions {
+  /** Key for signing the manifest */
+  signingKey: AnchorSigningKey;
+  /** Zoho API logs (omitted from the export without one) */
+  zohoLogSource?: ZohoAuditLogSource;
+  /** Hash-chained event log (default: read from the same storage account) */
+  eventLogger?: EventLoggerService;
+  /** Decrypts envelope-encrypted artifacts (left encrypted without one) */
+  encryption?: EnvelopeEncryption;
+}
+
+/**
+ * File to add to the export
+ */
+export interface AuditExportFile {
+  /** Path inside the ZIP */
+  path: string;
+  content: Buffer;
+  redacted: boolean;
+}
+
+/**
+ * Per-case content of the summary page
+ */
+export interface AuditExportCaseSummary {
+  case: AuditExportCase;
+  fileCount: number;
+  chain?: Pick<ChainVerificationResult, 'valid' | 'eventCount' | 'problems'>;
+}
+
+/**
+ * Audit Export Service
+ */
+export class AuditExportService {
+  private layoutManager: BlobLayoutManager;
+  private redactionService: RedactionService;
+  private eventLogger: EventLoggerService;
+
+  constructor(
+    storageAccountUrl: string,
+    private options: AuditExportOptions
+  ) {
+    this.layoutManager = new BlobLayoutManager(storageAccountUrl, { encryption: options.encryption });
+    this.redactionService = new RedactionService();
+    // bufferSize 1 and no signing key: read-only, no timers
+    this.eventLogger = options.eventLogger ?? new EventLoggerService(storageAccountUrl, { bufferSize: 1 });
+  }
+
+  /**
+   * Assemble, sign and store an export package
+   *
+   * @param request - Cases to export (one tenant) and who is asking
+   * @returns The stored package
+   */
+  async exportCases(request: AuditExportRequest): Promise<AuditExportResult> {
+    const { cases, requestedBy, scope } = request;
+
+    const roleConfig = ROLE_EXPORT_CONFIG[requestedBy.role];
+    if (!roleConfig) {
+      throw new Error(`Unknown role: ${requestedBy.role}. Valid roles: ${Object.keys(ROLE_EXPORT_CONFIG).join(', ')}`);
+    }
+    if (cases.length === 0) {
+      throw new Error('No cases to export');
+    }
+    if (cases.length > MAX_EXPORT_CASES) {
+      throw new Error(`Too many cases to export: ${cases.length} (max ${MAX_EXPORT_CASES})`);
+    }
+
+    const tenantId = cases[0].tenantId;
+    if (cases.some((c) => c.tenantId !== tenantId)) {
+      throw new Error('All exported cases must belong to one tenant');
+    }
+
+    const exportId = uuidv4();
+    const createdAt = new Date();
+    const files: AuditExportFile[] = [];
+    const summaries: AuditExportCaseSummary[] = [];
+    const omitted: AuditExportManifest['omitted'] = [];
+
+    for (const exportCase of cases) {
+      const caseFiles: AuditExportFile[] = [];
+      const summary = await this.collectCase(
+        exportCase,
+        roleConfig,
+        DECRYPTION_ROLES.includes(requestedBy.role),
+        caseFiles,
+        omitted
+      );
+      files.push(...caseFiles);
+      summaries.push({ ...summary, fileCount: caseFiles.length });
+    }
+
+    const { zip, manifest } = await buildExportArchive(
+      {
+        version: '1.0',
+        exportId,
+        tenantId,
+        createdAt: createdAt.toISOString(),
+        requestedBy,
+        scope,
+        redactionPolicy: roleConfig.redactionPolicy,
+        caseIds: cases.map((c) => c.caseId),
+        omitted,
+      },
+      files,
+      summaries,
+      this.options.signingKey
+    );
+
+    const blobPath = this.layoutManager.getAuditExportPath(tenantId, exportId, createdAt);
+    const { sha256 } = await this.layoutManager.storeBlob(blobPath, zip, {
+      exportId,
+      tenantId,
+      requestedBy: requestedBy.userId,
+      role: requestedBy.role,
+      caseCount: String(cases.length),
+    });
+
+    return { exportId, blobPath, sha256, sizeBytes: zip.length, manifest };
+  }
+
+  /**
+   * Add a case's artifacts, Zoho logs, events and timeline to the files
+   *
+   * @param decrypt - Whether the requesting role may read decrypted artifacts
+   * @returns The case (with its redacted timeline) and its chain verification
+   */
+  private async collectCase(
+    exportCase: AuditExportCase,
+    roleConfig: ExportRoleConfig,
+    decrypt: boolean,
+    files: AuditExportFile[],
+    omitted: AuditExportManifest['omitted']
+  ): Promise<Omit<AuditExportCaseSummary, 'fileCount'>> {
+    const { caseId } = exportCase;
+    const policy = roleConfig.redactionPolicy;
+    const caseDir = `cases/${caseId}`;
+
+    // Original upload and audit artifacts
+    for (const [container, dir] of [
+      [BlobContainer.OrdersIncoming, 'incoming'],
+      [BlobContainer.OrdersAudit, 'audit'],
+    ] as const) {
+      for (const name of await this.layoutManager.listBlobs(container, `${caseId}/`)) {
+        const source = `${container}/${name}`;
+        const path = `${caseDir}/${dir}/${name.slice(caseId.length + 1)}`;
+
+        if (!isJsonPath(name) && !roleConfig.includeOriginals) {
+          omitted.push({ caseId, source, reason: 'Not redactable; not included for this role' });
+          continue;
+        }
+
+        try {
+          const blobPath = { container, path: name };
+          const content = decrypt
+            ? await this.layoutManager.downloadDecryptedBlob(blobPath)
+            : await this.layoutManager.downloadBlob(blobPath);
+          files.push(isJsonPath(name)
+            ? { path, ...redactExportContent(name, content, policy, this.redactionService) }
+            : { path, content, redacted: false });
+        } catch (error) {
+          omitted.push({ caseId, source, reason: `Unreadable: ${errorMessage(error)}` });
+        }
+      }
+    }
+
+    // Zoho API logs
+    const { zohoLogSource } = this.options;
+    if (zohoLogSource) {
+      const startDate = new Date(exportCase.createdAt);
+      const endDate = exportCase.updatedAt ? new Date(exportCase.updatedAt) : new Date();
+
+      for (const logPath of await zohoLogSource.listAuditLogsForCase(caseId, startDate, endDate)) {
+        try {
+          const entry = await zohoLogSource.getAuditLog(logPath);
+          if (entry) {
+            files.push({
+              path: `${caseDir}/zoho-logs/${logPath}`,
+              ...redactExportContent(logPath, Buffer.from(JSON.stringify(entry, null, 2)), policy, this.redactionService),
+            });
+          }
+        } catch (error) {
+          omitted.push({ caseId, source: `zoho-audit/${logPath}`, reason: `Unreadable: ${errorMessage(error)}` });
+        }
+      }
+    } else {
+      omitted.push({ caseId, source: 'zoho-audit', reason: 'Zoho audit log store not configured' });
+    }
+
+    // Hash-chained event log, verified before redaction
+    let chain: AuditExportCaseSummary['chain'];
+    const events = await this.eventLogger.readCaseEvents(caseId);
+    if (events.length > 0) {
+      const verification = await this.eventLogger.verifyCaseChain(caseId);
+      chain = { valid: verification.valid, eventCount: verification.eventCount, problems: verification.problems };
+
+      const eventsJsonl = Buffer.from(events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+      files.push({
+        path: `${caseDir}/events.jsonl`,
+        ...redactExportContent('events.jsonl', eventsJsonl, policy, this.redactionService),
+      });
+      files.push({
+        path: `${caseDir}/chain-verification.json`,
+        content: Buffer.from(JSON.stringify(verification, null, 2)),
+        redacted: false,
+      });
+    }
+
+    // Case timeline
+    let timeline: AuditExportTimelineEntry[] | undefined;
+    if (exportCase.timeline) {
+      const redacted = redactExportContent(
+        'timeline.json',
+        Buffer.from(JSON.stringify(exportCase.timeline, null, 2)),
+        policy,
+        this.redactionService
+      );
+      files.push({ path: `${caseDir}/timeline.json`, ...redacted });
+      timeline = JSON.parse(redacted.content.toString('utf-8')) as AuditExportTimelineEntry[];
+    }
+
+    return { case: { ...exportCase, timeline }, chain };
+  }
+}
+
+function isJsonPath(path: string): boolean {
+  return /\.jsonl?$/i.test(path);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Redact JSON or JSONL content with a redaction policy
+ *
+ * Content that doesn't parse is returned as-is with redacted=false.
+ */
+export function redactExportContent(
+  path: string,
+  content: Buffer,
+  policyName: string,
+  redactionService: RedactionService
+): { content: Buffer; redacted: boolean } {
+  const redactValue = (value: unknown): unknown =>
+    redactionService.redact({ value }, policyName).value;
+
+  try {
+    const text = content.toString('utf-8');
+
+    if (/\.jsonl$/i.test(path)) {
+      const lines = text
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.stringify(redactValue(JSON.parse(line))));
+      return { content: Buffer.from(lines.join('\n') + '\n', 'utf-8'), redacted: true };
+    }
+
+    return {
+      content: Buffer.from(JSON.stringify(redactValue(JSON.parse(text)), null, 2), 'utf-8'),
+      redacted: true,
+    };
+  } catch {
+    return { content, redacted: false };
+  }
+}
+
+/**
+ * Build the ZIP: the files, summary.html, manifest.json and its signature
+ *
+ * @param manifestBase - Manifest without the file list
+ * @param files - Case files
+ * @param summaries - Per-case content for summary.html
+ * @param signingKey - Key for manifest.sig.json
+ */
+export async function buildExportArchive(
+  manifestBase: Omit<AuditExportManifest, 'files'>,
+  files: AuditExportFile[],
+  summaries: AuditExportCaseSummary[],
+  signingKey: AnchorSigningKey
+): Promise<{ zip: Buffer; manifest: AuditExportManifest }> {
+  const zip = new JSZip();
+  const entries: AuditExportFileEntry[] = [];
+
+  const summaryHtml = Buffer.from(
+    buildExportSummaryHtml({ ...manifestBase, files: [] }, summaries),
+    'utf-8'
+  );
+
+  for (const file of [...files, { path: 'summary.html', content: summaryHtml, redacted: false }]) {
+    zip.file(file.path, file.content);
+    entries.push({
+      path: file.path,
+      sha256: createHash('sha256').update(file.content).digest('hex'),
+      sizeBytes: file.content.length,
+      redacted: file.redacted,
+    });
+  }
+
+  const manifest: AuditExportManifest = { ...manifestBase, files: entries };
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8');
+  const signature: AuditExportSignature = {
+    keyId: signingKey.keyId,
+    algorithm: signingKey.algorithm,
+    manifestSha256: createHash('sha256').update(manifestBytes).digest('hex'),
+    signature: signPayload(manifestBytes, signingKey),
+  };
+
+  zip.file('manifest.json', manifestBytes);
+  zip.file('manifest.sig.json', JSON.stringify(signature, null, 2));
+
+  const content = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+  });
+
+  return { zip: content, manifest };
+}
+
+/**
+ * Verify an export package: the manifest signature and every listed file's hash
+ *
+ * @returns Problems found (empty when the package is intact)
+ */
+export async function verifyExportArchive(
+  zipContent: Buffer,
+  keys: AnchorVerificationKeys
+): Promise<string[]> {
+  const zip = await JSZip.loadAsync(zipContent);
+  const manifestFile = zip.file('manifest.json');
+  const signatureFile = zip.file('manifest.sig.json');
+
+  if (!manifestFile || !signatureFile) {
+    return ['manifest.json or manifest.sig.json is missing'];
+  }
+
+  const problems: string[] = [];
+  const manifestBytes = await manifestFile.async('nodebuffer');
+  const signature = JSON.parse(await signatureFile.async('string')) as AuditExportSignature;
+
+  if (!verifyPayloadSignature(manifestBytes, signature.signature, signature.keyId, signature.algorithm, keys)) {
+    problems.push(`Manifest signature does not verify with key ${signature.keyId}`);
+  }
+
+  const manifest = JSON.parse(manifestBytes.toString('utf-8')) as AuditExportManifest;
+  for (const entry of manifest.files) {
+    const file = zip.file(entry.path);
+    if (!file) {
+      problems.push(`Missing file: ${entry.path}`);
+      continue;
+    }
+
+    const sha256 = createHash('sha256').update(await file.async('nodebuffer')).digest('hex');
+    if (sha256 !== entry.sha256) {
+      problems.push(`Modified file: ${entry.path}`);
+    }
+  }
+
+  return problems;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Human-readable summary page of an export
+ */
+export function buildExportSummaryHtml(
+  manifest: AuditExportManifest,
+  summaries: AuditExportCaseSummary[]
+): string {
+  const scope = manifest.scope.type === 'case'
+    ? `Case ${manifest.scope.caseId}`
+    : `${manifest.scope.customer ? `Customer "${manifest.scope.customer}", ` : ''}${manifest.scope.dateFrom} to ${manifest.scope.dateTo}`;
+
+  const caseSections = summaries.map(({ case: c, fileCount, chain }) => {
+    const chainStatus = !chain
+      ? 'No chained events'
+      : chain.valid
+        ? `Verified (${chain.eventCount} events)`
+        : `FAILED: ${chain.problems.map((p) => `${p.type} at #${p.index}`).join(', ')}`;
+
+    const timelineRows = (c.timeline ?? [])
+      .map((e) => `<tr><td>${escapeHtml(e.timestamp)}</td><td>${escapeHtml(e.eventType)}</td><td>${escapeHtml(e.userId)}</td></tr>`)
+      .join('\n');
+
+    return `<section>
+<h2>Case ${escapeHtml(c.caseId)}</h2>
+<table>
+<tr><th>Customer</th><td>${escapeHtml(c.customerName)}</td></tr>
+<tr><th>Status</th><td>${escapeHtml(c.status)}</td></tr>
+<tr><th>File</th><td>${escapeHtml(c.fileName)}</td></tr>
+<tr><th>Created</th><td>${escapeHtml(c.createdAt)}</td></tr>
+<tr><th>Files in export</th><td>${fileCount}</td></tr>
+<tr><th>Event chain</th><td>${escapeHtml(chainStatus)}</td></tr>
+</table>
+${timelineRows ? `<h3>Timeline</h3>\n<table>\n<tr><th>Time</th><th>Event</th><th>User</th></tr>\n${timelineRows}\n</table>` : ''}
+</section>`;
+  });
+
+  const omittedRows = manifest.omitted
+    .map((o) => `<tr><td>${escapeHtml(o.caseId)}</td><td>${escapeHtml(o.source)}</td><td>${escapeHtml(o.reason)}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Audit export ${escapeHtml(manifest.exportId)}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Audit export</h1>
+<table>
+<tr><th>Export ID</th><td>${escapeHtml(manifest.exportId)}</td></tr>
+<tr><th>Tenant</th><td>${escapeHtml(manifest.tenantId)}</td></tr>
+<tr><th>Scope</th><td>${escapeHtml(scope)}</td></tr>
+<tr><th>Created</th><td>${escapeHtml(manifest.createdAt)}</td></tr>
+<tr><th>Requested by</th><td>${escapeHtml(manifest.requestedBy.userId)} (${escapeHtml(manifest.requestedBy.role)})</td></tr>
+<tr><th>Redaction policy</th><td>${escapeHtml(manifest.redactionPolicy)}</td></tr>
+<tr><th>Cases</th><td>${manifest.caseIds.length}</td></tr>
+</table>
+<p>File hashes are listed in manifest.json; manifest.sig.json holds the signature over it.</p>
+${caseSections.join('\n')}
+${omittedRows ? `<h2>Omitted</h2>\n<table>\n<tr><th>Case</th><th>Source</th><th>Reason</th></tr>\n${omittedRows}\n</table>` : ''}
+</body>
+</html>
+`;
+}
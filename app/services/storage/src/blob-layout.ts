@@ -5,6 +5,10 @@
  * - orders-incoming/{caseId}/original.xlsx
  * - orders-audit/{caseId}/bundle.json
  * - logs-archive/{date}/events.jsonl
+ * - logs-archive/{date}/anchors/{timestamp}.json
+ *
+ * With envelope encryption configured, originals are stored encrypted and
+ * decrypted on download, and field-encrypted JSON is decrypted on read.
  */
 
 import {
@@ -15,7 +19,20 @@ import {
 import { DefaultAzureCredential } from '@azure/identity';
 import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { AuditEvent, BlobContainer, BlobPath, StorageTier } from './types.js';
+import {
+  EnvelopeEncryption,
+  fromEncryptionMetadata,
+  getFieldEnvelope,
+  toEncryptionMetadata,
+} from './envelope-encryption.js';
+import {
+  AuditEvent,
+  BlobContainer,
+  BlobPath,
+  BlobRetentionInfo,
+  ChainScope,
+  StorageTier,
+} from './types.js';
 
 /**
  * Content type mappings for common file extensions
@@ -30,6 +47,14 @@ const CONTENT_TYPE_MAP: Record<string, string> = {
   '.zip': 'application/zip',
 };
 
+/**
+ * Blob layout manager options
+ */
+export interface BlobLayoutOptions {
+  /** Envelope encryption for originals and field-encrypted JSON (plaintext without) */
+  encryption?: EnvelopeEncryption;
+}
+
 /**
  * Blob layout manager for structured storage paths
  */
@@ -37,7 +62,10 @@ export class BlobLayoutManager {
   private blobServiceClient: BlobServiceClient;
   private containerClients: Map<BlobContainer, ContainerClient> = new Map();
 
-  constructor(private storageAccountUrl: string) {
+  constructor(
+    private storageAccountUrl: string,
+    private options: BlobLayoutOptions = {}
+  ) {
     const credential = new DefaultAzureCredential();
     this.blobServiceClient = new BlobServiceClient(
       storageAccountUrl,
@@ -90,6 +118,9 @@ export class BlobLayoutManager {
 
   /**
    * Store the original uploaded file
+   *
+   * Encrypted under the tenant's data key (metadata.tenantId) when encryption
+   * is configured; the returned hash and size are of the plaintext.
    */
   async storeOriginalFile(
     caseId: string,
@@ -109,7 +140,7 @@ export class BlobLayoutManager {
       blobContentType: this.getContentType(filename),
     };
 
-    const fullMetadata = {
+    const fullMetadata: Record<string, string> = {
       ...metadata,
       caseId,
       originalFilename: filename,
@@ -117,7 +148,23 @@ export class BlobLayoutManager {
       uploadedAt: new Date().toISOString(),
     };
 
-    await blockBlobClient.upload(content, content.length, {
+    let stored = content;
+    const { encryption } = this.options;
+    if (encryption) {
+      if (!metadata?.tenantId) {
+        throw new Error('tenantId metadata is required to encrypt the original file');
+      }
+
+      const { ciphertext, envelope } = await encryption.encryptFile(
+        metadata.tenantId,
+        content,
+        getEncryptionContext(blobPath)
+      );
+      stored = ciphertext;
+      Object.assign(fullMetadata, toEncryptionMetadata(envelope));
+    }
+
+    await blockBlobClient.upload(stored, stored.length, {
       blobHTTPHeaders: headers,
       metadata: fullMetadata,
     });
@@ -130,24 +177,16 @@ export class BlobLayoutManager {
   }
 
   /**
-   * Download the original file
+   * Download the original file (decrypted if stored encrypted)
    */
   async downloadOriginalFile(
     caseId: string,
     filename: string
   ): Promise<Buffer> {
     const blobPath = this.getOriginalFilePath(caseId, filename);
-    const containerClient = await this.getContainerClient(blobPath.container);
-    const blockBlobClient = containerClient.getBlockBlobClient(blobPath.path);
-
-    const downloadResponse = await blockBlobClient.download(0);
-    const chunks: Buffer[] = [];
-
-    for await (const chunk of downloadResponse.readableStreamBody as AsyncIterable<Buffer>) {
-      chunks.push(chunk);
-    }
+    const { content, metadata } = await this.readBlob(blobPath);
 
-    return Buffer.concat(chunks);
+    return this.decryptFile(blobPath, content, metadata);
   }
 
   // ==========================================
@@ -233,6 +272,40 @@ export class BlobLayoutManager {
     };
   }
 
+  /**
+   * Get path for a case's hash chain index (one line per event: sequence, hash, ts)
+   * Layout: orders-audit/{caseId}/chain.jsonl
+   */
+  getCaseChainIndexPath(caseId: string): BlobPath {
+    return {
+      container: BlobContainer.OrdersAudit,
+      path: `${caseId}/chain.jsonl`,
+    };
+  }
+
+  /**
+   * Get path for a signed chain anchor
+   * Layout: logs-archive/{date}/anchors/{timestamp}.json (log chain)
+   *         orders-audit/{caseId}/anchors/{timestamp}.json (case chain)
+   */
+  getChainAnchorPath(scope: ChainScope, id: string, anchoredAt: string): BlobPath {
+    const dir = this.getChainAnchorDir(scope, id);
+    return {
+      container: dir.container,
+      path: `${dir.path}${anchoredAt.replace(/[:.]/g, '-')}.json`,
+    };
+  }
+
+  /**
+   * Get the prefix under which a chain's anchors are stored
+   */
+  getChainAnchorDir(scope: ChainScope, id: string): BlobPath {
+    return {
+      container: scope === 'log' ? BlobContainer.LogsArchive : BlobContainer.OrdersAudit,
+      path: `${id}/anchors/`,
+    };
+  }
+
   /**
    * Store JSON artifact in audit container
    */
@@ -266,22 +339,143 @@ export class BlobLayoutManager {
     return { sha256 };
   }
 
+  /**
+   * Store a binary blob (content type from the path's extension)
+   */
+  async storeBlob(
+    blobPath: BlobPath,
+    content: Buffer,
+    metadata?: Record<string, string>
+  ): Promise<{ sha256: string }> {
+    const containerClient = await this.getContainerClient(blobPath.container);
+    const blockBlobClient = containerClient.getBlockBlobClient(blobPath.path);
+
+    const sha256 = createHash('sha256').update(content).digest('hex');
+
+    await blockBlobClient.upload(content, content.length, {
+      blobHTTPHeaders: { blobContentType: this.getContentType(blobPath.path) },
+      metadata: {
+        ...metadata,
+        sha256,
+        storedAt: new Date().toISOString(),
+      },
+    });
+
+    return { sha256 };
+  }
+
+  /**
+   * Download a blob's content
+   */
+  async downloadBlob(blobPath: BlobPath): Promise<Buffer> {
+    const containerClient = await this.getContainerClient(blobPath.container);
+    const blobClient = containerClient.getBlobClient(blobPath.path);
+
+    const downloadResponse = await blobClient.download(0);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of downloadResponse.readableStreamBody as AsyncIterable<Buffer>) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Download a blob's content, decrypting encrypted files and, when encryption
+   * is configured, field-encrypted JSON
+   */
+  async downloadDecryptedBlob(blobPath: BlobPath): Promise<Buffer> {
+    const { content, metadata } = await this.readBlob(blobPath);
+    const decrypted = await this.decryptFile(blobPath, content, metadata);
+
+    const { encryption } = this.options;
+    if (!encryption || !/\.json$/i.test(blobPath.path)) {
+      return decrypted;
+    }
+
+    const document: unknown = JSON.parse(decrypted.toString('utf-8'));
+    if (!getFieldEnvelope(document)) {
+      return decrypted;
+    }
+
+    return Buffer.from(JSON.stringify(await encryption.decryptFields(document), null, 2), 'utf-8');
+  }
+
   /**
    * Read JSON artifact from audit container
+   * (encrypted fields are decrypted when encryption is configured)
    */
   async readAuditArtifact<T>(blobPath: BlobPath): Promise<T> {
+    const { content } = await this.readBlob(blobPath);
+    const document = JSON.parse(content.toString('utf-8')) as T;
+
+    const { encryption } = this.options;
+    return encryption ? encryption.decryptFields(document) : document;
+  }
+
+  /**
+   * Download a blob with its metadata
+   */
+  private async readBlob(
+    blobPath: BlobPath
+  ): Promise<{ content: Buffer; metadata: Record<string, string> }> {
     const containerClient = await this.getContainerClient(blobPath.container);
-    const blockBlobClient = containerClient.getBlockBlobClient(blobPath.path);
+    const blobClient = containerClient.getBlobClient(blobPath.path);
 
-    const downloadResponse = await blockBlobClient.download(0);
+    const downloadResponse = await blobClient.download(0);
     const chunks: Buffer[] = [];
 
     for await (const chunk of downloadResponse.readableStreamBody as AsyncIterable<Buffer>) {
       chunks.push(chunk);
     }
 
-    const buffer = Buffer.concat(chunks);
-    return JSON.parse(buffer.toString('utf-8'));
+    return { content: Buffer.concat(chunks), metadata: downloadResponse.metadata || {} };
+  }
+
+  /**
+   * Decrypt a blob stored encrypted whole (other blobs are returned as is)
+   */
+  private async decryptFile(
+    blobPath: BlobPath,
+    content: Buffer,
+    metadata: Record<string, string>
+  ): Promise<Buffer> {
+    const envelope = fromEncryptionMetadata(metadata);
+    if (!envelope) {
+      return content;
+    }
+
+    const { encryption } = this.options;
+    if (!encryption) {
+      throw new Error(`${blobPath.container}/${blobPath.path} is encrypted and no encryption is configured`);
+    }
+
+    return encryption.decryptFile(content, envelope, getEncryptionContext(blobPath));
+  }
+
+  /**
+   * Get path for an audit export package
+   * Layout: orders-audit/exports/{tenantId}/{date}/{exportId}.zip
+   */
+  getAuditExportPath(tenantId: string, exportId: string, date?: Date): BlobPath {
+    const d = date || new Date();
+    const dateStr = d.toISOString().slice(0, 10); // YYYY-MM-DD
+    return {
+      container: BlobContainer.OrdersAudit,
+      path: `exports/${tenantId}/${dateStr}/${exportId}.zip`,
+    };
+  }
+
+  /**
+   * Get path for a data-subject request record (inventory and erasure, one line each)
+   * Layout: orders-audit/data-subject-requests/{tenantId}/{requestId}.jsonl
+   */
+  getDataSubjectRequestPath(tenantId: string, requestId: string): BlobPath {
+    return {
+      container: BlobContainer.OrdersAudit,
+      path: `data-subject-requests/${tenantId}/${requestId}.jsonl`,
+    };
   }
 
   // ==========================================
@@ -315,16 +509,38 @@ export class BlobLayoutManager {
     };
   }
 
+  /**
+   * Get the log an event is appended to, picked by the event's timestamp so a
+   * buffered event lands in the log of the day it was chained into
+   */
+  getEventLogPathFor(event: AuditEvent | Record<string, unknown>, useHourly: boolean = false): BlobPath {
+    const date = typeof event.ts === 'string' ? new Date(event.ts) : undefined;
+    return useHourly ? this.getHourlyEventLogPath(date) : this.getEventLogPath(date);
+  }
+
   /**
    * Append event to JSONL log (uses append blob for true append-only)
+   *
+   * @param appendPosition - Only append if the log is this many bytes long
+   * @returns The log's length after the append
    */
   async appendToEventLog(
     event: AuditEvent | Record<string, unknown>,
-    useHourly: boolean = false
-  ): Promise<void> {
-    const blobPath = useHourly
-      ? this.getHourlyEventLogPath()
-      : this.getEventLogPath();
+    useHourly: boolean = false,
+    appendPosition?: number
+  ): Promise<number> {
+    return this.appendJsonLine(this.getEventLogPathFor(event, useHourly), event, appendPosition);
+  }
+
+  /**
+   * Append a JSON value as a line to an append blob
+   *
+   * With an append position the append fails with a 412 when another writer
+   * has appended since the blob was that long.
+   *
+   * @returns The blob's length after the append
+   */
+  async appendJsonLine(blobPath: BlobPath, value: unknown, appendPosition?: number): Promise<number> {
     const containerClient = await this.getContainerClient(blobPath.container);
     const appendBlobClient = containerClient.getAppendBlobClient(blobPath.path);
 
@@ -339,11 +555,50 @@ export class BlobLayoutManager {
       // Blob may already exist, continue
     }
 
-    // Append the event as a JSONL line
-    const line = JSON.stringify(event) + '\n';
+    // Append the value as a JSONL line
+    const line = JSON.stringify(value) + '\n';
     const buffer = Buffer.from(line, 'utf-8');
 
-    await appendBlobClient.appendBlock(buffer, buffer.length);
+    const response = await appendBlobClient.appendBlock(buffer, buffer.length, {
+      conditions: appendPosition === undefined ? undefined : { appendPosition },
+    });
+
+    return Number(response.blobAppendOffset ?? appendPosition ?? 0) + buffer.length;
+  }
+
+  /**
+   * Read a JSONL blob (empty when the blob doesn't exist)
+   */
+  async readJsonLines<T>(blobPath: BlobPath): Promise<T[]> {
+    return (await this.readJsonLinesWithLength<T>(blobPath)).values;
+  }
+
+  /**
+   * Read a JSONL blob with its length in bytes (for a conditional append)
+   */
+  async readJsonLinesWithLength<T>(blobPath: BlobPath): Promise<{ values: T[]; length: number }> {
+    const containerClient = await this.getContainerClient(blobPath.container);
+    const blobClient = containerClient.getBlobClient(blobPath.path);
+
+    if (!(await blobClient.exists())) {
+      return { values: [], length: 0 };
+    }
+
+    const downloadResponse = await blobClient.download(0);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of downloadResponse.readableStreamBody as AsyncIterable<Buffer>) {
+      chunks.push(chunk);
+    }
+
+    const content = Buffer.concat(chunks);
+    const values = content
+      .toString('utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as T);
+
+    return { values, length: content.length };
   }
 
   // ==========================================
@@ -399,6 +654,77 @@ export class BlobLayoutManager {
     return blobs;
   }
 
+  /**
+   * List blob names under a prefix
+   */
+  async listBlobs(container: BlobContainer, prefix: string): Promise<string[]> {
+    const containerClient = await this.getContainerClient(container);
+    const blobs: string[] = [];
+
+    for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+      blobs.push(blob.name);
+    }
+
+    return blobs;
+  }
+
+  /**
+   * List blobs under a prefix with their legal hold and immutability state
+   */
+  async listBlobsWithRetention(
+    container: BlobContainer,
+    prefix: string
+  ): Promise<BlobRetentionInfo[]> {
+    const containerClient = await this.getContainerClient(container);
+    const blobs: BlobRetentionInfo[] = [];
+
+    for await (const blob of containerClient.listBlobsFlat({
+      prefix,
+      includeMetadata: true,
+      includeLegalHold: true,
+      includeImmutabilityPolicy: true,
+    })) {
+      blobs.push({
+        container,
+        path: blob.name,
+        createdOn: blob.properties.createdOn,
+        legalHold: blob.properties.legalHold ?? false,
+        immutabilityPolicyExpiresOn: blob.properties.immutabilityPolicyExpiresOn,
+        metadata: blob.metadata ?? {},
+      });
+    }
+
+    return blobs;
+  }
+
+  /**
+   * Get a blob's legal hold and immutability state
+   */
+  async getBlobRetention(blobPath: BlobPath): Promise<BlobRetentionInfo> {
+    const containerClient = await this.getContainerClient(blobPath.container);
+    const properties = await containerClient.getBlobClient(blobPath.path).getProperties();
+
+    return {
+      ...blobPath,
+      createdOn: properties.createdOn,
+      legalHold: properties.legalHold ?? false,
+      immutabilityPolicyExpiresOn: properties.immutabilityPolicyExpiresOn,
+      metadata: properties.metadata ?? {},
+    };
+  }
+
+  /**
+   * Delete a blob (no-op when it doesn't exist)
+   *
+   * Fails for blobs under a legal hold or an unexpired immutability policy.
+   */
+  async deleteBlob(blobPath: BlobPath): Promise<void> {
+    const containerClient = await this.getContainerClient(blobPath.container);
+    await containerClient.getBlobClient(blobPath.path).deleteIfExists({
+      deleteSnapshots: 'include',
+    });
+  }
+
   /**
    * Copy blob to archive tier
    */
@@ -413,3 +739,10 @@ export class BlobLayoutManager {
     return `${this.storageAccountUrl}/${blobPath.container}/${blobPath.path}`;
   }
 }
+
+/**
+ * Context bound to a blob's ciphertext, so it can't be moved to another path
+ */
+function getEncryptionContext(blobPath: BlobPath): string {
+  return `${blobPath.container}/${blobPath.path}`;
+}
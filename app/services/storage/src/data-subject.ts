@@ -0,0 +1,662 @@
+/**
+ * Data Subject Request Service
+ *
+ * Right-to-erasure requests for a person or customer:
+ * 1. Inventory: find every artifact referencing the subject - case blobs in
+ *    orders-incoming/orders-audit, the hash-chained event log, Zoho API logs,
+ *    and records in other stores (DataSubjectSource) - and plan an action for each.
+ * 2. Erasure: carry out the plan where retention allows. Blobs under WORM
+ *    retention can't be changed, so they are retained until their retention
+ *    ends (or crypto-shredded by a keyShredder, which the API does not
+ *    configure); blobs under legal hold are kept and reported.
+ *
+ * Both steps are recorded in orders-audit/data-subject-requests/, which holds
+ * a fingerprint of the subject instead of the identifiers themselves.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { BlobLayoutManager } from './blob-layout.js';
+import { EnvelopeEncryption, getFieldEnvelope } from './envelope-encryption.js';
+import { EventLoggerService } from './event-logger.js';
+import { ZohoAuditLogSource } from './audit-export.js';
+import { canonicalJson } from './audit-chain.js';
+import { DEFAULT_WORM_POLICIES } from './lifecycle-policy.js';
+import {
+  BlobContainer,
+  BlobPath,
+  BlobRetentionInfo,
+  DataSubject,
+  DataSubjectArtifact,
+  DataSubjectInventory,
+  DataSubjectMatch,
+  ErasureAction,
+  ErasureOutcome,
+  ErasureReport,
+  FieldEncryptionEnvelope,
+  WormPolicy,
+} from './types.js';
+
+/**
+ * Most cases searched in one request
+ */
+export const MAX_SUBJECT_CASES = 500;
+
+/**
+ * Replacement for erased identifiers
+ */
+export const ERASED_PLACEHOLDER = '[ERASED]';
+
+/**
+ * Store outside blob storage that can hold a data subject's data
+ * (e.g. case records, bot conversation references)
+ */
+export interface DataSubjectSource {
+  /** Reported as the artifacts' source */
+  readonly name: string;
+  /** Artifacts in this store referencing the subject, with their planned action */
+  findArtifacts(subject: DataSubject, tenantId: string): Promise<DataSubjectArtifact[]>;
+  /** Erase one artifact found by findArtifacts */
+  erase(artifact: DataSubjectArtifact, subject: DataSubject, tenantId: string): Promise<void>;
+}
+
+/**
+ * Destroys the key of an encrypted blob, making its content unreadable
+ */
+export interface BlobKeyShredder {
+  /** Whether the blob is encrypted under a key this shredder can destroy */
+  canShred(blob: BlobRetentionInfo): boolean;
+  shred(blob: BlobRetentionInfo): Promise<void>;
+}
+
+/**
+ * Case to search for the subject
+ */
+export interface DataSubjectCase {
+  caseId: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Data subject inventory request
+ */
+export interface DataSubjectInventoryRequest {
+  tenantId: string;
+  subject: DataSubject;
+  /** Cases to search (e.g. the tenant's cases for the customer) */
+  cases: DataSubjectCase[];
+  requestedBy: string;
+}
+
+/**
+ * Data subject request service options
+ */
+export interface DataSubjectRequestOptions {
+  /** Stores outside blob storage */
+  sources?: DataSubjectSource[];
+  /** Zoho API logs (not searched without one) */
+  zohoLogSource?: ZohoAuditLogSource;
+  /** Hash-chained event log (default: read from the same storage account) */
+  eventLogger?: EventLoggerService;
+  /** Key shredder for encrypted blobs under retention */
+  keyShredder?: BlobKeyShredder;
+  /** Container WORM policies, for blobs without a blob-level policy */
+  wormPolicies?: Record<BlobContainer, WormPolicy>;
+  /** Decrypts encrypted fields for searching and redaction */
+  encryption?: EnvelopeEncryption;
+}
+
+/**
+ * Data subject request record line (orders-audit/data-subject-requests/...)
+ */
+type RequestRecord =
+  | ({ type: 'inventory' } & DataSubjectInventory)
+  | ({ type: 'erasure' } & ErasureReport);
+
+/**
+ * Data Subject Request Service
+ */
+export class DataSubjectRequestService {
+  private layoutManager: BlobLayoutManager;
+  private eventLogger: EventLoggerService;
+  private wormPolicies: Record<BlobContainer, WormPolicy>;
+
+  constructor(
+    storageAccountUrl: string,
+    private options: DataSubjectRequestOptions = {}
+  ) {
+    this.layoutManager = new BlobLayoutManager(storageAccountUrl, { encryption: options.encryption });
+    // bufferSize 1 and no signing key: read-only, no timers
+    this.eventLogger = options.eventLogger ?? new EventLoggerService(storageAccountUrl, { bufferSize: 1 });
+    this.wormPolicies = options.wormPolicies ?? DEFAULT_WORM_POLICIES;
+  }
+
+  /**
+   * Find every artifact referencing the subject and plan its erasure
+   *
+   * @returns The inventory, also recorded in orders-audit
+   */
+  async buildInventory(request: DataSubjectInventoryRequest): Promise<DataSubjectInventory> {
+    const { tenantId, subject, cases, requestedBy } = request;
+
+    validateSubject(subject);
+    if (cases.length > MAX_SUBJECT_CASES) {
+      throw new Error(`Too many cases to search: ${cases.length} (max ${MAX_SUBJECT_CASES})`);
+    }
+
+    const now = new Date();
+    const artifacts: DataSubjectArtifact[] = [];
+
+    for (const source of this.options.sources ?? []) {
+      artifacts.push(...await source.findArtifacts(subject, tenantId));
+    }
+
+    // A customer's cases found in other stores (e.g. by customer name on the
+    // case record) are theirs; a person's are only if the case content names them
+    const referencedCases = new Set(
+      subject.type === 'customer'
+        ? artifacts.map((a) => a.caseId).filter((id): id is string => !!id)
+        : []
+    );
+
+    const caseIds: string[] = [];
+    for (const subjectCase of cases) {
+      const caseArtifacts = await this.inventoryCase(
+        subjectCase,
+        subject,
+        referencedCases.has(subjectCase.caseId),
+        now
+      );
+
+      if (caseArtifacts.length > 0 || artifacts.some((a) => a.caseId === subjectCase.caseId)) {
+        caseIds.push(subjectCase.caseId);
+      }
+      artifacts.push(...caseArtifacts);
+    }
+
+    const summary: Record<ErasureAction, number> = {
+      delete: 0,
+      redact: 0,
+      crypto_shred: 0,
+      retain: 0,
+      legal_hold: 0,
+    };
+    for (const artifact of artifacts) {
+      summary[artifact.action]++;
+    }
+
+    const inventory: DataSubjectInventory = {
+      requestId: uuidv4(),
+      tenantId,
+      subjectType: subject.type,
+      subjectFingerprint: getSubjectFingerprint(subject),
+      requestedBy,
+      createdAt: now.toISOString(),
+      caseIds,
+      artifacts,
+      summary,
+    };
+
+    await this.layoutManager.appendJsonLine(
+      this.layoutManager.getDataSubjectRequestPath(tenantId, inventory.requestId),
+      { type: 'inventory', ...inventory }
+    );
+
+    return inventory;
+  }
+
+  /**
+   * Read a request's inventory
+   *
+   * @returns The inventory, or null when the request doesn't exist
+   */
+  async getInventory(tenantId: string, requestId: string): Promise<DataSubjectInventory | null> {
+    const records = await this.layoutManager.readJsonLines<RequestRecord>(
+      this.layoutManager.getDataSubjectRequestPath(tenantId, requestId)
+    );
+    const record = records.find((r) => r.type === 'inventory');
+    if (!record) {
+      return null;
+    }
+
+    const { type: _type, ...inventory } = record;
+    return inventory as DataSubjectInventory;
+  }
+
+  /**
+   * Erase the artifacts of an inventory where retention allows
+   *
+   * Retention and legal holds are checked again for each blob, as they may
+   * have changed since the inventory. Each artifact's outcome is reported;
+   * one failure doesn't stop the others.
+   *
+   * @param inventory - Inventory from buildInventory
+   * @param subject - The same subject (checked against the inventory's fingerprint)
+   * @param executedBy - User carrying out the erasure
+   * @returns The report, also recorded in orders-audit
+   */
+  async executeErasure(
+    inventory: DataSubjectInventory,
+    subject: DataSubject,
+    executedBy: string
+  ): Promise<ErasureReport> {
+    if (getSubjectFingerprint(subject) !== inventory.subjectFingerprint) {
+      throw new Error('Subject does not match the request inventory');
+    }
+
+    const now = new Date();
+    const outcomes: ErasureOutcome[] = [];
+
+    for (const artifact of inventory.artifacts) {
+      const outcome: ErasureOutcome = {
+        source: artifact.source,
+        location: artifact.location,
+        caseId: artifact.caseId,
+        action: artifact.action,
+        status: 'erased',
+      };
+
+      try {
+        if (artifact.action === 'retain' || artifact.action === 'legal_hold') {
+          outcome.status = 'retained';
+          outcome.detail = artifact.reason;
+        } else if (artifact.source === 'blob') {
+          Object.assign(outcome, await this.eraseBlob(artifact, subject, now));
+        } else {
+          const source = this.options.sources?.find((s) => s.name === artifact.source);
+          if (!source) {
+            throw new Error(`Unknown source: ${artifact.source}`);
+          }
+          await source.erase(artifact, subject, inventory.tenantId);
+        }
+      } catch (error) {
+        outcome.status = 'failed';
+        outcome.detail = error instanceof Error ? error.message : String(error);
+      }
+
+      outcomes.push(outcome);
+    }
+
+    const report: ErasureReport = {
+      requestId: inventory.requestId,
+      tenantId: inventory.tenantId,
+      executedBy,
+      executedAt: now.toISOString(),
+      outcomes,
+      erased: outcomes.filter((o) => o.status === 'erased').length,
+      retained: outcomes.filter((o) => o.status === 'retained').length,
+      failed: outcomes.filter((o) => o.status === 'failed').length,
+    };
+
+    await this.layoutManager.appendJsonLine(
+      this.layoutManager.getDataSubjectRequestPath(inventory.tenantId, inventory.requestId),
+      { type: 'erasure', ...report }
+    );
+
+    return report;
+  }
+
+  /**
+   * Find the subject in a case's blobs, event log and Zoho logs
+   *
+   * @param referenced - Whether another store already ties the case to the subject
+   */
+  private async inventoryCase(
+    subjectCase: DataSubjectCase,
+    subject: DataSubject,
+    referenced: boolean,
+    now: Date
+  ): Promise<DataSubjectArtifact[]> {
+    const { caseId } = subjectCase;
+    const matched: DataSubjectArtifact[] = [];
+    const unscanned: BlobRetentionInfo[] = [];
+
+    for (const container of [BlobContainer.OrdersIncoming, BlobContainer.OrdersAudit]) {
+      for (const blob of await this.layoutManager.listBlobsWithRetention(container, `${caseId}/`)) {
+        // Chain index and anchors hold hashes only
+        if (isChainBlob(caseId, blob.path)) {
+          continue;
+        }
+
+        if (!isJsonPath(blob.path)) {
+          unscanned.push(blob);
+          continue;
+        }
+
+        const content = await this.layoutManager.downloadDecryptedBlob(blob);
+        const matches = findSubjectMatches(content.toString('utf-8'), subject);
+        if (matches.length > 0) {
+          matched.push(this.blobArtifact(blob, caseId, matches, now));
+        }
+      }
+    }
+
+    // Originals can't be searched; they belong to the subject when the case does
+    if (matched.length === 0 && !referenced) {
+      return [];
+    }
+
+    const artifacts = [
+      ...matched,
+      ...unscanned.map((blob) => this.blobArtifact(blob, caseId, ['case'], now)),
+    ];
+
+    const events = await this.eventLogger.readCaseEvents(caseId);
+    const eventMatches = findSubjectMatches(JSON.stringify(events), subject);
+    if (eventMatches.length > 0) {
+      const lastEvent = new Date(events[events.length - 1].ts);
+      artifacts.push({
+        source: 'event_log',
+        location: `${BlobContainer.LogsArchive}/${caseId}`,
+        caseId,
+        matches: eventMatches,
+        action: 'retain',
+        retainedUntil: addDays(lastEvent, this.wormPolicies[BlobContainer.LogsArchive].retentionDays).toISOString(),
+        reason: 'Hash-chained event log; events cannot be changed without breaking the chain',
+      });
+    }
+
+    const { zohoLogSource } = this.options;
+    if (zohoLogSource) {
+      const startDate = new Date(subjectCase.createdAt);
+      const endDate = subjectCase.updatedAt ? new Date(subjectCase.updatedAt) : now;
+
+      for (const logPath of await zohoLogSource.listAuditLogsForCase(caseId, startDate, endDate)) {
+        const entry = await zohoLogSource.getAuditLog(logPath);
+        const matches = findSubjectMatches(JSON.stringify(entry ?? null), subject);
+        if (matches.length > 0) {
+          artifacts.push({
+            source: 'zoho_log',
+            location: logPath,
+            caseId,
+            matches,
+            action: 'retain',
+            reason: 'Zoho API compliance log; kept for its own retention period',
+          });
+        }
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Plan a blob's erasure from its retention state
+   */
+  private blobArtifact(
+    blob: BlobRetentionInfo,
+    caseId: string,
+    matches: DataSubjectMatch[],
+    now: Date
+  ): DataSubjectArtifact {
+    return {
+      source: 'blob',
+      location: `${blob.container}/${blob.path}`,
+      caseId,
+      matches,
+      ...decideErasureAction(blob, this.wormPolicies[blob.container], {
+        redactable: isJsonPath(blob.path),
+        shreddable: this.options.keyShredder?.canShred(blob) ?? false,
+        now,
+      }),
+    };
+  }
+
+  /**
+   * Erase one blob, if its retention still allows the planned action
+   */
+  private async eraseBlob(
+    artifact: DataSubjectArtifact,
+    subject: DataSubject,
+    now: Date
+  ): Promise<Pick<ErasureOutcome, 'status' | 'detail'>> {
+    const blobPath = parseBlobLocation(artifact.location);
+    const blob = await this.layoutManager.getBlobRetention(blobPath);
+    const { keyShredder } = this.options;
+
+    const { action, reason } = decideErasureAction(blob, this.wormPolicies[blob.container], {
+      redactable: isJsonPath(blob.path),
+      shreddable: keyShredder?.canShred(blob) ?? false,
+      now,
+    });
+
+    if (action !== artifact.action) {
+      return action === 'retain' || action === 'legal_hold'
+        ? { status: 'retained', detail: reason }
+        : { status: 'failed', detail: `Planned ${artifact.action}, but the blob now needs ${action}` };
+    }
+
+    if (action === 'delete') {
+      await this.layoutManager.deleteBlob(blobPath);
+    } else if (action === 'redact') {
+      const stored = await this.layoutManager.downloadBlob(blobPath);
+      const { encryption } = this.options;
+      const envelope = encryption ? readFieldEnvelope(blobPath.path, stored) : undefined;
+
+      // Encrypted fields are redacted in the clear and stored encrypted again
+      let redacted: Buffer;
+      if (encryption && envelope) {
+        const document = await encryption.decryptFields(JSON.parse(stored.toString('utf-8')));
+        const reencrypted = await encryption.encryptFields(
+          envelope.tenantId,
+          redactSubjectValue(document, subject),
+          envelope.fields
+        );
+        redacted = Buffer.from(JSON.stringify(reencrypted, null, 2), 'utf-8');
+      } else {
+        redacted = redactSubjectContent(blobPath.path, stored, subject);
+      }
+
+      await this.layoutManager.storeBlob(
+        blobPath,
+        redacted,
+        { ...blob.metadata, erasedAt: now.toISOString() }
+      );
+    } else if (action === 'crypto_shred' && keyShredder) {
+      await keyShredder.shred(blob);
+    }
+
+    return { status: 'erased' };
+  }
+}
+
+function isJsonPath(path: string): boolean {
+  return /\.jsonl?$/i.test(path);
+}
+
+/**
+ * Field envelope of a stored JSON document, if its fields are encrypted
+ */
+function readFieldEnvelope(path: string, content: Buffer): FieldEncryptionEnvelope | undefined {
+  if (!/\.json$/i.test(path)) {
+    return undefined;
+  }
+
+  try {
+    return getFieldEnvelope(JSON.parse(content.toString('utf-8')));
+  } catch {
+    return undefined;
+  }
+}
+
+function isChainBlob(caseId: string, path: string): boolean {
+  return path === `${caseId}/chain.jsonl` || path.startsWith(`${caseId}/anchors/`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Split a "container/path" location
+ */
+function parseBlobLocation(location: string): BlobPath {
+  const slash = location.indexOf('/');
+  const container = location.slice(0, slash) as BlobContainer;
+
+  if (slash < 0 || !Object.values(BlobContainer).includes(container)) {
+    throw new Error(`Not a blob location: ${location}`);
+  }
+
+  return { container, path: location.slice(slash + 1) };
+}
+
+/**
+ * Check that a subject has something to search for
+ */
+export function validateSubject(subject: DataSubject): void {
+  if (subject.type !== 'person' && subject.type !== 'customer') {
+    throw new Error('Subject type must be "person" or "customer"');
+  }
+  if (subject.name !== undefined && subject.name.trim().length < 3) {
+    throw new Error('Subject name must have at least 3 characters');
+  }
+  if (subject.phone !== undefined && subject.phone.replace(/\D/g, '').length < 7) {
+    throw new Error('Subject phone must have at least 7 digits');
+  }
+  if (!subject.name && !subject.email && !subject.phone && !subject.userId) {
+    throw new Error('Subject needs at least one of name, email, phone or userId');
+  }
+}
+
+/**
+ * SHA-256 over the subject's normalized identifiers
+ */
+export function getSubjectFingerprint(subject: DataSubject): string {
+  const normalized = {
+    type: subject.type,
+    name: subject.name?.trim().toLowerCase(),
+    email: subject.email?.trim().toLowerCase(),
+    phone: subject.phone?.replace(/\D/g, ''),
+    userId: subject.userId?.trim(),
+  };
+
+  return createHash('sha256').update(canonicalJson(normalized), 'utf-8').digest('hex');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Patterns for each identifier of a subject
+ *
+ * Names and emails match case-insensitively (names on word boundaries);
+ * phones match with any separators between the digits.
+ */
+function subjectPatterns(subject: DataSubject): Array<{ match: DataSubjectMatch; pattern: RegExp }> {
+  const patterns: Array<{ match: DataSubjectMatch; pattern: RegExp }> = [];
+
+  if (subject.name?.trim()) {
+    const words = subject.name.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+    patterns.push({ match: 'name', pattern: new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'giu') });
+  }
+  if (subject.email?.trim()) {
+    patterns.push({ match: 'email', pattern: new RegExp(escapeRegExp(subject.email.trim()), 'gi') });
+  }
+  const digits = subject.phone?.replace(/\D/g, '');
+  if (digits) {
+    patterns.push({ match: 'phone', pattern: new RegExp(`(?<!\\d)${digits.split('').join('[\\s\\-.()]*')}(?!\\d)`, 'g') });
+  }
+  if (subject.userId?.trim()) {
+    patterns.push({ match: 'userId', pattern: new RegExp(escapeRegExp(subject.userId.trim()), 'g') });
+  }
+
+  return patterns;
+}
+
+/**
+ * Identifiers of the subject found in a text
+ */
+export function findSubjectMatches(text: string, subject: DataSubject): DataSubjectMatch[] {
+  return subjectPatterns(subject)
+    .filter(({ pattern }) => {
+      pattern.lastIndex = 0;
+      return pattern.test(text);
+    })
+    .map(({ match }) => match);
+}
+
+/**
+ * Replace the subject's identifiers in every string of a JSON value
+ * (numbers equal to the subject's phone are replaced too)
+ */
+export function redactSubjectValue(value: unknown, subject: DataSubject): unknown {
+  const patterns = subjectPatterns(subject);
+  const digits = subject.phone?.replace(/\D/g, '');
+
+  const walk = (v: unknown): unknown => {
+    if (typeof v === 'string') {
+      return patterns.reduce((text, { pattern }) => text.replace(pattern, ERASED_PLACEHOLDER), v);
+    }
+    if (typeof v === 'number' && digits && String(v) === digits) {
+      return ERASED_PLACEHOLDER;
+    }
+    if (Array.isArray(v)) {
+      return v.map(walk);
+    }
+    if (v !== null && typeof v === 'object') {
+      return Object.fromEntries(Object.entries(v).map(([key, inner]) => [key, walk(inner)]));
+    }
+    return v;
+  };
+
+  return walk(value);
+}
+
+/**
+ * Redact the subject from JSON or JSONL content
+ */
+export function redactSubjectContent(path: string, content: Buffer, subject: DataSubject): Buffer {
+  const text = content.toString('utf-8');
+
+  if (/\.jsonl$/i.test(path)) {
+    const lines = text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.stringify(redactSubjectValue(JSON.parse(line), subject)));
+    return Buffer.from(lines.join('\n') + '\n', 'utf-8');
+  }
+
+  return Buffer.from(JSON.stringify(redactSubjectValue(JSON.parse(text), subject), null, 2), 'utf-8');
+}
+
+/**
+ * Choose what an erasure can do with a blob
+ *
+ * Retention ends at the later of the blob's immutability policy and the
+ * container's WORM period from the blob's creation. Legal holds win over
+ * everything; under retention only crypto-shredding can erase.
+ */
+export function decideErasureAction(
+  blob: Pick<BlobRetentionInfo, 'createdOn' | 'legalHold' | 'immutabilityPolicyExpiresOn'>,
+  wormPolicy: WormPolicy | undefined,
+  options: { redactable: boolean; shreddable: boolean; now: Date }
+): Pick<DataSubjectArtifact, 'action' | 'retainedUntil' | 'reason'> {
+  if (blob.legalHold) {
+    return { action: 'legal_hold', reason: 'Legal hold is set on the blob' };
+  }
+
+  const retentionEnds = [
+    blob.immutabilityPolicyExpiresOn,
+    wormPolicy?.enabled && blob.createdOn ? addDays(blob.createdOn, wormPolicy.retentionDays) : undefined,
+  ].filter((d): d is Date => !!d);
+  const retainedUntil = retentionEnds.length > 0
+    ? new Date(Math.max(...retentionEnds.map((d) => d.getTime())))
+    : undefined;
+
+  if (retainedUntil && retainedUntil > options.now) {
+    return options.shreddable
+      ? { action: 'crypto_shred', reason: 'Under WORM retention; encrypted, so its key is destroyed' }
+      : {
+          action: 'retain',
+          retainedUntil: retainedUntil.toISOString(),
+          reason: 'Under WORM retention; erase when retention ends',
+        };
+  }
+
+  return options.redactable
+    ? { action: 'redact', reason: 'Subject identifiers are replaced' }
+    : { action: 'delete', reason: 'Content cannot be redacted' };
+}
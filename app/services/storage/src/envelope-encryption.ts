@@ -0,0 +1,495 @@
+/**
+ * Envelope Encryption
+ *
+ * Per-tenant data keys for order artifacts in blob storage:
+ * - Original uploads are encrypted whole; the envelope goes in blob metadata
+ * - Canonical orders keep their shape, with sensitive fields (customer contact,
+ *   prices, notes) replaced by ciphertext and the envelope under `_encryption`
+ *
+ * Each artifact gets its own AES-256-GCM content key, wrapped by the tenant's
+ * current data key. Rotating a tenant key only changes which version wraps new
+ * content keys: older versions stay in the key store, because WORM-retained
+ * artifacts can't be rewritten. Envelopes of mutable copies can be moved to
+ * the current version with rewrap().
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { DefaultAzureCredential } from '@azure/identity';
+import { SecretClient } from '@azure/keyvault-secrets';
+import {
+  FieldEncryptionEnvelope,
+  FileEncryptionEnvelope,
+  TenantDataKey,
+  WrappedContentKey,
+} from './types.js';
+
+const SCHEME = 'aes-256-gcm/v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Prefix of an encrypted field value
+ */
+export const ENCRYPTED_FIELD_PREFIX = 'enc:v1:';
+
+/**
+ * Canonical order fields encrypted by default ("*" matches every array element)
+ */
+export const SENSITIVE_ORDER_FIELDS: readonly string[] = [
+  // Customer contact
+  'customer.input_name',
+  'customer.selected_by_user',
+  'customer.zoho_customer_name',
+  'customer.contact',
+  'customer.email',
+  'customer.phone',
+  'customer.address',
+  'customer.evidence',
+  'customer.match.candidates',
+  'meta.uploader',
+  // Prices
+  'line_items.*.unit_price_source',
+  'line_items.*.unit_price_zoho',
+  'line_items.*.line_total_source',
+  'line_items.*.evidence.unit_price_source',
+  'line_items.*.evidence.line_total_source',
+  'totals.subtotal_source',
+  'totals.tax_total_source',
+  'totals.total_source',
+  'totals.evidence',
+  // Notes
+  'notes',
+  'meta.notes',
+  'line_items.*.notes',
+];
+
+/**
+ * Store of per-tenant data keys
+ */
+export interface TenantKeyStore {
+  /** Current key of a tenant (created on first use) */
+  getCurrentKey(tenantId: string): Promise<TenantDataKey>;
+  /** A specific key version, current or retired */
+  getKey(tenantId: string, version: string): Promise<TenantDataKey>;
+  /** Create a new current key; earlier versions stay readable */
+  rotateKey(tenantId: string): Promise<TenantDataKey>;
+}
+
+/**
+ * In-memory key store (tests and local runs; keys are lost on restart)
+ */
+export class LocalKeyStore implements TenantKeyStore {
+  private keys: Map<string, Buffer[]> = new Map();
+
+  async getCurrentKey(tenantId: string): Promise<TenantDataKey> {
+    const versions = this.keys.get(tenantId);
+    if (!versions) {
+      return this.rotateKey(tenantId);
+    }
+
+    return { tenantId, version: String(versions.length), key: versions[versions.length - 1] };
+  }
+
+  async getKey(tenantId: string, version: string): Promise<TenantDataKey> {
+    const key = this.keys.get(tenantId)?.[Number(version) - 1];
+    if (!key) {
+      throw new Error(`Data key version ${version} not found for tenant ${tenantId}`);
+    }
+
+    return { tenantId, version, key };
+  }
+
+  async rotateKey(tenantId: string): Promise<TenantDataKey> {
+    const versions = this.keys.get(tenantId) ?? [];
+    versions.push(randomBytes(KEY_BYTES));
+    this.keys.set(tenantId, versions);
+
+    return this.getCurrentKey(tenantId);
+  }
+}
+
+/**
+ * Key Vault key store: one secret per tenant, one secret version per key version
+ */
+export class KeyVaultKeyStore implements TenantKeyStore {
+  private static readonly CURRENT_KEY_TTL_MS = 5 * 60 * 1000;
+
+  private secretClient: SecretClient;
+  private versions: Map<string, TenantDataKey> = new Map();
+  private current: Map<string, { key: TenantDataKey; expiresAt: number }> = new Map();
+
+  constructor(vaultUrl: string) {
+    this.secretClient = new SecretClient(vaultUrl, new DefaultAzureCredential());
+  }
+
+  async getCurrentKey(tenantId: string): Promise<TenantDataKey> {
+    const cached = this.current.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.key;
+    }
+
+    try {
+      const secret = await this.secretClient.getSecret(getTenantKeySecretName(tenantId));
+      return this.cacheCurrent(this.toKey(tenantId, secret.properties.version, secret.value));
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return this.rotateKey(tenantId);
+      }
+      throw error;
+    }
+  }
+
+  async getKey(tenantId: string, version: string): Promise<TenantDataKey> {
+    const cached = this.versions.get(`${tenantId}/${version}`);
+    if (cached) {
+      return cached;
+    }
+
+    const secret = await this.secretClient.getSecret(getTenantKeySecretName(tenantId), { version });
+    const key = this.toKey(tenantId, secret.properties.version, secret.value);
+    this.versions.set(`${tenantId}/${version}`, key);
+    return key;
+  }
+
+  async rotateKey(tenantId: string): Promise<TenantDataKey> {
+    const secret = await this.secretClient.setSecret(
+      getTenantKeySecretName(tenantId),
+      randomBytes(KEY_BYTES).toString('base64'),
+      { contentType: 'application/octet-stream;base64', tags: { tenantId, purpose: 'tenant-data-key' } }
+    );
+
+    return this.cacheCurrent(this.toKey(tenantId, secret.properties.version, secret.value));
+  }
+
+  private cacheCurrent(key: TenantDataKey): TenantDataKey {
+    this.versions.set(`${key.tenantId}/${key.version}`, key);
+    this.current.set(key.tenantId, {
+      key,
+      expiresAt: Date.now() + KeyVaultKeyStore.CURRENT_KEY_TTL_MS,
+    });
+    return key;
+  }
+
+  private toKey(tenantId: string, version: string | undefined, value: string | undefined): TenantDataKey {
+    const key = Buffer.from(value ?? '', 'base64');
+    if (!version || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid data key secret for tenant ${tenantId}`);
+    }
+
+    return { tenantId, version, key };
+  }
+}
+
+/**
+ * Key Vault secret name of a tenant's data key
+ */
+export function getTenantKeySecretName(tenantId: string): string {
+  return `tenant-data-key-${tenantId.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`;
+}
+
+/**
+ * Tenant key store from the environment
+ *
+ * DATA_KEY_VAULT_URL: Key Vault holding the tenant data keys
+ *
+ * @returns The key store, or undefined when encryption is not configured
+ */
+export function getTenantKeyStoreFromEnv(): TenantKeyStore | undefined {
+  const vaultUrl = process.env.DATA_KEY_VAULT_URL;
+  return vaultUrl ? new KeyVaultKeyStore(vaultUrl) : undefined;
+}
+
+/**
+ * Envelope Encryption Service
+ */
+export class EnvelopeEncryption {
+  constructor(
+    private keyStore: TenantKeyStore,
+    private sensitiveFields: readonly string[] = SENSITIVE_ORDER_FIELDS
+  ) {}
+
+  /**
+   * Encrypt a whole file
+   *
+   * @param context - Bound to the ciphertext (e.g. the blob path); needed to decrypt
+   */
+  async encryptFile(
+    tenantId: string,
+    content: Buffer,
+    context: string
+  ): Promise<{ ciphertext: Buffer; envelope: FileEncryptionEnvelope }> {
+    const { contentKey, wrapped } = await this.createContentKey(tenantId);
+    const { iv, tag, ciphertext } = seal(contentKey, content, context);
+
+    return {
+      ciphertext,
+      envelope: { ...wrapped, iv: iv.toString('base64'), tag: tag.toString('base64') },
+    };
+  }
+
+  /**
+   * Decrypt a file encrypted by encryptFile
+   */
+  async decryptFile(
+    ciphertext: Buffer,
+    envelope: FileEncryptionEnvelope,
+    context: string
+  ): Promise<Buffer> {
+    const contentKey = await this.unwrapContentKey(envelope);
+    return open(
+      contentKey,
+      Buffer.from(envelope.iv, 'base64'),
+      Buffer.from(envelope.tag, 'base64'),
+      ciphertext,
+      context
+    );
+  }
+
+  /**
+   * Encrypt a document's sensitive fields
+   *
+   * @param fields - Field paths (default: SENSITIVE_ORDER_FIELDS); missing and null fields are skipped
+   * @returns A copy with the fields encrypted and the envelope under `_encryption`
+   */
+  async encryptFields<T>(tenantId: string, document: T, fields?: readonly string[]): Promise<T> {
+    if (getFieldEnvelope(document)) {
+      throw new Error('Document fields are already encrypted');
+    }
+
+    const copy = JSON.parse(JSON.stringify(document)) as Record<string, unknown>;
+    const { contentKey, wrapped } = await this.createContentKey(tenantId);
+    const encrypted: string[] = [];
+
+    for (const pattern of fields ?? this.sensitiveFields) {
+      for (const path of resolveFieldPaths(copy, pattern.split('.'))) {
+        const value = getField(copy, path);
+        if (value === undefined || value === null || isEncryptedValue(value)) {
+          continue;
+        }
+
+        const fieldPath = path.join('.');
+        const { iv, tag, ciphertext } = seal(contentKey, Buffer.from(JSON.stringify(value), 'utf-8'), fieldPath);
+        setField(copy, path, ENCRYPTED_FIELD_PREFIX + Buffer.concat([iv, tag, ciphertext]).toString('base64'));
+        encrypted.push(fieldPath);
+      }
+    }
+
+    const envelope: FieldEncryptionEnvelope = { ...wrapped, fields: encrypted };
+    return { ...copy, _encryption: envelope } as T;
+  }
+
+  /**
+   * Decrypt a document's fields encrypted by encryptFields
+   *
+   * @returns A copy without the envelope (documents without one are returned as is)
+   */
+  async decryptFields<T>(document: T): Promise<T> {
+    const envelope = getFieldEnvelope(document);
+    if (!envelope) {
+      return document;
+    }
+
+    const copy = JSON.parse(JSON.stringify(document)) as Record<string, unknown>;
+    delete copy._encryption;
+    const contentKey = await this.unwrapContentKey(envelope);
+
+    for (const fieldPath of envelope.fields) {
+      const path = fieldPath.split('.');
+      const value = getField(copy, path);
+      if (!isEncryptedValue(value)) {
+        continue;
+      }
+
+      const sealed = Buffer.from(value.slice(ENCRYPTED_FIELD_PREFIX.length), 'base64');
+      const plaintext = open(
+        contentKey,
+        sealed.subarray(0, IV_BYTES),
+        sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+        sealed.subarray(IV_BYTES + TAG_BYTES),
+        fieldPath
+      );
+      setField(copy, path, JSON.parse(plaintext.toString('utf-8')));
+    }
+
+    return copy as T;
+  }
+
+  /**
+   * Re-wrap an envelope's content key with the tenant's current data key
+   * (the content and its ciphertext are unchanged)
+   */
+  async rewrap<E extends WrappedContentKey>(envelope: E): Promise<E> {
+    const current = await this.keyStore.getCurrentKey(envelope.tenantId);
+    if (current.version === envelope.keyVersion) {
+      return envelope;
+    }
+
+    const contentKey = await this.unwrapContentKey(envelope);
+    return { ...envelope, keyVersion: current.version, wrappedKey: wrapKey(current, contentKey) };
+  }
+
+  /**
+   * Start a new data key version for a tenant
+   */
+  async rotateTenantKey(tenantId: string): Promise<string> {
+    const key = await this.keyStore.rotateKey(tenantId);
+    return key.version;
+  }
+
+  private async createContentKey(
+    tenantId: string
+  ): Promise<{ contentKey: Buffer; wrapped: WrappedContentKey }> {
+    const tenantKey = await this.keyStore.getCurrentKey(tenantId);
+    const contentKey = randomBytes(KEY_BYTES);
+
+    return {
+      contentKey,
+      wrapped: {
+        scheme: SCHEME,
+        tenantId,
+        keyVersion: tenantKey.version,
+        wrappedKey: wrapKey(tenantKey, contentKey),
+      },
+    };
+  }
+
+  private async unwrapContentKey(envelope: WrappedContentKey): Promise<Buffer> {
+    if (envelope.scheme !== SCHEME) {
+      throw new Error(`Unsupported encryption scheme: ${envelope.scheme}`);
+    }
+
+    const tenantKey = await this.keyStore.getKey(envelope.tenantId, envelope.keyVersion);
+    const sealed = Buffer.from(envelope.wrappedKey, 'base64');
+
+    return open(
+      tenantKey.key,
+      sealed.subarray(0, IV_BYTES),
+      sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+      sealed.subarray(IV_BYTES + TAG_BYTES),
+      `tenant:${envelope.tenantId}`
+    );
+  }
+}
+
+/**
+ * Field envelope of a document, if its fields are encrypted
+ */
+export function getFieldEnvelope(document: unknown): FieldEncryptionEnvelope | undefined {
+  if (!document || typeof document !== 'object') {
+    return undefined;
+  }
+
+  const envelope = (document as { _encryption?: FieldEncryptionEnvelope })._encryption;
+  return envelope?.scheme === SCHEME && Array.isArray(envelope.fields) ? envelope : undefined;
+}
+
+/**
+ * Blob metadata holding a file envelope
+ */
+export function toEncryptionMetadata(envelope: FileEncryptionEnvelope): Record<string, string> {
+  return {
+    encryptionScheme: envelope.scheme,
+    tenantId: envelope.tenantId,
+    encryptionKeyVersion: envelope.keyVersion,
+    encryptionWrappedKey: envelope.wrappedKey,
+    encryptionIv: envelope.iv,
+    encryptionTag: envelope.tag,
+  };
+}
+
+/**
+ * File envelope from blob metadata, if the blob is encrypted
+ */
+export function fromEncryptionMetadata(
+  metadata: Record<string, string | undefined>
+): FileEncryptionEnvelope | undefined {
+  // Metadata names may come back lower-cased
+  const get = (name: string): string | undefined =>
+    metadata[name] ?? metadata[name.toLowerCase()];
+
+  const scheme = get('encryptionScheme');
+  if (!scheme) {
+    return undefined;
+  }
+
+  const tenantId = get('tenantId');
+  const encryptionKeyVersion = get('encryptionKeyVersion');
+  const encryptionWrappedKey = get('encryptionWrappedKey');
+  const encryptionIv = get('encryptionIv');
+  const encryptionTag = get('encryptionTag');
+  if (!tenantId || !encryptionKeyVersion || !encryptionWrappedKey || !encryptionIv || !encryptionTag) {
+    throw new Error('Incomplete encryption metadata');
+  }
+
+  return {
+    scheme: scheme as FileEncryptionEnvelope['scheme'],
+    tenantId,
+    keyVersion: encryptionKeyVersion,
+    wrappedKey: encryptionWrappedKey,
+    iv: encryptionIv,
+    tag: encryptionTag,
+  };
+}
+
+function wrapKey(tenantKey: TenantDataKey, contentKey: Buffer): string {
+  const { iv, tag, ciphertext } = seal(tenantKey.key, contentKey, `tenant:${tenantKey.tenantId}`);
+  return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf-8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf-8'));
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_FIELD_PREFIX);
+}
+
+/**
+ * Concrete paths in a document matching a field pattern
+ */
+function resolveFieldPaths(value: unknown, pattern: string[], prefix: string[] = []): string[][] {
+  if (pattern.length === 0) {
+    return [prefix];
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const [segment, ...rest] = pattern;
+  const record = value as Record<string, unknown>;
+  const keys = segment === '*' ? Object.keys(record) : segment in record ? [segment] : [];
+
+  return keys.flatMap((key) => resolveFieldPaths(record[key], rest, [...prefix, key]));
+}
+
+function getField(document: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = document;
+  for (const segment of path) {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function setField(document: Record<string, unknown>, path: string[], value: unknown): void {
+  const parent = getField(document, path.slice(0, -1));
+  if (parent && typeof parent === 'object') {
+    (parent as Record<string, unknown>)[path[path.length - 1]] = value;
+  }
+}
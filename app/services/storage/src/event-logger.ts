@@ -9,26 +9,115 @@
  * Events are stored in:
  * - logs-archive/{date}/events.jsonl (daily)
  * - logs-archive/{date}/{hour}/events.jsonl (hourly for high volume)
+ *
+ * Events are hash-chained per daily log and per case (see audit-chain.ts)
+ * when they are flushed. Several processes append to the same daily log, so
+ * each append is conditional on the log's length when its head was read; on
+ * a conflict the head is read again and the event re-chained onto it. A
+ * case's head is kept in memory and appended to
+ * orders-audit/{caseId}/chain.jsonl so it survives restarts.
  */
 
 import { BlobLayoutManager } from './blob-layout.js';
 import { RedactionService } from './redaction.js';
+import {
+  AnchorSigningKey,
+  AnchorVerificationKeys,
+  computeEventHash,
+  signChainHead,
+  verifyEventChain,
+} from './audit-chain.js';
 import {
   AuditEvent,
+  AuditEventChain,
   AuditEventType,
   BlobContainer,
+  ChainAnchor,
+  ChainScope,
+  ChainVerificationResult,
 } from './types.js';
 import { ActorType } from '@order-processing/types';
 
 /**
- * Sequence number tracker per case
+ * Sequence number and chain head tracker per case
  */
 interface SequenceTracker {
   caseId: string;
   lastSequence: number;
+  lastHash: string | null;
   lastUpdated: Date;
 }
 
+/**
+ * Chain head of a daily log
+ */
+interface LogHead {
+  hash: string | null;
+  eventCount: number;
+  /** Length in bytes of each of the log's blobs, by path */
+  lengths: Map<string, number>;
+}
+
+/**
+ * Event with its chain links assigned
+ */
+type ChainedEvent = AuditEvent & { chain: AuditEventChain };
+
+/**
+ * Event written to its daily log, with its position in the log
+ */
+interface LoggedEvent {
+  event: ChainedEvent;
+  logEventCount: number;
+}
+
+/**
+ * Buffered event, chained when it is written
+ */
+interface BufferedEvent {
+  event: Omit<AuditEvent, 'sequence' | 'chain'>;
+  /** Written to the log; only the case chain index is pending */
+  logged?: LoggedEvent;
+}
+
+/**
+ * Line of a case's chain index (orders-audit/{caseId}/chain.jsonl)
+ */
+interface CaseChainEntry {
+  sequence: number;
+  hash: string;
+  ts: string;
+}
+
+/**
+ * Head waiting to be anchored
+ */
+interface UnanchoredHead {
+  scope: ChainScope;
+  id: string;
+  headHash: string;
+  eventCount: number;
+}
+
+/**
+ * Appends to a daily log before giving up on the flush, when other writers
+ * keep appending first
+ */
+const MAX_LOG_APPEND_ATTEMPTS = 5;
+
+/**
+ * Runs async functions one at a time, in call order
+ */
+function createLock(): <T>(fn: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = tail.then(fn);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
 /**
  * Event logger configuration
  */
@@ -41,6 +130,12 @@ export interface EventLoggerConfig {
   flushIntervalMs: number;
   /** Redaction policy name to apply */
   redactionPolicy: string;
+  /** Chain anchoring interval in milliseconds (0 = only on anchorChains()) */
+  anchorIntervalMs: number;
+  /** Key for signing chain anchors (no anchoring without one) */
+  signingKey?: AnchorSigningKey;
+  /** Keys for verifying anchors (default: the signing key) */
+  verificationKeys?: AnchorVerificationKeys;
 }
 
 /**
@@ -51,6 +146,7 @@ const DEFAULT_CONFIG: EventLoggerConfig = {
   bufferSize: 10,
   flushIntervalMs: 5000,
   redactionPolicy: 'default',
+  anchorIntervalMs: 60 * 60 * 1000,
 };
 
 /**
@@ -63,8 +159,12 @@ export class EventLoggerService {
   private redactionService: RedactionService;
   private config: EventLoggerConfig;
   private sequenceTrackers: Map<string, SequenceTracker> = new Map();
-  private eventBuffer: AuditEvent[] = [];
+  private logHeads: Map<string, LogHead> = new Map();
+  private unanchoredHeads: Map<string, UnanchoredHead> = new Map();
+  private eventBuffer: BufferedEvent[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
+  private anchorTimer: NodeJS.Timeout | null = null;
+  private withFlushLock = createLock();
 
   constructor(
     storageAccountUrl: string,
@@ -78,30 +178,111 @@ export class EventLoggerService {
     if (this.config.bufferSize > 1) {
       this.startFlushTimer();
     }
+
+    if (this.config.signingKey && this.config.anchorIntervalMs > 0) {
+      this.startAnchorTimer();
+    }
   }
 
   /**
-   * Get next sequence number for a case
+   * Get the tracker for a case, restoring its head from the case chain index
    */
-  private getNextSequence(caseId: string): number {
+  private async getSequenceTracker(caseId: string): Promise<SequenceTracker> {
     let tracker = this.sequenceTrackers.get(caseId);
 
     if (!tracker) {
+      const entries = await this.layoutManager.readJsonLines<CaseChainEntry>(
+        this.layoutManager.getCaseChainIndexPath(caseId)
+      );
+      const head = entries[entries.length - 1];
+
       tracker = {
         caseId,
-        lastSequence: 0,
+        lastSequence: head?.sequence ?? 0,
+        lastHash: head?.hash ?? null,
         lastUpdated: new Date(),
       };
       this.sequenceTrackers.set(caseId, tracker);
     }
 
-    tracker.lastSequence++;
-    tracker.lastUpdated = new Date();
+    return tracker;
+  }
 
-    // Clean up old trackers (older than 24 hours)
-    this.cleanupOldTrackers();
+  /**
+   * Get the head of a daily log, restoring it from the stored log
+   */
+  private async getLogHead(logDate: string): Promise<LogHead> {
+    let head = this.logHeads.get(logDate);
+
+    if (!head) {
+      const blobs = await this.readLogBlobs(new Date(logDate));
+      const events = blobs.flatMap((blob) => blob.events);
+      const last = events[events.length - 1];
+      head = {
+        hash: last?.chain?.hash ?? null,
+        eventCount: events.length,
+        lengths: new Map(blobs.map((blob) => [blob.path, blob.length])),
+      };
+
+      // Only the current day's log is appended to
+      this.logHeads.clear();
+      this.logHeads.set(logDate, head);
+    }
+
+    return head;
+  }
+
+  /**
+   * Assign the event's sequence number and chain links, and append it to its log
+   *
+   * The append only succeeds if the log hasn't grown since its head was read.
+   * When another writer got there first, the head is read again and the event
+   * re-chained onto it.
+   */
+  private async appendToLog(pending: BufferedEvent['event']): Promise<LoggedEvent> {
+    const tracker = await this.getSequenceTracker(pending.caseId);
+    const logDate = pending.ts.slice(0, 10);
+    const logPath = this.layoutManager.getEventLogPathFor(pending, this.config.useHourlyLogs).path;
+
+    for (let attempt = 1; ; attempt++) {
+      const logHead = await this.getLogHead(logDate);
+
+      const links = { prevHash: logHead.hash, prevCaseHash: tracker.lastHash };
+      const unhashed: ChainedEvent = {
+        ...pending,
+        sequence: tracker.lastSequence + 1,
+        chain: { ...links, hash: '' },
+      };
+      const hash = computeEventHash(unhashed);
+      const event: ChainedEvent = { ...unhashed, chain: { ...links, hash } };
+
+      try {
+        const length = await this.layoutManager.appendToEventLog(
+          event,
+          this.config.useHourlyLogs,
+          logHead.lengths.get(logPath) ?? 0
+        );
+        logHead.lengths.set(logPath, length);
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode !== 412 || attempt >= MAX_LOG_APPEND_ATTEMPTS) {
+          throw error;
+        }
+
+        this.logHeads.delete(logDate);
+        continue;
+      }
 
-    return tracker.lastSequence;
+      tracker.lastSequence = event.sequence;
+      tracker.lastHash = hash;
+      tracker.lastUpdated = new Date();
+      logHead.hash = hash;
+      logHead.eventCount++;
+
+      // Clean up old trackers (older than 24 hours)
+      this.cleanupOldTrackers();
+
+      return { event, logEventCount: logHead.eventCount };
+    }
   }
 
   /**
@@ -129,12 +310,10 @@ export class EventLoggerService {
     data?: Record<string, unknown>,
     pointers?: Record<string, string>
   ): Promise<void> {
-    const event: AuditEvent = {
-      ts: new Date().toISOString(),
+    const event: Omit<AuditEvent, 'ts' | 'sequence' | 'chain'> = {
       eventType,
       caseId,
       tenantId,
-      sequence: this.getNextSequence(caseId),
       correlation,
       actor,
       data: data ? this.redactionService.redact(data, this.config.redactionPolicy) : undefined,
@@ -146,7 +325,12 @@ export class EventLoggerService {
       },
     };
 
-    await this.appendEvent(event);
+    // The timestamp picks the daily log; buffer order keeps it from going backwards
+    this.eventBuffer.push({ event: { ts: new Date().toISOString(), ...event } });
+
+    if (this.eventBuffer.length >= this.config.bufferSize) {
+      await this.flush();
+    }
   }
 
   /**
@@ -381,40 +565,66 @@ export class EventLoggerService {
   }
 
   /**
-   * Append event to buffer and flush if needed
+   * Flush buffered events to storage
+   *
+   * Each event is chained and appended to its daily log, then to its case's
+   * chain index. On failure the unwritten events stay buffered, in order, for
+   * the next flush.
    */
-  private async appendEvent(event: AuditEvent): Promise<void> {
-    this.eventBuffer.push(event);
+  async flush(): Promise<void> {
+    await this.withFlushLock(async () => {
+      while (this.eventBuffer.length > 0) {
+        const buffered = this.eventBuffer[0];
+        buffered.logged ??= await this.appendToLog(buffered.event);
+        const { event, logEventCount } = buffered.logged;
+
+        await this.layoutManager.appendJsonLine(
+          this.layoutManager.getCaseChainIndexPath(event.caseId),
+          { sequence: event.sequence, hash: event.chain.hash, ts: event.ts } satisfies CaseChainEntry
+        );
 
-    if (this.eventBuffer.length >= this.config.bufferSize) {
-      await this.flush();
-    }
+        this.eventBuffer.shift();
+        this.setUnanchoredHead('log', event.ts.slice(0, 10), event.chain.hash, logEventCount);
+        this.setUnanchoredHead('case', event.caseId, event.chain.hash, event.sequence);
+      }
+    });
+  }
+
+  private setUnanchoredHead(scope: ChainScope, id: string, headHash: string, eventCount: number): void {
+    this.unanchoredHeads.set(`${scope}:${id}`, { scope, id, headHash, eventCount });
   }
 
   /**
-   * Flush buffered events to storage
+   * Sign and store the heads of all chains written to since the last anchoring
+   *
+   * @returns The stored anchors
    */
-  async flush(): Promise<void> {
-    if (this.eventBuffer.length === 0) {
-      return;
+  async anchorChains(): Promise<ChainAnchor[]> {
+    const { signingKey } = this.config;
+    if (!signingKey) {
+      throw new Error('No signing key configured for chain anchoring');
     }
 
-    const events = [...this.eventBuffer];
-    this.eventBuffer = [];
+    await this.flush();
 
-    // Write events to append blob
-    for (const event of events) {
-      try {
-        await this.layoutManager.appendToEventLog(
-          event,
-          this.config.useHourlyLogs
-        );
-      } catch (error) {
-        // Re-add failed events to buffer
-        this.eventBuffer.push(event);
-        throw error;
+    const anchors: ChainAnchor[] = [];
+    for (const [key, head] of [...this.unanchoredHeads.entries()]) {
+      const anchor = signChainHead(head, signingKey);
+
+      await this.layoutManager.storeAuditArtifact(
+        this.layoutManager.getChainAnchorPath(head.scope, head.id, anchor.anchoredAt),
+        anchor,
+        { scope: head.scope, chainId: head.id, keyId: anchor.keyId }
+      );
+      anchors.push(anchor);
+
+      // Keep heads that moved on while this one was being stored
+      if (this.unanchoredHeads.get(key)?.headHash === head.headHash) {
+        this.unanchoredHeads.delete(key);
       }
     }
+
+    return anchors;
   }
 
   /**
@@ -431,46 +641,73 @@ export class EventLoggerService {
   }
 
   /**
-   * Stop the flush timer and flush remaining events
+   * Start the periodic chain anchoring timer
+   */
+  private startAnchorTimer(): void {
+    this.anchorTimer = setInterval(async () => {
+      try {
+        await this.anchorChains();
+      } catch (error) {
+        console.error('Failed to anchor event chains:', error);
+      }
+    }, this.config.anchorIntervalMs);
+  }
+
+  /**
+   * Stop the timers, flush remaining events and anchor the final heads
    */
   async shutdown(): Promise<void> {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
-    await this.flush();
+    if (this.anchorTimer) {
+      clearInterval(this.anchorTimer);
+      this.anchorTimer = null;
+    }
+
+    if (this.config.signingKey) {
+      await this.anchorChains();
+    } else {
+      await this.flush();
+    }
   }
 
   /**
-   * Read events from a specific date
+   * Read a day's log in append order (all hourly logs of the day, in hour order)
    */
-  async readEventsForDate(date: Date): Promise<AuditEvent[]> {
-    const blobPath = this.config.useHourlyLogs
-      ? this.layoutManager.getHourlyEventLogPath(date)
-      : this.layoutManager.getEventLogPath(date);
-
-    try {
-      const exists = await this.layoutManager.blobExists(blobPath);
-      if (!exists) {
-        return [];
-      }
-
-      // Read and parse JSONL
-      const containerClient = await (this.layoutManager as any).getContainerClient(
-        BlobContainer.LogsArchive
-      );
-      const blockBlobClient = containerClient.getBlockBlobClient(blobPath.path);
-      const downloadResponse = await blockBlobClient.download(0);
+  private async readLog(date: Date): Promise<AuditEvent[]> {
+    return (await this.readLogBlobs(date)).flatMap((blob) => blob.events);
+  }
 
-      const chunks: Buffer[] = [];
-      for await (const chunk of downloadResponse.readableStreamBody as AsyncIterable<Buffer>) {
-        chunks.push(chunk);
-      }
+  /**
+   * Read the blobs of a day's log in append order, with their lengths
+   */
+  private async readLogBlobs(date: Date): Promise<{ path: string; events: AuditEvent[]; length: number }[]> {
+    const paths = this.config.useHourlyLogs
+      ? (await this.layoutManager.listBlobs(BlobContainer.LogsArchive, `${date.toISOString().slice(0, 10)}/`))
+          .filter((name) => /^\d{4}-\d{2}-\d{2}\/\d{2}\/events\.jsonl$/.test(name))
+          .sort()
+      : [this.layoutManager.getEventLogPath(date).path];
+
+    const blobs: { path: string; events: AuditEvent[]; length: number }[] = [];
+    for (const path of paths) {
+      const { values, length } = await this.layoutManager.readJsonLinesWithLength<AuditEvent>({
+        container: BlobContainer.LogsArchive,
+        path,
+      });
+      blobs.push({ path, events: values, length });
+    }
 
-      const content = Buffer.concat(chunks).toString('utf-8');
-      const lines = content.trim().split('\n').filter(Boolean);
+    return blobs;
+  }
 
-      return lines.map((line) => JSON.parse(line) as AuditEvent);
+  /**
+   * Read events from a specific date
+   */
+  async readEventsForDate(date: Date): Promise<AuditEvent[]> {
+    try {
+      return await this.readLog(date);
     } catch {
       return [];
     }
@@ -495,4 +732,88 @@ export class EventLoggerService {
 
     return events.sort((a, b) => a.sequence - b.sequence);
   }
+
+  /**
+   * Read the stored anchors of a chain, oldest first
+   */
+  async readChainAnchors(scope: ChainScope, id: string): Promise<ChainAnchor[]> {
+    const { container, path } = this.layoutManager.getChainAnchorDir(scope, id);
+    const names = (await this.layoutManager.listBlobs(container, path)).sort();
+
+    const anchors: ChainAnchor[] = [];
+    for (const name of names) {
+      anchors.push(await this.layoutManager.readAuditArtifact<ChainAnchor>({ container, path: name }));
+    }
+
+    return anchors;
+  }
+
+  /**
+   * Read a case's chained events in log order, from the days in its chain index
+   */
+  async readCaseEvents(caseId: string): Promise<AuditEvent[]> {
+    return (await this.readCaseChain(caseId)).events;
+  }
+
+  private async readCaseChain(caseId: string): Promise<{ entries: CaseChainEntry[]; events: AuditEvent[] }> {
+    const entries = await this.layoutManager.readJsonLines<CaseChainEntry>(
+      this.layoutManager.getCaseChainIndexPath(caseId)
+    );
+    const logDates = [...new Set(entries.map((e) => e.ts.slice(0, 10)))];
+
+    const events: AuditEvent[] = [];
+    for (const logDate of logDates) {
+      const dayEvents = await this.readLog(new Date(logDate));
+      events.push(...dayEvents.filter((e) => e.caseId === caseId));
+    }
+
+    return { entries, events };
+  }
+
+  /**
+   * Verify a day's log chain against its stored anchors
+   */
+  async verifyLogChain(date: Date): Promise<ChainVerificationResult> {
+    const logDate = date.toISOString().slice(0, 10);
+    const events = await this.readLog(date);
+    const anchors = await this.readChainAnchors('log', logDate);
+
+    return verifyEventChain(events, 'log', logDate, anchors, this.getVerificationKeys());
+  }
+
+  /**
+   * Verify a case's chain against its stored anchors
+   *
+   * The days to read come from the case chain index. Events recorded in the
+   * index but missing from the logs are reported as a gap.
+   */
+  async verifyCaseChain(caseId: string): Promise<ChainVerificationResult> {
+    const { entries, events } = await this.readCaseChain(caseId);
+    const anchors = await this.readChainAnchors('case', caseId);
+    const result = verifyEventChain(events, 'case', caseId, anchors, this.getVerificationKeys());
+
+    const indexHead = entries[entries.length - 1];
+    if (indexHead && !events.some((e) => e.chain?.hash === indexHead.hash)) {
+      result.problems.push({
+        type: 'gap',
+        index: events.length,
+        sequence: indexHead.sequence,
+        detail: `Case chain index records sequence ${indexHead.sequence}, which is missing from the logs`,
+      });
+      result.valid = false;
+    }
+
+    return result;
+  }
+
+  private getVerificationKeys(): AnchorVerificationKeys {
+    const { signingKey, verificationKeys } = this.config;
+    if (verificationKeys) {
+      return verificationKeys;
+    }
+
+    return signingKey
+      ? { [signingKey.keyId]: { algorithm: signingKey.algorithm, key: signingKey.key } }
+      : {};
+  }
 }
@@ -7,6 +7,10 @@
  * - Structured blob layout (orders-incoming, orders-audit, logs-archive)
  * - Audit bundle management with SHA256 verification
  * - Append-only JSONL event logging
+ * - Hash-chained audit events with signed chain anchors
+ * - Signed, role-redacted eDiscovery export packages
+ * - Data subject (right-to-erasure) inventory and erasure
+ * - Per-tenant envelope encryption of originals and sensitive order fields
  * - WORM policy configuration for immutability
  * - Lifecycle management (hot -> cool -> archive)
  * - Redaction policies for secrets and PII
@@ -19,13 +23,14 @@ export * from './types.js';
 // Import classes for use in StorageService
 import { BlobLayoutManager } from './blob-layout.js';
 import { AuditBundleService } from './audit-bundle.js';
-import { EventLoggerService } from './event-logger.js';
+import { EventLoggerService, type EventLoggerConfig } from './event-logger.js';
 import { LifecyclePolicyManager } from './lifecycle-policy.js';
 import { RedactionService } from './redaction.js';
 import { SasGeneratorService } from './sas-generator.js';
+import { EnvelopeEncryption } from './envelope-encryption.js';
 
 // Blob Layout Manager
-export { BlobLayoutManager } from './blob-layout.js';
+export { BlobLayoutManager, type BlobLayoutOptions } from './blob-layout.js';
 
 // Audit Bundle Service
 export {
@@ -44,6 +49,72 @@ export {
   type EventLoggerConfig,
 } from './event-logger.js';
 
+// Audit Event Hash Chain
+export {
+  canonicalJson,
+  computeEventHash,
+  verifyEventChain,
+  signChainHead,
+  verifyAnchorSignature,
+  signPayload,
+  verifyPayloadSignature,
+  getAnchorSigningKeyFromEnv,
+  getAnchorVerificationKeysFromEnv,
+  type AnchorSigningKey,
+  type AnchorVerificationKeys,
+} from './audit-chain.js';
+
+// Audit Export
+export {
+  AuditExportService,
+  MAX_EXPORT_CASES,
+  buildExportArchive,
+  buildExportSummaryHtml,
+  redactExportContent,
+  verifyExportArchive,
+  type AuditExportCase,
+  type AuditExportCaseSummary,
+  type AuditExportFile,
+  type AuditExportOptions,
+  type AuditExportRequest,
+  type AuditExportResult,
+  type AuditExportTimelineEntry,
+  type ZohoAuditLogSource,
+} from './audit-export.js';
+
+// Data Subject Requests
+export {
+  DataSubjectRequestService,
+  MAX_SUBJECT_CASES,
+  ERASED_PLACEHOLDER,
+  validateSubject,
+  getSubjectFingerprint,
+  findSubjectMatches,
+  redactSubjectValue,
+  redactSubjectContent,
+  decideErasureAction,
+  type BlobKeyShredder,
+  type DataSubjectCase,
+  type DataSubjectInventoryRequest,
+  type DataSubjectRequestOptions,
+  type DataSubjectSource,
+} from './data-subject.js';
+
+// Envelope Encryption
+export {
+  EnvelopeEncryption,
+  LocalKeyStore,
+  KeyVaultKeyStore,
+  ENCRYPTED_FIELD_PREFIX,
+  SENSITIVE_ORDER_FIELDS,
+  getFieldEnvelope,
+  getTenantKeySecretName,
+  getTenantKeyStoreFromEnv,
+  toEncryptionMetadata,
+  fromEncryptionMetadata,
+  type TenantKeyStore,
+} from './envelope-encryption.js';
+
 // Lifecycle Policy
 export {
   LifecyclePolicyManager,
@@ -71,12 +142,9 @@ export interface StorageServiceConfig {
   storageAccountUrl: string;
   accountName?: string;
   accountKey?: string;
-  eventLoggerConfig?: {
-    useHourlyLogs?: boolean;
-    bufferSize?: number;
-    flushIntervalMs?: number;
-    redactionPolicy?: string;
-  };
+  eventLoggerConfig?: Partial<EventLoggerConfig>;
+  /** Envelope encryption of originals and canonical order fields */
+  encryption?: EnvelopeEncryption;
 }
 
 export class StorageService {
@@ -88,8 +156,8 @@ export class StorageService {
   public readonly sasGenerator: SasGeneratorService;
 
   constructor(config: StorageServiceConfig) {
-    this.blobLayout = new BlobLayoutManager(config.storageAccountUrl);
-    this.auditBundle = new AuditBundleService(config.storageAccountUrl);
+    this.blobLayout = new BlobLayoutManager(config.storageAccountUrl, { encryption: config.encryption });
+    this.auditBundle = new AuditBundleService(config.storageAccountUrl, { encryption: config.encryption });
     this.eventLogger = new EventLoggerService(
       config.storageAccountUrl,
       config.eventLoggerConfig
@@ -220,6 +220,77 @@ export interface AuditEvent {
     containsPii: boolean;
     policy: string;
   };
+  /** Hash chain links (see audit-chain.ts); absent on events logged before chaining */
+  chain?: AuditEventChain;
+}
+
+/**
+ * Hash chain links of an audit event
+ */
+export interface AuditEventChain {
+  /** Hash of the previous event in the same daily log (null for the first) */
+  prevHash: string | null;
+  /** Hash of the case's previous event (null for the case's first event) */
+  prevCaseHash: string | null;
+  /** SHA-256 of this event, including both links */
+  hash: string;
+}
+
+/**
+ * Chain being verified or anchored: one day's log, or one case
+ */
+export type ChainScope = 'log' | 'case';
+
+/**
+ * Anchor signature algorithm
+ */
+export type ChainAnchorAlgorithm = 'hmac-sha256' | 'ed25519';
+
+/**
+ * Signed chain head
+ */
+export interface ChainAnchor {
+  scope: ChainScope;
+  /** Log date (YYYY-MM-DD) or case ID */
+  id: string;
+  /** Hash of the last event covered */
+  headHash: string;
+  /** Number of events covered (the head is event eventCount - 1) */
+  eventCount: number;
+  /** Anchoring timestamp (ISO 8601) */
+  anchoredAt: string;
+  keyId: string;
+  algorithm: ChainAnchorAlgorithm;
+  /** Base64 signature over the other fields */
+  signature: string;
+}
+
+/**
+ * Problem found while verifying a chain
+ */
+export interface ChainProblem {
+  type: 'modified' | 'gap' | 'reorder' | 'unchained' | 'anchor_mismatch' | 'bad_signature';
+  /** Position in the stored events */
+  index: number;
+  sequence?: number;
+  eventType?: string;
+  /** Set for problems found against an anchor */
+  anchoredAt?: string;
+  detail: string;
+}
+
+/**
+ * Result of verifying a chain
+ */
+export interface ChainVerificationResult {
+  scope: ChainScope;
+  id: string;
+  valid: boolean;
+  eventCount: number;
+  /** Hash of the last stored event */
+  headHash: string | null;
+  anchorsChecked: number;
+  problems: ChainProblem[];
 }
 
 /**
@@ -326,6 +397,187 @@ export const ROLE_SAS_CONFIG: Record<string, SasConfig> = {
   },
 };
 
+/**
+ * Audit export content allowed for a role
+ */
+export interface ExportRoleConfig {
+  /** Redaction policy applied to JSON artifacts, logs and the timeline */
+  redactionPolicy: string;
+  /** Whether original uploads (not redactable) are included */
+  includeOriginals: boolean;
+}
+
+/**
+ * Role to audit export configuration mapping
+ */
+export const ROLE_EXPORT_CONFIG: Record<string, ExportRoleConfig> = {
+  SalesUser: { redactionPolicy: 'strict', includeOriginals: false },
+  SalesManager: { redactionPolicy: 'strict', includeOriginals: false },
+  OpsAuditor: { redactionPolicy: 'audit', includeOriginals: true },
+};
+
+/**
+ * What an audit export covers
+ */
+export type AuditExportScope =
+  | { type: 'case'; caseId: string }
+  | { type: 'range'; customer?: string; dateFrom: string; dateTo: string };
+
+/**
+ * File in an audit export package
+ */
+export interface AuditExportFileEntry {
+  /** Path inside the ZIP */
+  path: string;
+  sha256: string;
+  sizeBytes: number;
+  /** Whether the content was redacted for the requesting role */
+  redacted: boolean;
+}
+
+/**
+ * Manifest of an audit export package (manifest.json)
+ *
+ * Lists the SHA-256 of every other file; manifest.sig.json holds the
+ * signature over the manifest bytes, so it covers the whole package.
+ */
+export interface AuditExportManifest {
+  version: '1.0';
+  exportId: string;
+  tenantId: string;
+  /** Export timestamp (ISO 8601) */
+  createdAt: string;
+  requestedBy: { userId: string; role: string };
+  scope: AuditExportScope;
+  redactionPolicy: string;
+  caseIds: string[];
+  files: AuditExportFileEntry[];
+  /** Artifacts left out for the role or unreadable, with the reason */
+  omitted: Array<{ caseId: string; source: string; reason: string }>;
+}
+
+/**
+ * Signature over manifest.json (manifest.sig.json)
+ */
+export interface AuditExportSignature {
+  keyId: string;
+  algorithm: ChainAnchorAlgorithm;
+  /** SHA-256 of the manifest bytes */
+  manifestSha256: string;
+  /** Base64 signature over the manifest bytes */
+  signature: string;
+}
+
+/**
+ * Retention state of a stored blob
+ */
+export interface BlobRetentionInfo {
+  container: BlobContainer;
+  path: string;
+  createdOn?: Date;
+  /** Whether a legal hold is set on the blob */
+  legalHold: boolean;
+  /** Expiry of a blob-level immutability policy */
+  immutabilityPolicyExpiresOn?: Date;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Person or customer named in a data-subject (erasure) request
+ *
+ * Each identifier given is searched for; at least one is required.
+ */
+export interface DataSubject {
+  type: 'person' | 'customer';
+  /** Person or customer name */
+  name?: string;
+  email?: string;
+  phone?: string;
+  /** Entra ID object ID, for a person who is also a user */
+  userId?: string;
+}
+
+/**
+ * Identifier of a data subject that an artifact contains
+ */
+export type DataSubjectMatch = 'name' | 'email' | 'phone' | 'userId' | 'case';
+
+/**
+ * What an erasure does with an artifact
+ * - delete: the artifact is removed (not redactable, e.g. an original spreadsheet)
+ * - redact: the subject's identifiers are replaced in place
+ * - crypto_shred: the artifact's encryption key is destroyed (content can't change)
+ * - retain: kept until its WORM retention ends
+ * - legal_hold: kept while a legal hold is set
+ */
+export type ErasureAction = 'delete' | 'redact' | 'crypto_shred' | 'retain' | 'legal_hold';
+
+/**
+ * Artifact referencing a data subject
+ */
+export interface DataSubjectArtifact {
+  /** Store holding the artifact: "blob", or the name of a DataSubjectSource */
+  source: string;
+  /** Blob path (container/path) or record ID within the source */
+  location: string;
+  caseId?: string;
+  /** Identifiers found in the artifact ("case" when it belongs to a matching case) */
+  matches: DataSubjectMatch[];
+  action: ErasureAction;
+  /** End of WORM retention, for retained artifacts (ISO 8601) */
+  retainedUntil?: string;
+  /** Why this action was chosen */
+  reason: string;
+}
+
+/**
+ * Inventory of everything referencing a data subject
+ *
+ * Holds a fingerprint of the subject's identifiers, never the identifiers
+ * themselves, so the request record doesn't become another copy of the PII.
+ */
+export interface DataSubjectInventory {
+  requestId: string;
+  tenantId: string;
+  subjectType: DataSubject['type'];
+  /** SHA-256 over the subject's normalized identifiers */
+  subjectFingerprint: string;
+  requestedBy: string;
+  /** Inventory timestamp (ISO 8601) */
+  createdAt: string;
+  caseIds: string[];
+  artifacts: DataSubjectArtifact[];
+  /** Artifact count per action */
+  summary: Record<ErasureAction, number>;
+}
+
+/**
+ * Outcome of erasing one artifact
+ */
+export interface ErasureOutcome {
+  source: string;
+  location: string;
+  caseId?: string;
+  action: ErasureAction;
+  status: 'erased' | 'retained' | 'failed';
+  detail?: string;
+}
+
+/**
+ * Result of executing an erasure
+ */
+export interface ErasureReport {
+  requestId: string;
+  tenantId: string;
+  executedBy: string;
+  /** Execution timestamp (ISO 8601) */
+  executedAt: string;
+  outcomes: ErasureOutcome[];
+  erased: number;
+  retained: number;
+  failed: number;
+}
+
 /**
  * Generated SAS URL response
  */
@@ -342,6 +594,50 @@ export interface SasUrlResult {
   permissions: SasPermission[];
 }
 
+/**
+ * A version of a tenant's data key (AES-256)
+ */
+export interface TenantDataKey {
+  tenantId: string;
+  version: string;
+  key: Buffer;
+}
+
+/**
+ * Content key of an encrypted artifact, wrapped by a tenant data key
+ */
+export interface WrappedContentKey {
+  scheme: 'aes-256-gcm/v1';
+  tenantId: string;
+  /** Tenant data key version that wrapped the content key */
+  keyVersion: string;
+  /** Base64 IV, auth tag and ciphertext of the content key */
+  wrappedKey: string;
+}
+
+/**
+ * Envelope of a file encrypted whole (kept in the blob's metadata)
+ */
+export interface FileEncryptionEnvelope extends WrappedContentKey {
+  /** Base64 IV of the file ciphertext */
+  iv: string;
+  /** Base64 GCM auth tag of the file ciphertext */
+  tag: string;
+}
+
+/**
+ * Envelope of a document with encrypted fields (kept under `_encryption`)
+ */
+export interface FieldEncryptionEnvelope extends WrappedContentKey {
+  /** Paths of the encrypted fields (e.g. "line_items.0.unit_price_source") */
+  fields: string[];
+}
+
+/**
+ * Roles that may read decrypted order artifacts (others get them as stored)
+ */
+export const DECRYPTION_ROLES: readonly string[] = ['SalesUser', 'SalesManager', 'OpsAuditor'];
+
 /**
  * Storage configuration
  */
@@ -12,6 +12,8 @@ import {
 import { FileUploadHandler } from './handlers/file-upload-handler.js';
 import { CardSubmitHandler } from './handlers/card-submit-handler.js';
 import { MessageHandler } from './handlers/message-handler.js';
+import { getConversationType } from './services/channel-config.js';
+import { conversationStore } from './services/conversation-store.js';
 import { getCorrelationId } from './middleware/correlation-middleware.js';
 import { createLogger } from './middleware/logging-middleware.js';
 
@@ -62,10 +64,18 @@ export class OrderProcessingBot extends TeamsActivityHandler {
 
     const activity = context.activity;
 
+    // In channels and group chats the bot is @mentioned, and the message body
+    // arrives as a text/html attachment next to any shared files
+    if (getConversationType(activity) !== 'personal') {
+      TurnContext.removeRecipientMention(activity);
+    }
+    const fileAttachments = (activity.attachments || []).filter(att => att.contentType !== 'text/html');
+
     // Check if message has attachments
-    if (activity.attachments && activity.attachments.length > 0) {
+    if (fileAttachments.length > 0) {
       logger.info('Message with attachments received', {
-        attachmentCount: activity.attachments.length,
+        attachmentCount: fileAttachments.length,
+        conversationType: getConversationType(activity),
       });
 
       await this.fileUploadHandler.handle(context);
@@ -142,6 +152,12 @@ export class OrderProcessingBot extends TeamsActivityHandler {
   private async handleMembersAdded(context: TurnContext): Promise<void> {
     const membersAdded = context.activity.membersAdded || [];
 
+    // Keep the personal chat so the user can be notified of orders that do
+    // not arrive through Teams, such as emailed orders
+    if (getConversationType(context.activity) === 'personal') {
+      await conversationStore.store(context);
+    }
+
     for (const member of membersAdded) {
       // Greet new members (except the bot itself)
       if (member.id !== context.activity.recipient?.id) {
@@ -0,0 +1,110 @@
+/**
+ * Tests for chat edits: agent patch conversion and the confirmation card
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CanonicalSalesOrder } from '@order-processing/parser';
+import { createChatEditCard } from '../chat-edit-card.js';
+import { toReviewPatch, validateReviewOrder, applyReviewPatch } from '../../services/review-edits.js';
+import { languageService } from '../../services/language-service.js';
+
+function createOrder(lineCount: number): CanonicalSalesOrder {
+  return {
+    customer: { input_name: 'ACME Corp', resolution_status: 'resolved' },
+    line_items: Array.from({ length: lineCount }, (_, i) => ({
+      row: i,
+      source_row_number: i + 2,
+      sku: `SKU-${i}`,
+      gtin: null,
+      product_name: `Product ${i}`,
+      quantity: 1,
+      unit_price_source: null,
+      line_total_source: null,
+      currency: null,
+      evidence: {},
+    })),
+  } as unknown as CanonicalSalesOrder;
+}
+
+describe('Chat Edit Patches', () => {
+  it('should convert quantities sent as strings to numbers', () => {
+    const order = createOrder(5);
+
+    const patch = toReviewPatch(order, [
+      { op: 'replace', path: '/line_items/3/quantity', value: '12' },
+      { op: 'replace', path: '/customer/input_name', value: 'Acme Trading LLC' },
+    ]);
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/line_items/3/quantity', value: 12 },
+      { op: 'replace', path: '/customer/input_name', value: 'Acme Trading LLC' },
+    ]);
+  });
+
+  it('should build added lines like lines added on the card', () => {
+    const order = createOrder(2);
+
+    const [edit] = toReviewPatch(order, [
+      { op: 'add', path: '/line_items/-', value: '{"sku":"SKU-9","quantity":"3"}' },
+    ]);
+
+    expect(edit).toMatchObject({ op: 'add', path: '/line_items/-', value: { sku: 'SKU-9', quantity: 3, row: 2 } });
+  });
+
+  it('should reject unsupported operations and invalid numbers', () => {
+    const order = createOrder(2);
+
+    expect(() => toReviewPatch(order, [{ op: 'move', path: '/line_items/0' }])).toThrow('Unsupported');
+    expect(() => toReviewPatch(order, [
+      { op: 'replace', path: '/line_items/0/quantity', value: 'twelve' },
+    ])).toThrow('Invalid number');
+  });
+
+  it('should read Farsi digits as Latin digits', () => {
+    expect(languageService.toLatinDigits('تعداد ردیف ۴ را ١٢ کن')).toBe('تعداد ردیف 4 را 12 کن');
+  });
+});
+
+describe('Chat Edit Card', () => {
+  it('should describe each operation and carry the patch in its actions', () => {
+    const order = createOrder(5);
+    const patch = toReviewPatch(order, [
+      { op: 'remove', path: '/line_items/4' },
+      { op: 'remove', path: '/line_items/3' },
+      { op: 'replace', path: '/line_items/0/quantity', value: '12' },
+    ]);
+
+    const card = createChatEditCard({
+      caseId: 'case-1',
+      tenantId: 'tenant-1',
+      instruction: 'remove the last two lines and change line 1 to 12 units',
+      order,
+      patch,
+      issues: validateReviewOrder(applyReviewPatch(order, patch)),
+    });
+
+    const text = JSON.stringify(card.body);
+    expect(text).toContain('Remove Line 5 (SKU-4)');
+    expect(text).toContain('Remove Line 4 (SKU-3)');
+    expect(text).toContain('Line 1 (SKU-0): quantity 1 → 12');
+    expect(card.actions.map((a: any) => a.data.action)).toEqual(['apply_chat_edit', 'review_page', 'dismiss']);
+    expect(card.actions[0].data).toMatchObject({ caseId: 'case-1', tenantId: 'tenant-1', edits: patch });
+  });
+
+  it('should not offer to apply an edit that leaves blocking issues', () => {
+    const order = createOrder(1);
+    const patch = toReviewPatch(order, [{ op: 'remove', path: '/line_items/0' }]);
+
+    const card = createChatEditCard({
+      caseId: 'case-1',
+      tenantId: 'tenant-1',
+      instruction: 'خط ۱ را حذف کن',
+      order,
+      patch,
+      issues: validateReviewOrder(applyReviewPatch(order, patch)),
+    }, 'fa');
+
+    expect(JSON.stringify(card.body)).toContain('حذف ردیف 1 (SKU-0)');
+    expect(card.actions.map((a: any) => a.data.action)).toEqual(['review_page', 'dismiss']);
+  });
+});
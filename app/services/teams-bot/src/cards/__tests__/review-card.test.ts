@@ -0,0 +1,118 @@
+/**
+ * Tests for the editable review card and its line edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CanonicalSalesOrder } from '@order-processing/parser';
+import { createReviewCard, REVIEW_PAGE_SIZE } from '../review-card.js';
+import {
+  applyReviewPatch,
+  createAddLineEdit,
+  getLineInputEdits,
+  getReviewLines,
+  validateReviewOrder,
+} from '../../services/review-edits.js';
+
+function createOrder(lineCount: number): CanonicalSalesOrder {
+  return {
+    customer: { input_name: 'ACME Corp', resolution_status: 'resolved' },
+    line_items: Array.from({ length: lineCount }, (_, i) => ({
+      row: i,
+      source_row_number: i + 2,
+      sku: `SKU-${i}`,
+      gtin: null,
+      product_name: `Product ${i}`,
+      quantity: 1,
+      unit_price_source: null,
+      line_total_source: null,
+      currency: null,
+      evidence: {},
+    })),
+  } as unknown as CanonicalSalesOrder;
+}
+
+function hasAction(card: any, action: string): boolean {
+  return JSON.stringify(card).includes(`"action":"${action}"`);
+}
+
+describe('Review Card', () => {
+  it('should stay read-only without lines', () => {
+    const card = createReviewCard({
+      caseId: 'case-1',
+      customerName: 'ACME Corp',
+      lineItemCount: 2,
+      totalSource: '100',
+      totalZoho: '110',
+      warnings: [],
+    });
+
+    expect(card.actions.map((a: any) => a.data.action)).toEqual(['approve_create', 'request_changes']);
+  });
+
+  it('should render inputs for the lines of the current page only', () => {
+    const order = createOrder(REVIEW_PAGE_SIZE + 5);
+    const card = createReviewCard({
+      caseId: 'case-1',
+      customerName: 'ACME Corp',
+      lineItemCount: order.line_items.length,
+      totalSource: 'N/A',
+      totalZoho: 'N/A',
+      warnings: [],
+      lines: getReviewLines(order),
+      page: 1,
+    });
+
+    const json = JSON.stringify(card);
+    expect(json).toContain(`"id":"sku_${REVIEW_PAGE_SIZE}"`);
+    expect(json).toContain(`"id":"qty_${REVIEW_PAGE_SIZE + 4}"`);
+    expect(json).not.toContain('"id":"sku_0"');
+    expect(hasAction(card, 'review_page')).toBe(true);
+    expect(hasAction(card, 'review_add_line')).toBe(true);
+    expect(card.actions[0].data).toMatchObject({ action: 'review_submit', page: 1, edits: [] });
+  });
+});
+
+describe('Review Edits', () => {
+  it('should turn changed inputs into replace operations', () => {
+    const order = createOrder(3);
+
+    const edits = getLineInputEdits(getReviewLines(order), {
+      sku_0: 'SKU-0',
+      qty_0: '1',
+      sku_1: ' NEW-1 ',
+      qty_2: '12',
+    });
+
+    expect(edits).toEqual([
+      { op: 'replace', path: '/line_items/1/sku', value: 'NEW-1' },
+      { op: 'replace', path: '/line_items/2/quantity', value: 12 },
+    ]);
+  });
+
+  it('should apply edits in order without changing the saved order', () => {
+    const order = createOrder(3);
+
+    const edited = applyReviewPatch(order, [
+      { op: 'remove', path: '/line_items/0' },
+      { op: 'replace', path: '/line_items/0/quantity', value: 5 },
+      createAddLineEdit(order, 'SKU-9', 2),
+    ]);
+
+    expect(edited.line_items.map(item => [item.sku, item.quantity, item.row])).toEqual([
+      ['SKU-1', 5, 1],
+      ['SKU-2', 1, 2],
+      ['SKU-9', 2, 3],
+    ]);
+    expect(order.line_items).toHaveLength(3);
+    expect(() => applyReviewPatch(order, [{ op: 'remove', path: '/line_items/3' }])).toThrow('not found');
+  });
+
+  it('should re-validate the edited order', () => {
+    const order = createOrder(1);
+
+    expect(validateReviewOrder(order)).toEqual([]);
+
+    const emptied = applyReviewPatch(order, [{ op: 'remove', path: '/line_items/0' }]);
+    expect(validateReviewOrder(emptied)).toMatchObject([{ code: 'NO_LINE_ITEMS', severity: 'blocker' }]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Chat edit confirmation card
+ *
+ * Shows the patch the agent proposed for a free-text edit of the order,
+ * with the re-validation of the edited order, before it is applied.
+ */
+
+import type { CanonicalSalesOrder, LineItem } from '@order-processing/parser';
+import { IssueItem, JsonPatchOperation } from '../types/teams-types.js';
+import { SupportedLanguage } from '../services/language-service.js';
+import { applyReviewPatch } from '../services/review-edits.js';
+import { createValidationSection } from './review-card.js';
+
+export interface ChatEditCardProps {
+  caseId: string;
+  tenantId: string;
+  /** The user's message */
+  instruction: string;
+  /** The saved order the patch applies to */
+  order: CanonicalSalesOrder;
+  patch: JsonPatchOperation[];
+  /** Issues of the order with the patch applied */
+  issues: IssueItem[];
+}
+
+/**
+ * Create the confirmation card of a chat edit
+ */
+export function createChatEditCard(props: ChatEditCardProps, language: SupportedLanguage = 'en'): any {
+  const { caseId, tenantId, instruction, order, patch, issues } = props;
+  const isRtl = language === 'fa';
+
+  // Each operation is described against the order as left by the ones before it
+  const changes: string[] = [];
+  let current = order;
+  for (const edit of patch) {
+    changes.push(describeEdit(current, edit, language));
+    current = applyReviewPatch(current, [edit]);
+  }
+
+  const hasBlockers = issues.some(issue => issue.severity === 'blocker');
+  const editData = { caseId, tenantId, page: 0, edits: patch };
+
+  const actions: any[] = [];
+  if (!hasBlockers) {
+    actions.push({
+      type: 'Action.Submit',
+      title: language === 'en' ? 'Apply Changes' : 'اعمال تغییرات',
+      style: 'positive',
+      data: { ...editData, action: 'apply_chat_edit' },
+    });
+  }
+  actions.push(
+    {
+      type: 'Action.Submit',
+      title: language === 'en' ? 'Adjust on Review Card' : 'ویرایش در کارت بررسی',
+      data: { ...editData, action: 'review_page' },
+    },
+    {
+      type: 'Action.Submit',
+      title: language === 'en' ? 'Discard' : 'لغو',
+      data: { action: 'dismiss', caseId },
+    }
+  );
+
+  return {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body: [
+      {
+        type: 'TextBlock',
+        text: language === 'en' ? 'Confirm Order Changes' : 'تأیید تغییرات سفارش',
+        weight: 'Bolder',
+        size: 'Medium',
+        horizontalAlignment: isRtl ? 'Right' : 'Left',
+      },
+      {
+        type: 'TextBlock',
+        text: `${language === 'en' ? 'Case' : 'پرونده'}: ${caseId}`,
+        isSubtle: true,
+        wrap: true,
+        horizontalAlignment: isRtl ? 'Right' : 'Left',
+      },
+      {
+        type: 'TextBlock',
+        text: `"${instruction}"`,
+        isSubtle: true,
+        wrap: true,
+        horizontalAlignment: isRtl ? 'Right' : 'Left',
+      },
+      {
+        type: 'Container',
+        separator: true,
+        spacing: 'Medium',
+        items: changes.map(change => ({
+          type: 'TextBlock',
+          text: `• ${change}`,
+          wrap: true,
+          horizontalAlignment: isRtl ? 'Right' : 'Left',
+        })),
+      },
+      createValidationSection(issues, language),
+      {
+        type: 'ActionSet',
+        actions: [
+          {
+            type: 'Action.ShowCard',
+            title: language === 'en' ? 'Show JSON Patch' : 'نمایش JSON Patch',
+            card: {
+              type: 'AdaptiveCard',
+              body: [
+                {
+                  type: 'TextBlock',
+                  text: JSON.stringify(patch, null, 2),
+                  fontType: 'Monospace',
+                  size: 'Small',
+                  wrap: true,
+                },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+    actions,
+  };
+}
+
+/**
+ * Describe a patch operation in the user's language
+ */
+function describeEdit(order: CanonicalSalesOrder, edit: JsonPatchOperation, language: SupportedLanguage): string {
+  const lineMatch = edit.path.match(/^\/line_items\/(\d+|-)(?:\/(\w+))?$/);
+
+  if (lineMatch) {
+    const [, indexKey, field] = lineMatch;
+    const item = indexKey === '-' ? undefined : order.line_items?.[Number(indexKey)];
+    const lineLabel = item
+      ? `${language === 'en' ? 'Line' : 'ردیف'} ${item.row + 1} (${item.sku || item.product_name || '-'})`
+      : edit.path;
+
+    if (!field && edit.op === 'remove') {
+      return language === 'en' ? `Remove ${lineLabel}` : `حذف ${lineLabel}`;
+    }
+
+    if (!field && edit.op === 'add') {
+      const line = edit.value as LineItem;
+      return language === 'en'
+        ? `Add line: ${line.sku} × ${line.quantity}`
+        : `افزودن ردیف: ${line.sku} × ${line.quantity}`;
+    }
+
+    if (field) {
+      const currentValue = item ? (item as unknown as Record<string, unknown>)[field] : undefined;
+      return `${lineLabel}: ${getFieldLabel(field, language)} ${formatValue(currentValue)} → ${formatValue(edit.value)}`;
+    }
+  }
+
+  if (edit.path === '/customer/input_name') {
+    return `${language === 'en' ? 'Customer' : 'مشتری'}: ${formatValue(order.customer?.input_name)} → ${formatValue(edit.value)}`;
+  }
+
+  return edit.op === 'remove'
+    ? `${edit.op} ${edit.path}`
+    : `${edit.op} ${edit.path}: ${formatValue(edit.value)}`;
+}
+
+/**
+ * Get the display name of a line item field
+ */
+function getFieldLabel(field: string, language: SupportedLanguage): string {
+  const labels: Record<string, { en: string; fa: string }> = {
+    sku: { en: 'SKU', fa: 'کد محصول' },
+    quantity: { en: 'quantity', fa: 'تعداد' },
+    product_name: { en: 'product', fa: 'محصول' },
+    unit_price_source: { en: 'unit price', fa: 'قیمت واحد' },
+  };
+
+  return labels[field]?.[language] || field;
+}
+
+/**
+ * Format a patch value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
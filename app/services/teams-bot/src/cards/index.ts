@@ -31,3 +31,6 @@ export {
 
 // Cancel confirmation card
 export { createCancelConfirmationCard } from './cancel-confirmation-card.js';
+
+// Chat edit confirmation card
+export { createChatEditCard, type ChatEditCardProps } from './chat-edit-card.js';
@@ -1,92 +1,316 @@
 /**
  * Review card - shown when order is ready for approval
+ * With lines, the card is editable: SKU and quantity inputs per line,
+ * add/remove line actions, paging and re-validation results
  */
 
-import { buildCard } from './card-builder.js';
-import { OrderReview } from '../types/teams-types.js';
+import { OrderReview, OrderReviewLine, IssueItem } from '../types/teams-types.js';
+import { SupportedLanguage } from '../services/language-service.js';
 
-const REVIEW_TEMPLATE = {
-  $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
-  type: 'AdaptiveCard',
-  version: '1.5',
-  body: [
+/**
+ * Lines per page. Each line takes ~10 card elements, which keeps a page
+ * well within the Adaptive Card size Teams accepts.
+ */
+export const REVIEW_PAGE_SIZE = 20;
+
+export function createReviewCard(review: OrderReview, language: SupportedLanguage = 'en'): any {
+  const warnings = review.warnings.length > 0
+    ? review.warnings.join('\n')
+    : (language === 'en' ? 'No warnings' : 'بدون هشدار');
+
+  const body: any[] = [
     {
       type: 'TextBlock',
       weight: 'Bolder',
       size: 'Large',
-      text: 'Draft Sales Order Preview',
+      text: language === 'en' ? 'Draft Sales Order Preview' : 'پیش‌نمایش پیش‌نویس سفارش فروش',
     },
     {
       type: 'TextBlock',
-      text: 'Case: ${caseId}',
+      text: `${language === 'en' ? 'Case' : 'پرونده'}: ${review.caseId}`,
       isSubtle: true,
       wrap: true,
     },
     {
       type: 'FactSet',
       facts: [
-        {
-          title: 'Customer',
-          value: '${customerName}',
-        },
-        {
-          title: 'Line items',
-          value: '${lineItemCount}',
-        },
-        {
-          title: 'Total (source)',
-          value: '${totalSource}',
-        },
-        {
-          title: 'Total (Zoho pricing)',
-          value: '${totalZoho}',
-        },
+        { title: language === 'en' ? 'Customer' : 'مشتری', value: review.customerName },
+        { title: language === 'en' ? 'Line items' : 'اقلام', value: String(review.lineItemCount) },
+        { title: language === 'en' ? 'Total (source)' : 'جمع (فایل)', value: review.totalSource },
+        { title: language === 'en' ? 'Total (Zoho pricing)' : 'جمع (قیمت Zoho)', value: review.totalZoho },
       ],
     },
     {
       type: 'TextBlock',
-      text: 'Warnings / Ambiguities',
+      text: language === 'en' ? 'Warnings / Ambiguities' : 'هشدارها / ابهامات',
       weight: 'Bolder',
       spacing: 'Medium',
     },
     {
       type: 'TextBlock',
-      text: '${warnings}',
+      text: warnings,
       wrap: true,
       isSubtle: true,
     },
-  ],
-  actions: [
+  ];
+
+  if (!review.lines) {
+    return {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body,
+      actions: [
+        {
+          type: 'Action.Submit',
+          title: language === 'en' ? 'Approve & Create Draft in Zoho' : 'تأیید و ایجاد پیش‌نویس در Zoho',
+          data: {
+            action: 'approve_create',
+            caseId: review.caseId,
+          },
+        },
+        {
+          type: 'Action.Submit',
+          title: language === 'en' ? 'Request Changes' : 'درخواست تغییرات',
+          data: {
+            action: 'request_changes',
+            caseId: review.caseId,
+          },
+        },
+      ],
+    };
+  }
+
+  const pageCount = Math.max(1, Math.ceil(review.lines.length / REVIEW_PAGE_SIZE));
+  const page = Math.min(Math.max(review.page ?? 0, 0), pageCount - 1);
+  const pageLines = review.lines.slice(page * REVIEW_PAGE_SIZE, (page + 1) * REVIEW_PAGE_SIZE);
+
+  // Every action carries the pending edits; the inputs on the page are added to them
+  const actionData = {
+    caseId: review.caseId,
+    tenantId: review.tenantId,
+    page,
+    edits: review.edits || [],
+  };
+
+  const editCount = review.edits?.length || 0;
+  if (editCount > 0) {
+    body.push({
+      type: 'TextBlock',
+      text: language === 'en'
+        ? `${editCount} change(s) not yet submitted`
+        : `${editCount} تغییر هنوز ارسال نشده است`,
+      color: 'Warning',
+      wrap: true,
+      spacing: 'Medium',
+    });
+  }
+
+  body.push(
     {
-      type: 'Action.Submit',
-      title: 'Approve & Create Draft in Zoho',
-      data: {
-        action: 'approve_create',
-        caseId: '${caseId}',
-      },
+      type: 'TextBlock',
+      text: language === 'en'
+        ? `Lines ${page * REVIEW_PAGE_SIZE + 1}-${page * REVIEW_PAGE_SIZE + pageLines.length} of ${review.lines.length}`
+        : `ردیف‌های ${page * REVIEW_PAGE_SIZE + 1} تا ${page * REVIEW_PAGE_SIZE + pageLines.length} از ${review.lines.length}`,
+      weight: 'Bolder',
+      spacing: 'Medium',
     },
-    {
+    ...pageLines.map(line => createLineRow(line, actionData, language))
+  );
+
+  const pageActions: any[] = [];
+  if (page > 0) {
+    pageActions.push({
+      type: 'Action.Submit',
+      title: language === 'en' ? '◀ Previous' : 'قبلی ◀',
+      data: { ...actionData, action: 'review_page', page: page - 1 },
+    });
+  }
+  if (page < pageCount - 1) {
+    pageActions.push({
       type: 'Action.Submit',
-      title: 'Request Changes',
-      data: {
-        action: 'request_changes',
-        caseId: '${caseId}',
+      title: language === 'en' ? 'Next ▶' : '▶ بعدی',
+      data: { ...actionData, action: 'review_page', page: page + 1 },
+    });
+  }
+
+  body.push({
+    type: 'ActionSet',
+    actions: [
+      ...pageActions,
+      {
+        type: 'Action.ShowCard',
+        title: language === 'en' ? 'Add Line' : 'افزودن ردیف',
+        card: {
+          type: 'AdaptiveCard',
+          body: [
+            {
+              type: 'Input.Text',
+              id: 'new_sku',
+              label: 'SKU',
+            },
+            {
+              type: 'Input.Number',
+              id: 'new_quantity',
+              label: language === 'en' ? 'Quantity' : 'تعداد',
+              min: 0,
+            },
+          ],
+          actions: [
+            {
+              type: 'Action.Submit',
+              title: language === 'en' ? 'Add' : 'افزودن',
+              data: { ...actionData, action: 'review_add_line' },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  if (review.issues) {
+    body.push(createValidationSection(review.issues, language));
+  }
+
+  return {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body,
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: language === 'en' ? 'Submit Changes' : 'ارسال تغییرات',
+        style: 'positive',
+        data: { ...actionData, action: 'review_submit' },
+      },
+      {
+        type: 'Action.Submit',
+        title: language === 'en' ? 'Check Changes' : 'بررسی تغییرات',
+        data: { ...actionData, action: 'review_page' },
+      },
+      {
+        type: 'Action.Submit',
+        title: language === 'en' ? 'Discard Changes' : 'لغو تغییرات',
+        associatedInputs: 'none',
+        data: { caseId: review.caseId, tenantId: review.tenantId, action: 'review_edit' },
+      },
+    ],
+  };
+}
+
+/**
+ * Create the inputs row of one line
+ */
+function createLineRow(
+  line: OrderReviewLine,
+  actionData: Record<string, unknown>,
+  language: SupportedLanguage
+): any {
+  return {
+    type: 'ColumnSet',
+    spacing: 'Small',
+    columns: [
+      {
+        type: 'Column',
+        width: 'stretch',
+        verticalContentAlignment: 'Center',
+        items: [
+          {
+            type: 'TextBlock',
+            text: `${line.row + 1}. ${line.productName || line.sku || '-'}`,
+            wrap: true,
+            size: 'Small',
+          },
+        ],
+      },
+      {
+        type: 'Column',
+        width: 'stretch',
+        items: [
+          {
+            type: 'Input.Text',
+            id: `sku_${line.index}`,
+            placeholder: 'SKU',
+            value: line.sku || '',
+          },
+        ],
       },
+      {
+        type: 'Column',
+        width: 'auto',
+        items: [
+          {
+            type: 'Input.Number',
+            id: `qty_${line.index}`,
+            placeholder: language === 'en' ? 'Qty' : 'تعداد',
+            min: 0,
+            value: line.quantity ?? undefined,
+          },
+        ],
+      },
+      {
+        type: 'Column',
+        width: 'auto',
+        items: [
+          {
+            type: 'ActionSet',
+            actions: [
+              {
+                type: 'Action.Submit',
+                title: '✕',
+                tooltip: language === 'en' ? 'Remove line' : 'حذف ردیف',
+                data: { ...actionData, action: 'review_remove_line', lineIndex: line.index },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Create the re-validation results section
+ */
+export function createValidationSection(issues: IssueItem[], language: SupportedLanguage): any {
+  const icons: Record<IssueItem['severity'], string> = {
+    blocker: '🚫',
+    error: '❌',
+    warning: '⚠️',
+    info: 'ℹ️',
+  };
+
+  const items: any[] = [
+    {
+      type: 'TextBlock',
+      text: language === 'en' ? 'Validation' : 'اعتبارسنجی',
+      weight: 'Bolder',
     },
-  ],
-};
+  ];
 
-export function createReviewCard(review: OrderReview): any {
-  const warnings = review.warnings.length > 0
-    ? review.warnings.join('\n')
-    : 'No warnings';
+  if (issues.length === 0) {
+    items.push({
+      type: 'TextBlock',
+      text: language === 'en' ? '✅ No issues found' : '✅ مشکلی یافت نشد',
+      wrap: true,
+    });
+  } else {
+    for (const issue of issues) {
+      items.push({
+        type: 'TextBlock',
+        text: `${icons[issue.severity]} ${language === 'fa' && issue.messageFa ? issue.messageFa : issue.message}`,
+        wrap: true,
+        size: 'Small',
+        color: issue.severity === 'blocker' || issue.severity === 'error' ? 'Attention' : 'Default',
+      });
+    }
+  }
 
-  return buildCard(REVIEW_TEMPLATE, {
-    caseId: review.caseId,
-    customerName: review.customerName,
-    lineItemCount: String(review.lineItemCount),
-    totalSource: review.totalSource,
-    totalZoho: review.totalZoho,
-    warnings,
-  });
+  return {
+    type: 'Container',
+    spacing: 'Medium',
+    style: issues.some(i => i.severity === 'blocker') ? 'attention' : 'default',
+    items,
+  };
 }
@@ -0,0 +1,146 @@
+/**
+ * Tests for amending completed orders: the Amend Order action and revised
+ * files sent to the workflow's amend endpoint
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TurnContext } from 'botbuilder';
+import { CaseService, CaseDocument } from '../../services/case-service.js';
+import { AuthService } from '../../services/auth-service.js';
+import { FileDownloadService } from '../../services/file-download.js';
+import { WorkflowClient } from '../../services/workflow-client.js';
+import { conversationStore } from '../../services/conversation-store.js';
+import { CardSubmitHandler } from '../card-submit-handler.js';
+import { FileUploadHandler } from '../file-upload-handler.js';
+
+function createContext(activity: Record<string, any>, sent: any[]): TurnContext {
+  return {
+    activity: {
+      type: 'message',
+      id: '1700000000001',
+      channelId: 'msteams',
+      conversation: { id: 'a:personal-chat', conversationType: 'personal' },
+      channelData: { tenant: { id: 'tenant-1' } },
+      from: { id: '29:user', aadObjectId: 'user-1', name: 'Sara' },
+      ...activity,
+    },
+    turnState: new Map(),
+    sendActivity: async (reply: any) => {
+      sent.push(reply);
+    },
+  } as unknown as TurnContext;
+}
+
+describe('Amend Order', () => {
+  let sent: any[];
+  let updateCase: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sent = [];
+    updateCase = vi.fn().mockResolvedValue({});
+    vi.spyOn(CaseService.prototype, 'updateCase').mockImplementation(updateCase as any);
+  });
+
+  it('should mark a completed order for amendment by the user', async () => {
+    vi.spyOn(CaseService.prototype, 'getCase').mockResolvedValue({
+      id: 'case-1',
+      tenantId: 'tenant-1',
+      status: 'completed',
+      zohoOrderId: 'so-1',
+      zohoOrderNumber: 'SO-00042',
+    } as CaseDocument);
+
+    await new CardSubmitHandler().handle(createContext({
+      type: 'invoke',
+      value: { action: 'request_amendment', caseId: 'case-1' },
+    }, sent));
+
+    expect(updateCase).toHaveBeenCalledWith('case-1', 'tenant-1', expect.objectContaining({
+      amendmentRequestedBy: 'user-1',
+    }));
+    expect(sent).toEqual([expect.stringContaining('SO-00042')]);
+  });
+
+  it('should refuse orders without a Zoho draft', async () => {
+    vi.spyOn(CaseService.prototype, 'getCase').mockResolvedValue({
+      id: 'case-1',
+      tenantId: 'tenant-1',
+      status: 'awaiting_approval',
+    } as CaseDocument);
+
+    await new CardSubmitHandler().handle(createContext({
+      type: 'invoke',
+      value: { action: 'request_amendment', caseId: 'case-1' },
+    }, sent));
+
+    expect(updateCase).not.toHaveBeenCalled();
+    expect(sent).toEqual([expect.stringContaining('can no longer be amended')]);
+  });
+});
+
+describe('Revised File Upload', () => {
+  let sent: any[];
+  let amendCase: ReturnType<typeof vi.fn>;
+  let createCase: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    process.env.AZURE_STORAGE_ACCOUNT_NAME = 'teststorage';
+    sent = [];
+    amendCase = vi.fn().mockResolvedValue(undefined);
+    createCase = vi.fn();
+    vi.spyOn(WorkflowClient.prototype, 'amendCase').mockImplementation(amendCase as any);
+    vi.spyOn(CaseService.prototype, 'createCase').mockImplementation(createCase as any);
+    vi.spyOn(AuthService.prototype, 'validateTenant').mockResolvedValue({
+      tenantId: 'tenant-1',
+      isAllowed: true,
+      userId: 'user-1',
+    });
+    vi.spyOn(FileDownloadService.prototype, 'downloadAndStore').mockResolvedValue({
+      blobUri: 'https://teststorage.blob.core.windows.net/orders-incoming/case-1/revised.xlsx',
+      sha256: 'abc',
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      size: 100,
+    });
+    vi.spyOn(conversationStore, 'store').mockResolvedValue('a:personal-chat');
+  });
+
+  const upload = {
+    attachments: [{
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      name: 'PO-4711.xlsx',
+      contentUrl: 'https://example.com/PO-4711.xlsx',
+    }],
+  };
+
+  it('should amend the order the user asked to amend', async () => {
+    vi.spyOn(CaseService.prototype, 'getAmendmentCase').mockResolvedValue('case-1');
+
+    await new FileUploadHandler().handle(createContext(upload, sent));
+
+    expect(createCase).not.toHaveBeenCalled();
+    expect(FileDownloadService.prototype.downloadAndStore).toHaveBeenCalledWith(
+      expect.anything(),
+      'case-1',
+      expect.any(String),
+      expect.stringMatching(/^revised-/)
+    );
+    expect(amendCase).toHaveBeenCalledWith(expect.objectContaining({
+      caseId: 'case-1',
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      blobUrl: expect.stringContaining('case-1/revised.xlsx'),
+    }), expect.any(String));
+  });
+
+  it('should start a new case otherwise', async () => {
+    vi.spyOn(CaseService.prototype, 'getAmendmentCase').mockResolvedValue(null);
+    createCase.mockRejectedValue(new Error('Cosmos unavailable'));
+
+    await new FileUploadHandler().handle(createContext(upload, sent));
+
+    expect(createCase).toHaveBeenCalled();
+    expect(amendCase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for channel and group chat intake: routing rules, thread references
+ * and approver group checks
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TurnContext } from 'botbuilder';
+import { ChannelConfigService, getChannelKey } from '../../services/channel-config.js';
+import { getThreadReference } from '../../services/conversation-store.js';
+import { CaseService, CaseDocument } from '../../services/case-service.js';
+import { AuthService } from '../../services/auth-service.js';
+import { CardSubmitHandler } from '../card-submit-handler.js';
+
+const CHANNEL_ID = '19:sales-north@thread.tacv2';
+
+function createChannelActivity(overrides: Record<string, any> = {}): any {
+  return {
+    type: 'message',
+    id: '1700000000001',
+    channelId: 'msteams',
+    serviceUrl: 'https://smba.trafficmanager.net/emea/',
+    conversation: { id: CHANNEL_ID, conversationType: 'channel' },
+    channelData: { tenant: { id: 'tenant-1' }, channel: { id: CHANNEL_ID } },
+    from: { id: '29:user', aadObjectId: 'user-1', name: 'Sara' },
+    recipient: { id: '28:bot', name: 'Order Bot' },
+    ...overrides,
+  };
+}
+
+describe('Channel Config', () => {
+  const service = new ChannelConfigService([
+    { conversationId: CHANNEL_ID, defaultCustomer: 'ACME Trading', approverGroupId: 'group-1', language: 'fa' },
+    { conversationId: '19:other@thread.v2', tenantId: 'tenant-2' },
+  ]);
+
+  it('should find the rules of a channel from a thread reply', () => {
+    const activity = createChannelActivity({
+      conversation: { id: `${CHANNEL_ID};messageid=1699999999999`, conversationType: 'channel' },
+      channelData: { tenant: { id: 'tenant-1' } },
+    });
+
+    expect(getChannelKey(activity)).toBe(CHANNEL_ID);
+    expect(service.getForActivity(activity)).toMatchObject({ defaultCustomer: 'ACME Trading', language: 'fa' });
+  });
+
+  it('should not apply rules to personal chats or other tenants', () => {
+    expect(service.getForActivity(createChannelActivity({
+      conversation: { id: CHANNEL_ID, conversationType: 'personal' },
+    }))).toBeNull();
+
+    expect(service.getForActivity(createChannelActivity({
+      conversation: { id: '19:other@thread.v2', conversationType: 'groupChat' },
+      channelData: { tenant: { id: 'tenant-1' } },
+    }))).toBeNull();
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(ChannelConfigService.loadFromEnv(undefined)).toEqual([]);
+    expect(() => ChannelConfigService.loadFromEnv('{}')).toThrow('JSON array');
+    expect(() => ChannelConfigService.loadFromEnv('[{"approverGroupId":"group-1"}]')).toThrow('no conversationId');
+    expect(() => ChannelConfigService.loadFromEnv(`[{"conversationId":"${CHANNEL_ID}","language":"de"}]`))
+      .toThrow('unsupported language');
+  });
+});
+
+describe('Thread References', () => {
+  it('should reply in the thread of a root channel post', () => {
+    const reference = getThreadReference(createChannelActivity());
+    expect(reference.conversation.id).toBe(`${CHANNEL_ID};messageid=1700000000001`);
+  });
+
+  it('should keep the conversation of thread replies and group chats', () => {
+    const threadId = `${CHANNEL_ID};messageid=1699999999999`;
+    expect(getThreadReference(createChannelActivity({
+      conversation: { id: threadId, conversationType: 'channel' },
+    })).conversation.id).toBe(threadId);
+
+    expect(getThreadReference(createChannelActivity({
+      conversation: { id: '19:chat@thread.v2', conversationType: 'groupChat' },
+    })).conversation.id).toBe('19:chat@thread.v2');
+  });
+});
+
+describe('Approver Group', () => {
+  let sent: any[];
+  let approveAndCreate: ReturnType<typeof vi.fn>;
+
+  function createContext(from = { id: '29:user', aadObjectId: 'user-1' }): TurnContext {
+    return {
+      activity: createChannelActivity({
+        type: 'invoke',
+        conversation: { id: '19:unconfigured@thread.tacv2', conversationType: 'channel' },
+        channelData: { tenant: { id: 'tenant-1' } },
+        from,
+        value: { action: 'approve_create', caseId: 'case-1' },
+      }),
+      turnState: new Map(),
+      sendActivity: async (activity: any) => {
+        sent.push(activity);
+      },
+    } as unknown as TurnContext;
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sent = [];
+    approveAndCreate = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(CaseService.prototype, 'approveAndCreate').mockImplementation(approveAndCreate as any);
+    vi.spyOn(CaseService.prototype, 'getCase').mockResolvedValue({
+      id: 'case-1',
+      tenantId: 'tenant-1',
+      approverGroupId: 'group-1',
+    } as CaseDocument);
+  });
+
+  it('should let members of the approver group approve', async () => {
+    const isGroupMember = vi.spyOn(AuthService.prototype, 'isGroupMember').mockResolvedValue(true);
+
+    await new CardSubmitHandler().handle(createContext());
+
+    expect(isGroupMember).toHaveBeenCalledWith('user-1', 'group-1');
+    expect(approveAndCreate).toHaveBeenCalledWith('case-1', expect.any(String));
+  });
+
+  it('should refuse users outside the group, or without an AAD identity', async () => {
+    vi.spyOn(AuthService.prototype, 'isGroupMember').mockResolvedValue(false);
+
+    await new CardSubmitHandler().handle(createContext());
+    await new CardSubmitHandler().handle(createContext({ id: '29:guest' } as any));
+
+    expect(approveAndCreate).not.toHaveBeenCalled();
+    expect(sent).toEqual([
+      expect.stringContaining('approver group'),
+      expect.stringContaining('approver group'),
+    ]);
+  });
+
+  it('should refuse the approval when membership cannot be checked', async () => {
+    vi.spyOn(AuthService.prototype, 'isGroupMember').mockRejectedValue(new Error('Graph unavailable'));
+
+    await new CardSubmitHandler().handle(createContext());
+
+    expect(approveAndCreate).not.toHaveBeenCalled();
+    expect(sent[0]).toContain('Could not verify');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the issues card's Submit Corrections action: corrected values
+ * are sent to the running workflow in a CorrectionsSubmitted signal
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TurnContext } from 'botbuilder';
+import { WorkflowClient } from '../../services/workflow-client.js';
+import { CardSubmitHandler } from '../card-submit-handler.js';
+
+function createContext(activity: Record<string, any>, sent: any[]): TurnContext {
+  return {
+    activity: {
+      type: 'message',
+      id: '1700000000001',
+      channelId: 'msteams',
+      conversation: { id: 'a:personal-chat', conversationType: 'personal' },
+      channelData: { tenant: { id: 'tenant-1' } },
+      from: { id: '29:user', aadObjectId: 'user-1', name: 'Sara' },
+      ...activity,
+    },
+    turnState: new Map(),
+    sendActivity: async (reply: any) => {
+      sent.push(reply);
+    },
+  } as unknown as TurnContext;
+}
+
+describe('Submit Corrections', () => {
+  let sent: any[];
+  let signalWorkflow: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sent = [];
+    signalWorkflow = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(WorkflowClient.prototype, 'signalWorkflow').mockImplementation(signalWorkflow as any);
+  });
+
+  const submission = {
+    type: 'invoke',
+    value: {
+      action: 'submit_corrections',
+      caseId: 'case-1',
+      fieldPaths: { EXTRACTION_DISPUTED_0: '/line_items/3/quantity', EXTRACTION_DISPUTED_1: '/line_items/4/sku' },
+      correction_EXTRACTION_DISPUTED_0: ' 12 ',
+      correction_EXTRACTION_DISPUTED_1: '',
+      userNotes: 'Row 4 was smudged',
+    },
+  };
+
+  it('should signal the corrected values by path', async () => {
+    vi.spyOn(WorkflowClient.prototype, 'isWorkflowRunning').mockResolvedValue(true);
+
+    await new CardSubmitHandler().handle(createContext(submission, sent));
+
+    expect(signalWorkflow).toHaveBeenCalledWith(
+      'order-case-1',
+      'CorrectionsSubmitted',
+      expect.objectContaining({
+        caseId: 'case-1',
+        corrections: {
+          '/line_items/3/quantity': { correctedValue: 12, notes: 'Row 4 was smudged' },
+        },
+        submittedBy: 'user-1',
+      }),
+      expect.any(String)
+    );
+  });
+
+  it('should not signal a workflow that is no longer running', async () => {
+    vi.spyOn(WorkflowClient.prototype, 'isWorkflowRunning').mockResolvedValue(false);
+
+    await new CardSubmitHandler().handle(createContext(submission, sent));
+
+    expect(signalWorkflow).not.toHaveBeenCalled();
+    expect(sent).toEqual([expect.stringContaining('no longer active')]);
+  });
+});
@@ -1,93 +1,34 @@
 /**
  * Handler for adaptive card submissions
  * Enhanced with language support and inline correction extraction
- * Includes customer/item selection signal handlers for Temporal workflow
+ * Includes customer/item selection signal handlers for Temporal workflow,
+ * line edits on the review card and confirmed chat edits
+ * Completed orders can be amended: the next upload or chat edit reopens them
+ * Approvals of orders from channels with an approver group are restricted
+ * to the group's members
  */
 
 import { TurnContext, CardFactory, Attachment } from 'botbuilder';
-import { CaseService } from '../services/case-service.js';
+import type { CanonicalSalesOrder } from '@order-processing/parser';
+import { CaseService, CaseDocument } from '../services/case-service.js';
+import { AuthService } from '../services/auth-service.js';
+import { channelConfigService } from '../services/channel-config.js';
+import { WorkflowClient, getTeamsContext } from '../services/workflow-client.js';
+import { chatEditService } from '../services/chat-edit-service.js';
 import { languageService, SupportedLanguage } from '../services/language-service.js';
+import {
+  applyReviewPatch,
+  createAddLineEdit,
+  getLineInputEdits,
+  getReviewLines,
+  validateReviewOrder,
+} from '../services/review-edits.js';
 import { createProcessingCard } from '../cards/processing-card.js';
-import { AdaptiveCardAction } from '../types/teams-types.js';
+import { createReviewCard } from '../cards/review-card.js';
+import { AdaptiveCardAction, IssueItem, JsonPatchOperation, TeamsChannelData } from '../types/teams-types.js';
 import { getCorrelationId } from '../middleware/correlation-middleware.js';
 import { createLogger } from '../middleware/logging-middleware.js';
 
-/**
- * Workflow service client for sending signals
- */
-class WorkflowClient {
-  private endpoint: string;
-
-  constructor() {
-    this.endpoint = process.env.WORKFLOW_ENDPOINT || 'http://localhost:3000';
-  }
-
-  /**
-   * Send a signal to a running workflow
-   */
-  async signalWorkflow(
-    workflowId: string,
-    signalName: string,
-    payload: unknown,
-    correlationId: string
-  ): Promise<void> {
-    const url = `${this.endpoint}/api/workflow/${workflowId}/signal/${signalName}`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-correlation-id': correlationId,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to signal workflow: ${response.status} - ${errorText}`);
-    }
-  }
-
-  /**
-   * Check if a workflow is running
-   */
-  async isWorkflowRunning(workflowId: string): Promise<boolean> {
-    try {
-      const url = `${this.endpoint}/api/workflow/${workflowId}/status`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return false;
-      }
-
-      const status = (await response.json()) as { runtimeStatus?: string };
-      return status.runtimeStatus === 'RUNNING';
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Cancel a running workflow
-   */
-  async cancelWorkflow(workflowId: string, correlationId: string): Promise<void> {
-    const url = `${this.endpoint}/api/workflow/${workflowId}/cancel`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-correlation-id': correlationId,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to cancel workflow: ${response.status} - ${errorText}`);
-    }
-  }
-}
-
 /**
  * Extended card action with inline corrections
  */
@@ -99,10 +40,12 @@ interface ExtendedCardAction extends AdaptiveCardAction {
 export class CardSubmitHandler {
   private caseService: CaseService;
   private workflowClient: WorkflowClient;
+  private authService: AuthService;
 
   constructor() {
     this.caseService = new CaseService();
     this.workflowClient = new WorkflowClient();
+    this.authService = new AuthService();
   }
 
   async handle(context: TurnContext): Promise<void> {
@@ -110,7 +53,7 @@ export class CardSubmitHandler {
     const logger = createLogger(correlationId);
 
     const value = context.activity.value as ExtendedCardAction;
-    const language = this.detectLanguage(context);
+    const language = channelConfigService.getForActivity(context.activity)?.language || this.detectLanguage(context);
 
     if (!value || !value.action) {
       const message = language === 'fa'
@@ -136,6 +79,10 @@ export class CardSubmitHandler {
           await this.handleRequestReupload(context, value, correlationId, language, logger);
           break;
 
+        case 'request_amendment':
+          await this.handleRequestAmendment(context, value, language, logger);
+          break;
+
         case 'approve_create':
           await this.handleApproveCreate(context, value, correlationId, language, logger);
           break;
@@ -168,6 +115,18 @@ export class CardSubmitHandler {
           await this.handleConfirmCancel(context, value, correlationId, language, logger);
           break;
 
+        case 'review_edit':
+        case 'review_page':
+        case 'review_remove_line':
+        case 'review_add_line':
+          await this.handleReviewEdit(context, value, language, logger);
+          break;
+
+        case 'review_submit':
+        case 'apply_chat_edit':
+          await this.handleReviewSubmit(context, value, correlationId, language, logger);
+          break;
+
         case 'dismiss':
           // User dismissed a card, no action needed
           logger.info('Card dismissed', { caseId: value.caseId });
@@ -196,7 +155,7 @@ export class CardSubmitHandler {
 
   /**
    * Handle submission of corrections from issues card
-   * Extracts both inline corrections and general notes
+   * Sends the corrected values (with the user's notes) in a CorrectionsSubmitted signal
    */
   private async handleSubmitCorrections(
     context: TurnContext,
@@ -205,27 +164,48 @@ export class CardSubmitHandler {
     language: SupportedLanguage,
     logger: any
   ): Promise<void> {
+    const workflowId = `order-${value.caseId}`;
+
     // Extract inline corrections from card submission
     const inlineCorrections = this.extractInlineCorrections(value);
+    const fieldCorrections = this.extractFieldCorrections(value, inlineCorrections) ?? {};
 
     logger.info('Submitting corrections', {
       caseId: value.caseId,
+      workflowId,
       hasNotes: !!value.userNotes,
       inlineCorrectionCount: Object.keys(inlineCorrections).length,
     });
 
-    // Build corrections payload
-    const corrections = {
-      userNotes: value.userNotes,
-      inlineCorrections,
+    const isRunning = await this.workflowClient.isWorkflowRunning(workflowId);
+    if (!isRunning) {
+      const message = language === 'fa'
+        ? 'این پرونده دیگر فعال نیست. لطفا یک سفارش جدید ایجاد کنید.'
+        : 'This case is no longer active. Please create a new order.';
+      await context.sendActivity(message);
+      return;
+    }
+
+    // The workflow applies path -> corrected value; the notes are kept with each correction
+    const notes = value.userNotes?.trim() || undefined;
+    const corrections = Object.fromEntries(
+      Object.entries(fieldCorrections).map(([path, correction]) => [
+        path,
+        { ...correction, ...(notes && { notes }) },
+      ])
+    );
+
+    const signalPayload = {
+      caseId: value.caseId,
+      corrections,
+      submittedBy: context.activity.from.aadObjectId || context.activity.from.id,
       submittedAt: new Date().toISOString(),
-      language,
     };
 
-    // Submit corrections to workflow
-    await this.caseService.submitCorrections(
-      value.caseId,
-      corrections,
+    await this.workflowClient.signalWorkflow(
+      workflowId,
+      'CorrectionsSubmitted',
+      signalPayload,
       correlationId
     );
 
@@ -246,7 +226,7 @@ export class CardSubmitHandler {
 
     logger.info('Corrections submitted', {
       caseId: value.caseId,
-      correctionCount: Object.keys(inlineCorrections).length,
+      correctionCount: Object.keys(corrections).length,
     });
   }
 
@@ -272,6 +252,37 @@ export class CardSubmitHandler {
     return corrections;
   }
 
+  /**
+   * Map inline corrections of field-level issues to the values they correct
+   * The card sends fieldPaths: {issueCode}_{index} -> JSON path (e.g. /line_items/3/quantity)
+   */
+  private extractFieldCorrections(
+    value: ExtendedCardAction,
+    inlineCorrections: Record<string, string>
+  ): Record<string, { correctedValue: string | number }> | undefined {
+    const fieldPaths = value.fieldPaths as Record<string, string> | undefined;
+    if (!fieldPaths) {
+      return undefined;
+    }
+
+    const corrections: Record<string, { correctedValue: string | number }> = {};
+
+    for (const [key, path] of Object.entries(fieldPaths)) {
+      const corrected = inlineCorrections[key];
+      if (!corrected) {
+        continue;
+      }
+
+      // Quantities are numbers in the canonical order
+      const numeric = Number(corrected);
+      corrections[path] = {
+        correctedValue: path.endsWith('/quantity') && Number.isFinite(numeric) ? numeric : corrected,
+      };
+    }
+
+    return Object.keys(corrections).length > 0 ? corrections : undefined;
+  }
+
   /**
    * Handle request to re-upload spreadsheet
    */
@@ -322,6 +333,48 @@ export class CardSubmitHandler {
     await context.sendActivity(message);
   }
 
+  /**
+   * Handle request to amend a completed order
+   * Marks the case so the user's next upload or chat edit amends its Zoho
+   * draft instead of starting a new case
+   */
+  private async handleRequestAmendment(
+    context: TurnContext,
+    value: ExtendedCardAction,
+    language: SupportedLanguage,
+    logger: any
+  ): Promise<void> {
+    const channelData = context.activity.channelData as TeamsChannelData | undefined;
+    const tenantId = value.tenantId || channelData?.tenant?.id || 'default';
+    const userId = context.activity.from.aadObjectId || context.activity.from.id;
+
+    const caseDoc = await this.caseService.getCase(value.caseId, tenantId);
+    if (!caseDoc || caseDoc.status !== 'completed' || !caseDoc.zohoOrderId) {
+      const message = language === 'fa'
+        ? 'این سفارش قابل اصلاح نیست.'
+        : 'This order can no longer be amended.';
+      await context.sendActivity(message);
+      return;
+    }
+
+    await this.caseService.updateCase(caseDoc.id, tenantId, {
+      amendmentRequestedBy: userId,
+      amendmentRequestedAt: new Date().toISOString(),
+    });
+
+    logger.info('Amendment requested', { caseId: caseDoc.id, userId });
+
+    const orderNumber = caseDoc.zohoOrderNumber || caseDoc.id;
+    const message = language === 'fa'
+      ? chatEditService.isEnabled()
+        ? `برای اصلاح سفارش ${orderNumber}، فایل اصلاح شده را آپلود کنید یا تغییر را بنویسید، مثلاً «۵ عدد به ردیف ۳ اضافه کن».`
+        : `برای اصلاح سفارش ${orderNumber}، فایل اصلاح شده را آپلود کنید.`
+      : chatEditService.isEnabled()
+        ? `To amend order ${orderNumber}, upload the revised file or describe the change, e.g. "add 5 more of line 3".`
+        : `To amend order ${orderNumber}, upload the revised file.`;
+    await context.sendActivity(message);
+  }
+
   /**
    * Handle approval to create draft in Zoho
    */
@@ -332,6 +385,10 @@ export class CardSubmitHandler {
     language: SupportedLanguage,
     logger: any
   ): Promise<void> {
+    if (!(await this.ensureApprover(context, value.caseId, language, logger))) {
+      return;
+    }
+
     logger.info('Order approved for creation', { caseId: value.caseId });
 
     // Send immediate acknowledgment
@@ -347,6 +404,65 @@ export class CardSubmitHandler {
     logger.info('Creation workflow triggered', { caseId: value.caseId });
   }
 
+  /**
+   * Check that the user may approve the case, telling them if not
+   * Cases uploaded in a channel with an approver group may only be approved by
+   * members of the group. The group recorded on the case applies wherever the
+   * card is submitted; the rules of the current channel apply as well.
+   */
+  private async ensureApprover(
+    context: TurnContext,
+    caseId: string,
+    language: SupportedLanguage,
+    logger: any
+  ): Promise<boolean> {
+    const activity = context.activity;
+    const tenantId = (activity.channelData as TeamsChannelData)?.tenant?.id || 'default';
+    const caseDoc = await this.caseService.getCase(caseId, tenantId);
+
+    const approverGroupIds = [...new Set([
+      caseDoc?.approverGroupId,
+      channelConfigService.getForActivity(activity)?.approverGroupId,
+    ].filter((groupId): groupId is string => !!groupId))];
+
+    if (approverGroupIds.length === 0) {
+      return true;
+    }
+
+    const userId = activity.from?.aadObjectId;
+
+    try {
+      const isApprover = !!userId && (await Promise.all(
+        approverGroupIds.map(groupId => this.authService.isGroupMember(userId, groupId))
+      )).every(Boolean);
+
+      if (isApprover) {
+        return true;
+      }
+
+      logger.warn('Approval denied: user is not in the approver group', {
+        caseId,
+        userId: userId || activity.from?.id,
+        approverGroupIds,
+      });
+
+      const message = language === 'fa'
+        ? 'فقط اعضای گروه تأییدکنندگان این کانال می‌توانند این سفارش را تأیید کنند.'
+        : 'Only members of this channel\'s approver group can approve this order.';
+      await context.sendActivity(message);
+    } catch (error) {
+      // Fail closed: an approval is never let through unchecked
+      logger.error('Failed to check approver group membership', error);
+
+      const message = language === 'fa'
+        ? 'امکان بررسی مجوز تأیید شما وجود ندارد. لطفاً بعداً دوباره تلاش کنید.'
+        : 'Could not verify that you can approve this order. Please try again later.';
+      await context.sendActivity(message);
+    }
+
+    return false;
+  }
+
   /**
    * Handle request for changes
    */
@@ -850,4 +966,273 @@ export class CardSubmitHandler {
       await context.sendActivity(errorMessage);
     }
   }
+
+  // ============================================================================
+  // Review Card Line Edits
+  // ============================================================================
+
+  /**
+   * Handle an edit on the review card (open, page, remove line, add line)
+   * Adds the inputs of the shown page to the pending edits and re-renders
+   * the card with the edited order and its re-validation results
+   */
+  private async handleReviewEdit(
+    context: TurnContext,
+    value: ExtendedCardAction,
+    language: SupportedLanguage,
+    logger: any
+  ): Promise<void> {
+    const review = await this.loadReviewEdits(context, value, language);
+    if (!review) {
+      return;
+    }
+
+    const { caseDoc, order, tenantId } = review;
+    const edits = [...review.edits];
+
+    if (value.action === 'review_remove_line') {
+      edits.push({ op: 'remove', path: `/line_items/${Number(value.lineIndex)}` });
+    }
+
+    if (value.action === 'review_add_line') {
+      const sku = typeof value.new_sku === 'string' ? value.new_sku.trim() : '';
+      const quantity = Number(value.new_quantity);
+
+      if (!sku || value.new_quantity === undefined || value.new_quantity === '' || !Number.isFinite(quantity)) {
+        const message = language === 'fa'
+          ? 'لطفا کد محصول و تعداد ردیف جدید را وارد کنید.'
+          : 'Please enter the SKU and quantity of the new line.';
+        await context.sendActivity(message);
+        return;
+      }
+
+      edits.push(createAddLineEdit(applyReviewPatch(order, edits), sku, quantity));
+    }
+
+    // Opening the card (or discarding) starts from the saved order
+    const pending = value.action === 'review_edit' ? [] : edits;
+    const edited = applyReviewPatch(order, pending);
+
+    // Show the page of an added line
+    const page = value.action === 'review_add_line'
+      ? Number.MAX_SAFE_INTEGER
+      : Number(value.page) || 0;
+
+    logger.info('Review card edited', {
+      caseId: caseDoc.id,
+      action: value.action,
+      editCount: pending.length,
+    });
+
+    await this.showReviewCard(context, caseDoc, edited, {
+      tenantId,
+      page,
+      edits: pending,
+      issues: validateReviewOrder(edited),
+    }, language);
+  }
+
+  /**
+   * Handle submission of the review card edits or a confirmed chat edit
+   * Sends the pending edits as a JSON Patch in the CorrectionsSubmitted signal,
+   * unless the edited order has blocking issues. Chat edits are applied
+   * through the agent's revalidate_case tool, which sends the same signal.
+   * A chat edit of a completed order starts an amendment of its Zoho draft.
+   */
+  private async handleReviewSubmit(
+    context: TurnContext,
+    value: ExtendedCardAction,
+    correlationId: string,
+    language: SupportedLanguage,
+    logger: any
+  ): Promise<void> {
+    const review = await this.loadReviewEdits(context, value, language);
+    if (!review) {
+      return;
+    }
+
+    const { caseDoc, order, edits, tenantId } = review;
+
+    if (edits.length === 0) {
+      const message = language === 'fa'
+        ? 'تغییری برای ارسال وجود ندارد.'
+        : 'There are no changes to submit.';
+      await context.sendActivity(message);
+      return;
+    }
+
+    const edited = applyReviewPatch(order, edits);
+    const issues = validateReviewOrder(edited);
+
+    if (issues.some(issue => issue.severity === 'blocker')) {
+      await this.showReviewCard(context, caseDoc, edited, {
+        tenantId,
+        page: Number(value.page) || 0,
+        edits,
+        issues,
+      }, language);
+
+      const message = language === 'fa'
+        ? 'لطفا قبل از ارسال، مشکلات مسدودکننده را برطرف کنید.'
+        : 'Please resolve the blocking issues before submitting.';
+      await context.sendActivity(message);
+      return;
+    }
+
+    const workflowId = `order-${caseDoc.id}`;
+    const submittedBy = context.activity.from.aadObjectId || context.activity.from.id;
+
+    if (caseDoc.status === 'completed') {
+      await this.workflowClient.amendCase({
+        caseId: caseDoc.id,
+        tenantId,
+        userId: submittedBy,
+        patch: edits,
+        teams: getTeamsContext(context.activity),
+      }, correlationId);
+    } else if (!(await this.workflowClient.isWorkflowRunning(workflowId))) {
+      const message = language === 'fa'
+        ? 'این پرونده دیگر فعال نیست. لطفا یک سفارش جدید ایجاد کنید.'
+        : 'This case is no longer active. Please create a new order.';
+      await context.sendActivity(message);
+      return;
+    } else if (value.action === 'apply_chat_edit') {
+      await chatEditService.apply(caseDoc, edits, submittedBy, correlationId);
+    } else {
+      const signalPayload = {
+        caseId: caseDoc.id,
+        corrections: {},
+        patch: edits,
+        submittedBy,
+        submittedAt: new Date().toISOString(),
+      };
+
+      await this.workflowClient.signalWorkflow(
+        workflowId,
+        'CorrectionsSubmitted',
+        signalPayload,
+        correlationId
+      );
+    }
+
+    const statusMessage = language === 'fa'
+      ? 'در حال بررسی مجدد با اصلاحات شما...'
+      : 'Re-validating with your corrections...';
+
+    const processingCard = createProcessingCard(
+      caseDoc.id,
+      caseDoc.fileName,
+      correlationId,
+      statusMessage
+    );
+    await this.replaceCard(context, processingCard);
+
+    logger.info('Review edits submitted', {
+      caseId: caseDoc.id,
+      workflowId,
+      action: value.action,
+      editCount: edits.length,
+    });
+  }
+
+  /**
+   * Load the case of a review card action and the edits made so far
+   * (the card's pending edits plus the inputs of the shown page).
+   * Replies and returns null when the order can no longer be edited.
+   */
+  private async loadReviewEdits(
+    context: TurnContext,
+    value: ExtendedCardAction,
+    language: SupportedLanguage
+  ): Promise<{
+    caseDoc: CaseDocument;
+    order: CanonicalSalesOrder;
+    edits: JsonPatchOperation[];
+    tenantId: string;
+  } | null> {
+    const channelData = context.activity.channelData as { tenant?: { id?: string } } | undefined;
+    const tenantId: string = value.tenantId || channelData?.tenant?.id || 'default';
+
+    const caseDoc = await this.caseService.getCase(value.caseId, tenantId);
+    const order = caseDoc?.canonicalData as CanonicalSalesOrder | undefined;
+
+    // Chat edits also apply to a completed order the user asked to amend
+    const isEditable = caseDoc?.status === 'awaiting_approval' || (
+      value.action === 'apply_chat_edit' &&
+      caseDoc?.status === 'completed' &&
+      !!caseDoc.zohoOrderId &&
+      !!caseDoc.amendmentRequestedBy
+    );
+
+    if (!caseDoc || !isEditable || !order || !Array.isArray(order.line_items)) {
+      const message = language === 'fa'
+        ? 'این سفارش دیگر قابل ویرایش نیست.'
+        : 'This order can no longer be edited.';
+      await context.sendActivity(message);
+      return null;
+    }
+
+    let edits: JsonPatchOperation[] = Array.isArray(value.edits) ? value.edits : [];
+    try {
+      const edited = applyReviewPatch(order, edits);
+      edits = [...edits, ...getLineInputEdits(getReviewLines(edited), value)];
+    } catch {
+      // The order changed since the card was rendered; its edits no longer apply
+      const message = language === 'fa'
+        ? 'سفارش از زمان نمایش این کارت تغییر کرده است. لطفا دوباره ویرایش کنید.'
+        : 'The order has changed since this card was shown. Please edit it again.';
+      await context.sendActivity(message);
+      return null;
+    }
+
+    return { caseDoc, order, edits, tenantId };
+  }
+
+  /**
+   * Show the editable review card of an order in place of the submitted card
+   */
+  private async showReviewCard(
+    context: TurnContext,
+    caseDoc: CaseDocument,
+    order: CanonicalSalesOrder,
+    options: { tenantId: string; page: number; edits: JsonPatchOperation[]; issues: IssueItem[] },
+    language: SupportedLanguage
+  ): Promise<void> {
+    const lines = getReviewLines(order);
+    const pendingMessage = language === 'fa' ? 'پس از ارسال محاسبه می‌شود' : 'Updated after submit';
+
+    const card = createReviewCard({
+      caseId: caseDoc.id,
+      tenantId: options.tenantId,
+      customerName: caseDoc.zohoCustomerName || order.customer?.input_name || 'Unknown',
+      lineItemCount: lines.length,
+      totalSource: typeof order.totals?.total_source === 'number' ? String(order.totals.total_source) : 'N/A',
+      totalZoho: pendingMessage,
+      warnings: [],
+      lines,
+      page: options.page,
+      edits: options.edits,
+      issues: options.issues,
+    }, language);
+
+    await this.replaceCard(context, card);
+  }
+
+  /**
+   * Replace the card the action was submitted from, or send a new one
+   */
+  private async replaceCard(context: TurnContext, card: any): Promise<void> {
+    const attachment: Attachment = CardFactory.adaptiveCard(card);
+
+    if (context.activity.replyToId) {
+      await context.updateActivity({
+        type: 'message',
+        id: context.activity.replyToId,
+        attachments: [attachment],
+      });
+      return;
+    }
+
+    await context.sendActivity({ attachments: [attachment] });
+  }
 }
@@ -1,28 +1,40 @@
 /**
  * Handler for file upload messages
  * Enhanced with language detection and conversation reference storage
+ * Files dropped in channels and group chats take the channel's routing rules
+ * A file sent after "Amend Order" on a completed order amends its Zoho draft
  */
 
 import { TurnContext, CardFactory, Attachment } from 'botbuilder';
 import { FileDownloadService } from '../services/file-download.js';
 import { CaseService } from '../services/case-service.js';
-import { AuthService } from '../services/auth-service.js';
+import { AuthService, TenantInfo } from '../services/auth-service.js';
+import { WorkflowClient, getTeamsContext } from '../services/workflow-client.js';
 import { conversationStore } from '../services/conversation-store.js';
+import { channelConfigService, getChannelKey, getConversationType } from '../services/channel-config.js';
 import { languageService, SupportedLanguage } from '../services/language-service.js';
 import { createProcessingCard } from '../cards/processing-card.js';
-import { TeamsAttachment, TeamsChannelData } from '../types/teams-types.js';
+import { TeamsAttachment } from '../types/teams-types.js';
 import { getCorrelationId } from '../middleware/correlation-middleware.js';
 import { createLogger } from '../middleware/logging-middleware.js';
 
+/**
+ * File extensions the parser accepts (.xls is let through so the parser can
+ * return a clear "save as .xlsx" error)
+ */
+const ORDER_FILE_EXTENSIONS = ['xlsx', 'xls', 'ods', 'csv', 'tsv', 'pdf'];
+
 export class FileUploadHandler {
   private fileDownloadService: FileDownloadService;
   private caseService: CaseService;
   private authService: AuthService;
+  private workflowClient: WorkflowClient;
 
   constructor() {
     this.fileDownloadService = new FileDownloadService();
     this.caseService = new CaseService();
     this.authService = new AuthService();
+    this.workflowClient = new WorkflowClient();
   }
 
   async handle(context: TurnContext): Promise<void> {
@@ -32,31 +44,35 @@ export class FileUploadHandler {
     const activity = context.activity;
     const attachments = activity.attachments || [];
 
-    // Detect language from activity locale or text
-    const language = this.detectLanguage(context);
+    // Routing rules of the channel or group chat, if any
+    const channelConfig = channelConfigService.getForActivity(activity);
+    const conversationType = getConversationType(activity);
 
-    // Filter for Excel files
-    const excelAttachments = attachments.filter(att =>
-      this.isExcelFile(att)
+    // The channel's language wins over the sender's locale
+    const language = channelConfig?.language || this.detectLanguage(context);
+
+    // Filter for order files (Excel, OpenDocument, CSV/TSV, PDF)
+    const orderAttachments = attachments.filter(att =>
+      this.isOrderFile(att)
     );
 
-    if (excelAttachments.length === 0) {
+    if (orderAttachments.length === 0) {
       const message = language === 'fa'
-        ? 'لطفاً یک فایل اکسل (.xlsx) حاوی سفارش فروش آپلود کنید.'
-        : 'Please upload an Excel file (.xlsx) containing the sales order.';
+        ? 'لطفاً یک فایل صفحه‌گسترده (.xlsx، .ods، .csv یا .tsv) یا PDF حاوی سفارش فروش آپلود کنید.'
+        : 'Please upload a spreadsheet (.xlsx, .ods, .csv or .tsv) or PDF containing the sales order.';
       await context.sendActivity(message);
       return;
     }
 
-    if (excelAttachments.length > 1) {
+    if (orderAttachments.length > 1) {
       const message = language === 'fa'
-        ? 'لطفاً هر بار فقط یک فایل اکسل آپلود کنید. چندین فایل شناسایی شد.'
-        : 'Please upload only one Excel file at a time. Multiple files were detected.';
+        ? 'لطفاً هر بار فقط یک فایل سفارش آپلود کنید. چندین فایل شناسایی شد.'
+        : 'Please upload only one order file at a time. Multiple files were detected.';
       await context.sendActivity(message);
       return;
     }
 
-    const attachment = excelAttachments[0] as any as TeamsAttachment;
+    const attachment = orderAttachments[0] as any as TeamsAttachment;
 
     try {
       // Validate tenant for cross-tenant access
@@ -66,8 +82,14 @@ export class FileUploadHandler {
       const ackMessage = languageService.getMessage('fileReceived', language);
       await context.sendActivity(ackMessage);
 
+      // A revised file of the completed order the user asked to amend
+      const amendCaseId = await this.caseService.getAmendmentCase(tenantInfo.userId, tenantInfo.tenantId);
+      if (amendCaseId) {
+        await this.handleRevisedFile(context, attachment, amendCaseId, tenantInfo, language);
+        return;
+      }
+
       // Extract Teams metadata
-      const channelData = activity.channelData as TeamsChannelData;
       const conversationId = activity.conversation?.id || 'unknown';
 
       // Create case
@@ -78,12 +100,19 @@ export class FileUploadHandler {
         activityId: activity.id || 'unknown',
         fileName: attachment.name || 'unknown.xlsx',
         correlationId,
+        conversationType,
+        channelKey: getChannelKey(activity) || undefined,
+        defaultCustomer: channelConfig?.defaultCustomer,
+        approverGroupId: channelConfig?.approverGroupId,
+        language,
       });
 
       logger.info('Case created', {
         caseId: caseMetadata.caseId,
         tenantId: tenantInfo.tenantId,
         userId: tenantInfo.userId,
+        conversationType,
+        hasChannelConfig: !!channelConfig,
         language,
       });
 
@@ -124,12 +153,8 @@ export class FileUploadHandler {
       const cardAttachment: Attachment = CardFactory.adaptiveCard(processingCard);
       await context.sendActivity({ attachments: [cardAttachment] });
 
-      // Trigger parser workflow with language preference
-      await this.caseService.triggerParser({
-        ...caseMetadata,
-        // Add language preference for downstream services
-        language,
-      } as any);
+      // Trigger parser workflow (the language and default customer go downstream with the case)
+      await this.caseService.triggerParser(caseMetadata);
 
       logger.info('Parser workflow triggered', {
         caseId: caseMetadata.caseId,
@@ -151,6 +176,57 @@ export class FileUploadHandler {
     }
   }
 
+  /**
+   * Send a revised file to the workflow as an amendment of a completed case
+   * The file is parsed again and its line diff against the drafted order is
+   * shown for approval.
+   */
+  private async handleRevisedFile(
+    context: TurnContext,
+    attachment: TeamsAttachment,
+    caseId: string,
+    tenantInfo: TenantInfo,
+    language: SupportedLanguage
+  ): Promise<void> {
+    const correlationId = getCorrelationId(context);
+    const logger = createLogger(correlationId);
+
+    // Amendment notifications go to the conversation the revised file came from
+    await conversationStore.store(context, caseId);
+
+    const uploadResult = await this.fileDownloadService.downloadAndStore(
+      attachment,
+      caseId,
+      correlationId,
+      `revised-${Date.now()}`
+    );
+
+    logger.info('Revised file uploaded to blob', {
+      caseId,
+      blobUri: uploadResult.blobUri,
+      sha256: uploadResult.sha256,
+      size: uploadResult.size,
+    });
+
+    const processingCard = createProcessingCard(
+      caseId,
+      attachment.name || 'unknown.xlsx',
+      correlationId,
+      language === 'fa' ? 'در حال مقایسه فایل اصلاح شده با سفارش ثبت شده...' : 'Comparing revised file with the drafted order...'
+    );
+    await context.sendActivity({ attachments: [CardFactory.adaptiveCard(processingCard)] });
+
+    await this.workflowClient.amendCase({
+      caseId,
+      tenantId: tenantInfo.tenantId,
+      userId: tenantInfo.userId,
+      blobUrl: uploadResult.blobUri,
+      teams: getTeamsContext(context.activity),
+    }, correlationId);
+
+    logger.info('Amendment workflow triggered', { caseId, source: 'reupload' });
+  }
+
   /**
    * Detect language from activity context
    */
@@ -171,14 +247,18 @@ export class FileUploadHandler {
     return 'en';
   }
 
-  private isExcelFile(attachment: any): boolean {
-    const excelContentTypes = [
+  private isOrderFile(attachment: any): boolean {
+    const orderContentTypes = [
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'application/vnd.ms-excel',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'text/csv',
+      'text/tab-separated-values',
+      'application/pdf',
     ];
 
     // Check direct MIME type (inline uploads)
-    if (excelContentTypes.includes(attachment.contentType)) {
+    if (orderContentTypes.includes(attachment.contentType)) {
       return true;
     }
 
@@ -187,13 +267,13 @@ export class FileUploadHandler {
     // with actual file type in content.fileType
     if (attachment.contentType === 'application/vnd.microsoft.teams.file.download.info') {
       const fileType = attachment.content?.fileType?.toLowerCase() || '';
-      if (fileType === 'xlsx' || fileType === 'xls') {
+      if (ORDER_FILE_EXTENSIONS.includes(fileType)) {
         return true;
       }
     }
 
     // Fallback: check file extension from name
     const fileName = attachment.name?.toLowerCase() || '';
-    return fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
+    return ORDER_FILE_EXTENSIONS.some(ext => fileName.endsWith(`.${ext}`));
   }
 }
@@ -1,15 +1,21 @@
 /**
  * Handler for text messages
  * Enhanced with bilingual support (English and Farsi)
+ * Other text is taken as an edit of the user's active order
  */
 
 import { TurnContext, CardFactory } from 'botbuilder';
+import type { CanonicalSalesOrder } from '@order-processing/parser';
 import { getCorrelationId } from '../middleware/correlation-middleware.js';
 import { createLogger } from '../middleware/logging-middleware.js';
 import { languageService, SupportedLanguage } from '../services/language-service.js';
 import { CaseService, CaseSummary, CaseDocument } from '../services/case-service.js';
 import { TeamsChannelData } from '../types/teams-types.js';
 import { createCancelConfirmationCard } from '../cards/cancel-confirmation-card.js';
+import { createChatEditCard } from '../cards/chat-edit-card.js';
+import { chatEditService } from '../services/chat-edit-service.js';
+import { channelConfigService } from '../services/channel-config.js';
+import { applyReviewPatch, validateReviewOrder } from '../services/review-edits.js';
 
 export class MessageHandler {
   private caseService: CaseService;
@@ -22,7 +28,7 @@ export class MessageHandler {
     const logger = createLogger(correlationId);
 
     const text = context.activity.text?.trim().toLowerCase() || '';
-    const language = this.detectLanguage(context);
+    const language = channelConfigService.getForActivity(context.activity)?.language || this.detectLanguage(context);
 
     logger.info('Message received', {
       text: text.substring(0, 50),
@@ -47,6 +53,11 @@ export class MessageHandler {
       return;
     }
 
+    // Anything else may be an edit of the user's active order
+    if (chatEditService.isEnabled() && await this.handleEditCommand(context, language)) {
+      return;
+    }
+
     // Default response
     await this.sendWelcomeMessage(context, language);
   }
@@ -119,7 +130,7 @@ export class MessageHandler {
           '**راهنمای پردازش سفارش فروش**',
           '',
           '**چه فایل‌هایی می‌توانم آپلود کنم؟**',
-          '- فایل‌های اکسل (.xlsx) حاوی داده‌های سفارش فروش',
+          '- فایل‌های اکسل (.xlsx)، OpenDocument (.ods)، CSV/TSV یا سفارش خرید PDF حاوی داده‌های سفارش فروش',
           '- هر بار یک فایل',
           '- باید شامل: نام مشتری، کد محصول/بارکد، تعداد',
           '',
@@ -134,6 +145,10 @@ export class MessageHandler {
           '- `status` یا `وضعیت` - نمایش سفارشات اخیر',
           '- `cancel` یا `لغو` - لغو سفارش در حال پردازش',
           '',
+          '**ویرایش با پیام:**',
+          '- سفارش آماده تأیید را با یک پیام تغییر دهید، مثلاً «تعداد ردیف ۴ را ۱۲ کن» یا «دو ردیف آخر را حذف کن»',
+          '- تغییرات پیش از اعمال برای تأیید نمایش داده می‌شوند',
+          '',
           '**نکات برای نتایج بهتر:**',
           '- از سرستون‌های واضح استفاده کنید (مثلاً "مشتری"، "کد محصول"، "تعداد")',
           '- به صورت مقادیر خالص ذخیره کنید (بدون فرمول)',
@@ -149,7 +164,7 @@ export class MessageHandler {
           '**Sales Order Processing Help**',
           '',
           '**What files can I upload?**',
-          '- Excel files (.xlsx) containing sales order data',
+          '- Excel (.xlsx), OpenDocument (.ods), CSV/TSV or PDF purchase orders containing sales order data',
           '- One file at a time',
           '- Should include: Customer name, SKU/GTIN, Quantity',
           '',
@@ -164,6 +179,10 @@ export class MessageHandler {
           '- `status` - View your recent orders',
           '- `cancel` - Cancel an in-progress order',
           '',
+          '**Editing by message:**',
+          '- Change an order that is ready for approval by typing, e.g. "change line 4 to 12 units" or "remove the last two lines"',
+          '- The changes are shown for you to confirm before they are applied',
+          '',
           '**Tips for best results:**',
           '- Use clear column headers (e.g., "Customer", "SKU", "Quantity")',
           '- Export as values-only (no formulas)',
@@ -416,6 +435,86 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * Handle a free-text edit of the user's most recent pending order, or of
+   * the completed order they asked to amend
+   * The agent turns the text into a patch, which is shown on a confirmation
+   * card. Returns false when the user has no such order.
+   */
+  private async handleEditCommand(
+    context: TurnContext,
+    language: SupportedLanguage
+  ): Promise<boolean> {
+    const correlationId = getCorrelationId(context);
+    const logger = createLogger(correlationId);
+
+    const userId = context.activity.from?.aadObjectId || context.activity.from?.id || 'unknown';
+    const channelData = context.activity.channelData as TeamsChannelData | undefined;
+    const tenantId = channelData?.tenant?.id || 'default';
+
+    const caseId = await this.caseService.getMostRecentPendingCase(userId, tenantId)
+      || await this.caseService.getAmendmentCase(userId, tenantId);
+    const caseData = caseId ? await this.caseService.getCase(caseId, tenantId) : null;
+    if (!caseData) {
+      return false;
+    }
+
+    // Only the case to amend is returned while completed; its confirmed edit amends the Zoho draft
+    const isEditable = caseData.status === 'awaiting_approval' || caseData.status === 'completed';
+    const order = caseData.canonicalData as CanonicalSalesOrder | undefined;
+    if (!isEditable || !order || !Array.isArray(order.line_items)) {
+      const statusDisplay = this.getStatusDisplay(caseData.status, language);
+      const message = language === 'fa'
+        ? `سفارش ${caseData.id} در وضعیت ${statusDisplay} است. پس از آماده شدن برای تأیید می‌توانید آن را ویرایش کنید.`
+        : `Order ${caseData.id} is ${statusDisplay}. You can edit it once it is ready for approval.`;
+      await context.sendActivity(message);
+      return true;
+    }
+
+    // Farsi digits are sent as Latin digits so line numbers and quantities read the same
+    const instruction = languageService.toLatinDigits(context.activity.text?.trim() || '');
+
+    logger.info('Chat edit received', { caseId: caseData.id, language });
+
+    try {
+      const proposal = await chatEditService.propose(caseData, order, instruction, correlationId);
+
+      if (proposal.patch.length === 0) {
+        const message = proposal.reply || (language === 'fa'
+          ? 'متوجه تغییر مورد نظر نشدم. لطفاً دقیق‌تر بنویسید، مثلاً «تعداد ردیف ۴ را ۱۲ کن».'
+          : 'I could not tell what to change. Please be more specific, e.g. "change line 4 to 12 units".');
+        await context.sendActivity(message);
+        return true;
+      }
+
+      const card = createChatEditCard({
+        caseId: caseData.id,
+        tenantId,
+        instruction,
+        order,
+        patch: proposal.patch,
+        issues: validateReviewOrder(applyReviewPatch(order, proposal.patch)),
+      }, language);
+      await context.sendActivity({ attachments: [CardFactory.adaptiveCard(card)] });
+
+      logger.info('Chat edit confirmation card sent', {
+        caseId: caseData.id,
+        patchCount: proposal.patch.length,
+      });
+    } catch (error) {
+      logger.error('Failed to process chat edit', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      const message = language === 'fa'
+        ? `تغییر سفارش ${caseData.id} ممکن نشد. لطفاً به شکل دیگری بنویسید یا از کارت بررسی استفاده کنید.`
+        : `Sorry, I could not turn that into a change of order ${caseData.id}. Please rephrase it or use the review card.`;
+      await context.sendActivity(message);
+    }
+
+    return true;
+  }
+
   /**
    * Get localized status display
    */
@@ -13,6 +13,7 @@ import { OrderProcessingBot } from './bot.js';
 import { CorrelationMiddleware } from './middleware/correlation-middleware.js';
 import { LoggingMiddleware } from './middleware/logging-middleware.js';
 import { ErrorMiddleware } from './middleware/error-middleware.js';
+import { conversationStore } from './services/conversation-store.js';
 
 // Read environment variables
 const PORT = process.env.PORT || 3000;
@@ -93,6 +94,41 @@ app.post('/api/status', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// User notification endpoint (called by the mail intake service)
+// Posts a card to the user's personal chat with the bot. Channels and group
+// chats are never used, as the card is meant for the user only.
+app.post('/api/notify', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { tenantId, userId, card } = req.body;
+
+    if (!tenantId || !userId || !card) {
+      res.status(400).json({
+        error: 'Missing tenantId, userId or card in request body',
+      });
+      return;
+    }
+
+    const references = await conversationStore.getByUser(userId, tenantId);
+    const stored = references.find(ref => ref.conversationType === 'personal');
+
+    if (!stored) {
+      res.status(404).json({
+        error: 'No personal chat with this user; they have not used the bot yet',
+      });
+      return;
+    }
+
+    await bot.postStatusUpdate(stored.conversationReference, adapter, card);
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Failed to notify user:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // Start server
 app.listen(PORT, () => {
   console.log(JSON.stringify({
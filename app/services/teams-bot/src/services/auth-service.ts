@@ -4,6 +4,7 @@
  */
 
 import { TurnContext } from 'botbuilder';
+import { DefaultAzureCredential } from '@azure/identity';
 import { createLogger } from '../middleware/logging-middleware.js';
 import { getCorrelationId } from '../middleware/correlation-middleware.js';
 
@@ -51,6 +52,8 @@ export interface TenantInfo {
  * Service for handling cross-tenant authentication
  */
 export class AuthService {
+  private credential: DefaultAzureCredential | null = null;
+
   /**
    * Validate tenant from Teams activity
    * Returns tenant info if valid, throws if not
@@ -119,6 +122,45 @@ export class AuthService {
     return ALLOWED_TENANT_IDS.has(tenantId);
   }
 
+  /**
+   * Check if a user is a member of an AAD group, directly or through nested groups
+   * Uses Microsoft Graph checkMemberGroups with the bot's identity, which
+   * needs the GroupMember.Read.All application permission.
+   *
+   * @throws AuthError if the check could not be made
+   */
+  async isGroupMember(userId: string, groupId: string): Promise<boolean> {
+    this.credential ??= new DefaultAzureCredential();
+
+    try {
+      const token = await this.credential.getToken('https://graph.microsoft.com/.default');
+
+      const response = await fetch(
+        `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(userId)}/checkMemberGroups`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token.token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ groupIds: [groupId] }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Graph returned ${response.status}: ${await response.text()}`);
+      }
+
+      const result = await response.json() as { value: string[] };
+      return result.value.includes(groupId);
+    } catch (error) {
+      throw new AuthError(
+        'GROUP_CHECK_FAILED',
+        `Could not check membership of group ${groupId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Extract service URL for proactive messaging
    * The service URL is needed to send messages to a conversation
@@ -49,7 +49,19 @@ export interface CaseDocument {
   zohoOrderId?: string;
   zohoOrderNumber?: string;
   zohoCustomerName?: string;
+  /** User who asked to amend the completed case; cleared by the workflow once the amendment starts */
+  amendmentRequestedBy?: string | null;
+  amendmentRequestedAt?: string;
+  /** Canonical order, written by the workflow after parsing */
+  canonicalData?: unknown;
   language?: 'en' | 'fa';
+  conversationType?: 'personal' | 'channel' | 'groupChat';
+  /** Teams channel or group chat the file was uploaded in */
+  channelKey?: string;
+  /** The channel's customer, used when the file names none */
+  defaultCustomer?: string;
+  /** AAD group whose members may approve the order, from the channel's rules */
+  approverGroupId?: string;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
@@ -245,6 +257,11 @@ export class CaseService {
         status: 'storing_file',
         blobUri: metadata.blobUri,
         fileSha256: metadata.fileSha256,
+        language: metadata.language,
+        conversationType: metadata.conversationType,
+        channelKey: metadata.channelKey,
+        defaultCustomer: metadata.defaultCustomer,
+        approverGroupId: metadata.approverGroupId,
         createdAt: now,
         updatedAt: now,
       };
@@ -465,6 +482,8 @@ export class CaseService {
       metadata: {
         fileName: caseMetadata.fileName,
         fileSha256: caseMetadata.fileSha256,
+        language: caseMetadata.language,
+        defaultCustomer: caseMetadata.defaultCustomer,
       },
     };
 
@@ -490,42 +509,6 @@ export class CaseService {
     }
   }
 
-  /**
-   * Update case with user corrections
-   */
-  async submitCorrections(
-    caseId: string,
-    corrections: unknown,
-    correlationId: string
-  ): Promise<void> {
-    const payload = {
-      caseId,
-      corrections,
-      correlationId,
-    };
-
-    try {
-      const response = await fetch(`${this.workflowEndpoint}/corrections`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-correlation-id': correlationId,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Workflow endpoint returned ${response.status}: ${await response.text()}`
-        );
-      }
-    } catch (error) {
-      throw new Error(
-        `Failed to submit corrections: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-  }
-
   /**
    * Approve and create draft in Zoho
    */
@@ -635,6 +618,43 @@ export class CaseService {
     }
   }
 
+  /**
+   * Get the completed case the user asked to amend
+   * Their next upload or chat edit amends its Zoho draft instead of starting a new case.
+   * Returns the case ID if found, null otherwise
+   */
+  async getAmendmentCase(userId: string, tenantId: string): Promise<string | null> {
+    const container = await this.initCosmos();
+    if (!container) {
+      return null;
+    }
+
+    try {
+      const querySpec = {
+        query: `
+          SELECT TOP 1 c.id
+          FROM c
+          WHERE c.amendmentRequestedBy = @userId
+            AND c.status = 'completed'
+            AND IS_DEFINED(c.zohoOrderId)
+          ORDER BY c.amendmentRequestedAt DESC
+        `,
+        parameters: [{ name: '@userId', value: userId }],
+      };
+
+      const { resources } = await container.items
+        .query<{ id: string }>(querySpec, {
+          partitionKey: tenantId,
+        })
+        .fetchAll();
+
+      return resources.length > 0 ? resources[0].id : null;
+    } catch (error) {
+      console.error('[CaseService] Failed to get case to amend:', error);
+      return null;
+    }
+  }
+
   /**
    * Check if a status is cancellable (not in terminal state)
    */
@@ -0,0 +1,126 @@
+/**
+ * Per-channel routing rules for Teams channels and group chats
+ *
+ * Orders dropped in a shared channel or group chat can be given a default
+ * customer, an approver AAD group and a language. Rules are loaded from the
+ * TEAMS_CHANNEL_CONFIG environment variable, a JSON array such as:
+ *
+ *   [{ "conversationId": "19:abc@thread.tacv2", "defaultCustomer": "ACME Trading",
+ *      "approverGroupId": "8d1f...", "language": "fa" }]
+ *
+ * conversationId is the Teams channel ID for channels, or the chat ID for
+ * group chats. Personal chats are never configured.
+ */
+
+import { Activity } from 'botbuilder';
+import { SupportedLanguage } from './language-service.js';
+import { TeamsChannelData } from '../types/teams-types.js';
+
+/**
+ * Kind of conversation an activity was sent in
+ */
+export type ConversationType = 'personal' | 'channel' | 'groupChat';
+
+/**
+ * Routing rules of a channel or group chat
+ */
+export interface ChannelConfig {
+  /** Teams channel ID, or the chat ID of a group chat */
+  conversationId: string;
+  /** Restrict the rule to one tenant */
+  tenantId?: string;
+  /** Customer used when the order file names none */
+  defaultCustomer?: string;
+  /** AAD group whose members may approve orders */
+  approverGroupId?: string;
+  /** Language of the bot's replies, regardless of the sender's locale */
+  language?: SupportedLanguage;
+}
+
+/**
+ * Get the conversation type of an activity
+ */
+export function getConversationType(activity: Partial<Activity>): ConversationType {
+  const conversationType = activity.conversation?.conversationType;
+
+  if (conversationType === 'channel' || conversationType === 'groupChat') {
+    return conversationType;
+  }
+
+  return 'personal';
+}
+
+/**
+ * Get the ID that identifies an activity's channel or group chat
+ * Channel messages carry the thread in the conversation ID
+ * (19:...@thread.tacv2;messageid=...), which is not part of the channel's ID.
+ */
+export function getChannelKey(activity: Partial<Activity>): string | null {
+  if (getConversationType(activity) === 'personal') {
+    return null;
+  }
+
+  const channelData = activity.channelData as TeamsChannelData | undefined;
+  const conversationId = activity.conversation?.id?.split(';')[0];
+
+  return channelData?.teamsChannelId || channelData?.channel?.id || conversationId || null;
+}
+
+export class ChannelConfigService {
+  private configs: Map<string, ChannelConfig>;
+
+  constructor(configs: ChannelConfig[] = ChannelConfigService.loadFromEnv()) {
+    this.configs = new Map(configs.map(config => [config.conversationId, config]));
+  }
+
+  /**
+   * Get the routing rules of the channel or group chat an activity was sent in
+   * Returns null for personal chats and unconfigured conversations.
+   */
+  getForActivity(activity: Partial<Activity>): ChannelConfig | null {
+    const key = getChannelKey(activity);
+    if (!key) {
+      return null;
+    }
+
+    const config = this.configs.get(key);
+    const tenantId = (activity.channelData as TeamsChannelData | undefined)?.tenant?.id;
+
+    if (!config || (config.tenantId && config.tenantId !== tenantId)) {
+      return null;
+    }
+
+    return config;
+  }
+
+  /**
+   * Parse TEAMS_CHANNEL_CONFIG
+   * Entries without a conversationId or with an unsupported language are
+   * rejected so that a typo cannot silently drop an approver restriction.
+   */
+  static loadFromEnv(raw = process.env.TEAMS_CHANNEL_CONFIG): ChannelConfig[] {
+    if (!raw) {
+      return [];
+    }
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('TEAMS_CHANNEL_CONFIG must be a JSON array');
+    }
+
+    return parsed.map((entry: ChannelConfig, index: number) => {
+      if (!entry?.conversationId) {
+        throw new Error(`TEAMS_CHANNEL_CONFIG entry ${index} has no conversationId`);
+      }
+      if (entry.language && entry.language !== 'en' && entry.language !== 'fa') {
+        throw new Error(`TEAMS_CHANNEL_CONFIG entry ${index} has unsupported language: ${entry.language}`);
+      }
+      return entry;
+    });
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const channelConfigService = new ChannelConfigService();
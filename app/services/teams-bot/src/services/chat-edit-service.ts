@@ -0,0 +1,285 @@
+/**
+ * Natural-language edits of the active case in chat
+ *
+ * Free-text instructions such as "change line 4 to 12 units" are sent to the
+ * agent through ConversationHandler, which expresses them as a revalidate_case
+ * call. The resulting patch is shown on a confirmation card; once confirmed it
+ * is applied with the revalidate_case tool, which signals the workflow like
+ * the review card's line edits.
+ *
+ * Enabled when AGENT_ENDPOINT is set.
+ */
+
+import {
+  ConversationHandler,
+  ToolExecutor,
+  createAgentClient,
+  createAgentStateManager,
+  createAgentTracer,
+  type AgentStateManager,
+  type AgentTracer,
+  type CaseContext,
+  type CaseServiceInterface,
+  type FoundryAgentClient,
+  type ToolResult,
+} from '@order-processing/agent';
+import { validate, type CanonicalSalesOrder, type Issue } from '@order-processing/parser';
+import { logger as sharedLogger } from '@order-processing/shared';
+import { CaseService, CaseDocument } from './case-service.js';
+import { WorkflowClient } from './workflow-client.js';
+import { applyReviewPatch, toReviewPatch } from './review-edits.js';
+import { JsonPatchOperation } from '../types/teams-types.js';
+
+/**
+ * Thread statuses in which a case's agent thread can no longer be used
+ */
+const CLOSED_THREAD_STATUSES = ['completed', 'failed', 'expired'];
+
+/**
+ * Get the agent's view of a case's order
+ * Case documents hold the parser's schema, which the agent's shared types
+ * describe with stricter meta fields and issue severities.
+ */
+function toAgentOrder(order: CanonicalSalesOrder): Pick<CaseContext, 'canonicalOrder' | 'issues'> {
+  return {
+    canonicalOrder: order as unknown as CaseContext['canonicalOrder'],
+    issues: validate(order) as unknown as CaseContext['issues'],
+  };
+}
+
+/**
+ * Edit proposed for a chat instruction
+ */
+export interface ChatEditProposal {
+  /** Review edits to confirm, empty if the agent made no change */
+  patch: JsonPatchOperation[];
+  /** The agent's reply, e.g. a clarifying question */
+  reply: string;
+}
+
+/**
+ * Agent clients shared by all chat edits
+ */
+interface AgentContext {
+  client: FoundryAgentClient;
+  stateManager: AgentStateManager;
+  tracer: AgentTracer;
+}
+
+export class ChatEditService {
+  private caseService: CaseService;
+  private workflowClient: WorkflowClient;
+  private agentEndpoint: string;
+  private agent: Promise<AgentContext> | null = null;
+  private logger = sharedLogger.child({ component: 'ChatEditService' });
+
+  constructor() {
+    this.caseService = new CaseService();
+    this.workflowClient = new WorkflowClient();
+    this.agentEndpoint = process.env.AGENT_ENDPOINT || '';
+  }
+
+  /**
+   * Check if chat edits are configured
+   */
+  isEnabled(): boolean {
+    return this.agentEndpoint !== '';
+  }
+
+  /**
+   * Ask the agent for the patch of an instruction on the case's order
+   * Nothing is applied; the patch is returned for the user to confirm.
+   *
+   * @throws Error if the agent proposes a patch the order does not accept
+   */
+  async propose(
+    caseDoc: CaseDocument,
+    order: CanonicalSalesOrder,
+    instruction: string,
+    correlationId: string
+  ): Promise<ChatEditProposal> {
+    const conversation = await this.createConversation(caseDoc.userId, correlationId);
+    const threadId = await this.getThreadId(conversation, caseDoc, order, correlationId);
+
+    const proposal = await conversation.proposeCorrection(
+      threadId,
+      instruction,
+      toAgentOrder(order).canonicalOrder,
+      caseDoc.tenantId
+    );
+    const patch = toReviewPatch(order, proposal.patch);
+
+    // Fail here rather than on the confirmation card if a path does not exist
+    applyReviewPatch(order, patch);
+
+    this.logger.info('Chat edit proposed', {
+      caseId: caseDoc.id,
+      patchCount: patch.length,
+      correlationId,
+    });
+
+    return { patch, reply: proposal.reply };
+  }
+
+  /**
+   * Apply a confirmed patch with the agent's revalidate_case tool
+   *
+   * @throws Error if the tool call fails
+   */
+  async apply(
+    caseDoc: CaseDocument,
+    patch: JsonPatchOperation[],
+    submittedBy: string,
+    correlationId: string
+  ): Promise<ToolResult> {
+    const { stateManager } = await this.getAgent();
+    const conversation = await this.createConversation(submittedBy, correlationId);
+
+    const thread = await stateManager.getThreadByCaseId(caseDoc.id, caseDoc.tenantId);
+    if (!thread) {
+      throw new Error(`No agent thread for case ${caseDoc.id}`);
+    }
+
+    const result = await conversation.confirmCorrection(thread.threadId, patch, caseDoc.tenantId);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to apply chat edit');
+    }
+
+    this.logger.info('Chat edit applied', {
+      caseId: caseDoc.id,
+      patchCount: patch.length,
+      correlationId,
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the case's open agent thread, or start one
+   */
+  private async getThreadId(
+    conversation: ConversationHandler,
+    caseDoc: CaseDocument,
+    order: CanonicalSalesOrder,
+    correlationId: string
+  ): Promise<string> {
+    const { stateManager } = await this.getAgent();
+
+    const thread = await stateManager.getThreadByCaseId(caseDoc.id, caseDoc.tenantId);
+    if (thread && !CLOSED_THREAD_STATUSES.includes(thread.status)) {
+      return thread.threadId;
+    }
+
+    const { threadId } = await conversation.startConversation({
+      caseId: caseDoc.id,
+      tenantId: caseDoc.tenantId,
+      userId: caseDoc.userId,
+      ...toAgentOrder(order),
+      fileName: caseDoc.fileName,
+      correlationId,
+    });
+
+    return threadId;
+  }
+
+  /**
+   * Create a conversation handler whose tools act for the given user
+   */
+  private async createConversation(submittedBy: string, correlationId: string): Promise<ConversationHandler> {
+    const { client, stateManager, tracer } = await this.getAgent();
+    const toolExecutor = new ToolExecutor(
+      { caseService: this.createToolCaseService(submittedBy, correlationId) },
+      stateManager,
+      this.logger,
+      tracer
+    );
+
+    return new ConversationHandler(client, toolExecutor, stateManager, tracer, this.logger);
+  }
+
+  /**
+   * Case operations of the agent's tools
+   * Patches are submitted to the workflow, which applies them and resolves
+   * the order again; revalidation reports the issues of the patched order.
+   */
+  private createToolCaseService(submittedBy: string, correlationId: string): CaseServiceInterface {
+    let revalidation: { passed: boolean; newIssues: Issue[]; resolvedIssues: string[] } | null = null;
+
+    return {
+      getCase: async (caseId, tenantId) => {
+        const caseDoc = await this.caseService.getCase(caseId, tenantId);
+        const order = caseDoc?.canonicalData as CanonicalSalesOrder | undefined;
+
+        return {
+          status: caseDoc?.status,
+          canonicalOrder: order,
+          issues: order ? validate(order) : [],
+        };
+      },
+
+      applyPatch: async (caseId, tenantId, patch) => {
+        const caseDoc = await this.caseService.getCase(caseId, tenantId);
+        const order = caseDoc?.canonicalData as CanonicalSalesOrder | undefined;
+        if (!order) {
+          throw new Error(`Case not found: ${caseId}`);
+        }
+
+        const edits = toReviewPatch(order, patch);
+        const before = validate(order);
+        const after = validate(applyReviewPatch(order, edits));
+        revalidation = {
+          passed: !after.some(issue => issue.severity === 'blocker'),
+          newIssues: after.filter(issue => !before.some(b => b.code === issue.code)),
+          resolvedIssues: before.filter(issue => !after.some(a => a.code === issue.code)).map(issue => issue.code),
+        };
+
+        await this.workflowClient.signalWorkflow(
+          `order-${caseId}`,
+          'CorrectionsSubmitted',
+          {
+            caseId,
+            corrections: {},
+            patch: edits,
+            submittedBy,
+            submittedAt: new Date().toISOString(),
+          },
+          correlationId
+        );
+      },
+
+      revalidate: async () => {
+        if (!revalidation) {
+          throw new Error('No patch applied');
+        }
+        return revalidation;
+      },
+    };
+  }
+
+  /**
+   * Initialize the agent clients on first use
+   */
+  private getAgent(): Promise<AgentContext> {
+    if (!this.agent) {
+      this.agent = (async () => {
+        const tracer = createAgentTracer(this.logger);
+        const client = createAgentClient(this.agentEndpoint, this.logger, tracer);
+        const stateManager = createAgentStateManager(this.logger);
+
+        await client.initialize();
+        await stateManager.initialize();
+
+        return { client, stateManager, tracer };
+      })();
+
+      // Retry initialization on the next edit if it failed
+      this.agent.catch(() => {
+        this.agent = null;
+      });
+    }
+
+    return this.agent;
+  }
+}
+
+export const chatEditService = new ChatEditService();
@@ -1,11 +1,15 @@
 /**
  * Conversation reference storage for proactive messaging
  * Stores conversation references in Azure Cosmos DB for later use
+ *
+ * In channels, the reference points at the thread of the uploaded file, so
+ * updates of each case are posted as replies to its own upload.
  */
 
-import { ConversationReference as BotConversationReference, TurnContext } from 'botbuilder';
+import { Activity, ConversationReference as BotConversationReference, TurnContext } from 'botbuilder';
 import { createLogger } from '../middleware/logging-middleware.js';
 import { getCorrelationId } from '../middleware/correlation-middleware.js';
+import { ConversationType, getChannelKey, getConversationType } from './channel-config.js';
 
 /**
  * Stored conversation reference with metadata
@@ -15,7 +19,11 @@ export interface StoredConversationReference {
   partitionKey: string;
   conversationReference: BotConversationReference;
   caseId?: string;
+  conversationType: ConversationType;
+  /** Teams channel or group chat ID, absent for personal chats */
+  channelKey?: string;
   tenantId: string;
+  /** User who sent the activity (in channels, the uploader) */
   userId: string;
   userName?: string;
   locale?: string;
@@ -36,6 +44,26 @@ export interface IConversationStore {
   delete(conversationId: string): Promise<void>;
 }
 
+/**
+ * Build the conversation reference of an activity
+ * Root posts in a channel carry no thread in their conversation ID; the
+ * activity ID is added so that proactive messages reply in the thread
+ * instead of starting new posts.
+ */
+export function getThreadReference(activity: Activity): BotConversationReference {
+  const reference = TurnContext.getConversationReference(activity) as BotConversationReference;
+  const conversationId = reference.conversation?.id || '';
+
+  if (getConversationType(activity) === 'channel' && activity.id && !conversationId.includes(';messageid=')) {
+    reference.conversation = {
+      ...reference.conversation,
+      id: `${conversationId};messageid=${activity.id}`,
+    };
+  }
+
+  return reference;
+}
+
 /**
  * In-memory conversation store (for development/testing)
  * In production, this should be replaced with Cosmos DB
@@ -50,16 +78,18 @@ export class InMemoryConversationStore implements IConversationStore {
 
     const activity = context.activity;
     const channelData = activity.channelData as any;
-    const conversationId = activity.conversation?.id || '';
 
     // Build the conversation reference using Bot Framework's method
-    const conversationReference = TurnContext.getConversationReference(activity) as BotConversationReference;
+    const conversationReference = getThreadReference(activity);
+    const conversationId = conversationReference.conversation?.id || '';
 
     const stored: StoredConversationReference = {
       id: conversationId,
       partitionKey: channelData?.tenant?.id || 'default',
       conversationReference,
       caseId,
+      conversationType: getConversationType(activity),
+      channelKey: getChannelKey(activity) || undefined,
       tenantId: channelData?.tenant?.id || 'unknown',
       userId: activity.from?.aadObjectId || activity.from?.id || 'unknown',
       userName: activity.from?.name,
@@ -77,6 +107,7 @@ export class InMemoryConversationStore implements IConversationStore {
     logger.info('Conversation reference stored', {
       conversationId,
       caseId,
+      conversationType: stored.conversationType,
       tenantId: stored.tenantId,
     });
 
@@ -106,9 +137,11 @@ export class InMemoryConversationStore implements IConversationStore {
   }
 
   async delete(conversationId: string): Promise<void> {
-    const stored = this._storage.get(conversationId);
-    if (stored?.caseId) {
-      this.caseIndex.delete(stored.caseId);
+    // Group chats hold the cases of all their members
+    for (const [caseId, indexedConversationId] of this.caseIndex) {
+      if (indexedConversationId === conversationId) {
+        this.caseIndex.delete(caseId);
+      }
     }
     this._storage.delete(conversationId);
   }
@@ -154,15 +187,17 @@ export class CosmosConversationStore implements IConversationStore {
 
     const activity = context.activity;
     const channelData = activity.channelData as any;
-    const conversationId = activity.conversation?.id || '';
 
-    const conversationReference = TurnContext.getConversationReference(activity) as BotConversationReference;
+    const conversationReference = getThreadReference(activity);
+    const conversationId = conversationReference.conversation?.id || '';
 
     const document: StoredConversationReference = {
       id: conversationId,
       partitionKey: channelData?.tenant?.id || 'default',
       conversationReference,
       caseId,
+      conversationType: getConversationType(activity),
+      channelKey: getChannelKey(activity) || undefined,
       tenantId: channelData?.tenant?.id || 'unknown',
       userId: activity.from?.aadObjectId || activity.from?.id || 'unknown',
       userName: activity.from?.name,
@@ -179,6 +214,7 @@ export class CosmosConversationStore implements IConversationStore {
     logger.info('Conversation reference stored to Cosmos', {
       conversationId,
       caseId,
+      conversationType: document.conversationType,
       tenantId: document.tenantId,
     });
 
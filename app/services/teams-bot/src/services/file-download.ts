@@ -8,9 +8,25 @@ import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { TeamsAttachment, BlobUploadResult } from '../types/teams-types.js';
 
+const BLOB_CONTENT_TYPES: Record<string, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Content type of files shared in channels and group chats, which link to
+ * the file in SharePoint or OneDrive instead of carrying a download URL
+ */
+const REFERENCE_CONTENT_TYPE = 'reference';
+
 export class FileDownloadService {
   private blobServiceClient: BlobServiceClient;
   private containerName: string;
+  private credential: DefaultAzureCredential;
 
   constructor() {
     const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
@@ -20,20 +36,22 @@ export class FileDownloadService {
 
     this.containerName = process.env.AZURE_STORAGE_CONTAINER_INCOMING || 'orders-incoming';
 
-    const credential = new DefaultAzureCredential();
+    this.credential = new DefaultAzureCredential();
     this.blobServiceClient = new BlobServiceClient(
       `https://${accountName}.blob.core.windows.net`,
-      credential
+      this.credential
     );
   }
 
   /**
    * Download file from Teams attachment and upload to Azure Blob Storage
+   * A revised file of an amended case is stored next to the original, not over it.
    */
   async downloadAndStore(
     attachment: TeamsAttachment,
     caseId: string,
-    correlationId: string
+    correlationId: string,
+    fileStem = 'original'
   ): Promise<BlobUploadResult> {
     // Get download URL from attachment
     const downloadUrl = this.getDownloadUrl(attachment);
@@ -42,13 +60,15 @@ export class FileDownloadService {
     }
 
     // Download file content
-    const fileBuffer = await this.downloadFile(downloadUrl);
+    const fileBuffer = attachment.contentType === REFERENCE_CONTENT_TYPE
+      ? await this.downloadSharedFile(downloadUrl)
+      : await this.downloadFile(downloadUrl);
 
     // Calculate SHA256 hash
     const sha256 = createHash('sha256').update(fileBuffer).digest('hex');
 
     // Upload to blob storage
-    const blobUri = await this.uploadToBlob(caseId, fileBuffer, attachment.name || 'file.xlsx');
+    const blobUri = await this.uploadToBlob(caseId, fileBuffer, attachment.name || 'file.xlsx', fileStem);
 
     return {
       blobUri,
@@ -94,30 +114,55 @@ export class FileDownloadService {
     return Buffer.from(arrayBuffer);
   }
 
+  /**
+   * Download a file shared in a channel or group chat through Microsoft Graph
+   * The link is resolved with the shares API, which needs the Files.Read.All
+   * application permission.
+   */
+  private async downloadSharedFile(url: string): Promise<Buffer> {
+    const token = await this.credential.getToken('https://graph.microsoft.com/.default');
+    const shareId = `u!${Buffer.from(url).toString('base64url')}`;
+
+    const response = await fetch(`https://graph.microsoft.com/v1.0/shares/${shareId}/driveItem/content`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token.token}`,
+        'User-Agent': 'OrderProcessingBot/1.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download shared file: ${response.status} ${response.statusText}`);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  }
+
   /**
    * Upload file to Azure Blob Storage
    */
   private async uploadToBlob(
     caseId: string,
     fileBuffer: Buffer,
-    originalFileName: string
+    originalFileName: string,
+    fileStem: string
   ): Promise<string> {
     const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
 
     // Ensure container exists
     await containerClient.createIfNotExists();
 
-    // Create blob path: orders-incoming/{caseId}/original.xlsx
-    const extension = originalFileName.split('.').pop() || 'xlsx';
-    const blobName = `${caseId}/original.${extension}`;
+    // Create blob path: orders-incoming/{caseId}/{fileStem}.{xlsx|ods|csv|tsv|pdf}
+    const extension = originalFileName.split('.').pop()?.toLowerCase() || 'xlsx';
+    const blobName = `${caseId}/${fileStem}.${extension}`;
 
     const blockBlobClient = containerClient.getBlockBlobClient(blobName);
 
     // Upload with metadata
     await blockBlobClient.upload(fileBuffer, fileBuffer.length, {
       blobHTTPHeaders: {
-        blobContentType:
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        blobContentType: BLOB_CONTENT_TYPES[extension] ?? 'application/octet-stream',
       },
       metadata: {
         originalFileName,
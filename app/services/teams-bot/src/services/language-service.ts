@@ -296,6 +296,15 @@ export class LanguageService {
     return persianPattern.test(text);
   }
 
+  /**
+   * Replace Persian and Arabic-Indic digits with Latin digits
+   */
+  toLatinDigits(text: string): string {
+    return text
+      .replace(/[\u06F0-\u06F9]/g, d => String(d.charCodeAt(0) - 0x06F0))
+      .replace(/[\u0660-\u0669]/g, d => String(d.charCodeAt(0) - 0x0660));
+  }
+
   /**
    * Check if text is a Farsi command
    */
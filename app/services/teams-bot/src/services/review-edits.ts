@@ -0,0 +1,215 @@
+/**
+ * Line edits made on the review card
+ *
+ * Edits are kept as a JSON Patch (RFC 6902) on the case's canonical order.
+ * The card carries the pending patch in its action data, shows the order
+ * with the patch applied, and submits it to the workflow in the
+ * CorrectionsSubmitted signal. Chat edits proposed by the agent use the
+ * same patches.
+ */
+
+import {
+  validate,
+  type CanonicalSalesOrder,
+  type LineItem,
+} from '@order-processing/parser';
+import { IssueItem, JsonPatchOperation, OrderReviewLine } from '../types/teams-types.js';
+
+/**
+ * Apply a patch to a copy of the order
+ * Array indexes refer to the array as left by the preceding operations.
+ *
+ * @throws Error if a path does not exist in the order
+ */
+export function applyReviewPatch(
+  order: CanonicalSalesOrder,
+  patch: JsonPatchOperation[]
+): CanonicalSalesOrder {
+  const result = JSON.parse(JSON.stringify(order)) as CanonicalSalesOrder;
+
+  for (const { op, path, value } of patch) {
+    const segments = path.split('/').slice(1);
+    if (!path.startsWith('/') || segments.length === 0) {
+      throw new Error(`Invalid patch path: ${path}`);
+    }
+
+    let parent: unknown = result;
+    for (const key of segments.slice(0, -1)) {
+      parent = parent !== null && typeof parent === 'object'
+        ? (parent as Record<string, unknown>)[key]
+        : undefined;
+    }
+
+    const lastKey = segments[segments.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = lastKey === '-' ? parent.length : Number(lastKey);
+      const maxIndex = op === 'add' ? parent.length : parent.length - 1;
+      if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+        throw new Error(`Patch path not found: ${path}`);
+      }
+
+      if (op === 'add') {
+        parent.splice(index, 0, value);
+      } else if (op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = value;
+      }
+    } else if (parent !== null && typeof parent === 'object') {
+      const record = parent as Record<string, unknown>;
+      if (op !== 'add' && !(lastKey in record)) {
+        throw new Error(`Patch path not found: ${path}`);
+      }
+
+      if (op === 'remove') {
+        delete record[lastKey];
+      } else {
+        record[lastKey] = value;
+      }
+    } else {
+      throw new Error(`Patch path not found: ${path}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the order's lines as shown on the review card
+ */
+export function getReviewLines(order: CanonicalSalesOrder): OrderReviewLine[] {
+  return (order.line_items || []).map((item, index) => ({
+    index,
+    row: item.row,
+    sku: item.sku,
+    productName: item.product_name,
+    quantity: item.quantity ?? null,
+  }));
+}
+
+/**
+ * Build replace operations for the SKU and quantity inputs of a card submission
+ * Inputs are named sku_{index} and qty_{index}; lines without inputs (other
+ * pages) and quantities that are not numbers are left unchanged.
+ */
+export function getLineInputEdits(
+  lines: OrderReviewLine[],
+  inputs: Record<string, unknown>
+): JsonPatchOperation[] {
+  const edits: JsonPatchOperation[] = [];
+
+  for (const line of lines) {
+    const skuInput = inputs[`sku_${line.index}`];
+    if (typeof skuInput === 'string') {
+      const sku = skuInput.trim() || null;
+      if (sku !== line.sku) {
+        edits.push({ op: 'replace', path: `/line_items/${line.index}/sku`, value: sku });
+      }
+    }
+
+    const quantityInput = inputs[`qty_${line.index}`];
+    if (quantityInput !== undefined && quantityInput !== '') {
+      const quantity = Number(quantityInput);
+      if (Number.isFinite(quantity) && quantity !== line.quantity) {
+        edits.push({ op: 'replace', path: `/line_items/${line.index}/quantity`, value: quantity });
+      }
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Build the operation appending a line to the order
+ * The new line takes the row after the order's last row.
+ */
+export function createAddLineEdit(
+  order: CanonicalSalesOrder,
+  sku: string,
+  quantity: number
+): JsonPatchOperation {
+  const lastRow = Math.max(-1, ...(order.line_items || []).map(item => item.row));
+
+  const line: LineItem = {
+    row: lastRow + 1,
+    source_row_number: null,
+    sku,
+    gtin: null,
+    product_name: null,
+    quantity,
+    unit_price_source: null,
+    line_total_source: null,
+    currency: null,
+    evidence: {},
+  };
+
+  return { op: 'add', path: '/line_items/-', value: line };
+}
+
+/** Line item fields holding numbers */
+const NUMERIC_LINE_FIELDS = ['quantity', 'unit_price_source', 'line_total_source'];
+
+/**
+ * Convert a patch proposed by the agent for a chat edit to review edits
+ * Only add, remove and replace are accepted. The agent sends values as
+ * strings: numeric line fields become numbers, and added lines are built
+ * from their SKU and quantity and appended like lines added on the card.
+ *
+ * @throws Error if an operation is not supported or a value is invalid
+ */
+export function toReviewPatch(
+  order: CanonicalSalesOrder,
+  patch: Array<{ op: string; path: string; value?: unknown }>
+): JsonPatchOperation[] {
+  const edits: JsonPatchOperation[] = [];
+
+  for (const { op, path, value } of patch) {
+    if (op !== 'add' && op !== 'remove' && op !== 'replace') {
+      throw new Error(`Unsupported patch operation: ${op}`);
+    }
+
+    if (op === 'remove') {
+      edits.push({ op, path });
+      continue;
+    }
+
+    if (op === 'add' && /^\/line_items\/(\d+|-)$/.test(path)) {
+      const line = (typeof value === 'string' ? JSON.parse(value) : value) as Partial<LineItem> | null;
+      const quantity = Number(line?.quantity);
+      if (!line?.sku || line.quantity === null || !Number.isFinite(quantity)) {
+        throw new Error(`Added line needs a SKU and quantity: ${path}`);
+      }
+      edits.push(createAddLineEdit(applyReviewPatch(order, edits), line.sku, quantity));
+      continue;
+    }
+
+    const field = path.split('/').pop() || '';
+    if (/^\/line_items\/\d+\//.test(path) && NUMERIC_LINE_FIELDS.includes(field) && typeof value === 'string') {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new Error(`Invalid number for ${path}: ${value}`);
+      }
+      edits.push({ op, path, value: number });
+      continue;
+    }
+
+    edits.push({ op, path, value });
+  }
+
+  return edits;
+}
+
+/**
+ * Re-validate an edited order
+ */
+export function validateReviewOrder(order: CanonicalSalesOrder): IssueItem[] {
+  return validate(order).map(issue => ({
+    code: issue.code,
+    severity: issue.severity,
+    message: issue.message,
+    messageEn: issue.message,
+    fields: issue.fields,
+    suggestedUserAction: issue.suggested_user_action ?? undefined,
+  }));
+}
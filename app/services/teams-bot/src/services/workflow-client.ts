@@ -0,0 +1,131 @@
+/**
+ * Client for the workflow service API
+ * Shared by the card submit handler, chat edits and file uploads
+ */
+
+import { Activity } from 'botbuilder';
+import { JsonPatchOperation } from '../types/teams-types.js';
+
+/**
+ * Amendment of a completed case: a re-uploaded file or a confirmed chat edit
+ */
+export interface AmendCaseRequest {
+  caseId: string;
+  tenantId: string;
+  /** User requesting the amendment */
+  userId: string;
+  /** Revised file, parsed again */
+  blobUrl?: string;
+  /** Line edits applied to the drafted order */
+  patch?: JsonPatchOperation[];
+  teams: { chatId: string; messageId: string; activityId: string };
+}
+
+/**
+ * Teams context of the message that started a workflow
+ */
+export function getTeamsContext(activity: Activity): AmendCaseRequest['teams'] {
+  return {
+    chatId: activity.conversation?.id || '',
+    messageId: activity.id || '',
+    activityId: activity.id || '',
+  };
+}
+
+/**
+ * Workflow service client for sending signals
+ */
+export class WorkflowClient {
+  private endpoint: string;
+
+  constructor() {
+    this.endpoint = process.env.WORKFLOW_ENDPOINT || 'http://localhost:3000';
+  }
+
+  /**
+   * Send a signal to a running workflow
+   */
+  async signalWorkflow(
+    workflowId: string,
+    signalName: string,
+    payload: unknown,
+    correlationId: string
+  ): Promise<void> {
+    const url = `${this.endpoint}/api/workflow/${workflowId}/signal/${signalName}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-correlation-id': correlationId,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to signal workflow: ${response.status} - ${errorText}`);
+    }
+  }
+
+  /**
+   * Reopen a completed case to amend its Zoho draft
+   * The workflow service answers 409 while the case is still being processed.
+   */
+  async amendCase(request: AmendCaseRequest, correlationId: string): Promise<void> {
+    const url = `${this.endpoint}/api/workflow/amend`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-correlation-id': correlationId,
+      },
+      body: JSON.stringify({ ...request, correlationId }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to amend case: ${response.status} - ${errorText}`);
+    }
+  }
+
+  /**
+   * Check if a workflow is running
+   */
+  async isWorkflowRunning(workflowId: string): Promise<boolean> {
+    try {
+      const url = `${this.endpoint}/api/workflow/${workflowId}/status`;
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        return false;
+      }
+
+      const status = (await response.json()) as { runtimeStatus?: string };
+      return status.runtimeStatus === 'RUNNING';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Cancel a running workflow
+   */
+  async cancelWorkflow(workflowId: string, correlationId: string): Promise<void> {
+    const url = `${this.endpoint}/api/workflow/${workflowId}/cancel`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-correlation-id': correlationId,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to cancel workflow: ${response.status} - ${errorText}`);
+    }
+  }
+}
@@ -44,6 +44,15 @@ export interface CaseMetadata {
   fileSha256?: string;
   blobUri?: string;
   correlationId: string;
+  /** Kind of conversation the file was uploaded in */
+  conversationType?: 'personal' | 'channel' | 'groupChat';
+  /** Teams channel or group chat ID, absent for personal chats */
+  channelKey?: string;
+  /** The channel's customer, used when the file names none */
+  defaultCustomer?: string;
+  /** AAD group whose members may approve the order */
+  approverGroupId?: string;
+  language?: 'en' | 'fa';
 }
 
 export interface AdaptiveCardAction {
@@ -58,6 +67,13 @@ export interface AdaptiveCardAction {
     | 'skip_item'
     | 'cancel_selection'
     | 'confirm_cancel'
+    | 'review_edit'
+    | 'review_page'
+    | 'review_remove_line'
+    | 'review_add_line'
+    | 'review_submit'
+    | 'apply_chat_edit'
+    | 'request_amendment'
     | 'dismiss';
   caseId: string;
   userNotes?: string;
@@ -66,6 +82,10 @@ export interface AdaptiveCardAction {
   workflowId?: string;
   lineRow?: number;
   selectionType?: 'customer' | 'items';
+  // Review card edit fields
+  page?: number;
+  lineIndex?: number;
+  edits?: JsonPatchOperation[];
 }
 
 export interface BlobUploadResult {
@@ -100,6 +120,37 @@ export interface OrderReview {
   totalSource: string;
   totalZoho: string;
   warnings: string[];
+  /** Editable lines (the card is read-only without them) */
+  lines?: OrderReviewLine[];
+  tenantId?: string;
+  /** Zero-based page of lines shown */
+  page?: number;
+  /** Edits not yet submitted to the workflow */
+  edits?: JsonPatchOperation[];
+  /** Issues from re-validating the edited order */
+  issues?: IssueItem[];
+}
+
+/**
+ * Order line shown on the review card
+ */
+export interface OrderReviewLine {
+  /** Index into the order's line_items */
+  index: number;
+  /** 0-based spreadsheet row (shown 1-based, as in validation messages) */
+  row: number;
+  sku: string | null;
+  productName: string | null;
+  quantity: number | null;
+}
+
+/**
+ * JSON Patch operation (RFC 6902) on the case's canonical order
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
 }
 
 export interface ZohoCreationResult {
@@ -10,6 +10,7 @@ import { useCases } from './hooks/useCases';
 import { CaseList } from './components/CaseList';
 import { CaseDetail } from './components/CaseDetail';
 import { CaseFilters } from './components/CaseFilters';
+import { PendingApprovals } from './components/PendingApprovals';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { SkipLink, LiveRegion } from './components/SkipLink';
@@ -29,6 +30,7 @@ function AppContent() {
   const { isSalesManager, isLoading: roleLoading, error: roleError } = useRole();
 
   const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  const [view, setView] = useState<'cases' | 'approvals'>('cases');
   const [filters, setFilters] = useState<Filters>({});
 
   const { cases, isLoading: casesLoading, error: casesError } = useCases({
@@ -86,6 +88,28 @@ function AppContent() {
     );
   }
 
+  // Pending approvals view (bulk actions are SalesManager only)
+  if (view === 'approvals' && isSalesManager) {
+    return (
+      <div className="min-h-screen bg-teams-light-bg dark:bg-teams-dark-bg">
+        <SkipLink targetId="main-content" />
+        <main id="main-content" className="mx-auto max-w-7xl p-6">
+          <header className="mb-6">
+            <ViewSwitcher view={view} onViewChange={setView} />
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Pending my approval
+            </h1>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              Approve or reject ready orders in bulk. Each decision is recorded on its case.
+            </p>
+          </header>
+
+          <PendingApprovals />
+        </main>
+      </div>
+    );
+  }
+
   // Case list view
   return (
     <div className="min-h-screen bg-teams-light-bg dark:bg-teams-dark-bg">
@@ -96,6 +120,7 @@ function AppContent() {
 
         {/* Header */}
         <header className="mb-6">
+          {isSalesManager && <ViewSwitcher view={view} onViewChange={setView} />}
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
             {isSalesManager ? 'Team Cases' : 'My Cases'}
           </h1>
@@ -155,6 +180,40 @@ function AppContent() {
   );
 }
 
+interface ViewSwitcherProps {
+  view: 'cases' | 'approvals';
+  onViewChange: (view: 'cases' | 'approvals') => void;
+}
+
+/**
+ * Switch between the case list and the pending approvals view
+ */
+function ViewSwitcher({ view, onViewChange }: ViewSwitcherProps) {
+  const views = [
+    { id: 'cases', label: 'All cases' },
+    { id: 'approvals', label: 'Pending my approval' },
+  ] as const;
+
+  return (
+    <nav aria-label="Views" className="mb-4 flex gap-2">
+      {views.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => onViewChange(id)}
+          aria-current={view === id ? 'page' : undefined}
+          className={
+            view === id
+              ? 'rounded-md bg-teams-purple px-3 py-1.5 text-sm font-medium text-white'
+              : 'rounded-md px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+          }
+        >
+          {label}
+        </button>
+      ))}
+    </nav>
+  );
+}
+
 export default function App() {
   return (
     <ErrorBoundary>
@@ -15,6 +15,7 @@ const statusOptions: { value: CaseStatus; label: string }[] = [
   { value: 'processing', label: 'Processing' },
   { value: 'needs-input', label: 'Needs Input' },
   { value: 'ready', label: 'Ready' },
+  { value: 'awaiting_approval', label: 'Awaiting Approval' },
   { value: 'draft-created', label: 'Draft Created' },
   { value: 'failed', label: 'Failed' },
   { value: 'blocked', label: 'Blocked' },
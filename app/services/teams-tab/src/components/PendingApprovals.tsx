@@ -0,0 +1,351 @@
+/**
+ * Pending approvals view for sales managers
+ * Multi-select bulk approve/reject of cases awaiting approval, with a side-by-side
+ * source vs canonical preview of the focused case
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { apiClient } from '@/services/api-client';
+import { useCases } from '@/hooks/useCases';
+import { LoadingSpinner } from './LoadingSpinner';
+import { LiveRegion } from './SkipLink';
+import { SourceCanonicalPreview } from './SourceCanonicalPreview';
+import type { BulkApprovalOutcome, BulkApprovalResult, CaseListItem } from '@/types';
+
+const outcomeConfig: Record<BulkApprovalOutcome, { label: string; color: string }> = {
+  signalled: {
+    label: 'Sent',
+    color: 'text-green-700 dark:text-green-300',
+  },
+  skipped: {
+    label: 'Skipped',
+    color: 'text-yellow-700 dark:text-yellow-300',
+  },
+  failed: {
+    label: 'Failed',
+    color: 'text-red-700 dark:text-red-300',
+  },
+};
+
+/**
+ * Cases with blocking issues (e.g. UOM_FRACTIONAL_QUANTITY) cannot be approved
+ * until the user fixes them in Teams
+ */
+function isBlocked(caseItem: CaseListItem): boolean {
+  return (caseItem.blockingIssueCodes?.length ?? 0) > 0;
+}
+
+export function PendingApprovals() {
+  const { cases, isLoading, error, refetch } = useCases({
+    // The status the workflow writes while the approval card is out
+    filters: { status: ['awaiting_approval'] },
+    refetchInterval: 30000,
+  });
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [previewCaseId, setPreviewCaseId] = useState<string | null>(null);
+  const [comments, setComments] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<BulkApprovalResult | null>(null);
+  const [decidedCases, setDecidedCases] = useState<Map<string, CaseListItem>>(new Map());
+
+  const selectable = useMemo(() => cases.filter((c) => !isBlocked(c)), [cases]);
+
+  // Drop selections of cases that are no longer pending or became blocked
+  const selected = useMemo(
+    () => selectable.filter((c) => selectedIds.has(c.caseId)).map((c) => c.caseId),
+    [selectable, selectedIds]
+  );
+  const allSelected = selectable.length > 0 && selected.length === selectable.length;
+
+  const toggleCase = (caseId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(caseId)) {
+        next.delete(caseId);
+      } else {
+        next.add(caseId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(selectable.map((c) => c.caseId)));
+  };
+
+  const handleDecision = async (approved: boolean) => {
+    if (selected.length === 0) return;
+
+    if (!approved && !comments.trim()) {
+      setSubmitError('Add a comment explaining the rejection');
+      return;
+    }
+
+    const action = approved ? 'approve' : 'reject';
+    if (!confirm(`Are you sure you want to ${action} ${selected.length} ${selected.length === 1 ? 'case' : 'cases'}?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = await apiClient.bulkApprove(
+        selected,
+        approved,
+        comments.trim() || undefined
+      );
+
+      setDecidedCases(new Map(cases.map((c) => [c.caseId, c])));
+      setLastResult(result);
+
+      // Keep the cases that were not sent selected so they can be retried
+      setSelectedIds(
+        new Set(result.results.filter((r) => r.outcome !== 'signalled').map((r) => r.caseId))
+      );
+      setComments('');
+      refetch();
+    } catch (err) {
+      console.error('Failed to submit bulk decision:', err);
+      setSubmitError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resultAnnouncement = lastResult
+    ? `${lastResult.summary.signalled} ${lastResult.approved ? 'approved' : 'rejected'}, ` +
+      `${lastResult.summary.skipped} skipped, ${lastResult.summary.failed} failed`
+    : '';
+
+  return (
+    <div className="space-y-6">
+      <LiveRegion>{isSubmitting ? 'Submitting decision...' : resultAnnouncement}</LiveRegion>
+
+      {/* Error message */}
+      {error && (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20"
+          role="alert"
+        >
+          <p className="text-sm text-red-800 dark:text-red-200">
+            Failed to load cases: {error.message}
+          </p>
+        </div>
+      )}
+
+      {/* Results of the last bulk decision */}
+      {lastResult && (
+        <section
+          aria-label="Last decision"
+          className="rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-teams-dark-surface"
+        >
+          <div className="mb-2 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {lastResult.approved ? 'Approved' : 'Rejected'}: {lastResult.summary.signalled} sent,{' '}
+              {lastResult.summary.skipped} skipped, {lastResult.summary.failed} failed
+            </h3>
+            <button
+              onClick={() => setLastResult(null)}
+              className="text-sm text-teams-purple hover:underline"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {lastResult.results.map((result) => {
+              const caseItem = decidedCases.get(result.caseId);
+              const config = outcomeConfig[result.outcome];
+              return (
+                <li key={result.caseId} className="flex items-start justify-between gap-4 py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900 dark:text-white">
+                      {caseItem?.customerName || caseItem?.fileName || result.caseId}
+                    </p>
+                    {result.error && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{result.error}</p>
+                    )}
+                  </div>
+                  <span className={`whitespace-nowrap font-medium ${config.color}`}>
+                    {config.label}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {/* Bulk actions */}
+      <section
+        aria-label="Bulk actions"
+        className="rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-teams-dark-surface"
+      >
+        <label
+          htmlFor="approval-comments"
+          className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Comments (required to reject)
+        </label>
+        <textarea
+          id="approval-comments"
+          value={comments}
+          onChange={(e) => setComments(e.target.value)}
+          rows={2}
+          className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-teams-purple focus:outline-none focus:ring-1 focus:ring-teams-purple dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+        />
+
+        {submitError && (
+          <p className="mt-2 text-sm text-red-700 dark:text-red-300" role="alert">
+            {submitError}
+          </p>
+        )}
+
+        <div className="mt-3 flex items-center gap-3">
+          <button
+            onClick={() => handleDecision(true)}
+            disabled={selected.length === 0 || isSubmitting}
+            className="rounded-md bg-teams-purple px-4 py-2 text-sm font-medium text-white hover:bg-purple-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Submitting...' : `Approve ${selected.length || ''}`.trim()}
+          </button>
+          <button
+            onClick={() => handleDecision(false)}
+            disabled={selected.length === 0 || isSubmitting}
+            className="rounded-md border border-red-300 bg-white px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 dark:border-red-700 dark:bg-gray-700 dark:text-red-300 dark:hover:bg-gray-600"
+          >
+            {`Reject ${selected.length || ''}`.trim()}
+          </button>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {selected.length} of {cases.length} selected
+          </p>
+        </div>
+      </section>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div aria-busy="true" aria-live="polite">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {!isLoading && cases.length === 0 && (
+        <div className="rounded-lg border border-gray-200 bg-white p-8 text-center dark:border-gray-700 dark:bg-teams-dark-surface">
+          <p className="text-gray-500 dark:text-gray-400">No cases are waiting for approval</p>
+        </div>
+      )}
+
+      {!isLoading && cases.length > 0 && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Pending cases */}
+          <section
+            aria-label="Cases pending approval"
+            className="overflow-hidden rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-teams-dark-surface"
+          >
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th scope="col" className="w-10 px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      disabled={selectable.length === 0}
+                      aria-label="Select all cases"
+                      className="h-4 w-4 rounded border-gray-300 text-teams-purple focus:ring-teams-purple"
+                    />
+                  </th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Customer
+                  </th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Salesperson
+                  </th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Created
+                  </th>
+                  <th scope="col" className="px-4 py-3">
+                    <span className="sr-only">Preview</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {cases.map((caseItem) => {
+                  const blocked = isBlocked(caseItem);
+                  const isSelected = !blocked && selectedIds.has(caseItem.caseId);
+                  const isPreviewed = previewCaseId === caseItem.caseId;
+                  const label = caseItem.customerName || caseItem.fileName;
+
+                  return (
+                    <tr
+                      key={caseItem.caseId}
+                      aria-selected={isSelected}
+                      className={isPreviewed ? 'bg-blue-50 dark:bg-gray-700' : undefined}
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleCase(caseItem.caseId)}
+                          disabled={blocked}
+                          aria-label={`Select ${label}`}
+                          className="h-4 w-4 rounded border-gray-300 text-teams-purple focus:ring-teams-purple"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {caseItem.customerName || (
+                            <span className="italic text-gray-400">Unknown</span>
+                          )}
+                        </div>
+                        <div className="max-w-xs truncate text-xs text-gray-500 dark:text-gray-400">
+                          {caseItem.fileName}
+                        </div>
+                        {blocked && (
+                          <div className="text-xs text-red-700 dark:text-red-300">
+                            Blocking issues, fix in Teams first: {caseItem.blockingIssueCodes?.join(', ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                        {caseItem.createdBy.displayName}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                        {format(new Date(caseItem.createdAt), 'MMM d, HH:mm')}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                        <button
+                          onClick={() => setPreviewCaseId(caseItem.caseId)}
+                          aria-pressed={isPreviewed}
+                          aria-label={`Preview ${label}`}
+                          className="text-teams-purple hover:underline"
+                        >
+                          Preview
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Preview of the focused case */}
+          <section aria-label="Case preview">
+            {previewCaseId ? (
+              <SourceCanonicalPreview caseId={previewCaseId} />
+            ) : (
+              <div className="rounded-lg border border-dashed border-gray-300 p-8 text-center dark:border-gray-600">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Select Preview on a case to compare the spreadsheet with the order sent to Zoho
+                </p>
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
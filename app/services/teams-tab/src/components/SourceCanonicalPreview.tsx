@@ -0,0 +1,225 @@
+/**
+ * Side-by-side preview of a case: what the spreadsheet says next to the
+ * canonical order that will be sent to Zoho
+ */
+
+import { useCase } from '@/hooks/useCase';
+import { LoadingSpinner } from './LoadingSpinner';
+import type { FieldValue } from '@/types';
+
+interface SourceCanonicalPreviewProps {
+  caseId: string;
+}
+
+/**
+ * Raw spreadsheet text of a field and the cell it came from
+ */
+function SourceValue<T>({ field }: { field: FieldValue<T> }) {
+  const evidence = field.evidence[0];
+  if (!evidence) {
+    return <span className="italic text-gray-400">-</span>;
+  }
+
+  return (
+    <>
+      <span>{evidence.raw}</span>
+      <span className="ml-1 font-mono text-xs text-gray-400">
+        {evidence.sheet}!{evidence.cell}
+      </span>
+    </>
+  );
+}
+
+export function SourceCanonicalPreview({ caseId }: SourceCanonicalPreviewProps) {
+  const { caseData, isLoading, error } = useCase({ caseId });
+
+  if (isLoading) {
+    return (
+      <div className="p-6" aria-busy="true">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !caseData) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20" role="alert">
+        <p className="text-sm text-red-800 dark:text-red-200">
+          Failed to load case: {error?.message || 'Case not found'}
+        </p>
+      </div>
+    );
+  }
+
+  const canonicalTotal = caseData.lines.reduce(
+    (sum, line) => sum + (line.quantity.value ?? 0) * line.resolved.zohoRateUsed,
+    0
+  );
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-teams-dark-surface">
+      <h3 className="mb-1 text-lg font-semibold text-gray-900 dark:text-white">
+        Source vs Canonical
+      </h3>
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        {caseData.source.file.originalFileName}
+      </p>
+
+      {/* Customer */}
+      <div className="mb-6 grid gap-4 md:grid-cols-2">
+        <div className="rounded-md bg-gray-50 p-3 dark:bg-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Customer in spreadsheet</p>
+          <p className="mt-1 text-sm text-gray-900 dark:text-white">
+            <SourceValue field={caseData.customer.raw} />
+          </p>
+        </div>
+        <div className="rounded-md bg-gray-50 p-3 dark:bg-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Zoho customer</p>
+          <p className="mt-1 text-sm font-medium text-gray-900 dark:text-white">
+            {caseData.customer.resolved.zohoDisplayName || (
+              <span className="italic text-gray-400">Not resolved</span>
+            )}
+          </p>
+          {caseData.customer.resolved.match && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Match: {caseData.customer.resolved.match} (
+              {(caseData.customer.resolved.confidence * 100).toFixed(0)}% confidence)
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Lines */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <caption className="sr-only">
+            Spreadsheet values next to the canonical order lines
+          </caption>
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th scope="col" rowSpan={2} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                #
+              </th>
+              <th scope="colgroup" colSpan={3} className="border-r border-gray-200 px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                Source
+              </th>
+              <th scope="colgroup" colSpan={4} className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                Canonical
+              </th>
+            </tr>
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                SKU / Description
+              </th>
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400">
+                Qty
+              </th>
+              <th scope="col" className="border-r border-gray-200 px-3 py-2 text-right text-xs font-medium text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                Unit Price
+              </th>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">
+                Zoho Item
+              </th>
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400">
+                Qty
+              </th>
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400">
+                Zoho Rate
+              </th>
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400">
+                Total
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {caseData.lines.map((line) => {
+              const sourcePrice = line.unitPriceSpreadsheet.value;
+              const priceDiffers =
+                sourcePrice !== null &&
+                line.resolved.zohoRateUsed > 0 &&
+                Math.abs(sourcePrice - line.resolved.zohoRateUsed) >= 0.005;
+
+              return (
+                <tr key={line.lineNo}>
+                  <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
+                    {line.lineNo}
+                  </td>
+                  <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
+                    <div><SourceValue field={line.sku} /></div>
+                    <div className="max-w-xs truncate text-xs text-gray-500 dark:text-gray-400">
+                      {line.description.evidence[0]?.raw}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-sm text-gray-900 dark:text-white">
+                    {line.quantity.evidence[0]?.raw ?? '-'}
+                  </td>
+                  <td className="border-r border-gray-200 px-3 py-2 text-right text-sm text-gray-900 dark:border-gray-700 dark:text-white">
+                    {line.unitPriceSpreadsheet.evidence[0]?.raw ?? '-'}
+                  </td>
+                  <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
+                    {line.resolved.zohoItemId ? (
+                      <>
+                        <span className="font-mono">{line.resolved.zohoItemId}</span>
+                        {line.resolved.match && (
+                          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                            ({line.resolved.match})
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="italic text-gray-400">Not resolved</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-sm text-gray-900 dark:text-white">
+                    {line.quantity.value !== null ? line.quantity.value : '-'}
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right text-sm ${
+                      priceDiffers
+                        ? 'font-medium text-yellow-700 dark:text-yellow-300'
+                        : 'text-gray-900 dark:text-white'
+                    }`}
+                  >
+                    {line.resolved.zohoRateUsed > 0
+                      ? line.resolved.zohoRateUsed.toFixed(2)
+                      : '-'}
+                    {priceDiffers && <span className="sr-only"> (differs from spreadsheet)</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right text-sm font-medium text-gray-900 dark:text-white">
+                    {line.quantity.value !== null && line.resolved.zohoRateUsed > 0
+                      ? (line.quantity.value * line.resolved.zohoRateUsed).toFixed(2)
+                      : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <td
+                colSpan={3}
+                className="px-3 py-2 text-right text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Spreadsheet Total:
+              </td>
+              <td className="border-r border-gray-200 px-3 py-2 text-right text-sm font-bold text-gray-900 dark:border-gray-700 dark:text-white">
+                {caseData.totalsSpreadsheet.total.value !== null
+                  ? caseData.totalsSpreadsheet.total.value.toFixed(2)
+                  : '-'}
+              </td>
+              <td
+                colSpan={3}
+                className="px-3 py-2 text-right text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Canonical Total:
+              </td>
+              <td className="px-3 py-2 text-right text-sm font-bold text-gray-900 dark:text-white">
+                {canonicalTotal.toFixed(2)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
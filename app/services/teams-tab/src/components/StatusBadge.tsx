@@ -28,6 +28,11 @@ const statusConfig: Record<
     color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
     icon: '✓',
   },
+  awaiting_approval: {
+    label: 'Awaiting Approval',
+    color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    icon: '⏸️',
+  },
   'draft-created': {
     label: 'Draft Created',
     color: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
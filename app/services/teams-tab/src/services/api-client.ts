@@ -9,6 +9,7 @@ import type {
   CaseFilters,
   AuditEvent,
   ApiError,
+  BulkApprovalResult,
 } from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -115,6 +116,20 @@ class ApiClient {
       method: 'POST',
     });
   }
+
+  /**
+   * Approve or reject several cases (SalesManager only)
+   */
+  async bulkApprove(
+    caseIds: string[],
+    approved: boolean,
+    comments?: string
+  ): Promise<BulkApprovalResult> {
+    return this.fetch<BulkApprovalResult>('/cases/bulk-approval', {
+      method: 'POST',
+      body: JSON.stringify({ caseIds, approved, comments }),
+    });
+  }
 }
 
 export const apiClient = new ApiClient();
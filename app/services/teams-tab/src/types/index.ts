@@ -6,6 +6,7 @@ export type CaseStatus =
   | 'processing'
   | 'needs-input'
   | 'ready'
+  | 'awaiting_approval'
   | 'draft-created'
   | 'failed'
   | 'blocked';
@@ -145,6 +146,8 @@ export interface CaseListItem {
   };
   zohoDeepLink?: string;
   fileName: string;
+  /** Pricing issues that must be fixed before the order can be approved */
+  blockingIssueCodes?: string[];
 }
 
 export interface CaseFilters {
@@ -155,6 +158,21 @@ export interface CaseFilters {
   dateTo?: string;
 }
 
+export type BulkApprovalOutcome = 'signalled' | 'skipped' | 'failed';
+
+export interface BulkApprovalCaseResult {
+  caseId: string;
+  outcome: BulkApprovalOutcome;
+  error?: string;
+}
+
+export interface BulkApprovalResult {
+  batchId: string;
+  approved: boolean;
+  results: BulkApprovalCaseResult[];
+  summary: Record<BulkApprovalOutcome, number>;
+}
+
 export interface TeamsContext {
   theme: 'default' | 'dark' | 'contrast';
   locale: string;
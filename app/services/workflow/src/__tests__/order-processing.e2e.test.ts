@@ -27,6 +27,7 @@ import type {
   StoreFileOutput,
   ParseExcelOutput,
   RunCommitteeOutput,
+  RunExtractionReviewOutput,
   ResolveCustomerOutput,
   ResolveItemsOutput,
   CreateZohoDraftOutput,
@@ -179,6 +180,13 @@ function createMockActivities(options: MockActivityOptions = {}) {
       };
     },
 
+    /**
+     * Run committee extraction review (not enabled for the test tenant)
+     */
+    async runExtractionReview(): Promise<RunExtractionReviewOutput> {
+      return { success: true, skipped: true, needsHuman: false, issues: [] };
+    },
+
     /**
      * Resolve customer against Zoho
      */
@@ -0,0 +1,382 @@
+/**
+ * Amend Zoho Draft Activities (Temporal)
+ *
+ * A completed case can be reopened against its existing Zoho draft when the
+ * customer changes the order (re-upload or chat edit). Instead of creating a
+ * second order, the draft is updated in place:
+ *
+ * 1. prepareAmendment - snapshot the canonical order the draft was built from
+ *    into the audit container before it is overwritten
+ * 2. amendZohoDraft (dryRun) - line diff for the approval card
+ * 3. amendZohoDraft - update the draft via the Zoho tools endpoint and store
+ *    the amended order and diff next to the snapshot
+ *
+ * If the amendment is rejected or fails before Zoho was updated,
+ * revertAmendment restores the snapshot so the case matches the draft again.
+ *
+ * Audit layout per revision: {caseId}/amendments/rev-{n}/
+ * - previous-canonical.json
+ * - amended-canonical.json
+ * - diff.json
+ */
+
+import { log } from '@temporalio/activity';
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { DefaultAzureCredential } from '@azure/identity';
+import { createHash } from 'crypto';
+import { getCasesRepository, getEventsRepository } from '../repositories/index.js';
+import type { CaseDocument } from '../repositories/index.js';
+import { getFeatureFlags } from '../config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for PrepareAmendment activity
+ */
+export interface PrepareAmendmentInput {
+  caseId: string;
+  tenantId: string;
+}
+
+/**
+ * Output from PrepareAmendment activity
+ */
+export interface PrepareAmendmentOutput {
+  success: boolean;
+  /** Draft being amended */
+  zohoOrderId?: string;
+  zohoOrderNumber?: string;
+  /** 1 for the first amendment of the case */
+  revision?: number;
+  /** Blob path of the pre-amendment canonical order */
+  snapshotPath?: string;
+  error?: string;
+}
+
+/**
+ * Input for RevertAmendment activity
+ */
+export interface RevertAmendmentInput {
+  caseId: string;
+  tenantId: string;
+  revision: number;
+  reason: 'rejected' | 'failed';
+}
+
+/**
+ * Output from RevertAmendment activity
+ */
+export interface RevertAmendmentOutput {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Input for AmendZohoDraft activity
+ */
+export interface AmendZohoDraftInput {
+  caseId: string;
+  tenantId: string;
+  zohoOrderId: string;
+  revision: number;
+  /** Only compute the diff, do not update Zoho */
+  dryRun?: boolean;
+}
+
+/**
+ * One changed line (mirrors SalesOrderLineChange of @order-processing/zoho)
+ */
+export interface AmendmentLineChange {
+  change: 'added' | 'removed' | 'changed';
+  zoho_item_id: string;
+  item_name: string | null;
+  unit: string | null;
+  previous_row: number | null;
+  amended_row: number | null;
+  previous_quantity: number | null;
+  amended_quantity: number | null;
+}
+
+/**
+ * Line diff between the drafted and amended order
+ */
+export interface AmendmentDiff {
+  changes: AmendmentLineChange[];
+  unchanged_lines: number;
+  customer_changed: boolean;
+}
+
+/**
+ * Output from AmendZohoDraft activity
+ */
+export interface AmendZohoDraftOutput {
+  success: boolean;
+  salesorder_id?: string;
+  salesorder_number?: string;
+  /** False when the amendment had no changes and Zoho was not called */
+  updated?: boolean;
+  diff?: AmendmentDiff;
+  error?: string;
+}
+
+/**
+ * Interface for the Zoho update draft response
+ */
+interface ZohoUpdateDraftResponse {
+  case_id: string;
+  ok: boolean;
+  zoho_salesorder_id?: string;
+  zoho_salesorder_number?: string;
+  updated?: boolean;
+  diff?: AmendmentDiff;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const AUDIT_CONTAINER = 'orders-audit';
+
+// API service URLs
+const API_SERVICE_URL = process.env.API_SERVICE_URL || 'http://localhost:3000';
+
+// Internal API key for service-to-service calls
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY || 'dev-internal-key';
+
+// ============================================================================
+// Activity Implementations
+// ============================================================================
+
+/**
+ * Snapshots the canonical order of a completed case before it is amended
+ *
+ * @param input - The case to reopen
+ * @returns The draft being amended and the new revision number
+ */
+export async function prepareAmendment(input: PrepareAmendmentInput): Promise<PrepareAmendmentOutput> {
+  const { caseId, tenantId } = input;
+
+  log.info('Preparing order amendment', { caseId, tenantId });
+
+  let casesRepo;
+  try {
+    casesRepo = getCasesRepository();
+  } catch (repoError) {
+    return {
+      success: false,
+      error: `Case repository not available: ${repoError instanceof Error ? repoError.message : String(repoError)}`,
+    };
+  }
+
+  const caseData = await casesRepo.getCase(caseId, tenantId);
+  if (!caseData) {
+    return { success: false, error: `Case ${caseId} not found` };
+  }
+  if (!caseData.zohoOrderId) {
+    return { success: false, error: `Case ${caseId} has no Zoho draft to amend` };
+  }
+  if (!caseData.canonicalData) {
+    return { success: false, error: `Case ${caseId} has no canonical order data` };
+  }
+
+  const revision = (caseData.amendmentRevision ?? 0) + 1;
+  const snapshotPath = getAmendmentPath(caseId, revision, 'previous-canonical.json');
+
+  await uploadJson(getAuditContainer(), snapshotPath, caseData.canonicalData, {
+    caseId,
+    tenantId,
+    revision: String(revision),
+    zohoOrderId: caseData.zohoOrderId,
+  });
+
+  log.info('Amendment base stored', {
+    caseId,
+    revision,
+    zohoOrderId: caseData.zohoOrderId,
+    snapshotPath,
+  });
+
+  return {
+    success: true,
+    zohoOrderId: caseData.zohoOrderId,
+    zohoOrderNumber: caseData.zohoOrderNumber,
+    revision,
+    snapshotPath,
+  };
+}
+
+/**
+ * Restores the drafted order after an amendment was rejected or failed
+ *
+ * @param input - The case and the amendment revision to undo
+ * @returns Success status
+ */
+export async function revertAmendment(input: RevertAmendmentInput): Promise<RevertAmendmentOutput> {
+  const { caseId, tenantId, revision, reason } = input;
+
+  log.info('Reverting order amendment', { caseId, revision, reason });
+
+  try {
+    const previousOrder = await downloadJson(
+      getAuditContainer(),
+      getAmendmentPath(caseId, revision, 'previous-canonical.json')
+    );
+
+    const casesRepo = getCasesRepository();
+    await casesRepo.updateCaseStatus(caseId, tenantId, 'completed', {
+      canonicalData: previousOrder as CaseDocument['canonicalData'],
+    });
+
+    await getEventsRepository().appendEvent({
+      caseId,
+      type: 'amendment_reverted',
+      status: 'completed',
+      metadata: { amendmentRevision: revision, reason },
+    });
+
+    return { success: true };
+  } catch (error) {
+    // The snapshot stays in the audit container; the case can be fixed up from it
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error('Failed to revert order amendment', { caseId, revision, error: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Diffs the amended order against the snapshot and, unless dryRun, updates
+ * the existing Zoho draft in place
+ *
+ * @param input - The case, draft and amendment revision
+ * @returns Line diff and the updated draft
+ */
+export async function amendZohoDraft(input: AmendZohoDraftInput): Promise<AmendZohoDraftOutput> {
+  const { caseId, tenantId, zohoOrderId, revision, dryRun = false } = input;
+  const flags = getFeatureFlags();
+
+  log.info('Amending Zoho draft sales order', { caseId, zohoOrderId, revision, dryRun });
+
+  // If mock mode is enabled, return mock success (no diff available)
+  if (flags.useMockDraft) {
+    log.info('Using mock Zoho draft amendment (ZOHO_MODE=mock)', { caseId });
+    return { success: true, salesorder_id: zohoOrderId, updated: !dryRun };
+  }
+
+  const casesRepo = getCasesRepository();
+  const caseData = await casesRepo.getCase(caseId, tenantId);
+  if (!caseData?.canonicalData) {
+    return { success: false, error: `Case ${caseId} has no canonical order data` };
+  }
+
+  const auditContainer = getAuditContainer();
+  const previousOrder = await downloadJson(
+    auditContainer,
+    getAmendmentPath(caseId, revision, 'previous-canonical.json')
+  );
+
+  const response = await fetch(`${API_SERVICE_URL}/internal/tools/zoho/update-draft-salesorder`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Internal-Api-Key': INTERNAL_API_KEY,
+      'X-Correlation-ID': `workflow-${caseId}`,
+    },
+    body: JSON.stringify({
+      case_id: caseId,
+      zoho_salesorder_id: zohoOrderId,
+      previous_order: previousOrder,
+      canonical_order: caseData.canonicalData,
+      dry_run: dryRun,
+    }),
+  });
+
+  // The draft was confirmed or deleted in Zoho meanwhile - retrying will not help
+  if (response.status === 409) {
+    const body = (await response.json().catch(() => ({}))) as { error?: { message?: string } };
+    const error = body.error?.message || 'Sales order can no longer be amended';
+    log.warn('Zoho draft cannot be amended', { caseId, zohoOrderId, error });
+    return { success: false, error };
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Zoho update draft failed: ${response.status} ${errorText}`);
+  }
+
+  const result = (await response.json()) as ZohoUpdateDraftResponse;
+
+  if (!dryRun) {
+    const metadata = { caseId, tenantId, revision: String(revision), zohoOrderId };
+    await uploadJson(
+      auditContainer,
+      getAmendmentPath(caseId, revision, 'amended-canonical.json'),
+      caseData.canonicalData,
+      metadata
+    );
+    await uploadJson(auditContainer, getAmendmentPath(caseId, revision, 'diff.json'), result.diff ?? null, metadata);
+
+    log.info('Zoho draft amended', {
+      caseId,
+      salesorder_id: result.zoho_salesorder_id,
+      updated: result.updated,
+      changedLines: result.diff?.changes.length ?? 0,
+    });
+  }
+
+  return {
+    success: result.ok,
+    salesorder_id: result.zoho_salesorder_id ?? zohoOrderId,
+    salesorder_number: result.zoho_salesorder_number,
+    updated: result.updated,
+    diff: result.diff,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Blob path of an amendment artifact in the audit container
+ */
+function getAmendmentPath(caseId: string, revision: number, fileName: string): string {
+  return `${caseId}/amendments/rev-${revision}/${fileName}`;
+}
+
+function getAuditContainer(): ContainerClient {
+  const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
+  if (!accountName) {
+    throw new Error('AZURE_STORAGE_ACCOUNT_NAME not configured');
+  }
+
+  const blobServiceClient = new BlobServiceClient(
+    `https://${accountName}.blob.core.windows.net`,
+    new DefaultAzureCredential()
+  );
+  return blobServiceClient.getContainerClient(AUDIT_CONTAINER);
+}
+
+/**
+ * Upload a JSON artifact with its SHA-256 in the blob metadata
+ */
+async function uploadJson(
+  container: ContainerClient,
+  blobPath: string,
+  content: unknown,
+  metadata: Record<string, string>
+): Promise<void> {
+  const buffer = Buffer.from(JSON.stringify(content, null, 2), 'utf-8');
+  const sha256 = createHash('sha256').update(buffer).digest('hex');
+
+  await container.getBlockBlobClient(blobPath).upload(buffer, buffer.length, {
+    blobHTTPHeaders: { blobContentType: 'application/json' },
+    metadata: { ...metadata, sha256 },
+  });
+}
+
+async function downloadJson(container: ContainerClient, blobPath: string): Promise<unknown> {
+  const buffer = await container.getBlobClient(blobPath).downloadToBuffer();
+  return JSON.parse(buffer.toString('utf-8'));
+}
@@ -9,10 +9,20 @@
  * - Uses ETag-based OCC (Optimistic Concurrency Control) to prevent race conditions
  * - Appends audit events to the events container
  * - Supports JSON path format for nested field updates
+ * - Applies JSON Patch line edits (add, remove, replace) from the review card
+ * - Remembers the confirmed column mappings as a template for the customer's layout
  */
 
 import { log, ApplicationFailure } from '@temporalio/activity';
-import { getCasesRepository, getEventsRepository, CaseDocument } from '../repositories/index.js';
+import {
+  getCasesRepository,
+  getEventsRepository,
+  getTemplatesRepository,
+  CaseDocument,
+  EventsRepository,
+  TemplateColumnMapping,
+} from '../repositories/index.js';
+import type { JsonPatchOperation } from '../workflows/types.js';
 
 /**
  * Represents a single field correction with audit trail information
@@ -37,6 +47,8 @@ export interface ApplyCorrectionsInput {
   caseId: string;
   tenantId: string;
   corrections: CorrectionData;
+  /** JSON Patch operations, applied after the field corrections */
+  patch?: JsonPatchOperation[];
   submittedBy: string;
   correlationId: string;
 }
@@ -129,6 +141,135 @@ function getJsonPath(obj: Record<string, unknown>, path: string): unknown {
   return current;
 }
 
+/**
+ * Applies JSON Patch operations (add, remove, replace) to an object
+ *
+ * Array indexes refer to the array as left by the preceding operations,
+ * and '-' appends (RFC 6902).
+ *
+ * @throws Error if a path does not exist in the object
+ */
+function applyJsonPatch(obj: Record<string, unknown>, patch: JsonPatchOperation[]): void {
+  for (const { op, path, value } of patch) {
+    const segments = path
+      .split('/')
+      .slice(1)
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    if (!path.startsWith('/') || segments.length === 0) {
+      throw new Error(`Invalid JSON Patch path: ${path}`);
+    }
+
+    let parent: unknown = obj;
+    for (const key of segments.slice(0, -1)) {
+      parent = parent !== null && typeof parent === 'object'
+        ? (parent as Record<string, unknown>)[key]
+        : undefined;
+    }
+
+    const lastKey = segments[segments.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = lastKey === '-' ? parent.length : Number(lastKey);
+      const maxIndex = op === 'add' ? parent.length : parent.length - 1;
+      if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+        throw new Error(`JSON Patch path not found: ${path}`);
+      }
+
+      if (op === 'add') {
+        parent.splice(index, 0, value);
+      } else if (op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = value;
+      }
+    } else if (parent !== null && typeof parent === 'object') {
+      const record = parent as Record<string, unknown>;
+      if (op !== 'add' && !(lastKey in record)) {
+        throw new Error(`JSON Patch path not found: ${path}`);
+      }
+
+      if (op === 'remove') {
+        delete record[lastKey];
+      } else {
+        record[lastKey] = value;
+      }
+    } else {
+      throw new Error(`JSON Patch path not found: ${path}`);
+    }
+  }
+}
+
+/**
+ * Saves the column mappings of corrected case data as the template for the
+ * customer's header layout. Mappings touched by a correction are stored as
+ * 'manual', the rest as 'template' (confirmed as inferred).
+ */
+async function saveColumnTemplate(
+  input: ApplyCorrectionsInput,
+  canonicalData: Record<string, unknown>,
+  eventsRepo: EventsRepository
+): Promise<void> {
+  const { caseId, tenantId, corrections, submittedBy, correlationId } = input;
+
+  const headerFingerprint = getJsonPath(canonicalData, '/schema_inference/header_fingerprint');
+  const mappings = getJsonPath(canonicalData, '/schema_inference/column_mappings');
+  if (typeof headerFingerprint !== 'string' || !Array.isArray(mappings) || mappings.length === 0) {
+    return;
+  }
+
+  const correctedIndexes = new Set(
+    Object.keys(corrections)
+      .map(field => /^\/?schema_inference[./]column_mappings[./](\d+)/.exec(field)?.[1])
+      .filter((index): index is string => index !== undefined)
+      .map(Number)
+  );
+
+  const columnMappings: TemplateColumnMapping[] = mappings.flatMap((m, index) =>
+    m && typeof m.canonical_field === 'string' && typeof m.source_column === 'string'
+      ? [{
+          canonicalField: m.canonical_field,
+          sourceColumn: m.source_column,
+          sourceHeader: String(m.source_header ?? ''),
+          method: correctedIndexes.has(index) || m.method === 'manual' ? 'manual' : 'template',
+        }]
+      : []
+  );
+
+  const customerName = getJsonPath(canonicalData, '/customer/input_name');
+
+  const template = await getTemplatesRepository().saveTemplate({
+    tenantId,
+    customerName: typeof customerName === 'string' ? customerName : '',
+    headerFingerprint,
+    columnMappings,
+    source: 'corrections',
+    sourceCaseId: caseId,
+    savedBy: submittedBy,
+  });
+
+  log.info('Saved column template', {
+    caseId,
+    correlationId,
+    templateId: template.id,
+    customerKey: template.customerKey,
+    mappingCount: columnMappings.length,
+  });
+
+  await eventsRepo.appendEvent({
+    caseId,
+    type: 'template_saved',
+    userId: submittedBy,
+    correlationId,
+    metadata: {
+      templateId: template.id,
+      customerKey: template.customerKey,
+      headerFingerprint,
+      manualMappings: columnMappings.filter(m => m.method === 'manual').map(m => m.canonicalField),
+    },
+  });
+}
+
 /**
  * Delays execution for the specified milliseconds
  */
@@ -150,14 +291,15 @@ function delay(ms: number): Promise<void> {
  * 3. Applies corrections to the canonical data using JSON paths
  * 4. Persists changes with ETag-based OCC to prevent race conditions
  * 5. Appends audit event to the events container
+ * 6. Saves the confirmed column mappings as the customer's template
  *
  * @param input - The input containing caseId, tenantId, corrections, and submitter info
  * @returns Success status with count of applied corrections and new ETag version
  */
 export async function applyCorrections(input: ApplyCorrectionsInput): Promise<ApplyCorrectionsOutput> {
-  const { caseId, tenantId, corrections, submittedBy, correlationId } = input;
+  const { caseId, tenantId, corrections, patch = [], submittedBy, correlationId } = input;
   const correctionFields = Object.keys(corrections);
-  const correctionCount = correctionFields.length;
+  const correctionCount = correctionFields.length + patch.length;
 
   log.info('Applying corrections', {
     caseId,
@@ -166,6 +308,7 @@ export async function applyCorrections(input: ApplyCorrectionsInput): Promise<Ap
     submittedBy,
     correlationId,
     fields: correctionFields,
+    patchCount: patch.length,
   });
 
   // Validate corrections format first
@@ -182,6 +325,11 @@ export async function applyCorrections(input: ApplyCorrectionsInput): Promise<Ap
       });
     }
   }
+  for (const operation of patch) {
+    if (!['add', 'remove', 'replace'].includes(operation.op)) {
+      validationErrors.push(`Patch operation '${operation.op}' on '${operation.path}' is not supported`);
+    }
+  }
 
   if (validationErrors.length > 0) {
     log.error('Correction validation failed', {
@@ -258,6 +406,31 @@ export async function applyCorrections(input: ApplyCorrectionsInput): Promise<Ap
         appliedCount++;
       }
 
+      // Apply line edits; a patch that no longer fits the order is rejected whole
+      if (patch.length > 0) {
+        try {
+          applyJsonPatch(canonicalData, patch);
+        } catch (patchError) {
+          const message = patchError instanceof Error ? patchError.message : String(patchError);
+          log.error('Correction patch could not be applied', { caseId, correlationId, error: message });
+          return {
+            success: false,
+            appliedCount: 0,
+            validationPassed: false,
+            errors: [message],
+          };
+        }
+
+        log.info('Applied correction patch', {
+          caseId,
+          correlationId,
+          operations: patch.map(operation => `${operation.op} ${operation.path}`),
+          submittedBy,
+        });
+
+        appliedCount += patch.length;
+      }
+
       // Update case with corrections - using updateCaseStatus with canonicalData update
       // Note: The current repository doesn't support ETag-based OCC directly,
       // so we rely on the updateCaseCanonicalData method
@@ -289,6 +462,7 @@ export async function applyCorrections(input: ApplyCorrectionsInput): Promise<Ap
                 },
               ])
             ),
+            ...(patch.length > 0 && { patch }),
             appliedCount,
             appliedAt: new Date().toISOString(),
           },
@@ -301,6 +475,17 @@ export async function applyCorrections(input: ApplyCorrectionsInput): Promise<Ap
         });
       }
 
+      // Remember the confirmed mappings for this customer's next upload
+      try {
+        await saveColumnTemplate(input, canonicalData, eventsRepo);
+      } catch (templateError) {
+        // Log but don't fail - the template only speeds up future uploads
+        log.warn('Failed to save column template', {
+          caseId,
+          error: templateError instanceof Error ? templateError.message : String(templateError),
+        });
+      }
+
       log.info('Corrections applied successfully', {
         caseId,
         correlationId,
@@ -387,6 +572,7 @@ function mockApplyCorrections(
     });
     appliedCount++;
   }
+  appliedCount += input.patch?.length ?? 0;
 
   log.info('Mock: Corrections applied successfully', {
     caseId,
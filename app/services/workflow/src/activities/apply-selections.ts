@@ -10,10 +10,17 @@
  * - Uses ETag-based OCC (Optimistic Concurrency Control) to prevent race conditions
  * - Appends audit events to the events container
  * - Supports both customer and item selections
+ * - Learns item aliases from item selections for the customer's next order
  */
 
 import { log, ApplicationFailure } from '@temporalio/activity';
-import { getCasesRepository, getEventsRepository, CaseDocument } from '../repositories/index.js';
+import {
+  getCasesRepository,
+  getEventsRepository,
+  getItemAliasesRepository,
+  CaseDocument,
+  EventsRepository,
+} from '../repositories/index.js';
 import { CanonicalOrderData, CaseStatus } from '../workflows/types.js';
 
 // ============================================================================
@@ -56,6 +63,7 @@ export interface ApplySelectionsInput {
   selections: UserSelections;
   submittedBy: string;
   correlationId: string;
+  zohoCustomerId?: string; // Resolved customer - item aliases are learned per customer
 }
 
 /**
@@ -174,6 +182,72 @@ function applyItemSelection(
   return true;
 }
 
+/**
+ * Learns item aliases from the applied item selections so the customer's
+ * next order with the same SKU, GTIN or description resolves automatically
+ */
+async function learnItemAliases(
+  input: ApplySelectionsInput,
+  canonicalData: Record<string, unknown>,
+  eventsRepo: EventsRepository
+): Promise<void> {
+  const { caseId, tenantId, selections, submittedBy, correlationId } = input;
+  const customer = canonicalData.customer as Record<string, unknown> | undefined;
+  const zohoCustomerId =
+    selections.customer?.zohoCustomerId ??
+    input.zohoCustomerId ??
+    (typeof customer?.zoho_customer_id === 'string' ? customer.zoho_customer_id : undefined);
+
+  if (!zohoCustomerId) {
+    log.info('Customer not resolved, skipping item alias learning', { caseId });
+    return;
+  }
+
+  const lineItems = (canonicalData.line_items as Array<Record<string, unknown>> | undefined) ?? [];
+  const aliasesRepo = getItemAliasesRepository();
+  const created: Array<{ row: number; aliasId: string; sourceKind: string; zohoItemId: string }> = [];
+
+  for (const [rowIndexStr, selection] of Object.entries(selections.items ?? {})) {
+    const rowIndex = Number(rowIndexStr);
+    const lineItem = lineItems.find(li => li.row === rowIndex || li.lineNumber === rowIndex);
+    if (!lineItem) {
+      continue;
+    }
+
+    const learned = await aliasesRepo.learnFromSelection({
+      tenantId,
+      zohoCustomerId,
+      line: {
+        sku: lineItem.sku as string | null | undefined,
+        gtin: lineItem.gtin as string | null | undefined,
+        productName: (lineItem.product_name ?? lineItem.description) as string | null | undefined,
+      },
+      zohoItemId: selection.zohoItemId,
+      zohoItemName: selection.zohoItemName,
+      selectedBy: submittedBy,
+      caseId,
+    });
+
+    for (const { alias, created: isNew } of learned) {
+      if (isNew) {
+        created.push({ row: rowIndex, aliasId: alias.id, sourceKind: alias.sourceKind, zohoItemId: alias.zohoItemId });
+      }
+    }
+  }
+
+  log.info('Learned item aliases', { caseId, correlationId, zohoCustomerId, created: created.length });
+
+  if (created.length > 0) {
+    await eventsRepo.appendEvent({
+      caseId,
+      type: 'item_alias_created',
+      userId: submittedBy,
+      correlationId,
+      metadata: { zohoCustomerId, aliases: created },
+    });
+  }
+}
+
 /**
  * Determines the appropriate status after selections are applied
  *
@@ -226,6 +300,7 @@ function determineNewStatus(
  * 4. Persists changes with ETag-based OCC to prevent race conditions
  * 5. Updates case status based on what was selected
  * 6. Appends audit event to the events container
+ * 7. Learns item aliases from the item selections
  *
  * @param input - The input containing caseId, tenantId, selections, and submitter info
  * @returns Success status with details of what was applied
@@ -431,6 +506,19 @@ export async function applySelections(input: ApplySelectionsInput): Promise<Appl
         });
       }
 
+      // Remember the picked items for the customer's next order
+      if (itemsApplied > 0) {
+        try {
+          await learnItemAliases(input, canonicalData, eventsRepo);
+        } catch (aliasError) {
+          // Log but don't fail - aliases only speed up future orders
+          log.warn('Failed to learn item aliases', {
+            caseId,
+            error: aliasError instanceof Error ? aliasError.message : String(aliasError),
+          });
+        }
+      }
+
       log.info('Selections applied successfully', {
         caseId,
         correlationId,
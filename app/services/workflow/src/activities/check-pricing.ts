@@ -0,0 +1,398 @@
+/**
+ * Check Pricing Activity (Temporal)
+ *
+ * Compares spreadsheet unit prices with the rate Zoho will charge the
+ * customer (their price list rate for the line quantity, or the item rate)
+ * and builds the order review shown on the approval card.
+ *
+ * Lines whose spreadsheet price differs from the effective rate by more than
+ * PRICE_VARIANCE_THRESHOLD_PERCENT are reported as PRICE_VARIANCE issues.
+ * The draft always uses the Zoho rate; the issues only ask the user to confirm.
+ *
+ * Lines ordered in a unit (carton, dozen, ...) are also checked for a
+ * conversion to whole stocking units. UOM_CONVERSION_MISSING and
+ * UOM_FRACTIONAL_QUANTITY are reported as blockers, which keep the order
+ * from being approved until the line is corrected.
+ */
+
+import { log } from '@temporalio/activity';
+
+import { getCasesRepository } from '../repositories/index.js';
+import { getFeatureFlags } from '../config';
+import type { IssueItem, OrderReview } from './notify-user';
+import type { ResolvedItem } from './resolve-items';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for CheckPricing activity
+ */
+export interface CheckPricingInput {
+  caseId: string;
+  tenantId?: string;
+  zohoCustomerId?: string;
+  /** Items resolved automatically by resolveItems (selections are read from the case) */
+  resolvedItems?: Array<Pick<ResolvedItem, 'row' | 'zohoItemId' | 'rate'>>;
+  correlationId?: string;
+}
+
+/**
+ * Effective rate of one line
+ */
+export interface LinePricing {
+  row: number;
+  zohoItemId: string;
+  quantity: number;
+  unit: string | null;
+  spreadsheetPrice: number | null;
+  effectiveRate: number;
+  rateSource: EffectiveRate['source'];
+  pricebookName?: string;
+  /** |effectiveRate - spreadsheetPrice| as % of effectiveRate */
+  variancePercent: number | null;
+}
+
+/**
+ * Output from CheckPricing activity
+ */
+export interface CheckPricingOutput {
+  success: boolean;
+  lines: LinePricing[];
+  issues: IssueItem[];
+  orderReview?: OrderReview;
+}
+
+/**
+ * Effective rate from the Zoho service
+ * Defined locally to avoid direct dependency on @order-processing/zoho
+ */
+export interface EffectiveRate {
+  rate: number;
+  base_rate: number;
+  source: 'item' | 'price_book' | 'price_book_tier';
+  pricebook_id?: string;
+  pricebook_name?: string;
+  tier_start_quantity?: number;
+}
+
+/**
+ * Unit conversion issue from the Zoho service
+ * Defined locally to avoid direct dependency on @order-processing/zoho
+ */
+export interface UnitConversionIssue {
+  code: 'UOM_FRACTIONAL_QUANTITY' | 'UOM_CONVERSION_MISSING';
+  message: string;
+  fields: string[];
+  suggested_user_action: string;
+}
+
+// ============================================================================
+// Dependency Injection Interfaces
+// ============================================================================
+
+/**
+ * Interface for the Zoho pricing service
+ * This abstracts the Zoho rate resolver for testability
+ */
+export interface IZohoPricingService {
+  /**
+   * Get the rate charged to the customer for an item and quantity.
+   * With a unit, the quantity and returned rate are in that unit.
+   * Returns null when the item or unit conversion is unknown.
+   */
+  getEffectiveRate(
+    customerId: string,
+    itemId: string,
+    quantity: number,
+    unit?: string | null
+  ): Promise<EffectiveRate | null>;
+
+  /**
+   * Check that a quantity in a unit converts to whole stocking units of the item.
+   * Returns null when it converts, or when the item is unknown.
+   */
+  checkUnitConversion?(
+    itemId: string,
+    row: number,
+    quantity: number,
+    unit: string
+  ): Promise<UnitConversionIssue | null>;
+}
+
+// ============================================================================
+// Dependency Injection
+// ============================================================================
+
+// Dependencies - will be injected via activity context
+let zohoPricingService: IZohoPricingService | null = null;
+
+/**
+ * Initialize dependencies for the checkPricing activity
+ * Called at worker startup to inject service dependencies
+ *
+ * @param pricingService - Zoho pricing service instance
+ */
+export function initializeCheckPricingActivity(pricingService: IZohoPricingService): void {
+  zohoPricingService = pricingService;
+  log.info('CheckPricing activity dependencies initialized');
+}
+
+/**
+ * Check if dependencies are initialized
+ */
+export function isCheckPricingInitialized(): boolean {
+  return zohoPricingService !== null;
+}
+
+// ============================================================================
+// Activity Implementation
+// ============================================================================
+
+/**
+ * Checks spreadsheet prices against the customer's effective Zoho rates
+ *
+ * Without the Zoho pricing service (mock mode), the item rates captured
+ * during item resolution are used as the effective rates.
+ *
+ * @param input - The input containing caseId and resolved items
+ * @returns Line pricing, price variance issues and the approval card review
+ */
+export async function checkPricing(input: CheckPricingInput): Promise<CheckPricingOutput> {
+  const { caseId, tenantId, zohoCustomerId } = input;
+  const threshold = getFeatureFlags().priceVarianceThresholdPercent;
+
+  log.info('Checking prices against Zoho rates', {
+    caseId,
+    tenantId,
+    threshold,
+    usePriceLists: !!zohoPricingService && !!zohoCustomerId,
+  });
+
+  if (!tenantId) {
+    log.warn('tenantId not provided, skipping price check', { caseId });
+    return { success: true, lines: [], issues: [] };
+  }
+
+  let casesRepo;
+  try {
+    casesRepo = getCasesRepository();
+  } catch (repoError) {
+    log.warn('Repository not available, skipping price check', {
+      caseId,
+      error: repoError instanceof Error ? repoError.message : String(repoError),
+    });
+    return { success: true, lines: [], issues: [] };
+  }
+
+  const caseData = await casesRepo.getCase(caseId, tenantId);
+  if (!caseData) {
+    log.error('Case not found', { caseId, tenantId });
+    throw new Error(`Case ${caseId} not found`);
+  }
+
+  const order = (caseData.canonicalData || {}) as CanonicalOrderData;
+  const lineItems = order.line_items || [];
+
+  // Automatically resolved items, overridden by user selections stored on the case
+  const baseRates = new Map<number, { zohoItemId: string; rate: number }>();
+  for (const item of input.resolvedItems || []) {
+    baseRates.set(item.row, { zohoItemId: item.zohoItemId, rate: item.rate });
+  }
+  for (const line of lineItems) {
+    if (line.zoho_item_id) {
+      baseRates.set(line.row, {
+        zohoItemId: line.zoho_item_id,
+        rate: line.zoho_item_rate ?? baseRates.get(line.row)?.rate ?? 0,
+      });
+    }
+  }
+
+  const lines: LinePricing[] = [];
+  const conversionIssues: IssueItem[] = [];
+  for (const line of lineItems) {
+    const base = baseRates.get(line.row);
+    if (!base) {
+      continue;
+    }
+
+    const unit = line.unit || null;
+    if (unit && zohoPricingService?.checkUnitConversion) {
+      const conversionIssue = await zohoPricingService.checkUnitConversion(
+        base.zohoItemId,
+        line.row,
+        line.quantity,
+        unit
+      );
+      if (conversionIssue) {
+        log.warn('Unit conversion issue, skipping price check', {
+          caseId,
+          row: line.row,
+          code: conversionIssue.code,
+        });
+        conversionIssues.push(buildConversionIssue(conversionIssue));
+        continue;
+      }
+    }
+
+    const effective = await getLineRate(zohoCustomerId, base, line.quantity, unit, caseId);
+    if (!effective) {
+      log.warn('No effective rate for line, skipping price check', { caseId, row: line.row, unit });
+      continue;
+    }
+
+    const spreadsheetPrice = line.unit_price_source ?? null;
+    const variancePercent = spreadsheetPrice !== null && effective.rate !== 0
+      ? Math.round((Math.abs(effective.rate - spreadsheetPrice) / effective.rate) * 1000) / 10
+      : null;
+
+    lines.push({
+      row: line.row,
+      zohoItemId: base.zohoItemId,
+      quantity: line.quantity,
+      unit,
+      spreadsheetPrice,
+      effectiveRate: effective.rate,
+      rateSource: effective.source,
+      pricebookName: effective.pricebook_name,
+      variancePercent,
+    });
+  }
+
+  const varianceIssues = lines
+    .filter((line) => line.variancePercent !== null && line.variancePercent > threshold)
+    .map((line) => buildVarianceIssue(line));
+  const issues = [...conversionIssues, ...varianceIssues];
+
+  log.info('Price check complete', {
+    caseId,
+    linesChecked: lines.length,
+    varianceIssues: varianceIssues.length,
+    conversionIssues: conversionIssues.length,
+  });
+
+  return {
+    success: true,
+    lines,
+    issues,
+    orderReview: buildOrderReview(order, lines, issues),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Canonical data fields read by this activity
+ */
+interface CanonicalOrderData {
+  customer?: {
+    input_name?: string | null;
+    zoho_customer_name?: string;
+  };
+  line_items?: Array<{
+    row: number;
+    quantity: number;
+    unit?: string | null;
+    unit_price_source?: number | null;
+    zoho_item_id?: string;
+    zoho_item_rate?: number;
+  }>;
+  totals?: {
+    total_source?: number | null;
+    currency?: string | null;
+  };
+}
+
+/**
+ * Get the effective rate of a line, falling back to the resolved item rate
+ */
+async function getLineRate(
+  zohoCustomerId: string | undefined,
+  base: { zohoItemId: string; rate: number },
+  quantity: number,
+  unit: string | null,
+  caseId: string
+): Promise<EffectiveRate | null> {
+  if (zohoPricingService && zohoCustomerId && !getFeatureFlags().useMockItems) {
+    try {
+      return await zohoPricingService.getEffectiveRate(zohoCustomerId, base.zohoItemId, quantity, unit);
+    } catch (error) {
+      log.warn('Price list lookup failed, using item rate', {
+        caseId,
+        zohoItemId: base.zohoItemId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Item rates are per stocking unit - not comparable with a price per carton etc.
+  if (unit) {
+    return null;
+  }
+
+  return { rate: base.rate, base_rate: base.rate, source: 'item' };
+}
+
+/**
+ * Build a PRICE_VARIANCE issue for the approval card
+ */
+function buildVarianceIssue(line: LinePricing): IssueItem {
+  const rateLabel = line.pricebookName
+    ? `${line.effectiveRate} (price list ${line.pricebookName})`
+    : String(line.effectiveRate);
+  const message =
+    `Line ${line.row}: spreadsheet price ${line.spreadsheetPrice} differs from Zoho rate ` +
+    `${rateLabel} by ${line.variancePercent}%`;
+
+  return {
+    code: 'PRICE_VARIANCE',
+    severity: 'warning',
+    message,
+    messageEn: message,
+    fields: ['unit_price'],
+    suggestedUserAction: 'Confirm the Zoho rate before approving; the draft uses the Zoho rate',
+  };
+}
+
+/**
+ * Build a blocking UOM_* issue for the approval card
+ */
+function buildConversionIssue(issue: UnitConversionIssue): IssueItem {
+  return {
+    code: issue.code,
+    severity: 'blocker',
+    message: issue.message,
+    messageEn: issue.message,
+    fields: issue.fields,
+    suggestedUserAction: issue.suggested_user_action,
+  };
+}
+
+/**
+ * Build the order review shown on the approval card
+ */
+function buildOrderReview(
+  order: CanonicalOrderData,
+  lines: LinePricing[],
+  issues: IssueItem[]
+): OrderReview {
+  const currency = order.totals?.currency ? ` ${order.totals.currency}` : '';
+  const totalZoho = lines.reduce((sum, line) => sum + line.effectiveRate * line.quantity, 0);
+  const totalSource = order.totals?.total_source;
+
+  return {
+    customerName: order.customer?.zoho_customer_name || order.customer?.input_name || 'Unknown',
+    lineItemCount: order.line_items?.length || 0,
+    totalSource: totalSource !== null && totalSource !== undefined
+      ? `${totalSource.toFixed(2)}${currency}`
+      : 'N/A',
+    totalZoho: `${totalZoho.toFixed(2)}${currency}`,
+    // Blockers are listed separately on the approval card
+    warnings: issues
+      .filter((issue) => issue.severity !== 'blocker')
+      .map((issue) => issue.message),
+  };
+}
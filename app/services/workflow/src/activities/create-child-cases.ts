@@ -0,0 +1,62 @@
+/**
+ * Create Child Cases Activity (Temporal)
+ *
+ * Creates the Cosmos case documents of the orders split from a multi-order
+ * upload, before their child workflows start. Each child copies the parent's
+ * tenant, file, uploader and Teams context and links back to the parent, so
+ * the child workflow's case updates and API lookups find it.
+ */
+
+import { log } from '@temporalio/activity';
+import { getCasesRepository, CasesRepository } from '../repositories/index.js';
+
+// Input/Output interfaces
+export interface CreateChildCasesInput {
+  parentCaseId: string;
+  tenantId: string;
+  correlationId?: string;
+  childOrders: Array<{ caseId: string; orderIndex: number }>;
+}
+
+export interface CreateChildCasesOutput {
+  success: boolean;
+  childCaseIds: string[];
+}
+
+/**
+ * Get the cases repository, or null when Cosmos is not configured
+ */
+function tryGetCasesRepository(): CasesRepository | null {
+  try {
+    return getCasesRepository();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates one case document per split order
+ * @param input - Parent case and the orders split from it
+ * @returns IDs of the child cases
+ */
+export async function createChildCases(input: CreateChildCasesInput): Promise<CreateChildCasesOutput> {
+  const { parentCaseId, tenantId, correlationId, childOrders } = input;
+  const childCaseIds = childOrders.map((order) => order.caseId);
+
+  log.info('Creating child cases', { parentCaseId, tenantId, correlationId, childCaseIds });
+
+  // Same mock behavior as updateCase when Cosmos DB is not available
+  const casesRepository = tryGetCasesRepository();
+  if (!casesRepository) {
+    log.warn('Repositories not initialized, using mock behavior', { parentCaseId });
+    return { success: true, childCaseIds };
+  }
+
+  for (const order of childOrders) {
+    await casesRepository.createChildCase(parentCaseId, tenantId, order.caseId, order.orderIndex);
+  }
+
+  log.info('Child cases created', { parentCaseId, count: childCaseIds.length });
+
+  return { success: true, childCaseIds };
+}
@@ -8,9 +8,18 @@
  * - Original uploaded file
  * - Canonical JSON extraction
  * - Committee model outputs and prompts
+ * - Committee token usage and cost
  * - User correction patches
  * - Zoho API request/response payloads
  * - Complete event timeline
+ *
+ * Child orders of a multi-order upload share the parent's bundle: their
+ * manifests are written under the parent case and reference the parent's
+ * original file, and the parent manifest lists its children.
+ *
+ * Amending a draft writes a new manifest per revision next to the original
+ * one; every manifest lists the drafted and amended versions of all
+ * amendments made so far.
  */
 
 import { log } from '@temporalio/activity';
@@ -18,6 +27,7 @@ import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
 import { DefaultAzureCredential } from '@azure/identity';
 import { createHash } from 'crypto';
 import { getCasesRepository } from '../repositories/index.js';
+import type { CaseCommitteeUsage } from '../repositories/index.js';
 import { getEventsRepository } from '../repositories/index.js';
 
 // ============================================================================
@@ -34,6 +44,12 @@ export interface FinalizeAuditInput {
   correlationId?: string;
   /** Zoho order ID to include in audit manifest */
   zohoOrderId?: string;
+  /** For child orders: parent case holding the shared original file and bundle */
+  parentCaseId?: string;
+  /** For split parents: child case IDs to reference from the manifest */
+  childCaseIds?: string[];
+  /** For amendments: revision whose manifest is written next to the original */
+  amendmentRevision?: number;
 }
 
 /**
@@ -69,6 +85,15 @@ export interface AuditManifest {
   /** User who initiated the workflow */
   userId?: string;
 
+  /** Parent case when this order was split from a multi-order upload */
+  parentCaseId?: string;
+
+  /** Child orders when this upload was split */
+  children?: Array<{
+    caseId: string;
+    manifestPath: string;
+  }>;
+
   /** Original uploaded file reference */
   original?: ArtifactReference;
 
@@ -89,12 +114,26 @@ export interface AuditManifest {
     executedAt?: string;
   };
 
+  /** AI committee token usage and cost of the case */
+  committeeUsage?: CaseCommitteeUsage;
+
   /** User correction patches */
   corrections?: ArtifactReference[];
 
   /** User selections (customer/items) */
   selections?: ArtifactReference[];
 
+  /** Revision this manifest was written for (amended drafts only) */
+  amendmentRevision?: number;
+
+  /** Drafted and amended versions of each amendment */
+  amendments?: Array<{
+    revision: number;
+    previous?: ArtifactReference;
+    amended?: ArtifactReference;
+    diff?: ArtifactReference;
+  }>;
+
   /** Zoho API interactions */
   zoho?: {
     request?: ArtifactReference;
@@ -153,7 +192,7 @@ const MANIFEST_VERSION = '1.0';
  * @returns Result with manifest path and artifact count
  */
 export async function finalizeAudit(input: FinalizeAuditInput): Promise<FinalizeAuditOutput> {
-  const { caseId, tenantId, userId, correlationId, zohoOrderId } = input;
+  const { caseId, tenantId, userId, correlationId, zohoOrderId, parentCaseId, childCaseIds, amendmentRevision } = input;
 
   log.info('Starting audit finalization', { caseId, tenantId, zohoOrderId });
 
@@ -177,8 +216,8 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
     // Gather all artifacts for this case
     const allArtifacts: ArtifactReference[] = [];
 
-    // 1. Collect artifacts from orders-incoming container
-    const incomingArtifacts = await listCaseArtifacts(incomingContainer, caseId);
+    // 1. Collect artifacts from orders-incoming container (child orders share the parent's upload)
+    const incomingArtifacts = await listCaseArtifacts(incomingContainer, parentCaseId ?? caseId);
     allArtifacts.push(...incomingArtifacts);
 
     // 2. Collect artifacts from orders-audit container
@@ -208,10 +247,19 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
       createdAt: new Date().toISOString(),
       correlationId,
       userId,
+      parentCaseId,
+      amendmentRevision,
       finalStatus: caseData?.status || 'unknown',
       allArtifacts,
     };
 
+    if (childCaseIds && childCaseIds.length > 0) {
+      manifest.children = childCaseIds.map(childCaseId => ({
+        caseId: childCaseId,
+        manifestPath: getManifestPath(childCaseId, caseId),
+      }));
+    }
+
     // Populate specific artifact references
     manifest.original = findArtifact(incomingArtifacts, 'original');
     manifest.canonical = findArtifact(auditArtifacts, 'canonical.json');
@@ -226,6 +274,10 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
       };
     }
 
+    if (caseData?.committeeUsage) {
+      manifest.committeeUsage = caseData.committeeUsage;
+    }
+
     // Corrections
     const correctionArtifacts = auditArtifacts.filter(a => a.blobPath.includes('/corrections/'));
     if (correctionArtifacts.length > 0) {
@@ -238,6 +290,12 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
       manifest.selections = selectionArtifacts;
     }
 
+    // Amendments
+    const amendmentArtifacts = auditArtifacts.filter(a => a.blobPath.includes('/amendments/'));
+    if (amendmentArtifacts.length > 0) {
+      manifest.amendments = extractAmendments(amendmentArtifacts);
+    }
+
     // Zoho payloads
     const zohoRequest = findArtifact(auditArtifacts, 'zoho/request.json');
     const zohoResponse = findArtifact(auditArtifacts, 'zoho/response.json');
@@ -264,7 +322,7 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
     }
 
     // 6. Store the manifest in WORM container
-    const manifestPath = `${caseId}/audit/audit_manifest.json`;
+    const manifestPath = getManifestPath(caseId, parentCaseId, amendmentRevision);
     const manifestJson = JSON.stringify(manifest, null, 2);
     const manifestBuffer = Buffer.from(manifestJson, 'utf-8');
     const manifestSha256 = createHash('sha256').update(manifestBuffer).digest('hex');
@@ -277,6 +335,8 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
       metadata: {
         caseId,
         tenantId,
+        ...(parentCaseId && { parentCaseId }),
+        ...(amendmentRevision && { amendmentRevision: String(amendmentRevision) }),
         sha256: manifestSha256,
         version: MANIFEST_VERSION,
         artifactCount: String(allArtifacts.length),
@@ -316,6 +376,19 @@ export async function finalizeAudit(input: FinalizeAuditInput): Promise<Finalize
 // Helper Functions
 // ============================================================================
 
+/**
+ * Manifest location in the audit container. Child orders are stored inside
+ * the parent's bundle; amendments next to the case's original manifest.
+ */
+function getManifestPath(caseId: string, parentCaseId?: string, amendmentRevision?: number): string {
+  const bundle = parentCaseId
+    ? `${parentCaseId}/audit/orders/${caseId}`
+    : `${caseId}/audit`;
+  return amendmentRevision
+    ? `${bundle}/amendments/rev-${amendmentRevision}/audit_manifest.json`
+    : `${bundle}/audit_manifest.json`;
+}
+
 /**
  * List all artifacts for a case in a container
  */
@@ -359,6 +432,34 @@ function findArtifact(
   return artifacts.find(a => a.blobPath.includes(pathPattern));
 }
 
+/**
+ * Group amendment artifacts by revision
+ * Paths look like "{caseId}/amendments/rev-{n}/previous-canonical.json"
+ */
+function extractAmendments(artifacts: ArtifactReference[]): NonNullable<AuditManifest['amendments']> {
+  const revisions = new Map<number, NonNullable<AuditManifest['amendments']>[number]>();
+
+  for (const artifact of artifacts) {
+    const match = /\/amendments\/rev-(\d+)\/(previous-canonical|amended-canonical|diff)\.json$/.exec(artifact.blobPath);
+    if (!match) {
+      continue;
+    }
+
+    const revision = Number(match[1]);
+    const entry = revisions.get(revision) ?? { revision };
+    if (match[2] === 'previous-canonical') {
+      entry.previous = artifact;
+    } else if (match[2] === 'amended-canonical') {
+      entry.amended = artifact;
+    } else {
+      entry.diff = artifact;
+    }
+    revisions.set(revision, entry);
+  }
+
+  return [...revisions.values()].sort((a, b) => a.revision - b.revision);
+}
+
 /**
  * Extract committee model outputs from artifacts
  */
@@ -15,6 +15,8 @@
 export { storeFile } from './store-file';
 export { parseExcel } from './parse-excel';
 export { runCommittee } from './run-committee';
+export { runExtractionReview } from './run-extraction-review';
+export { recordCommitteeFeedback } from './record-committee-feedback';
 export {
   resolveCustomer,
   initializeResolveCustomerActivity,
@@ -25,17 +27,26 @@ export {
   initializeResolveItemsActivity,
   isResolveItemsInitialized,
 } from './resolve-items';
+export {
+  checkPricing,
+  initializeCheckPricingActivity,
+  isCheckPricingInitialized,
+} from './check-pricing';
 export { applyCorrections } from './apply-corrections';
 export { applySelections } from './apply-selections';
 export { createZohoDraft } from './create-zoho-draft';
+export { prepareAmendment, revertAmendment, amendZohoDraft } from './amend-zoho-draft';
 export { notifyUser } from './notify-user';
 export { updateCase } from './update-case';
+export { createChildCases } from './create-child-cases';
 export { finalizeAudit } from './finalize-audit';
 
 // Re-export all types for convenience
 export type { StoreFileInput, StoreFileOutput } from './store-file';
 export type { ParseExcelInput, ParseExcelOutput, ParseIssue } from './parse-excel';
-export type { RunCommitteeInput, RunCommitteeOutput, CommitteeDisagreement, ColumnMapping } from './run-committee';
+export type { RunCommitteeInput, RunCommitteeOutput, CommitteeDisagreement, ColumnMapping, CommitteeCostSaved } from './run-committee';
+export type { RunExtractionReviewInput, RunExtractionReviewOutput } from './run-extraction-review';
+export type { RecordCommitteeFeedbackInput, RecordCommitteeFeedbackOutput } from './record-committee-feedback';
 export type {
   ResolveCustomerInput,
   ResolveCustomerOutput,
@@ -59,9 +70,26 @@ export type {
   CachedItem as ResolveItemsCachedItem,
   ItemMatchResult,
 } from './resolve-items';
+export type {
+  CheckPricingInput,
+  CheckPricingOutput,
+  LinePricing,
+  IZohoPricingService,
+  EffectiveRate,
+} from './check-pricing';
 export type { ApplyCorrectionsInput, ApplyCorrectionsOutput, CorrectionData, FieldCorrection } from './apply-corrections';
 export type { ApplySelectionsInput, ApplySelectionsOutput, CustomerSelection, ItemSelection, UserSelections } from './apply-selections';
 export type { CreateZohoDraftInput, CreateZohoDraftOutput } from './create-zoho-draft';
+export type {
+  PrepareAmendmentInput,
+  PrepareAmendmentOutput,
+  RevertAmendmentInput,
+  RevertAmendmentOutput,
+  AmendZohoDraftInput,
+  AmendZohoDraftOutput,
+  AmendmentDiff,
+  AmendmentLineChange,
+} from './amend-zoho-draft';
 export type {
   NotifyUserInput,
   NotifyUserOutput,
@@ -72,4 +100,5 @@ export type {
   SelectionCandidates,
 } from './notify-user';
 export type { UpdateCaseInput, UpdateCaseOutput } from './update-case';
+export type { CreateChildCasesInput, CreateChildCasesOutput } from './create-child-cases';
 export type { FinalizeAuditInput, FinalizeAuditOutput, AuditManifest, ArtifactReference } from './finalize-audit';
@@ -10,6 +10,7 @@
  */
 
 import { log } from '@temporalio/activity';
+import type { AmendmentSummary, ChildOrderSummary } from '../workflows/types.js';
 
 // Notification types for order processing workflow
 export type NotificationType =
@@ -20,6 +21,7 @@ export type NotificationType =
   | 'ready_for_approval' // Order ready for user approval before creating in Zoho
   | 'complete'          // Order created successfully in Zoho
   | 'failed'            // Order processing failed
+  | 'multi_order_summary' // Upload split into several orders (parent summary)
   | 'reminder'          // Reminder after waiting for user input
   | 'escalation'        // Escalation notification (includes manager)
   | 'timeout_warning';  // Final warning before auto-cancel
@@ -94,6 +96,9 @@ export interface NotifyUserInput {
 
   // Fields for reminder/escalation/timeout notifications
   waitContext?: HumanWaitContext;
+
+  childOrders?: ChildOrderSummary[]; // For 'multi_order_summary' type
+  amendment?: AmendmentSummary; // For 'ready_for_approval' and 'complete' types when amending a draft
 }
 
 // Context for human wait scenarios
@@ -226,6 +231,8 @@ function buildNotificationCard(input: NotifyUserInput): Record<string, unknown>
       return buildSuccessCard(input);
     case 'failed':
       return buildFailedCard(input);
+    case 'multi_order_summary':
+      return buildMultiOrderSummaryCard(input);
     case 'reminder':
       return buildReminderCard(input);
     case 'escalation':
@@ -399,6 +406,8 @@ function buildIssuesCard(input: NotifyUserInput): Record<string, unknown> {
   const warnings = issues.filter(i => i.severity === 'warning');
 
   const issuesList: Array<Record<string, unknown>> = [];
+  // Inline correction input -> JSON path of the value it corrects
+  const fieldPaths: Record<string, string> = {};
 
   if (blockers.length > 0) {
     issuesList.push({
@@ -434,6 +443,18 @@ function buildIssuesCard(input: NotifyUserInput): Record<string, unknown> {
         wrap: true,
         spacing: 'Small',
       });
+
+      // Field-level issues (e.g. extraction review) are corrected in place
+      const path = issue.fields?.[0];
+      if (path?.startsWith('/')) {
+        fieldPaths[`${issue.code}_${idx}`] = path;
+        issuesList.push({
+          type: 'Input.Text',
+          id: `correction_${issue.code}_${idx}`,
+          placeholder: 'Correct value',
+          spacing: 'Small',
+        });
+      }
     });
   }
 
@@ -507,6 +528,7 @@ function buildIssuesCard(input: NotifyUserInput): Record<string, unknown> {
         data: {
           action: 'submit_corrections',
           caseId: input.caseId,
+          ...(Object.keys(fieldPaths).length > 0 && { fieldPaths }),
         },
       },
       {
@@ -621,7 +643,18 @@ function buildSelectionCard(input: NotifyUserInput): Record<string, unknown> {
  */
 function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
   const review = input.orderReview;
-  const warnings = review?.warnings || [];
+  // Blockers (e.g. UOM_FRACTIONAL_QUANTITY) must be fixed before the order can be approved
+  const blockers = (input.issues || []).filter((issue) => issue.severity === 'blocker');
+  // Other issues (e.g. PRICE_VARIANCE) are listed with the review warnings
+  const issueMessages = (input.issues || [])
+    .filter((issue) => issue.severity !== 'blocker')
+    .map((issue) => issue.message);
+  const warnings = [
+    ...(review?.warnings || []),
+    ...issueMessages.filter((message) => !review?.warnings.includes(message)),
+  ];
+
+  const amendment = input.amendment;
 
   return {
     $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
@@ -632,7 +665,7 @@ function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
         type: 'TextBlock',
         weight: 'Bolder',
         size: 'Large',
-        text: 'Draft Sales Order Preview',
+        text: amendment ? 'Amended Sales Order Preview' : 'Draft Sales Order Preview',
       },
       {
         type: 'TextBlock',
@@ -640,6 +673,7 @@ function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
         isSubtle: true,
         wrap: true,
       },
+      ...(amendment ? buildAmendmentDiffBlocks(amendment) : []),
       {
         type: 'FactSet',
         facts: [
@@ -649,6 +683,22 @@ function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
           { title: 'Total (Zoho pricing)', value: review?.totalZoho || 'N/A' },
         ],
       },
+      ...(blockers.length > 0 ? [
+        {
+          type: 'TextBlock',
+          text: `\uD83D\uDEAB **Blocking Issues (${blockers.length})**`,
+          wrap: true,
+          weight: 'Bolder',
+          color: 'Attention',
+          spacing: 'Medium',
+        },
+        ...blockers.map((issue, idx) => ({
+          type: 'TextBlock',
+          text: `${idx + 1}. ${issue.message}${issue.suggestedUserAction ? `\n   -> ${issue.suggestedUserAction}` : ''}`,
+          wrap: true,
+          spacing: 'Small',
+        })),
+      ] : []),
       ...(warnings.length > 0 ? [
         {
           type: 'TextBlock',
@@ -665,12 +715,22 @@ function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
       ] : []),
     ],
     actions: [
+      ...(blockers.length === 0 ? [
+        {
+          type: 'Action.Submit',
+          title: amendment ? 'Approve & Update Draft in Zoho' : 'Approve & Create Draft in Zoho',
+          style: 'positive',
+          data: {
+            action: 'approve_create',
+            caseId: input.caseId,
+          },
+        },
+      ] : []),
       {
         type: 'Action.Submit',
-        title: 'Approve & Create Draft in Zoho',
-        style: 'positive',
+        title: 'Edit Lines',
         data: {
-          action: 'approve_create',
+          action: 'review_edit',
           caseId: input.caseId,
         },
       },
@@ -687,11 +747,60 @@ function buildApprovalCard(input: NotifyUserInput): Record<string, unknown> {
 }
 
 /**
- * Success card - shown when order is created in Zoho
+ * Changed lines of an amendment, listed above the order review
+ */
+function buildAmendmentDiffBlocks(amendment: AmendmentSummary): Record<string, unknown>[] {
+  const diff = amendment.diff;
+  const lines = (diff?.changes || []).map((change) => {
+    const item = change.item_name || change.zoho_item_id;
+    const unit = change.unit ? ` ${change.unit}` : '';
+    switch (change.change) {
+      case 'added':
+        return `+ Row ${change.amended_row}: ${item} \u00D7 ${change.amended_quantity}${unit}`;
+      case 'removed':
+        return `\u2212 Row ${change.previous_row}: ${item} \u00D7 ${change.previous_quantity}${unit}`;
+      default:
+        return `~ Row ${change.amended_row}: ${item} ${change.previous_quantity} \u2192 ${change.amended_quantity}${unit}`;
+    }
+  });
+
+  if (diff?.customer_changed) {
+    lines.unshift('Customer changed');
+  }
+
+  return [
+    {
+      type: 'FactSet',
+      facts: [
+        { title: 'Amends', value: amendment.zohoOrderNumber || 'Existing draft' },
+        { title: 'Revision', value: String(amendment.revision) },
+      ],
+    },
+    {
+      type: 'TextBlock',
+      text: 'Changes',
+      weight: 'Bolder',
+      spacing: 'Medium',
+    },
+    {
+      type: 'TextBlock',
+      text: !diff
+        ? 'Line changes unavailable'
+        : lines.length > 0
+          ? lines.join('\n')
+          : 'No line changes',
+      wrap: true,
+      fontType: 'Monospace',
+    },
+  ];
+}
+
+/**
+ * Success card - shown when order is created in Zoho (or an amended draft updated)
  */
 function buildSuccessCard(input: NotifyUserInput): Record<string, unknown> {
   const result = input.zohoResult;
-  const orderNumber = result?.salesorderNumber || input.zohoOrderNumber || 'Unknown';
+  const orderNumber = result?.salesorderNumber || input.zohoOrderNumber || input.amendment?.zohoOrderNumber || 'Unknown';
   const zohoUrl = result?.url || '#';
   const auditUrl = input.auditBundleUrl || '#';
 
@@ -720,7 +829,7 @@ function buildSuccessCard(input: NotifyUserInput): Record<string, unknown> {
                     type: 'TextBlock',
                     weight: 'Bolder',
                     size: 'Large',
-                    text: 'Draft Sales Order Created',
+                    text: input.amendment ? 'Draft Sales Order Updated' : 'Draft Sales Order Created',
                     wrap: true,
                   },
                 ],
@@ -769,6 +878,15 @@ function buildSuccessCard(input: NotifyUserInput): Record<string, unknown> {
         title: 'Download Audit Bundle',
         url: auditUrl,
       }] : []),
+      // The bot routes the user's next upload or chat edit to an amendment of this draft
+      {
+        type: 'Action.Submit',
+        title: 'Amend Order',
+        data: {
+          action: 'request_amendment',
+          caseId: input.caseId,
+        },
+      },
     ],
   };
 }
@@ -848,6 +966,76 @@ function buildFailedCard(input: NotifyUserInput): Record<string, unknown> {
   };
 }
 
+/**
+ * Multi-order summary card - lists every order split from one upload.
+ * Sent when the child orders start and again when they have all finished;
+ * each child posts its own approval card in the same thread.
+ */
+function buildMultiOrderSummaryCard(input: NotifyUserInput): Record<string, unknown> {
+  const childOrders = input.childOrders || [];
+  const finished = childOrders.length > 0 && childOrders.every(o => o.status !== 'processing');
+
+  const statusLabels: Record<ChildOrderSummary['status'], string> = {
+    processing: 'In progress',
+    completed: 'Draft created',
+    cancelled: 'Cancelled',
+    failed: 'Failed',
+  };
+
+  return {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.5',
+    body: [
+      {
+        type: 'TextBlock',
+        weight: 'Bolder',
+        size: 'Large',
+        text: finished ? 'All Orders Processed' : `${childOrders.length} Orders Found in Upload`,
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: `Case: ${input.caseId}`,
+        isSubtle: true,
+        wrap: true,
+        spacing: 'Small',
+      },
+      {
+        type: 'TextBlock',
+        text: finished
+          ? 'Every order from this file has been handled:'
+          : 'Each order will be reviewed separately. You will receive an approval card for each one.',
+        wrap: true,
+      },
+      ...childOrders.map(order => ({
+        type: 'Container',
+        separator: true,
+        spacing: 'Medium',
+        items: [
+          {
+            type: 'TextBlock',
+            weight: 'Bolder',
+            text: `Order ${order.orderIndex + 1}: ${order.customerName || 'Unknown customer'}`,
+            wrap: true,
+          },
+          {
+            type: 'FactSet',
+            facts: [
+              { title: 'Case', value: order.caseId },
+              ...(order.sheet ? [{ title: 'Sheet', value: order.sheet }] : []),
+              { title: 'Line items', value: String(order.lineCount) },
+              { title: 'Status', value: statusLabels[order.status] },
+              ...(order.zohoOrderNumber ? [{ title: 'Zoho SO', value: order.zohoOrderNumber }] : []),
+              ...(order.error ? [{ title: 'Error', value: order.error }] : []),
+            ],
+          },
+        ],
+      })),
+    ],
+  };
+}
+
 /**
  * Reminder card - shown when user hasn't responded after initial wait period
  */
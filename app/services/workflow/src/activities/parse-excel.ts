@@ -9,6 +9,17 @@
  * - Protected worksheets
  * - Empty or invalid files
  * - Multiple viable sheets (ambiguous)
+ *
+ * PDF purchase orders are routed to parsePdf (text layer, with OCR for
+ * scanned pages when configured) and always yield a single order.
+ *
+ * When the customer's layout matches a remembered column template (saved from
+ * earlier corrections), the file is re-parsed with those mappings and
+ * templateId is returned so the workflow can skip the committee.
+ *
+ * In multi-order mode (MULTI_ORDER_MODE) a workbook holding several orders is
+ * split: the parent run gets a summary of every order, and each child run
+ * (orderIndex set) re-parses the parent's file and receives its own order.
  */
 
 import { log } from '@temporalio/activity';
@@ -18,21 +29,31 @@ import { createHash } from 'crypto';
 
 // Import parser service
 import {
-  parseExcelBuffer,
+  parseExcelMultiOrderBuffer,
+  parsePdf,
+  isPdfBuffer,
   CanonicalSalesOrder,
   Issue,
+  MultiOrderParseResult,
+  ParserOptions,
 } from '@order-processing/parser';
 
 // Import evidence pack builder and types from committee
 import { buildEvidencePack } from '@order-processing/committee';
 import type { EvidencePack, ColumnData } from '@order-processing/committee';
 
+import { getFeatureFlags, getOcrEngine } from '../config';
+import { getTemplatesRepository, toColumnTemplate } from '../repositories/index.js';
+import type { ChildOrderSummary } from '../workflows/types.js';
+
 // Input/Output interfaces
 export interface ParseExcelInput {
   caseId: string;
   blobUrl?: string; // Full blob URL (optional - can construct from caseId)
   filename?: string; // Original filename
   tenantId?: string;
+  parentCaseId?: string; // Child orders: case whose upload holds this order
+  orderIndex?: number; // Child orders: which split order to return
 }
 
 export interface ParseIssue {
@@ -51,6 +72,8 @@ export interface ParseExcelOutput {
   canonicalData?: CanonicalSalesOrder;
   evidencePack?: EvidencePack;
   issues: ParseIssue[];
+  splitOrders?: ChildOrderSummary[];
+  templateId?: string; // Column template applied instead of inferred mappings
   metadata?: {
     rowCount: number;
     columnCount: number;
@@ -67,9 +90,9 @@ export interface ParseExcelOutput {
  * @returns Parse result with canonical data or blocking information
  */
 export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutput> {
-  const { caseId, blobUrl, filename, tenantId } = input;
+  const { caseId, blobUrl, filename, tenantId, parentCaseId, orderIndex } = input;
 
-  log.info('Starting Excel parsing', { caseId, blobUrl, filename });
+  log.info('Starting Excel parsing', { caseId, blobUrl, filename, parentCaseId, orderIndex });
 
   try {
     // Get blob storage configuration
@@ -95,9 +118,15 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
       containerName = pathParts[0];
       blobPath = pathParts.slice(1).join('/');
     } else {
-      // Construct from caseId using convention
+      // Construct from caseId using convention (child orders share the parent's file).
+      // The extension follows the upload (.xlsx, .ods, .csv, .tsv).
       containerName = process.env.AZURE_STORAGE_CONTAINER_INCOMING || 'orders-incoming';
-      blobPath = `${caseId}/original.xlsx`;
+      const prefix = `${parentCaseId ?? caseId}/original.`;
+      blobPath = `${prefix}xlsx`;
+      for await (const blob of blobServiceClient.getContainerClient(containerName).listBlobsFlat({ prefix })) {
+        blobPath = blob.name;
+        break;
+      }
     }
 
     log.info('Downloading blob', { caseId, containerName, blobPath });
@@ -116,7 +145,7 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
         issues: [{
           code: 'FILE_NOT_FOUND',
           severity: 'blocker',
-          message: `Excel file not found at ${blobPath}`,
+          message: `Order file not found at ${blobPath}`,
           suggestedAction: 'Please upload the file again',
         }],
       };
@@ -143,16 +172,51 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
       sha256: fileSha256.substring(0, 16) + '...',
     });
 
-    // Parse using the parser service
-    const parserResult = await parseExcelBuffer(buffer, {
-      caseId,
-      filename: filename || 'original.xlsx',
+    // Parse using the parser service. Child orders are parsed under the
+    // parent case ID so the split (and child case IDs) is reproduced exactly.
+    const { multiOrderMode } = getFeatureFlags();
+    const parserOptions = {
+      caseId: parentCaseId ?? caseId,
+      filename: filename || blobPath.split('/').pop() || 'original.xlsx',
       fileSha256,
       tenantId,
       config: {
-        formulaPolicy: 'strict', // Block formulas by default
+        formulaPolicy: 'strict' as const, // Block formulas by default
+        multiOrderMode,
       },
-    });
+    };
+
+    let multiOrderResult = await parseBuffer(buffer, parserOptions);
+    let orders = multiOrderResult.orders;
+
+    if (orderIndex !== undefined && !orders[orderIndex]) {
+      throw new Error(`Order ${orderIndex} not found in ${parentCaseId ?? caseId} (${orders.length} order(s))`);
+    }
+
+    let parserResult = orders[orderIndex ?? 0];
+
+    // Re-parse with the customer's remembered mappings (not for the parent of a split)
+    let templateId: string | undefined;
+    if (tenantId && (orderIndex !== undefined || orders.length === 1)) {
+      const template = await findColumnTemplate(tenantId, parserResult);
+      if (template) {
+        multiOrderResult = await parseBuffer(buffer, { ...parserOptions, columnTemplate: toColumnTemplate(template) });
+        orders = multiOrderResult.orders;
+        parserResult = orders[orderIndex ?? 0] ?? parserResult;
+        templateId = parserResult.schema_inference?.template_id;
+
+        if (templateId) {
+          log.info('Applied column template', { caseId, templateId, customerName: template.customerName });
+          await getTemplatesRepository().recordUse(tenantId, templateId).catch(error => {
+            log.warn('Failed to record template use', {
+              caseId,
+              templateId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        }
+      }
+    }
 
     // Convert parser issues to activity issues
     const issues = convertIssues(parserResult.issues);
@@ -194,8 +258,21 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
       caseId,
       ...metadata,
       confidence: parserResult.confidence.overall,
+      orderCount: orders.length,
     });
 
+    // Parent run of a multi-order workbook: report the split, children do the rest
+    if (orderIndex === undefined && orders.length > 1) {
+      return {
+        success: true,
+        blocked: false,
+        containsFormulas: parserResult.meta.parsing?.contains_formulas ?? false,
+        issues,
+        metadata,
+        splitOrders: orders.map(summarizeSplitOrder),
+      };
+    }
+
     return {
       success: true,
       blocked: false,
@@ -204,6 +281,7 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
       evidencePack,
       issues,
       metadata,
+      templateId,
     };
   } catch (error) {
     log.error('Failed to parse Excel', {
@@ -218,13 +296,59 @@ export async function parseExcel(input: ParseExcelInput): Promise<ParseExcelOutp
       issues: [{
         code: 'PARSE_ERROR',
         severity: 'blocker',
-        message: `Failed to parse Excel file: ${error instanceof Error ? error.message : String(error)}`,
-        suggestedAction: 'Please ensure the file is a valid Excel file (.xlsx)',
+        message: `Failed to parse file: ${error instanceof Error ? error.message : String(error)}`,
+        suggestedAction: 'Please ensure the file is a valid spreadsheet (.xlsx, .ods, .csv or .tsv) or PDF',
       }],
     };
   }
 }
 
+/**
+ * Parse a downloaded file (PDF or spreadsheet) into one or more orders
+ */
+async function parseBuffer(buffer: Buffer, options: ParserOptions): Promise<MultiOrderParseResult> {
+  if (isPdfBuffer(buffer)) {
+    const order = await parsePdf(buffer, { ...options, ocrEngine: getOcrEngine() });
+    return { parent_case_id: options.caseId, orders: [order] };
+  }
+  return parseExcelMultiOrderBuffer(buffer, options);
+}
+
+/**
+ * Look up the column template for the order's customer and header layout.
+ * Lookup failures fall back to normal schema inference.
+ */
+async function findColumnTemplate(tenantId: string, order: CanonicalSalesOrder) {
+  const fingerprint = order.schema_inference?.header_fingerprint;
+  if (!fingerprint) {
+    return null;
+  }
+
+  try {
+    return await getTemplatesRepository().findTemplate(tenantId, order.customer.input_name, fingerprint);
+  } catch (error) {
+    log.warn('Column template lookup failed', {
+      caseId: order.meta.case_id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Summarize one split order for the parent workflow
+ */
+function summarizeSplitOrder(order: CanonicalSalesOrder, index: number): ChildOrderSummary {
+  return {
+    caseId: order.meta.case_id,
+    orderIndex: order.meta.split?.order_index ?? index,
+    sheet: order.meta.split?.sheet,
+    customerName: order.customer.input_name,
+    lineCount: order.line_items.length,
+    status: 'processing',
+  };
+}
+
 /**
  * Convert parser issues to activity issues
  */
@@ -248,7 +372,7 @@ function determineBlockReason(
     if (issue.code === 'FORMULAS_BLOCKED') return 'formulas';
     if (issue.code === 'PROTECTED_WORKBOOK' || issue.code === 'PROTECTED_SHEET') return 'protected';
     if (issue.code === 'MULTIPLE_SHEET_CANDIDATES') return 'multi_sheet';
-    if (issue.code === 'NO_SUITABLE_SHEET' || issue.code === 'EMPTY_FILE') return 'empty';
+    if (issue.code === 'NO_SUITABLE_SHEET' || issue.code === 'EMPTY_FILE' || issue.code === 'PDF_NO_TEXT') return 'empty';
     if (issue.code === 'NO_HEADER_ROW') return 'no_header';
   }
   return 'parse_error';
@@ -288,6 +412,9 @@ function buildEvidencePackFromCanonical(
           case 'quantity':
             value = item.quantity;
             break;
+          case 'unit':
+            value = item.unit;
+            break;
           case 'unit_price':
             value = item.unit_price_source;
             break;
@@ -0,0 +1,148 @@
+/**
+ * Record Committee Feedback Activity (Temporal)
+ *
+ * After the user corrected a committee mapping, the corrected column mappings
+ * are the ground truth for that sheet. This activity scores each provider's
+ * votes of the committee run against them so provider weights can be
+ * recalibrated from production traffic (see ProviderFeedbackTracker in
+ * @order-processing/committee).
+ *
+ * Provider votes and the evidence pack are read from the committee-outputs
+ * container where the committee engine stored them. Feedback is best effort:
+ * failures are logged and never fail the workflow.
+ */
+
+import { log } from '@temporalio/activity';
+import { BlobServiceClient } from '@azure/storage-blob';
+import { BlobCalibrationStore, ProviderFeedbackTracker } from '@order-processing/committee';
+import type { EvidencePack, ProviderOutput } from '@order-processing/committee';
+import { getCasesRepository, getEventsRepository } from '../repositories/index.js';
+
+/**
+ * Input for RecordCommitteeFeedback activity
+ */
+export interface RecordCommitteeFeedbackInput {
+  caseId: string;
+  tenantId: string;
+  /** Committee run whose votes are scored */
+  committeeTaskId: string;
+  correlationId?: string;
+}
+
+/**
+ * Output from RecordCommitteeFeedback activity
+ */
+export interface RecordCommitteeFeedbackOutput {
+  success: boolean;
+  scoredProviders: string[];
+  /** Weight proposal created by this feedback (awaits approval) */
+  proposalId?: string;
+  error?: string;
+}
+
+const COMMITTEE_CONTAINER = 'committee-outputs';
+
+// Singleton tracker so workers share one blob store client
+let cachedTracker: ProviderFeedbackTracker | null = null;
+let cachedBlobClient: BlobServiceClient | null = null;
+
+function getBlobClient(): BlobServiceClient {
+  if (!cachedBlobClient) {
+    const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+    if (!connectionString) {
+      throw new Error('AZURE_STORAGE_CONNECTION_STRING not configured');
+    }
+    cachedBlobClient = BlobServiceClient.fromConnectionString(connectionString);
+  }
+  return cachedBlobClient;
+}
+
+function getFeedbackTracker(): ProviderFeedbackTracker {
+  if (!cachedTracker) {
+    cachedTracker = new ProviderFeedbackTracker({
+      store: new BlobCalibrationStore(getBlobClient()),
+      proposalInterval: Number(process.env.COMMITTEE_WEIGHT_PROPOSAL_INTERVAL || 50),
+    });
+  }
+  return cachedTracker;
+}
+
+/**
+ * Scores committee provider votes against the user-confirmed mapping
+ *
+ * @param input - The case and the committee run to score
+ * @returns Providers scored and any weight proposal created
+ */
+export async function recordCommitteeFeedback(
+  input: RecordCommitteeFeedbackInput
+): Promise<RecordCommitteeFeedbackOutput> {
+  const { caseId, tenantId, committeeTaskId, correlationId } = input;
+
+  log.info('Recording committee feedback', { caseId, committeeTaskId, correlationId });
+
+  try {
+    const caseData = await getCasesRepository().getCase(caseId, tenantId);
+    const columnMappings = (caseData?.canonicalData as {
+      schema_inference?: { column_mappings?: Array<{ canonical_field: string; source_header: string }> };
+    } | undefined)?.schema_inference?.column_mappings;
+
+    if (!columnMappings || columnMappings.length === 0) {
+      return { success: true, scoredProviders: [] };
+    }
+
+    const container = getBlobClient().getContainerClient(COMMITTEE_CONTAINER);
+    const [providerOutputs, evidencePack] = await Promise.all([
+      downloadJson<ProviderOutput[]>(container.getBlobClient(`${committeeTaskId}/raw-outputs.json`)),
+      downloadJson<EvidencePack>(container.getBlobClient(`${committeeTaskId}/evidence-pack.json`)),
+    ]);
+
+    // Committee column IDs are positions in the evidence pack's header list
+    const confirmedMappings: Record<string, string | null> = {};
+    for (const mapping of columnMappings) {
+      const index = evidencePack.candidateHeaders.indexOf(mapping.source_header);
+      confirmedMappings[mapping.canonical_field] = index >= 0 ? String(index) : null;
+    }
+
+    const result = await getFeedbackTracker().recordFeedback({
+      caseId,
+      language: evidencePack.detectedLanguage,
+      providerOutputs,
+      confirmedMappings,
+    });
+
+    log.info('Committee feedback recorded', {
+      caseId,
+      committeeTaskId,
+      scoredProviders: result.scoredProviders,
+      proposalId: result.proposal?.id,
+    });
+
+    if (result.proposal) {
+      await getEventsRepository().appendEvent({
+        caseId,
+        type: 'committee_weights_proposed',
+        correlationId,
+        metadata: {
+          proposalId: result.proposal.id,
+          casesRecorded: result.proposal.casesRecorded,
+          proposedWeights: result.proposal.proposedWeights,
+        },
+      });
+    }
+
+    return {
+      success: true,
+      scoredProviders: result.scoredProviders,
+      proposalId: result.proposal?.id,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.warn('Failed to record committee feedback', { caseId, committeeTaskId, error: errorMessage });
+    return { success: false, scoredProviders: [], error: errorMessage };
+  }
+}
+
+async function downloadJson<T>(blobClient: { downloadToBuffer(): Promise<Buffer> }): Promise<T> {
+  const buffer = await blobClient.downloadToBuffer();
+  return JSON.parse(buffer.toString('utf-8')) as T;
+}
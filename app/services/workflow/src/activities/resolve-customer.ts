@@ -133,6 +133,8 @@ export interface CaseData {
       input_name: string | null;
     };
   };
+  // Customer of the Teams channel the file was uploaded in
+  defaultCustomer?: string;
 }
 
 // Dependencies - will be injected via activity context
@@ -212,9 +214,10 @@ export async function resolveCustomer(input: ResolveCustomerInput): Promise<Reso
         };
       }
 
-      // Try workflow types format first, then parser format
+      // Try workflow types format first, then parser format, then the channel's customer
       customerName = caseData.canonicalData?.customerInfo?.name
         || caseData.parsedData?.customer?.input_name
+        || caseData.defaultCustomer
         || null;
     }
 
@@ -3,6 +3,7 @@
  *
  * Resolves line items from the spreadsheet against Zoho Books items catalog.
  * Multi-stage matching strategy:
+ * 0. Learned alias for the customer (from earlier item selections)
  * 1. Primary: Exact SKU match
  * 2. Fallback: GTIN (custom field) lookup
  * 3. Tertiary: Fuzzy name match (if enabled)
@@ -13,8 +14,14 @@
 
 import { log } from '@temporalio/activity';
 
-// Import repository for case lookup
-import { getCasesRepository } from '../repositories/index.js';
+// Import repositories for case lookup, learned aliases and audit events
+import {
+  getCasesRepository,
+  getEventsRepository,
+  getItemAliasesRepository,
+  ItemAliasDocument,
+  ItemAliasesRepository,
+} from '../repositories/index.js';
 import { getFeatureFlags } from '../config';
 
 // Import types from parser service
@@ -30,6 +37,7 @@ import type { CanonicalSalesOrder, LineItem as ParserLineItem } from '@order-pro
 export interface ResolveItemsInput {
   caseId: string;
   tenantId?: string; // Optional - will use cross-partition query if not provided
+  zohoCustomerId?: string; // Resolved customer - enables learned item aliases
 }
 
 /**
@@ -47,7 +55,7 @@ export interface ResolvedItem {
   /** Unit rate/price from Zoho */
   rate: number;
   /** How the item was matched */
-  matchMethod: 'sku' | 'gtin' | 'name';
+  matchMethod: 'sku' | 'gtin' | 'name' | 'alias';
   /** Confidence score (1.0 = exact match) */
   confidence: number;
 }
@@ -98,6 +106,19 @@ export interface CachedItem {
   last_cached_at: string;
 }
 
+/**
+ * Learned alias as consumed by Zoho's ItemMatcher
+ * Defined locally to avoid direct dependency on @order-processing/zoho
+ */
+export interface ItemAlias {
+  alias_id: string;
+  source_kind: 'sku' | 'gtin' | 'description';
+  zoho_item_id: string;
+  confidence: number;
+  last_confirmed_at: string;
+  revoked?: boolean;
+}
+
 /**
  * Item match result from Zoho's ItemMatcher
  * Defined locally to avoid direct dependency on @order-processing/zoho
@@ -109,8 +130,9 @@ export interface ItemMatchResult {
     name: string;
     rate: number;
   };
-  method?: 'sku' | 'gtin' | 'name_fuzzy' | 'user_selected';
+  method?: 'sku' | 'gtin' | 'name_fuzzy' | 'user_selected' | 'alias';
   confidence: number;
+  alias_id?: string;
   candidates: Array<{
     zoho_item_id: string;
     sku: string | null;
@@ -146,7 +168,8 @@ export interface IItemMatcher {
     sku: string | null,
     gtin: string | null,
     name: string | null,
-    items: CachedItem[]
+    items: CachedItem[],
+    context?: { aliases?: ItemAlias[] }
   ): Promise<ItemMatchResult>;
 }
 
@@ -227,6 +250,7 @@ export function isResolveItemsInitialized(): boolean {
  *
  * This activity fetches the case's canonical data (parsed line items),
  * then attempts to match each line item against Zoho's item catalog using:
+ * 0. The customer's learned aliases (when zohoCustomerId is known)
  * 1. SKU exact match
  * 2. GTIN (barcode) lookup
  * 3. Fuzzy name search (if enabled in matcher)
@@ -235,7 +259,7 @@ export function isResolveItemsInitialized(): boolean {
  * @returns Resolution result with resolved items or candidates for selection
  */
 export async function resolveItems(input: ResolveItemsInput): Promise<ResolveItemsOutput> {
-  const { caseId, tenantId } = input;
+  const { caseId, tenantId, zohoCustomerId } = input;
   const flags = getFeatureFlags();
 
   log.info('Starting item resolution', {
@@ -333,21 +357,32 @@ export async function resolveItems(input: ResolveItemsInput): Promise<ResolveIte
     const resolvedItems: ResolvedItem[] = [];
     const unresolvedLines: number[] = [];
     const candidates: Record<number, ItemCandidate[]> = {};
+    const aliasesUsed: Array<{ row: number; aliasId: string; zohoItemId: string }> = [];
+    const aliasesRepo = zohoCustomerId ? getAliasesRepositoryOrNull(caseId) : null;
 
     // Process each line item using the ItemMatcher
     for (const item of lineItems) {
       const rowNum = item.row;
 
       try {
+        const aliases = aliasesRepo
+          ? await findLineAliases(aliasesRepo, tenantId, zohoCustomerId!, item, caseId)
+          : [];
+
         const matchResult = await itemMatcher.matchItem(
           item.sku || null,
           item.gtin || null,
           item.product_name || null,
-          items
+          items,
+          { aliases }
         );
 
         const result = mapMatchResultToResolution(matchResult, item, rowNum);
 
+        if (result.resolved && matchResult.method === 'alias' && matchResult.alias_id) {
+          aliasesUsed.push({ row: rowNum, aliasId: matchResult.alias_id, zohoItemId: result.resolvedItem!.zohoItemId });
+        }
+
         if (result.resolved) {
           resolvedItems.push(result.resolvedItem!);
           log.info('Item resolved', {
@@ -383,6 +418,10 @@ export async function resolveItems(input: ResolveItemsInput): Promise<ResolveIte
       }
     }
 
+    if (aliasesRepo && aliasesUsed.length > 0) {
+      await recordAliasUse(aliasesRepo, tenantId, caseId, aliasesUsed);
+    }
+
     const allResolved = unresolvedLines.length === 0;
     const needsHuman = unresolvedLines.length > 0;
 
@@ -460,6 +499,91 @@ function extractLineItems(canonicalData: unknown): ParserLineItem[] | null {
   return null;
 }
 
+/**
+ * Get the item aliases repository, or null when Cosmos is not available
+ */
+function getAliasesRepositoryOrNull(caseId: string): ItemAliasesRepository | null {
+  try {
+    return getItemAliasesRepository();
+  } catch (repoError) {
+    log.warn('Item aliases repository not available, matching without aliases', {
+      caseId,
+      error: repoError instanceof Error ? repoError.message : String(repoError),
+    });
+    return null;
+  }
+}
+
+/**
+ * Look up the customer's learned aliases for a line (lookup failures
+ * fall back to catalog matching)
+ */
+async function findLineAliases(
+  aliasesRepo: ItemAliasesRepository,
+  tenantId: string,
+  zohoCustomerId: string,
+  item: ParserLineItem,
+  caseId: string
+): Promise<ItemAlias[]> {
+  try {
+    const docs = await aliasesRepo.findAliases(tenantId, zohoCustomerId, {
+      sku: item.sku,
+      gtin: item.gtin,
+      productName: item.product_name,
+    });
+    return docs.map(toItemAlias);
+  } catch (error) {
+    log.warn('Item alias lookup failed', {
+      caseId,
+      row: item.row,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Convert a stored alias to the ItemMatcher format
+ */
+function toItemAlias(doc: ItemAliasDocument): ItemAlias {
+  return {
+    alias_id: doc.id,
+    source_kind: doc.sourceKind,
+    zoho_item_id: doc.zohoItemId,
+    confidence: doc.confidence,
+    last_confirmed_at: doc.lastConfirmedAt,
+    revoked: doc.revoked,
+  };
+}
+
+/**
+ * Record alias usage statistics and an audit event
+ */
+async function recordAliasUse(
+  aliasesRepo: ItemAliasesRepository,
+  tenantId: string,
+  caseId: string,
+  aliasesUsed: Array<{ row: number; aliasId: string; zohoItemId: string }>
+): Promise<void> {
+  try {
+    for (const { aliasId } of aliasesUsed) {
+      await aliasesRepo.recordUse(tenantId, aliasId);
+    }
+
+    await getEventsRepository().appendEvent({
+      caseId,
+      type: 'item_alias_used',
+      metadata: { aliases: aliasesUsed },
+    });
+  } catch (error) {
+    // Log but don't fail - usage tracking is secondary to the resolution itself
+    log.warn('Failed to record item alias use', {
+      caseId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Result of attempting to resolve a single line item
  */
@@ -518,12 +642,14 @@ function mapMatchResultToResolution(
 /**
  * Map ItemMatcher method to our matchMethod format
  */
-function mapMethod(method: ItemMatchResult['method']): 'sku' | 'gtin' | 'name' {
+function mapMethod(method: ItemMatchResult['method']): ResolvedItem['matchMethod'] {
   switch (method) {
     case 'sku':
       return 'sku';
     case 'gtin':
       return 'gtin';
+    case 'alias':
+      return 'alias';
     case 'name_fuzzy':
     case 'user_selected':
     default:
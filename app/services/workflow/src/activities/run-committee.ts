@@ -4,6 +4,12 @@
  * Runs the 3-model AI committee for bounded mapping cross-check.
  * Uses multiple AI providers (GPT, Claude, DeepSeek, etc.) to validate
  * column-to-field mappings and detects disagreements requiring human intervention.
+ *
+ * Decisions are cached by evidence-pack fingerprint; repeat layouts are
+ * answered without provider calls and the saving is reported in the output.
+ *
+ * Token usage and cost of each run are added to the case (committeeUsage) and
+ * charged to the tenant's daily committee budget.
  */
 
 import { log } from '@temporalio/activity';
@@ -19,12 +25,16 @@ import type {
   EvidencePack,
   SchemaMappingTask,
   CommitteeResult,
+  CommitteeUsage,
   ConsensusType,
 } from '@order-processing/committee';
+import { getCasesRepository } from '../repositories/index.js';
 
 // Input/Output interfaces
 export interface RunCommitteeInput {
   caseId: string;
+  /** Charged for the run; usage is not recorded on the case without it */
+  tenantId?: string;
   evidencePack: EvidencePack;
   expectedFields?: string[];
   correlationId?: string;
@@ -42,6 +52,18 @@ export interface CommitteeDisagreement {
   reason: string;
 }
 
+/**
+ * Provider calls avoided by a committee cache hit
+ */
+export interface CommitteeCostSaved {
+  providerCalls: number;
+  executionTimeMs: number;
+  /** Spend of the committee run whose decision was reused */
+  costUsd?: number;
+  /** Committee run whose decision was reused */
+  sourceTaskId?: string;
+}
+
 export interface RunCommitteeOutput {
   success: boolean;
   needsHuman: boolean;
@@ -52,6 +74,9 @@ export interface RunCommitteeOutput {
   executionTimeMs?: number;
   selectedProviders?: string[];
   taskId?: string;
+  cacheHit?: boolean;
+  costSaved?: CommitteeCostSaved;
+  usage?: CommitteeUsage;
 }
 
 // Default canonical fields for sales order mapping
@@ -60,6 +85,7 @@ const DEFAULT_EXPECTED_FIELDS = [
   'gtin',
   'product_name',
   'quantity',
+  'unit',
   'unit_price',
   'line_total',
   'customer_name',
@@ -70,9 +96,9 @@ let cachedFactory: ProviderFactory | null = null;
 let cachedEngine: CommitteeEngine | null = null;
 
 /**
- * Get or create the committee engine
+ * Get or create the committee engine (shared with the extraction review)
  */
-function getCommitteeEngine(): CommitteeEngine {
+export function getCommitteeEngine(): CommitteeEngine {
   if (cachedEngine) {
     return cachedEngine;
   }
@@ -98,6 +124,13 @@ function getCommitteeEngine(): CommitteeEngine {
   return cachedEngine;
 }
 
+/**
+ * Number of enabled committee providers (0 before the engine is created)
+ */
+export function getCommitteeProviderCount(): number {
+  return cachedFactory?.getProviderCount() ?? 0;
+}
+
 /**
  * Runs the AI committee mapping validation for a case
  *
@@ -109,7 +142,7 @@ function getCommitteeEngine(): CommitteeEngine {
  * @returns Committee consensus result and any disagreements
  */
 export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitteeOutput> {
-  const { caseId, evidencePack, expectedFields, correlationId } = input;
+  const { caseId, tenantId, evidencePack, expectedFields, correlationId } = input;
 
   log.info('Running AI committee validation', {
     caseId,
@@ -148,6 +181,7 @@ export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitt
       evidencePack,
       expectedFields: expectedFields ?? DEFAULT_EXPECTED_FIELDS,
       candidateColumns: {}, // Engine will derive from evidence pack
+      tenantId,
     };
 
     // Run the committee
@@ -172,6 +206,20 @@ export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitt
       }
     }
 
+    const cache = result.auditTrail.cache;
+    const costSaved: CommitteeCostSaved | undefined = cache?.hit
+      ? {
+          providerCalls: cache.providerCallsSaved ?? 0,
+          executionTimeMs: cache.executionTimeMsSaved ?? 0,
+          costUsd: cache.costUsdSaved,
+          sourceTaskId: cache.sourceTaskId,
+        }
+      : undefined;
+
+    if (tenantId && result.usage && result.usage.providerCalls > 0) {
+      await recordCaseUsage(caseId, tenantId, result.usage);
+    }
+
     // Convert disagreements
     const disagreements: CommitteeDisagreement[] = result.aggregatedResult.disagreements.map(d => ({
       field: d.field,
@@ -188,6 +236,9 @@ export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitt
       disagreementCount: disagreements.length,
       executionTimeMs: result.executionTimeMs,
       selectedProviders: result.selectedProviders,
+      cacheHit: cache?.hit ?? false,
+      costSaved,
+      costUsd: result.usage?.costUsd,
     });
 
     return {
@@ -200,6 +251,9 @@ export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitt
       executionTimeMs: result.executionTimeMs,
       selectedProviders: result.selectedProviders,
       taskId: result.taskId,
+      cacheHit: cache?.hit ?? false,
+      costSaved,
+      usage: result.usage,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -225,3 +279,17 @@ export async function runCommittee(input: RunCommitteeInput): Promise<RunCommitt
     };
   }
 }
+
+/**
+ * Add the run's usage to the case totals (best effort - never fails the run)
+ */
+export async function recordCaseUsage(caseId: string, tenantId: string, usage: CommitteeUsage): Promise<void> {
+  try {
+    await getCasesRepository().addCommitteeUsage(caseId, tenantId, usage);
+  } catch (error) {
+    log.warn('Failed to record committee usage on case', {
+      caseId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
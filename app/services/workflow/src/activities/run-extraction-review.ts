@@ -0,0 +1,300 @@
+/**
+ * Run Extraction Review Activity (Temporal)
+ *
+ * Second committee pass after parsing: the providers read the extracted
+ * quantities, SKUs and customer name back from their evidence cells. Values
+ * the committee does not confirm become field-level issues (keyed by the
+ * value's JSON path) that the user resolves in the corrections card.
+ *
+ * Enabled per tenant (EXTRACTION_REVIEW_TENANTS). Provider prompts and
+ * outputs are stored in the case's audit bundle under
+ * committee/extraction-review/{providerId}.
+ */
+
+import { log } from '@temporalio/activity';
+import {
+  findExtractionDisagreements,
+  getExtractionReviewSystemPrompt,
+} from '@order-processing/committee';
+import type {
+  CommitteeResult,
+  CommitteeUsage,
+  EvidencePack,
+  ExtractedValueEvidence,
+  ExtractionDisagreement,
+  ExtractionReviewTask,
+  SupportedLanguage,
+} from '@order-processing/committee';
+import type { CanonicalSalesOrder, EvidenceCell } from '@order-processing/parser';
+import { AuditBundleService } from '@order-processing/storage';
+import { isExtractionReviewEnabled } from '../config/index.js';
+import { getCasesRepository } from '../repositories/index.js';
+import { getCommitteeEngine, getCommitteeProviderCount, recordCaseUsage } from './run-committee.js';
+import type { IssueItem } from './notify-user.js';
+
+// Input/Output interfaces
+export interface RunExtractionReviewInput {
+  caseId: string;
+  tenantId: string;
+  correlationId?: string;
+}
+
+export interface RunExtractionReviewOutput {
+  success: boolean;
+  /** Not enabled for the tenant, or nothing with evidence to review */
+  skipped?: boolean;
+  needsHuman: boolean;
+  /** One issue per unconfirmed value; fields[0] is the value's JSON path */
+  issues: IssueItem[];
+  disagreements?: ExtractionDisagreement[];
+  reviewedCount?: number;
+  taskId?: string;
+  selectedProviders?: string[];
+  usage?: CommitteeUsage;
+  error?: string;
+}
+
+/**
+ * Most line items sent for review; keeps the prompt bounded on large orders
+ */
+const MAX_REVIEWED_LINES = 50;
+
+/**
+ * Line item fields reviewed, with their label on the corrections card
+ */
+const REVIEWED_LINE_FIELDS = {
+  quantity: 'quantity',
+  sku: 'SKU',
+} as const;
+
+const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['en', 'fa', 'ar', 'mixed'];
+
+/**
+ * Runs the committee extraction review for a case
+ *
+ * Never throws on committee failure - the review is a second opinion, so a
+ * failed run is reported with success=false and the workflow continues.
+ *
+ * @param input - The input containing caseId and tenantId
+ * @returns Field-level issues for values the committee did not confirm
+ */
+export async function runExtractionReview(input: RunExtractionReviewInput): Promise<RunExtractionReviewOutput> {
+  const { caseId, tenantId, correlationId } = input;
+
+  if (!isExtractionReviewEnabled(tenantId)) {
+    log.info('Extraction review not enabled for tenant', { caseId, tenantId });
+    return { success: true, skipped: true, needsHuman: false, issues: [] };
+  }
+
+  try {
+    const caseData = await getCasesRepository().getCase(caseId, tenantId);
+    const canonicalData = caseData?.canonicalData as unknown as CanonicalSalesOrder | undefined;
+
+    // Evidence cells are only kept in the parser format (line_items)
+    const order = canonicalData && 'line_items' in canonicalData ? canonicalData : undefined;
+    const extractedValues = order ? collectExtractedValues(order) : [];
+    if (!order || extractedValues.length === 0) {
+      log.info('No extracted values with evidence to review', { caseId });
+      return { success: true, skipped: true, needsHuman: false, issues: [] };
+    }
+
+    log.info('Running committee extraction review', {
+      caseId,
+      valueCount: extractedValues.length,
+      correlationId,
+    });
+
+    const engine = getCommitteeEngine();
+
+    if (getCommitteeProviderCount() < 2) {
+      log.warn('Insufficient AI providers available - skipping extraction review', {
+        caseId,
+        enabledProviders: getCommitteeProviderCount(),
+      });
+      return { success: false, needsHuman: false, issues: [], error: 'Insufficient AI providers configured' };
+    }
+
+    const evidencePack: EvidencePack = {
+      caseId,
+      candidateHeaders: [],
+      sampleValues: {},
+      columnStats: [],
+      detectedLanguage: toSupportedLanguage(order.meta.language_hint),
+      constraints: [
+        'Read values from the provided evidence cells only',
+        'Cannot invent values',
+      ],
+      timestamp: new Date().toISOString(),
+      extractedValues,
+    };
+
+    const task: ExtractionReviewTask = {
+      type: 'extraction-review',
+      evidencePack,
+      expectedFields: extractedValues.map((v) => v.key),
+      tenantId,
+    };
+
+    const result = await engine.runCommittee(task);
+
+    if (result.usage && result.usage.providerCalls > 0) {
+      await recordCaseUsage(caseId, tenantId, result.usage);
+    }
+
+    await storeReviewArtifacts(caseId, tenantId, correlationId, evidencePack, result);
+
+    const disagreements = findExtractionDisagreements(extractedValues, result.aggregatedResult);
+    const issues = disagreements.map(toIssue);
+
+    log.info('Extraction review complete', {
+      caseId,
+      taskId: result.taskId,
+      reviewedCount: extractedValues.length,
+      disagreementCount: disagreements.length,
+      selectedProviders: result.selectedProviders,
+      costUsd: result.usage?.costUsd,
+    });
+
+    return {
+      success: true,
+      needsHuman: issues.length > 0,
+      issues,
+      disagreements: disagreements.length > 0 ? disagreements : undefined,
+      reviewedCount: extractedValues.length,
+      taskId: result.taskId,
+      selectedProviders: result.selectedProviders,
+      usage: result.usage,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    log.error('Extraction review failed', {
+      caseId,
+      error: errorMessage,
+      correlationId,
+    });
+
+    return { success: false, needsHuman: false, issues: [], error: errorMessage };
+  }
+}
+
+/**
+ * Values to review, each with the cell it was read from
+ *
+ * Values without an evidence cell can't be checked and are left out.
+ */
+function collectExtractedValues(order: CanonicalSalesOrder): ExtractedValueEvidence[] {
+  const values: ExtractedValueEvidence[] = [];
+
+  const customerCell = order.customer.evidence?.[0];
+  if (order.customer.input_name && customerCell) {
+    values.push(toEvidence('/customer/input_name', 'customer_name', order.customer.input_name, customerCell));
+  }
+
+  order.line_items.slice(0, MAX_REVIEWED_LINES).forEach((line, index) => {
+    for (const field of Object.keys(REVIEWED_LINE_FIELDS) as Array<keyof typeof REVIEWED_LINE_FIELDS>) {
+      const cell = line.evidence[field];
+      if (cell) {
+        values.push(toEvidence(`/line_items/${index}/${field}`, field, line[field], cell));
+      }
+    }
+  });
+
+  return values;
+}
+
+function toEvidence(
+  key: string,
+  field: string,
+  extractedValue: string | number | null,
+  cell: EvidenceCell
+): ExtractedValueEvidence {
+  return {
+    key,
+    field,
+    extractedValue,
+    cell: `${cell.sheet}!${cell.cell}`,
+    rawValue: cell.raw_value ?? null,
+    ...(cell.display_value && { displayValue: cell.display_value }),
+    ...(cell.number_format && { numberFormat: cell.number_format }),
+  };
+}
+
+function toSupportedLanguage(languageHint: string | null | undefined): SupportedLanguage {
+  const language = SUPPORTED_LANGUAGES.find((l) => l === languageHint);
+  return language ?? 'unknown';
+}
+
+/**
+ * Field-level issue for the corrections card
+ */
+function toIssue(disagreement: ExtractionDisagreement): IssueItem {
+  const label = describeValue(disagreement.key);
+  const reviewed = disagreement.reviewedValue === null ? 'no value' : `"${disagreement.reviewedValue}"`;
+  const message =
+    `${label}: extracted "${disagreement.extractedValue ?? ''}", but the committee read ${reviewed}. ` +
+    disagreement.reason;
+
+  return {
+    code: 'EXTRACTION_DISAGREEMENT',
+    severity: 'error',
+    message,
+    messageEn: message,
+    fields: [disagreement.key],
+    suggestedUserAction: `Enter the correct ${label.toLowerCase()}`,
+  };
+}
+
+function describeValue(key: string): string {
+  const lineMatch = key.match(/^\/line_items\/(\d+)\/(\w+)$/);
+  if (lineMatch) {
+    const field = lineMatch[2] as keyof typeof REVIEWED_LINE_FIELDS;
+    return `Line ${Number(lineMatch[1]) + 1} ${REVIEWED_LINE_FIELDS[field] ?? field}`;
+  }
+
+  return 'Customer name';
+}
+
+/**
+ * Store each provider's prompt and output in the case's audit bundle
+ * (best effort - never fails the review)
+ */
+async function storeReviewArtifacts(
+  caseId: string,
+  tenantId: string,
+  correlationId: string | undefined,
+  evidencePack: EvidencePack,
+  result: CommitteeResult
+): Promise<void> {
+  const accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME;
+  if (!accountName) {
+    log.warn('AZURE_STORAGE_ACCOUNT_NAME not configured - extraction review artifacts not stored', { caseId });
+    return;
+  }
+
+  try {
+    const auditBundle = new AuditBundleService(`https://${accountName}.blob.core.windows.net`);
+    const bundleInput = {
+      caseId,
+      tenantId,
+      correlation: { traceId: correlationId ?? caseId, spanId: result.taskId },
+    };
+    const prompt = { systemPrompt: getExtractionReviewSystemPrompt(), evidencePack };
+    const executedAt = result.auditTrail.timestamp;
+
+    // Sequential: every write updates the same bundle.json
+    for (const providerOutput of result.providerOutputs) {
+      await auditBundle.storeCommitteeOutput(bundleInput, {
+        modelId: `extraction-review/${providerOutput.providerId}`,
+        prompt,
+        output: providerOutput,
+        executedAt,
+      });
+    }
+  } catch (error) {
+    log.warn('Failed to store extraction review artifacts', {
+      caseId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
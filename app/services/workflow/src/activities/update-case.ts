@@ -34,6 +34,9 @@ export type EventType =
   | 'item_selection_submitted'
   | 'approval_received'
   | 'zoho_draft_created'
+  | 'amendment_started'
+  | 'zoho_draft_amended'
+  | 'orders_split'
   | 'workflow_completed'
   | 'workflow_failed'
   | 'workflow_cancelled';
@@ -46,6 +49,8 @@ export interface CaseUpdates {
   zohoCustomerName?: string;
   zohoOrderId?: string;
   zohoOrderNumber?: string;
+  amendmentRevision?: number;
+  blockingIssueCodes?: string[];
   errorMessage?: string;
   metadata?: Record<string, unknown>;
 }
@@ -110,6 +115,9 @@ function mapEventType(eventType: EventType): RepoEventType {
     item_selection_submitted: 'items_selected',
     approval_received: 'approval_received',
     zoho_draft_created: 'zoho_draft_created',
+    amendment_started: 'amendment_started',
+    zoho_draft_amended: 'zoho_draft_amended',
+    orders_split: 'orders_split',
     workflow_completed: 'case_completed',
     workflow_failed: 'case_failed',
     workflow_cancelled: 'case_cancelled',
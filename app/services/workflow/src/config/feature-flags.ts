@@ -8,8 +8,22 @@
  * - 'mock': Always use mock data (for development/testing)
  * - 'real': Always use real Zoho API (fail if not configured)
  * - 'auto': Use real if configured, mock otherwise (default)
+ *
+ * MULTI_ORDER_MODE options (see @order-processing/parser MultiOrderMode):
+ * - 'off': One order per upload (default)
+ * - 'per_sheet': Each qualifying sheet becomes its own order
+ * - 'per_customer_block': Also split sheets where the customer column changes
+ *
+ * PRICE_VARIANCE_THRESHOLD_PERCENT: spreadsheet prices further than this from
+ * the customer's effective Zoho rate are flagged on the approval card (default 5)
+ *
+ * EXTRACTION_REVIEW_TENANTS: tenants whose parsed values get a second committee
+ * pass against the evidence cells - comma-separated tenant IDs, or '*' for all
+ * tenants (default: none)
  */
 
+import type { MultiOrderMode } from '@order-processing/parser';
+
 export type ZohoMode = 'mock' | 'real' | 'auto';
 
 /**
@@ -28,8 +42,19 @@ export interface FeatureFlags {
   enableAuditLogging: boolean;
   /** Enable reminder notifications */
   enableReminderNotifications: boolean;
+  /** How uploads containing several orders are split into child workflows */
+  multiOrderMode: MultiOrderMode;
+  /** Flag spreadsheet prices that differ from the Zoho rate by more than this percent */
+  priceVarianceThresholdPercent: number;
+  /** Tenants with committee extraction review enabled ('*' for all) */
+  extractionReviewTenants: TenantList;
 }
 
+/**
+ * Tenant IDs a feature is enabled for, or '*' for every tenant
+ */
+export type TenantList = '*' | string[];
+
 /**
  * Zoho configuration validation result
  */
@@ -96,6 +121,9 @@ export function getFeatureFlags(): FeatureFlags {
     useMockDraft: useMock,
     enableAuditLogging: process.env.ENABLE_AUDIT_LOGGING !== 'false',
     enableReminderNotifications: process.env.ENABLE_REMINDERS !== 'false',
+    multiOrderMode: parseMultiOrderMode(process.env.MULTI_ORDER_MODE),
+    priceVarianceThresholdPercent: parsePercent(process.env.PRICE_VARIANCE_THRESHOLD_PERCENT, 5),
+    extractionReviewTenants: parseTenantList(process.env.EXTRACTION_REVIEW_TENANTS),
   };
 
   return cachedFlags;
@@ -129,6 +157,76 @@ function parseZohoMode(value: string | undefined): ZohoMode {
   return 'auto';
 }
 
+/**
+ * Parse and validate MULTI_ORDER_MODE environment variable
+ *
+ * @param value - Raw environment variable value
+ * @returns Validated MultiOrderMode
+ */
+function parseMultiOrderMode(value: string | undefined): MultiOrderMode {
+  if (!value) {
+    return 'off';
+  }
+
+  const normalized = value.toLowerCase().trim();
+  if (normalized === 'off' || normalized === 'per_sheet' || normalized === 'per_customer_block') {
+    return normalized;
+  }
+
+  console.warn(`Invalid MULTI_ORDER_MODE value: "${value}". Using "off" instead.`);
+  return 'off';
+}
+
+/**
+ * Parse a non-negative percentage environment variable
+ *
+ * @param value - Raw environment variable value
+ * @param fallback - Value used when unset or invalid
+ * @returns Parsed percentage
+ */
+function parsePercent(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number(value.trim());
+  if (Number.isFinite(parsed) && parsed >= 0) {
+    return parsed;
+  }
+
+  console.warn(`Invalid percentage value: "${value}". Using ${fallback} instead.`);
+  return fallback;
+}
+
+/**
+ * Parse a tenant list environment variable
+ *
+ * @param value - Raw environment variable value ('*' or comma-separated IDs)
+ * @returns Tenant list (empty when unset)
+ */
+function parseTenantList(value: string | undefined): TenantList {
+  if (!value) {
+    return [];
+  }
+
+  if (value.trim() === '*') {
+    return '*';
+  }
+
+  return value.split(',').map((id) => id.trim()).filter((id) => id.length > 0);
+}
+
+/**
+ * Check if committee extraction review is enabled for a tenant
+ *
+ * @param tenantId - Tenant to check
+ * @returns true if the tenant's parsed values should be reviewed
+ */
+export function isExtractionReviewEnabled(tenantId: string): boolean {
+  const tenants = getFeatureFlags().extractionReviewTenants;
+  return tenants === '*' || tenants.includes(tenantId);
+}
+
 /**
  * Validate Zoho configuration completeness
  *
@@ -202,6 +300,13 @@ export function logFeatureFlagStatus(): void {
 
   console.log(`Audit logging: ${flags.enableAuditLogging ? 'enabled' : 'disabled'}`);
   console.log(`Reminder notifications: ${flags.enableReminderNotifications ? 'enabled' : 'disabled'}`);
+  console.log(`Multi-order mode: ${flags.multiOrderMode}`);
+  console.log(`Price variance threshold: ${flags.priceVarianceThresholdPercent}%`);
+  console.log(
+    `Extraction review tenants: ${
+      flags.extractionReviewTenants === '*' ? 'all' : flags.extractionReviewTenants.join(', ') || 'none'
+    }`
+  );
   console.log('===================================');
 }
 
@@ -5,11 +5,15 @@
 export {
   type ZohoMode,
   type FeatureFlags,
+  type TenantList,
   type ZohoConfigValidation,
   getFeatureFlags,
   resetFeatureFlags,
   validateZohoConfig,
   shouldUseRealZoho,
+  isExtractionReviewEnabled,
   logFeatureFlagStatus,
   getZohoModeDescription,
 } from './feature-flags';
+
+export { getOcrEngine, resetOcrEngine } from './ocr';
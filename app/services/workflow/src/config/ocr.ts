@@ -0,0 +1,33 @@
+/**
+ * OCR Configuration
+ *
+ * Selects the OCR engine used for scanned PDF purchase orders.
+ * Azure AI Document Intelligence is used when
+ * AZURE_DOCUMENT_INTELLIGENCE_ENDPOINT and AZURE_DOCUMENT_INTELLIGENCE_KEY
+ * are set; otherwise scanned PDFs are blocked (text-based PDFs still work).
+ */
+
+import { DocumentIntelligenceOcrEngine, type OcrEngine } from '@order-processing/parser';
+
+let cachedEngine: OcrEngine | null | undefined;
+
+/**
+ * Get the configured OCR engine, or undefined when OCR is not configured
+ */
+export function getOcrEngine(): OcrEngine | undefined {
+  if (cachedEngine === undefined) {
+    const endpoint = process.env.AZURE_DOCUMENT_INTELLIGENCE_ENDPOINT;
+    const apiKey = process.env.AZURE_DOCUMENT_INTELLIGENCE_KEY;
+
+    cachedEngine = endpoint && apiKey ? new DocumentIntelligenceOcrEngine({ endpoint, apiKey }) : null;
+  }
+
+  return cachedEngine ?? undefined;
+}
+
+/**
+ * Reset the cached OCR engine (for testing)
+ */
+export function resetOcrEngine(): void {
+  cachedEngine = undefined;
+}
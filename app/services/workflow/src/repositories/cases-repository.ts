@@ -26,13 +26,58 @@ export interface CaseDocument {
   canonicalData?: CanonicalOrderData;
   zohoOrderId?: string;
   zohoOrderNumber?: string;
+  /** Number of times the Zoho draft was amended in place */
+  amendmentRevision?: number;
+  /** User who asked in Teams to amend the completed case; cleared once the amendment starts */
+  amendmentRequestedBy?: string | null;
+  /** Codes of the pricing issues that block approval of the order shown for approval */
+  blockingIssueCodes?: string[];
+  /** AI committee spend on this case, summed over all committee runs */
+  committeeUsage?: CaseCommitteeUsage;
   language?: 'en' | 'fa';
+  /** Customer of the Teams channel the file was uploaded in, used when the file names none */
+  defaultCustomer?: string;
+  conversationType?: 'personal' | 'channel' | 'groupChat';
+  /** Teams channel or group chat the file was uploaded in */
+  channelKey?: string;
+  /** AAD group whose members may approve the order, from the channel's rules */
+  approverGroupId?: string;
+  /** For orders split from a multi-order upload: the upload's case */
+  parentCaseId?: string;
+  /** For orders split from a multi-order upload: 0-based index within the workbook */
+  orderIndex?: number;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
   error?: string;
 }
 
+/**
+ * Token usage and cost of one provider, or of all providers of a case
+ */
+export interface CommitteeUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  providerCalls: number;
+}
+
+/**
+ * Usage of one committee run (one call per provider)
+ */
+export interface CommitteeRunUsage extends CommitteeUsageTotals {
+  byProvider: Record<string, Omit<CommitteeUsageTotals, 'providerCalls'>>;
+}
+
+/**
+ * AI committee usage of a case
+ */
+export interface CaseCommitteeUsage extends CommitteeUsageTotals {
+  committeeRuns: number;
+  byProvider: Record<string, CommitteeUsageTotals>;
+  updatedAt: string;
+}
+
 /**
  * Input for creating a new case
  */
@@ -85,6 +130,64 @@ export class CasesRepository {
     return resource as CaseDocument;
   }
 
+  /**
+   * Create the case of an order split from a multi-order upload
+   *
+   * The child shares the parent's file, tenant, uploader, Teams context and
+   * channel rules. Creating a child that already exists (a retried activity)
+   * returns the existing document.
+   */
+  async createChildCase(
+    parentCaseId: string,
+    tenantId: string,
+    childCaseId: string,
+    orderIndex: number
+  ): Promise<CaseDocument> {
+    const parent = await this.getCase(parentCaseId, tenantId);
+    if (!parent) {
+      throw new Error(`Case not found: ${parentCaseId}`);
+    }
+
+    const now = new Date().toISOString();
+    const caseDoc: CaseDocument = {
+      id: childCaseId,
+      tenantId: parent.tenantId,
+      userId: parent.userId,
+      conversationId: parent.conversationId,
+      activityId: parent.activityId,
+      fileName: parent.fileName,
+      correlationId: parent.correlationId,
+      status: 'parsing',
+      blobUri: parent.blobUri,
+      fileSha256: parent.fileSha256,
+      language: parent.language,
+      defaultCustomer: parent.defaultCustomer,
+      conversationType: parent.conversationType,
+      channelKey: parent.channelKey,
+      approverGroupId: parent.approverGroupId,
+      parentCaseId,
+      orderIndex,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      const { resource } = await this.container.items.create(caseDoc);
+      if (!resource) {
+        throw new Error('Failed to create case document');
+      }
+      return resource as CaseDocument;
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code === 409) {
+        const existing = await this.getCase(childCaseId, tenantId);
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get a case by ID
    */
@@ -183,6 +286,35 @@ export class CasesRepository {
     });
   }
 
+  /**
+   * Add the usage of a committee run to the case totals
+   */
+  async addCommitteeUsage(
+    caseId: string,
+    tenantId: string,
+    usage: CommitteeRunUsage
+  ): Promise<CaseDocument> {
+    const existing = await this.getCase(caseId, tenantId);
+    if (!existing) {
+      throw new Error(`Case not found: ${caseId}`);
+    }
+
+    const current = existing.committeeUsage;
+    const byProvider = { ...current?.byProvider };
+    for (const [providerId, providerUsage] of Object.entries(usage.byProvider)) {
+      byProvider[providerId] = addTotals(byProvider[providerId], { ...providerUsage, providerCalls: 1 });
+    }
+
+    const committeeUsage: CaseCommitteeUsage = {
+      ...addTotals(current, usage),
+      committeeRuns: (current?.committeeRuns ?? 0) + 1,
+      byProvider,
+      updatedAt: new Date().toISOString(),
+    };
+
+    return this.updateCaseStatus(caseId, tenantId, existing.status, { committeeUsage });
+  }
+
   /**
    * Mark case as failed
    */
@@ -276,3 +408,13 @@ export function getCasesRepository(): CasesRepository {
   }
   return casesRepository;
 }
+
+function addTotals(current: CommitteeUsageTotals | undefined, usage: CommitteeUsageTotals): CommitteeUsageTotals {
+  return {
+    inputTokens: (current?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (current?.outputTokens ?? 0) + usage.outputTokens,
+    // Micro-dollar rounding keeps sums of many small calls readable
+    costUsd: Math.round(((current?.costUsd ?? 0) + usage.costUsd) * 1_000_000) / 1_000_000,
+    providerCalls: (current?.providerCalls ?? 0) + usage.providerCalls,
+  };
+}
@@ -2,7 +2,8 @@
  * Cosmos DB Client for Order Processing Workflow
  *
  * Provides a centralized Cosmos DB client for workflow persistence.
- * Manages containers for cases and audit events.
+ * Manages containers for cases, audit events, customer column templates and
+ * learned item aliases.
  */
 
 import { CosmosClient, Database, Container, PartitionKeyDefinition } from '@azure/cosmos';
@@ -13,16 +14,22 @@ export interface OrderProcessingCosmosConfig {
   databaseName: string;
   casesContainer?: string;
   eventsContainer?: string;
+  templatesContainer?: string;
+  itemAliasesContainer?: string;
 }
 
 export interface OrderProcessingContainers {
   cases: Container;
   events: Container;
+  templates: Container;
+  itemAliases: Container;
 }
 
 const DEFAULT_CONTAINERS = {
   cases: 'cases',
   events: 'events',
+  templates: 'templates',
+  itemAliases: 'item-aliases',
 };
 
 const CONTAINER_CONFIGS: Record<string, { partitionKey: PartitionKeyDefinition; ttlEnabled: boolean }> = {
@@ -34,6 +41,14 @@ const CONTAINER_CONFIGS: Record<string, { partitionKey: PartitionKeyDefinition;
     partitionKey: { paths: ['/caseId'] },
     ttlEnabled: false, // Audit events are permanent
   },
+  templates: {
+    partitionKey: { paths: ['/tenantId'] },
+    ttlEnabled: false, // Templates live until an admin deletes them
+  },
+  itemAliases: {
+    partitionKey: { paths: ['/tenantId'] },
+    ttlEnabled: false, // Revoked aliases are kept for audit
+  },
 };
 
 export class OrderProcessingCosmosClient {
@@ -49,6 +64,8 @@ export class OrderProcessingCosmosClient {
       databaseName: config.databaseName,
       casesContainer: config.casesContainer || DEFAULT_CONTAINERS.cases,
       eventsContainer: config.eventsContainer || DEFAULT_CONTAINERS.events,
+      templatesContainer: config.templatesContainer || DEFAULT_CONTAINERS.templates,
+      itemAliasesContainer: config.itemAliasesContainer || DEFAULT_CONTAINERS.itemAliases,
     };
 
     // Use Managed Identity for authentication
@@ -77,14 +94,18 @@ export class OrderProcessingCosmosClient {
     this.database = database;
 
     // Get or create containers
-    const [cases, events] = await Promise.all([
+    const [cases, events, templates, itemAliases] = await Promise.all([
       this.getOrCreateContainer(this.config.casesContainer, 'cases'),
       this.getOrCreateContainer(this.config.eventsContainer, 'events'),
+      this.getOrCreateContainer(this.config.templatesContainer, 'templates'),
+      this.getOrCreateContainer(this.config.itemAliasesContainer, 'itemAliases'),
     ]);
 
     this.containers = {
       cases,
       events,
+      templates,
+      itemAliases,
     };
 
     this.initialized = true;
@@ -137,6 +158,20 @@ export class OrderProcessingCosmosClient {
     return this.getContainers().events;
   }
 
+  /**
+   * Get customer column templates container
+   */
+  get templates(): Container {
+    return this.getContainers().templates;
+  }
+
+  /**
+   * Get learned item aliases container
+   */
+  get itemAliases(): Container {
+    return this.getContainers().itemAliases;
+  }
+
   /**
    * Check if client is initialized
    */
@@ -18,13 +18,21 @@ export type EventType =
   | 'file_stored'
   | 'file_parsed'
   | 'committee_run'
+  | 'committee_weights_proposed'
   | 'corrections_applied'
+  | 'template_saved'
   | 'customer_resolved'
   | 'customer_selected'
   | 'items_resolved'
   | 'items_selected'
+  | 'item_alias_created'
+  | 'item_alias_used'
   | 'approval_received'
   | 'zoho_draft_created'
+  | 'amendment_started'
+  | 'amendment_reverted'
+  | 'zoho_draft_amended'
+  | 'orders_split'
   | 'case_completed'
   | 'case_failed'
   | 'case_cancelled'
@@ -15,6 +15,9 @@ export {
 export {
   CasesRepository,
   CaseDocument,
+  CaseCommitteeUsage,
+  CommitteeRunUsage,
+  CommitteeUsageTotals,
   CreateCaseInput,
   getCasesRepository,
 } from './cases-repository.js';
@@ -26,3 +29,27 @@ export {
   CreateEventInput,
   getEventsRepository,
 } from './events-repository.js';
+
+export {
+  TemplatesRepository,
+  ColumnTemplateDocument,
+  TemplateColumnMapping,
+  SaveTemplateInput,
+  getTemplatesRepository,
+  getTemplateCustomerKey,
+  getTemplateId,
+  toColumnTemplate,
+} from './templates-repository.js';
+
+export {
+  ItemAliasesRepository,
+  ItemAliasDocument,
+  ItemAliasSourceKind,
+  AliasSourceLine,
+  LearnAliasInput,
+  LearnedAlias,
+  getItemAliasesRepository,
+  getAliasKeys,
+  getItemAliasId,
+  normalizeAliasValue,
+} from './item-aliases-repository.js';
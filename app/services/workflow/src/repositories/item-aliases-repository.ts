@@ -0,0 +1,251 @@
+/**
+ * Item Aliases Repository
+ *
+ * Repository for learned item aliases in Cosmos DB.
+ * An alias maps a customer's SKU, GTIN or product description to the Zoho
+ * item a user picked for it, so the next order with the same line resolves
+ * without asking again.
+ * Partition key: /tenantId
+ */
+
+import { Container } from '@azure/cosmos';
+import { createHash } from 'crypto';
+import { getCosmosClient } from './cosmos-client.js';
+
+export type ItemAliasSourceKind = 'sku' | 'gtin' | 'description';
+
+/**
+ * Item alias document structure in Cosmos DB
+ */
+export interface ItemAliasDocument {
+  id: string;
+  tenantId: string;
+  zohoCustomerId: string;
+  sourceKind: ItemAliasSourceKind;
+  /** Normalized source value (see normalizeAliasValue) */
+  sourceValue: string;
+  /** Source value as it appeared in the order */
+  sourceText: string;
+  zohoItemId: string;
+  zohoItemName?: string;
+  /** Number of times users picked this item for the source value */
+  confirmations: number;
+  /** Confidence as of lastConfirmedAt (decays from there when matching) */
+  confidence: number;
+  lastConfirmedAt: string;
+  useCount: number;
+  lastUsedAt?: string;
+  revoked: boolean;
+  revokedAt?: string;
+  revokedBy?: string;
+  revokeReason?: string;
+  sourceCaseId: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Source fields of an order line used as alias keys
+ */
+export interface AliasSourceLine {
+  sku?: string | null;
+  gtin?: string | null;
+  productName?: string | null;
+}
+
+/**
+ * Input for learning aliases from a user's item selection
+ */
+export interface LearnAliasInput {
+  tenantId: string;
+  zohoCustomerId: string;
+  line: AliasSourceLine;
+  zohoItemId: string;
+  zohoItemName?: string;
+  selectedBy: string;
+  caseId: string;
+}
+
+/**
+ * Result of learning one alias
+ */
+export interface LearnedAlias {
+  alias: ItemAliasDocument;
+  created: boolean;
+}
+
+/**
+ * Confidence of an alias after its first selection
+ */
+const INITIAL_CONFIDENCE = 0.9;
+
+/**
+ * Confidence gained with each further confirmation (capped at 1.0)
+ */
+const CONFIRMATION_STEP = 0.05;
+
+/**
+ * Normalize a source value so formatting differences between orders match
+ */
+export function normalizeAliasValue(kind: ItemAliasSourceKind, value: string): string {
+  switch (kind) {
+    case 'sku':
+      return value.trim().toUpperCase().replace(/\s+/g, '');
+    case 'gtin':
+      return value.replace(/[\s-]/g, '');
+    case 'description':
+      return value
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+  }
+}
+
+/**
+ * Alias keys (kind and normalized value) available on an order line
+ */
+export function getAliasKeys(
+  line: AliasSourceLine
+): Array<{ kind: ItemAliasSourceKind; value: string; text: string }> {
+  const sources: Array<[ItemAliasSourceKind, string | null | undefined]> = [
+    ['sku', line.sku],
+    ['gtin', line.gtin],
+    ['description', line.productName],
+  ];
+
+  return sources.flatMap(([kind, text]) => {
+    const value = text ? normalizeAliasValue(kind, String(text)) : '';
+    return value ? [{ kind, value, text: String(text) }] : [];
+  });
+}
+
+/**
+ * Deterministic alias ID for a customer and source value
+ */
+export function getItemAliasId(zohoCustomerId: string, kind: ItemAliasSourceKind, value: string): string {
+  return `alias-${createHash('sha256').update(`${zohoCustomerId}|${kind}|${value}`).digest('hex').substring(0, 32)}`;
+}
+
+/**
+ * Item Aliases Repository class
+ */
+export class ItemAliasesRepository {
+  private container: Container;
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  /**
+   * Get an alias by ID
+   */
+  async getAlias(tenantId: string, aliasId: string): Promise<ItemAliasDocument | null> {
+    try {
+      const { resource } = await this.container.item(aliasId, tenantId).read<ItemAliasDocument>();
+      return resource || null;
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the customer's aliases (including revoked ones) for an order line
+   */
+  async findAliases(
+    tenantId: string,
+    zohoCustomerId: string,
+    line: AliasSourceLine
+  ): Promise<ItemAliasDocument[]> {
+    const aliases = await Promise.all(
+      getAliasKeys(line).map(key =>
+        this.getAlias(tenantId, getItemAliasId(zohoCustomerId, key.kind, key.value))
+      )
+    );
+    return aliases.filter((alias): alias is ItemAliasDocument => alias !== null);
+  }
+
+  /**
+   * Create or confirm the aliases of an order line after a user picked an item.
+   * Picking the same item again raises confidence; picking a different item
+   * replaces the alias. Aliases revoked by an admin stay revoked.
+   */
+  async learnFromSelection(input: LearnAliasInput): Promise<LearnedAlias[]> {
+    const learned: LearnedAlias[] = [];
+    const now = new Date().toISOString();
+
+    for (const key of getAliasKeys(input.line)) {
+      const id = getItemAliasId(input.zohoCustomerId, key.kind, key.value);
+      const existing = await this.getAlias(input.tenantId, id);
+      const sameItem = existing?.zohoItemId === input.zohoItemId;
+
+      if (existing?.revoked && sameItem) {
+        continue;
+      }
+
+      const confirmations = existing && sameItem ? existing.confirmations + 1 : 1;
+
+      const doc: ItemAliasDocument = {
+        id,
+        tenantId: input.tenantId,
+        zohoCustomerId: input.zohoCustomerId,
+        sourceKind: key.kind,
+        sourceValue: key.value,
+        sourceText: key.text,
+        zohoItemId: input.zohoItemId,
+        zohoItemName: input.zohoItemName,
+        confirmations,
+        confidence: Math.min(1, INITIAL_CONFIDENCE + CONFIRMATION_STEP * (confirmations - 1)),
+        lastConfirmedAt: now,
+        useCount: existing && sameItem ? existing.useCount : 0,
+        lastUsedAt: existing && sameItem ? existing.lastUsedAt : undefined,
+        revoked: false,
+        sourceCaseId: existing && sameItem ? existing.sourceCaseId : input.caseId,
+        createdBy: existing && sameItem ? existing.createdBy : input.selectedBy,
+        createdAt: existing && sameItem ? existing.createdAt : now,
+        updatedAt: now,
+      };
+
+      const { resource } = await this.container.items.upsert<ItemAliasDocument>(doc);
+
+      if (!resource) {
+        throw new Error('Failed to save item alias document');
+      }
+
+      learned.push({ alias: resource, created: !(existing && sameItem) });
+    }
+
+    return learned;
+  }
+
+  /**
+   * Record that an alias resolved an order line
+   */
+  async recordUse(tenantId: string, aliasId: string): Promise<void> {
+    await this.container.item(aliasId, tenantId).patch([
+      { op: 'incr', path: '/useCount', value: 1 },
+      { op: 'set', path: '/lastUsedAt', value: new Date().toISOString() },
+    ]);
+  }
+}
+
+// Singleton instance
+let itemAliasesRepository: ItemAliasesRepository | null = null;
+
+/**
+ * Get the singleton item aliases repository
+ */
+export function getItemAliasesRepository(): ItemAliasesRepository {
+  if (!itemAliasesRepository) {
+    const client = getCosmosClient();
+    if (!client.isInitialized()) {
+      throw new Error('Cosmos client not initialized. Call initializeCosmosClient() first.');
+    }
+    itemAliasesRepository = new ItemAliasesRepository(client.itemAliases);
+  }
+  return itemAliasesRepository;
+}
@@ -0,0 +1,190 @@
+/**
+ * Templates Repository
+ *
+ * Repository for per-customer column templates in Cosmos DB.
+ * A template remembers the confirmed column mappings for one customer's
+ * layout, keyed by customer plus header-row fingerprint, so later uploads
+ * with the same layout skip schema inference and the committee.
+ * Partition key: /tenantId
+ */
+
+import { Container } from '@azure/cosmos';
+import { createHash } from 'crypto';
+import type { ColumnTemplate } from '@order-processing/parser';
+import { getCosmosClient } from './cosmos-client.js';
+
+/**
+ * One remembered column mapping
+ */
+export interface TemplateColumnMapping {
+  canonicalField: string;
+  sourceColumn: string;
+  sourceHeader: string;
+  /** 'manual' when the user corrected this mapping, 'template' when confirmed as inferred */
+  method: 'manual' | 'template';
+}
+
+/**
+ * Template document structure in Cosmos DB
+ */
+export interface ColumnTemplateDocument {
+  id: string;
+  tenantId: string;
+  /** Normalized customer name (see getTemplateCustomerKey) */
+  customerKey: string;
+  /** Customer name as it appeared in the file */
+  customerName: string;
+  headerFingerprint: string;
+  columnMappings: TemplateColumnMapping[];
+  source: 'corrections' | 'admin';
+  sourceCaseId?: string;
+  useCount: number;
+  lastUsedAt?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+/**
+ * Input for saving a template
+ */
+export interface SaveTemplateInput {
+  tenantId: string;
+  customerName: string;
+  headerFingerprint: string;
+  columnMappings: TemplateColumnMapping[];
+  source: ColumnTemplateDocument['source'];
+  sourceCaseId?: string;
+  savedBy: string;
+}
+
+/**
+ * Normalize a customer name for template lookup (case, spacing and
+ * punctuation differences between uploads are ignored)
+ */
+export function getTemplateCustomerKey(customerName: string | null | undefined): string {
+  const key = (customerName ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return key || '*';
+}
+
+/**
+ * Deterministic template ID for a customer and header fingerprint
+ */
+export function getTemplateId(customerKey: string, headerFingerprint: string): string {
+  return `tpl-${createHash('sha256').update(`${customerKey}|${headerFingerprint}`).digest('hex').substring(0, 32)}`;
+}
+
+/**
+ * Convert a stored template to the parser's ColumnTemplate shape
+ */
+export function toColumnTemplate(doc: ColumnTemplateDocument): ColumnTemplate {
+  return {
+    template_id: doc.id,
+    header_fingerprint: doc.headerFingerprint,
+    column_mappings: doc.columnMappings.map(m => ({
+      canonical_field: m.canonicalField,
+      source_column: m.sourceColumn,
+      source_header: m.sourceHeader,
+      method: m.method,
+    })),
+  };
+}
+
+/**
+ * Templates Repository class
+ */
+export class TemplatesRepository {
+  private container: Container;
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  /**
+   * Find the template for a customer's layout
+   */
+  async findTemplate(
+    tenantId: string,
+    customerName: string | null | undefined,
+    headerFingerprint: string
+  ): Promise<ColumnTemplateDocument | null> {
+    const id = getTemplateId(getTemplateCustomerKey(customerName), headerFingerprint);
+
+    try {
+      const { resource } = await this.container.item(id, tenantId).read<ColumnTemplateDocument>();
+      return resource || null;
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the template for a customer's layout.
+   * Usage statistics and creation info of an existing template are kept.
+   */
+  async saveTemplate(input: SaveTemplateInput): Promise<ColumnTemplateDocument> {
+    const customerKey = getTemplateCustomerKey(input.customerName);
+    const existing = await this.findTemplate(input.tenantId, input.customerName, input.headerFingerprint);
+    const now = new Date().toISOString();
+
+    const doc: ColumnTemplateDocument = {
+      id: getTemplateId(customerKey, input.headerFingerprint),
+      tenantId: input.tenantId,
+      customerKey,
+      customerName: input.customerName,
+      headerFingerprint: input.headerFingerprint,
+      columnMappings: input.columnMappings,
+      source: input.source,
+      sourceCaseId: input.sourceCaseId,
+      useCount: existing?.useCount ?? 0,
+      lastUsedAt: existing?.lastUsedAt,
+      createdBy: existing?.createdBy ?? input.savedBy,
+      createdAt: existing?.createdAt ?? now,
+      updatedBy: existing ? input.savedBy : undefined,
+      updatedAt: now,
+    };
+
+    const { resource } = await this.container.items.upsert<ColumnTemplateDocument>(doc);
+
+    if (!resource) {
+      throw new Error('Failed to save template document');
+    }
+
+    return resource;
+  }
+
+  /**
+   * Record that a template was applied to an upload
+   */
+  async recordUse(tenantId: string, templateId: string): Promise<void> {
+    await this.container.item(templateId, tenantId).patch([
+      { op: 'incr', path: '/useCount', value: 1 },
+      { op: 'set', path: '/lastUsedAt', value: new Date().toISOString() },
+    ]);
+  }
+}
+
+// Singleton instance
+let templatesRepository: TemplatesRepository | null = null;
+
+/**
+ * Get the singleton templates repository
+ */
+export function getTemplatesRepository(): TemplatesRepository {
+  if (!templatesRepository) {
+    const client = getCosmosClient();
+    if (!client.isInitialized()) {
+      throw new Error('Cosmos client not initialized. Call initializeCosmosClient() first.');
+    }
+    templatesRepository = new TemplatesRepository(client.templates);
+  }
+  return templatesRepository;
+}
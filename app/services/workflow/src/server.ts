@@ -99,6 +99,8 @@ app.get('/live', (_req: Request, res: Response) => {
  * Start a new order processing workflow
  * POST /api/workflow/start
  *
+ * Answers 409 with the instanceId when the case's workflow was already started.
+ *
  * Request body:
  * {
  *   caseId: string;       // Unique case identifier
@@ -124,6 +126,17 @@ app.post('/api/workflow/start', async (req: Request, res: Response) => {
       });
     }
 
+    // A retried start (e.g. of an emailed order) must not process the case twice;
+    // amendments reuse the workflow ID through /amend
+    const existing = await getWorkflowStatus(`order-${caseId}`).catch(() => null);
+    if (existing) {
+      return res.status(409).json({
+        error: `Workflow of case ${caseId} was already started (status: ${existing.status})`,
+        instanceId: `order-${caseId}`,
+        caseId,
+      });
+    }
+
     const workflowId = await startOrderProcessing({
       caseId,
       blobUrl,
@@ -151,6 +164,80 @@ app.post('/api/workflow/start', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Reopen a completed case to amend its Zoho draft
+ * POST /api/workflow/amend
+ *
+ * Re-runs the order workflow for the case: a re-uploaded file is parsed
+ * again, chat edits are applied to the stored order. After approval the
+ * existing draft is updated in place instead of creating a new one.
+ *
+ * Request body:
+ * {
+ *   caseId: string;
+ *   tenantId: string;
+ *   userId: string;           // User requesting the amendment
+ *   blobUrl?: string;         // Re-uploaded file
+ *   corrections?: object;     // Field corrections (when no file is re-uploaded)
+ *   patch?: object[];         // Line edits of a confirmed chat edit
+ *   correlationId?: string;
+ *   teams: { chatId: string; messageId: string; activityId: string; }
+ * }
+ */
+app.post('/api/workflow/amend', async (req: Request, res: Response) => {
+  try {
+    const { caseId, tenantId, userId, blobUrl, corrections, patch, correlationId, teams } = req.body;
+
+    if (!caseId || !tenantId || !userId) {
+      return res.status(400).json({
+        error: 'Missing required fields: caseId, tenantId, userId',
+      });
+    }
+    if (!blobUrl && !corrections && !patch) {
+      return res.status(400).json({
+        error: 'Either blobUrl, corrections or patch is required',
+      });
+    }
+
+    if (await isWorkflowRunning(`order-${caseId}`)) {
+      return res.status(409).json({
+        error: `Case ${caseId} is still being processed`,
+      });
+    }
+
+    const workflowId = await startOrderProcessing({
+      caseId,
+      blobUrl: blobUrl ?? '',
+      tenantId,
+      userId,
+      correlationId: correlationId || caseId,
+      teams: teams || { chatId: '', messageId: '', activityId: '' },
+      amendment: {
+        source: blobUrl ? 'reupload' : 'edit',
+        ...(corrections && { corrections }),
+        ...(patch && { patch }),
+        requestedBy: userId,
+      },
+    });
+
+    console.log(`Started amendment workflow: ${workflowId} for case: ${caseId}`);
+
+    res.status(202).json({
+      instanceId: workflowId,
+      caseId,
+      status: 'started',
+      statusQueryGetUri: `/api/workflow/${workflowId}/status`,
+      sendEventPostUri: `/api/workflow/${workflowId}/signal/{signalName}`,
+      terminatePostUri: `/api/workflow/${workflowId}/terminate`,
+    });
+  } catch (error) {
+    console.error('Error starting amendment workflow:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // ============================================================================
 // Workflow Status Endpoint
 // ============================================================================
@@ -12,6 +12,7 @@ import { initializeCosmosClient, getCasesRepository } from './repositories/index
 import {
   initializeResolveCustomerActivity,
   initializeResolveItemsActivity,
+  initializeCheckPricingActivity,
 } from './activities';
 import {
   getFeatureFlags,
@@ -25,8 +26,18 @@ import {
   ZohoOAuthManager,
   ZohoCustomersApi,
   ZohoItemsApi,
+  ZohoPriceBooksApi,
   CustomerCache,
   ItemCache,
+  CacheRefreshService,
+  FileCacheSnapshotStore,
+  tryInitializeZohoPersistence,
+  type ICacheSnapshotStore,
+  ZohoRateLimitGovernor,
+  type IRateLimitStore,
+  PriceBookCache,
+  RateResolver,
+  UnitConverter,
   CustomerMatcher,
   ItemMatcher,
 } from '@order-processing/zoho';
@@ -205,13 +216,24 @@ async function initializeZohoDependencies(): Promise<void> {
       },
     });
 
-    // Create API clients
-    const customersApi = new ZohoCustomersApi(oauthManager);
-    const itemsApi = new ZohoItemsApi(oauthManager);
+    const { snapshotStore, rateLimitStore } = await createZohoStores();
+
+    // Create API clients sharing one Zoho API budget
+    // (coordinated with the API service and other workers when Cosmos is configured)
+    const rateLimiter = new ZohoRateLimitGovernor({
+      requestsPerMinute: Number(process.env.ZOHO_RATE_LIMIT_PER_MINUTE) || undefined,
+      dailyLimit: Number(process.env.ZOHO_RATE_LIMIT_PER_DAY) || undefined,
+      store: rateLimitStore,
+    });
+    const customersApi = new ZohoCustomersApi(oauthManager, undefined, rateLimiter);
+    const itemsApi = new ZohoItemsApi(oauthManager, undefined, undefined, undefined, rateLimiter);
+    const priceBooksApi = new ZohoPriceBooksApi(oauthManager, undefined, rateLimiter);
 
     // Create caches (which implement IZohoCustomerService and IZohoItemService)
-    const customerCache = new CustomerCache(customersApi);
-    const itemCache = new ItemCache(itemsApi);
+    // Snapshots let a restarted worker resume delta sync instead of reloading everything
+    const customerCache = new CustomerCache(customersApi, { snapshotStore });
+    const itemCache = new ItemCache(itemsApi, { snapshotStore });
+    const priceBookCache = new PriceBookCache(priceBooksApi);
 
     // Create matchers
     const customerMatcher = new CustomerMatcher();
@@ -250,14 +272,44 @@ async function initializeZohoDependencies(): Promise<void> {
     initializeResolveItemsActivity(itemService, itemMatcher);
     console.log('resolveItems activity initialized with Zoho dependencies');
 
-    // Optionally pre-load caches (non-blocking)
-    // This helps reduce latency on first activity execution
-    customerCache.refreshCache().catch((err) => {
-      console.warn('Failed to pre-load customer cache:', err instanceof Error ? err.message : String(err));
-    });
-    itemCache.refreshCache().catch((err) => {
-      console.warn('Failed to pre-load item cache:', err instanceof Error ? err.message : String(err));
+    // Initialize checkPricing activity
+    // Resolves customer price list rates for the approval card price check
+    const rateResolver = new RateResolver(customerCache, priceBookCache);
+    const unitConverter = new UnitConverter();
+    const pricingService = {
+      getEffectiveRate: async (customerId: string, itemId: string, quantity: number, unit?: string | null) => {
+        const item = await itemCache.findById(itemId);
+        if (!item) {
+          return null;
+        }
+        return unit
+          ? rateResolver.resolveRateInUnit(customerId, item, quantity, unit)
+          : rateResolver.resolveRate(customerId, item, quantity);
+      },
+      // Same conversion as draft creation, so its issues block approval instead
+      checkUnitConversion: async (itemId: string, row: number, quantity: number, unit: string) => {
+        const item = await itemCache.findById(itemId);
+        if (!item) {
+          return null;
+        }
+        return unitConverter.convertLine({ row, quantity, unit, zoho_item_id: itemId }, item).issue ?? null;
+      },
+    };
+
+    initializeCheckPricingActivity(pricingService);
+    console.log('checkPricing activity initialized with Zoho dependencies');
+
+    // Restore cache snapshots, then keep caches in sync in the background (non-blocking)
+    // Each sync fetches only records changed since the last watermark
+    const cacheRefreshService = new CacheRefreshService(customerCache, itemCache, {
+      refreshIntervalMs: Number(process.env.ZOHO_CACHE_REFRESH_INTERVAL_MS) || 3600000,
     });
+    cacheRefreshService
+      .restore()
+      .then(() => cacheRefreshService.start())
+      .catch((err) => {
+        console.warn('Failed to start cache sync:', err instanceof Error ? err.message : String(err));
+      });
 
     console.log('Zoho dependencies initialized successfully');
   } catch (err) {
@@ -267,6 +319,44 @@ async function initializeZohoDependencies(): Promise<void> {
   }
 }
 
+/**
+ * Create the stores for Zoho cache snapshots and the shared rate limit budget
+ *
+ * Uses Cosmos DB for both when COSMOS_ENDPOINT is set. Otherwise snapshots go
+ * to ZOHO_CACHE_SNAPSHOT_DIR (if set) and the rate limit budget only covers
+ * this worker.
+ */
+async function createZohoStores(): Promise<{
+  snapshotStore?: ICacheSnapshotStore;
+  rateLimitStore?: IRateLimitStore;
+}> {
+  if (process.env.COSMOS_ENDPOINT) {
+    const persistence = await tryInitializeZohoPersistence({
+      cosmosEndpoint: process.env.COSMOS_ENDPOINT,
+      cosmosDatabase: process.env.COSMOS_DATABASE,
+    });
+    if (persistence) {
+      console.log('Zoho cache snapshots and rate limit budget persisted to Cosmos DB');
+      return {
+        snapshotStore: persistence.cacheSnapshotStore,
+        rateLimitStore: persistence.rateLimitStore,
+      };
+    }
+  }
+
+  console.warn('Zoho rate limit budget not shared - it only covers this worker');
+
+  if (process.env.ZOHO_CACHE_SNAPSHOT_DIR) {
+    console.log(`Zoho cache snapshots persisted to ${process.env.ZOHO_CACHE_SNAPSHOT_DIR}`);
+    return {
+      snapshotStore: new FileCacheSnapshotStore({ directory: process.env.ZOHO_CACHE_SNAPSHOT_DIR }),
+    };
+  }
+
+  console.warn('Zoho cache snapshots disabled - caches reload in full after restart');
+  return {};
+}
+
 // Start the worker
 run().catch((err) => {
   console.error('Worker failed to start:', err);
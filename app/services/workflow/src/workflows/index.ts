@@ -38,6 +38,8 @@ export type {
 // Re-export all types from types.ts for consumers
 export type {
   TeamsContext,
+  SplitOrderContext,
+  ChildOrderSummary,
   CorrectionData,
   SelectionData,
   StoreFileInput,
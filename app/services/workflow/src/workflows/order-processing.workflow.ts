@@ -7,10 +7,18 @@
  * 3. Run committee (AI cross-validation)
  * 4. Resolve customer against Zoho
  * 5. Resolve items against Zoho catalog
- * 6. Await human approval
+ * 6. Check prices against the customer's Zoho rates, await human approval
  * 7. Create Zoho draft sales order
  * 8. Notify completion
  *
+ * Uploads containing several orders (multi-order mode) fan out after parsing
+ * into one child workflow per order; see processSplitOrders().
+ *
+ * A completed case can be reopened with `amendment` set: the drafted order is
+ * snapshotted, the re-upload (or chat edit) goes through the same steps, the
+ * user approves the line diff and step 7 updates the existing Zoho draft
+ * instead of creating a new one.
+ *
  * Migrated from Azure Durable Functions to Temporal.io
  */
 
@@ -24,6 +32,7 @@ import {
   ApplicationFailure,
   log,
   workflowInfo,
+  startChild,
 } from '@temporalio/workflow';
 
 import type { RetryPolicy } from '@temporalio/common';
@@ -43,25 +52,41 @@ import type {
   ParseExcelOutput,
   RunCommitteeInput,
   RunCommitteeOutput,
+  RunExtractionReviewInput,
+  RunExtractionReviewOutput,
+  RecordCommitteeFeedbackInput,
+  RecordCommitteeFeedbackOutput,
   ResolveCustomerInput,
   ResolveCustomerOutput,
   ResolveItemsInput,
   ResolveItemsOutput,
+  CheckPricingInput,
+  CheckPricingOutput,
   CreateZohoDraftInput,
   CreateZohoDraftOutput,
+  PrepareAmendmentInput,
+  PrepareAmendmentOutput,
+  RevertAmendmentInput,
+  RevertAmendmentOutput,
+  AmendZohoDraftInput,
+  AmendZohoDraftOutput,
   NotifyUserInput,
   NotifyUserOutput,
   UpdateCaseInput,
   UpdateCaseOutput,
+  CreateChildCasesInput,
+  CreateChildCasesOutput,
   ApplyCorrectionsInput,
   ApplyCorrectionsOutput,
   ApplySelectionsInput,
   ApplySelectionsOutput,
   FinalizeAuditInput,
   FinalizeAuditOutput,
+  AmendmentSummary,
   CaseStatus,
   HumanWaitContext,
   HumanWaitTimeoutConfig,
+  ChildOrderSummary,
 } from './types';
 
 import { DEFAULT_HUMAN_WAIT_TIMEOUT } from './types';
@@ -105,11 +130,18 @@ interface Activities {
   storeFile(input: StoreFileInput): Promise<StoreFileOutput>;
   parseExcel(input: ParseExcelInput): Promise<ParseExcelOutput>;
   runCommittee(input: RunCommitteeInput): Promise<RunCommitteeOutput>;
+  runExtractionReview(input: RunExtractionReviewInput): Promise<RunExtractionReviewOutput>;
+  recordCommitteeFeedback(input: RecordCommitteeFeedbackInput): Promise<RecordCommitteeFeedbackOutput>;
   resolveCustomer(input: ResolveCustomerInput): Promise<ResolveCustomerOutput>;
   resolveItems(input: ResolveItemsInput): Promise<ResolveItemsOutput>;
+  checkPricing(input: CheckPricingInput): Promise<CheckPricingOutput>;
   createZohoDraft(input: CreateZohoDraftInput): Promise<CreateZohoDraftOutput>;
+  prepareAmendment(input: PrepareAmendmentInput): Promise<PrepareAmendmentOutput>;
+  revertAmendment(input: RevertAmendmentInput): Promise<RevertAmendmentOutput>;
+  amendZohoDraft(input: AmendZohoDraftInput): Promise<AmendZohoDraftOutput>;
   notifyUser(input: NotifyUserInput): Promise<NotifyUserOutput>;
   updateCase(input: UpdateCaseInput): Promise<UpdateCaseOutput>;
+  createChildCases(input: CreateChildCasesInput): Promise<CreateChildCasesOutput>;
   applyCorrections(input: ApplyCorrectionsInput): Promise<ApplyCorrectionsOutput>;
   applySelections(input: ApplySelectionsInput): Promise<ApplySelectionsOutput>;
   finalizeAudit(input: FinalizeAuditInput): Promise<FinalizeAuditOutput>;
@@ -126,12 +158,19 @@ const {
   storeFile,
   parseExcel,
   runCommittee,
+  runExtractionReview,
+  recordCommitteeFeedback,
   resolveCustomer,
   resolveItems,
+  checkPricing,
   notifyUser,
   updateCase,
+  createChildCases,
   applyCorrections,
   applySelections,
+  prepareAmendment,
+  revertAmendment,
+  amendZohoDraft,
 } = proxyActivities<Activities>({
   startToCloseTimeout: '5m',
   retry: standardRetry,
@@ -140,7 +179,10 @@ const {
 /**
  * Activities requiring aggressive retry (external API calls to Zoho)
  */
-const { createZohoDraft: createZohoDraftAggressive } = proxyActivities<Activities>({
+const {
+  createZohoDraft: createZohoDraftAggressive,
+  amendZohoDraft: amendZohoDraftAggressive,
+} = proxyActivities<Activities>({
   startToCloseTimeout: '10m',
   retry: aggressiveRetry,
 });
@@ -172,6 +214,9 @@ export type {
   HumanWaitContext,
   HumanWaitTimeoutConfig,
   DurationString,
+  SplitOrderContext,
+  OrderAmendmentContext,
+  ChildOrderSummary,
 } from './types';
 
 export { DEFAULT_HUMAN_WAIT_TIMEOUT } from './types';
@@ -375,6 +420,153 @@ async function waitForHumanWithEscalation(options: WaitForHumanOptions): Promise
   return { received: false, reason: 'timeout' };
 }
 
+// ============================================================================
+// Multi-Order Fan-Out
+// ============================================================================
+
+/**
+ * Fan out an upload that contains several orders.
+ *
+ * Each order runs as a child orderProcessingWorkflow (workflow ID
+ * `order-${childCaseId}`, so existing signal routing works per child) that
+ * shares the parent's file, audit bundle and Teams thread, and goes through
+ * committee, resolution and approval on its own. The parent posts a summary
+ * card when the children start and again once all of them have finished.
+ *
+ * @param input - Parent workflow input
+ * @param splitOrders - Orders found in the workbook
+ * @param updateState - Parent workflow state updater
+ * @returns Parent output with per-order results
+ */
+async function processSplitOrders(
+  input: OrderProcessingInput,
+  splitOrders: ChildOrderSummary[],
+  updateState: (step: string, status?: string) => void
+): Promise<OrderProcessingOutput> {
+  const { caseId, tenantId, correlationId, userId } = input;
+  const childCaseIds = splitOrders.map((order) => order.caseId);
+
+  updateState('awaiting_child_orders', 'awaiting_child_orders');
+  log.info(`[${caseId}] Step 2: Upload contains ${splitOrders.length} orders, starting child workflows`, {
+    childCaseIds,
+  });
+
+  await updateCase({
+    caseId,
+    tenantId,
+    correlationId,
+    status: 'awaiting_child_orders',
+    eventType: 'orders_split',
+    updates: { childCaseIds },
+  });
+
+  // Child workflows update their own case documents from their first step
+  await createChildCases({
+    parentCaseId: caseId,
+    tenantId,
+    correlationId,
+    childOrders: splitOrders.map((order) => ({ caseId: order.caseId, orderIndex: order.orderIndex })),
+  });
+
+  const handles = await Promise.all(
+    splitOrders.map((order) =>
+      startChild(orderProcessingWorkflow, {
+        workflowId: `order-${order.caseId}`,
+        args: [{
+          ...input,
+          caseId: order.caseId,
+          split: {
+            parentCaseId: caseId,
+            orderIndex: order.orderIndex,
+            orderCount: splitOrders.length,
+          },
+        }],
+      })
+    )
+  );
+
+  await notifyUser({
+    caseId,
+    type: 'multi_order_summary',
+    childOrders: splitOrders,
+  });
+
+  // Children handle their own failures; a rejected result means the child
+  // itself could not run (e.g. terminated)
+  const results = await Promise.all(
+    handles.map((handle) =>
+      handle.result().catch((error: unknown): OrderProcessingOutput => ({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      }))
+    )
+  );
+
+  const childOrders: ChildOrderSummary[] = splitOrders.map((order, index) => ({
+    ...order,
+    status: results[index].status,
+    zohoOrderNumber: results[index].zohoOrderNumber,
+    error: results[index].error,
+  }));
+
+  log.info(`[${caseId}] All child orders finished`, {
+    statuses: childOrders.map((order) => `${order.caseId}:${order.status}`),
+  });
+
+  updateState('finalizing_audit');
+  try {
+    const auditResult = await finalizeAudit({
+      caseId,
+      tenantId,
+      userId,
+      correlationId,
+      childCaseIds,
+    });
+
+    if (!auditResult.success) {
+      log.warn(`[${caseId}] Parent audit finalization failed (non-blocking)`, {
+        error: auditResult.error,
+      });
+    }
+  } catch (auditError) {
+    log.warn(`[${caseId}] Parent audit finalization error (non-blocking)`, {
+      error: auditError instanceof Error ? auditError.message : String(auditError),
+    });
+  }
+
+  await notifyUser({
+    caseId,
+    type: 'multi_order_summary',
+    childOrders,
+  });
+
+  const allFailed = childOrders.every((order) => order.status === 'failed');
+  const status: OrderProcessingOutput['status'] = allFailed ? 'failed' : 'completed';
+
+  updateState('completed', status);
+  await updateCase({
+    caseId,
+    tenantId,
+    correlationId,
+    status,
+    eventType: allFailed ? 'workflow_failed' : 'workflow_completed',
+    updates: {
+      completedAt: new Date().toISOString(),
+      childOrders: childOrders.map(({ caseId: childCaseId, status: childStatus, zohoOrderNumber }) => ({
+        caseId: childCaseId,
+        status: childStatus,
+        zohoOrderNumber,
+      })),
+    },
+  });
+
+  return {
+    status,
+    childOrders,
+    ...(allFailed && { error: 'All child orders failed' }),
+  };
+}
+
 // ============================================================================
 // Main Workflow
 // ============================================================================
@@ -389,7 +581,7 @@ async function waitForHumanWithEscalation(options: WaitForHumanOptions): Promise
  * @returns Workflow output with final status and Zoho order details
  */
 export async function orderProcessingWorkflow(input: OrderProcessingInput): Promise<OrderProcessingOutput> {
-  const { caseId, correlationId, tenantId, userId, blobUrl, teams } = input;
+  const { caseId, correlationId, tenantId, userId, blobUrl, teams, split, amendment } = input;
 
   // Get workflow info for logging
   const info = workflowInfo();
@@ -408,6 +600,10 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
   let selectionsSubmittedEvent: SelectionsSubmittedEvent | null = null;
   let approvalReceivedEvent: ApprovalReceivedEvent | null = null;
 
+  // Draft being amended (reopened cases only) and whether Zoho was already updated
+  let amendmentBase: { zohoOrderId: string; zohoOrderNumber?: string; revision: number } | null = null;
+  let draftAmended = false;
+
   // ============================================================================
   // Signal Handlers
   // ============================================================================
@@ -447,117 +643,33 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
     };
   };
 
-  // ============================================================================
-  // Workflow Execution
-  // ============================================================================
-
-  try {
-    log.info(`[${caseId}] Starting order processing workflow`, {
-      workflowId: info.workflowId,
-      runId: info.runId,
-      correlationId,
-      tenantId,
-      userId,
-    });
-
-    // -------------------------------------------------------------------------
-    // Step 1: Store file in blob storage
-    // -------------------------------------------------------------------------
-    updateState('storing_file');
-    log.info(`[${caseId}] Step 1: Storing uploaded file`);
-    await updateCase({ caseId, tenantId, correlationId, status: 'storing_file', eventType: 'status_changed' });
-
-    const storeResult = await storeFile({
-      caseId,
-      blobUrl,
-    });
-
-    if (!storeResult.success) {
-      throw ApplicationFailure.nonRetryable(`Failed to store file: ${storeResult.error || 'Unknown error'}`);
-    }
-
-    log.info(`[${caseId}] Step 1: File stored successfully`, {
-      path: storeResult.storedPath,
-      sha256: storeResult.sha256,
-    });
-
-    // -------------------------------------------------------------------------
-    // Step 2: Parse Excel
-    // -------------------------------------------------------------------------
-    updateState('parsing_excel');
-    log.info(`[${caseId}] Step 2: Parsing Excel file`);
-    await updateCase({ caseId, tenantId, correlationId, status: 'parsing', eventType: 'file_stored' });
-
-    const parseResult: ParseExcelOutput = await parseExcel({ caseId });
-
-    // Handle blocked scenarios (formulas, protected workbook, etc.)
-    if (parseResult.blocked) {
-      log.info(`[${caseId}] Step 2: File is blocked`, {
-        reason: parseResult.blockReason,
-      });
-
-      await notifyUser({
-        caseId,
-        type: 'blocked',
-        reason: parseResult.blockReason,
-      });
-
-      // Wait for user to re-upload (no timeout - Temporal handles workflow expiry)
-      log.info(`[${caseId}] Step 2: Waiting for file reupload`);
-      await condition(() => fileReuploadedEvent !== null);
-
-      const reuploadEvent = fileReuploadedEvent!;
-      log.info(`[${caseId}] Step 2: File reuploaded, restarting workflow`, {
-        newBlobUrl: reuploadEvent.blobUrl,
-      });
-
-      // Continue as new with the new file
-      return continueAsNew<typeof orderProcessingWorkflow>({
-        ...input,
-        blobUrl: reuploadEvent.blobUrl,
-        correlationId: reuploadEvent.correlationId,
-      });
-    }
-
-    if (!parseResult.success) {
-      throw ApplicationFailure.nonRetryable('Excel parsing failed');
-    }
-
-    log.info(`[${caseId}] Step 2: Excel parsed successfully`, {
-      issueCount: parseResult.issues?.length || 0,
-    });
-
-    // -------------------------------------------------------------------------
-    // Step 3: Run committee (bounded mapping cross-check)
-    // -------------------------------------------------------------------------
-    updateState('running_committee');
-    log.info(`[${caseId}] Step 3: Running committee mapping validation`);
-    await updateCase({ caseId, tenantId, correlationId, status: 'running_committee', eventType: 'file_parsed' });
-
-    const committeeResult: RunCommitteeOutput = await runCommittee({ caseId });
-
-    if (!committeeResult.success) {
-      throw ApplicationFailure.nonRetryable('Committee validation failed');
-    }
-
-    // Handle committee disagreements
-    if (committeeResult.needsHuman) {
-      log.info(`[${caseId}] Step 3: Committee needs human intervention`, {
-        consensus: committeeResult.consensus,
-        disagreements: committeeResult.disagreements,
-      });
+  /**
+   * Show the issues card and wait until the user's corrections are applied.
+   * Corrections the activity rejects are reported on a new card and waited for again.
+   */
+  const collectCorrections = async (issues: unknown[]): Promise<void> => {
+    let rejection: string[] | undefined;
 
-      await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_corrections', eventType: 'committee_completed' });
+    for (;;) {
+      // Only corrections submitted for this card are taken
+      correctionsSubmittedEvent = null;
       await notifyUser({
         caseId,
         type: 'issues',
-        issues: committeeResult.disagreements,
+        issues: rejection
+          ? [
+              {
+                code: 'CORRECTIONS_REJECTED',
+                severity: 'blocker',
+                message: `Your corrections could not be applied: ${rejection.join('; ')}`,
+                suggestedUserAction: 'Correct the values again or upload a revised file',
+              },
+              ...issues,
+            ]
+          : issues,
       });
 
-      // Wait for user corrections with timeout/escalation handling
       updateState('awaiting_corrections', 'awaiting_user_input');
-      log.info(`[${caseId}] Step 3: Waiting for user corrections`);
-
       const correctionsWaitResult = await waitForHumanWithEscalation({
         conditionFn: () => correctionsSubmittedEvent !== null,
         waitType: 'corrections',
@@ -585,93 +697,347 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
       const correctionsEvent = correctionsSubmittedEvent!;
       log.info(`[${caseId}] Step 3: Corrections received, applying`, {
         submittedBy: correctionsEvent.submittedBy,
+        count: Object.keys(correctionsEvent.corrections).length,
       });
 
-      await applyCorrections({
+      const correctionsResult = await applyCorrections({
         caseId,
         tenantId,
         corrections: correctionsEvent.corrections,
         submittedBy: correctionsEvent.submittedBy,
         correlationId,
       });
+
+      if (correctionsResult.success) {
+        return;
+      }
+
+      log.warn(`[${caseId}] Step 3: Corrections rejected, asking again`, { errors: correctionsResult.errors });
+      rejection = correctionsResult.errors?.length ? correctionsResult.errors : ['Unknown error'];
     }
+  };
 
-    log.info(`[${caseId}] Step 3: Committee validation complete`);
+  // ============================================================================
+  // Workflow Execution
+  // ============================================================================
+
+  try {
+    log.info(`[${caseId}] Starting order processing workflow`, {
+      workflowId: info.workflowId,
+      runId: info.runId,
+      correlationId,
+      tenantId,
+      userId,
+    });
 
     // -------------------------------------------------------------------------
-    // Step 4: Resolve customer
+    // Amendment: snapshot the drafted order before it is replaced
     // -------------------------------------------------------------------------
-    updateState('resolving_customer');
-    log.info(`[${caseId}] Step 4: Resolving customer against Zoho`);
-    await updateCase({ caseId, tenantId, correlationId, status: 'resolving_customer', eventType: 'status_changed' });
+    if (amendment) {
+      updateState('preparing_amendment');
+      log.info(`[${caseId}] Reopening case to amend its Zoho draft`, {
+        source: amendment.source,
+        requestedBy: amendment.requestedBy,
+      });
 
-    const customerResult: ResolveCustomerOutput = await resolveCustomer({ caseId, tenantId });
+      const prepared = await prepareAmendment({ caseId, tenantId });
+      if (!prepared.success || !prepared.zohoOrderId || !prepared.revision) {
+        throw ApplicationFailure.nonRetryable(`Cannot amend case: ${prepared.error || 'Unknown error'}`);
+      }
 
-    if (!customerResult.success) {
-      throw ApplicationFailure.nonRetryable('Customer resolution failed');
+      amendmentBase = {
+        zohoOrderId: prepared.zohoOrderId,
+        zohoOrderNumber: prepared.zohoOrderNumber,
+        revision: prepared.revision,
+      };
+      await updateCase({
+        caseId,
+        tenantId,
+        correlationId,
+        status: amendment.source === 'edit' ? 'resolving_customer' : 'storing_file',
+        eventType: 'amendment_started',
+        userId: amendment.requestedBy,
+        // The Teams amendment request is used up; the bot routes new uploads to new cases again
+        updates: { amendmentRevision: prepared.revision, amendmentRequestedBy: null },
+      });
     }
 
-    if (customerResult.needsHuman) {
-      log.info(`[${caseId}] Step 4: Customer resolution needs human selection`, {
-        candidateCount: customerResult.candidates?.length || 0,
-      });
+    if (amendment?.source === 'edit') {
+      // -----------------------------------------------------------------------
+      // Steps 1-3: Chat edit - amend the drafted order, the file is not parsed again
+      // -----------------------------------------------------------------------
+      log.info(`[${caseId}] Steps 1-3: Applying amendment edits to the drafted order`);
 
-      await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_customer_selection', eventType: 'customer_resolved' });
-      await notifyUser({
+      const editResult = await applyCorrections({
         caseId,
-        type: 'selection_needed',
-        candidates: { customer: customerResult.candidates },
+        tenantId,
+        corrections: amendment.corrections ?? {},
+        patch: amendment.patch,
+        submittedBy: amendment.requestedBy,
+        correlationId,
       });
 
-      // Wait for customer selection with timeout/escalation handling
-      updateState('awaiting_customer_selection', 'awaiting_user_input');
-      log.info(`[${caseId}] Step 4: Waiting for customer selection`);
+      if (!editResult.success) {
+        throw ApplicationFailure.nonRetryable(
+          `Failed to apply amendment edits: ${(editResult.errors || []).join('; ') || 'Unknown error'}`
+        );
+      }
+    } else {
+      // -------------------------------------------------------------------------
+      // Step 1: Store file in blob storage
+      // -------------------------------------------------------------------------
+      if (split) {
+        // Child order: the parent already verified the shared file
+        log.info(`[${caseId}] Step 1: Using file of parent case ${split.parentCaseId}`, {
+          orderIndex: split.orderIndex,
+          orderCount: split.orderCount,
+        });
+      } else {
+        updateState('storing_file');
+        log.info(`[${caseId}] Step 1: Storing uploaded file`);
+        await updateCase({ caseId, tenantId, correlationId, status: 'storing_file', eventType: 'status_changed' });
+
+        const storeResult = await storeFile({
+          caseId,
+          blobUrl,
+        });
+
+        if (!storeResult.success) {
+          throw ApplicationFailure.nonRetryable(`Failed to store file: ${storeResult.error || 'Unknown error'}`);
+        }
 
-      // Reset selections event to allow fresh selection
-      selectionsSubmittedEvent = null;
+        log.info(`[${caseId}] Step 1: File stored successfully`, {
+          path: storeResult.storedPath,
+          sha256: storeResult.sha256,
+        });
+      }
 
-      const customerSelectionWaitResult = await waitForHumanWithEscalation({
-        conditionFn: () => selectionsSubmittedEvent !== null,
-        waitType: 'customer_selection',
-        caseId,
-        userId,
+      // -------------------------------------------------------------------------
+      // Step 2: Parse Excel
+      // -------------------------------------------------------------------------
+      updateState('parsing_excel');
+      log.info(`[${caseId}] Step 2: Parsing Excel file`);
+      await updateCase({ caseId, tenantId, correlationId, status: 'parsing', eventType: 'file_stored' });
+
+      const parseResult: ParseExcelOutput = await parseExcel(
+        split
+          ? { caseId, blobUrl, tenantId, parentCaseId: split.parentCaseId, orderIndex: split.orderIndex }
+          : { caseId, tenantId, ...(amendment && { blobUrl }) }
+      );
+
+      // Handle blocked scenarios (formulas, protected workbook, etc.)
+      if (parseResult.blocked) {
+        log.info(`[${caseId}] Step 2: File is blocked`, {
+          reason: parseResult.blockReason,
+        });
+
+        // The drafted order stays as it is; the user can reopen the case with a fixed file
+        if (amendment) {
+          throw ApplicationFailure.nonRetryable(`Amended file is blocked: ${parseResult.blockReason || 'Unknown reason'}`);
+        }
+
+        await notifyUser({
+          caseId,
+          type: 'blocked',
+          reason: parseResult.blockReason,
+        });
+
+        // Wait for user to re-upload (no timeout - Temporal handles workflow expiry)
+        log.info(`[${caseId}] Step 2: Waiting for file reupload`);
+        await condition(() => fileReuploadedEvent !== null);
+
+        const reuploadEvent = fileReuploadedEvent!;
+        log.info(`[${caseId}] Step 2: File reuploaded, restarting workflow`, {
+          newBlobUrl: reuploadEvent.blobUrl,
+        });
+
+        // Continue as new with the new file
+        return continueAsNew<typeof orderProcessingWorkflow>({
+          ...input,
+          blobUrl: reuploadEvent.blobUrl,
+          correlationId: reuploadEvent.correlationId,
+        });
+      }
+
+      if (!parseResult.success) {
+        throw ApplicationFailure.nonRetryable('Excel parsing failed');
+      }
+
+      log.info(`[${caseId}] Step 2: Excel parsed successfully`, {
+        issueCount: parseResult.issues?.length || 0,
       });
 
-      if (!customerSelectionWaitResult.received) {
-        // Timed out waiting for customer selection - auto-cancel workflow
-        log.warn(`[${caseId}] Step 4: Customer selection wait timed out, auto-cancelling workflow`);
+      // Multi-order upload: hand each order to its own child workflow
+      if (!split && parseResult.splitOrders && parseResult.splitOrders.length > 1) {
+        return await processSplitOrders(input, parseResult.splitOrders, updateState);
+      }
+
+      // -------------------------------------------------------------------------
+      // Step 3: Run committee (bounded mapping cross-check)
+      // -------------------------------------------------------------------------
+      // A remembered column template for this customer's layout replaces the committee
+      if (parseResult.templateId) {
+        log.info(`[${caseId}] Step 3: Column template applied, skipping committee`, {
+          templateId: parseResult.templateId,
+        });
         await updateCase({
           caseId,
           tenantId,
           correlationId,
-          status: 'cancelled',
-          eventType: 'workflow_cancelled',
-          updates: {
-            cancelledAt: new Date().toISOString(),
-            cancellationReason: 'Workflow timed out waiting for customer selection (7 days)',
-          },
+          status: 'resolving_customer',
+          eventType: 'file_parsed',
+          updates: { templateId: parseResult.templateId },
         });
-        throw ApplicationFailure.nonRetryable('Workflow timed out waiting for customer selection after 7 days');
+      } else {
+        updateState('running_committee');
+        log.info(`[${caseId}] Step 3: Running committee mapping validation`);
+        await updateCase({ caseId, tenantId, correlationId, status: 'running_committee', eventType: 'file_parsed' });
+
+        const committeeResult: RunCommitteeOutput = await runCommittee({ caseId, tenantId });
+
+        if (!committeeResult.success) {
+          throw ApplicationFailure.nonRetryable('Committee validation failed');
+        }
+
+        if (committeeResult.cacheHit) {
+          log.info(`[${caseId}] Step 3: Committee decision reused from cache`, {
+            costSaved: committeeResult.costSaved,
+          });
+        }
+
+        // Handle committee disagreements
+        if (committeeResult.needsHuman) {
+          log.info(`[${caseId}] Step 3: Committee needs human intervention`, {
+            consensus: committeeResult.consensus,
+            disagreements: committeeResult.disagreements,
+          });
+
+          await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_corrections', eventType: 'committee_completed' });
+          log.info(`[${caseId}] Step 3: Waiting for user corrections`);
+          await collectCorrections(committeeResult.disagreements ?? []);
+
+          // The corrected mapping scores the providers' votes for weight recalibration.
+          // A cache hit replays an earlier run's votes; scoring it would count them twice.
+          if (committeeResult.taskId && !committeeResult.cacheHit) {
+            await recordCommitteeFeedback({
+              caseId,
+              tenantId,
+              committeeTaskId: committeeResult.taskId,
+              correlationId,
+            });
+          }
+        }
       }
 
-      const selectionsEvent = selectionsSubmittedEvent!;
-      log.info(`[${caseId}] Step 4: Customer selected, applying`, {
-        selection: selectionsEvent.selections.customer,
-      });
+      // Second committee pass: extracted values against their evidence cells
+      // (the activity skips tenants without extraction review enabled)
+      const reviewResult: RunExtractionReviewOutput = await runExtractionReview({ caseId, tenantId, correlationId });
 
-      await applySelections({
-        caseId,
-        tenantId,
-        selections: selectionsEvent.selections,
-        submittedBy: selectionsEvent.submittedBy,
-        correlationId,
-      });
+      if (!reviewResult.success) {
+        // A second opinion only - the order continues on the parsed values
+        log.warn(`[${caseId}] Step 3: Extraction review failed, continuing`, {
+          error: reviewResult.error,
+        });
+      } else if (reviewResult.needsHuman) {
+        log.info(`[${caseId}] Step 3: Extraction review flagged values`, {
+          taskId: reviewResult.taskId,
+          issueCount: reviewResult.issues.length,
+        });
+
+        await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_corrections', eventType: 'committee_completed' });
+        log.info(`[${caseId}] Step 3: Waiting for corrections of extracted values`);
+        await collectCorrections(reviewResult.issues);
+      }
     }
 
-    log.info(`[${caseId}] Step 4: Customer resolved`, {
-      customerId: customerResult.zohoCustomerId,
-      customerName: customerResult.zohoCustomerName,
-    });
+    log.info(`[${caseId}] Step 3: Mapping validation complete`);
+
+    // -------------------------------------------------------------------------
+    // Step 4: Resolve customer
+    // -------------------------------------------------------------------------
+    /**
+     * Resolve the customer, waiting for the user's selection of an ambiguous
+     * match. Run again with the new name when the customer is edited in chat.
+     */
+    let zohoCustomerId: string | undefined;
+    const resolveOrderCustomer = async (customerName?: string): Promise<void> => {
+      updateState('resolving_customer');
+      log.info(`[${caseId}] Step 4: Resolving customer against Zoho`);
+      await updateCase({ caseId, tenantId, correlationId, status: 'resolving_customer', eventType: 'status_changed' });
+
+      const customerResult: ResolveCustomerOutput = await resolveCustomer({ caseId, tenantId, customerName });
+
+      if (!customerResult.success) {
+        throw ApplicationFailure.nonRetryable('Customer resolution failed');
+      }
+
+      zohoCustomerId = customerResult.zohoCustomerId;
+
+      if (customerResult.needsHuman) {
+        log.info(`[${caseId}] Step 4: Customer resolution needs human selection`, {
+          candidateCount: customerResult.candidates?.length || 0,
+        });
+
+        await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_customer_selection', eventType: 'customer_resolved' });
+        await notifyUser({
+          caseId,
+          type: 'selection_needed',
+          candidates: { customer: customerResult.candidates },
+        });
+
+        // Wait for customer selection with timeout/escalation handling
+        updateState('awaiting_customer_selection', 'awaiting_user_input');
+        log.info(`[${caseId}] Step 4: Waiting for customer selection`);
+
+        // Reset selections event to allow fresh selection
+        selectionsSubmittedEvent = null;
+
+        const customerSelectionWaitResult = await waitForHumanWithEscalation({
+          conditionFn: () => selectionsSubmittedEvent !== null,
+          waitType: 'customer_selection',
+          caseId,
+          userId,
+        });
+
+        if (!customerSelectionWaitResult.received) {
+          // Timed out waiting for customer selection - auto-cancel workflow
+          log.warn(`[${caseId}] Step 4: Customer selection wait timed out, auto-cancelling workflow`);
+          await updateCase({
+            caseId,
+            tenantId,
+            correlationId,
+            status: 'cancelled',
+            eventType: 'workflow_cancelled',
+            updates: {
+              cancelledAt: new Date().toISOString(),
+              cancellationReason: 'Workflow timed out waiting for customer selection (7 days)',
+            },
+          });
+          throw ApplicationFailure.nonRetryable('Workflow timed out waiting for customer selection after 7 days');
+        }
+
+        const selectionsEvent = selectionsSubmittedEvent!;
+        log.info(`[${caseId}] Step 4: Customer selected, applying`, {
+          selection: selectionsEvent.selections.customer,
+        });
+        zohoCustomerId = selectionsEvent.selections.customer?.zohoCustomerId ?? zohoCustomerId;
+
+        await applySelections({
+          caseId,
+          tenantId,
+          selections: selectionsEvent.selections,
+          submittedBy: selectionsEvent.submittedBy,
+          correlationId,
+        });
+      }
+
+      log.info(`[${caseId}] Step 4: Customer resolved`, {
+        customerId: zohoCustomerId,
+        customerName: customerResult.zohoCustomerName,
+      });
+    };
+
+    await resolveOrderCustomer();
 
     // -------------------------------------------------------------------------
     // Step 5: Resolve items
@@ -680,92 +1046,211 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
     log.info(`[${caseId}] Step 5: Resolving line items against Zoho catalog`);
     await updateCase({ caseId, tenantId, correlationId, status: 'resolving_items', eventType: 'customer_resolved' });
 
-    const itemsResult: ResolveItemsOutput = await resolveItems({ caseId, tenantId });
+    /**
+     * Resolve the line items, waiting for the user's selections of ambiguous
+     * matches. Run again when lines are edited on the review card.
+     */
+    const resolveLineItems = async (): Promise<ResolveItemsOutput> => {
+      const result: ResolveItemsOutput = await resolveItems({ caseId, tenantId, zohoCustomerId });
 
-    if (!itemsResult.success) {
-      throw ApplicationFailure.nonRetryable('Item resolution failed');
-    }
+      if (!result.success) {
+        throw ApplicationFailure.nonRetryable('Item resolution failed');
+      }
 
-    if (itemsResult.needsHuman) {
-      log.info(`[${caseId}] Step 5: Item resolution needs human selection`, {
-        unresolvedLines: itemsResult.unresolvedLines,
-      });
+      if (result.needsHuman) {
+        log.info(`[${caseId}] Step 5: Item resolution needs human selection`, {
+          unresolvedLines: result.unresolvedLines,
+        });
 
-      await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_item_selection', eventType: 'items_resolved' });
-      await notifyUser({
-        caseId,
-        type: 'selection_needed',
-        candidates: { items: itemsResult.candidates },
-      });
+        await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_item_selection', eventType: 'items_resolved' });
+        await notifyUser({
+          caseId,
+          type: 'selection_needed',
+          candidates: { items: result.candidates },
+        });
 
-      // Wait for item selections with timeout/escalation handling
-      updateState('awaiting_item_selection', 'awaiting_user_input');
-      log.info(`[${caseId}] Step 5: Waiting for item selections`);
+        // Wait for item selections with timeout/escalation handling
+        updateState('awaiting_item_selection', 'awaiting_user_input');
+        log.info(`[${caseId}] Step 5: Waiting for item selections`);
 
-      // Reset selections event to allow fresh selection
-      selectionsSubmittedEvent = null;
+        // Reset selections event to allow fresh selection
+        selectionsSubmittedEvent = null;
 
-      const itemSelectionWaitResult = await waitForHumanWithEscalation({
-        conditionFn: () => selectionsSubmittedEvent !== null,
-        waitType: 'item_selection',
-        caseId,
-        userId,
-      });
+        const itemSelectionWaitResult = await waitForHumanWithEscalation({
+          conditionFn: () => selectionsSubmittedEvent !== null,
+          waitType: 'item_selection',
+          caseId,
+          userId,
+        });
 
-      if (!itemSelectionWaitResult.received) {
-        // Timed out waiting for item selection - auto-cancel workflow
-        log.warn(`[${caseId}] Step 5: Item selection wait timed out, auto-cancelling workflow`);
-        await updateCase({
+        if (!itemSelectionWaitResult.received) {
+          // Timed out waiting for item selection - auto-cancel workflow
+          log.warn(`[${caseId}] Step 5: Item selection wait timed out, auto-cancelling workflow`);
+          await updateCase({
+            caseId,
+            tenantId,
+            correlationId,
+            status: 'cancelled',
+            eventType: 'workflow_cancelled',
+            updates: {
+              cancelledAt: new Date().toISOString(),
+              cancellationReason: 'Workflow timed out waiting for item selection (7 days)',
+            },
+          });
+          throw ApplicationFailure.nonRetryable('Workflow timed out waiting for item selection after 7 days');
+        }
+
+        const selectionsEvent = selectionsSubmittedEvent!;
+        log.info(`[${caseId}] Step 5: Items selected, applying`, {
+          selections: selectionsEvent.selections.items,
+        });
+
+        await applySelections({
           caseId,
           tenantId,
+          selections: selectionsEvent.selections,
+          submittedBy: selectionsEvent.submittedBy,
           correlationId,
-          status: 'cancelled',
-          eventType: 'workflow_cancelled',
-          updates: {
-            cancelledAt: new Date().toISOString(),
-            cancellationReason: 'Workflow timed out waiting for item selection (7 days)',
-          },
+          zohoCustomerId,
         });
-        throw ApplicationFailure.nonRetryable('Workflow timed out waiting for item selection after 7 days');
       }
 
-      const selectionsEvent = selectionsSubmittedEvent!;
-      log.info(`[${caseId}] Step 5: Items selected, applying`, {
-        selections: selectionsEvent.selections.items,
-      });
+      return result;
+    };
 
-      await applySelections({
-        caseId,
-        tenantId,
-        selections: selectionsEvent.selections,
-        submittedBy: selectionsEvent.submittedBy,
-        correlationId,
-      });
-    }
+    let itemsResult = await resolveLineItems();
 
     log.info(`[${caseId}] Step 5: All items resolved`);
 
     // -------------------------------------------------------------------------
     // Step 6: Await human approval
     // -------------------------------------------------------------------------
-    updateState('awaiting_approval', 'awaiting_approval');
     log.info(`[${caseId}] Step 6: Ready for approval, notifying user`);
-    await updateCase({ caseId, tenantId, correlationId, status: 'awaiting_approval', eventType: 'items_resolved' });
 
-    await notifyUser({
-      caseId,
-      type: 'ready_for_approval',
-    });
+    // Line edits on the review card re-resolve and re-price the order before asking again
+    let amendmentSummary: AmendmentSummary | undefined;
+    let approvalWaitResult: HumanWaitResult;
+    for (;;) {
+      const pricing = await checkPricing({
+        caseId,
+        tenantId,
+        zohoCustomerId,
+        resolvedItems: itemsResult.resolvedItems,
+        correlationId,
+      });
+      if (pricing.issues.length > 0) {
+        log.info(`[${caseId}] Step 6: Spreadsheet prices differ from Zoho rates`, {
+          issueCount: pricing.issues.length,
+        });
+      }
+
+      // The tab skips cases with blocking issues instead of sending an approval that is refused
+      const blockingIssueCodes = pricing.issues.filter(issue => issue.severity === 'blocker').map(issue => issue.code);
+      updateState('awaiting_approval', 'awaiting_approval');
+      await updateCase({
+        caseId,
+        tenantId,
+        correlationId,
+        status: 'awaiting_approval',
+        eventType: 'items_resolved',
+        updates: { blockingIssueCodes },
+      });
 
-    // Wait for approval with timeout/escalation handling
-    log.info(`[${caseId}] Step 6: Waiting for approval`);
+      // Amendments are approved as a line diff against the existing draft
+      if (amendmentBase) {
+        const preview = await amendZohoDraft({
+          caseId,
+          tenantId,
+          zohoOrderId: amendmentBase.zohoOrderId,
+          revision: amendmentBase.revision,
+          dryRun: true,
+        });
 
-    const approvalWaitResult = await waitForHumanWithEscalation({
-      conditionFn: () => approvalReceivedEvent !== null,
-      waitType: 'approval',
-      caseId,
-      userId,
-    });
+        if (!preview.success) {
+          throw ApplicationFailure.nonRetryable(`Cannot amend Zoho draft: ${preview.error || 'Unknown error'}`);
+        }
+
+        amendmentSummary = {
+          revision: amendmentBase.revision,
+          zohoOrderNumber: amendmentBase.zohoOrderNumber,
+          diff: preview.diff,
+        };
+        log.info(`[${caseId}] Step 6: Amendment diff computed`, {
+          changedLines: preview.diff?.changes.length,
+          customerChanged: preview.diff?.customer_changed,
+        });
+      }
+
+      await notifyUser({
+        caseId,
+        type: 'ready_for_approval',
+        orderReview: pricing.orderReview,
+        issues: pricing.issues,
+        amendment: amendmentSummary,
+      });
+
+      // Wait for approval (or line edits) with timeout/escalation handling
+      log.info(`[${caseId}] Step 6: Waiting for approval`);
+
+      correctionsSubmittedEvent = null;
+      approvalWaitResult = await waitForHumanWithEscalation({
+        conditionFn: () => approvalReceivedEvent !== null || correctionsSubmittedEvent !== null,
+        waitType: 'approval',
+        caseId,
+        userId,
+      });
+
+      // Blocking issues (e.g. UOM_FRACTIONAL_QUANTITY) must be fixed first; an approval
+      // sent anyway (the card hides the button, the tab skips such cases) shows the review again
+      if (
+        approvalWaitResult.received &&
+        approvalReceivedEvent?.approved &&
+        blockingIssueCodes.length > 0
+      ) {
+        log.warn(`[${caseId}] Step 6: Approval refused, order has blocking issues`, {
+          approvedBy: approvalReceivedEvent.approvedBy,
+          codes: blockingIssueCodes,
+        });
+        approvalReceivedEvent = null;
+        continue;
+      }
+
+      if (!approvalWaitResult.received || approvalReceivedEvent !== null) {
+        break;
+      }
+
+      const reviewEdits: CorrectionsSubmittedEvent = correctionsSubmittedEvent!;
+      log.info(`[${caseId}] Step 6: Line edits received, applying`, {
+        submittedBy: reviewEdits.submittedBy,
+        patchCount: reviewEdits.patch?.length ?? 0,
+      });
+
+      const editResult = await applyCorrections({
+        caseId,
+        tenantId,
+        corrections: reviewEdits.corrections,
+        patch: reviewEdits.patch,
+        submittedBy: reviewEdits.submittedBy,
+        correlationId,
+      });
+
+      if (!editResult.success) {
+        // The order is unchanged; the user is shown the same review again
+        log.warn(`[${caseId}] Step 6: Line edits rejected`, { errors: editResult.errors });
+      } else {
+        // A new customer name is matched again before the lines, whose prices depend on it
+        const customerEdit = reviewEdits.patch?.find(
+          op => op.op === 'replace' && op.path === '/customer/input_name' && typeof op.value === 'string'
+        );
+        if (customerEdit) {
+          await resolveOrderCustomer(customerEdit.value as string);
+        }
+
+        updateState('resolving_items');
+        await updateCase({ caseId, tenantId, correlationId, status: 'resolving_items', eventType: 'corrections_submitted' });
+        itemsResult = await resolveLineItems();
+      }
+    }
 
     if (!approvalWaitResult.received) {
       // Timed out waiting for approval - auto-cancel workflow
@@ -806,6 +1291,11 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
         },
       });
 
+      if (amendmentBase) {
+        // The existing draft is unchanged; restore the order it was built from
+        await revertAmendment({ caseId, tenantId, revision: amendmentBase.revision, reason: 'rejected' });
+      }
+
       return {
         status: 'cancelled',
       };
@@ -817,13 +1307,21 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
     });
 
     // -------------------------------------------------------------------------
-    // Step 7: Create Zoho draft sales order
+    // Step 7: Create Zoho draft sales order (or update the amended draft)
     // -------------------------------------------------------------------------
     updateState('creating_zoho_draft');
-    log.info(`[${caseId}] Step 7: Creating Zoho draft sales order`);
+    log.info(`[${caseId}] Step 7: ${amendmentBase ? 'Updating amended' : 'Creating'} Zoho draft sales order`);
     await updateCase({ caseId, tenantId, correlationId, status: 'creating_zoho_draft', eventType: 'approval_received' });
 
-    const zohoResult: CreateZohoDraftOutput = await createZohoDraftAggressive({ caseId });
+    const zohoResult: CreateZohoDraftOutput = amendmentBase
+      ? await amendZohoDraftAggressive({
+        caseId,
+        tenantId,
+        zohoOrderId: amendmentBase.zohoOrderId,
+        revision: amendmentBase.revision,
+      })
+      : await createZohoDraftAggressive({ caseId });
+    draftAmended = !!amendmentBase && zohoResult.success;
 
     if (!zohoResult.success) {
       if (zohoResult.queued) {
@@ -876,6 +1374,8 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
         userId,
         correlationId,
         zohoOrderId: zohoResult.salesorder_id,
+        parentCaseId: split?.parentCaseId,
+        amendmentRevision: amendmentBase?.revision,
       });
 
       if (auditResult.success) {
@@ -909,6 +1409,7 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
       type: 'complete',
       zohoOrderId: zohoResult.salesorder_id,
       auditManifestPath,
+      amendment: amendmentSummary,
     });
 
     await updateCase({
@@ -916,11 +1417,11 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
       tenantId,
       correlationId,
       status: 'completed',
-      eventType: 'zoho_draft_created',
+      eventType: amendmentBase ? 'zoho_draft_amended' : 'zoho_draft_created',
       updates: {
         completedAt: new Date().toISOString(),
-        zohoSalesorderId: zohoResult.salesorder_id,
-        zohoSalesorderNumber: zohoResult.salesorder_number,
+        zohoOrderId: zohoResult.salesorder_id,
+        zohoOrderNumber: zohoResult.salesorder_number ?? amendmentBase?.zohoOrderNumber,
       },
     });
 
@@ -958,6 +1459,11 @@ export async function orderProcessingWorkflow(input: OrderProcessingInput): Prom
       },
     });
 
+    if (amendmentBase && !draftAmended) {
+      // A failed amendment leaves the existing draft, and the case, as they were
+      await revertAmendment({ caseId, tenantId, revision: amendmentBase.revision, reason: 'failed' });
+    }
+
     return {
       status: 'failed',
       error: errorMessage,
@@ -25,6 +25,41 @@ export interface OrderProcessingInput {
   correlationId: string;
   /** Microsoft Teams context for notifications */
   teams: TeamsContext;
+  /** Set when this run is one order split out of a multi-order workbook */
+  split?: SplitOrderContext;
+  /** Set when a completed case is reopened to amend its Zoho draft */
+  amendment?: OrderAmendmentContext;
+}
+
+/**
+ * Reopens a completed case against its existing Zoho draft. The amended order
+ * is diffed against the drafted one, approved, and the draft updated in place.
+ */
+export interface OrderAmendmentContext {
+  /**
+   * 'reupload': blobUrl is the customer's revised file and goes through parsing
+   * again; 'edit': corrections and patch are applied to the drafted order
+   */
+  source: 'reupload' | 'edit';
+  /** Field corrections for source 'edit' (JSON paths into the canonical order) */
+  corrections?: CorrectionData;
+  /** Line edits for source 'edit', from a confirmed chat edit */
+  patch?: JsonPatchOperation[];
+  /** User who reopened the case */
+  requestedBy: string;
+}
+
+/**
+ * Links a child order workflow to the parent case whose file it was split from.
+ * Children share the parent's file, audit bundle and Teams thread.
+ */
+export interface SplitOrderContext {
+  /** Case ID of the parent upload */
+  parentCaseId: string;
+  /** 0-based index of this order within the workbook */
+  orderIndex: number;
+  /** Total number of orders split from the workbook */
+  orderCount: number;
 }
 
 /**
@@ -48,6 +83,24 @@ export interface OrderProcessingOutput {
   zohoOrderNumber?: string;
   /** Error message if workflow failed */
   error?: string;
+  /** Per-order results when the upload was split into several orders */
+  childOrders?: ChildOrderSummary[];
+}
+
+/**
+ * Summary of one child order of a multi-order upload
+ */
+export interface ChildOrderSummary {
+  caseId: string;
+  orderIndex: number;
+  /** Sheet the order was read from */
+  sheet?: string;
+  customerName?: string | null;
+  lineCount: number;
+  /** Child workflow status ('processing' until the child completes) */
+  status: 'processing' | OrderProcessingOutput['status'];
+  zohoOrderNumber?: string;
+  error?: string;
 }
 
 // ============================================================================
@@ -72,6 +125,8 @@ export interface CorrectionsSubmittedEvent {
   caseId: string;
   /** User corrections for disputed mappings */
   corrections: CorrectionData;
+  /** Line edits from the review card (applied after the field corrections) */
+  patch?: JsonPatchOperation[];
   /** User who submitted corrections */
   submittedBy: string;
   /** ISO timestamp of submission */
@@ -89,6 +144,17 @@ export interface CorrectionData {
   };
 }
 
+/**
+ * JSON Patch operation (RFC 6902) on the canonical data
+ * Only add, remove and replace are applied.
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  /** JSON Pointer, e.g. /line_items/3/quantity or /line_items/- */
+  path: string;
+  value?: unknown;
+}
+
 /**
  * Event sent when user makes selections for ambiguous matches
  */
@@ -158,6 +224,14 @@ export interface StoreFileOutput {
  */
 export interface ParseExcelInput {
   caseId: string;
+  /** Blob URL of the file (defaults to the case's original upload) */
+  blobUrl?: string;
+  /** Tenant of the case (used to look up the customer's column template) */
+  tenantId?: string;
+  /** For child orders: case whose upload contains this order */
+  parentCaseId?: string;
+  /** For child orders: which split order to return */
+  orderIndex?: number;
 }
 
 /**
@@ -175,6 +249,10 @@ export interface ParseExcelOutput {
   canonicalData?: CanonicalOrderData;
   /** Issues found during parsing */
   issues?: ParseIssue[];
+  /** Set when the workbook contains several orders (multi-order mode) */
+  splitOrders?: ChildOrderSummary[];
+  /** Set when a remembered column template replaced schema inference */
+  templateId?: string;
 }
 
 /**
@@ -228,6 +306,8 @@ export interface ParseIssue {
  */
 export interface RunCommitteeInput {
   caseId: string;
+  /** Charged for the run against the tenant's daily committee budget */
+  tenantId?: string;
 }
 
 /**
@@ -241,6 +321,24 @@ export interface RunCommitteeOutput {
   consensus: 'unanimous' | 'majority' | 'split' | 'no_consensus';
   /** Details of disagreements requiring resolution */
   disagreements?: CommitteeDisagreement[];
+  /** Committee run ID (raw provider outputs are stored under it) */
+  taskId?: string;
+  /** Whether the decision came from the committee cache */
+  cacheHit?: boolean;
+  /** Provider calls avoided by a cache hit */
+  costSaved?: {
+    providerCalls: number;
+    executionTimeMs: number;
+    costUsd?: number;
+    sourceTaskId?: string;
+  };
+  /** Token usage and cost of the run (zero for cache hits) */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    providerCalls: number;
+  };
 }
 
 /**
@@ -252,12 +350,69 @@ export interface CommitteeDisagreement {
   confidence: Record<string, number>;
 }
 
+/**
+ * Input for RunExtractionReview activity
+ */
+export interface RunExtractionReviewInput {
+  caseId: string;
+  tenantId: string;
+  correlationId?: string;
+}
+
+/**
+ * Output from RunExtractionReview activity
+ */
+export interface RunExtractionReviewOutput {
+  success: boolean;
+  /** Not enabled for the tenant, or nothing with evidence to review */
+  skipped?: boolean;
+  /** Whether any extracted value needs a user correction */
+  needsHuman: boolean;
+  /** Field-level issues for the corrections card (fields[0] is a JSON path) */
+  issues: Array<{
+    code: string;
+    severity: 'info' | 'warning' | 'error' | 'blocker';
+    message: string;
+    messageEn: string;
+    fields?: string[];
+    suggestedUserAction?: string;
+  }>;
+  reviewedCount?: number;
+  /** Committee run ID (raw provider outputs are stored under it) */
+  taskId?: string;
+  error?: string;
+}
+
+/**
+ * Input for RecordCommitteeFeedback activity
+ */
+export interface RecordCommitteeFeedbackInput {
+  caseId: string;
+  tenantId: string;
+  /** Committee run whose votes are scored */
+  committeeTaskId: string;
+  correlationId?: string;
+}
+
+/**
+ * Output from RecordCommitteeFeedback activity
+ */
+export interface RecordCommitteeFeedbackOutput {
+  success: boolean;
+  scoredProviders: string[];
+  /** Weight proposal created by this feedback (awaits approval) */
+  proposalId?: string;
+  error?: string;
+}
+
 /**
  * Input for ResolveCustomer activity
  */
 export interface ResolveCustomerInput {
   caseId: string;
   tenantId: string;
+  /** Customer name to match instead of the parsed one (e.g. after a chat edit) */
+  customerName?: string;
 }
 
 /**
@@ -293,6 +448,8 @@ export interface CustomerCandidate {
 export interface ResolveItemsInput {
   caseId: string;
   tenantId: string;
+  /** Resolved customer (enables the customer's learned item aliases) */
+  zohoCustomerId?: string;
 }
 
 /**
@@ -304,6 +461,8 @@ export interface ResolveItemsOutput {
   allResolved: boolean;
   /** Whether human selection is needed */
   needsHuman: boolean;
+  /** Automatically resolved items with their Zoho item rate */
+  resolvedItems?: Array<{ row: number; zohoItemId: string; rate: number }>;
   /** Line numbers that couldn't be resolved */
   unresolvedLines?: number[];
   /** Candidate matches by line number */
@@ -322,6 +481,42 @@ export interface ItemCandidate {
   matchReasons?: string[];
 }
 
+/**
+ * Input for CheckPricing activity
+ */
+export interface CheckPricingInput {
+  caseId: string;
+  tenantId: string;
+  zohoCustomerId?: string;
+  /** Items resolved automatically (user selections are read from the case) */
+  resolvedItems?: Array<{ row: number; zohoItemId: string; rate: number }>;
+  correlationId?: string;
+}
+
+/**
+ * Output from CheckPricing activity
+ */
+export interface CheckPricingOutput {
+  success: boolean;
+  /** PRICE_VARIANCE warnings and UOM_* blockers for the approval card */
+  issues: Array<{
+    code: string;
+    severity: 'info' | 'warning' | 'error' | 'blocker';
+    message: string;
+    messageEn: string;
+    fields?: string[];
+    suggestedUserAction?: string;
+  }>;
+  /** Order summary for the approval card */
+  orderReview?: {
+    customerName: string;
+    lineItemCount: number;
+    totalSource: string;
+    totalZoho: string;
+    warnings: string[];
+  };
+}
+
 /**
  * Input for CreateZohoDraft activity
  */
@@ -348,6 +543,108 @@ export interface CreateZohoDraftOutput {
   is_duplicate?: boolean;
 }
 
+/**
+ * Input for PrepareAmendment activity
+ */
+export interface PrepareAmendmentInput {
+  caseId: string;
+  tenantId: string;
+}
+
+/**
+ * Output from PrepareAmendment activity
+ */
+export interface PrepareAmendmentOutput {
+  success: boolean;
+  /** Draft being amended */
+  zohoOrderId?: string;
+  zohoOrderNumber?: string;
+  /** 1 for the first amendment of the case */
+  revision?: number;
+  /** Blob path of the pre-amendment canonical order */
+  snapshotPath?: string;
+  error?: string;
+}
+
+/**
+ * Input for RevertAmendment activity
+ */
+export interface RevertAmendmentInput {
+  caseId: string;
+  tenantId: string;
+  revision: number;
+  reason: 'rejected' | 'failed';
+}
+
+/**
+ * Output from RevertAmendment activity
+ */
+export interface RevertAmendmentOutput {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Input for AmendZohoDraft activity
+ */
+export interface AmendZohoDraftInput {
+  caseId: string;
+  tenantId: string;
+  zohoOrderId: string;
+  revision: number;
+  /** Only compute the diff, do not update Zoho */
+  dryRun?: boolean;
+}
+
+/**
+ * One line that differs between the drafted and the amended order
+ */
+export interface AmendmentLineChange {
+  change: 'added' | 'removed' | 'changed';
+  zoho_item_id: string;
+  item_name: string | null;
+  unit: string | null;
+  previous_row: number | null;
+  amended_row: number | null;
+  previous_quantity: number | null;
+  amended_quantity: number | null;
+}
+
+/**
+ * Line diff between the drafted and the amended order
+ */
+export interface AmendmentDiff {
+  changes: AmendmentLineChange[];
+  unchanged_lines: number;
+  customer_changed: boolean;
+}
+
+/**
+ * Output from AmendZohoDraft activity
+ */
+export interface AmendZohoDraftOutput {
+  success: boolean;
+  /** Zoho Sales Order ID */
+  salesorder_id?: string;
+  /** Zoho Sales Order number */
+  salesorder_number?: string;
+  /** False when the amendment had no changes and Zoho was not called */
+  updated?: boolean;
+  /** Line diff (absent in mock mode) */
+  diff?: AmendmentDiff;
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Amendment shown on approval and completion cards
+ */
+export interface AmendmentSummary {
+  revision: number;
+  zohoOrderNumber?: string;
+  diff?: AmendmentDiff;
+}
+
 /**
  * Input for NotifyUser activity
  */
@@ -357,11 +654,17 @@ export interface NotifyUserInput {
   reason?: string;
   issues?: unknown[];
   candidates?: unknown;
+  /** Order summary for ready_for_approval notifications */
+  orderReview?: CheckPricingOutput['orderReview'];
   zohoOrderId?: string;
   /** Path to audit manifest in blob storage (for completion notifications) */
   auditManifestPath?: string;
   /** Wait context for reminder/escalation/timeout notifications */
   waitContext?: HumanWaitContext;
+  /** Child orders for multi_order_summary notifications */
+  childOrders?: ChildOrderSummary[];
+  /** Set on ready_for_approval/complete notifications of an amendment */
+  amendment?: AmendmentSummary;
 }
 
 /**
@@ -417,6 +720,7 @@ export type NotificationType =
   | 'ready_for_approval'
   | 'complete'
   | 'failed'
+  | 'multi_order_summary' // Parent summary of orders split from one upload
   | 'reminder'           // Reminder after waiting too long
   | 'escalation'         // Escalation notification (manager included)
   | 'timeout_warning';   // Final warning before auto-cancel
@@ -445,6 +749,9 @@ export type UpdateCaseEventType =
   | 'item_selection_submitted'
   | 'approval_received'
   | 'zoho_draft_created'
+  | 'amendment_started'
+  | 'zoho_draft_amended'
+  | 'orders_split'
   | 'workflow_completed'
   | 'workflow_failed'
   | 'workflow_cancelled';
@@ -462,6 +769,24 @@ export interface UpdateCaseInput {
   correlationId?: string;
 }
 
+/**
+ * Input for CreateChildCases activity
+ */
+export interface CreateChildCasesInput {
+  parentCaseId: string;
+  tenantId: string;
+  correlationId?: string;
+  childOrders: Array<{ caseId: string; orderIndex: number }>;
+}
+
+/**
+ * Output from CreateChildCases activity
+ */
+export interface CreateChildCasesOutput {
+  success: boolean;
+  childCaseIds: string[];
+}
+
 /**
  * Valid case statuses
  */
@@ -475,6 +800,7 @@ export type CaseStatus =
   | 'resolving_items'
   | 'awaiting_item_selection'
   | 'awaiting_approval'
+  | 'awaiting_child_orders'
   | 'creating_zoho_draft'
   | 'queued_for_zoho'
   | 'completed'
@@ -495,6 +821,7 @@ export interface ApplyCorrectionsInput {
   caseId: string;
   tenantId: string;
   corrections: CorrectionData;
+  patch?: JsonPatchOperation[];
   submittedBy: string;
   correlationId: string;
 }
@@ -519,6 +846,8 @@ export interface ApplySelectionsInput {
   selections: SelectionData;
   submittedBy: string;
   correlationId: string;
+  /** Resolved customer (item selections are learned as its aliases) */
+  zohoCustomerId?: string;
 }
 
 /**
@@ -572,6 +901,12 @@ export interface FinalizeAuditInput {
   correlationId?: string;
   /** Zoho order ID to include in audit manifest */
   zohoOrderId?: string;
+  /** For child orders: parent case holding the shared original file and bundle */
+  parentCaseId?: string;
+  /** For split parents: child case IDs to reference from the parent manifest */
+  childCaseIds?: string[];
+  /** For amendments: revision whose manifest is written next to the original */
+  amendmentRevision?: number;
 }
 
 /**
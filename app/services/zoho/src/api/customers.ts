@@ -17,21 +17,28 @@ import {
   ZohoPaginatedResponse,
   ZohoApiResponse,
   ZohoAuditLog,
+  ZohoRequestPriority,
 } from '../types.js';
 import { ZohoOAuthManager } from '../auth/oauth-manager.js';
 import { BlobAuditStore } from '../storage/blob-audit-store.js';
+import { ZohoRateLimitGovernor } from '../rate-limit/rate-limit-governor.js';
 
 export interface ListCustomersOptions {
   status?: 'active' | 'inactive' | 'all';
   searchText?: string;
   page?: number;
   perPage?: number;
+  /** Sort order, e.g. most recently modified first for delta sync */
+  sortColumn?: 'last_modified_time' | 'created_time';
+  sortOrder?: 'A' | 'D';
   /** Correlation ID for audit logging */
   correlationId?: string;
   /** Case ID for audit logging */
   caseId?: string;
   /** Tenant ID for audit logging */
   tenantId?: string;
+  /** Rate limit priority (default: normal; cache refreshes use low) */
+  priority?: ZohoRequestPriority;
 }
 
 export class ZohoCustomersApi {
@@ -39,11 +46,19 @@ export class ZohoCustomersApi {
 
   constructor(
     private readonly oauth: ZohoOAuthManager,
-    auditStore?: BlobAuditStore
+    auditStore?: BlobAuditStore,
+    private readonly rateLimiter?: ZohoRateLimitGovernor
   ) {
     this.auditStore = auditStore;
   }
 
+  /**
+   * Get the Zoho organization these customers belong to
+   */
+  async getOrganizationId(): Promise<string> {
+    return this.oauth.getOrganizationId();
+  }
+
   /**
    * List all customers with optional filtering
    */
@@ -77,6 +92,11 @@ export class ZohoCustomersApi {
       params.per_page = String(options.perPage);
     }
 
+    if (options.sortColumn) {
+      params.sort_column = options.sortColumn;
+      params.sort_order = options.sortOrder || 'A';
+    }
+
     const startTime = Date.now();
 
     // Log request to blob storage before sending
@@ -93,16 +113,18 @@ export class ZohoCustomersApi {
     }
 
     try {
-      const response = await axios.get<ZohoPaginatedResponse<ZohoCustomer>>(
-        url,
-        {
-          params,
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoPaginatedResponse<ZohoCustomer>>(
+          url,
+          {
+            params,
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       const duration = Date.now() - startTime;
@@ -175,7 +197,7 @@ export class ZohoCustomersApi {
    */
   async getCustomer(
     customerId: string,
-    options: { correlationId?: string; caseId?: string; tenantId?: string } = {}
+    options: { correlationId?: string; caseId?: string; tenantId?: string; priority?: ZohoRequestPriority } = {}
   ): Promise<ZohoCustomer | null> {
     const baseUrl = await this.oauth.getApiBaseUrl();
     const orgId = await this.oauth.getOrganizationId();
@@ -202,16 +224,18 @@ export class ZohoCustomersApi {
     }
 
     try {
-      const response = await axios.get<ZohoApiResponse<{ contact: ZohoCustomer }>>(
-        url,
-        {
-          params: { organization_id: orgId },
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoApiResponse<{ contact: ZohoCustomer }>>(
+          url,
+          {
+            params: { organization_id: orgId },
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       const duration = Date.now() - startTime;
@@ -301,6 +325,15 @@ export class ZohoCustomersApi {
     });
   }
 
+  /**
+   * Send a request through the rate limit governor (if configured)
+   */
+  private send<T>(orgId: string, priority: ZohoRequestPriority | undefined, request: () => Promise<T>): Promise<T> {
+    return this.rateLimiter
+      ? this.rateLimiter.schedule(orgId, priority ?? 'normal', request)
+      : request();
+  }
+
   /**
    * Handle API errors with proper logging
    */
@@ -4,6 +4,7 @@
  * Provides methods to list and search items in Zoho Books.
  * Never creates items - all items must exist in Zoho.
  * Supports GTIN lookup via custom field.
+ * Reads pack sizes (pieces per carton) from a custom field for UOM conversion.
  *
  * Audit Logging:
  * - All API requests/responses are logged to Azure Blob Storage
@@ -18,9 +19,13 @@ import {
   ZohoPaginatedResponse,
   ZohoApiResponse,
   ZohoAuditLog,
+  UnitConversionTable,
+  ZohoRequestPriority,
 } from '../types.js';
 import { ZohoOAuthManager } from '../auth/oauth-manager.js';
 import { BlobAuditStore } from '../storage/blob-audit-store.js';
+import { ZohoRateLimitGovernor } from '../rate-limit/rate-limit-governor.js';
+import { buildUnitConversionTable } from '../payload/unit-converter.js';
 
 export interface ListItemsOptions {
   status?: 'active' | 'inactive' | 'all';
@@ -28,12 +33,17 @@ export interface ListItemsOptions {
   sku?: string;
   page?: number;
   perPage?: number;
+  /** Sort order, e.g. most recently modified first for delta sync */
+  sortColumn?: 'last_modified_time' | 'created_time';
+  sortOrder?: 'A' | 'D';
   /** Correlation ID for audit logging */
   correlationId?: string;
   /** Case ID for audit logging */
   caseId?: string;
   /** Tenant ID for audit logging */
   tenantId?: string;
+  /** Rate limit priority (default: normal; cache refreshes use low) */
+  priority?: ZohoRequestPriority;
 }
 
 export class ZohoItemsApi {
@@ -42,11 +52,20 @@ export class ZohoItemsApi {
   constructor(
     private readonly oauth: ZohoOAuthManager,
     private readonly gtinCustomFieldId?: string,
-    auditStore?: BlobAuditStore
+    auditStore?: BlobAuditStore,
+    private readonly packSizeCustomFieldId?: string,
+    private readonly rateLimiter?: ZohoRateLimitGovernor
   ) {
     this.auditStore = auditStore;
   }
 
+  /**
+   * Get the Zoho organization these items belong to
+   */
+  async getOrganizationId(): Promise<string> {
+    return this.oauth.getOrganizationId();
+  }
+
   /**
    * List all items with optional filtering
    */
@@ -84,6 +103,11 @@ export class ZohoItemsApi {
       params.per_page = String(options.perPage);
     }
 
+    if (options.sortColumn) {
+      params.sort_column = options.sortColumn;
+      params.sort_order = options.sortOrder || 'A';
+    }
+
     const startTime = Date.now();
 
     // Log request to blob storage before sending
@@ -100,16 +124,18 @@ export class ZohoItemsApi {
     }
 
     try {
-      const response = await axios.get<ZohoPaginatedResponse<ZohoItem>>(
-        url,
-        {
-          params,
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoPaginatedResponse<ZohoItem>>(
+          url,
+          {
+            params,
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       const duration = Date.now() - startTime;
@@ -178,7 +204,7 @@ export class ZohoItemsApi {
    */
   async getItem(
     itemId: string,
-    options: { correlationId?: string; caseId?: string; tenantId?: string } = {}
+    options: { correlationId?: string; caseId?: string; tenantId?: string; priority?: ZohoRequestPriority } = {}
   ): Promise<ZohoItem | null> {
     const baseUrl = await this.oauth.getApiBaseUrl();
     const orgId = await this.oauth.getOrganizationId();
@@ -205,16 +231,18 @@ export class ZohoItemsApi {
     }
 
     try {
-      const response = await axios.get<ZohoApiResponse<{ item: ZohoItem }>>(
-        url,
-        {
-          params: { organization_id: orgId },
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoApiResponse<{ item: ZohoItem }>>(
+          url,
+          {
+            params: { organization_id: orgId },
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       const duration = Date.now() - startTime;
@@ -330,6 +358,29 @@ export class ZohoItemsApi {
     return gtinField?.value ? String(gtinField.value) : null;
   }
 
+  /**
+   * Extract pack size (pieces per pack/box/carton) from item's custom fields
+   */
+  getPackSizeFromItem(item: ZohoItem): number | null {
+    if (!this.packSizeCustomFieldId || !item.custom_fields) {
+      return null;
+    }
+
+    const packSizeField = item.custom_fields.find(
+      (field) => field.customfield_id === this.packSizeCustomFieldId
+    );
+
+    const packSize = Number(packSizeField?.value);
+    return Number.isFinite(packSize) && packSize > 0 ? packSize : null;
+  }
+
+  /**
+   * Build the item's unit conversion table from its unit and pack size
+   */
+  getUnitConversionsFromItem(item: ZohoItem): UnitConversionTable {
+    return buildUnitConversionTable(item.unit, this.getPackSizeFromItem(item));
+  }
+
   /**
    * Search items by GTIN (requires loading all items and filtering)
    * Note: This is less efficient than SKU search due to Zoho API limitations
@@ -366,6 +417,15 @@ export class ZohoItemsApi {
     return gtin.replace(/\s+/g, '').trim();
   }
 
+  /**
+   * Send a request through the rate limit governor (if configured)
+   */
+  private send<T>(orgId: string, priority: ZohoRequestPriority | undefined, request: () => Promise<T>): Promise<T> {
+    return this.rateLimiter
+      ? this.rateLimiter.schedule(orgId, priority ?? 'normal', request)
+      : request();
+  }
+
   /**
    * Handle API errors with proper logging
    */
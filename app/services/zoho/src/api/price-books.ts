@@ -0,0 +1,330 @@
+/**
+ * Zoho Books Price Lists API
+ *
+ * Provides methods to read price lists (Zoho "pricebooks").
+ * Never creates or edits price lists - they are maintained in Zoho.
+ *
+ * Audit Logging:
+ * - All API requests/responses are logged to Azure Blob Storage
+ * - 5-year retention for compliance
+ * - Graceful degradation if audit logging fails
+ */
+
+import axios, { AxiosError } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ZohoPriceBook,
+  ZohoPaginatedResponse,
+  ZohoApiResponse,
+  ZohoAuditLog,
+  ZohoRequestPriority,
+} from '../types.js';
+import { ZohoOAuthManager } from '../auth/oauth-manager.js';
+import { BlobAuditStore } from '../storage/blob-audit-store.js';
+import { ZohoRateLimitGovernor } from '../rate-limit/rate-limit-governor.js';
+
+export interface ListPriceBooksOptions {
+  status?: 'active' | 'inactive' | 'all';
+  /** Correlation ID for audit logging */
+  correlationId?: string;
+  /** Case ID for audit logging */
+  caseId?: string;
+  /** Tenant ID for audit logging */
+  tenantId?: string;
+  /** Rate limit priority (default: normal; cache refreshes use low) */
+  priority?: ZohoRequestPriority;
+}
+
+export class ZohoPriceBooksApi {
+  private readonly auditStore?: BlobAuditStore;
+
+  constructor(
+    private readonly oauth: ZohoOAuthManager,
+    auditStore?: BlobAuditStore,
+    private readonly rateLimiter?: ZohoRateLimitGovernor
+  ) {
+    this.auditStore = auditStore;
+  }
+
+  /**
+   * List price lists (without their item rates)
+   */
+  async listPriceBooks(options: ListPriceBooksOptions = {}): Promise<ZohoPriceBook[]> {
+    const baseUrl = await this.oauth.getApiBaseUrl();
+    const orgId = await this.oauth.getOrganizationId();
+    const token = await this.oauth.getAccessToken();
+
+    const correlationId = options.correlationId || uuidv4();
+    const caseId = options.caseId || '';
+    const tenantId = options.tenantId || '';
+    const url = `${baseUrl}/books/v3/pricebooks`;
+
+    const params: Record<string, string> = {
+      organization_id: orgId,
+    };
+
+    if (options.status && options.status !== 'all') {
+      params.filter_by = `Status.${options.status === 'active' ? 'Active' : 'Inactive'}`;
+    }
+
+    const startTime = Date.now();
+
+    // Log request to blob storage before sending
+    if (this.auditStore) {
+      await this.auditStore.logApiRequest({
+        operation: 'pricebooks/list',
+        correlationId,
+        caseId,
+        tenantId,
+        method: 'GET',
+        url,
+        requestBody: { params: { ...params, organization_id: '[REDACTED]' } },
+      }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log request failed:', err));
+    }
+
+    try {
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoPaginatedResponse<ZohoPriceBook>>(
+          url,
+          {
+            params,
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
+      );
+
+      const duration = Date.now() - startTime;
+      const priceBooks = response.data.data || [];
+
+      // Log successful response to blob storage
+      if (this.auditStore) {
+        await this.auditStore.logApiResponse({
+          operation: 'pricebooks/list',
+          correlationId,
+          caseId,
+          tenantId,
+          method: 'GET',
+          url,
+          statusCode: response.status,
+          responseBody: { count: priceBooks.length },
+          durationMs: duration,
+        }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log response failed:', err));
+      }
+
+      this.logAudit({
+        correlation_id: correlationId,
+        case_id: caseId,
+        timestamp: new Date().toISOString(),
+        operation: 'pricebook_lookup',
+        request: {
+          method: 'GET',
+          url,
+        },
+        response: {
+          status: response.status,
+          body: { count: priceBooks.length },
+        },
+        duration_ms: duration,
+      });
+
+      return priceBooks;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      // Log error response to blob storage
+      if (this.auditStore) {
+        const axiosError = axios.isAxiosError(error) ? error as AxiosError : null;
+        await this.auditStore.logApiResponse({
+          operation: 'pricebooks/list',
+          correlationId,
+          caseId,
+          tenantId,
+          method: 'GET',
+          url,
+          statusCode: axiosError?.response?.status || 0,
+          responseBody: axiosError?.response?.data as object | undefined,
+          errorMessage: (error as Error).message,
+          durationMs: duration,
+        }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log error failed:', err));
+      }
+
+      this.handleApiError(error, 'pricebook_lookup', duration);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a price list with its item rates and volume brackets
+   */
+  async getPriceBook(
+    pricebookId: string,
+    options: { correlationId?: string; caseId?: string; tenantId?: string; priority?: ZohoRequestPriority } = {}
+  ): Promise<ZohoPriceBook | null> {
+    const baseUrl = await this.oauth.getApiBaseUrl();
+    const orgId = await this.oauth.getOrganizationId();
+    const token = await this.oauth.getAccessToken();
+
+    const correlationId = options.correlationId || uuidv4();
+    const caseId = options.caseId || '';
+    const tenantId = options.tenantId || '';
+    const url = `${baseUrl}/books/v3/pricebooks/${pricebookId}`;
+
+    const startTime = Date.now();
+
+    // Log request to blob storage before sending
+    if (this.auditStore) {
+      await this.auditStore.logApiRequest({
+        operation: 'pricebooks/get',
+        correlationId,
+        caseId,
+        tenantId,
+        method: 'GET',
+        url,
+        requestBody: { pricebookId },
+      }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log request failed:', err));
+    }
+
+    try {
+      const response = await this.send(orgId, options.priority, () =>
+        axios.get<ZohoApiResponse<{ pricebook: ZohoPriceBook }>>(
+          url,
+          {
+            params: { organization_id: orgId },
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
+      );
+
+      const duration = Date.now() - startTime;
+      const priceBook = response.data.data?.pricebook || null;
+
+      // Log successful response to blob storage
+      if (this.auditStore) {
+        await this.auditStore.logApiResponse({
+          operation: 'pricebooks/get',
+          correlationId,
+          caseId,
+          tenantId,
+          method: 'GET',
+          url,
+          statusCode: response.status,
+          responseBody: {
+            found: !!priceBook,
+            itemCount: priceBook?.pricebook_items?.length || 0,
+          },
+          durationMs: duration,
+        }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log response failed:', err));
+      }
+
+      this.logAudit({
+        correlation_id: correlationId,
+        case_id: caseId,
+        timestamp: new Date().toISOString(),
+        operation: 'pricebook_lookup',
+        request: {
+          method: 'GET',
+          url,
+        },
+        response: {
+          status: response.status,
+        },
+        duration_ms: duration,
+      });
+
+      return priceBook;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        // Log 404 as a valid response (not found)
+        if (this.auditStore) {
+          await this.auditStore.logApiResponse({
+            operation: 'pricebooks/get',
+            correlationId,
+            caseId,
+            tenantId,
+            method: 'GET',
+            url,
+            statusCode: 404,
+            responseBody: { found: false },
+            durationMs: duration,
+          }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log response failed:', err));
+        }
+        return null;
+      }
+
+      // Log error response to blob storage
+      if (this.auditStore) {
+        const axiosError = axios.isAxiosError(error) ? error as AxiosError : null;
+        await this.auditStore.logApiResponse({
+          operation: 'pricebooks/get',
+          correlationId,
+          caseId,
+          tenantId,
+          method: 'GET',
+          url,
+          statusCode: axiosError?.response?.status || 0,
+          responseBody: axiosError?.response?.data as object | undefined,
+          errorMessage: (error as Error).message,
+          durationMs: duration,
+        }).catch(err => console.warn('[ZohoPriceBooksApi] Audit log error failed:', err));
+      }
+
+      this.handleApiError(error, 'pricebook_lookup', duration);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request through the rate limit governor (if configured)
+   */
+  private send<T>(orgId: string, priority: ZohoRequestPriority | undefined, request: () => Promise<T>): Promise<T> {
+    return this.rateLimiter
+      ? this.rateLimiter.schedule(orgId, priority ?? 'normal', request)
+      : request();
+  }
+
+  /**
+   * Handle API errors with proper logging
+   */
+  private handleApiError(error: unknown, operation: ZohoAuditLog['operation'], duration: number): void {
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError;
+
+      this.logAudit({
+        correlation_id: '',
+        case_id: '',
+        timestamp: new Date().toISOString(),
+        operation,
+        request: {
+          method: axiosError.config?.method?.toUpperCase() || 'UNKNOWN',
+          url: axiosError.config?.url || '',
+        },
+        response: {
+          status: axiosError.response?.status || 0,
+          body: axiosError.response?.data,
+        },
+        duration_ms: duration,
+        error: {
+          code: String(axiosError.response?.status || 'UNKNOWN'),
+          message: axiosError.message,
+        },
+      });
+    }
+  }
+
+  /**
+   * Log audit entry
+   */
+  private logAudit(log: ZohoAuditLog): void {
+    console.log('[ZOHO_AUDIT]', JSON.stringify(log));
+  }
+}
@@ -1,8 +1,11 @@
 /**
  * Zoho Books Sales Orders API
  *
- * Provides methods to create draft sales orders in Zoho Books.
+ * Provides methods to create draft sales orders in Zoho Books and to update
+ * them in place when an order is amended.
  * Handles rate limiting (429), retries, and comprehensive audit logging.
+ * Calls go through the rate limit governor at high priority so order
+ * creation keeps budget reserved ahead of cache refreshes.
  *
  * Audit Logging:
  * - All API requests/responses are logged to Azure Blob Storage
@@ -19,9 +22,11 @@ import {
   ZohoSalesOrderCreateResponse,
   ZohoAuditLog,
   RateLimitInfo,
+  ZohoRequestPriority,
 } from '../types.js';
 import { ZohoOAuthManager } from '../auth/oauth-manager.js';
 import { BlobAuditStore } from '../storage/blob-audit-store.js';
+import { ZohoRateLimitGovernor } from '../rate-limit/rate-limit-governor.js';
 
 export interface CreateSalesOrderOptions {
   correlationId?: string;
@@ -43,7 +48,8 @@ export class ZohoSalesOrdersApi {
 
   constructor(
     private readonly oauth: ZohoOAuthManager,
-    auditStore?: BlobAuditStore
+    auditStore?: BlobAuditStore,
+    private readonly rateLimiter?: ZohoRateLimitGovernor
   ) {
     this.auditStore = auditStore;
   }
@@ -55,6 +61,29 @@ export class ZohoSalesOrdersApi {
   async createDraftSalesOrder(
     payload: ZohoSalesOrderPayload,
     options: CreateSalesOrderOptions = {}
+  ): Promise<ZohoSalesOrder> {
+    return this.withRetries(() => this.performWrite(payload, options), options, 'create');
+  }
+
+  /**
+   * Replace the contents of an existing sales order (used to amend drafts).
+   * Zoho replaces the line items with the payload's lines.
+   */
+  async updateSalesOrder(
+    salesOrderId: string,
+    payload: ZohoSalesOrderPayload,
+    options: CreateSalesOrderOptions = {}
+  ): Promise<ZohoSalesOrder> {
+    return this.withRetries(() => this.performWrite(payload, options, salesOrderId), options, 'update');
+  }
+
+  /**
+   * Retry a sales order write on 429 and transient errors
+   */
+  private async withRetries(
+    write: () => Promise<ZohoSalesOrder>,
+    options: CreateSalesOrderOptions,
+    action: 'create' | 'update'
   ): Promise<ZohoSalesOrder> {
     const maxRetries = options.maxRetries ?? this.defaultMaxRetries;
     const baseRetryDelay = options.retryDelayMs ?? this.defaultRetryDelayMs;
@@ -63,7 +92,7 @@ export class ZohoSalesOrdersApi {
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const result = await this.performCreate(payload, options);
+        const result = await write();
         return result;
       } catch (error) {
         lastError = error as Error;
@@ -98,15 +127,17 @@ export class ZohoSalesOrdersApi {
       }
     }
 
-    throw lastError || new Error('Failed to create sales order after retries');
+    throw lastError || new Error(`Failed to ${action} sales order after retries`);
   }
 
   /**
-   * Perform the actual API call to create the sales order
+   * Perform the actual API call to create the sales order, or to update it
+   * when salesOrderId is given
    */
-  private async performCreate(
+  private async performWrite(
     payload: ZohoSalesOrderPayload,
-    options: CreateSalesOrderOptions
+    options: CreateSalesOrderOptions,
+    salesOrderId?: string
   ): Promise<ZohoSalesOrder> {
     const baseUrl = await this.oauth.getApiBaseUrl();
     const orgId = await this.oauth.getOrganizationId();
@@ -116,26 +147,32 @@ export class ZohoSalesOrdersApi {
     const correlationId = options.correlationId || uuidv4();
     const caseId = options.caseId || '';
     const tenantId = options.tenantId || '';
-    const url = `${baseUrl}/books/v3/salesorders`;
+    const method = salesOrderId ? 'PUT' : 'POST';
+    const url = salesOrderId
+      ? `${baseUrl}/books/v3/salesorders/${salesOrderId}`
+      : `${baseUrl}/books/v3/salesorders`;
+    const operation = salesOrderId ? 'salesorder_update' : 'salesorder_create';
+    const auditOperation = salesOrderId ? 'sales-orders/update' : 'sales-orders/create';
 
     // Log request to blob storage before sending
     if (this.auditStore) {
       await this.auditStore.logApiRequest({
-        operation: 'sales-orders/create',
+        operation: auditOperation,
         correlationId,
         caseId,
         tenantId,
-        method: 'POST',
+        method,
         url,
         requestBody: this.sanitizePayloadForLog(payload) as object,
       }).catch(err => console.warn('[ZohoSalesOrdersApi] Audit log request failed:', err));
     }
 
     try {
-      const response = await axios.post<ZohoSalesOrderCreateResponse>(
-        url,
-        payload,
-        {
+      const response = await this.send(orgId, 'high', () =>
+        axios.request<ZohoSalesOrderCreateResponse>({
+          method,
+          url,
+          data: payload,
           params: { organization_id: orgId },
           headers: {
             Authorization: `Zoho-oauthtoken ${token}`,
@@ -143,7 +180,7 @@ export class ZohoSalesOrdersApi {
             ...(correlationId && { 'X-Correlation-Id': correlationId }),
           },
           timeout: 30000,
-        }
+        })
       );
 
       const duration = Date.now() - startTime;
@@ -151,11 +188,11 @@ export class ZohoSalesOrdersApi {
       // Log successful response to blob storage
       if (this.auditStore) {
         await this.auditStore.logApiResponse({
-          operation: 'sales-orders/create',
+          operation: auditOperation,
           correlationId,
           caseId,
           tenantId,
-          method: 'POST',
+          method,
           url,
           requestBody: this.sanitizePayloadForLog(payload) as object,
           statusCode: response.status,
@@ -173,9 +210,9 @@ export class ZohoSalesOrdersApi {
         correlation_id: correlationId,
         case_id: caseId,
         timestamp: new Date().toISOString(),
-        operation: 'salesorder_create',
+        operation,
         request: {
-          method: 'POST',
+          method,
           url,
           body: this.sanitizePayloadForLog(payload),
         },
@@ -202,11 +239,11 @@ export class ZohoSalesOrdersApi {
       if (this.auditStore) {
         const axiosError = axios.isAxiosError(error) ? error as AxiosError : null;
         await this.auditStore.logApiResponse({
-          operation: 'sales-orders/create',
+          operation: auditOperation,
           correlationId,
           caseId,
           tenantId,
-          method: 'POST',
+          method,
           url,
           requestBody: this.sanitizePayloadForLog(payload) as object,
           statusCode: axiosError?.response?.status || 0,
@@ -216,7 +253,7 @@ export class ZohoSalesOrdersApi {
         }).catch(err => console.warn('[ZohoSalesOrdersApi] Audit log error failed:', err));
       }
 
-      this.handleApiError(error, correlationId, caseId, duration, payload);
+      this.handleApiError(error, operation, correlationId, caseId, duration, payload);
       throw error;
     }
   }
@@ -230,16 +267,18 @@ export class ZohoSalesOrdersApi {
     const token = await this.oauth.getAccessToken();
 
     try {
-      const response = await axios.get<ZohoApiResponse<{ salesorder: ZohoSalesOrder }>>(
-        `${baseUrl}/books/v3/salesorders/${salesOrderId}`,
-        {
-          params: { organization_id: orgId },
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, 'high', () =>
+        axios.get<ZohoApiResponse<{ salesorder: ZohoSalesOrder }>>(
+          `${baseUrl}/books/v3/salesorders/${salesOrderId}`,
+          {
+            params: { organization_id: orgId },
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       return response.data.data?.salesorder || null;
@@ -261,19 +300,21 @@ export class ZohoSalesOrdersApi {
     const token = await this.oauth.getAccessToken();
 
     try {
-      const response = await axios.get<{ salesorders: ZohoSalesOrder[] }>(
-        `${baseUrl}/books/v3/salesorders`,
-        {
-          params: {
-            organization_id: orgId,
-            reference_number: externalOrderKey,
-          },
-          headers: {
-            Authorization: `Zoho-oauthtoken ${token}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+      const response = await this.send(orgId, 'high', () =>
+        axios.get<{ salesorders: ZohoSalesOrder[] }>(
+          `${baseUrl}/books/v3/salesorders`,
+          {
+            params: {
+              organization_id: orgId,
+              reference_number: externalOrderKey,
+            },
+            headers: {
+              Authorization: `Zoho-oauthtoken ${token}`,
+              'Content-Type': 'application/json',
+            },
+            timeout: 30000,
+          }
+        )
       );
 
       const salesorders = response.data.salesorders || [];
@@ -400,11 +441,21 @@ export class ZohoSalesOrdersApi {
     };
   }
 
+  /**
+   * Send a request through the rate limit governor (if configured)
+   */
+  private send<T>(orgId: string, priority: ZohoRequestPriority | undefined, request: () => Promise<T>): Promise<T> {
+    return this.rateLimiter
+      ? this.rateLimiter.schedule(orgId, priority ?? 'normal', request)
+      : request();
+  }
+
   /**
    * Handle API errors with proper logging
    */
   private handleApiError(
     error: unknown,
+    operation: ZohoAuditLog['operation'],
     correlationId: string,
     caseId: string,
     duration: number,
@@ -417,7 +468,7 @@ export class ZohoSalesOrdersApi {
         correlation_id: correlationId,
         case_id: caseId,
         timestamp: new Date().toISOString(),
-        operation: 'salesorder_create',
+        operation,
         request: {
           method: axiosError.config?.method?.toUpperCase() || 'POST',
           url: axiosError.config?.url || '',
@@ -439,7 +490,7 @@ export class ZohoSalesOrdersApi {
         correlation_id: correlationId,
         case_id: caseId,
         timestamp: new Date().toISOString(),
-        operation: 'salesorder_create',
+        operation,
         duration_ms: duration,
         error: {
           code: 'UNKNOWN_ERROR',
@@ -1,17 +1,20 @@
 /**
  * Cache Refresh Service
  *
- * Background service that periodically refreshes customer and item caches.
+ * Background service that periodically syncs customer and item caches.
+ * Each run fetches only records changed since the cache watermark (a full
+ * reload happens when there is no watermark or a full resync is due).
  * Ensures cache is always reasonably fresh even when Zoho API is slow.
  */
 
 import { CustomerCache } from './customer-cache.js';
 import { ItemCache } from './item-cache.js';
-import { CacheRefreshResult } from '../types.js';
+import { CacheRefreshResult, CacheStalenessMetrics, CacheSyncStatus } from '../types.js';
 
 export interface CacheRefreshConfig {
   refreshIntervalMs?: number; // Default: 3600000 (1 hour)
   autoStart?: boolean; // Default: false
+  staleAfterMs?: number; // Default: 3 x refreshIntervalMs - reported as stale after this
 }
 
 export class CacheRefreshService {
@@ -29,9 +32,11 @@ export class CacheRefreshService {
     this.customerCache = customerCache;
     this.itemCache = itemCache;
 
+    const refreshIntervalMs = config.refreshIntervalMs || 3600000;
     this.config = {
-      refreshIntervalMs: config.refreshIntervalMs || 3600000,
+      refreshIntervalMs,
       autoStart: config.autoStart ?? false,
+      staleAfterMs: config.staleAfterMs || refreshIntervalMs * 3,
     };
 
     if (this.config.autoStart) {
@@ -81,7 +86,20 @@ export class CacheRefreshService {
   }
 
   /**
-   * Manually trigger a cache refresh
+   * Restore both caches from their persisted snapshots (if configured)
+   *
+   * @returns Whether both caches were restored
+   */
+  async restore(): Promise<boolean> {
+    const [customers, items] = await Promise.all([
+      this.customerCache.restoreSnapshot(),
+      this.itemCache.restoreSnapshot(),
+    ]);
+    return customers > 0 && items > 0;
+  }
+
+  /**
+   * Manually trigger a cache sync
    */
   async refresh(): Promise<CacheRefreshResult> {
     if (this.isRefreshing) {
@@ -100,24 +118,32 @@ export class CacheRefreshService {
     const errors: string[] = [];
     let customersUpdated = 0;
     let itemsUpdated = 0;
+    let customersRemoved = 0;
+    let itemsRemoved = 0;
 
     try {
-      // Refresh customers
+      // Sync customers
       try {
-        const customers = await this.customerCache.refreshCache();
-        customersUpdated = customers.length;
-        console.log(`[CacheRefresh] Updated ${customersUpdated} customers`);
+        const customers = await this.customerCache.syncChanges();
+        customersUpdated = customers.updated;
+        customersRemoved = customers.removed;
+        console.log(
+          `[CacheRefresh] ${customers.mode} sync: ${customersUpdated} customers updated, ${customersRemoved} removed`
+        );
       } catch (error) {
         const message = `Failed to refresh customers: ${(error as Error).message}`;
         errors.push(message);
         console.error('[CacheRefresh]', message);
       }
 
-      // Refresh items
+      // Sync items
       try {
-        const items = await this.itemCache.refreshCache();
-        itemsUpdated = items.length;
-        console.log(`[CacheRefresh] Updated ${itemsUpdated} items`);
+        const items = await this.itemCache.syncChanges();
+        itemsUpdated = items.updated;
+        itemsRemoved = items.removed;
+        console.log(
+          `[CacheRefresh] ${items.mode} sync: ${itemsUpdated} items updated, ${itemsRemoved} removed`
+        );
       } catch (error) {
         const message = `Failed to refresh items: ${(error as Error).message}`;
         errors.push(message);
@@ -128,6 +154,8 @@ export class CacheRefreshService {
         success: errors.length === 0,
         customers_updated: customersUpdated,
         items_updated: itemsUpdated,
+        customers_removed: customersRemoved,
+        items_removed: itemsRemoved,
         errors,
         last_refresh_at: new Date().toISOString(),
       };
@@ -136,6 +164,25 @@ export class CacheRefreshService {
     }
   }
 
+  /**
+   * Get staleness metrics for both caches
+   */
+  getStalenessMetrics(): CacheStalenessMetrics[] {
+    return [this.customerCache.getSyncStatus(), this.itemCache.getSyncStatus()].map((status) =>
+      this.toStalenessMetrics(status)
+    );
+  }
+
+  private toStalenessMetrics(status: CacheSyncStatus): CacheStalenessMetrics {
+    const ageMs = status.last_sync_at ? Date.now() - Date.parse(status.last_sync_at) : null;
+
+    return {
+      ...status,
+      age_seconds: ageMs === null ? null : Math.round(ageMs / 1000),
+      stale: ageMs === null || ageMs > this.config.staleAfterMs,
+    };
+  }
+
   /**
    * Check if refresh is currently running
    */
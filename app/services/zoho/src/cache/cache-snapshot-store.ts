@@ -0,0 +1,68 @@
+/**
+ * Cache Snapshot Store
+ *
+ * Persists customer and item cache contents with their delta sync state so a
+ * restarted worker resumes from the last watermark instead of reloading the
+ * whole catalogue. FileCacheSnapshotStore is the local stand-in for the
+ * Cosmos-backed store (see persistence/cosmos-cache-snapshot-store.ts).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CacheEntity, CacheSnapshot, CacheSnapshotUpdate } from '../types.js';
+
+/**
+ * Interface for cache snapshot persistence
+ */
+export interface ICacheSnapshotStore {
+  load<T>(entity: CacheEntity, organizationId: string): Promise<CacheSnapshot<T> | null>;
+  save<T>(update: CacheSnapshotUpdate<T>): Promise<void>;
+}
+
+export interface FileCacheSnapshotStoreConfig {
+  directory: string;
+}
+
+/**
+ * Stores each cache as one JSON file per organization and entity
+ */
+export class FileCacheSnapshotStore implements ICacheSnapshotStore {
+  private readonly directory: string;
+
+  constructor(config: FileCacheSnapshotStoreConfig) {
+    this.directory = config.directory;
+  }
+
+  async load<T>(entity: CacheEntity, organizationId: string): Promise<CacheSnapshot<T> | null> {
+    try {
+      const content = await fs.readFile(this.getPath(entity, organizationId), 'utf-8');
+      return JSON.parse(content) as CacheSnapshot<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save<T>(update: CacheSnapshotUpdate<T>): Promise<void> {
+    const snapshot: CacheSnapshot<T> = {
+      state: update.state,
+      records: update.records,
+      saved_at: new Date().toISOString(),
+    };
+
+    const filePath = this.getPath(update.state.entity, update.state.organization_id);
+    const tempPath = `${filePath}.tmp`;
+
+    // Write then rename so a crash never leaves a truncated snapshot
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getPath(entity: CacheEntity, organizationId: string): string {
+    const safeOrgId = organizationId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.directory, `zoho-${entity}-${safeOrgId}.json`);
+  }
+}
@@ -1,46 +1,82 @@
 /**
  * Customer Cache
  *
- * In-memory and Cosmos DB cache for Zoho customers.
+ * In-memory cache for Zoho customers, kept fresh by delta sync and optionally
+ * persisted as a snapshot (file or Cosmos DB) to survive restarts.
  * Provides fast lookups when Zoho API is slow or unavailable.
  */
 
 import NodeCache from 'node-cache';
-import { CachedCustomer } from '../types.js';
+import {
+  CachedCustomer,
+  CacheSyncResult,
+  CacheSyncState,
+  CacheSyncStatus,
+  CacheSnapshotUpdate,
+  ZohoCustomer,
+} from '../types.js';
 import { ZohoCustomersApi } from '../api/customers.js';
+import { ICacheSnapshotStore } from './cache-snapshot-store.js';
+import { advanceWatermark, fetchAllPages, fetchModifiedSince, mergeDelta } from './delta-sync.js';
 
 export interface CustomerCacheOptions {
-  ttlSeconds?: number; // Default: 3600 (1 hour)
+  ttlSeconds?: number; // Default: 3600 (1 hour) - sync changes once the cache is older
   checkPeriodSeconds?: number; // Default: 600 (10 minutes)
+  fullResyncIntervalMs?: number; // Default: 86400000 (24 hours) - reconciles hard deletes
+  snapshotStore?: ICacheSnapshotStore; // Persist contents so restarts don't cold-start
 }
 
 export class CustomerCache {
   private readonly memoryCache: NodeCache;
   private readonly customersApi: ZohoCustomersApi;
   private readonly cacheKey = 'all_customers';
+  private readonly pageSize = 200;
+  private readonly syncAfterMs: number;
+  private readonly fullResyncIntervalMs: number;
+  private readonly snapshotStore?: ICacheSnapshotStore;
+
+  // Delta sync progress
+  private state: CacheSyncState | null = null;
+  private lastSyncAt: string | null = null;
+  private lastSyncMode: CacheSyncStatus['last_sync_mode'] = null;
+  private lastError: string | null = null;
+  private syncInFlight: Promise<CacheSyncResult> | null = null;
 
   constructor(
     customersApi: ZohoCustomersApi,
     options: CustomerCacheOptions = {}
   ) {
     this.customersApi = customersApi;
+    this.syncAfterMs = (options.ttlSeconds || 3600) * 1000;
+    this.fullResyncIntervalMs = options.fullResyncIntervalMs || 86400000;
+    this.snapshotStore = options.snapshotStore;
 
+    // Entries don't expire - freshness is kept by delta sync
     this.memoryCache = new NodeCache({
-      stdTTL: options.ttlSeconds || 3600,
+      stdTTL: 0,
       checkperiod: options.checkPeriodSeconds || 600,
-      useClones: false, // Better performance, but be careful with mutations
+      useClones: false,
     });
   }
 
   /**
-   * Get all customers from cache, refreshing if necessary
+   * Get all customers from cache, syncing changes if the cache is due
    */
   async getCustomers(forceRefresh: boolean = false): Promise<CachedCustomer[]> {
     if (!forceRefresh) {
       const cached = this.memoryCache.get<CachedCustomer[]>(this.cacheKey);
-      if (cached) {
+      if (cached && !this.isSyncDue()) {
         return cached;
       }
+
+      if (cached) {
+        try {
+          await this.syncChanges();
+        } catch {
+          console.warn('[CustomerCache] Returning stale cache due to sync failure');
+        }
+        return this.memoryCache.get<CachedCustomer[]>(this.cacheKey) || cached;
+      }
     }
 
     // Cache miss or forced refresh - fetch from Zoho
@@ -49,31 +85,12 @@ export class CustomerCache {
   }
 
   /**
-   * Refresh the cache from Zoho API
+   * Reload the whole cache from Zoho API
    */
   async refreshCache(): Promise<CachedCustomer[]> {
     try {
-      const zohoCustomers = await this.customersApi.listCustomers({
-        status: 'active',
-        perPage: 200,
-      });
-
-      const cached: CachedCustomer[] = zohoCustomers.map((customer) => ({
-        zoho_customer_id: customer.contact_id,
-        display_name: customer.contact_name,
-        company_name: customer.company_name,
-        contact_type: customer.contact_type,
-        status: customer.status,
-        email: customer.email,
-        phone: customer.phone,
-        last_cached_at: new Date().toISOString(),
-      }));
-
-      this.memoryCache.set(this.cacheKey, cached);
-
-      console.log(`[CustomerCache] Refreshed ${cached.length} customers`);
-
-      return cached;
+      await this.loadAll();
+      return this.memoryCache.get<CachedCustomer[]>(this.cacheKey) || [];
     } catch (error) {
       console.error('[CustomerCache] Failed to refresh:', error);
 
@@ -88,6 +105,215 @@ export class CustomerCache {
     }
   }
 
+  /**
+   * Fetch only customers changed since the watermark.
+   * Falls back to a full reload without a watermark or when one is due.
+   */
+  async syncChanges(): Promise<CacheSyncResult> {
+    if (this.syncInFlight) {
+      return this.syncInFlight;
+    }
+
+    const state = this.state;
+    const watermark = state?.watermark;
+    const fullDue =
+      !state ||
+      !watermark ||
+      !state.last_full_sync_at ||
+      Date.now() - Date.parse(state.last_full_sync_at) >= this.fullResyncIntervalMs;
+
+    this.syncInFlight = (fullDue ? this.loadAll() : this.loadChanges(state, watermark)).finally(() => {
+      this.syncInFlight = null;
+    });
+
+    return this.syncInFlight;
+  }
+
+  /**
+   * Restore cache contents and watermark from the snapshot store
+   *
+   * @returns Number of customers restored (0 without a snapshot)
+   */
+  async restoreSnapshot(): Promise<number> {
+    if (!this.snapshotStore) {
+      return 0;
+    }
+
+    try {
+      const organizationId = await this.customersApi.getOrganizationId();
+      const snapshot = await this.snapshotStore.load<CachedCustomer>('customers', organizationId);
+      if (!snapshot) {
+        return 0;
+      }
+
+      this.memoryCache.set(this.cacheKey, snapshot.records);
+      this.state = snapshot.state;
+      this.lastSyncAt = snapshot.state.last_delta_sync_at || snapshot.state.last_full_sync_at;
+      this.lastSyncMode = 'snapshot';
+
+      console.log(`[CustomerCache] Restored ${snapshot.records.length} customers from snapshot`);
+
+      return snapshot.records.length;
+    } catch (error) {
+      console.warn('[CustomerCache] Failed to restore snapshot:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get delta sync status (for staleness metrics)
+   */
+  getSyncStatus(): CacheSyncStatus {
+    return {
+      entity: 'customers',
+      record_count: this.memoryCache.get<CachedCustomer[]>(this.cacheKey)?.length || 0,
+      watermark: this.state?.watermark || null,
+      last_sync_at: this.lastSyncAt,
+      last_sync_mode: this.lastSyncMode,
+      last_full_sync_at: this.state?.last_full_sync_at || null,
+      last_error: this.lastError,
+    };
+  }
+
+  /**
+   * Load every active customer, replacing the cache
+   */
+  private async loadAll(): Promise<CacheSyncResult> {
+    try {
+      const zohoCustomers = await fetchAllPages(
+        (page) =>
+          this.customersApi.listCustomers({ status: 'active', page, perPage: this.pageSize, priority: 'low' }),
+        this.pageSize
+      );
+
+      const cached = zohoCustomers.map((customer) => this.toCachedCustomer(customer));
+      const ids = new Set(cached.map((customer) => customer.zoho_customer_id));
+      const previous = this.memoryCache.get<CachedCustomer[]>(this.cacheKey) || [];
+      const removedIds = previous
+        .filter((customer) => !ids.has(customer.zoho_customer_id))
+        .map((customer) => customer.zoho_customer_id);
+
+      const now = new Date().toISOString();
+      const state: CacheSyncState = {
+        entity: 'customers',
+        organization_id: await this.customersApi.getOrganizationId(),
+        watermark: advanceWatermark(null, zohoCustomers),
+        last_full_sync_at: now,
+        last_delta_sync_at: this.state?.last_delta_sync_at || null,
+      };
+
+      this.apply(state, cached, 'full', now);
+
+      console.log(`[CustomerCache] Refreshed ${cached.length} customers`);
+
+      await this.persist({ state, records: cached, changed: cached, removed_ids: removedIds, full: true });
+
+      return { mode: 'full', updated: cached.length, removed: removedIds.length, total: cached.length };
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      throw error;
+    }
+  }
+
+  /**
+   * Load customers modified since the watermark and merge them into the cache
+   */
+  private async loadChanges(state: CacheSyncState, watermark: string): Promise<CacheSyncResult> {
+
+    try {
+      const modified = await fetchModifiedSince(
+        (page) =>
+          this.customersApi.listCustomers({
+            status: 'all',
+            sortColumn: 'last_modified_time',
+            sortOrder: 'D',
+            page,
+            perPage: this.pageSize,
+            priority: 'low',
+          }),
+        watermark,
+        this.pageSize
+      );
+
+      const changed = modified
+        .filter((customer) => customer.status === 'active')
+        .map((customer) => this.toCachedCustomer(customer));
+      const removedIds = modified
+        .filter((customer) => customer.status !== 'active')
+        .map((customer) => customer.contact_id);
+
+      const records = mergeDelta(
+        this.memoryCache.get<CachedCustomer[]>(this.cacheKey) || [],
+        changed,
+        removedIds,
+        (customer) => customer.zoho_customer_id
+      );
+
+      const now = new Date().toISOString();
+      const nextState: CacheSyncState = {
+        ...state,
+        watermark: advanceWatermark(state.watermark, modified),
+        last_delta_sync_at: now,
+      };
+
+      this.apply(nextState, records, 'delta', now);
+
+      console.log(`[CustomerCache] Synced ${changed.length} changed and ${removedIds.length} removed customers`);
+
+      await this.persist({ state: nextState, records, changed, removed_ids: removedIds, full: false });
+
+      return { mode: 'delta', updated: changed.length, removed: removedIds.length, total: records.length };
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      throw error;
+    }
+  }
+
+  private apply(
+    state: CacheSyncState,
+    records: CachedCustomer[],
+    mode: 'full' | 'delta',
+    syncedAt: string
+  ): void {
+    this.memoryCache.set(this.cacheKey, records);
+    this.state = state;
+    this.lastSyncAt = syncedAt;
+    this.lastSyncMode = mode;
+    this.lastError = null;
+  }
+
+  private async persist(update: CacheSnapshotUpdate<CachedCustomer>): Promise<void> {
+    if (!this.snapshotStore) {
+      return;
+    }
+
+    try {
+      await this.snapshotStore.save(update);
+    } catch (error) {
+      // The cache still works; the next restart just loads from Zoho
+      console.warn('[CustomerCache] Failed to save snapshot:', error);
+    }
+  }
+
+  private isSyncDue(): boolean {
+    return !this.lastSyncAt || Date.now() - Date.parse(this.lastSyncAt) >= this.syncAfterMs;
+  }
+
+  private toCachedCustomer(customer: ZohoCustomer): CachedCustomer {
+    return {
+      zoho_customer_id: customer.contact_id,
+      display_name: customer.contact_name,
+      company_name: customer.company_name,
+      contact_type: customer.contact_type,
+      status: customer.status,
+      email: customer.email,
+      phone: customer.phone,
+      pricebook_id: customer.pricebook_id || undefined,
+      last_modified_time: customer.last_modified_time,
+      last_cached_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Find a customer by ID in the cache
    */
@@ -125,5 +351,8 @@ export class CustomerCache {
    */
   clear(): void {
     this.memoryCache.flushAll();
+    this.state = null;
+    this.lastSyncAt = null;
+    this.lastSyncMode = null;
   }
 }
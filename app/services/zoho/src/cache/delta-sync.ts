@@ -0,0 +1,124 @@
+/**
+ * Delta Sync Helpers
+ *
+ * Shared by the customer and item caches to fetch only the records Zoho
+ * modified since the cache watermark. Zoho lists are read most recently
+ * modified first, stopping at the first record older than the watermark.
+ *
+ * Deactivated records come back as modified and are dropped from the cache.
+ * Records deleted outright in Zoho are not listed, so caches still reload in
+ * full periodically (fullResyncIntervalMs) to reconcile them.
+ */
+
+/**
+ * Parse a Zoho timestamp ("2024-03-01T10:15:00+0530") to epoch milliseconds
+ */
+export function parseZohoTimestamp(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  // Zoho omits the colon in the UTC offset, which Date.parse does not accept everywhere
+  const iso = value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Latest modification time among the watermark and the given records
+ */
+export function advanceWatermark(
+  watermark: string | null,
+  records: Array<{ last_modified_time?: string }>
+): string | null {
+  let latest = watermark;
+  let latestTime = parseZohoTimestamp(watermark) ?? -Infinity;
+
+  for (const { last_modified_time: modified } of records) {
+    const time = parseZohoTimestamp(modified);
+    if (modified && time !== null && time > latestTime) {
+      latest = modified;
+      latestTime = time;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Fetch records modified at or after the watermark, newest first.
+ * Records modified in the same second as the watermark are fetched again;
+ * applying them twice is harmless.
+ *
+ * @param fetchPage - Fetches one page sorted by last_modified_time descending
+ * @param watermark - Latest modification time already in the cache
+ * @param perPage - Page size passed to fetchPage
+ */
+export async function fetchModifiedSince<T extends { last_modified_time?: string }>(
+  fetchPage: (page: number) => Promise<T[]>,
+  watermark: string,
+  perPage: number
+): Promise<T[]> {
+  const watermarkTime = parseZohoTimestamp(watermark);
+  if (watermarkTime === null) {
+    throw new Error(`Invalid delta sync watermark: ${watermark}`);
+  }
+
+  const modified: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const batch = await fetchPage(page);
+
+    for (const record of batch) {
+      const time = parseZohoTimestamp(record.last_modified_time);
+      if (time !== null && time < watermarkTime) {
+        return modified;
+      }
+      modified.push(record);
+    }
+
+    if (batch.length < perPage) {
+      return modified;
+    }
+  }
+}
+
+/**
+ * Fetch every page of a list
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  perPage: number
+): Promise<T[]> {
+  const records: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const batch = await fetchPage(page);
+    records.push(...batch);
+
+    if (batch.length < perPage) {
+      return records;
+    }
+  }
+}
+
+/**
+ * Apply changed and removed records to cached records, keyed by ID
+ */
+export function mergeDelta<T>(
+  records: T[],
+  changed: T[],
+  removedIds: string[],
+  idOf: (record: T) => string
+): T[] {
+  const byId = new Map(records.map((record) => [idOf(record), record]));
+
+  for (const record of changed) {
+    byId.set(idOf(record), record);
+  }
+  for (const id of removedIds) {
+    byId.delete(id);
+  }
+
+  return [...byId.values()];
+}
@@ -1,43 +1,79 @@
 /**
  * Item Cache
  *
- * In-memory and Cosmos DB cache for Zoho items.
- * Includes GTIN extraction from custom fields.
+ * In-memory cache for Zoho items, kept fresh by delta sync and optionally
+ * persisted as a snapshot (file or Cosmos DB) to survive restarts.
+ * Includes GTIN and pack-size extraction from custom fields.
  */
 
 import NodeCache from 'node-cache';
-import { CachedItem } from '../types.js';
+import {
+  CachedItem,
+  CacheSyncResult,
+  CacheSyncState,
+  CacheSyncStatus,
+  CacheSnapshotUpdate,
+  ZohoItem,
+} from '../types.js';
 import { ZohoItemsApi } from '../api/items.js';
+import { ICacheSnapshotStore } from './cache-snapshot-store.js';
+import { advanceWatermark, fetchAllPages, fetchModifiedSince, mergeDelta } from './delta-sync.js';
 
 export interface ItemCacheOptions {
-  ttlSeconds?: number; // Default: 3600 (1 hour)
+  ttlSeconds?: number; // Default: 3600 (1 hour) - sync changes once the cache is older
   checkPeriodSeconds?: number; // Default: 600 (10 minutes)
+  fullResyncIntervalMs?: number; // Default: 86400000 (24 hours) - reconciles hard deletes
+  snapshotStore?: ICacheSnapshotStore; // Persist contents so restarts don't cold-start
 }
 
 export class ItemCache {
   private readonly memoryCache: NodeCache;
   private readonly itemsApi: ZohoItemsApi;
   private readonly cacheKey = 'all_items';
+  private readonly pageSize = 200;
+  private readonly syncAfterMs: number;
+  private readonly fullResyncIntervalMs: number;
+  private readonly snapshotStore?: ICacheSnapshotStore;
+
+  // Delta sync progress
+  private state: CacheSyncState | null = null;
+  private lastSyncAt: string | null = null;
+  private lastSyncMode: CacheSyncStatus['last_sync_mode'] = null;
+  private lastError: string | null = null;
+  private syncInFlight: Promise<CacheSyncResult> | null = null;
 
   constructor(itemsApi: ZohoItemsApi, options: ItemCacheOptions = {}) {
     this.itemsApi = itemsApi;
+    this.syncAfterMs = (options.ttlSeconds || 3600) * 1000;
+    this.fullResyncIntervalMs = options.fullResyncIntervalMs || 86400000;
+    this.snapshotStore = options.snapshotStore;
 
+    // Entries don't expire - freshness is kept by delta sync
     this.memoryCache = new NodeCache({
-      stdTTL: options.ttlSeconds || 3600,
+      stdTTL: 0,
       checkperiod: options.checkPeriodSeconds || 600,
       useClones: false,
     });
   }
 
   /**
-   * Get all items from cache, refreshing if necessary
+   * Get all items from cache, syncing changes if the cache is due
    */
   async getItems(forceRefresh: boolean = false): Promise<CachedItem[]> {
     if (!forceRefresh) {
       const cached = this.memoryCache.get<CachedItem[]>(this.cacheKey);
-      if (cached) {
+      if (cached && !this.isSyncDue()) {
         return cached;
       }
+
+      if (cached) {
+        try {
+          await this.syncChanges();
+        } catch {
+          console.warn('[ItemCache] Returning stale cache due to sync failure');
+        }
+        return this.memoryCache.get<CachedItem[]>(this.cacheKey) || cached;
+      }
     }
 
     // Cache miss or forced refresh - fetch from Zoho
@@ -46,32 +82,12 @@ export class ItemCache {
   }
 
   /**
-   * Refresh the cache from Zoho API
+   * Reload the whole cache from Zoho API
    */
   async refreshCache(): Promise<CachedItem[]> {
     try {
-      const zohoItems = await this.itemsApi.listItems({
-        status: 'active',
-        perPage: 200,
-      });
-
-      const cached: CachedItem[] = zohoItems.map((item) => ({
-        zoho_item_id: item.item_id,
-        name: item.name,
-        sku: item.sku || null,
-        gtin: this.itemsApi.getGtinFromItem(item),
-        rate: item.rate,
-        unit: item.unit,
-        status: item.status,
-        description: item.description,
-        last_cached_at: new Date().toISOString(),
-      }));
-
-      this.memoryCache.set(this.cacheKey, cached);
-
-      console.log(`[ItemCache] Refreshed ${cached.length} items`);
-
-      return cached;
+      await this.loadAll();
+      return this.memoryCache.get<CachedItem[]>(this.cacheKey) || [];
     } catch (error) {
       console.error('[ItemCache] Failed to refresh:', error);
 
@@ -86,6 +102,216 @@ export class ItemCache {
     }
   }
 
+  /**
+   * Fetch only items changed since the watermark.
+   * Falls back to a full reload without a watermark or when one is due.
+   */
+  async syncChanges(): Promise<CacheSyncResult> {
+    if (this.syncInFlight) {
+      return this.syncInFlight;
+    }
+
+    const state = this.state;
+    const watermark = state?.watermark;
+    const fullDue =
+      !state ||
+      !watermark ||
+      !state.last_full_sync_at ||
+      Date.now() - Date.parse(state.last_full_sync_at) >= this.fullResyncIntervalMs;
+
+    this.syncInFlight = (fullDue ? this.loadAll() : this.loadChanges(state, watermark)).finally(() => {
+      this.syncInFlight = null;
+    });
+
+    return this.syncInFlight;
+  }
+
+  /**
+   * Restore cache contents and watermark from the snapshot store
+   *
+   * @returns Number of items restored (0 without a snapshot)
+   */
+  async restoreSnapshot(): Promise<number> {
+    if (!this.snapshotStore) {
+      return 0;
+    }
+
+    try {
+      const organizationId = await this.itemsApi.getOrganizationId();
+      const snapshot = await this.snapshotStore.load<CachedItem>('items', organizationId);
+      if (!snapshot) {
+        return 0;
+      }
+
+      this.memoryCache.set(this.cacheKey, snapshot.records);
+      this.state = snapshot.state;
+      this.lastSyncAt = snapshot.state.last_delta_sync_at || snapshot.state.last_full_sync_at;
+      this.lastSyncMode = 'snapshot';
+
+      console.log(`[ItemCache] Restored ${snapshot.records.length} items from snapshot`);
+
+      return snapshot.records.length;
+    } catch (error) {
+      console.warn('[ItemCache] Failed to restore snapshot:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get delta sync status (for staleness metrics)
+   */
+  getSyncStatus(): CacheSyncStatus {
+    return {
+      entity: 'items',
+      record_count: this.memoryCache.get<CachedItem[]>(this.cacheKey)?.length || 0,
+      watermark: this.state?.watermark || null,
+      last_sync_at: this.lastSyncAt,
+      last_sync_mode: this.lastSyncMode,
+      last_full_sync_at: this.state?.last_full_sync_at || null,
+      last_error: this.lastError,
+    };
+  }
+
+  /**
+   * Load every active item, replacing the cache
+   */
+  private async loadAll(): Promise<CacheSyncResult> {
+    try {
+      const zohoItems = await fetchAllPages(
+        (page) =>
+          this.itemsApi.listItems({ status: 'active', page, perPage: this.pageSize, priority: 'low' }),
+        this.pageSize
+      );
+
+      const cached = zohoItems.map((item) => this.toCachedItem(item));
+      const ids = new Set(cached.map((item) => item.zoho_item_id));
+      const previous = this.memoryCache.get<CachedItem[]>(this.cacheKey) || [];
+      const removedIds = previous
+        .filter((item) => !ids.has(item.zoho_item_id))
+        .map((item) => item.zoho_item_id);
+
+      const now = new Date().toISOString();
+      const state: CacheSyncState = {
+        entity: 'items',
+        organization_id: await this.itemsApi.getOrganizationId(),
+        watermark: advanceWatermark(null, zohoItems),
+        last_full_sync_at: now,
+        last_delta_sync_at: this.state?.last_delta_sync_at || null,
+      };
+
+      this.apply(state, cached, 'full', now);
+
+      console.log(`[ItemCache] Refreshed ${cached.length} items`);
+
+      await this.persist({ state, records: cached, changed: cached, removed_ids: removedIds, full: true });
+
+      return { mode: 'full', updated: cached.length, removed: removedIds.length, total: cached.length };
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      throw error;
+    }
+  }
+
+  /**
+   * Load items modified since the watermark and merge them into the cache
+   */
+  private async loadChanges(state: CacheSyncState, watermark: string): Promise<CacheSyncResult> {
+
+    try {
+      const modified = await fetchModifiedSince(
+        (page) =>
+          this.itemsApi.listItems({
+            status: 'all',
+            sortColumn: 'last_modified_time',
+            sortOrder: 'D',
+            page,
+            perPage: this.pageSize,
+            priority: 'low',
+          }),
+        watermark,
+        this.pageSize
+      );
+
+      const changed = modified
+        .filter((item) => item.status === 'active')
+        .map((item) => this.toCachedItem(item));
+      const removedIds = modified
+        .filter((item) => item.status !== 'active')
+        .map((item) => item.item_id);
+
+      const records = mergeDelta(
+        this.memoryCache.get<CachedItem[]>(this.cacheKey) || [],
+        changed,
+        removedIds,
+        (item) => item.zoho_item_id
+      );
+
+      const now = new Date().toISOString();
+      const nextState: CacheSyncState = {
+        ...state,
+        watermark: advanceWatermark(state.watermark, modified),
+        last_delta_sync_at: now,
+      };
+
+      this.apply(nextState, records, 'delta', now);
+
+      console.log(`[ItemCache] Synced ${changed.length} changed and ${removedIds.length} removed items`);
+
+      await this.persist({ state: nextState, records, changed, removed_ids: removedIds, full: false });
+
+      return { mode: 'delta', updated: changed.length, removed: removedIds.length, total: records.length };
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      throw error;
+    }
+  }
+
+  private apply(
+    state: CacheSyncState,
+    records: CachedItem[],
+    mode: 'full' | 'delta',
+    syncedAt: string
+  ): void {
+    this.memoryCache.set(this.cacheKey, records);
+    this.state = state;
+    this.lastSyncAt = syncedAt;
+    this.lastSyncMode = mode;
+    this.lastError = null;
+  }
+
+  private async persist(update: CacheSnapshotUpdate<CachedItem>): Promise<void> {
+    if (!this.snapshotStore) {
+      return;
+    }
+
+    try {
+      await this.snapshotStore.save(update);
+    } catch (error) {
+      // The cache still works; the next restart just loads from Zoho
+      console.warn('[ItemCache] Failed to save snapshot:', error);
+    }
+  }
+
+  private isSyncDue(): boolean {
+    return !this.lastSyncAt || Date.now() - Date.parse(this.lastSyncAt) >= this.syncAfterMs;
+  }
+
+  private toCachedItem(item: ZohoItem): CachedItem {
+    return {
+      zoho_item_id: item.item_id,
+      name: item.name,
+      sku: item.sku || null,
+      gtin: this.itemsApi.getGtinFromItem(item),
+      rate: item.rate,
+      unit: item.unit,
+      unit_conversions: this.itemsApi.getUnitConversionsFromItem(item),
+      status: item.status,
+      description: item.description,
+      last_modified_time: item.last_modified_time,
+      last_cached_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Find an item by ID in the cache
    */
@@ -143,5 +369,8 @@ export class ItemCache {
    */
   clear(): void {
     this.memoryCache.flushAll();
+    this.state = null;
+    this.lastSyncAt = null;
+    this.lastSyncMode = null;
   }
 }
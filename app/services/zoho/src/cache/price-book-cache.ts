@@ -0,0 +1,85 @@
+/**
+ * Price Book Cache
+ *
+ * In-memory cache for Zoho price lists, keyed by price list ID.
+ * Price lists are loaded on first use with their item rates.
+ */
+
+import NodeCache from 'node-cache';
+import { ZohoPriceBook } from '../types.js';
+import { ZohoPriceBooksApi } from '../api/price-books.js';
+
+export interface PriceBookCacheOptions {
+  ttlSeconds?: number; // Default: 3600 (1 hour)
+  checkPeriodSeconds?: number; // Default: 600 (10 minutes)
+}
+
+export class PriceBookCache {
+  private readonly memoryCache: NodeCache;
+  private readonly priceBooksApi: ZohoPriceBooksApi;
+
+  constructor(priceBooksApi: ZohoPriceBooksApi, options: PriceBookCacheOptions = {}) {
+    this.priceBooksApi = priceBooksApi;
+
+    this.memoryCache = new NodeCache({
+      stdTTL: options.ttlSeconds || 3600,
+      checkperiod: options.checkPeriodSeconds || 600,
+      useClones: false,
+    });
+  }
+
+  /**
+   * Get a price list by ID, fetching it from Zoho on a cache miss.
+   * Returns null for unknown, inactive or purchase price lists.
+   */
+  async getPriceBook(pricebookId: string, forceRefresh: boolean = false): Promise<ZohoPriceBook | null> {
+    if (!forceRefresh) {
+      const cached = this.memoryCache.get<ZohoPriceBook | null>(pricebookId);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    try {
+      const priceBook = await this.priceBooksApi.getPriceBook(pricebookId);
+      const usable =
+        priceBook &&
+        priceBook.status === 'active' &&
+        priceBook.sales_or_purchase_type !== 'purchases'
+          ? priceBook
+          : null;
+
+      this.memoryCache.set(pricebookId, usable);
+
+      return usable;
+    } catch (error) {
+      console.error(`[PriceBookCache] Failed to load price list ${pricebookId}:`, error);
+
+      // Try to return stale entry if available
+      const stale = this.memoryCache.get<ZohoPriceBook | null>(pricebookId);
+      if (stale !== undefined) {
+        console.warn('[PriceBookCache] Returning stale price list due to refresh failure');
+        return stale;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Drop all cached price lists (reloaded on next use)
+   */
+  clear(): void {
+    this.memoryCache.flushAll();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats() {
+    return {
+      keys: this.memoryCache.keys(),
+      stats: this.memoryCache.getStats(),
+    };
+  }
+}
@@ -8,18 +8,32 @@
  * - Retry queue: Failed API calls that should be retried
  * - Fingerprint store: Order deduplication across restarts
  * - Outbox: Event publishing for notifications
+ * - Rate limit store: Zoho API budget shared with other instances and workers
  */
 
 import { ZohoOAuthManager } from './auth/oauth-manager.js';
 import { ZohoCustomersApi } from './api/customers.js';
 import { ZohoItemsApi } from './api/items.js';
 import { ZohoSalesOrdersApi } from './api/sales-orders.js';
+import { ZohoPriceBooksApi } from './api/price-books.js';
 import { CustomerCache } from './cache/customer-cache.js';
 import { ItemCache } from './cache/item-cache.js';
+import { PriceBookCache } from './cache/price-book-cache.js';
 import { CacheRefreshService } from './cache/cache-refresh.js';
+import { ICacheSnapshotStore } from './cache/cache-snapshot-store.js';
 import { CustomerMatcher } from './matching/customer-matcher.js';
 import { ItemMatcher } from './matching/item-matcher.js';
-import { SalesOrderBuilder, CanonicalSalesOrder } from './payload/sales-order-builder.js';
+import {
+  SalesOrderBuilder,
+  CanonicalSalesOrder,
+  PriceAuditRecord,
+  PriceVarianceIssue,
+} from './payload/sales-order-builder.js';
+import { UnitConverter } from './payload/unit-converter.js';
+import { diffSalesOrderLines, hasSalesOrderChanges } from './payload/sales-order-diff.js';
+import { RateResolver, resolveEffectiveRate } from './pricing/rate-resolver.js';
+import { ZohoRateLimitGovernor } from './rate-limit/rate-limit-governor.js';
+import { IRateLimitStore } from './rate-limit/rate-limit-store.js';
 import { RetryQueue } from './queue/retry-queue.js';
 import { Outbox } from './queue/outbox.js';
 import { BlobAuditStore } from './storage/blob-audit-store.js';
@@ -29,8 +43,13 @@ import {
   ZohoSalesOrderPayload,
   CustomerMatchResult,
   ItemMatchResult,
+  ItemMatchContext,
+  CachedItem,
+  CacheStalenessMetrics,
+  EffectiveRate,
   OrderFingerprint,
   RetryQueueItem,
+  SalesOrderLineDiff,
 } from './types.js';
 
 /**
@@ -101,12 +120,35 @@ class InMemoryFingerprintStore implements IFingerprintStore {
   }
 }
 
+/**
+ * Thrown when a sales order cannot be amended in place
+ */
+export class ZohoAmendmentError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'not_found' | 'not_draft'
+  ) {
+    super(message);
+    this.name = 'ZohoAmendmentError';
+  }
+}
+
 export interface ZohoClientConfig {
   keyVaultUrl: string;
   gtinCustomFieldId?: string;
+  packSizeCustomFieldId?: string;
   externalOrderKeyFieldId?: string;
+  priceVarianceThresholdPercent?: number;
   cacheRefreshIntervalMs?: number;
+  cacheFullResyncIntervalMs?: number; // Full reload interval (delta syncs in between)
+  cacheStaleAfterMs?: number; // Caches not synced for this long are reported stale
+  // Optional cache snapshot store - restarts resume from the last watermark
+  cacheSnapshotStore?: ICacheSnapshotStore;
   maxRetries?: number;
+  rateLimitPerMinute?: number; // Zoho calls per minute per organization (default 100)
+  rateLimitPerDay?: number; // Zoho calls per day per organization (default 5000, depends on plan)
+  // Optional shared rate limit store - without it the budget only covers this process
+  rateLimitStore?: IRateLimitStore;
   // Optional persistence dependencies - falls back to in-memory if not provided
   fingerprintStore?: IFingerprintStore;
   retryQueue?: IRetryQueue;
@@ -121,12 +163,17 @@ export class ZohoClient {
   private readonly customersApi: ZohoCustomersApi;
   private readonly itemsApi: ZohoItemsApi;
   private readonly salesOrdersApi: ZohoSalesOrdersApi;
+  private readonly priceBooksApi: ZohoPriceBooksApi;
+  private readonly rateLimiter: ZohoRateLimitGovernor;
   private readonly customerCache: CustomerCache;
   private readonly itemCache: ItemCache;
+  private readonly priceBookCache: PriceBookCache;
+  private readonly rateResolver: RateResolver;
   private readonly cacheRefreshService: CacheRefreshService;
   private readonly customerMatcher: CustomerMatcher;
   private readonly itemMatcher: ItemMatcher;
   private readonly payloadBuilder: SalesOrderBuilder;
+  private readonly unitConverter: UnitConverter;
   private readonly retryQueue: IRetryQueue;
   private readonly outbox: IOutbox;
   private readonly fingerprintStore: IFingerprintStore;
@@ -151,14 +198,36 @@ export class ZohoClient {
       console.warn('[ZohoClient] Blob audit logging disabled - API calls logged to console only');
     }
 
+    // All API clients share one rate limit budget
+    this.rateLimiter = new ZohoRateLimitGovernor({
+      requestsPerMinute: config.rateLimitPerMinute,
+      dailyLimit: config.rateLimitPerDay,
+      store: config.rateLimitStore,
+    });
+
     // Initialize API clients with optional audit store
-    this.customersApi = new ZohoCustomersApi(this.oauth, config.auditStore);
-    this.itemsApi = new ZohoItemsApi(this.oauth, config.gtinCustomFieldId, config.auditStore);
-    this.salesOrdersApi = new ZohoSalesOrdersApi(this.oauth, config.auditStore);
+    this.customersApi = new ZohoCustomersApi(this.oauth, config.auditStore, this.rateLimiter);
+    this.itemsApi = new ZohoItemsApi(
+      this.oauth,
+      config.gtinCustomFieldId,
+      config.auditStore,
+      config.packSizeCustomFieldId,
+      this.rateLimiter
+    );
+    this.salesOrdersApi = new ZohoSalesOrdersApi(this.oauth, config.auditStore, this.rateLimiter);
+    this.priceBooksApi = new ZohoPriceBooksApi(this.oauth, config.auditStore, this.rateLimiter);
 
     // Initialize caches
-    this.customerCache = new CustomerCache(this.customersApi);
-    this.itemCache = new ItemCache(this.itemsApi);
+    const cacheOptions = {
+      fullResyncIntervalMs: config.cacheFullResyncIntervalMs,
+      snapshotStore: config.cacheSnapshotStore,
+    };
+    this.customerCache = new CustomerCache(this.customersApi, cacheOptions);
+    this.itemCache = new ItemCache(this.itemsApi, cacheOptions);
+    this.priceBookCache = new PriceBookCache(this.priceBooksApi);
+
+    // Resolve customer price list rates
+    this.rateResolver = new RateResolver(this.customerCache, this.priceBookCache);
 
     // Initialize cache refresh service
     this.cacheRefreshService = new CacheRefreshService(
@@ -166,6 +235,7 @@ export class ZohoClient {
       this.itemCache,
       {
         refreshIntervalMs: config.cacheRefreshIntervalMs || 3600000,
+        staleAfterMs: config.cacheStaleAfterMs,
         autoStart: false, // Start manually after initialization
       }
     );
@@ -179,7 +249,9 @@ export class ZohoClient {
     // Initialize payload builder
     this.payloadBuilder = new SalesOrderBuilder({
       externalOrderKeyFieldId: config.externalOrderKeyFieldId,
+      priceVarianceThresholdPercent: config.priceVarianceThresholdPercent,
     });
+    this.unitConverter = new UnitConverter();
 
     // Initialize retry queue, outbox, and fingerprint store
     // Use injected dependencies if provided, otherwise fall back to in-memory implementations
@@ -205,9 +277,10 @@ export class ZohoClient {
   async initialize(): Promise<void> {
     console.log('[ZohoClient] Initializing...');
 
-    // Pre-load caches
-    await this.customerCache.refreshCache();
-    await this.itemCache.refreshCache();
+    // Restore persisted snapshots, then pre-load changes since their watermark
+    // (a full load when there is no snapshot)
+    await this.cacheRefreshService.restore();
+    await this.cacheRefreshService.refresh();
 
     // Start background cache refresh
     this.cacheRefreshService.start();
@@ -237,10 +310,79 @@ export class ZohoClient {
   async matchItem(
     sku: string | null,
     gtin: string | null,
-    name: string | null
+    name: string | null,
+    context?: ItemMatchContext
   ): Promise<ItemMatchResult> {
     const items = await this.itemCache.getItems();
-    return this.itemMatcher.matchItem(sku, gtin, name, items);
+    return this.itemMatcher.matchItem(sku, gtin, name, items, context);
+  }
+
+  /**
+   * Get the rate Zoho charges a customer for an item and quantity
+   * (customer's price list if assigned, otherwise the item rate).
+   * With a unit, the quantity and returned rate are in that unit.
+   */
+  async getEffectiveRate(
+    customerId: string,
+    itemId: string,
+    quantity: number,
+    unit?: string | null
+  ): Promise<EffectiveRate | null> {
+    const item = await this.itemCache.findById(itemId);
+    if (!item) {
+      return null;
+    }
+    if (unit) {
+      return this.rateResolver.resolveRateInUnit(customerId, item, quantity, unit);
+    }
+    return this.rateResolver.resolveRate(customerId, item, quantity);
+  }
+
+  /**
+   * Compare spreadsheet prices with effective Zoho rates.
+   * Quantities must already be in each item's stocking unit.
+   */
+  async reviewPricing(order: CanonicalSalesOrder): Promise<{
+    audit: PriceAuditRecord;
+    issues: PriceVarianceIssue[];
+  }> {
+    const itemRates = new Map<string, { rate: number; name: string }>();
+    const items = new Map<string, CachedItem>();
+    for (const line of order.line_items) {
+      if (line.zoho_item_id) {
+        const item = await this.itemCache.findById(line.zoho_item_id);
+        if (item) {
+          itemRates.set(line.zoho_item_id, { rate: item.rate, name: item.name });
+          items.set(line.zoho_item_id, item);
+        }
+      }
+    }
+
+    const effectiveRates = await this.resolveEffectiveRates(order, items);
+    const audit = this.payloadBuilder.buildPriceAuditRecord(order, itemRates, effectiveRates);
+
+    return { audit, issues: this.payloadBuilder.getPriceVarianceIssues(audit) };
+  }
+
+  /**
+   * Resolve effective rates for each line, keyed by line row
+   */
+  private async resolveEffectiveRates(
+    order: CanonicalSalesOrder,
+    items: Map<string, CachedItem>
+  ): Promise<Map<number, EffectiveRate>> {
+    const effectiveRates = new Map<number, EffectiveRate>();
+    const customerId = order.customer.zoho_customer_id;
+    const priceBook = customerId ? await this.rateResolver.getCustomerPriceBook(customerId) : null;
+
+    for (const line of order.line_items) {
+      const item = line.zoho_item_id ? items.get(line.zoho_item_id) : undefined;
+      if (item) {
+        effectiveRates.set(line.row, resolveEffectiveRate(item, line.quantity, priceBook));
+      }
+    }
+
+    return effectiveRates;
   }
 
   /**
@@ -275,28 +417,17 @@ export class ZohoClient {
       }
     }
 
-    // Step 2: Get item rates from cache
-    const itemRates = new Map<string, number>();
-    for (const line of order.line_items) {
-      if (line.zoho_item_id) {
-        const item = await this.itemCache.findById(line.zoho_item_id);
-        if (item) {
-          itemRates.set(line.zoho_item_id, item.rate);
-        }
-      }
-    }
-
-    // Step 3: Build payload
-    const payload = this.payloadBuilder.buildSalesOrderPayload(order, itemRates);
+    // Steps 2-5: Rates, unit conversion and payload
+    const payload = await this.buildPayload(order);
 
-    // Step 4: Try to create sales order
+    // Step 6: Try to create sales order
     try {
       const salesOrder = await this.salesOrdersApi.createDraftSalesOrder(payload, {
         correlationId: options.correlationId,
         caseId: order.meta.case_id,
       });
 
-      // Step 5: Store fingerprint (create if doesn't exist, or update if in_flight)
+      // Step 7: Store fingerprint (create if doesn't exist, or update if in_flight)
       try {
         const existingFingerprint = await this.fingerprintStore.get(fingerprint);
         if (existingFingerprint) {
@@ -326,7 +457,7 @@ export class ZohoClient {
         console.error('[ZohoClient] Failed to persist fingerprint:', fpError);
       }
 
-      // Step 6: Create outbox entry for notification
+      // Step 8: Create outbox entry for notification
       await this.outbox.createSalesOrderCreatedEvent(
         order.meta.case_id,
         salesOrder.salesorder_id,
@@ -337,7 +468,7 @@ export class ZohoClient {
     } catch (error) {
       console.error('[ZohoClient] Failed to create sales order:', error);
 
-      // Step 7: Queue for retry if it's a transient error
+      // Step 9: Queue for retry if it's a transient error
       const queueId = await this.retryQueue.enqueue(
         order.meta.case_id,
         payload,
@@ -359,6 +490,110 @@ export class ZohoClient {
     }
   }
 
+  /**
+   * Amend an existing draft sales order in place
+   *
+   * The draft is rebuilt from the amended canonical order and replaces the
+   * previous contents in Zoho; the returned diff lists the changed lines.
+   * The amended order's fingerprint is pointed at the same sales order so a
+   * later upload of the amended file is recognised as a duplicate.
+   *
+   * @throws ZohoAmendmentError if the sales order is gone or no longer a draft
+   */
+  async amendDraftSalesOrder(
+    salesOrderId: string,
+    previous: CanonicalSalesOrder,
+    amended: CanonicalSalesOrder,
+    options: {
+      correlationId?: string;
+    } = {}
+  ): Promise<{
+    salesorder: ZohoSalesOrder;
+    diff: SalesOrderLineDiff;
+    updated: boolean;
+  }> {
+    const existing = await this.salesOrdersApi.getSalesOrder(salesOrderId);
+    if (!existing) {
+      throw new ZohoAmendmentError(`Sales order ${salesOrderId} not found`, 'not_found');
+    }
+    if (existing.status !== 'draft') {
+      throw new ZohoAmendmentError(
+        `Sales order ${existing.salesorder_number} is ${existing.status}; only drafts can be amended`,
+        'not_draft'
+      );
+    }
+
+    const diff = diffSalesOrderLines(previous, amended);
+    if (!hasSalesOrderChanges(diff)) {
+      console.log(`[ZohoClient] Amendment of ${existing.salesorder_number} has no line changes`);
+      return { salesorder: existing, diff, updated: false };
+    }
+
+    const payload = await this.buildPayload(amended);
+
+    const salesOrder = await this.salesOrdersApi.updateSalesOrder(salesOrderId, payload, {
+      correlationId: options.correlationId,
+      caseId: amended.meta.case_id,
+    });
+
+    try {
+      const fingerprint = this.payloadBuilder.computeFingerprint(amended);
+      if (!(await this.fingerprintStore.get(fingerprint))) {
+        await this.fingerprintStore.create({
+          fingerprint,
+          case_id: amended.meta.case_id,
+          file_sha256: amended.meta.file_sha256,
+          customer_id: amended.customer.zoho_customer_id!,
+          line_items_hash: fingerprint,
+          date_bucket: new Date().toISOString().split('T')[0],
+          created_at: new Date().toISOString(),
+          zoho_salesorder_id: salesOrder.salesorder_id,
+          zoho_salesorder_number: salesOrder.salesorder_number,
+          status: 'created',
+        });
+      }
+    } catch (fpError) {
+      // Log but don't fail the amendment
+      console.error('[ZohoClient] Failed to persist amended fingerprint:', fpError);
+    }
+
+    return { salesorder: salesOrder, diff, updated: true };
+  }
+
+  /**
+   * Build the Zoho payload for a canonical order: cached item rates, unit
+   * conversion to stocking units and the customer's price list rates
+   */
+  private async buildPayload(order: CanonicalSalesOrder): Promise<ZohoSalesOrderPayload> {
+    // Get item rates from cache
+    const itemRates = new Map<string, number>();
+    const items = new Map<string, CachedItem>();
+    for (const line of order.line_items) {
+      if (line.zoho_item_id) {
+        const item = await this.itemCache.findById(line.zoho_item_id);
+        if (item) {
+          itemRates.set(line.zoho_item_id, item.rate);
+          items.set(line.zoho_item_id, item);
+        }
+      }
+    }
+
+    // Convert quantities to each item's stocking unit
+    const conversion = this.unitConverter.convertOrder(order, items);
+    if (conversion.issues.length > 0) {
+      throw new Error(conversion.issues.map((issue) => issue.message).join('; '));
+    }
+
+    // Resolve customer price list rates on converted quantities
+    const effectiveRates = await this.resolveEffectiveRates(conversion.order, items);
+
+    return this.payloadBuilder.buildSalesOrderPayload(
+      conversion.order,
+      itemRates,
+      effectiveRates
+    );
+  }
+
   /**
    * Process retry queue (background job)
    */
@@ -421,7 +656,7 @@ export class ZohoClient {
   }
 
   /**
-   * Get queue and cache statistics
+   * Get queue, cache and rate limit statistics
    */
   async getStats() {
     const retryQueueStatsResult = this.retryQueue.getStats();
@@ -440,13 +675,23 @@ export class ZohoClient {
       retry_queue: retryQueueStats,
       customer_cache: this.customerCache.getStats(),
       item_cache: this.itemCache.getStats(),
+      price_book_cache: this.priceBookCache.getStats(),
       fingerprints_count: fingerprintCount,
       cache_refresh_running: this.cacheRefreshService.isRunning(),
+      cache_staleness: this.cacheRefreshService.getStalenessMetrics(),
+      rate_limit: this.rateLimiter.getStats(),
       using_persistent_storage: this.usingPersistentStorage,
       using_blob_audit_logging: this.usingBlobAuditLogging,
     };
   }
 
+  /**
+   * Get customer and item cache staleness (for health checks)
+   */
+  getCacheStaleness(): CacheStalenessMetrics[] {
+    return this.cacheRefreshService.getStalenessMetrics();
+  }
+
   /**
    * Get the audit store instance (for direct access if needed)
    */
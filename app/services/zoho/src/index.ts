@@ -8,6 +8,7 @@
 // Main client
 export {
   ZohoClient,
+  ZohoAmendmentError,
   type ZohoClientConfig,
   type IFingerprintStore,
   type IRetryQueue,
@@ -22,15 +23,32 @@ export { ZohoTokenStore } from './auth/token-store.js';
 export { ZohoCustomersApi, type ListCustomersOptions } from './api/customers.js';
 export { ZohoItemsApi, type ListItemsOptions } from './api/items.js';
 export { ZohoSalesOrdersApi, type CreateSalesOrderOptions } from './api/sales-orders.js';
+export { ZohoPriceBooksApi, type ListPriceBooksOptions } from './api/price-books.js';
 
 // Caches
 export { CustomerCache, type CustomerCacheOptions } from './cache/customer-cache.js';
 export { ItemCache, type ItemCacheOptions } from './cache/item-cache.js';
+export { PriceBookCache, type PriceBookCacheOptions } from './cache/price-book-cache.js';
 export { CacheRefreshService, type CacheRefreshConfig } from './cache/cache-refresh.js';
+export {
+  FileCacheSnapshotStore,
+  type ICacheSnapshotStore,
+  type FileCacheSnapshotStoreConfig,
+} from './cache/cache-snapshot-store.js';
+export {
+  parseZohoTimestamp,
+  advanceWatermark,
+  fetchModifiedSince,
+  mergeDelta,
+} from './cache/delta-sync.js';
 
 // Matchers
 export { CustomerMatcher, type CustomerMatchOptions } from './matching/customer-matcher.js';
-export { ItemMatcher, type ItemMatchOptions } from './matching/item-matcher.js';
+export {
+  ItemMatcher,
+  getAliasConfidence,
+  type ItemMatchOptions,
+} from './matching/item-matcher.js';
 export {
   FuzzyMatcher,
   normalizeString,
@@ -44,7 +62,38 @@ export {
   type SalesOrderBuilderOptions,
   type CanonicalSalesOrder,
   type PriceAuditRecord,
+  type PriceVarianceIssue,
 } from './payload/sales-order-builder.js';
+export { diffSalesOrderLines, hasSalesOrderChanges } from './payload/sales-order-diff.js';
+export {
+  UnitConverter,
+  normalizeUnit,
+  buildUnitConversionTable,
+  type UnitOfMeasure,
+  type UnitConversionIssue,
+  type UnitConversionResult,
+  type LineConversion,
+  type ConvertibleLine,
+  type LineConversionResult,
+} from './payload/unit-converter.js';
+
+// Pricing
+export {
+  RateResolver,
+  resolveEffectiveRate,
+  type RateResolverCustomerSource,
+  type RateResolverPriceBookSource,
+} from './pricing/rate-resolver.js';
+
+// Rate limiting
+export {
+  ZohoRateLimitGovernor,
+  ZohoRateLimitError,
+  parseRetryAfter,
+  type ZohoRateLimitGovernorConfig,
+  type RateLimitPauseReason,
+} from './rate-limit/rate-limit-governor.js';
+export { InMemoryRateLimitStore, type IRateLimitStore } from './rate-limit/rate-limit-store.js';
 
 // Queue (in-memory for dev)
 export { RetryQueue, type RetryQueueConfig } from './queue/retry-queue.js';
@@ -61,6 +110,10 @@ export {
   type CosmosRetryQueueConfig,
   CosmosOutbox,
   type CosmosOutboxConfig,
+  CosmosCacheSnapshotStore,
+  type CosmosCacheSnapshotStoreConfig,
+  CosmosRateLimitStore,
+  type CosmosRateLimitStoreConfig,
   initializeZohoPersistence,
   tryInitializeZohoPersistence,
   type ZohoPersistenceConfig,
@@ -104,17 +157,38 @@ export type {
   ZohoLineItem,
   ZohoSalesOrderPayload,
   ZohoSalesOrderCreateResponse,
+  SalesOrderLineChangeType,
+  SalesOrderLineChange,
+  SalesOrderLineDiff,
+
+  // Price Lists
+  ZohoPriceBook,
+  ZohoPriceBookItem,
+  ZohoPriceBracket,
 
   // Cache
   CachedCustomer,
   CachedItem,
+  UnitConversionTable,
   CacheRefreshResult,
+  CacheEntity,
+  CacheSyncState,
+  CacheSnapshot,
+  CacheSnapshotUpdate,
+  CacheSyncResult,
+  CacheSyncStatus,
+  CacheStalenessMetrics,
 
   // Matching
   CustomerMatchResult,
   ItemMatchResult,
+  ItemAlias,
+  ItemMatchContext,
   FuzzyMatchOptions,
 
+  // Pricing
+  EffectiveRate,
+
   // Queue
   RetryQueueItem,
   OutboxEntry,
@@ -125,5 +199,9 @@ export type {
   // Config
   ZohoServiceConfig,
   RateLimitInfo,
+  ZohoRequestPriority,
+  RateLimitBucketState,
+  RateLimitBudgetUsage,
+  RateLimitStats,
   ZohoAuditLog,
 } from './types.js';
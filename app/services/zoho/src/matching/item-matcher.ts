@@ -2,12 +2,13 @@
  * Item Matcher
  *
  * Matches items from spreadsheets to Zoho items using priority matching:
+ * 0. Learned alias for the customer (from earlier user selections)
  * 1. SKU exact match (primary)
  * 2. GTIN exact match (custom field)
  * 3. Name fuzzy match (if enabled)
  */
 
-import { CachedItem, ItemMatchResult } from '../types.js';
+import { CachedItem, ItemAlias, ItemMatchContext, ItemMatchResult } from '../types.js';
 import { FuzzyMatcher, normalizeString } from './fuzzy-matcher.js';
 
 export interface ItemMatchOptions {
@@ -15,6 +16,21 @@ export interface ItemMatchOptions {
   fuzzyMatchThreshold?: number; // Default: 0.80
   ambiguityThreshold?: number; // Default: 0.1
   maxCandidates?: number; // Default: 5
+  aliasHalfLifeDays?: number; // Default: 180
+  aliasMinConfidence?: number; // Default: 0.70
+}
+
+const ALIAS_PRIORITY: ItemAlias['source_kind'][] = ['sku', 'gtin', 'description'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Decay an alias's confidence by the time since it was last confirmed
+ * (halves every halfLifeDays)
+ */
+export function getAliasConfidence(alias: ItemAlias, now: Date, halfLifeDays: number): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(alias.last_confirmed_at).getTime()) / MS_PER_DAY;
+  return alias.confidence * Math.pow(0.5, ageDays / halfLifeDays);
 }
 
 export class ItemMatcher {
@@ -26,14 +42,56 @@ export class ItemMatcher {
       fuzzyMatchThreshold: options.fuzzyMatchThreshold ?? 0.80,
       ambiguityThreshold: options.ambiguityThreshold ?? 0.1,
       maxCandidates: options.maxCandidates ?? 5,
+      aliasHalfLifeDays: options.aliasHalfLifeDays ?? 180,
+      aliasMinConfidence: options.aliasMinConfidence ?? 0.70,
     };
   }
 
   /**
    * Match an item from the spreadsheet to Zoho items
-   * Priority: SKU > GTIN > Name (if enabled)
+   * Priority: Alias > SKU > GTIN > Name (if enabled)
+   *
+   * An alias whose decayed confidence is below aliasMinConfidence is not
+   * applied; if the catalog does not resolve the line either, it is offered
+   * as the first candidate.
    */
   async matchItem(
+    sku: string | null,
+    gtin: string | null,
+    name: string | null,
+    items: CachedItem[],
+    context: ItemMatchContext = {}
+  ): Promise<ItemMatchResult> {
+    const aliasMatch = context.aliases?.length
+      ? this.matchByAlias(context.aliases, items, context.now ?? new Date())
+      : null;
+
+    if (aliasMatch?.status === 'resolved') {
+      return aliasMatch;
+    }
+
+    const result = await this.matchByCatalog(sku, gtin, name, items);
+
+    if (!aliasMatch || result.status === 'resolved') {
+      return result;
+    }
+
+    const aliasCandidate = aliasMatch.candidates[0];
+    return {
+      status: result.status === 'not_found' ? 'needs_user_input' : result.status,
+      confidence: Math.max(result.confidence, aliasMatch.confidence),
+      alias_id: aliasMatch.alias_id,
+      candidates: [
+        aliasCandidate,
+        ...result.candidates.filter((c) => c.zoho_item_id !== aliasCandidate.zoho_item_id),
+      ],
+    };
+  }
+
+  /**
+   * Match against the catalog by SKU, GTIN and (if enabled) name
+   */
+  private async matchByCatalog(
     sku: string | null,
     gtin: string | null,
     name: string | null,
@@ -71,6 +129,63 @@ export class ItemMatcher {
     };
   }
 
+  /**
+   * Match by learned alias (SKU alias > GTIN alias > description alias).
+   * Revoked aliases and aliases pointing at items no longer in the catalog
+   * are ignored. An alias below aliasMinConfidence does not stop the search:
+   * a confident alias of a later kind still resolves the line, otherwise the
+   * first weak alias is returned for the user to confirm.
+   */
+  private matchByAlias(aliases: ItemAlias[], items: CachedItem[], now: Date): ItemMatchResult | null {
+    let weakMatch: ItemMatchResult | null = null;
+
+    for (const kind of ALIAS_PRIORITY) {
+      const alias = aliases.find((a) => a.source_kind === kind && !a.revoked);
+      if (!alias) continue;
+
+      const match = items.find((item) => item.zoho_item_id === alias.zoho_item_id);
+      if (!match || match.status !== 'active') continue;
+
+      const confidence = getAliasConfidence(alias, now, this.options.aliasHalfLifeDays);
+      const candidate = {
+        zoho_item_id: match.zoho_item_id,
+        sku: match.sku,
+        gtin: match.gtin,
+        name: match.name,
+        rate: match.rate,
+        score: confidence,
+        match_reason: `Learned ${kind} alias`,
+      };
+
+      if (confidence < this.options.aliasMinConfidence) {
+        if (!weakMatch) {
+          weakMatch = {
+            status: 'needs_user_input',
+            confidence,
+            alias_id: alias.alias_id,
+            candidates: [candidate],
+          };
+        }
+        continue;
+      }
+
+      return {
+        status: 'resolved',
+        item: {
+          zoho_item_id: match.zoho_item_id,
+          name: match.name,
+          rate: match.rate,
+        },
+        method: 'alias',
+        confidence,
+        alias_id: alias.alias_id,
+        candidates: [candidate],
+      };
+    }
+
+    return weakMatch;
+  }
+
   /**
    * Match by SKU (exact match, case-insensitive)
    */
@@ -3,11 +3,12 @@
  *
  * Constructs Zoho Books sales order payloads from canonical sales orders.
  * CRITICAL: Always uses Zoho item rates, never spreadsheet prices.
+ * Item rates are replaced by the customer's price list rate when one applies.
  * Includes idempotency fingerprint in custom fields.
  */
 
 import { createHash } from 'crypto';
-import { ZohoSalesOrderPayload } from '../types.js';
+import { EffectiveRate, ZohoSalesOrderPayload } from '../types.js';
 
 /**
  * Canonical sales order structure (simplified - should import from @order-processing/types)
@@ -30,6 +31,7 @@ export interface CanonicalSalesOrder {
     gtin: string | null;
     product_name: string | null;
     quantity: number;
+    unit?: string | null; // Unit the quantity is stated in; null = item's stocking unit
     unit_price_spreadsheet: number | null; // Original price from spreadsheet (AUDIT ONLY)
     zoho_item_id: string | null;
     zoho_item_name: string | null;
@@ -59,7 +61,11 @@ export interface PriceAuditRecord {
     zoho_item_id: string;
     zoho_item_name: string;
     zoho_rate: number;
-    price_difference: number | null;
+    effective_rate: number; // Rate after the customer's price list (USED FOR ORDER)
+    rate_source: EffectiveRate['source'];
+    pricebook_id?: string;
+    price_difference: number | null; // effective_rate - spreadsheet_price
+    variance_percent: number | null; // |price_difference| as % of effective_rate
   }>;
   totals: {
     spreadsheet_total: number | null;
@@ -72,6 +78,23 @@ export interface SalesOrderBuilderOptions {
   externalOrderKeyFieldId?: string; // Custom field ID for external order key
   includeSourcePricesInNotes?: boolean; // Include spreadsheet prices in notes for audit
   defaultShipmentDaysOffset?: number; // Default days to add to order date for shipment
+  priceVarianceThresholdPercent?: number; // Flag spreadsheet prices further off than this (default 5)
+}
+
+/**
+ * Spreadsheet price that differs from the effective Zoho rate beyond the threshold
+ */
+export interface PriceVarianceIssue {
+  code: 'PRICE_VARIANCE';
+  severity: 'warning';
+  row: number;
+  zoho_item_id: string;
+  spreadsheet_price: number;
+  effective_rate: number;
+  variance_percent: number;
+  message: string;
+  fields: string[];
+  suggested_user_action: string;
 }
 
 export class SalesOrderBuilder {
@@ -82,16 +105,20 @@ export class SalesOrderBuilder {
       externalOrderKeyFieldId: options.externalOrderKeyFieldId || 'cf_external_order_key',
       includeSourcePricesInNotes: options.includeSourcePricesInNotes ?? false,
       defaultShipmentDaysOffset: options.defaultShipmentDaysOffset ?? 7,
+      priceVarianceThresholdPercent: options.priceVarianceThresholdPercent ?? 5,
     };
   }
 
   /**
    * Build a Zoho sales order payload from canonical sales order
    * Uses Zoho item rates (NOT spreadsheet prices)
+   * Quantities must already be in each item's stocking unit (see UnitConverter)
+   * effectiveRates (by line row) override item rates with price list rates
    */
   buildSalesOrderPayload(
     order: CanonicalSalesOrder,
-    itemRates: Map<string, number>
+    itemRates: Map<string, number>,
+    effectiveRates?: Map<number, EffectiveRate>
   ): ZohoSalesOrderPayload {
     if (!order.customer.zoho_customer_id) {
       throw new Error('Customer must be resolved before building payload');
@@ -103,11 +130,17 @@ export class SalesOrderBuilder {
         throw new Error(`Line ${line.row}: Item not resolved`);
       }
 
-      const rate = itemRates.get(line.zoho_item_id);
+      const rate = effectiveRates?.get(line.row)?.rate ?? itemRates.get(line.zoho_item_id);
       if (rate === undefined) {
         throw new Error(`Line ${line.row}: Rate not found for item ${line.zoho_item_id}`);
       }
 
+      if (line.unit) {
+        throw new Error(
+          `Line ${line.row}: Quantity in ${line.unit} must be converted to the item's stocking unit`
+        );
+      }
+
       return {
         item_id: line.zoho_item_id,
         quantity: line.quantity,
@@ -244,10 +277,12 @@ export class SalesOrderBuilder {
   /**
    * Build price audit record for compliance
    * Records both spreadsheet prices and Zoho rates for 5+ year retention
+   * Differences are computed against the effective rate (price list if any)
    */
   buildPriceAuditRecord(
     order: CanonicalSalesOrder,
-    itemRates: Map<string, { rate: number; name: string }>
+    itemRates: Map<string, { rate: number; name: string }>,
+    effectiveRates?: Map<number, EffectiveRate>
   ): PriceAuditRecord {
     if (!order.customer.zoho_customer_id || !order.customer.zoho_customer_name) {
       throw new Error('Customer must be resolved before building price audit');
@@ -270,7 +305,10 @@ export class SalesOrderBuilder {
         ? line.unit_price_spreadsheet * line.quantity
         : null;
 
-      const zohoLineTotal = itemInfo.rate * line.quantity;
+      const effective = effectiveRates?.get(line.row);
+      const effectiveRate = effective?.rate ?? itemInfo.rate;
+
+      const zohoLineTotal = effectiveRate * line.quantity;
       zohoTotal += zohoLineTotal;
 
       if (spreadsheetLineTotal !== null) {
@@ -278,7 +316,11 @@ export class SalesOrderBuilder {
       }
 
       const priceDifference = line.unit_price_spreadsheet !== null
-        ? itemInfo.rate - line.unit_price_spreadsheet
+        ? effectiveRate - line.unit_price_spreadsheet
+        : null;
+
+      const variancePercent = priceDifference !== null && effectiveRate !== 0
+        ? Math.abs(priceDifference) / effectiveRate * 100
         : null;
 
       return {
@@ -291,7 +333,11 @@ export class SalesOrderBuilder {
         zoho_item_id: line.zoho_item_id,
         zoho_item_name: itemInfo.name,
         zoho_rate: itemInfo.rate,
+        effective_rate: effectiveRate,
+        rate_source: effective?.source ?? 'item',
+        pricebook_id: effective?.pricebook_id,
         price_difference: priceDifference,
+        variance_percent: variancePercent,
       };
     });
 
@@ -322,6 +368,41 @@ export class SalesOrderBuilder {
     );
   }
 
+  /**
+   * Get issues for lines whose spreadsheet price is further from the
+   * effective rate than the configured threshold
+   */
+  getPriceVarianceIssues(auditRecord: PriceAuditRecord): PriceVarianceIssue[] {
+    const threshold = this.options.priceVarianceThresholdPercent;
+
+    return auditRecord.line_items.flatMap((line) => {
+      if (
+        line.spreadsheet_price === null ||
+        line.variance_percent === null ||
+        line.variance_percent <= threshold
+      ) {
+        return [];
+      }
+
+      const variancePercent = Math.round(line.variance_percent * 10) / 10;
+
+      return [{
+        code: 'PRICE_VARIANCE' as const,
+        severity: 'warning' as const,
+        row: line.row,
+        zoho_item_id: line.zoho_item_id,
+        spreadsheet_price: line.spreadsheet_price,
+        effective_rate: line.effective_rate,
+        variance_percent: variancePercent,
+        message:
+          `Line ${line.row}: ${line.zoho_item_name} priced ${line.spreadsheet_price} in the spreadsheet, ` +
+          `Zoho rate is ${line.effective_rate} (${variancePercent}% difference)`,
+        fields: ['unit_price'],
+        suggested_user_action: 'Please confirm the Zoho rate before approving; the draft uses the Zoho rate',
+      }];
+    });
+  }
+
   /**
    * Get summary of price differences
    */
@@ -0,0 +1,101 @@
+/**
+ * Sales Order Line Diff
+ *
+ * Compares the canonical order a Zoho draft was created from with an amended
+ * version (re-upload or chat edit) so the user approves exactly what will
+ * change before the draft is updated in place.
+ *
+ * Lines are matched by Zoho item and unit; when an item appears on several
+ * lines, they are paired in row order. Lines without a resolved Zoho item
+ * cannot be on the draft and are ignored.
+ */
+
+import { SalesOrderLineChange, SalesOrderLineDiff } from '../types.js';
+import { CanonicalSalesOrder } from './sales-order-builder.js';
+import { normalizeUnit } from './unit-converter.js';
+
+type CanonicalLine = CanonicalSalesOrder['line_items'][number];
+
+/**
+ * Compute the line-level changes between a drafted order and its amendment
+ */
+export function diffSalesOrderLines(
+  previous: CanonicalSalesOrder,
+  amended: CanonicalSalesOrder
+): SalesOrderLineDiff {
+  const previousLines = groupLines(previous.line_items);
+  const amendedLines = groupLines(amended.line_items);
+  const keys = new Set([...previousLines.keys(), ...amendedLines.keys()]);
+
+  const changes: SalesOrderLineChange[] = [];
+  let unchangedLines = 0;
+
+  for (const key of keys) {
+    const before = previousLines.get(key) ?? [];
+    const after = amendedLines.get(key) ?? [];
+
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const previousLine = before[i];
+      const amendedLine = after[i];
+
+      if (previousLine && amendedLine && previousLine.quantity === amendedLine.quantity) {
+        unchangedLines++;
+        continue;
+      }
+
+      const line = (amendedLine ?? previousLine)!;
+      changes.push({
+        change: !previousLine ? 'added' : !amendedLine ? 'removed' : 'changed',
+        zoho_item_id: line.zoho_item_id!,
+        item_name: line.zoho_item_name ?? line.product_name,
+        unit: line.unit ?? null,
+        previous_row: previousLine?.row ?? null,
+        amended_row: amendedLine?.row ?? null,
+        previous_quantity: previousLine?.quantity ?? null,
+        amended_quantity: amendedLine?.quantity ?? null,
+      });
+    }
+  }
+
+  // Present changes in the order of the amended sheet, removed lines last
+  changes.sort(
+    (a, b) =>
+      (a.amended_row ?? Number.MAX_SAFE_INTEGER) - (b.amended_row ?? Number.MAX_SAFE_INTEGER) ||
+      (a.previous_row ?? 0) - (b.previous_row ?? 0)
+  );
+
+  return {
+    changes,
+    unchanged_lines: unchangedLines,
+    customer_changed: previous.customer.zoho_customer_id !== amended.customer.zoho_customer_id,
+  };
+}
+
+/**
+ * Whether an amendment would change the Zoho draft at all
+ */
+export function hasSalesOrderChanges(diff: SalesOrderLineDiff): boolean {
+  return diff.changes.length > 0 || diff.customer_changed;
+}
+
+/**
+ * Group resolved lines by Zoho item and unit, each group in row order
+ */
+function groupLines(lines: CanonicalLine[]): Map<string, CanonicalLine[]> {
+  const groups = new Map<string, CanonicalLine[]>();
+
+  for (const line of [...lines].sort((a, b) => a.row - b.row)) {
+    if (!line.zoho_item_id) {
+      continue;
+    }
+    const key = `${line.zoho_item_id}|${normalizeUnit(line.unit) ?? line.unit ?? ''}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(line);
+    } else {
+      groups.set(key, [line]);
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,231 @@
+/**
+ * Unit of Measure Converter
+ *
+ * Converts order quantities from the unit the customer ordered in (carton,
+ * dozen, ...) to each Zoho item's stocking unit. Must run before
+ * SalesOrderBuilder.buildSalesOrderPayload, which sends quantities as-is.
+ *
+ * Conversion factors come from Zoho item data: the item's unit and the
+ * optional pack-size custom field (pieces per pack/box/carton).
+ */
+
+import { CachedItem, UnitConversionTable } from '../types.js';
+import { CanonicalSalesOrder } from './sales-order-builder.js';
+
+export type UnitOfMeasure = 'piece' | 'dozen' | 'pack' | 'box' | 'carton';
+
+// Unit spellings used in orders and in Zoho item units (English and Farsi)
+const UNIT_SYNONYMS: Record<UnitOfMeasure, string[]> = {
+  piece: [
+    'piece', 'pieces', 'pc', 'pcs', 'ea', 'each', 'unit', 'units', 'nos', 'item', 'items',
+    'عدد', 'دانه', 'واحد',
+  ],
+  dozen: ['dozen', 'dozens', 'doz', 'dz', 'دوجین', 'دو جین', 'دوجن'],
+  pack: ['pack', 'packs', 'pk', 'pkt', 'packet', 'packets', 'بسته', 'پاکت'],
+  box: ['box', 'boxes', 'bx', 'جعبه', 'قوطی'],
+  carton: ['carton', 'cartons', 'ctn', 'ctns', 'case', 'cases', 'cs', 'کارتن', 'کارتون'],
+};
+
+const PIECES_PER_DOZEN = 12;
+
+// Converted quantities are rounded to this many decimals before the whole-number check
+const QUANTITY_PRECISION = 6;
+
+export interface UnitConversionIssue {
+  code: 'UOM_FRACTIONAL_QUANTITY' | 'UOM_CONVERSION_MISSING';
+  severity: 'error';
+  row: number;
+  zoho_item_id: string;
+  message: string;
+  fields: string[];
+  suggested_user_action: string;
+}
+
+export interface LineConversion {
+  row: number;
+  zoho_item_id: string;
+  source_quantity: number;
+  source_unit: UnitOfMeasure;
+  stocking_unit: string;
+  factor: number;
+  quantity: number;
+}
+
+export interface UnitConversionResult {
+  /** Order with quantities in stocking units (unit cleared on converted lines) */
+  order: CanonicalSalesOrder;
+  conversions: LineConversion[];
+  issues: UnitConversionIssue[];
+}
+
+/**
+ * Map a unit as written in an order or in Zoho to its canonical code
+ */
+export function normalizeUnit(value: string | null | undefined): UnitOfMeasure | null {
+  if (!value) {
+    return null;
+  }
+
+  const unit = value
+    .trim()
+    .toLowerCase()
+    .replace(/ك/g, 'ک')
+    .replace(/ي/g, 'ی')
+    .replace(/\.$/, '')
+    .replace(/\s+/g, ' ');
+
+  for (const [code, synonyms] of Object.entries(UNIT_SYNONYMS)) {
+    if (synonyms.includes(unit)) {
+      return code as UnitOfMeasure;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an item's conversion table from its Zoho unit and pack size.
+ * Pack, box and carton all refer to the item's pack. Items without a unit
+ * are stocked per piece; items in an unknown unit (kg, m) get no conversions.
+ */
+export function buildUnitConversionTable(
+  stockingUnit: string | null | undefined,
+  packSize: number | null
+): UnitConversionTable {
+  const stocking = stockingUnit ? normalizeUnit(stockingUnit) : 'piece';
+  if (!stocking) {
+    return {};
+  }
+
+  const pieces: Partial<Record<UnitOfMeasure, number>> = {
+    piece: 1,
+    dozen: PIECES_PER_DOZEN,
+  };
+  if (packSize && packSize > 0) {
+    pieces.pack = packSize;
+    pieces.box = packSize;
+    pieces.carton = packSize;
+  }
+
+  const piecesPerStockingUnit = pieces[stocking];
+  if (!piecesPerStockingUnit) {
+    // Stocked per carton without a known pack size
+    return { [stocking]: 1 };
+  }
+
+  const table: UnitConversionTable = {};
+  for (const [unit, count] of Object.entries(pieces)) {
+    table[unit] = count / piecesPerStockingUnit;
+  }
+  return table;
+}
+
+/**
+ * Line fields read by the converter
+ */
+export interface ConvertibleLine {
+  row: number;
+  quantity: number;
+  unit?: string | null;
+  zoho_item_id: string | null;
+}
+
+export interface LineConversionResult<T extends ConvertibleLine> {
+  /** Line with its quantity in the stocking unit (unchanged when not converted) */
+  line: T;
+  conversion?: LineConversion;
+  issue?: UnitConversionIssue;
+}
+
+export class UnitConverter {
+  /**
+   * Convert line quantities to stocking units.
+   * Lines without a unit, or without a resolved item, are left unchanged.
+   */
+  convertOrder(
+    order: CanonicalSalesOrder,
+    items: Map<string, CachedItem>
+  ): UnitConversionResult {
+    const conversions: LineConversion[] = [];
+    const issues: UnitConversionIssue[] = [];
+
+    const lineItems = order.line_items.map((line) => {
+      const item = line.zoho_item_id ? items.get(line.zoho_item_id) : undefined;
+      const result = this.convertLine(line, item);
+      if (result.conversion) {
+        conversions.push(result.conversion);
+      }
+      if (result.issue) {
+        issues.push(result.issue);
+      }
+      return result.line;
+    });
+
+    return {
+      order: { ...order, line_items: lineItems },
+      conversions,
+      issues,
+    };
+  }
+
+  /**
+   * Convert one line's quantity to its item's stocking unit.
+   * Also used before approval to report conversion issues on the review.
+   */
+  convertLine<T extends ConvertibleLine>(
+    line: T,
+    item: CachedItem | undefined
+  ): LineConversionResult<T> {
+    if (!line.unit || !item) {
+      return { line };
+    }
+
+    const sourceUnit = normalizeUnit(line.unit);
+    const table = item.unit_conversions ?? buildUnitConversionTable(item.unit, null);
+    const factor = sourceUnit ? table[sourceUnit] : undefined;
+    const stockingUnit = item.unit || 'piece';
+
+    if (!sourceUnit || factor === undefined) {
+      return {
+        line,
+        issue: {
+          code: 'UOM_CONVERSION_MISSING',
+          severity: 'error',
+          row: line.row,
+          zoho_item_id: item.zoho_item_id,
+          message: `Line ${line.row}: No conversion from ${line.unit} to ${stockingUnit} for ${item.name}`,
+          fields: ['quantity', 'unit'],
+          suggested_user_action: `Please enter the quantity in ${stockingUnit} or set the item's pack size in Zoho`,
+        },
+      };
+    }
+
+    const quantity = Number((line.quantity * factor).toFixed(QUANTITY_PRECISION));
+
+    const issue: UnitConversionIssue | undefined = Number.isInteger(quantity)
+      ? undefined
+      : {
+        code: 'UOM_FRACTIONAL_QUANTITY',
+        severity: 'error',
+        row: line.row,
+        zoho_item_id: item.zoho_item_id,
+        message: `Line ${line.row}: ${line.quantity} ${sourceUnit} is ${quantity} ${stockingUnit} of ${item.name}, not a whole number`,
+        fields: ['quantity', 'unit'],
+        suggested_user_action: `Please verify the quantity; ${item.name} is sold per ${stockingUnit}`,
+      };
+
+    return {
+      line: { ...line, quantity, unit: null },
+      conversion: {
+        row: line.row,
+        zoho_item_id: item.zoho_item_id,
+        source_quantity: line.quantity,
+        source_unit: sourceUnit,
+        stocking_unit: stockingUnit,
+        factor,
+        quantity,
+      },
+      issue,
+    };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Cosmos DB Cache Snapshot Store
+ *
+ * Persists customer and item cache snapshots in the zoho-customer-cache and
+ * zoho-item-cache containers: one document per record plus one sync state
+ * document per organization. Delta syncs only write the changed records.
+ */
+
+import { Container, SqlQuerySpec } from '@azure/cosmos';
+import { CacheEntity, CacheSnapshot, CacheSnapshotUpdate, CacheSyncState } from '../types.js';
+import { ICacheSnapshotStore } from '../cache/cache-snapshot-store.js';
+
+export interface CosmosCacheSnapshotStoreConfig {
+  customerContainer: Container;
+  itemContainer: Container;
+}
+
+interface RecordDocument<T> {
+  id: string;
+  doc_type: 'record';
+  organization_id: string;
+  record: T;
+  [partitionKey: string]: unknown;
+}
+
+interface SyncStateDocument {
+  id: string;
+  doc_type: 'sync_state';
+  organization_id: string;
+  state: CacheSyncState;
+  saved_at: string;
+  [partitionKey: string]: unknown;
+}
+
+// Partition key field of each container (also the record ID field)
+const PARTITION_KEYS: Record<CacheEntity, string> = {
+  customers: 'zoho_customer_id',
+  items: 'zoho_item_id',
+};
+
+// Concurrent writes per batch
+const WRITE_BATCH_SIZE = 50;
+
+export class CosmosCacheSnapshotStore implements ICacheSnapshotStore {
+  private readonly containers: Record<CacheEntity, Container>;
+
+  constructor(config: CosmosCacheSnapshotStoreConfig) {
+    this.containers = {
+      customers: config.customerContainer,
+      items: config.itemContainer,
+    };
+  }
+
+  /**
+   * Load the snapshot of an organization's cache
+   */
+  async load<T>(entity: CacheEntity, organizationId: string): Promise<CacheSnapshot<T> | null> {
+    const container = this.containers[entity];
+    const stateId = this.getStateId(organizationId);
+
+    const { resource: stateDoc } = await container
+      .item(stateId, stateId)
+      .read<SyncStateDocument>()
+      .catch((error) => {
+        if (error.code === 404) {
+          return { resource: undefined };
+        }
+        throw error;
+      });
+
+    if (!stateDoc) {
+      return null;
+    }
+
+    const query: SqlQuerySpec = {
+      query: "SELECT c.record FROM c WHERE c.organization_id = @orgId AND c.doc_type = 'record'",
+      parameters: [{ name: '@orgId', value: organizationId }],
+    };
+
+    const { resources } = await container.items
+      .query<{ record: T }>(query)
+      .fetchAll();
+
+    return {
+      state: stateDoc.state,
+      records: resources.map((doc) => doc.record),
+      saved_at: stateDoc.saved_at,
+    };
+  }
+
+  /**
+   * Write changed records, delete removed ones, then the sync state.
+   * The state is written last so a failed save never advances the watermark.
+   */
+  async save<T>(update: CacheSnapshotUpdate<T>): Promise<void> {
+    const { entity, organization_id: organizationId } = update.state;
+    const container = this.containers[entity];
+    const partitionKey = PARTITION_KEYS[entity];
+
+    for (let i = 0; i < update.changed.length; i += WRITE_BATCH_SIZE) {
+      const batch = update.changed.slice(i, i + WRITE_BATCH_SIZE);
+      await Promise.all(
+        batch.map((record) => {
+          const recordId = String((record as Record<string, unknown>)[partitionKey]);
+          const document: RecordDocument<T> = {
+            id: this.getRecordId(organizationId, recordId),
+            doc_type: 'record',
+            organization_id: organizationId,
+            [partitionKey]: recordId,
+            record,
+          };
+          return container.items.upsert(document);
+        })
+      );
+    }
+
+    for (let i = 0; i < update.removed_ids.length; i += WRITE_BATCH_SIZE) {
+      const batch = update.removed_ids.slice(i, i + WRITE_BATCH_SIZE);
+      await Promise.all(
+        batch.map((recordId) =>
+          container
+            .item(this.getRecordId(organizationId, recordId), recordId)
+            .delete()
+            .catch((error) => {
+              // Already gone
+              if (error.code !== 404) {
+                throw error;
+              }
+            })
+        )
+      );
+    }
+
+    const stateId = this.getStateId(organizationId);
+    const stateDoc: SyncStateDocument = {
+      id: stateId,
+      doc_type: 'sync_state',
+      organization_id: organizationId,
+      [partitionKey]: stateId,
+      state: update.state,
+      saved_at: new Date().toISOString(),
+    };
+    await container.items.upsert(stateDoc);
+
+    console.log(
+      `[CosmosCacheSnapshot] Saved ${entity}: ${update.changed.length} changed, ${update.removed_ids.length} removed`
+    );
+  }
+
+  private getRecordId(organizationId: string, recordId: string): string {
+    return `${organizationId}:${recordId}`;
+  }
+
+  private getStateId(organizationId: string): string {
+    return `sync-state:${organizationId}`;
+  }
+}
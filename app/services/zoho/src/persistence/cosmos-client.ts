@@ -2,7 +2,7 @@
  * Cosmos DB Client Factory
  *
  * Provides a centralized Cosmos DB client for Zoho integration persistence.
- * Manages containers for fingerprints, retry queue, outbox, and cache.
+ * Manages containers for fingerprints, retry queue, outbox, cache, and rate limits.
  */
 
 import { CosmosClient, Database, Container, PartitionKeyDefinition } from '@azure/cosmos';
@@ -17,6 +17,7 @@ export interface CosmosConfig {
   outboxContainer?: string;
   customerCacheContainer?: string;
   itemCacheContainer?: string;
+  rateLimitContainer?: string;
 }
 
 export interface CosmosContainers {
@@ -25,6 +26,7 @@ export interface CosmosContainers {
   outbox: Container;
   customerCache: Container;
   itemCache: Container;
+  rateLimits: Container;
 }
 
 const DEFAULT_CONTAINERS = {
@@ -33,6 +35,7 @@ const DEFAULT_CONTAINERS = {
   outbox: 'zoho-outbox',
   customerCache: 'zoho-customer-cache',
   itemCache: 'zoho-item-cache',
+  rateLimits: 'zoho-rate-limits',
 };
 
 const CONTAINER_CONFIGS: Record<string, { partitionKey: PartitionKeyDefinition; ttlEnabled: boolean }> = {
@@ -56,6 +59,10 @@ const CONTAINER_CONFIGS: Record<string, { partitionKey: PartitionKeyDefinition;
     partitionKey: { paths: ['/zoho_item_id'] },
     ttlEnabled: true,
   },
+  rateLimits: {
+    partitionKey: { paths: ['/id'] },
+    ttlEnabled: false, // One token bucket per organization
+  },
 };
 
 export class ZohoCosmosClient {
@@ -73,6 +80,7 @@ export class ZohoCosmosClient {
       outboxContainer: config.outboxContainer || DEFAULT_CONTAINERS.outbox,
       customerCacheContainer: config.customerCacheContainer || DEFAULT_CONTAINERS.customerCache,
       itemCacheContainer: config.itemCacheContainer || DEFAULT_CONTAINERS.itemCache,
+      rateLimitContainer: config.rateLimitContainer || DEFAULT_CONTAINERS.rateLimits,
     };
 
     // Use Managed Identity for authentication
@@ -97,12 +105,13 @@ export class ZohoCosmosClient {
     this.database = database;
 
     // Get or create containers
-    const [fingerprints, retryQueue, outbox, customerCache, itemCache] = await Promise.all([
+    const [fingerprints, retryQueue, outbox, customerCache, itemCache, rateLimits] = await Promise.all([
       this.getOrCreateContainer(this.config.fingerprintContainer, 'fingerprints'),
       this.getOrCreateContainer(this.config.retryQueueContainer, 'retryQueue'),
       this.getOrCreateContainer(this.config.outboxContainer, 'outbox'),
       this.getOrCreateContainer(this.config.customerCacheContainer, 'customerCache'),
       this.getOrCreateContainer(this.config.itemCacheContainer, 'itemCache'),
+      this.getOrCreateContainer(this.config.rateLimitContainer, 'rateLimits'),
     ]);
 
     this.containers = {
@@ -111,6 +120,7 @@ export class ZohoCosmosClient {
       outbox,
       customerCache,
       itemCache,
+      rateLimits,
     };
 
     console.log('[ZohoCosmos] Initialized successfully');
@@ -182,4 +192,11 @@ export class ZohoCosmosClient {
   get itemCache(): Container {
     return this.getContainers().itemCache;
   }
+
+  /**
+   * Get rate limit container
+   */
+  get rateLimits(): Container {
+    return this.getContainers().rateLimits;
+  }
 }
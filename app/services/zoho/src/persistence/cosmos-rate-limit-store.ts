@@ -0,0 +1,79 @@
+/**
+ * Cosmos DB Rate Limit Store
+ *
+ * Shares the Zoho token bucket of each organization across API instances and
+ * workflow workers. One document per organization, updated with optimistic
+ * concurrency (ETag) and retried on conflict.
+ */
+
+import { Container } from '@azure/cosmos';
+import { RateLimitBucketState } from '../types.js';
+import { IRateLimitStore } from '../rate-limit/rate-limit-store.js';
+
+export interface CosmosRateLimitStoreConfig {
+  container: Container;
+  maxConflictRetries?: number; // Default: 10
+}
+
+interface RateLimitDocument {
+  id: string;
+  state: RateLimitBucketState;
+  _etag?: string;
+}
+
+export class CosmosRateLimitStore implements IRateLimitStore {
+  private readonly container: Container;
+  private readonly maxConflictRetries: number;
+
+  constructor(config: CosmosRateLimitStoreConfig) {
+    this.container = config.container;
+    this.maxConflictRetries = config.maxConflictRetries ?? 10;
+  }
+
+  async update(
+    organizationId: string,
+    mutate: (current: RateLimitBucketState | null) => RateLimitBucketState
+  ): Promise<RateLimitBucketState> {
+    const id = this.getDocumentId(organizationId);
+
+    for (let attempt = 0; attempt <= this.maxConflictRetries; attempt++) {
+      const existing = await this.read(id);
+      const next: RateLimitDocument = { id, state: mutate(existing?.state ?? null) };
+
+      try {
+        if (existing?._etag) {
+          await this.container.item(id, id).replace(next, {
+            accessCondition: { type: 'IfMatch', condition: existing._etag },
+          });
+        } else {
+          await this.container.items.create(next);
+        }
+        return next.state;
+      } catch (error) {
+        // 412: changed since read, 409: created concurrently - read again
+        const code = (error as { code?: number }).code;
+        if (code !== 412 && code !== 409) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Rate limit bucket for ${organizationId} is too contended to update`);
+  }
+
+  private async read(id: string): Promise<RateLimitDocument | null> {
+    try {
+      const { resource } = await this.container.item(id, id).read<RateLimitDocument>();
+      return resource ?? null;
+    } catch (error) {
+      if ((error as { code?: number }).code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private getDocumentId(organizationId: string): string {
+    return `rate-limit:${organizationId}`;
+  }
+}
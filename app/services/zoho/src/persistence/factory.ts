@@ -9,6 +9,8 @@ import { ZohoCosmosClient, CosmosConfig } from './cosmos-client.js';
 import { FingerprintStore } from './fingerprint-store.js';
 import { CosmosRetryQueue } from './cosmos-retry-queue.js';
 import { CosmosOutbox } from './cosmos-outbox.js';
+import { CosmosCacheSnapshotStore } from './cosmos-cache-snapshot-store.js';
+import { CosmosRateLimitStore } from './cosmos-rate-limit-store.js';
 import { IFingerprintStore, IRetryQueue, IOutbox } from '../client.js';
 
 export interface ZohoPersistenceConfig {
@@ -24,6 +26,8 @@ export interface ZohoPersistenceStores {
   fingerprintStore: IFingerprintStore;
   retryQueue: IRetryQueue;
   outbox: IOutbox;
+  cacheSnapshotStore: CosmosCacheSnapshotStore;
+  rateLimitStore: CosmosRateLimitStore;
   cosmosClient: ZohoCosmosClient;
 }
 
@@ -68,12 +72,23 @@ export async function initializeZohoPersistence(
     container: containers.outbox,
   });
 
+  const cacheSnapshotStore = new CosmosCacheSnapshotStore({
+    customerContainer: containers.customerCache,
+    itemContainer: containers.itemCache,
+  });
+
+  const rateLimitStore = new CosmosRateLimitStore({
+    container: containers.rateLimits,
+  });
+
   console.log('[ZohoPersistence] Cosmos-backed persistence stores initialized successfully');
 
   return {
     fingerprintStore,
     retryQueue,
     outbox,
+    cacheSnapshotStore,
+    rateLimitStore,
     cosmosClient,
   };
 }
@@ -8,6 +8,11 @@ export { ZohoCosmosClient, type CosmosConfig, type CosmosContainers } from './co
 export { FingerprintStore, type FingerprintStoreConfig } from './fingerprint-store.js';
 export { CosmosRetryQueue, type CosmosRetryQueueConfig } from './cosmos-retry-queue.js';
 export { CosmosOutbox, type CosmosOutboxConfig } from './cosmos-outbox.js';
+export {
+  CosmosCacheSnapshotStore,
+  type CosmosCacheSnapshotStoreConfig,
+} from './cosmos-cache-snapshot-store.js';
+export { CosmosRateLimitStore, type CosmosRateLimitStoreConfig } from './cosmos-rate-limit-store.js';
 export {
   initializeZohoPersistence,
   tryInitializeZohoPersistence,
@@ -0,0 +1,164 @@
+/**
+ * Rate Resolver
+ *
+ * Resolves the rate Zoho would charge a customer for an item and quantity:
+ * 1. Customer's price list, per-item rate (volume bracket for the quantity)
+ * 2. Customer's price list, percentage markup/markdown of the item rate
+ * 3. Item rate from the item cache (no price list assigned)
+ *
+ * Rates are per stocking unit; resolveRateInUnit() restates them per
+ * carton/dozen/etc. for comparing with spreadsheet prices.
+ */
+
+import { CachedItem, EffectiveRate, ZohoPriceBook } from '../types.js';
+import { normalizeUnit } from '../payload/unit-converter.js';
+
+/**
+ * Source of customers (needs the customer's assigned price list)
+ */
+export interface RateResolverCustomerSource {
+  findById(customerId: string): Promise<{ pricebook_id?: string } | null>;
+}
+
+/**
+ * Source of price lists
+ */
+export interface RateResolverPriceBookSource {
+  getPriceBook(pricebookId: string): Promise<ZohoPriceBook | null>;
+}
+
+/**
+ * Round a rate as configured on the price list
+ */
+function applyRounding(rate: number, roundingType: ZohoPriceBook['rounding_type']): number {
+  switch (roundingType) {
+    case 'round_to_dollar':
+      return Math.round(rate);
+    case 'round_to_dollar_minus_01':
+      return Math.round(rate) - 0.01;
+    case 'round_to_half_dollar':
+      return Math.round(rate * 2) / 2;
+    case 'round_to_half_dollar_minus_01':
+      return Math.round(rate * 2) / 2 - 0.01;
+    default:
+      return Math.round(rate * 100) / 100;
+  }
+}
+
+/**
+ * Resolve the effective rate of an item for a quantity under a price list.
+ * Items missing from a per-item price list keep their own rate.
+ */
+export function resolveEffectiveRate(
+  item: CachedItem,
+  quantity: number,
+  priceBook?: ZohoPriceBook | null
+): EffectiveRate {
+  const itemRate: EffectiveRate = {
+    rate: item.rate,
+    base_rate: item.rate,
+    source: 'item',
+  };
+
+  if (!priceBook) {
+    return itemRate;
+  }
+
+  const fromPriceBook = {
+    base_rate: item.rate,
+    pricebook_id: priceBook.pricebook_id,
+    pricebook_name: priceBook.name,
+  };
+
+  if (priceBook.pricebook_type === 'fixed_percentage') {
+    const percentage = priceBook.percentage ?? 0;
+    const factor = priceBook.is_increase === false ? 1 - percentage / 100 : 1 + percentage / 100;
+
+    return {
+      ...fromPriceBook,
+      rate: applyRounding(item.rate * factor, priceBook.rounding_type),
+      source: 'price_book',
+    };
+  }
+
+  const entry = priceBook.pricebook_items?.find((i) => i.item_id === item.zoho_item_id);
+  if (!entry) {
+    return itemRate;
+  }
+
+  if (priceBook.pricing_scheme === 'volume' && entry.price_brackets?.length) {
+    const bracket = entry.price_brackets.find(
+      (b) =>
+        quantity >= b.start_quantity &&
+        (b.end_quantity === null || b.end_quantity === undefined || b.end_quantity === 0 || quantity <= b.end_quantity)
+    );
+
+    if (bracket) {
+      return {
+        ...fromPriceBook,
+        rate: bracket.pricebook_rate,
+        source: 'price_book_tier',
+        tier_start_quantity: bracket.start_quantity,
+      };
+    }
+  }
+
+  return {
+    ...fromPriceBook,
+    rate: entry.pricebook_rate,
+    source: 'price_book',
+  };
+}
+
+export class RateResolver {
+  constructor(
+    private readonly customers: RateResolverCustomerSource,
+    private readonly priceBooks: RateResolverPriceBookSource
+  ) {}
+
+  /**
+   * Get the price list assigned to a customer, if any
+   */
+  async getCustomerPriceBook(customerId: string): Promise<ZohoPriceBook | null> {
+    const customer = await this.customers.findById(customerId);
+    if (!customer?.pricebook_id) {
+      return null;
+    }
+
+    return this.priceBooks.getPriceBook(customer.pricebook_id);
+  }
+
+  /**
+   * Resolve the effective rate for one customer, item and quantity
+   */
+  async resolveRate(customerId: string, item: CachedItem, quantity: number): Promise<EffectiveRate> {
+    const priceBook = await this.getCustomerPriceBook(customerId);
+    return resolveEffectiveRate(item, quantity, priceBook);
+  }
+
+  /**
+   * Resolve the effective rate for a quantity stated in another unit
+   * (e.g. 3 cartons), expressed per that unit.
+   * Returns null when the item has no conversion for the unit.
+   */
+  async resolveRateInUnit(
+    customerId: string,
+    item: CachedItem,
+    quantity: number,
+    unit: string
+  ): Promise<EffectiveRate | null> {
+    const normalized = normalizeUnit(unit);
+    const factor = normalized ? item.unit_conversions?.[normalized] : undefined;
+    if (!factor) {
+      return null;
+    }
+
+    const effective = await this.resolveRate(customerId, item, quantity * factor);
+
+    return {
+      ...effective,
+      rate: Math.round(effective.rate * factor * 100) / 100,
+      base_rate: Math.round(effective.base_rate * factor * 100) / 100,
+    };
+  }
+}
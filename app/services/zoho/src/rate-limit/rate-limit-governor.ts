@@ -0,0 +1,308 @@
+/**
+ * Zoho Rate Limit Governor
+ *
+ * Every Zoho API class routes its calls through a governor so uploads across
+ * API instances and workflow workers stay within Zoho's per-minute and daily
+ * limits instead of failing with 429 and landing in the retry queue.
+ *
+ * - Token bucket per organization (refills continuously up to requestsPerMinute)
+ * - Daily call counter (resets at midnight UTC)
+ * - Part of both budgets is reserved: low priority calls (cache refreshes)
+ *   leave the whole reserve, normal calls half of it, high priority calls
+ *   (sales order creation) may use everything
+ * - A 429 from Zoho pauses the shared bucket for Retry-After (or until
+ *   midnight UTC when the daily limit was hit)
+ */
+
+import axios from 'axios';
+import {
+  RateLimitBucketState,
+  RateLimitBudgetUsage,
+  RateLimitStats,
+  ZohoRequestPriority,
+} from '../types.js';
+import { IRateLimitStore, InMemoryRateLimitStore } from './rate-limit-store.js';
+
+export interface ZohoRateLimitGovernorConfig {
+  requestsPerMinute?: number; // Default: 100 (Zoho Books per-organization limit)
+  dailyLimit?: number; // Default: 5000 (depends on the Zoho Books plan)
+  reservedPercent?: number; // Default: 20 - share of each budget kept for high priority calls
+  maxWaitMs?: number; // Default: 60000 - calls that would wait longer fail with ZohoRateLimitError
+  defaultRetryAfterMs?: number; // Default: 60000 - pause after a 429 without Retry-After
+  store?: IRateLimitStore; // Default: in-memory (this process only)
+}
+
+export type RateLimitPauseReason = 'per_minute' | 'daily';
+
+/**
+ * Thrown when a call would have to wait longer than maxWaitMs for budget
+ */
+export class ZohoRateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: RateLimitPauseReason,
+    public readonly retryAfterMs: number
+  ) {
+    super(message);
+    this.name = 'ZohoRateLimitError';
+  }
+}
+
+// Share of the reserved budget each priority must leave untouched
+const RESERVE_SHARE: Record<ZohoRequestPriority, number> = {
+  high: 0,
+  normal: 0.5,
+  low: 1,
+};
+
+// Zoho answers 429 for both limits; only the message tells the daily limit apart
+const DAILY_LIMIT_PATTERN = /\b(per day|daily|24 hours)\b/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ZohoRateLimitGovernor {
+  private readonly config: Required<Omit<ZohoRateLimitGovernorConfig, 'store'>>;
+  private readonly store: IRateLimitStore;
+  private readonly usage = new Map<string, RateLimitBudgetUsage>();
+  private readonly counters = {
+    granted: 0,
+    throttled: 0,
+    rejected: 0,
+    rateLimited: 0,
+  };
+
+  constructor(config: ZohoRateLimitGovernorConfig = {}) {
+    this.config = {
+      requestsPerMinute: config.requestsPerMinute ?? 100,
+      dailyLimit: config.dailyLimit ?? 5000,
+      reservedPercent: config.reservedPercent ?? 20,
+      maxWaitMs: config.maxWaitMs ?? 60000,
+      defaultRetryAfterMs: config.defaultRetryAfterMs ?? 60000,
+    };
+    this.store = config.store ?? new InMemoryRateLimitStore();
+  }
+
+  /**
+   * Wait for budget, then perform the request.
+   * A 429 response pauses the shared bucket before the error is rethrown.
+   */
+  async schedule<T>(
+    organizationId: string,
+    priority: ZohoRequestPriority,
+    request: () => Promise<T>
+  ): Promise<T> {
+    await this.acquire(organizationId, priority);
+
+    try {
+      return await request();
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        await this.recordRateLimited(organizationId, error.response.headers['retry-after'], error.response.data)
+          .catch((err) => console.warn('[ZohoRateLimit] Failed to record 429 pause:', err));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Take one call from the organization's budget, waiting for it if needed
+   *
+   * @throws ZohoRateLimitError if the wait would exceed maxWaitMs
+   */
+  async acquire(organizationId: string, priority: ZohoRequestPriority = 'normal'): Promise<void> {
+    const deadline = Date.now() + this.config.maxWaitMs;
+    let throttled = false;
+
+    for (;;) {
+      const decision = { waitMs: 0, reason: 'per_minute' as RateLimitPauseReason };
+
+      const state = await this.store.update(organizationId, (current) => {
+        const result = this.take(current ?? this.createBucket(organizationId, Date.now()), priority, Date.now());
+        decision.waitMs = result.waitMs;
+        decision.reason = result.reason;
+        return result.state;
+      });
+      this.recordUsage(state);
+
+      if (decision.waitMs === 0) {
+        this.counters.granted++;
+        return;
+      }
+
+      if (Date.now() + decision.waitMs > deadline) {
+        this.counters.rejected++;
+        throw new ZohoRateLimitError(
+          `Zoho ${decision.reason === 'daily' ? 'daily' : 'per-minute'} API budget exhausted ` +
+            `for ${priority} priority calls (retry in ${Math.ceil(decision.waitMs / 1000)}s)`,
+          decision.reason,
+          decision.waitMs
+        );
+      }
+
+      if (!throttled) {
+        throttled = true;
+        this.counters.throttled++;
+      }
+      await this.sleep(decision.waitMs);
+    }
+  }
+
+  /**
+   * Pause the organization's bucket after Zoho returned 429
+   *
+   * @param retryAfter - Retry-After header (seconds or HTTP date)
+   * @param body - Zoho error body ({ code, message })
+   */
+  async recordRateLimited(organizationId: string, retryAfter: unknown, body?: unknown): Promise<void> {
+    this.counters.rateLimited++;
+
+    const now = Date.now();
+    const message = (body as { message?: unknown } | undefined)?.message;
+    const reason: RateLimitPauseReason =
+      typeof message === 'string' && DAILY_LIMIT_PATTERN.test(message) ? 'daily' : 'per_minute';
+    const pauseMs =
+      parseRetryAfter(retryAfter, now) ??
+      (reason === 'daily' ? msUntilNextUtcDay(now) : this.config.defaultRetryAfterMs);
+
+    console.warn(`[ZohoRateLimit] Zoho returned 429 (${reason}), pausing calls for ${pauseMs}ms`);
+
+    const state = await this.store.update(organizationId, (current) => {
+      const bucket = this.refill(current ?? this.createBucket(organizationId, now), now);
+      return {
+        ...bucket,
+        day_count: reason === 'daily' ? Math.max(bucket.day_count, this.config.dailyLimit) : bucket.day_count,
+        paused_until: Math.max(bucket.paused_until ?? 0, now + pauseMs),
+        pause_reason: reason,
+      };
+    });
+    this.recordUsage(state);
+  }
+
+  /**
+   * Get budget usage and governor counters
+   */
+  getStats(): RateLimitStats {
+    return {
+      requests_per_minute: this.config.requestsPerMinute,
+      daily_limit: this.config.dailyLimit,
+      reserved_percent: this.config.reservedPercent,
+      granted_requests: this.counters.granted,
+      throttled_requests: this.counters.throttled,
+      rejected_requests: this.counters.rejected,
+      rate_limited_responses: this.counters.rateLimited,
+      organizations: [...this.usage.values()],
+    };
+  }
+
+  /**
+   * Decide whether a call of the given priority may proceed now
+   */
+  private take(
+    current: RateLimitBucketState,
+    priority: ZohoRequestPriority,
+    now: number
+  ): { state: RateLimitBucketState; waitMs: number; reason: RateLimitPauseReason } {
+    const bucket = this.refill(current, now);
+
+    if (bucket.paused_until !== null) {
+      return { state: bucket, waitMs: bucket.paused_until - now, reason: bucket.pause_reason ?? 'per_minute' };
+    }
+
+    const reserve = (this.config.reservedPercent / 100) * RESERVE_SHARE[priority];
+
+    if (bucket.day_count + 1 > this.config.dailyLimit * (1 - reserve)) {
+      return { state: bucket, waitMs: msUntilNextUtcDay(now), reason: 'daily' };
+    }
+
+    const tokenFloor = this.config.requestsPerMinute * reserve;
+    if (bucket.tokens - 1 < tokenFloor) {
+      const tokensPerMs = this.config.requestsPerMinute / 60000;
+      return {
+        state: bucket,
+        waitMs: Math.max(1, Math.ceil((tokenFloor + 1 - bucket.tokens) / tokensPerMs)),
+        reason: 'per_minute',
+      };
+    }
+
+    return {
+      state: { ...bucket, tokens: bucket.tokens - 1, day_count: bucket.day_count + 1 },
+      waitMs: 0,
+      reason: 'per_minute',
+    };
+  }
+
+  /**
+   * Add tokens for the time elapsed, roll the daily counter and expire pauses
+   */
+  private refill(bucket: RateLimitBucketState, now: number): RateLimitBucketState {
+    const elapsed = Math.max(0, now - bucket.refilled_at);
+    const day = utcDay(now);
+    const paused = bucket.paused_until !== null && bucket.paused_until > now;
+
+    return {
+      ...bucket,
+      tokens: Math.min(
+        this.config.requestsPerMinute,
+        bucket.tokens + (elapsed * this.config.requestsPerMinute) / 60000
+      ),
+      refilled_at: now,
+      day,
+      day_count: bucket.day === day ? bucket.day_count : 0,
+      paused_until: paused ? bucket.paused_until : null,
+      pause_reason: paused ? bucket.pause_reason : null,
+    };
+  }
+
+  private createBucket(organizationId: string, now: number): RateLimitBucketState {
+    return {
+      organization_id: organizationId,
+      tokens: this.config.requestsPerMinute,
+      refilled_at: now,
+      day: utcDay(now),
+      day_count: 0,
+      paused_until: null,
+      pause_reason: null,
+    };
+  }
+
+  private recordUsage(state: RateLimitBucketState): void {
+    this.usage.set(state.organization_id, {
+      organization_id: state.organization_id,
+      tokens_available: Math.floor(state.tokens),
+      daily_used: state.day_count,
+      daily_remaining: Math.max(0, this.config.dailyLimit - state.day_count),
+      paused_until: state.paused_until ? new Date(state.paused_until).toISOString() : null,
+      pause_reason: state.pause_reason,
+      updated_at: new Date(state.refilled_at).toISOString(),
+    });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) to milliseconds
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+function msUntilNextUtcDay(now: number): number {
+  return DAY_MS - (now % DAY_MS);
+}
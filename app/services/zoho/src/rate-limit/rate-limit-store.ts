@@ -0,0 +1,37 @@
+/**
+ * Rate Limit Store
+ *
+ * Holds the token bucket shared by every process calling Zoho for an
+ * organization. InMemoryRateLimitStore only coordinates calls within one
+ * process; CosmosRateLimitStore (persistence/cosmos-rate-limit-store.ts)
+ * shares the bucket across API instances and workflow workers.
+ */
+
+import { RateLimitBucketState } from '../types.js';
+
+/**
+ * Interface for rate limit bucket persistence
+ */
+export interface IRateLimitStore {
+  /**
+   * Atomically replace the bucket state of an organization.
+   * mutate may run more than once when concurrent updates conflict.
+   */
+  update(
+    organizationId: string,
+    mutate: (current: RateLimitBucketState | null) => RateLimitBucketState
+  ): Promise<RateLimitBucketState>;
+}
+
+export class InMemoryRateLimitStore implements IRateLimitStore {
+  private readonly buckets = new Map<string, RateLimitBucketState>();
+
+  async update(
+    organizationId: string,
+    mutate: (current: RateLimitBucketState | null) => RateLimitBucketState
+  ): Promise<RateLimitBucketState> {
+    const next = mutate(this.buckets.get(organizationId) ?? null);
+    this.buckets.set(organizationId, next);
+    return next;
+  }
+}
@@ -302,26 +302,25 @@ export class BlobAuditStore {
   }
 
   /**
-   * List audit logs for a case
+   * List audit logs for a case (audit logs and API request/response logs)
    */
   async listAuditLogsForCase(caseId: string, startDate: Date, endDate: Date): Promise<string[]> {
     const paths: string[] = [];
 
-    // Iterate through each day in the range
+    // Iterate through each day in the range (inclusive of the end date's day)
     const current = new Date(startDate);
+    current.setHours(0, 0, 0, 0);
     while (current <= endDate) {
       const year = current.getFullYear();
       const month = String(current.getMonth() + 1).padStart(2, '0');
       const day = String(current.getDate()).padStart(2, '0');
-      const prefix = `${year}/${month}/${day}/`;
 
-      for await (const blob of this.auditContainer.listBlobsFlat({ prefix })) {
-        // Check metadata for case_id
-        const blockBlob = this.auditContainer.getBlockBlobClient(blob.name);
-        const props = await blockBlob.getProperties();
-
-        if (props.metadata?.case_id === caseId) {
-          paths.push(blob.name);
+      for (const prefix of [`${year}/${month}/${day}/`, `audit/zoho/${year}/${month}/${day}/`]) {
+        for await (const blob of this.auditContainer.listBlobsFlat({ prefix, includeMetadata: true })) {
+          // Check metadata for case_id
+          if (blob.metadata?.case_id === caseId) {
+            paths.push(blob.name);
+          }
         }
       }
 
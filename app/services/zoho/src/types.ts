@@ -80,6 +80,8 @@ export interface ZohoCustomer {
   mobile?: string;
   created_time?: string;
   last_modified_time?: string;
+  pricebook_id?: string; // Price list assigned to the customer
+  pricebook_name?: string;
 }
 
 export interface ZohoCustomerListResponse {
@@ -126,6 +128,47 @@ export interface ZohoItemListResponse {
   items: ZohoItem[];
 }
 
+// ==================== Zoho Price List Types ====================
+
+/**
+ * Volume pricing tier of a price list item (end_quantity empty = no upper bound)
+ */
+export interface ZohoPriceBracket {
+  start_quantity: number;
+  end_quantity?: number | null;
+  pricebook_rate: number;
+}
+
+export interface ZohoPriceBookItem {
+  item_id: string;
+  name?: string;
+  pricebook_rate: number;
+  price_brackets?: ZohoPriceBracket[];
+}
+
+export interface ZohoPriceBook {
+  pricebook_id: string;
+  name: string;
+  description?: string;
+  currency_id?: string;
+  currency_code?: string;
+  status: 'active' | 'inactive';
+  pricebook_type: 'fixed_percentage' | 'per_item';
+  sales_or_purchase_type?: 'sales' | 'purchases';
+  // fixed_percentage: mark items up or down from their rate
+  percentage?: number;
+  is_increase?: boolean;
+  rounding_type?:
+    | 'no_rounding'
+    | 'round_to_dollar'
+    | 'round_to_dollar_minus_01'
+    | 'round_to_half_dollar'
+    | 'round_to_half_dollar_minus_01';
+  // per_item: explicit rates, optionally by quantity (volume)
+  pricing_scheme?: 'unit' | 'volume';
+  pricebook_items?: ZohoPriceBookItem[];
+}
+
 // ==================== Zoho Sales Order Types ====================
 
 export interface ZohoSalesOrder {
@@ -209,6 +252,32 @@ export interface ZohoSalesOrderCreateResponse {
   salesorder: ZohoSalesOrder;
 }
 
+// ==================== Order Amendment Types ====================
+
+export type SalesOrderLineChangeType = 'added' | 'removed' | 'changed';
+
+/**
+ * One line that differs between the drafted order and its amendment.
+ * Lines are matched by Zoho item and unit, so moving a line is not a change.
+ */
+export interface SalesOrderLineChange {
+  change: SalesOrderLineChangeType;
+  zoho_item_id: string;
+  item_name: string | null;
+  unit: string | null;
+  previous_row: number | null;
+  amended_row: number | null;
+  previous_quantity: number | null;
+  amended_quantity: number | null;
+}
+
+export interface SalesOrderLineDiff {
+  changes: SalesOrderLineChange[];
+  unchanged_lines: number;
+  /** Amended order resolved to a different Zoho customer */
+  customer_changed: boolean;
+}
+
 // ==================== Cache Types ====================
 
 export interface CachedCustomer {
@@ -219,6 +288,8 @@ export interface CachedCustomer {
   status: string;
   email?: string;
   phone?: string;
+  pricebook_id?: string;
+  last_modified_time?: string; // Zoho modification time (delta sync watermark)
   last_cached_at: string;
 }
 
@@ -229,19 +300,113 @@ export interface CachedItem {
   gtin: string | null; // From custom field
   rate: number;
   unit?: string;
+  /** Stocking units per unit of measure (see buildUnitConversionTable) */
+  unit_conversions?: UnitConversionTable;
   status: string;
   description?: string;
+  last_modified_time?: string; // Zoho modification time (delta sync watermark)
   last_cached_at: string;
 }
 
+/**
+ * Item conversion table: how many of the item's stocking unit one unit of
+ * measure (piece, dozen, pack, box, carton) holds.
+ * Example for an item stocked per piece with 24 per carton:
+ * { piece: 1, dozen: 12, pack: 24, box: 24, carton: 24 }
+ */
+export type UnitConversionTable = Record<string, number>;
+
 export interface CacheRefreshResult {
   success: boolean;
   customers_updated: number;
   items_updated: number;
+  customers_removed?: number;
+  items_removed?: number;
   errors: string[];
   last_refresh_at: string;
 }
 
+// ==================== Cache Sync Types ====================
+
+export type CacheEntity = 'customers' | 'items';
+
+/**
+ * Delta sync progress of one cache, persisted with its snapshot.
+ * The watermark is the latest Zoho last_modified_time seen for the org.
+ */
+export interface CacheSyncState {
+  entity: CacheEntity;
+  organization_id: string;
+  watermark: string | null;
+  last_full_sync_at: string | null;
+  last_delta_sync_at: string | null;
+}
+
+/**
+ * Persisted cache contents, restored on restart instead of a cold full sync
+ */
+export interface CacheSnapshot<T> {
+  state: CacheSyncState;
+  records: T[];
+  saved_at: string;
+}
+
+/**
+ * Changes to persist after a sync
+ */
+export interface CacheSnapshotUpdate<T> {
+  state: CacheSyncState;
+  records: T[]; // Full cache contents after the sync
+  changed: T[]; // Records added or updated by the sync
+  removed_ids: string[]; // Records deleted or deactivated in Zoho
+  full: boolean; // Whether the sync was a full reload
+}
+
+/**
+ * Result of syncing one cache
+ */
+export interface CacheSyncResult {
+  mode: 'full' | 'delta';
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+/**
+ * Sync status of one cache, as reported on health routes
+ */
+export interface CacheSyncStatus {
+  entity: CacheEntity;
+  record_count: number;
+  watermark: string | null;
+  last_sync_at: string | null;
+  last_sync_mode: 'full' | 'delta' | 'snapshot' | null;
+  last_full_sync_at: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Cache staleness metrics
+ */
+export interface CacheStalenessMetrics extends CacheSyncStatus {
+  age_seconds: number | null; // Seconds since the last successful sync (null = never synced)
+  stale: boolean;
+}
+
+// ==================== Pricing Types ====================
+
+/**
+ * Rate used for an order line after applying the customer's price list
+ */
+export interface EffectiveRate {
+  rate: number;
+  base_rate: number; // Item rate from Zoho
+  source: 'item' | 'price_book' | 'price_book_tier';
+  pricebook_id?: string;
+  pricebook_name?: string;
+  tier_start_quantity?: number; // Volume tier applied (price_book_tier)
+}
+
 // ==================== Matching Types ====================
 
 export interface CustomerMatchResult {
@@ -267,8 +432,10 @@ export interface ItemMatchResult {
     name: string;
     rate: number;
   };
-  method?: 'sku' | 'gtin' | 'name_fuzzy' | 'user_selected';
+  method?: 'sku' | 'gtin' | 'name_fuzzy' | 'user_selected' | 'alias';
   confidence: number;
+  /** Learned alias that produced the match (method 'alias') */
+  alias_id?: string;
   candidates: Array<{
     zoho_item_id: string;
     sku: string | null;
@@ -280,6 +447,24 @@ export interface ItemMatchResult {
   }>;
 }
 
+/**
+ * Learned mapping from a customer's SKU, GTIN or description to a Zoho item,
+ * recorded when a user picks an item
+ */
+export interface ItemAlias {
+  alias_id: string;
+  source_kind: 'sku' | 'gtin' | 'description';
+  zoho_item_id: string;
+  confidence: number; // Confidence when last confirmed (0-1)
+  last_confirmed_at: string; // ISO 8601
+  revoked?: boolean;
+}
+
+export interface ItemMatchContext {
+  aliases?: ItemAlias[]; // The customer's aliases for this line
+  now?: Date; // Reference time for confidence decay
+}
+
 export interface FuzzyMatchOptions {
   threshold: number; // 0-1, minimum score to consider
   limit: number; // Max number of results
@@ -353,6 +538,7 @@ export interface ZohoServiceConfig {
   cacheRefreshIntervalMs: number;
   rateLimitRetryAfterMs: number;
   gtinCustomFieldId: string; // Zoho custom field ID for GTIN/EAN
+  packSizeCustomFieldId?: string; // Zoho custom field ID for pieces per carton
 }
 
 // ==================== Rate Limiting ====================
@@ -363,13 +549,60 @@ export interface RateLimitInfo {
   reset: number; // Unix timestamp
 }
 
+/**
+ * Priority of a Zoho API call. Part of each budget is reserved so cache
+ * refreshes (low) cannot starve sales order creation (high).
+ */
+export type ZohoRequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Shared token bucket state for one Zoho organization
+ */
+export interface RateLimitBucketState {
+  organization_id: string;
+  tokens: number; // Per-minute tokens left
+  refilled_at: number; // Epoch ms of the last refill
+  day: string; // UTC date (YYYY-MM-DD) day_count applies to
+  day_count: number; // Calls made so far that day
+  paused_until: number | null; // Epoch ms; set after Zoho returns 429
+  pause_reason: 'per_minute' | 'daily' | null;
+}
+
+export interface RateLimitBudgetUsage {
+  organization_id: string;
+  tokens_available: number;
+  daily_used: number;
+  daily_remaining: number;
+  paused_until: string | null;
+  pause_reason: 'per_minute' | 'daily' | null;
+  updated_at: string;
+}
+
+export interface RateLimitStats {
+  requests_per_minute: number;
+  daily_limit: number;
+  reserved_percent: number;
+  granted_requests: number;
+  throttled_requests: number; // Waited for a token
+  rejected_requests: number; // Wait exceeded maxWaitMs
+  rate_limited_responses: number; // 429s returned by Zoho
+  organizations: RateLimitBudgetUsage[]; // Last known usage (shared across workers)
+}
+
 // ==================== Audit Log ====================
 
 export interface ZohoAuditLog {
   correlation_id: string;
   case_id: string;
   timestamp: string;
-  operation: 'customer_lookup' | 'item_lookup' | 'salesorder_create' | 'token_refresh' | 'cache_refresh';
+  operation:
+    | 'customer_lookup'
+    | 'item_lookup'
+    | 'pricebook_lookup'
+    | 'salesorder_create'
+    | 'salesorder_update'
+    | 'token_refresh'
+    | 'cache_refresh';
   request?: {
     method: string;
     url: string;
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  selectProvidersWithinBudget,
+  isSelectionDiverse,
+  ProviderEstimate,
+} from '@order-processing/committee/providers/selection';
+import { calculateCostUsd, summarizeUsage } from '@order-processing/committee/budget/cost-model';
+import type { BaseProvider } from '@order-processing/committee/providers/base-provider';
+import type { ProviderOutput } from '@order-processing/committee/types';
+
+/**
+ * Budget-aware provider selection unit tests
+ * Tests that selection keeps family diversity within cost and latency limits
+ */
+
+const estimates: Record<string, ProviderEstimate> = {
+  'azure-gpt-5.1': { costUsd: 0.02, latencyMs: 6000 },
+  'azure-gpt-4.1': { costUsd: 0.01, latencyMs: 4000 },
+  'azure-claude-opus-4.5': { costUsd: 0.08, latencyMs: 9000 },
+  'azure-claude-sonnet-4.5': { costUsd: 0.03, latencyMs: 7000 },
+  'azure-deepseek-v3.2': { costUsd: 0.005, latencyMs: 12000 },
+  'gemini-2.5-pro': { costUsd: 0.02, latencyMs: 5000 },
+};
+
+const providers = new Map(Object.keys(estimates).map((id) => [id, {} as BaseProvider]));
+const pool = Object.keys(estimates);
+
+describe('selectProvidersWithinBudget', () => {
+  it('should never exceed the cost budget across seeds', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const result = selectProvidersWithinBudget(providers, {
+        count: 3,
+        pool,
+        estimates,
+        maxCostUsd: 0.05,
+        seed,
+      });
+
+      expect(result.estimatedCostUsd).toBeLessThanOrEqual(0.05);
+      expect(result.selectedIds).not.toContain('azure-claude-opus-4.5');
+      expect(result.diversityMet).toBe(true);
+      expect(isSelectionDiverse(result.selectedIds)).toBe(true);
+    }
+  });
+
+  it('should skip providers slower than the latency budget', () => {
+    const result = selectProvidersWithinBudget(providers, {
+      count: 3,
+      pool,
+      estimates,
+      maxLatencyMs: 8000,
+      seed: 7,
+    });
+
+    expect(result.skippedDueToLatency).toEqual(['azure-claude-opus-4.5', 'azure-deepseek-v3.2']);
+    expect(result.estimatedLatencyMs).toBeLessThanOrEqual(8000);
+    expect(result.diversityMet).toBe(true);
+  });
+
+  it('should relax diversity only when no diverse selection fits', () => {
+    // Every diverse trio needs Opus ($0.08)
+    const result = selectProvidersWithinBudget(providers, {
+      count: 3,
+      pool: ['azure-gpt-5.1', 'azure-gpt-4.1', 'azure-claude-opus-4.5', 'gemini-2.5-pro'],
+      estimates,
+      maxCostUsd: 0.06,
+    });
+
+    expect(result.selectedIds.sort()).toEqual(['azure-gpt-4.1', 'azure-gpt-5.1', 'gemini-2.5-pro']);
+    expect(result.diversityMet).toBe(false);
+  });
+
+  it('should report the cheapest selection when nothing fits', () => {
+    expect(() =>
+      selectProvidersWithinBudget(providers, { count: 3, pool, estimates, maxCostUsd: 0.01 })
+    ).toThrow(/No 3 providers fit the cost budget.*\$0\.0350/);
+  });
+});
+
+describe('committee cost model', () => {
+  it('should price tokens per million and sum usage per run', () => {
+    const pricing = { inputPer1MTokensUsd: 2, outputPer1MTokensUsd: 8 };
+    expect(calculateCostUsd({ inputTokens: 3000, outputTokens: 500 }, pricing)).toBeCloseTo(0.01);
+    expect(calculateCostUsd({ inputTokens: 3000, outputTokens: 500 })).toBe(0);
+
+    const output = (providerId: string, costUsd: number): ProviderOutput => ({
+      providerId,
+      providerName: providerId,
+      output: { mappings: [], issues: [], overallConfidence: 0.9, processingTimeMs: 100 },
+      usage: { inputTokens: 3000, outputTokens: 500, costUsd, latencyMs: 100, estimated: false },
+    });
+
+    const usage = summarizeUsage([output('a', 0.01), output('b', 0.025)]);
+    expect(usage).toMatchObject({ inputTokens: 6000, outputTokens: 1000, costUsd: 0.035, providerCalls: 2 });
+    expect(Object.keys(usage.byProvider)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CommitteeCache,
+  fingerprintTask,
+} from '@order-processing/committee/cache/committee-cache';
+import type {
+  CommitteeConfig,
+  CommitteeResult,
+  SchemaMappingTask,
+} from '@order-processing/committee/types';
+
+/**
+ * Committee decision cache unit tests
+ * Tests evidence-pack fingerprints, TTL and invalidation on config changes
+ */
+
+function task(caseId: string, headers: string[], rows = 10): SchemaMappingTask {
+  return {
+    type: 'schema-mapping',
+    expectedFields: ['sku', 'quantity'],
+    candidateColumns: {},
+    evidencePack: {
+      caseId,
+      candidateHeaders: headers,
+      sampleValues: { '0': [`${caseId}-sample`] },
+      columnStats: headers.map((header, index) => ({
+        columnId: String(index),
+        headerText: header,
+        nonEmptyCount: rows,
+        uniqueCount: Math.round(rows * 0.8),
+        dataTypes: { string: rows },
+        patterns: [],
+      })),
+      detectedLanguage: 'en',
+      constraints: ['Must choose from candidate IDs only'],
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+function config(weights: Record<string, number> = { a: 1, b: 1, c: 1 }): CommitteeConfig {
+  return {
+    providerCount: 3,
+    providerPool: ['a', 'b', 'c'],
+    weights,
+    consensusThreshold: 0.66,
+    confidenceThreshold: 0.75,
+    timeoutMs: 30000,
+    minSuccessfulProviders: 2,
+  };
+}
+
+function result(): CommitteeResult {
+  return {
+    taskId: 'task-1',
+    caseId: 'case-1',
+    taskType: 'schema-mapping',
+    selectedProviders: ['a', 'b', 'c'],
+    providerOutputs: [],
+    aggregatedResult: { consensus: 'unanimous', fieldVotes: [], overallConfidence: 0.9, disagreements: [] },
+    finalMappings: { sku: '0', quantity: '1' },
+    requiresHumanReview: false,
+    executionTimeMs: 4200,
+    auditTrail: { timestamp: new Date().toISOString(), config: config() },
+  };
+}
+
+describe('fingerprintTask', () => {
+  it('should ignore case ID, timestamp, sample values and header formatting', () => {
+    expect(fingerprintTask(task('case-1', ['SKU', 'Qty']))).toBe(
+      fingerprintTask(task('case-2', ['  sku ', 'QTY']))
+    );
+  });
+
+  it('should ignore the number of rows of the same layout', () => {
+    expect(fingerprintTask(task('case-1', ['SKU', 'Qty'], 10))).toBe(
+      fingerprintTask(task('case-2', ['SKU', 'Qty'], 240))
+    );
+  });
+
+  it('should change with the header layout', () => {
+    expect(fingerprintTask(task('case-1', ['SKU', 'Qty']))).not.toBe(
+      fingerprintTask(task('case-1', ['Qty', 'SKU']))
+    );
+  });
+
+  it('should not share decisions between tenants', () => {
+    const tenantA = { ...task('case-1', ['SKU', 'Qty']), tenantId: 'tenant-a' };
+    const tenantB = { ...task('case-2', ['SKU', 'Qty']), tenantId: 'tenant-b' };
+
+    expect(fingerprintTask(tenantA)).not.toBe(fingerprintTask(tenantB));
+    expect(fingerprintTask(tenantA)).toBe(
+      fingerprintTask({ ...task('case-3', ['SKU', 'Qty']), tenantId: 'tenant-a' })
+    );
+  });
+});
+
+describe('CommitteeCache', () => {
+  it('should return a saved decision for the same configuration', async () => {
+    const cache = new CommitteeCache({ ttlMs: 60000 });
+    const fingerprint = fingerprintTask(task('case-1', ['SKU', 'Qty']));
+
+    await cache.save(fingerprint, config(), result());
+    const entry = await cache.lookup(fingerprint, config());
+
+    expect(entry).toMatchObject({
+      sourceTaskId: 'task-1',
+      result: { finalMappings: { sku: '0', quantity: '1' }, executionTimeMs: 4200 },
+    });
+  });
+
+  it('should invalidate decisions when weights change', async () => {
+    const cache = new CommitteeCache({ ttlMs: 60000 });
+    const fingerprint = fingerprintTask(task('case-1', ['SKU', 'Qty']));
+
+    await cache.save(fingerprint, config(), result());
+
+    expect(await cache.lookup(fingerprint, config({ a: 1.2, b: 1, c: 1 }))).toBeNull();
+    // The stale entry is dropped, not just skipped
+    expect(await cache.lookup(fingerprint, config())).toBeNull();
+  });
+
+  it('should expire decisions after the TTL', async () => {
+    const cache = new CommitteeCache({ ttlMs: 0 });
+    const fingerprint = fingerprintTask(task('case-1', ['SKU', 'Qty']));
+
+    await cache.save(fingerprint, config(), result());
+
+    expect(await cache.lookup(fingerprint, config())).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  executeExtractionReview,
+  findExtractionDisagreements,
+} from '@order-processing/committee/tasks/extraction-review';
+import { aggregateVotes } from '@order-processing/committee/aggregation/weighted-voting';
+import { HeuristicProvider } from '@order-processing/committee/providers/heuristic-provider';
+import type { BaseProvider } from '@order-processing/committee/providers/base-provider';
+import type {
+  CommitteeConfig,
+  ExtractedValueEvidence,
+  ExtractionReviewTask,
+} from '@order-processing/committee/types';
+
+/**
+ * Extraction review unit tests
+ * Tests answer normalization and detection of unconfirmed values
+ */
+
+const extractedValues: ExtractedValueEvidence[] = [
+  { key: '/line_items/0/quantity', field: 'quantity', extractedValue: 12, cell: 'Sheet1!D5', rawValue: 12 },
+  { key: '/line_items/1/quantity', field: 'quantity', extractedValue: 12, cell: 'Sheet1!D6', rawValue: 1200 },
+  { key: '/line_items/0/sku', field: 'sku', extractedValue: 'AB-100', cell: 'Sheet1!A5', rawValue: 'AB-100' },
+];
+
+const task: ExtractionReviewTask = {
+  type: 'extraction-review',
+  expectedFields: extractedValues.map((v) => v.key),
+  evidencePack: {
+    caseId: 'case-1',
+    candidateHeaders: [],
+    sampleValues: {},
+    columnStats: [],
+    detectedLanguage: 'en',
+    constraints: ['Cannot invent values'],
+    timestamp: new Date().toISOString(),
+    extractedValues,
+  },
+};
+
+const config: CommitteeConfig = {
+  providerCount: 3,
+  providerPool: ['a', 'b', 'c'],
+  weights: { a: 1, b: 1, c: 1 },
+  consensusThreshold: 0.25,
+  confidenceThreshold: 0.75,
+  timeoutMs: 30000,
+  minSuccessfulProviders: 2,
+};
+
+/**
+ * Provider answering every key from a fixed value map
+ */
+function fakeProvider(id: string, answers: Record<string, string | null>): BaseProvider {
+  return {
+    getId: () => id,
+    getName: () => id,
+    getPricing: () => undefined,
+    estimateTokenCounts: () => ({ inputTokens: 1000, outputTokens: 200 }),
+    executeMapping: async (_evidencePack: unknown, expectedFields: string[]) => ({
+      mappings: expectedFields.map((field) => ({
+        field,
+        selectedColumnId: answers[field] ?? null,
+        confidence: 0.9,
+        reasoning: 'test',
+      })),
+      issues: [],
+      overallConfidence: 0.9,
+      processingTimeMs: 10,
+    }),
+  } as unknown as BaseProvider;
+}
+
+describe('executeExtractionReview', () => {
+  it('should count equal numbers written differently as one vote', async () => {
+    const outputs = await executeExtractionReview(
+      task,
+      [
+        fakeProvider('a', { '/line_items/0/quantity': '12' }),
+        fakeProvider('b', { '/line_items/0/quantity': '12.0' }),
+      ],
+      config
+    );
+
+    const answers = outputs.map((o) => o.output.mappings.find((m) => m.field === '/line_items/0/quantity'));
+    expect(answers.map((m) => m?.selectedColumnId)).toEqual(['12', '12']);
+  });
+});
+
+describe('findExtractionDisagreements', () => {
+  it('should report values the committee reads differently or splits on', async () => {
+    const outputs = await executeExtractionReview(
+      task,
+      [
+        fakeProvider('a', { '/line_items/0/quantity': '12', '/line_items/1/quantity': '1200', '/line_items/0/sku': 'AB-100' }),
+        fakeProvider('b', { '/line_items/0/quantity': '12', '/line_items/1/quantity': '1200', '/line_items/0/sku': 'AB-100' }),
+        fakeProvider('c', { '/line_items/0/quantity': '12', '/line_items/1/quantity': '1200', '/line_items/0/sku': 'AB-1OO' }),
+      ],
+      config
+    );
+
+    const disagreements = findExtractionDisagreements(
+      extractedValues,
+      aggregateVotes(outputs, config.weights, config.consensusThreshold)
+    );
+
+    expect(disagreements).toEqual([
+      expect.objectContaining({
+        key: '/line_items/1/quantity',
+        extractedValue: 12,
+        reviewedValue: '1200',
+        votes: { a: '1200', b: '1200', c: '1200' },
+      }),
+    ]);
+  });
+
+  it('should report a value the providers split on', async () => {
+    const outputs = await executeExtractionReview(
+      task,
+      [
+        fakeProvider('a', { '/line_items/0/sku': 'AB-100' }),
+        fakeProvider('b', { '/line_items/0/sku': 'AB-1OO' }),
+      ],
+      config
+    );
+
+    const disagreements = findExtractionDisagreements(
+      extractedValues,
+      aggregateVotes(outputs, config.weights, config.consensusThreshold)
+    );
+    const sku = disagreements.find((d) => d.key === '/line_items/0/sku');
+
+    expect(sku?.reason).toMatch(/Providers disagree/);
+    expect(sku?.votes).toEqual({ a: 'AB-100', b: 'AB-1OO' });
+  });
+});
+
+describe('HeuristicProvider extraction review', () => {
+  it('should answer with the raw cell values', async () => {
+    const provider = new HeuristicProvider({
+      id: 'heuristic-header-matcher',
+      name: 'Heuristic Header Matcher',
+      type: 'heuristic',
+      model: 'header-matcher',
+      temperature: 0,
+      maxTokens: 1,
+      enabled: true,
+    });
+
+    const output = await provider.executeMapping(task.evidencePack, task.expectedFields, '', 30000);
+
+    expect(output.mappings.map((m) => m.selectedColumnId)).toEqual(['12', '1200', 'AB-100']);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HeuristicProvider } from '@order-processing/committee/providers/heuristic-provider';
+import { LocalOpenAIProvider } from '@order-processing/committee/providers/local-openai-provider';
+import { EvidencePackBuilder } from '@order-processing/committee/utils/evidence-pack-builder';
+import type { ProviderConfig } from '@order-processing/committee/types';
+
+/**
+ * Offline committee provider unit tests
+ * Tests the rules-based header matcher and the local OpenAI-compatible client
+ */
+
+const evidencePack = new EvidencePackBuilder('case-1')
+  .addColumns([
+    { header: 'Item Code', values: ['AB-100', 'AB-200', 'CD-300'] },
+    { header: 'Description', values: ['Widget', 'Gadget', 'Gizmo'] },
+    { header: 'Qty', values: ['10', '5', '12'] },
+    { header: 'Customer', values: ['Acme', 'Acme', 'Acme'] },
+    { header: 'Notes', values: ['urgent', '', 'gift wrap'] },
+  ])
+  .setLanguage('en')
+  .build();
+
+function config(overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  return {
+    id: 'heuristic-header-matcher',
+    name: 'Heuristic Header Matcher',
+    type: 'heuristic',
+    model: 'header-matcher',
+    temperature: 0,
+    maxTokens: 1,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('HeuristicProvider', () => {
+  const provider = new HeuristicProvider(config());
+
+  it('should map fields from header synonyms and column types', async () => {
+    const output = await provider.executeMapping(
+      evidencePack,
+      ['sku', 'product_name', 'quantity', 'customer_name'],
+      '',
+      30000
+    );
+
+    const columns = Object.fromEntries(output.mappings.map((m) => [m.field, m.selectedColumnId]));
+    expect(columns).toEqual({ sku: '0', product_name: '1', quantity: '2', customer_name: '3' });
+    expect(output.mappings.every((m) => m.confidence > 0.6 && m.confidence <= 1)).toBe(true);
+    expect(output.tokenUsage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('should return null and flag fields without a matching header', async () => {
+    const output = await provider.executeMapping(evidencePack, ['gtin'], '', 30000);
+
+    expect(output.mappings).toEqual([
+      expect.objectContaining({ field: 'gtin', selectedColumnId: null, confidence: 0 }),
+    ]);
+    expect(output.issues[0].code).toBe('NO_HEADER_MATCH');
+  });
+
+  it('should answer the same evidence pack the same way', async () => {
+    const first = await provider.executeMapping(evidencePack, ['sku', 'quantity'], '', 30000);
+    const second = await provider.executeMapping(evidencePack, ['sku', 'quantity'], '', 30000);
+
+    expect(second.mappings).toEqual(first.mappings);
+  });
+});
+
+describe('LocalOpenAIProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call the local chat completions endpoint and parse fenced JSON', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content:
+                '```json\n{"mappings":[{"field":"sku","selectedColumnId":"0","confidence":0.9,"reasoning":"Item Code"}],' +
+                '"issues":[],"overallConfidence":0.9,"processingTimeMs":0}\n```',
+            },
+          },
+        ],
+        usage: { prompt_tokens: 1200, completion_tokens: 80 },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new LocalOpenAIProvider(
+      config({ id: 'local-llm', type: 'local-openai', endpoint: 'http://localhost:11434/v1/', model: 'qwen2.5' })
+    );
+    const output = await provider.executeMapping(evidencePack, ['sku'], 'system', 30000);
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.anything());
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+    expect(output.mappings[0].selectedColumnId).toBe('0');
+    expect(output.tokenUsage).toEqual({ inputTokens: 1200, outputTokens: 80 });
+  });
+
+  it('should require an endpoint', () => {
+    expect(() => new LocalOpenAIProvider(config({ type: 'local-openai' }))).toThrow(/requires endpoint/);
+  });
+});
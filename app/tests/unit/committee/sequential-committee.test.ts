@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { executeSequentialSchemaMappingReview } from '@order-processing/committee/tasks/sequential-schema-mapping-review';
+import type { BaseProvider } from '@order-processing/committee/providers/base-provider';
+import type {
+  CommitteeConfig,
+  ProviderMapping,
+  SchemaMappingTask,
+} from '@order-processing/committee/types';
+
+/**
+ * Sequential committee unit tests
+ * Tests early stopping and escalation of split fields to further providers
+ */
+
+const task: SchemaMappingTask = {
+  type: 'schema-mapping',
+  expectedFields: ['sku', 'quantity'],
+  candidateColumns: { sku: ['0', '1'], quantity: ['2'] },
+  evidencePack: {
+    caseId: 'case-1',
+    candidateHeaders: ['SKU', 'Code', 'Qty'],
+    sampleValues: {},
+    columnStats: [],
+    detectedLanguage: 'en',
+    constraints: ['Must choose from candidate IDs only'],
+    timestamp: new Date().toISOString(),
+  },
+};
+
+const config: CommitteeConfig = {
+  providerCount: 3,
+  providerPool: ['a', 'b', 'c'],
+  weights: { a: 1, b: 1, c: 1 },
+  consensusThreshold: 0.66,
+  confidenceThreshold: 0.75,
+  timeoutMs: 30000,
+  minSuccessfulProviders: 2,
+  mode: 'sequential',
+  sequential: { minProviders: 2, earlyStopConfidence: 0.85 },
+};
+
+interface FakeProvider {
+  provider: BaseProvider;
+  requestedFields: string[][];
+}
+
+/**
+ * Provider answering every requested field from a fixed column map
+ */
+function fakeProvider(id: string, columns: Record<string, string>): FakeProvider {
+  const requestedFields: string[][] = [];
+
+  const provider = {
+    getId: () => id,
+    getName: () => id,
+    getPricing: () => undefined,
+    estimateTokenCounts: () => ({ inputTokens: 1000, outputTokens: 200 }),
+    executeMapping: async (_evidencePack: unknown, expectedFields: string[]) => {
+      requestedFields.push(expectedFields);
+      const mappings: ProviderMapping[] = expectedFields.map((field) => ({
+        field,
+        selectedColumnId: columns[field] ?? null,
+        confidence: 0.95,
+        reasoning: 'test',
+      }));
+      return { mappings, issues: [], overallConfidence: 0.95, processingTimeMs: 10 };
+    },
+  } as unknown as BaseProvider;
+
+  return { provider, requestedFields };
+}
+
+describe('executeSequentialSchemaMappingReview', () => {
+  it('should stop after the first providers when they agree', async () => {
+    const a = fakeProvider('a', { sku: '0', quantity: '2' });
+    const b = fakeProvider('b', { sku: '0', quantity: '2' });
+    const c = fakeProvider('c', { sku: '0', quantity: '2' });
+
+    const { outputs, audit } = await executeSequentialSchemaMappingReview(
+      task,
+      [a.provider, b.provider, c.provider],
+      config
+    );
+
+    expect(outputs.map((o) => o.providerId)).toEqual(['a', 'b']);
+    expect(c.requestedFields).toEqual([]);
+    expect(audit).toEqual({
+      stages: [{ providers: ['a', 'b'], fields: ['sku', 'quantity'] }],
+      unsettledFields: [],
+      stoppedEarly: true,
+    });
+  });
+
+  it('should escalate only the split fields', async () => {
+    const a = fakeProvider('a', { sku: '0', quantity: '2' });
+    const b = fakeProvider('b', { sku: '1', quantity: '2' });
+    const c = fakeProvider('c', { sku: '0', quantity: '2' });
+
+    const { outputs, audit } = await executeSequentialSchemaMappingReview(
+      task,
+      [a.provider, b.provider, c.provider],
+      config
+    );
+
+    expect(c.requestedFields).toEqual([['sku']]);
+    expect(outputs[2].requestedFields).toEqual(['sku']);
+    expect(audit.stages[1]).toEqual({ providers: ['c'], fields: ['sku'] });
+    expect(audit.unsettledFields).toEqual([]);
+    expect(audit.stoppedEarly).toBe(false);
+  });
+
+  it('should not call providers the budget cannot afford', async () => {
+    const a = fakeProvider('a', { sku: '0', quantity: '2' });
+    const b = fakeProvider('b', { sku: '1', quantity: '2' });
+    const c = fakeProvider('c', { sku: '0', quantity: '2' });
+
+    const { outputs, audit } = await executeSequentialSchemaMappingReview(
+      task,
+      [a.provider, b.provider, c.provider],
+      config,
+      { canAfford: (providerIds) => !providerIds.includes('c') }
+    );
+
+    expect(outputs.map((o) => o.providerId)).toEqual(['a', 'b']);
+    expect(c.requestedFields).toEqual([]);
+    expect(audit.unsettledFields).toEqual(['sku']);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProviderFeedbackTracker } from '@order-processing/committee/calibration/feedback-tracker';
+import {
+  approveWeightProposal,
+  formatWeightProposalDiff,
+  rejectWeightProposal,
+} from '@order-processing/committee/calibration/weight-proposal';
+import { InMemoryCalibrationStore } from '@order-processing/committee/calibration/calibration-store';
+import type { ProviderOutput } from '@order-processing/committee/types';
+
+/**
+ * Provider weight recalibration unit tests
+ * Tests scoring of provider votes against user corrections and the approval gate
+ */
+
+function output(providerId: string, mappings: Record<string, string | null>, error?: string): ProviderOutput {
+  return {
+    providerId,
+    providerName: providerId,
+    error,
+    output: {
+      mappings: Object.entries(mappings).map(([field, selectedColumnId]) => ({
+        field,
+        selectedColumnId,
+        confidence: 0.9,
+        reasoning: '',
+      })),
+      issues: [],
+      overallConfidence: 0.9,
+      processingTimeMs: 100,
+    },
+  };
+}
+
+const confirmed = { sku: '0', quantity: '2' };
+
+function feedback(caseId: string) {
+  return {
+    caseId,
+    language: 'fa' as const,
+    confirmedMappings: confirmed,
+    providerOutputs: [
+      output('good', { sku: '0', quantity: '2' }),
+      output('bad', { sku: '1', quantity: '2', unit: '3' }),
+      output('failed', { sku: '0' }, 'Provider timeout after 30000ms'),
+    ],
+  };
+}
+
+function tracker(store: InMemoryCalibrationStore, proposalInterval = 100) {
+  return new ProviderFeedbackTracker({
+    store,
+    decay: 1,
+    proposalInterval,
+    minObservations: 4,
+    currentWeights: () => ({ good: 1, bad: 1, other: 1.2 }),
+  });
+}
+
+describe('ProviderFeedbackTracker', () => {
+  it('should keep accuracy per provider, field and language', async () => {
+    const store = new InMemoryCalibrationStore();
+    const result = await tracker(store).recordFeedback(feedback('case-1'));
+
+    expect(result.scoredProviders).toEqual(['good', 'bad']);
+
+    const stats = await store.getStats();
+    expect(stats?.casesRecorded).toBe(1);
+    // Fields the user did not confirm are not scored
+    expect(stats?.providers.bad.overall).toEqual({ correct: 1, total: 2 });
+    expect(stats?.providers.bad.fields.sku).toEqual({ correct: 0, total: 1 });
+    expect(stats?.providers.good.languages.fa).toEqual({ correct: 2, total: 2 });
+    expect(stats?.providers.failed).toBeUndefined();
+  });
+
+  it('should let recent votes outweigh old ones', async () => {
+    const store = new InMemoryCalibrationStore();
+    const decaying = new ProviderFeedbackTracker({ store, decay: 0.5 });
+
+    await decaying.recordFeedback({ ...feedback('case-1'), confirmedMappings: { sku: '1' } });
+    await decaying.recordFeedback({ ...feedback('case-2'), confirmedMappings: { sku: '0' } });
+
+    // Right then wrong: 1/2 without decay, 0.5 / 1.5 with the older vote halved
+    const bad = (await store.getStats())!.providers.bad.overall;
+    expect(bad.correct / bad.total).toBeCloseTo(1 / 3);
+  });
+
+  it('should propose weights once the interval is reached', async () => {
+    const store = new InMemoryCalibrationStore();
+    const feedbackTracker = tracker(store, 2);
+
+    expect((await feedbackTracker.recordFeedback(feedback('case-1'))).proposal).toBeUndefined();
+    const { proposal } = await feedbackTracker.recordFeedback(feedback('case-2'));
+
+    expect(proposal?.status).toBe('pending');
+    expect(proposal!.proposedWeights.good).toBeGreaterThan(proposal!.proposedWeights.bad);
+    // Providers without feedback keep their relative weight
+    expect(proposal!.diff.find((d) => d.providerId === 'other')?.accuracy).toBeNull();
+    expect(formatWeightProposalDiff(proposal!)).toContain('good: 1.000 ->');
+    expect((await store.getStats())?.casesSinceProposal).toBe(0);
+  });
+});
+
+describe('weight proposal approval', () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write the weights file only when approved', async () => {
+    const store = new InMemoryCalibrationStore();
+    const feedbackTracker = tracker(store);
+    await feedbackTracker.recordFeedback(feedback('case-1'));
+    await feedbackTracker.recordFeedback(feedback('case-2'));
+    const proposal = (await feedbackTracker.proposeWeights())!;
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'weights-'));
+    tmpDirs.push(dir);
+    const weightsFile = path.join(dir, 'calibrated-weights.json');
+
+    const approved = await approveWeightProposal(store, proposal.id, 'reviewer@example.com', weightsFile);
+    const written = JSON.parse(fs.readFileSync(weightsFile, 'utf-8'));
+
+    expect(approved.status).toBe('approved');
+    expect(written.weights.good).toBeCloseTo(proposal.proposedWeights.good);
+    expect(written.weights.other).toBeCloseTo(proposal.proposedWeights.other);
+    expect(written.metadata).toMatchObject({ proposalId: proposal.id, approvedBy: 'reviewer@example.com' });
+    await expect(rejectWeightProposal(store, proposal.id, 'someone')).rejects.toThrow('already approved');
+  });
+});
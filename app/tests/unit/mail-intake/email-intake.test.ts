@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SenderDomainMap } from '@order-processing/mail-intake/sender-domains';
+import { parseMail } from '@order-processing/mail-intake/sources/mime';
+import { MaildirMailSource } from '@order-processing/mail-intake/sources/maildir-source';
+import { MailIntakeService, getEmailCaseId } from '@order-processing/mail-intake/intake-service';
+import type {
+  EmailCaseDocument,
+  EmailOrderNotice,
+  MailAttachment,
+  MailMessage,
+  StartWorkflowInput,
+} from '@order-processing/mail-intake/types';
+
+/**
+ * Mail intake unit tests
+ * Tests sender domain routing, reading a maildir, and turning emailed
+ * spreadsheets into cases
+ */
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function buildMail(options: {
+  from: string;
+  subject: string;
+  attachments: Array<{ name: string; content: Buffer; type?: string }>;
+}): string {
+  const boundary = '----=_Part_0_123';
+  const parts = options.attachments.map(attachment => [
+    `--${boundary}`,
+    `Content-Type: ${attachment.type ?? XLSX_TYPE}; name="${attachment.name}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${attachment.name}"`,
+    '',
+    attachment.content.toString('base64').replace(/.{76}/g, '$&\r\n'),
+  ].join('\r\n'));
+
+  return [
+    `From: ${options.from}`,
+    'To: orders@contoso.example',
+    `Subject: ${options.subject}`,
+    'Date: Mon, 19 Oct 2026 09:30:00 +0000',
+    'Message-ID: <po-4711@acme.example>',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Please find our order attached.=0D=0ARegards',
+    ...parts,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+describe('SenderDomainMap', () => {
+  const domains = new SenderDomainMap([
+    { domain: 'acme.example', customerName: 'ACME Trading', salesRepUserId: 'rep-acme' },
+    { domain: 'eu.acme.example', customerName: 'ACME Europe' },
+  ]);
+
+  it('should match the most specific domain of the sender', () => {
+    expect(domains.match('buyer@ACME.example')?.customerName).toBe('ACME Trading');
+    expect(domains.match('buyer@eu.acme.example')?.customerName).toBe('ACME Europe');
+    expect(domains.match('buyer@purchasing.acme.example')?.customerName).toBe('ACME Trading');
+  });
+
+  it('should not match other domains or invalid addresses', () => {
+    expect(domains.match('buyer@notacme.example')).toBeNull();
+    expect(domains.match('buyer@example')).toBeNull();
+    expect(domains.match('not-an-address')).toBeNull();
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(SenderDomainMap.loadFromEnv(undefined)).toEqual([]);
+    expect(() => SenderDomainMap.loadFromEnv('{}')).toThrow('JSON array');
+    expect(() => SenderDomainMap.loadFromEnv('[{"domain":"buyer@acme.example","customerName":"ACME"}]'))
+      .toThrow('no valid domain');
+    expect(() => SenderDomainMap.loadFromEnv('[{"domain":"acme.example"}]')).toThrow('no customerName');
+  });
+});
+
+describe('parseMail', () => {
+  it('should read headers and base64 attachments', () => {
+    const content = Buffer.from('PK\u0003\u0004 spreadsheet bytes '.repeat(20), 'latin1');
+    const mail = parseMail(Buffer.from(buildMail({
+      from: '"Jane Buyer" <jane@acme.example>',
+      subject: 'PO 4711',
+      attachments: [{ name: 'PO-4711.xlsx', content }],
+    })));
+
+    expect(mail.from).toEqual({ name: 'Jane Buyer', address: 'jane@acme.example' });
+    expect(mail.subject).toBe('PO 4711');
+    expect(mail.messageId).toBe('<po-4711@acme.example>');
+    expect(mail.date).toBe('2026-10-19T09:30:00.000Z');
+    expect(mail.attachments).toHaveLength(1);
+    expect(mail.attachments[0]).toMatchObject({ name: 'PO-4711.xlsx', contentType: XLSX_TYPE });
+    expect(mail.attachments[0].content.equals(content)).toBe(true);
+  });
+
+  it('should decode encoded subjects and file names', () => {
+    const raw = [
+      'From: =?utf-8?B?2LnZhNuM?= <ali@tehran.example>',
+      'Subject: =?utf-8?Q?Sefaresh_=C2=B7_4711?=',
+      'Content-Type: multipart/mixed; boundary=b1',
+      '',
+      '--b1',
+      'Content-Type: text/csv',
+      "Content-Disposition: attachment; filename*=utf-8''%D8%B3%D9%81%D8%A7%D8%B1%D8%B4.csv",
+      '',
+      'sku,qty',
+      '--b1--',
+    ].join('\n');
+
+    const mail = parseMail(Buffer.from(raw));
+
+    expect(mail.from).toEqual({ name: 'علی', address: 'ali@tehran.example' });
+    expect(mail.subject).toBe('Sefaresh · 4711');
+    expect(mail.attachments[0].name).toBe('سفارش.csv');
+    expect(mail.attachments[0].content.toString()).toBe('sku,qty');
+  });
+});
+
+describe('MaildirMailSource', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maildir-'));
+    await fs.mkdir(path.join(root, 'new'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should list new messages, move processed ones to cur and write replies', async () => {
+    await fs.writeFile(path.join(root, 'new', '1760866200.M1.host'), buildMail({
+      from: 'jane@acme.example',
+      subject: 'PO 4711',
+      attachments: [{ name: 'PO-4711.csv', content: Buffer.from('sku,qty\nA-1,2\n'), type: 'text/csv' }],
+    }));
+    const source = new MaildirMailSource({ root, mailboxAddress: 'orders@contoso.example' });
+
+    const [message] = await source.listNewMessages();
+    expect(message).toMatchObject({ id: '1760866200.M1.host', subject: 'PO 4711' });
+    expect(message.attachments[0].content.toString()).toBe('sku,qty\nA-1,2\n');
+
+    await source.reply(message, { text: 'Thank you for your order.' });
+    await source.markProcessed(message);
+
+    expect(await source.listNewMessages()).toEqual([]);
+    expect(await fs.readdir(path.join(root, 'cur'))).toEqual(['1760866200.M1.host:2,S']);
+
+    const [sentName] = await fs.readdir(path.join(root, '.Sent', 'new'));
+    const sent = parseMail(await fs.readFile(path.join(root, '.Sent', 'new', sentName)));
+    expect(sent.subject).toBe('Re: PO 4711');
+    expect(sent.headers.get('to')).toBe('jane@acme.example');
+    expect(sent.headers.get('in-reply-to')).toBe('<po-4711@acme.example>');
+  });
+});
+
+describe('MailIntakeService', () => {
+  let root: string;
+  let source: MaildirMailSource;
+  let stored: string[];
+  let cases: EmailCaseDocument[];
+  let started: StartWorkflowInput[];
+  let notices: Array<{ userId: string; order: EmailOrderNotice }>;
+  let failStore: (attachment: MailAttachment) => boolean;
+  let failStart: boolean;
+
+  function createService(): MailIntakeService {
+    return new MailIntakeService(
+      { tenantId: 'tenant-1', defaultRepUserId: 'rep-default' },
+      {
+        source,
+        originals: {
+          async store(caseId, attachment) {
+            if (failStore(attachment)) {
+              throw new Error('Blob storage unavailable');
+            }
+            stored.push(`${caseId}/${attachment.name}`);
+            return { blobUri: `https://blob.example/orders-incoming/${caseId}/original.xlsx`, sha256: 'abc', size: 3 };
+          },
+        },
+        cases: {
+          async createCase(caseDoc) {
+            if (!cases.some(c => c.id === caseDoc.id)) {
+              cases.push(caseDoc);
+            }
+          },
+        },
+        workflows: {
+          async start(input) {
+            if (failStart) {
+              throw new Error('Failed to start workflow: 503');
+            }
+            started.push(input);
+            return `order-${input.caseId}`;
+          },
+        },
+        notifier: {
+          async notifyNewOrder(rep, order) {
+            notices.push({ userId: rep.userId, order });
+          },
+        },
+        senderDomains: new SenderDomainMap([
+          { domain: 'acme.example', customerName: 'ACME Trading', salesRepUserId: 'rep-acme' },
+        ]),
+      }
+    );
+  }
+
+  async function deliver(name: string, mail: string): Promise<void> {
+    await fs.writeFile(path.join(root, 'new', name), mail);
+  }
+
+  async function readReplies(): Promise<string[]> {
+    const dir = path.join(root, '.Sent', 'new');
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    return Promise.all(names.map(async name => {
+      const raw = (await fs.readFile(path.join(dir, name), 'utf8')).split('\r\n\r\n')[1];
+      return Buffer.from(raw, 'base64').toString('utf8');
+    }));
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maildir-'));
+    await fs.mkdir(path.join(root, 'new'));
+    source = new MaildirMailSource({ root, mailboxAddress: 'orders@contoso.example' });
+    stored = [];
+    cases = [];
+    started = [];
+    notices = [];
+    failStore = () => false;
+    failStart = false;
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should create a case per spreadsheet and notify the rep of the sender domain', async () => {
+    await deliver('m1', buildMail({
+      from: 'Jane Buyer <jane@acme.example>',
+      subject: 'PO 4711',
+      attachments: [
+        { name: 'PO-4711.xlsx', content: Buffer.from('one') },
+        { name: 'terms.pdf', content: Buffer.from('pdf'), type: 'application/pdf' },
+        { name: 'PO-4712.csv', content: Buffer.from('two'), type: 'text/csv' },
+      ],
+    }));
+
+    const [result] = await createService().pollOnce();
+
+    expect(result.status).toBe('processed');
+    expect(result.cases.map(c => c.fileName)).toEqual(['PO-4711.xlsx', 'PO-4712.csv']);
+    expect(cases[0]).toMatchObject({
+      tenantId: 'tenant-1',
+      userId: 'rep-acme',
+      status: 'storing_file',
+      defaultCustomer: 'ACME Trading',
+      emailIntake: { sender: 'jane@acme.example', subject: 'PO 4711' },
+    });
+    expect(started[0]).toMatchObject({ caseId: cases[0].id, blobUrl: cases[0].blobUri, userId: 'rep-acme' });
+    expect(notices.map(n => n.userId)).toEqual(['rep-acme', 'rep-acme']);
+
+    const [reply] = await readReplies();
+    expect(reply).toContain(`PO-4711.xlsx (reference ${cases[0].id})`);
+    expect(reply).toContain(`PO-4712.csv (reference ${cases[1].id})`);
+    expect(await source.listNewMessages()).toEqual([]);
+  });
+
+  it('should route unknown senders to the default rep without a customer', async () => {
+    await deliver('m1', buildMail({
+      from: 'buyer@unknown.example',
+      subject: 'Order',
+      attachments: [{ name: 'order.xlsx', content: Buffer.from('one') }],
+    }));
+
+    await createService().pollOnce();
+
+    expect(cases[0].userId).toBe('rep-default');
+    expect(cases[0].defaultCustomer).toBeUndefined();
+    expect(notices[0]).toMatchObject({ userId: 'rep-default', order: { customerName: undefined } });
+  });
+
+  it('should skip messages without spreadsheets without replying', async () => {
+    await deliver('m1', buildMail({
+      from: 'jane@acme.example',
+      subject: 'Out of office',
+      attachments: [],
+    }));
+
+    const [result] = await createService().pollOnce();
+
+    expect(result.status).toBe('ignored');
+    expect(cases).toEqual([]);
+    expect(await readReplies()).toEqual([]);
+    expect(await source.listNewMessages()).toEqual([]);
+  });
+
+  it('should leave a message for the next poll when no case could be created', async () => {
+    failStore = () => true;
+    await deliver('m1', buildMail({
+      from: 'jane@acme.example',
+      subject: 'PO 4711',
+      attachments: [{ name: 'PO-4711.xlsx', content: Buffer.from('one') }],
+    }));
+
+    const [result] = await createService().pollOnce();
+
+    expect(result).toMatchObject({ status: 'failed', error: 'PO-4711.xlsx: Blob storage unavailable' });
+    expect(await readReplies()).toEqual([]);
+    expect(await source.listNewMessages()).toHaveLength(1);
+
+    failStore = () => false;
+    const [retry] = await createService().pollOnce();
+    expect(retry.status).toBe('processed');
+    expect(cases).toHaveLength(1);
+  });
+
+  it('should continue the same case when its workflow failed to start', async () => {
+    failStart = true;
+    await deliver('m1', buildMail({
+      from: 'jane@acme.example',
+      subject: 'PO 4711',
+      attachments: [{ name: 'PO-4711.xlsx', content: Buffer.from('one') }],
+    }));
+
+    const [result] = await createService().pollOnce();
+
+    expect(result).toMatchObject({ status: 'failed', error: 'PO-4711.xlsx: Failed to start workflow: 503' });
+    expect(cases).toHaveLength(1);
+    expect(await source.listNewMessages()).toHaveLength(1);
+
+    failStart = false;
+    const [retry] = await createService().pollOnce();
+
+    expect(retry.status).toBe('processed');
+    expect(retry.cases.map(c => c.caseId)).toEqual([cases[0].id]);
+    expect(cases).toHaveLength(1);
+    expect(started.map(s => s.caseId)).toEqual([cases[0].id]);
+  });
+
+  it('should derive case IDs from the message and attachment', () => {
+    const message = { id: 'm1', internetMessageId: '<po-4711@acme.example>' } as MailMessage;
+
+    const caseId = getEmailCaseId('tenant-1', message, 0);
+
+    expect(caseId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(getEmailCaseId('tenant-1', { ...message, id: 'm2' }, 0)).toBe(caseId);
+    expect(getEmailCaseId('tenant-1', message, 1)).not.toBe(caseId);
+    expect(getEmailCaseId('tenant-2', message, 0)).not.toBe(caseId);
+  });
+
+  it('should acknowledge the files that were taken when others fail', async () => {
+    failStore = attachment => attachment.name === 'broken.xlsx';
+    await deliver('m1', buildMail({
+      from: 'jane@acme.example',
+      subject: 'Two orders',
+      attachments: [
+        { name: 'broken.xlsx', content: Buffer.from('one') },
+        { name: 'good.xlsx', content: Buffer.from('two') },
+      ],
+    }));
+
+    const [result] = await createService().pollOnce();
+
+    expect(result.cases.map(c => c.fileName)).toEqual(['good.xlsx']);
+    expect(result.error).toContain('broken.xlsx');
+    const [reply] = await readReplies();
+    expect(reply).toContain('could not be processed');
+    expect(reply).toContain('broken.xlsx');
+    expect(await source.listNewMessages()).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import {
+  computeEventHash,
+  signChainHead,
+  verifyAnchorSignature,
+  verifyEventChain,
+  type AnchorSigningKey,
+} from '@order-processing/storage/audit-chain';
+import type { AuditEvent } from '@order-processing/storage/types';
+
+/**
+ * Audit event hash chain unit tests
+ * Tests detection of modified, missing and reordered events, and anchor signatures
+ */
+
+/**
+ * Hash of the event at a position
+ */
+function hashAt(events: AuditEvent[], index: number): string {
+  return events[index].chain?.hash ?? '';
+}
+
+/**
+ * Build a day's log of chained events, as the event logger writes them
+ */
+function buildLog(caseIds: string[]): AuditEvent[] {
+  const events: AuditEvent[] = [];
+  const caseHeads = new Map<string, { sequence: number; hash: string }>();
+
+  caseIds.forEach((caseId, i) => {
+    const caseHead = caseHeads.get(caseId);
+    const links = {
+      prevHash: events[events.length - 1]?.chain?.hash ?? null,
+      prevCaseHash: caseHead?.hash ?? null,
+    };
+    const event: AuditEvent = {
+      ts: new Date(Date.UTC(2026, 0, 15, 9, i)).toISOString(),
+      eventType: 'case.parsed',
+      caseId,
+      tenantId: 'tenant-1',
+      sequence: (caseHead?.sequence ?? 0) + 1,
+      correlation: { traceId: 'trace-1', spanId: `span-${i}` },
+      actor: { type: 'system' as AuditEvent['actor']['type'] },
+      data: { lineItemCount: i },
+      chain: { ...links, hash: '' },
+    };
+    const hash = computeEventHash(event);
+
+    events.push({ ...event, chain: { ...links, hash } });
+    caseHeads.set(caseId, { sequence: event.sequence, hash });
+  });
+
+  return events;
+}
+
+const hmacKey: AnchorSigningKey = { keyId: 'k1', algorithm: 'hmac-sha256', key: 'test-secret' };
+const hmacKeys = { k1: { algorithm: hmacKey.algorithm, key: hmacKey.key } };
+
+describe('verifyEventChain', () => {
+  it('should verify an untouched log and each case within it', () => {
+    const log = buildLog(['a', 'b', 'a', 'a', 'b']);
+
+    expect(verifyEventChain(log, 'log', '2026-01-15')).toMatchObject({
+      valid: true,
+      eventCount: 5,
+      headHash: log[4].chain?.hash,
+    });
+    expect(verifyEventChain(log.filter((e) => e.caseId === 'a'), 'case', 'a').valid).toBe(true);
+  });
+
+  it('should report a modified event', () => {
+    const log = buildLog(['a', 'a', 'a']);
+    log[1] = { ...log[1], data: { lineItemCount: 99 } };
+
+    const result = verifyEventChain(log, 'log', '2026-01-15');
+
+    expect(result.valid).toBe(false);
+    expect(result.problems).toEqual([expect.objectContaining({ type: 'modified', index: 1 })]);
+  });
+
+  it('should report a removed event as a gap', () => {
+    const log = buildLog(['a', 'b', 'a']);
+    log.splice(1, 1);
+
+    const logResult = verifyEventChain(log, 'log', '2026-01-15');
+    expect(logResult.problems).toEqual([expect.objectContaining({ type: 'gap', index: 1 })]);
+
+    const caseLog = buildLog(['a', 'a', 'a']);
+    caseLog.splice(0, 1);
+    const caseResult = verifyEventChain(caseLog, 'case', 'a');
+    expect(caseResult.problems).toEqual([expect.objectContaining({ type: 'gap', index: 0 })]);
+  });
+
+  it('should report swapped events as a reorder', () => {
+    const log = buildLog(['a', 'a', 'a', 'a']);
+    [log[1], log[2]] = [log[2], log[1]];
+
+    const result = verifyEventChain(log, 'log', '2026-01-15');
+
+    expect(result.problems.map((p) => p.type)).toEqual(['reorder', 'reorder', 'reorder']);
+    expect(result.problems.every((p) => p.type !== 'modified')).toBe(true);
+  });
+
+  it('should report events without a chain', () => {
+    const log = buildLog(['a', 'a']);
+    delete log[1].chain;
+
+    expect(verifyEventChain(log, 'log', '2026-01-15').problems).toEqual([
+      expect.objectContaining({ type: 'unchained', index: 1 }),
+    ]);
+  });
+});
+
+describe('chain anchors', () => {
+  it('should accept a log matching a signed anchor', () => {
+    const log = buildLog(['a', 'b', 'a']);
+    const anchor = signChainHead(
+      { scope: 'log', id: '2026-01-15', headHash: hashAt(log, 2), eventCount: 3 },
+      hmacKey
+    );
+
+    const result = verifyEventChain(log, 'log', '2026-01-15', [anchor], hmacKeys);
+
+    expect(result).toMatchObject({ valid: true, anchorsChecked: 1 });
+  });
+
+  it('should catch a truncated log against the anchor', () => {
+    const log = buildLog(['a', 'b', 'a']);
+    const anchor = signChainHead(
+      { scope: 'log', id: '2026-01-15', headHash: hashAt(log, 2), eventCount: 3 },
+      hmacKey
+    );
+
+    const result = verifyEventChain(log.slice(0, 2), 'log', '2026-01-15', [anchor], hmacKeys);
+
+    expect(result.problems).toEqual([expect.objectContaining({ type: 'gap', index: 2 })]);
+  });
+
+  it('should reject an altered anchor or an unknown key', () => {
+    const log = buildLog(['a']);
+    const anchor = signChainHead(
+      { scope: 'case', id: 'a', headHash: hashAt(log, 0), eventCount: 1 },
+      hmacKey
+    );
+
+    expect(verifyAnchorSignature(anchor, hmacKeys)).toBe(true);
+    expect(verifyAnchorSignature({ ...anchor, eventCount: 2 }, hmacKeys)).toBe(false);
+    expect(verifyAnchorSignature(anchor, {})).toBe(false);
+    expect(verifyEventChain(log, 'case', 'a', [anchor], {}).problems).toEqual([
+      expect.objectContaining({ type: 'bad_signature' }),
+    ]);
+  });
+
+  it('should sign and verify with ed25519 keys', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const signingKey: AnchorSigningKey = {
+      keyId: 'ed1',
+      algorithm: 'ed25519',
+      key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+    const anchor = signChainHead(
+      { scope: 'log', id: '2026-01-15', headHash: 'abc', eventCount: 1 },
+      signingKey
+    );
+
+    const keys = { ed1: { algorithm: 'ed25519' as const, key: publicKey.export({ type: 'spki', format: 'pem' }).toString() } };
+    expect(verifyAnchorSignature(anchor, keys)).toBe(true);
+    expect(verifyAnchorSignature({ ...anchor, headHash: 'abd' }, keys)).toBe(false);
+  });
+});
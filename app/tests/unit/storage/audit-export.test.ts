@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildExportArchive,
+  buildExportSummaryHtml,
+  redactExportContent,
+  verifyExportArchive,
+  type AuditExportCaseSummary,
+  type AuditExportFile,
+} from '@order-processing/storage/audit-export';
+import { RedactionService } from '@order-processing/storage/redaction';
+import type { AnchorSigningKey } from '@order-processing/storage/audit-chain';
+import type { AuditExportManifest } from '@order-processing/storage/types';
+
+/**
+ * Audit export unit tests
+ * Tests role redaction of exported content and the signed package manifest
+ */
+
+const hmacKey: AnchorSigningKey = { keyId: 'k1', algorithm: 'hmac-sha256', key: 'test-secret' };
+const hmacKeys = { k1: { algorithm: hmacKey.algorithm, key: hmacKey.key } };
+
+const manifestBase: Omit<AuditExportManifest, 'files'> = {
+  version: '1.0',
+  exportId: 'export-1',
+  tenantId: 'tenant-1',
+  createdAt: '2026-01-15T09:00:00.000Z',
+  requestedBy: 'auditor-1',
+  scope: { type: 'case', caseId: 'case-1' },
+  redactionPolicy: 'audit',
+  caseIds: ['case-1'],
+  omitted: [],
+};
+
+const files: AuditExportFile[] = [
+  {
+    path: 'cases/case-1/canonical.json',
+    content: Buffer.from(JSON.stringify({ customer: 'Acme' })),
+    redacted: true,
+  },
+  {
+    path: 'cases/case-1/events.jsonl',
+    content: Buffer.from('{"eventType":"case.parsed"}\n'),
+    redacted: false,
+  },
+];
+
+const summaries: AuditExportCaseSummary[] = [
+  {
+    case: { caseId: 'case-1', tenantId: 'tenant-1', createdAt: '2026-01-15T08:00:00.000Z' },
+    fileCount: 2,
+  },
+];
+
+describe('buildExportArchive', () => {
+  it('should build a package that verifies', async () => {
+    const { zip, manifest } = await buildExportArchive(manifestBase, files, summaries, hmacKey);
+
+    expect(manifest.files.map((f) => f.path)).toEqual([
+      'cases/case-1/canonical.json',
+      'cases/case-1/events.jsonl',
+      'summary.html',
+    ]);
+    expect(await verifyExportArchive(zip, hmacKeys)).toEqual([]);
+  });
+
+  it('should report a modified file', async () => {
+    const { zip } = await buildExportArchive(manifestBase, files, summaries, hmacKey);
+
+    const archive = await JSZip.loadAsync(zip);
+    archive.file('cases/case-1/canonical.json', JSON.stringify({ customer: 'Other' }));
+    const tampered = await archive.generateAsync({ type: 'nodebuffer' });
+
+    expect(await verifyExportArchive(tampered, hmacKeys)).toEqual([
+      'Modified file: cases/case-1/canonical.json',
+    ]);
+  });
+
+  it('should reject a manifest edited to match a modified file', async () => {
+    const { zip, manifest } = await buildExportArchive(manifestBase, files, summaries, hmacKey);
+
+    const archive = await JSZip.loadAsync(zip);
+    archive.file('manifest.json', JSON.stringify({ ...manifest, caseIds: [] }, null, 2));
+    const tampered = await archive.generateAsync({ type: 'nodebuffer' });
+
+    expect(await verifyExportArchive(tampered, hmacKeys)).toEqual([
+      'Manifest signature does not verify with key k1',
+    ]);
+    expect(await verifyExportArchive(zip, {})).toHaveLength(1);
+  });
+});
+
+describe('redactExportContent', () => {
+  const redactionService = new RedactionService();
+
+  it('should redact JSON and each JSONL line', () => {
+    const json = redactExportContent(
+      'audit/committee.json',
+      Buffer.from(JSON.stringify({ apiKey: 'sk-123', model: 'm1' })),
+      'audit',
+      redactionService
+    );
+    expect(json.redacted).toBe(true);
+    expect(JSON.parse(json.content.toString())).toEqual({ apiKey: '[REDACTED]', model: 'm1' });
+
+    const jsonl = redactExportContent(
+      'events.jsonl',
+      Buffer.from('{"apiKey":"a"}\n{"apiKey":"b"}\n'),
+      'audit',
+      redactionService
+    );
+    expect(jsonl.content.toString().trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+      { apiKey: '[REDACTED]' },
+      { apiKey: '[REDACTED]' },
+    ]);
+  });
+
+  it('should leave content that does not parse as-is', () => {
+    const content = Buffer.from('not json');
+
+    expect(redactExportContent('notes.json', content, 'audit', redactionService)).toEqual({
+      content,
+      redacted: false,
+    });
+  });
+});
+
+describe('buildExportSummaryHtml', () => {
+  it('should escape case content', () => {
+    const html = buildExportSummaryHtml({ ...manifestBase, files: [] }, [
+      {
+        case: {
+          caseId: 'case-1',
+          tenantId: 'tenant-1',
+          createdAt: '2026-01-15T08:00:00.000Z',
+          customerName: '<script>alert(1)</script>',
+        },
+        fileCount: 0,
+      },
+    ]);
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+});
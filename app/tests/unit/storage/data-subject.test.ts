@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decideErasureAction,
+  findSubjectMatches,
+  getSubjectFingerprint,
+  redactSubjectContent,
+  redactSubjectValue,
+  validateSubject,
+} from '@order-processing/storage/data-subject';
+import type { DataSubject, WormPolicy } from '@order-processing/storage/types';
+
+/**
+ * Data subject request unit tests
+ * Tests finding and redacting a subject's identifiers, and erasure planning under retention
+ */
+
+const subject: DataSubject = {
+  type: 'person',
+  name: 'Jane Doe',
+  email: 'jane.doe@example.com',
+  phone: '+44 20 7946 0958',
+};
+
+const now = new Date('2026-06-01T00:00:00Z');
+const worm: WormPolicy = { enabled: true, retentionDays: 365, locked: false };
+
+describe('findSubjectMatches', () => {
+  it('should find names, emails and phones in any format', () => {
+    const text = JSON.stringify({
+      contact: 'JANE  DOE',
+      email: 'Jane.Doe@Example.com',
+      phone: '(44) 20-7946-0958',
+    });
+
+    expect(findSubjectMatches(text, subject)).toEqual(['name', 'email', 'phone']);
+  });
+
+  it('should not match names inside other words or longer numbers', () => {
+    const text = JSON.stringify({ contact: 'Jane Doetown', phone: '442079460958123' });
+
+    expect(findSubjectMatches(text, subject)).toEqual([]);
+  });
+});
+
+describe('redactSubjectValue', () => {
+  it('should replace identifiers in nested strings and phone numbers', () => {
+    const value = {
+      customer: { contact: 'Attn: Jane Doe', email: 'jane.doe@example.com' },
+      notes: ['Call 020 7946 0958 first'],
+      phone: 442079460958,
+      quantity: 12,
+    };
+
+    expect(redactSubjectValue(value, subject)).toEqual({
+      customer: { contact: 'Attn: [ERASED]', email: '[ERASED]' },
+      notes: ['Call 020 7946 0958 first'],
+      phone: '[ERASED]',
+      quantity: 12,
+    });
+  });
+
+  it('should redact each line of JSONL content', () => {
+    const content = Buffer.from('{"by":"Jane Doe"}\n{"by":"someone"}\n');
+
+    expect(redactSubjectContent('corrections.jsonl', content, subject).toString()).toBe(
+      '{"by":"[ERASED]"}\n{"by":"someone"}\n'
+    );
+  });
+});
+
+describe('validateSubject and getSubjectFingerprint', () => {
+  it('should require an identifier of usable length', () => {
+    expect(() => validateSubject({ type: 'customer' })).toThrow('at least one of');
+    expect(() => validateSubject({ type: 'customer', name: 'Al' })).toThrow('3 characters');
+    expect(() => validateSubject({ type: 'person', phone: '123' })).toThrow('7 digits');
+    expect(() => validateSubject(subject)).not.toThrow();
+  });
+
+  it('should fingerprint the same subject regardless of formatting', () => {
+    const reformatted: DataSubject = {
+      ...subject,
+      name: ' jane doe ',
+      email: 'JANE.DOE@example.com',
+      phone: '442079460958',
+    };
+
+    expect(getSubjectFingerprint(reformatted)).toBe(getSubjectFingerprint(subject));
+    expect(getSubjectFingerprint({ ...subject, type: 'customer' })).not.toBe(getSubjectFingerprint(subject));
+  });
+});
+
+describe('decideErasureAction', () => {
+  const options = { redactable: true, shreddable: false, now };
+
+  it('should keep blobs under legal hold', () => {
+    const blob = { legalHold: true, createdOn: new Date('2020-01-01Z') };
+
+    expect(decideErasureAction(blob, worm, options).action).toBe('legal_hold');
+  });
+
+  it('should retain blobs under WORM retention unless they can be crypto-shredded', () => {
+    const blob = { legalHold: false, createdOn: new Date('2026-01-01T00:00:00Z') };
+
+    expect(decideErasureAction(blob, worm, options)).toMatchObject({
+      action: 'retain',
+      retainedUntil: '2027-01-01T00:00:00.000Z',
+    });
+    expect(decideErasureAction(blob, worm, { ...options, shreddable: true }).action).toBe('crypto_shred');
+  });
+
+  it('should honour a blob-level policy beyond the container period', () => {
+    const blob = {
+      legalHold: false,
+      createdOn: new Date('2024-01-01Z'),
+      immutabilityPolicyExpiresOn: new Date('2026-12-31T00:00:00Z'),
+    };
+
+    expect(decideErasureAction(blob, worm, options)).toMatchObject({
+      action: 'retain',
+      retainedUntil: '2026-12-31T00:00:00.000Z',
+    });
+  });
+
+  it('should redact or delete once retention has ended', () => {
+    const blob = { legalHold: false, createdOn: new Date('2024-01-01Z') };
+
+    expect(decideErasureAction(blob, worm, options).action).toBe('redact');
+    expect(decideErasureAction(blob, worm, { ...options, redactable: false }).action).toBe('delete');
+    expect(decideErasureAction({ legalHold: false }, undefined, options).action).toBe('redact');
+  });
+});
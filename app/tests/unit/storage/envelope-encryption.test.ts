@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENCRYPTED_FIELD_PREFIX,
+  EnvelopeEncryption,
+  LocalKeyStore,
+  fromEncryptionMetadata,
+  getFieldEnvelope,
+  toEncryptionMetadata,
+} from '@order-processing/storage/envelope-encryption';
+
+/**
+ * Envelope encryption unit tests
+ * Tests file and field encryption under per-tenant data keys, and key rotation
+ */
+
+const order = {
+  meta: { case_id: 'case-1', tenant_id: 'tenant-a', notes: 'Deliver before noon' },
+  customer: {
+    input_name: 'Acme Ltd',
+    zoho_customer_id: 'zc-1',
+    resolution_status: 'resolved',
+    evidence: [{ sheet: 'Order', cell: 'B2', raw_value: 'Acme Ltd' }],
+  },
+  line_items: [
+    { row: 0, sku: 'SKU-1', quantity: 2, unit_price_source: 12.5, line_total_source: 25 },
+    { row: 1, sku: 'SKU-2', quantity: 1, unit_price_source: null },
+  ],
+  totals: { total_source: 25, currency: 'GBP' },
+  issues: [],
+};
+
+describe('EnvelopeEncryption files', () => {
+  it('should decrypt a file only with its context', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    const content = Buffer.from('spreadsheet bytes');
+
+    const { ciphertext, envelope } = await encryption.encryptFile('tenant-a', content, 'orders-incoming/case-1/original.xlsx');
+
+    expect(ciphertext.equals(content)).toBe(false);
+    expect(envelope).toMatchObject({ scheme: 'aes-256-gcm/v1', tenantId: 'tenant-a', keyVersion: '1' });
+    expect(await encryption.decryptFile(ciphertext, envelope, 'orders-incoming/case-1/original.xlsx')).toEqual(content);
+    await expect(encryption.decryptFile(ciphertext, envelope, 'orders-incoming/case-2/original.xlsx')).rejects.toThrow();
+  });
+
+  it('should not decrypt under another tenant', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    await encryption.encryptFile('tenant-b', Buffer.from('other'), 'ctx');
+    const { ciphertext, envelope } = await encryption.encryptFile('tenant-a', Buffer.from('secret'), 'ctx');
+
+    await expect(encryption.decryptFile(ciphertext, { ...envelope, tenantId: 'tenant-b' }, 'ctx')).rejects.toThrow();
+  });
+
+  it('should keep the envelope in blob metadata', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    const { envelope } = await encryption.encryptFile('tenant-a', Buffer.from('x'), 'ctx');
+
+    const metadata = toEncryptionMetadata(envelope);
+    const lowerCased = Object.fromEntries(Object.entries(metadata).map(([k, v]) => [k.toLowerCase(), v]));
+
+    expect(fromEncryptionMetadata(metadata)).toEqual(envelope);
+    expect(fromEncryptionMetadata(lowerCased)).toEqual(envelope);
+    expect(fromEncryptionMetadata({ sha256: 'abc' })).toBeUndefined();
+  });
+});
+
+describe('EnvelopeEncryption fields', () => {
+  it('should encrypt customer, price and note fields only', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+
+    const encrypted = await encryption.encryptFields('tenant-a', order);
+    const envelope = getFieldEnvelope(encrypted);
+
+    expect(envelope?.fields).toEqual([
+      'customer.input_name',
+      'customer.evidence',
+      'line_items.0.unit_price_source',
+      'line_items.0.line_total_source',
+      'totals.total_source',
+      'meta.notes',
+    ]);
+    expect(encrypted.customer.input_name).toMatch(new RegExp(`^${ENCRYPTED_FIELD_PREFIX}`));
+    expect(encrypted.line_items[0]).toMatchObject({ sku: 'SKU-1', quantity: 2 });
+    expect(encrypted.line_items[1].unit_price_source).toBeNull();
+    expect(JSON.stringify(encrypted)).not.toContain('Acme');
+  });
+
+  it('should restore the document on decryption', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+
+    const encrypted = await encryption.encryptFields('tenant-a', order);
+
+    expect(await encryption.decryptFields(encrypted)).toEqual(order);
+    expect(await encryption.decryptFields(order)).toBe(order);
+    await expect(encryption.encryptFields('tenant-a', encrypted)).rejects.toThrow('already encrypted');
+  });
+
+  it('should not decrypt a field moved to another path', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    const encrypted = await encryption.encryptFields('tenant-a', order);
+
+    const swapped = {
+      ...encrypted,
+      line_items: [
+        { ...encrypted.line_items[0], unit_price_source: encrypted.line_items[0].line_total_source },
+        encrypted.line_items[1],
+      ],
+    };
+
+    await expect(encryption.decryptFields(swapped)).rejects.toThrow();
+  });
+});
+
+describe('EnvelopeEncryption key rotation', () => {
+  it('should keep old artifacts readable and wrap new ones with the new key', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    const before = await encryption.encryptFields('tenant-a', order);
+
+    expect(await encryption.rotateTenantKey('tenant-a')).toBe('2');
+
+    const after = await encryption.encryptFields('tenant-a', order);
+    expect(getFieldEnvelope(before)?.keyVersion).toBe('1');
+    expect(getFieldEnvelope(after)?.keyVersion).toBe('2');
+    expect(await encryption.decryptFields(before)).toEqual(order);
+  });
+
+  it('should rewrap an envelope without changing its content', async () => {
+    const encryption = new EnvelopeEncryption(new LocalKeyStore());
+    const { ciphertext, envelope } = await encryption.encryptFile('tenant-a', Buffer.from('original'), 'ctx');
+    await encryption.rotateTenantKey('tenant-a');
+
+    const rewrapped = await encryption.rewrap(envelope);
+
+    expect(rewrapped.keyVersion).toBe('2');
+    expect(rewrapped.wrappedKey).not.toBe(envelope.wrappedKey);
+    expect((await encryption.decryptFile(ciphertext, rewrapped, 'ctx')).toString()).toBe('original');
+    expect(await encryption.rewrap(rewrapped)).toBe(rewrapped);
+  });
+});
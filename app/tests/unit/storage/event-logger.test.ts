@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BlobLayoutManager } from '@order-processing/storage/blob-layout';
+import { EventLoggerService } from '@order-processing/storage/event-logger';
+import { AuditEventType, type BlobPath } from '@order-processing/storage/types';
+import { ActorType } from '@order-processing/types';
+
+/**
+ * Event logger unit tests
+ * Tests that loggers in several processes keep one hash chain per daily log
+ */
+
+const correlation = { traceId: 'trace-1', spanId: 'span-1' };
+const system = { type: ActorType.System };
+
+describe('EventLoggerService', () => {
+  let blobs: Map<string, string>;
+
+  beforeEach(() => {
+    blobs = new Map();
+    const key = (blobPath: BlobPath) => `${blobPath.container}/${blobPath.path}`;
+
+    // In-memory append blobs, enforcing the append position like Azure does
+    vi.spyOn(BlobLayoutManager.prototype, 'appendJsonLine').mockImplementation(
+      async (blobPath, value, appendPosition) => {
+        const content = blobs.get(key(blobPath)) ?? '';
+        if (appendPosition !== undefined && appendPosition !== Buffer.byteLength(content)) {
+          throw Object.assign(new Error('AppendPositionConditionNotMet'), { statusCode: 412 });
+        }
+
+        const updated = content + JSON.stringify(value) + '\n';
+        blobs.set(key(blobPath), updated);
+        return Buffer.byteLength(updated);
+      }
+    );
+    vi.spyOn(BlobLayoutManager.prototype, 'readJsonLinesWithLength').mockImplementation(
+      async (blobPath) => {
+        const content = blobs.get(key(blobPath)) ?? '';
+        return {
+          values: content.split('\n').filter((line) => line).map((line) => JSON.parse(line)),
+          length: Buffer.byteLength(content),
+        };
+      }
+    );
+    vi.spyOn(BlobLayoutManager.prototype, 'listBlobs').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep one chain when two loggers write to the same daily log', async () => {
+    const api = new EventLoggerService('https://account.blob.core.windows.net', { bufferSize: 1 });
+    const worker = new EventLoggerService('https://account.blob.core.windows.net', { bufferSize: 1 });
+
+    await api.logCaseEvent(AuditEventType.CaseCreated, 'case-1', 'tenant-1', correlation, system);
+    await worker.logCaseEvent(AuditEventType.CaseParsed, 'case-2', 'tenant-1', correlation, system);
+    await api.logCaseEvent(AuditEventType.CaseValidated, 'case-1', 'tenant-1', correlation, system);
+    await worker.logCaseEvent(AuditEventType.CaseValidated, 'case-2', 'tenant-1', correlation, system);
+
+    const [log] = [...blobs.entries()].filter(([path]) => path.endsWith('/events.jsonl'));
+    const events = log[1].trim().split('\n').map((line) => JSON.parse(line));
+    const result = await worker.verifyLogChain(new Date(events[0].ts));
+
+    expect(events.map((e) => e.caseId)).toEqual(['case-1', 'case-2', 'case-1', 'case-2']);
+    expect(result).toMatchObject({ valid: true, eventCount: 4, problems: [] });
+    expect((await api.verifyCaseChain('case-1')).valid).toBe(true);
+    expect((await worker.verifyCaseChain('case-2')).valid).toBe(true);
+  });
+
+  it('should give up on a flush when the log keeps changing, and keep the event buffered', async () => {
+    const logger = new EventLoggerService('https://account.blob.core.windows.net', { bufferSize: 1 });
+    const append = vi.mocked(BlobLayoutManager.prototype.appendJsonLine);
+    append.mockRejectedValue(Object.assign(new Error('AppendPositionConditionNotMet'), { statusCode: 412 }));
+
+    await expect(
+      logger.logCaseEvent(AuditEventType.CaseCreated, 'case-1', 'tenant-1', correlation, system)
+    ).rejects.toMatchObject({ statusCode: 412 });
+    expect(append).toHaveBeenCalledTimes(5);
+
+    append.mockResolvedValue(100);
+    await logger.flush();
+    expect(append).toHaveBeenCalledTimes(7);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CacheRefreshService,
+  CustomerCache,
+  FileCacheSnapshotStore,
+  ItemCache,
+  parseZohoTimestamp,
+} from '@order-processing/zoho';
+import type { ListItemsOptions, ZohoCustomersApi, ZohoItem, ZohoItemsApi } from '@order-processing/zoho';
+
+/**
+ * Cache delta sync unit tests
+ * Tests watermark-based item sync, snapshot restore and staleness metrics
+ */
+
+function zohoItem(id: string, modified: string, status = 'active'): ZohoItem {
+  return {
+    item_id: id,
+    name: `Item ${id}`,
+    sku: id,
+    rate: 1,
+    status,
+    last_modified_time: modified,
+  } as ZohoItem;
+}
+
+/**
+ * Fake items API serving a catalogue; records every list call
+ */
+function fakeItemsApi(catalogue: ZohoItem[]) {
+  const calls: ListItemsOptions[] = [];
+
+  const api = {
+    calls,
+    catalogue,
+    getOrganizationId: async () => 'org-1',
+    getGtinFromItem: () => null,
+    getUnitConversionsFromItem: () => ({}),
+    listItems: async (options: ListItemsOptions) => {
+      calls.push(options);
+      let records = api.catalogue.filter(
+        (item) => options.status === 'all' || item.status === options.status
+      );
+      if (options.sortColumn === 'last_modified_time') {
+        records = [...records].sort(
+          (a, b) =>
+            (parseZohoTimestamp(b.last_modified_time) ?? 0) - (parseZohoTimestamp(a.last_modified_time) ?? 0)
+        );
+      }
+      const perPage = options.perPage || 200;
+      const page = options.page || 1;
+      return records.slice((page - 1) * perPage, page * perPage);
+    },
+  };
+
+  return api;
+}
+
+describe('parseZohoTimestamp', () => {
+  it('should parse Zoho offsets without a colon', () => {
+    expect(parseZohoTimestamp('2024-03-01T10:15:00+0530')).toBe(Date.parse('2024-03-01T04:45:00Z'));
+    expect(parseZohoTimestamp('not a date')).toBeNull();
+    expect(parseZohoTimestamp(undefined)).toBeNull();
+  });
+});
+
+describe('ItemCache delta sync', () => {
+  let snapshotDir: string;
+
+  beforeEach(async () => {
+    snapshotDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(snapshotDir, { recursive: true, force: true });
+  });
+
+  it('should load every page on the first sync', async () => {
+    const catalogue = Array.from({ length: 450 }, (_, i) =>
+      zohoItem(`item-${i}`, '2024-03-01T10:00:00+0000')
+    );
+    const api = fakeItemsApi(catalogue);
+    const cache = new ItemCache(api as unknown as ZohoItemsApi);
+
+    const result = await cache.syncChanges();
+
+    expect(result).toMatchObject({ mode: 'full', updated: 450, total: 450 });
+    expect(api.calls.map((call) => call.page)).toEqual([1, 2, 3]);
+    expect(cache.getSyncStatus().watermark).toBe('2024-03-01T10:00:00+0000');
+  });
+
+  it('should fetch only records changed since the watermark', async () => {
+    const api = fakeItemsApi([
+      zohoItem('a', '2024-03-01T10:00:00+0000'),
+      zohoItem('b', '2024-03-01T11:00:00+0000'),
+      zohoItem('c', '2024-03-01T09:00:00+0000'),
+    ]);
+    const cache = new ItemCache(api as unknown as ZohoItemsApi);
+    await cache.syncChanges();
+
+    api.catalogue = [
+      zohoItem('a', '2024-03-02T08:00:00+0000', 'inactive'),
+      zohoItem('b', '2024-03-01T11:00:00+0000'),
+      zohoItem('c', '2024-03-01T09:00:00+0000'),
+      zohoItem('d', '2024-03-02T09:00:00+0000'),
+    ];
+    api.calls.length = 0;
+
+    const result = await cache.syncChanges();
+
+    expect(result).toMatchObject({ mode: 'delta', updated: 2, removed: 1, total: 3 });
+    expect(api.calls[0]).toMatchObject({ status: 'all', sortColumn: 'last_modified_time', sortOrder: 'D' });
+    expect((await cache.getItems()).map((item) => item.zoho_item_id).sort()).toEqual(['b', 'c', 'd']);
+    expect(cache.getSyncStatus()).toMatchObject({
+      watermark: '2024-03-02T09:00:00+0000',
+      last_sync_mode: 'delta',
+    });
+  });
+
+  it('should resume from a persisted snapshot after a restart', async () => {
+    const snapshotStore = new FileCacheSnapshotStore({ directory: snapshotDir });
+    const api = fakeItemsApi([
+      zohoItem('a', '2024-03-01T10:00:00+0000'),
+      zohoItem('b', '2024-03-01T11:00:00+0000'),
+    ]);
+    await new ItemCache(api as unknown as ZohoItemsApi, { snapshotStore }).syncChanges();
+
+    api.catalogue.push(zohoItem('c', '2024-03-02T10:00:00+0000'));
+    api.calls.length = 0;
+
+    const restarted = new ItemCache(api as unknown as ZohoItemsApi, { snapshotStore });
+    expect(await restarted.restoreSnapshot()).toBe(2);
+    expect(restarted.getSyncStatus().last_sync_mode).toBe('snapshot');
+
+    const result = await restarted.syncChanges();
+
+    expect(result).toMatchObject({ mode: 'delta', updated: 2, total: 3 });
+    expect(api.calls.every((call) => call.status === 'all')).toBe(true);
+
+    const saved = await snapshotStore.load('items', 'org-1');
+    expect(saved?.records).toHaveLength(3);
+    expect(saved?.state.watermark).toBe('2024-03-02T10:00:00+0000');
+  });
+
+  it('should reload in full when the full resync interval has passed', async () => {
+    const api = fakeItemsApi([zohoItem('a', '2024-03-01T10:00:00+0000')]);
+    const cache = new ItemCache(api as unknown as ZohoItemsApi, { fullResyncIntervalMs: 1 });
+    await cache.syncChanges();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    api.catalogue = [];
+    const result = await cache.syncChanges();
+
+    expect(result).toMatchObject({ mode: 'full', removed: 1, total: 0 });
+  });
+});
+
+describe('CacheRefreshService staleness', () => {
+  it('should report caches as stale until they sync', async () => {
+    const itemsApi = fakeItemsApi([zohoItem('a', '2024-03-01T10:00:00+0000')]);
+    const customersApi = {
+      getOrganizationId: async () => 'org-1',
+      listCustomers: async () => [],
+    };
+
+    const service = new CacheRefreshService(
+      new CustomerCache(customersApi as unknown as ZohoCustomersApi),
+      new ItemCache(itemsApi as unknown as ZohoItemsApi)
+    );
+
+    expect(service.getStalenessMetrics().every((cache) => cache.stale)).toBe(true);
+
+    const result = await service.refresh();
+
+    expect(result.success).toBe(true);
+    const metrics = service.getStalenessMetrics();
+    expect(metrics.map((cache) => cache.entity)).toEqual(['customers', 'items']);
+    expect(metrics.every((cache) => !cache.stale && cache.age_seconds === 0)).toBe(true);
+    expect(metrics[1].record_count).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { ItemMatcher, getAliasConfidence } from '@order-processing/zoho';
+import type { CachedItem, ItemAlias } from '@order-processing/zoho';
+
+/**
+ * Item alias matching unit tests
+ * Tests learned (customer, SKU/GTIN/description) -> item aliases in ItemMatcher
+ */
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function item(id: string, sku: string | null, name: string): CachedItem {
+  return {
+    zoho_item_id: id,
+    name,
+    sku,
+    gtin: null,
+    rate: 10,
+    status: 'active',
+    last_cached_at: NOW.toISOString()
+  };
+}
+
+function alias(overrides: Partial<ItemAlias> = {}): ItemAlias {
+  return {
+    alias_id: 'alias-1',
+    source_kind: 'sku',
+    zoho_item_id: 'item-2',
+    confidence: 0.9,
+    last_confirmed_at: daysAgo(1),
+    ...overrides
+  };
+}
+
+const items = [item('item-1', 'WID-001', 'Widget'), item('item-2', 'BLT-100', 'Bolt M8')];
+
+describe('ItemMatcher aliases', () => {
+  const matcher = new ItemMatcher();
+
+  it('should resolve a customer SKU through its alias', async () => {
+    const result = await matcher.matchItem('CUST-77', null, 'Bolts', items, {
+      aliases: [alias()],
+      now: NOW
+    });
+
+    expect(result.status).toBe('resolved');
+    expect(result.method).toBe('alias');
+    expect(result.alias_id).toBe('alias-1');
+    expect(result.item?.zoho_item_id).toBe('item-2');
+  });
+
+  it('should prefer the alias over a catalog SKU match', async () => {
+    const result = await matcher.matchItem('WID-001', null, null, items, {
+      aliases: [alias()],
+      now: NOW
+    });
+
+    expect(result.method).toBe('alias');
+    expect(result.item?.zoho_item_id).toBe('item-2');
+  });
+
+  it('should prefer SKU aliases over description aliases', async () => {
+    const result = await matcher.matchItem('CUST-77', null, 'Bolts', items, {
+      aliases: [
+        alias({ alias_id: 'alias-desc', source_kind: 'description', zoho_item_id: 'item-1' }),
+        alias({ alias_id: 'alias-sku', source_kind: 'sku', zoho_item_id: 'item-2' })
+      ],
+      now: NOW
+    });
+
+    expect(result.alias_id).toBe('alias-sku');
+  });
+
+  it('should ignore revoked aliases and aliases for items no longer in the catalog', async () => {
+    const revoked = await matcher.matchItem('WID-001', null, null, items, {
+      aliases: [alias({ revoked: true })],
+      now: NOW
+    });
+    expect(revoked.method).toBe('sku');
+    expect(revoked.item?.zoho_item_id).toBe('item-1');
+
+    const missing = await matcher.matchItem('WID-001', null, null, items, {
+      aliases: [alias({ zoho_item_id: 'item-deleted' })],
+      now: NOW
+    });
+    expect(missing.method).toBe('sku');
+  });
+
+  it('should decay confidence with the time since last confirmation', () => {
+    expect(getAliasConfidence(alias({ last_confirmed_at: NOW.toISOString() }), NOW, 180)).toBeCloseTo(0.9);
+    expect(getAliasConfidence(alias({ last_confirmed_at: daysAgo(180) }), NOW, 180)).toBeCloseTo(0.45);
+  });
+
+  it('should offer a stale alias as the first candidate instead of applying it', async () => {
+    const result = await matcher.matchItem('CUST-77', null, 'Bolts', items, {
+      aliases: [alias({ last_confirmed_at: daysAgo(365) })],
+      now: NOW
+    });
+
+    expect(result.status).toBe('needs_user_input');
+    expect(result.method).toBeUndefined();
+    expect(result.candidates[0].zoho_item_id).toBe('item-2');
+    expect(result.candidates[0].match_reason).toBe('Learned sku alias');
+  });
+
+  it('should fall through a stale SKU alias to a confident GTIN or description alias', async () => {
+    const result = await matcher.matchItem('CUST-77', null, 'Bolts', items, {
+      aliases: [
+        alias({ alias_id: 'alias-sku', last_confirmed_at: daysAgo(365) }),
+        alias({ alias_id: 'alias-desc', source_kind: 'description', zoho_item_id: 'item-1' })
+      ],
+      now: NOW
+    });
+
+    expect(result.status).toBe('resolved');
+    expect(result.method).toBe('alias');
+    expect(result.alias_id).toBe('alias-desc');
+    expect(result.item?.zoho_item_id).toBe('item-1');
+  });
+
+  it('should let a catalog match win over a stale alias', async () => {
+    const result = await matcher.matchItem('WID-001', null, null, items, {
+      aliases: [alias({ last_confirmed_at: daysAgo(365) })],
+      now: NOW
+    });
+
+    expect(result.status).toBe('resolved');
+    expect(result.method).toBe('sku');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RateResolver,
+  SalesOrderBuilder,
+  buildUnitConversionTable,
+  resolveEffectiveRate,
+} from '@order-processing/zoho';
+import type {
+  CachedItem,
+  CanonicalSalesOrder,
+  EffectiveRate,
+  ZohoPriceBook,
+} from '@order-processing/zoho';
+
+/**
+ * Price list rate resolution unit tests
+ * Tests customer price lists, volume brackets and spreadsheet price variance
+ */
+
+const item: CachedItem = {
+  zoho_item_id: 'item-1',
+  name: 'Widget',
+  sku: 'W-1',
+  gtin: null,
+  rate: 10,
+  unit: 'pcs',
+  unit_conversions: buildUnitConversionTable('pcs', 12),
+  status: 'active',
+  last_cached_at: new Date().toISOString(),
+};
+
+function priceBook(overrides: Partial<ZohoPriceBook>): ZohoPriceBook {
+  return {
+    pricebook_id: 'pb-1',
+    name: 'Wholesale',
+    status: 'active',
+    pricebook_type: 'per_item',
+    ...overrides,
+  } as ZohoPriceBook;
+}
+
+function order(lines: Array<{ quantity: number; price: number | null }>): CanonicalSalesOrder {
+  return {
+    meta: {
+      case_id: 'case-1',
+      file_sha256: 'abc',
+      received_at: new Date().toISOString(),
+    },
+    customer: {
+      spreadsheet_name: 'Acme',
+      zoho_customer_id: 'cust-1',
+      zoho_customer_name: 'Acme Corp',
+    },
+    line_items: lines.map((line, index) => ({
+      row: index,
+      sku: 'W-1',
+      gtin: null,
+      product_name: null,
+      quantity: line.quantity,
+      unit_price_spreadsheet: line.price,
+      zoho_item_id: 'item-1',
+      zoho_item_name: 'Widget',
+      unit_price_zoho: null,
+    })),
+  };
+}
+
+describe('resolveEffectiveRate', () => {
+  it('should use the item rate without a price list', () => {
+    expect(resolveEffectiveRate(item, 5, null)).toEqual({ rate: 10, base_rate: 10, source: 'item' });
+  });
+
+  it('should apply a percentage markdown with rounding', () => {
+    const rate = resolveEffectiveRate(
+      item,
+      5,
+      priceBook({ pricebook_type: 'fixed_percentage', percentage: 15, is_increase: false })
+    );
+
+    expect(rate).toMatchObject({ rate: 8.5, base_rate: 10, source: 'price_book', pricebook_id: 'pb-1' });
+  });
+
+  it('should pick the volume bracket for the quantity', () => {
+    const book = priceBook({
+      pricing_scheme: 'volume',
+      pricebook_items: [
+        {
+          item_id: 'item-1',
+          pricebook_rate: 9,
+          price_brackets: [
+            { start_quantity: 1, end_quantity: 49, pricebook_rate: 9 },
+            { start_quantity: 50, end_quantity: 0, pricebook_rate: 7.5 },
+          ],
+        },
+      ],
+    });
+
+    expect(resolveEffectiveRate(item, 10, book).rate).toBe(9);
+    expect(resolveEffectiveRate(item, 120, book)).toMatchObject({
+      rate: 7.5,
+      source: 'price_book_tier',
+      tier_start_quantity: 50,
+    });
+  });
+
+  it('should keep the item rate for items missing from a per-item price list', () => {
+    const book = priceBook({ pricebook_items: [{ item_id: 'other', pricebook_rate: 1 }] });
+    expect(resolveEffectiveRate(item, 5, book).source).toBe('item');
+  });
+});
+
+describe('RateResolver', () => {
+  const book = priceBook({ pricebook_items: [{ item_id: 'item-1', pricebook_rate: 8 }] });
+  const resolver = new RateResolver(
+    { findById: async (id) => (id === 'cust-1' ? { pricebook_id: 'pb-1' } : { pricebook_id: undefined }) },
+    { getPriceBook: async (id) => (id === 'pb-1' ? book : null) }
+  );
+
+  it('should use the price list assigned to the customer', async () => {
+    expect((await resolver.resolveRate('cust-1', item, 5)).rate).toBe(8);
+    expect((await resolver.resolveRate('cust-2', item, 5)).rate).toBe(10);
+  });
+
+  it('should restate rates per carton', async () => {
+    const rate = await resolver.resolveRateInUnit('cust-1', item, 2, 'ctn');
+    expect(rate).toMatchObject({ rate: 96, base_rate: 120 });
+    expect(await resolver.resolveRateInUnit('cust-1', item, 2, 'pallet')).toBeNull();
+  });
+});
+
+describe('SalesOrderBuilder with price lists', () => {
+  const builder = new SalesOrderBuilder({ priceVarianceThresholdPercent: 5 });
+  const effective = new Map<number, EffectiveRate>([
+    [0, { rate: 8, base_rate: 10, source: 'price_book', pricebook_id: 'pb-1' }],
+    [1, { rate: 8, base_rate: 10, source: 'price_book', pricebook_id: 'pb-1' }],
+  ]);
+
+  it('should send the effective rate', () => {
+    const payload = builder.buildSalesOrderPayload(
+      order([{ quantity: 2, price: 8 }]),
+      new Map([['item-1', 10]]),
+      effective
+    );
+
+    expect(payload.line_items[0].rate).toBe(8);
+  });
+
+  it('should compute price differences against the effective rate', () => {
+    const audit = builder.buildPriceAuditRecord(
+      order([
+        { quantity: 2, price: 8 },
+        { quantity: 1, price: 10 },
+      ]),
+      new Map([['item-1', { rate: 10, name: 'Widget' }]]),
+      effective
+    );
+
+    expect(audit.line_items[0]).toMatchObject({
+      zoho_rate: 10,
+      effective_rate: 8,
+      rate_source: 'price_book',
+      price_difference: 0,
+    });
+    expect(audit.line_items[1].variance_percent).toBe(25);
+    expect(audit.totals.zoho_total).toBe(24);
+
+    const issues = builder.getPriceVarianceIssues(audit);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'PRICE_VARIANCE', row: 1, variance_percent: 25 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InMemoryRateLimitStore,
+  ZohoRateLimitError,
+  ZohoRateLimitGovernor,
+  parseRetryAfter,
+} from '@order-processing/zoho';
+
+/**
+ * Zoho rate limit governor unit tests
+ * Tests the shared token bucket, priority reserve, daily budget and 429 pauses
+ */
+
+/**
+ * Minimal stand-in for an axios 429 error (axios.isAxiosError checks the flag)
+ */
+function rateLimitedError(retryAfter: string | undefined, message = 'Too many requests') {
+  return {
+    isAxiosError: true,
+    message: 'Request failed with status code 429',
+    response: {
+      status: 429,
+      headers: retryAfter === undefined ? {} : { 'retry-after': retryAfter },
+      data: { code: 429, message },
+    },
+  };
+}
+
+async function takeCalls(governor: ZohoRateLimitGovernor, count: number, priority: 'high' | 'normal' | 'low') {
+  for (let i = 0; i < count; i++) {
+    await governor.acquire('org-1', priority);
+  }
+}
+
+describe('ZohoRateLimitGovernor', () => {
+  it('should keep the reserved budget for high priority calls', async () => {
+    const governor = new ZohoRateLimitGovernor({ requestsPerMinute: 10, reservedPercent: 20, maxWaitMs: 0 });
+
+    // Low priority calls leave 2 of 10 tokens untouched
+    await takeCalls(governor, 8, 'low');
+    await expect(governor.acquire('org-1', 'low')).rejects.toBeInstanceOf(ZohoRateLimitError);
+
+    await takeCalls(governor, 2, 'high');
+    await expect(governor.acquire('org-1', 'high')).rejects.toMatchObject({ reason: 'per_minute' });
+
+    expect(governor.getStats()).toMatchObject({ granted_requests: 10, rejected_requests: 2 });
+  });
+
+  it('should stop at the daily limit', async () => {
+    const governor = new ZohoRateLimitGovernor({ dailyLimit: 3, reservedPercent: 0, maxWaitMs: 1000 });
+
+    await takeCalls(governor, 3, 'high');
+
+    await expect(governor.acquire('org-1', 'high')).rejects.toMatchObject({ reason: 'daily' });
+    expect(governor.getStats().organizations[0]).toMatchObject({
+      organization_id: 'org-1',
+      daily_used: 3,
+      daily_remaining: 0,
+    });
+  });
+
+  it('should pause every governor sharing the store after a 429', async () => {
+    const store = new InMemoryRateLimitStore();
+    const api = new ZohoRateLimitGovernor({ store, maxWaitMs: 0 });
+    const worker = new ZohoRateLimitGovernor({ store, maxWaitMs: 0 });
+
+    await expect(
+      api.schedule('org-1', 'high', () => Promise.reject(rateLimitedError('30')))
+    ).rejects.toMatchObject({ response: { status: 429 } });
+
+    const error = await worker.acquire('org-1', 'low').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ZohoRateLimitError);
+    expect((error as ZohoRateLimitError).retryAfterMs).toBeGreaterThan(29000);
+    expect(api.getStats().rate_limited_responses).toBe(1);
+    expect(api.getStats().organizations[0].pause_reason).toBe('per_minute');
+  });
+
+  it('should wait out a short Retry-After pause', async () => {
+    const governor = new ZohoRateLimitGovernor({ maxWaitMs: 1000 });
+    await governor.recordRateLimited('org-1', '0.02');
+
+    const result = await governor.schedule('org-1', 'normal', async () => 'ok');
+
+    expect(result).toBe('ok');
+    expect(governor.getStats()).toMatchObject({ throttled_requests: 1, granted_requests: 1 });
+  });
+
+  it('should pause until the next UTC day when Zoho reports the daily limit', async () => {
+    const governor = new ZohoRateLimitGovernor({ dailyLimit: 1000 });
+    await governor.recordRateLimited(
+      'org-1',
+      undefined,
+      rateLimitedError(undefined, 'You have exceeded the maximum number of API calls per day').response.data
+    );
+
+    const usage = governor.getStats().organizations[0];
+    expect(usage.pause_reason).toBe('daily');
+    expect(usage.daily_remaining).toBe(0);
+    expect(usage.paused_until?.endsWith('T00:00:00.000Z')).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-03-01T10:00:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Fri, 01 Mar 2024 10:01:00 GMT', now)).toBe(60000);
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
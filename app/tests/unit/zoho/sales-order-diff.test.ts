@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { diffSalesOrderLines, hasSalesOrderChanges } from '@order-processing/zoho';
+import type { CanonicalSalesOrder } from '@order-processing/zoho';
+
+/**
+ * Sales order line diff unit tests
+ * Tests the changes shown before an existing Zoho draft is amended
+ */
+
+type Line = { item: string | null; quantity: number; unit?: string | null; row?: number };
+
+function order(lines: Line[], customerId = 'cust-1'): CanonicalSalesOrder {
+  return {
+    meta: {
+      case_id: 'case-1',
+      file_sha256: 'abc',
+      received_at: new Date().toISOString(),
+    },
+    customer: {
+      spreadsheet_name: 'Acme',
+      zoho_customer_id: customerId,
+      zoho_customer_name: 'Acme Corp',
+    },
+    line_items: lines.map((line, index) => ({
+      row: line.row ?? index,
+      sku: line.item,
+      gtin: null,
+      product_name: `Product ${line.item}`,
+      quantity: line.quantity,
+      unit: line.unit,
+      unit_price_spreadsheet: null,
+      zoho_item_id: line.item,
+      zoho_item_name: null,
+      unit_price_zoho: null,
+    })),
+  };
+}
+
+describe('diffSalesOrderLines', () => {
+  it('should report added, removed and changed lines', () => {
+    const diff = diffSalesOrderLines(
+      order([
+        { item: 'A', quantity: 10 },
+        { item: 'B', quantity: 5 },
+        { item: 'C', quantity: 1 },
+      ]),
+      order([
+        { item: 'A', quantity: 10 },
+        { item: 'B', quantity: 8 },
+        { item: 'D', quantity: 2 },
+      ])
+    );
+
+    expect(diff.unchanged_lines).toBe(1);
+    expect(diff.customer_changed).toBe(false);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ change: 'changed', zoho_item_id: 'B', previous_quantity: 5, amended_quantity: 8 }),
+      expect.objectContaining({ change: 'added', zoho_item_id: 'D', previous_row: null, amended_row: 2 }),
+      expect.objectContaining({ change: 'removed', zoho_item_id: 'C', previous_row: 2, amended_row: null }),
+    ]);
+    expect(diff.changes[0].item_name).toBe('Product B');
+  });
+
+  it('should match lines by item and unit regardless of row', () => {
+    const diff = diffSalesOrderLines(
+      order([
+        { item: 'A', quantity: 2, unit: 'Carton' },
+        { item: 'A', quantity: 24 },
+      ]),
+      order([
+        { item: 'A', quantity: 24, row: 5 },
+        { item: 'A', quantity: 2, unit: 'ctn', row: 6 },
+      ])
+    );
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchanged_lines).toBe(2);
+    expect(hasSalesOrderChanges(diff)).toBe(false);
+  });
+
+  it('should pair repeated items in row order', () => {
+    const diff = diffSalesOrderLines(
+      order([
+        { item: 'A', quantity: 1 },
+        { item: 'A', quantity: 2 },
+      ]),
+      order([{ item: 'A', quantity: 1 }])
+    );
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ change: 'removed', previous_row: 1, previous_quantity: 2 }),
+    ]);
+  });
+
+  it('should ignore unresolved lines and flag a customer change', () => {
+    const diff = diffSalesOrderLines(
+      order([{ item: 'A', quantity: 1 }]),
+      order(
+        [
+          { item: 'A', quantity: 1 },
+          { item: null, quantity: 3 },
+        ],
+        'cust-2'
+      )
+    );
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.customer_changed).toBe(true);
+    expect(hasSalesOrderChanges(diff)).toBe(true);
+  });
+});
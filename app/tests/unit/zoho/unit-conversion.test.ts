@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SalesOrderBuilder,
+  UnitConverter,
+  buildUnitConversionTable,
+  normalizeUnit,
+} from '@order-processing/zoho';
+import type { CachedItem, CanonicalSalesOrder } from '@order-processing/zoho';
+
+/**
+ * Unit of measure conversion unit tests
+ * Tests conversion of carton/dozen quantities to Zoho stocking units
+ */
+
+function item(id: string, unit: string | undefined, packSize: number | null): CachedItem {
+  return {
+    zoho_item_id: id,
+    name: `Item ${id}`,
+    sku: id,
+    gtin: null,
+    rate: 2,
+    unit,
+    unit_conversions: buildUnitConversionTable(unit, packSize),
+    status: 'active',
+    last_cached_at: new Date().toISOString(),
+  };
+}
+
+function order(lines: Array<{ item: string; quantity: number; unit?: string | null }>): CanonicalSalesOrder {
+  return {
+    meta: {
+      case_id: 'case-1',
+      file_sha256: 'abc',
+      received_at: new Date().toISOString(),
+    },
+    customer: {
+      spreadsheet_name: 'Acme',
+      zoho_customer_id: 'cust-1',
+      zoho_customer_name: 'Acme Corp',
+    },
+    line_items: lines.map((line, index) => ({
+      row: index,
+      sku: line.item,
+      gtin: null,
+      product_name: null,
+      quantity: line.quantity,
+      unit: line.unit,
+      unit_price_spreadsheet: null,
+      zoho_item_id: line.item,
+      zoho_item_name: null,
+      unit_price_zoho: null,
+    })),
+  };
+}
+
+const items = new Map<string, CachedItem>([
+  ['pcs-24', item('pcs-24', 'pcs', 24)],
+  ['ctn-12', item('ctn-12', 'Carton', 12)],
+  ['kg', item('kg', 'kg', null)],
+]);
+
+describe('buildUnitConversionTable', () => {
+  it('should express every unit in pieces for items stocked per piece', () => {
+    expect(buildUnitConversionTable('pcs', 24)).toEqual({
+      piece: 1,
+      dozen: 12,
+      pack: 24,
+      box: 24,
+      carton: 24,
+    });
+  });
+
+  it('should express units in cartons for items stocked per carton', () => {
+    const table = buildUnitConversionTable('ctn', 12);
+    expect(table.carton).toBe(1);
+    expect(table.dozen).toBe(1);
+    expect(table.piece).toBeCloseTo(1 / 12);
+  });
+
+  it('should only know the stocking unit when the pack size is missing', () => {
+    expect(buildUnitConversionTable('carton', null)).toEqual({ carton: 1 });
+    expect(buildUnitConversionTable('kg', null)).toEqual({});
+  });
+
+  it('should recognize Zoho and Farsi unit names', () => {
+    expect(normalizeUnit('Nos')).toBe('piece');
+    expect(normalizeUnit('کارتن')).toBe('carton');
+  });
+});
+
+describe('UnitConverter', () => {
+  const converter = new UnitConverter();
+
+  it('should convert cartons and dozens to pieces', () => {
+    const result = converter.convertOrder(
+      order([
+        { item: 'pcs-24', quantity: 3, unit: 'carton' },
+        { item: 'pcs-24', quantity: 2, unit: 'dozen' },
+      ]),
+      items
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.order.line_items.map((line) => line.quantity)).toEqual([72, 24]);
+    expect(result.order.line_items.every((line) => line.unit === null)).toBe(true);
+    expect(result.conversions[0]).toMatchObject({ source_unit: 'carton', factor: 24, quantity: 72 });
+  });
+
+  it('should leave lines without a unit unchanged', () => {
+    const result = converter.convertOrder(order([{ item: 'kg', quantity: 2.5 }]), items);
+
+    expect(result.issues).toEqual([]);
+    expect(result.conversions).toEqual([]);
+    expect(result.order.line_items[0].quantity).toBe(2.5);
+  });
+
+  it('should flag quantities that are not a whole number of stocking units', () => {
+    const result = converter.convertOrder(
+      order([{ item: 'ctn-12', quantity: 30, unit: 'piece' }]),
+      items
+    );
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      code: 'UOM_FRACTIONAL_QUANTITY',
+      severity: 'error',
+      row: 0,
+    });
+    expect(result.order.line_items[0].quantity).toBe(2.5);
+  });
+
+  it('should flag units without a conversion for the item', () => {
+    const result = converter.convertOrder(
+      order([{ item: 'kg', quantity: 4, unit: 'carton' }]),
+      items
+    );
+
+    expect(result.issues[0].code).toBe('UOM_CONVERSION_MISSING');
+    expect(result.order.line_items[0]).toMatchObject({ quantity: 4, unit: 'carton' });
+  });
+
+  it('should check a single line before approval', () => {
+    const line = { row: 3, quantity: 30, unit: 'piece', zoho_item_id: 'ctn-12' };
+
+    const result = converter.convertLine(line, items.get('ctn-12'));
+
+    expect(result.issue).toMatchObject({ code: 'UOM_FRACTIONAL_QUANTITY', row: 3 });
+    expect(converter.convertLine({ ...line, quantity: 24 }, items.get('ctn-12')).issue).toBeUndefined();
+    expect(converter.convertLine(line, undefined)).toEqual({ line });
+  });
+});
+
+describe('SalesOrderBuilder with units', () => {
+  const builder = new SalesOrderBuilder();
+  const rates = new Map([['pcs-24', 2]]);
+
+  it('should refuse lines whose quantity was not converted', () => {
+    expect(() =>
+      builder.buildSalesOrderPayload(order([{ item: 'pcs-24', quantity: 3, unit: 'carton' }]), rates)
+    ).toThrow(/must be converted/);
+  });
+
+  it('should send converted quantities', () => {
+    const converted = new UnitConverter().convertOrder(
+      order([{ item: 'pcs-24', quantity: 3, unit: 'carton' }]),
+      items
+    );
+
+    const payload = builder.buildSalesOrderPayload(converted.order, rates);
+
+    expect(payload.line_items[0]).toMatchObject({ item_id: 'pcs-24', quantity: 72, rate: 2 });
+  });
+});
@@ -48,7 +48,9 @@ export default defineConfig({
       '@order-processing/parser': path.resolve(__dirname, '../services/parser/src'),
       '@order-processing/committee': path.resolve(__dirname, '../services/committee/src'),
       '@order-processing/zoho': path.resolve(__dirname, '../services/zoho/src'),
+      '@order-processing/storage': path.resolve(__dirname, '../services/storage/src'),
       '@order-processing/api': path.resolve(__dirname, '../services/api/src'),
+      '@order-processing/mail-intake': path.resolve(__dirname, '../services/mail-intake/src'),
       '@tests/mocks': path.resolve(__dirname, './mocks'),
       '@tests/utils': path.resolve(__dirname, './utils')
     }